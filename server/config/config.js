@@ -21,7 +21,9 @@ const config = {
   
   // Express configuration
   express: {
-    jsonLimit: '6mb'
+    jsonLimit: '6mb',
+    // Raw .blockscape uploads (POST /api/games/import)
+    importLimit: '12mb'
   },
   
   // In-memory demo content
@@ -63,6 +65,15 @@ const config = {
     maxThumbnailSize: 5000000, // 5MB
     maxGuestNameLength: 20,
     maxScoreTimeMs: 10 * 60 * 1000, // 10 minutes
+    // Leaderboard run validation (see services/runValidation.js)
+    runValidation: {
+      maxHorizontalSpeed: 25,  // m/s; controller max speed with dash/boost headroom
+      maxRiseSpeed: 30,        // m/s; jumps and bouncy blocks
+      maxSampleGapMs: 1000,    // clients sample every ~100ms
+      timeToleranceMs: 250,
+      maxSamples: 20000,
+      proximity: 3             // m; how close counts as touching a block
+    },
     // CSRF double-submit cookie/header names and TTL
     csrf: {
       cookieName: process.env.CSRF_COOKIE_NAME || 'csrf_token',
@@ -105,6 +116,28 @@ const config = {
     validSessionTypes: ['edit', 'play']
   },
   
+  // Marketplace wallets; amounts are integer minor units (grosze for PLN)
+  wallet: {
+    currency: process.env.WALLET_CURRENCY || 'PLN',
+    startingBalance: Number(process.env.WALLET_STARTING_BALANCE || 0)
+  },
+
+  // Skin marketplace listings
+  marketplace: {
+    maxRoyaltyPercent: 50,
+    minAuctionHours: 1,
+    maxAuctionHours: 7 * 24,
+    auctionSweepIntervalMs: 60 * 1000
+  },
+
+  // User model uploads (GLB), enforced on upload
+  assets: {
+    maxModelBytes: Number(process.env.ASSET_MAX_MODEL_BYTES || 8 * 1024 * 1024),
+    maxTriangles: Number(process.env.ASSET_MAX_TRIANGLES || 100000),
+    maxAssetsPerUser: Number(process.env.ASSET_MAX_PER_USER || 50),
+    maxNameLength: 60
+  },
+  
   // API Routes configuration
   routes: {
     auth: '/api/auth',
@@ -113,7 +146,10 @@ const config = {
     chat: '/api/chat',
     games: '/api/games',
     news: '/api/news',
-    realtime: '/api/realtime'
+    realtime: '/api/realtime',
+    skins: '/api/skins',
+    wallet: '/api/wallet',
+    assets: '/api/assets'
   },
   // Logging
   logging: {
@@ -0,0 +1,112 @@
+import config from '../config/config.js';
+import prisma from '../config/database.js';
+import { logAudit } from '../utils/auth.js';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { GLB_MIME_TYPE, GlbError, inspectGlb } from '../../src/shared/assets/glbInspect.js';
+
+// Everything but the model bytes
+const ASSET_SELECT = { id: true, name: true, mimeType: true, size: true, triangles: true, bounds: true, createdAt: true };
+
+const toAssetOut = (asset) => ({
+  id: asset.id,
+  name: asset.name,
+  size: asset.size,
+  triangles: asset.triangles,
+  bounds: asset.bounds ? JSON.parse(asset.bounds) : null,
+  url: `${config.routes.assets}/${asset.id}/file`,
+  createdAt: asset.createdAt,
+});
+
+/**
+ * List the current user's model assets
+ */
+export async function listMyAssets(req, res) {
+  const assets = await prisma.userAsset.findMany({
+    where: { ownerId: req.auth.userId },
+    orderBy: { createdAt: 'desc' },
+    select: ASSET_SELECT,
+  });
+  res.json({ assets: assets.map(toAssetOut) });
+}
+
+/**
+ * Upload a GLB model (raw request body, name in `?name=`). Size, triangle
+ * and per-user limits come from config.assets.
+ */
+export async function uploadAsset(req, res) {
+  const { maxModelBytes, maxTriangles, maxAssetsPerUser, maxNameLength } = config.assets;
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    throw new ValidationError('Model file is required');
+  }
+  if (req.body.length > maxModelBytes) {
+    throw new ValidationError(`Model is larger than ${Math.floor(maxModelBytes / (1024 * 1024))} MB`);
+  }
+  const name = String(req.query.name || '').trim().replace(/\.glb$/i, '') || 'Model';
+  if (name.length > maxNameLength) {
+    throw new ValidationError(`Name must be at most ${maxNameLength} characters`, 'name');
+  }
+
+  let info;
+  try {
+    info = inspectGlb(new Uint8Array(req.body));
+  } catch (e) {
+    if (e instanceof GlbError) throw new ValidationError(e.message);
+    throw e;
+  }
+  if (info.meshes === 0 || !info.bounds) {
+    throw new ValidationError('Model has no geometry');
+  }
+  if (info.triangles > maxTriangles) {
+    throw new ValidationError(`Model has ${info.triangles} triangles; the limit is ${maxTriangles}`);
+  }
+
+  const count = await prisma.userAsset.count({ where: { ownerId: req.auth.userId } });
+  if (count >= maxAssetsPerUser) {
+    throw new ValidationError(`You can keep at most ${maxAssetsPerUser} models`);
+  }
+
+  const asset = await prisma.userAsset.create({
+    data: {
+      ownerId: req.auth.userId,
+      name,
+      mimeType: GLB_MIME_TYPE,
+      size: req.body.length,
+      triangles: info.triangles,
+      bounds: JSON.stringify(info.bounds),
+      data: req.body,
+    },
+    select: ASSET_SELECT,
+  });
+  await logAudit(req, 'asset.upload', req.auth.userId, { assetId: asset.id, size: asset.size, triangles: asset.triangles });
+  res.status(201).json({ asset: toAssetOut(asset) });
+}
+
+/**
+ * Serve a model file. Public so published levels load for every player;
+ * ids are unguessable and assets are immutable once uploaded.
+ */
+export async function getAssetFile(req, res) {
+  const asset = await prisma.userAsset.findUnique({
+    where: { id: req.params.id },
+    select: { mimeType: true, data: true },
+  });
+  if (!asset) {
+    throw new NotFoundError('Asset not found');
+  }
+  res.setHeader('Content-Type', asset.mimeType);
+  res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+  res.send(Buffer.from(asset.data));
+}
+
+/**
+ * Delete one of the current user's assets. Levels that still place it show
+ * a placeholder block.
+ */
+export async function deleteAsset(req, res) {
+  const { count } = await prisma.userAsset.deleteMany({ where: { id: req.params.id, ownerId: req.auth.userId } });
+  if (count === 0) {
+    throw new NotFoundError('Asset not found');
+  }
+  await logAudit(req, 'asset.delete', req.auth.userId, { assetId: req.params.id });
+  res.json({ ok: true });
+}
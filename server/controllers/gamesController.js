@@ -1,8 +1,20 @@
 import config from '../config/config.js';
 import prisma from '../config/database.js';
 import { logAudit, verifyGameAccess } from '../utils/auth.js';
-import { ValidationError, NotFoundError, ForbiddenError } from '../middleware/errorHandler.js';
+import { ValidationError, NotFoundError, ForbiddenError, AuthorizationError } from '../middleware/errorHandler.js';
 import { parsePagination, parseSort, cleanSearchQuery } from '../utils/helpers.js';
+import { validateRun } from '../services/runValidation.js';
+import { encodeReplay, decodeReplay, sanitizeReplaySkin } from '../services/replayCodec.js';
+import { defaultModeConfig, isGameMode, parseModeConfig } from '../../src/shared/gameModes/modeConfig.js';
+import {
+  BLOCKSCAPE_EXTENSION,
+  BLOCKSCAPE_MIME_TYPE,
+  BlockscapeArchiveError,
+  createBlockscapeArchive,
+  readBlockscapeArchive,
+} from '../../src/shared/projects/blockscapeArchive.js';
+import { validateProject } from '../../src/shared/projects/validateProject.js';
+import { zipSync } from 'fflate';
 import crypto from 'crypto';
 
 /**
@@ -268,7 +280,16 @@ export async function bulkDeleteGames(req, res) {
 }
 
 /**
- * Export games as JSON (with access check). Sets Content-Disposition header.
+ * File-name-safe slug for archive names
+ */
+function archiveSlug(name) {
+  const slug = String(name || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || 'project';
+}
+
+/**
+ * Export games as `.blockscape` archives (with access check). One id sends
+ * the archive itself; several are bundled into a zip of archives.
  */
 export async function exportGames(req, res) {
   const { ids } = req.body || {};
@@ -283,13 +304,100 @@ export async function exportGames(req, res) {
         { members: { some: { userId: req.auth.userId } } },
       ],
     },
-    select: { id: true, name: true, blocks: true, published: true, updatedAt: true },
+    select: {
+      id: true, name: true, blocks: true, mode: true, modeConfig: true, terrain: true,
+      logic: true, animations: true, selectionSets: true, prefabs: true, environment: true, thumbnail: true, updatedAt: true,
+    },
   });
-  const out = list.map(g => ({ id: g.id, name: g.name, blocks: JSON.parse(g.blocks || '[]'), published: g.published || false, updatedAt: g.updatedAt }));
-  const filename = `blockscape-projects-${new Date().toISOString().slice(0,10)}.json`;
+  if (list.length === 0) {
+    throw new NotFoundError('Game not found');
+  }
+
+  const exportedAt = new Date().toISOString();
+  const archives = list.map(g => ({
+    name: g.name,
+    bytes: createBlockscapeArchive({
+      name: g.name,
+      blocks: JSON.parse(g.blocks || '[]'),
+      mode: g.mode,
+      modeConfig: g.modeConfig,
+      terrain: g.terrain,
+      logic: JSON.parse(g.logic || '[]'),
+      animations: JSON.parse(g.animations || '[]'),
+      selectionSets: JSON.parse(g.selectionSets || '[]'),
+      prefabs: JSON.parse(g.prefabs || '[]'),
+      environment: g.environment ? JSON.parse(g.environment) : null,
+    }, { thumbnail: g.thumbnail, exportedAt, source: { gameId: g.id, updatedAt: g.updatedAt } }),
+  }));
+
+  let filename;
+  let body;
+  if (archives.length === 1) {
+    filename = `${archiveSlug(archives[0].name)}${BLOCKSCAPE_EXTENSION}`;
+    body = archives[0].bytes;
+    res.setHeader('Content-Type', BLOCKSCAPE_MIME_TYPE);
+  } else {
+    const files = {};
+    for (const archive of archives) {
+      let entry = `${archiveSlug(archive.name)}${BLOCKSCAPE_EXTENSION}`;
+      for (let n = 2; files[entry]; n++) entry = `${archiveSlug(archive.name)}-${n}${BLOCKSCAPE_EXTENSION}`;
+      // Archives are already deflated
+      files[entry] = [archive.bytes, { level: 0 }];
+    }
+    filename = `blockscape-projects-${exportedAt.slice(0, 10)}.zip`;
+    body = zipSync(files);
+    res.setHeader('Content-Type', 'application/zip');
+  }
+  await logAudit(req, 'game.export', req.auth.userId, { count: archives.length });
   res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
-  res.setHeader('Content-Type', 'application/json');
-  res.json(out);
+  res.send(Buffer.from(body));
+}
+
+/**
+ * Import a `.blockscape` archive (raw request body) as a new private game
+ */
+export async function importGame(req, res) {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    throw new ValidationError('Archive is required');
+  }
+  let archive;
+  try {
+    archive = readBlockscapeArchive(new Uint8Array(req.body));
+  } catch (e) {
+    if (e instanceof BlockscapeArchiveError) throw new ValidationError(e.message);
+    throw e;
+  }
+  const { project, thumbnail } = archive;
+
+  const validation = validateProject(project);
+  if (!validation.isValid) {
+    throw new ValidationError(validation.errors.join('; '));
+  }
+
+  const gameMode = isGameMode(project.mode) ? project.mode : 'PARKOUR';
+  const game = await prisma.game.create({
+    data: {
+      name: project.name.trim(),
+      blocks: JSON.stringify(project.blocks),
+      published: false,
+      mode: gameMode,
+      ...(project.modeConfig ? { modeConfig: normalizeModeConfig(gameMode, project.modeConfig) } : {}),
+      ...(project.terrain ? { terrain: JSON.stringify(project.terrain) } : {}),
+      logic: JSON.stringify(project.logic),
+      animations: JSON.stringify(project.animations),
+      selectionSets: JSON.stringify(project.selectionSets),
+      prefabs: JSON.stringify(project.prefabs),
+      ...(project.environment ? { environment: JSON.stringify(project.environment) } : {}),
+      ...(thumbnail && thumbnail.length < config.security.maxThumbnailSize ? { thumbnail } : {}),
+      owner: { connect: { id: req.auth.userId } },
+    },
+  });
+
+  await logAudit(req, 'game.import', req.auth.userId, { gameId: game.id, blocks: project.blocks.length });
+  res.status(201).json({
+    game: { id: game.id, name: game.name, mode: game.mode, updatedAt: game.updatedAt },
+    warnings: validation.warnings,
+  });
 }
 
 /**
@@ -397,20 +505,38 @@ export async function duplicateGame(req, res) {
   res.status(201).json({ game: { id: created.id, name: created.name, updatedAt: created.updatedAt } });
 }
 
+/**
+ * Validate a modeConfig string against its mode and return it normalized
+ * (defaults filled in), so only configs the play runtimes accept are stored.
+ */
+function normalizeModeConfig(mode, modeConfig) {
+  const parsed = parseModeConfig(mode, modeConfig);
+  if (!parsed.ok) {
+    throw new ValidationError(`modeConfig is invalid for ${mode}: ${parsed.errors.join('; ')}`, 'modeConfig');
+  }
+  return JSON.stringify(parsed.config);
+}
+
 /**
  * Create new game
  */
 export async function createGame(req, res) {
-  const { name = 'Untitled Project', blocks = [], published = false, thumbnail, visibility, mode, modeConfig, terrain } = req.body;
+  const { name = 'Untitled Project', blocks = [], published = false, thumbnail, visibility, mode, modeConfig, terrain, logic, animations, selectionSets, prefabs, environment } = req.body;
+  const gameMode = isGameMode(mode) ? mode : 'PARKOUR';
   
   const baseData = {
     name,
     blocks: JSON.stringify(blocks ?? []),
     published: !!published,
     ...(visibility && ['PRIVATE','FRIENDS','PUBLIC'].includes(visibility) ? { visibility } : {}),
-    ...(mode && ['PARKOUR','PVP','RACE','SANDBOX'].includes(mode) ? { mode } : { mode: 'PARKOUR' }),
-    ...(typeof modeConfig === 'string' ? { modeConfig } : {}),
+    mode: gameMode,
+    ...(typeof modeConfig === 'string' ? { modeConfig: normalizeModeConfig(gameMode, modeConfig) } : {}),
     ...(typeof terrain === 'string' ? { terrain } : {}),
+    ...(Array.isArray(logic) ? { logic: JSON.stringify(logic) } : {}),
+    ...(Array.isArray(animations) ? { animations: JSON.stringify(animations) } : {}),
+    ...(Array.isArray(selectionSets) ? { selectionSets: JSON.stringify(selectionSets) } : {}),
+    ...(Array.isArray(prefabs) ? { prefabs: JSON.stringify(prefabs) } : {}),
+    ...(environment && typeof environment === 'object' ? { environment: JSON.stringify(environment) } : {}),
     owner: { connect: { id: req.auth.userId } }
   };
   
@@ -420,7 +546,7 @@ export async function createGame(req, res) {
       ...(typeof thumbnail === 'string' && thumbnail.length < config.security.maxThumbnailSize ? { thumbnail } : {}),
     };
     const game = await prisma.game.create({ data });
-    const gameOut = { ...game, blocks: JSON.parse(game.blocks || '[]') };
+    const gameOut = { ...game, blocks: JSON.parse(game.blocks || '[]'), logic: JSON.parse(game.logic || '[]'), animations: JSON.parse(game.animations || '[]'), selectionSets: JSON.parse(game.selectionSets || '[]'), prefabs: JSON.parse(game.prefabs || '[]'), environment: game.environment ? JSON.parse(game.environment) : null };
     
     await logAudit(req, 'game.create', req.auth.userId, { gameId: game.id });
     res.status(201).json({ game: gameOut });
@@ -429,7 +555,7 @@ export async function createGame(req, res) {
     try {
       const { thumbnail: _thumb, ...noThumb } = baseData;
       const game = await prisma.game.create({ data: noThumb });
-      const gameOut = { ...game, blocks: JSON.parse(game.blocks || '[]') };
+      const gameOut = { ...game, blocks: JSON.parse(game.blocks || '[]'), logic: JSON.parse(game.logic || '[]'), animations: JSON.parse(game.animations || '[]'), selectionSets: JSON.parse(game.selectionSets || '[]'), prefabs: JSON.parse(game.prefabs || '[]'), environment: game.environment ? JSON.parse(game.environment) : null };
       await logAudit(req, 'game.create', req.auth.userId, { 
         gameId: game.id, 
         note: 'fallback_without_thumbnail' 
@@ -439,7 +565,7 @@ export async function createGame(req, res) {
       // Retry without thumbnail and without published (very old schema)
       const { thumbnail: _t, published: _p, ...legacy } = baseData;
       const game = await prisma.game.create({ data: legacy });
-      const gameOut = { ...game, blocks: JSON.parse(game.blocks || '[]') };
+      const gameOut = { ...game, blocks: JSON.parse(game.blocks || '[]'), logic: JSON.parse(game.logic || '[]'), animations: JSON.parse(game.animations || '[]'), selectionSets: JSON.parse(game.selectionSets || '[]'), prefabs: JSON.parse(game.prefabs || '[]'), environment: game.environment ? JSON.parse(game.environment) : null };
       await logAudit(req, 'game.create', req.auth.userId, { 
         gameId: game.id, 
         note: 'fallback_without_thumbnail_and_published' 
@@ -473,6 +599,11 @@ export async function getGame(req, res) {
     mode: game.mode || 'PARKOUR',
     modeConfig: game.modeConfig || null,
     terrain: game.terrain || null,
+    logic: JSON.parse(game.logic || '[]'),
+    animations: JSON.parse(game.animations || '[]'),
+    selectionSets: JSON.parse(game.selectionSets || '[]'),
+    prefabs: JSON.parse(game.prefabs || '[]'),
+    environment: game.environment ? JSON.parse(game.environment) : null,
   };
   res.json({ game: gameOut });
 }
@@ -514,13 +645,16 @@ export async function getPublicGame(req, res) {
         mode: true,
         modeConfig: true,
         terrain: true,
+        logic: true,
+        animations: true,
+        environment: true,
         _count: { select: { likes: true } } 
       },
     });
   } catch (e) {
     game = await prisma.game.findFirst({
       where: { id: req.params.id },
-      select: { id: true, name: true, blocks: true, updatedAt: true, mode: true, modeConfig: true, terrain: true },
+      select: { id: true, name: true, blocks: true, updatedAt: true, mode: true, modeConfig: true, terrain: true, logic: true, animations: true, environment: true },
     });
   }
   
@@ -536,6 +670,9 @@ export async function getPublicGame(req, res) {
     mode: game.mode || 'PARKOUR',
     modeConfig: game.modeConfig || null,
     terrain: game.terrain || null,
+    logic: JSON.parse(game.logic || '[]'),
+    animations: JSON.parse(game.animations || '[]'),
+    environment: game.environment ? JSON.parse(game.environment) : null,
     likes: game._count?.likes || 0 
   };
   res.json({ game: out });
@@ -555,16 +692,37 @@ export async function updateGame(req, res) {
     throw new ForbiddenError('You do not have permission to edit this game');
   }
   
-  const { name, blocks, published, thumbnail, visibility, mode, modeConfig, terrain } = req.body;
+  const { name, blocks, published, thumbnail, visibility, mode, modeConfig, terrain, logic, animations, selectionSets, prefabs, environment } = req.body;
+  
+  // A config is only meaningful for its mode: check new configs against the
+  // effective mode, and drop a stored config the new mode no longer accepts
+  let modeData = {};
+  if (isGameMode(mode) || typeof modeConfig === 'string') {
+    const stored = await prisma.game.findUnique({
+      where: { id: req.params.id },
+      select: { mode: true, modeConfig: true }
+    });
+    const gameMode = isGameMode(mode) ? mode : (stored?.mode ?? 'PARKOUR');
+    if (typeof modeConfig === 'string') {
+      modeData = { modeConfig: normalizeModeConfig(gameMode, modeConfig) };
+    } else if (gameMode !== stored?.mode && !parseModeConfig(gameMode, stored?.modeConfig).ok) {
+      modeData = { modeConfig: JSON.stringify(defaultModeConfig(gameMode)) };
+    }
+    if (isGameMode(mode)) modeData.mode = mode;
+  }
   
   const updateData = {
     ...(name !== undefined ? { name } : {}),
     ...(blocks !== undefined ? { blocks: JSON.stringify(blocks) } : {}),
     ...(typeof published === 'boolean' ? { published } : {}),
     ...(visibility && ['PRIVATE','FRIENDS','PUBLIC'].includes(visibility) ? { visibility } : {}),
-    ...(mode && ['PARKOUR','PVP','RACE','SANDBOX'].includes(mode) ? { mode } : {}),
-    ...(typeof modeConfig === 'string' ? { modeConfig } : {}),
+    ...modeData,
     ...(typeof terrain === 'string' ? { terrain } : {}),
+    ...(Array.isArray(logic) ? { logic: JSON.stringify(logic) } : {}),
+    ...(Array.isArray(animations) ? { animations: JSON.stringify(animations) } : {}),
+    ...(Array.isArray(selectionSets) ? { selectionSets: JSON.stringify(selectionSets) } : {}),
+    ...(Array.isArray(prefabs) ? { prefabs: JSON.stringify(prefabs) } : {}),
+    ...(environment && typeof environment === 'object' ? { environment: JSON.stringify(environment) } : {}),
     ...(typeof thumbnail === 'string' && thumbnail.length < config.security.maxThumbnailSize ? { thumbnail } : {}),
   };
   
@@ -573,7 +731,7 @@ export async function updateGame(req, res) {
       where: { id: req.params.id }, 
       data: updateData 
     });
-    const gameOut = { ...game, blocks: JSON.parse(game.blocks || '[]') };
+    const gameOut = { ...game, blocks: JSON.parse(game.blocks || '[]'), logic: JSON.parse(game.logic || '[]'), animations: JSON.parse(game.animations || '[]'), selectionSets: JSON.parse(game.selectionSets || '[]'), prefabs: JSON.parse(game.prefabs || '[]'), environment: game.environment ? JSON.parse(game.environment) : null };
     
     await logAudit(req, 'game.update', req.auth.userId, { gameId: req.params.id });
     res.json({ game: gameOut });
@@ -584,7 +742,7 @@ export async function updateGame(req, res) {
       where: { id: req.params.id }, 
       data: noThumb 
     });
-    const gameOut = { ...game, blocks: JSON.parse(game.blocks || '[]') };
+    const gameOut = { ...game, blocks: JSON.parse(game.blocks || '[]'), logic: JSON.parse(game.logic || '[]'), animations: JSON.parse(game.animations || '[]'), selectionSets: JSON.parse(game.selectionSets || '[]'), prefabs: JSON.parse(game.prefabs || '[]'), environment: game.environment ? JSON.parse(game.environment) : null };
     
     await logAudit(req, 'game.update', req.auth.userId, { 
       gameId: req.params.id, 
@@ -766,35 +924,107 @@ export async function getLeaderboard(req, res) {
   });
 }
 
+/**
+ * Get the ghost replay of the best run (scope=best) or the caller's
+ * personal best (scope=personal)
+ */
+export async function getGhost(req, res) {
+  const id = req.params.id;
+  const scope = req.query.scope === 'personal' ? 'personal' : 'best';
+  
+  if (scope === 'personal' && !req.auth?.userId) {
+    throw new AuthorizationError('Login required for personal best');
+  }
+  
+  // Same visibility as the game itself: published/public, or a viewer with access
+  const access = await verifyGameAccess(id, req.auth?.userId || null);
+  if (!access || !access.canView) {
+    throw new NotFoundError('Game not found');
+  }
+  
+  const score = await prisma.score.findFirst({
+    where: {
+      gameId: id,
+      replay: { not: null },
+      ...(scope === 'personal' ? { userId: req.auth.userId } : {})
+    },
+    orderBy: [{ timeMs: 'asc' }, { createdAt: 'asc' }],
+    select: {
+      id: true,
+      timeMs: true,
+      replay: true,
+      skin: true,
+      user: { select: { name: true } }
+    }
+  });
+  
+  if (!score) {
+    throw new NotFoundError('Replay not found');
+  }
+  
+  // A stored replay that no longer decodes is gone as far as the client is concerned
+  let samples;
+  try {
+    samples = decodeReplay(score.replay);
+  } catch {
+    throw new NotFoundError('Replay not found');
+  }
+  
+  let skin = null;
+  try { skin = score.skin ? sanitizeReplaySkin(JSON.parse(score.skin)) : null; } catch { skin = null; }
+  
+  res.json({
+    ghost: {
+      scoreId: score.id,
+      name: score.user?.name || 'Gracz',
+      timeMs: score.timeMs,
+      samples,
+      skin
+    }
+  });
+}
+
 /**
  * Submit score to leaderboard
  */
 export async function submitScore(req, res) {
   const id = req.params.id;
-  const { timeMs } = req.body;
+  const { timeMs, run, skin } = req.body;
   
   // Validation is done by middleware
   
   // Check if game exists and is published
   const game = await prisma.game.findFirst({
     where: { id, OR: [ { published: true }, { visibility: 'PUBLIC' } ] },
-    select: { id: true }
+    select: { id: true, blocks: true }
   });
   
   if (!game) {
     throw new NotFoundError('Game not found');
   }
   
+  // Replay the run record against the level before trusting the time
+  let blocks = [];
+  try { blocks = JSON.parse(game.blocks || '[]'); } catch {}
+  const verdict = validateRun(run, blocks, timeMs);
+  if (!verdict.valid) {
+    await logAudit(req, 'game.score.rejected', req.auth.userId, { gameId: id, timeMs, reasons: verdict.reasons });
+    throw new ValidationError('Run could not be verified', 'run');
+  }
+  
+  const runnerSkin = sanitizeReplaySkin(skin);
   const created = await prisma.score.create({ 
     data: { 
       userId: req.auth.userId, 
       gameId: id, 
-      timeMs 
+      timeMs: verdict.timeMs,
+      replay: encodeReplay(run.samples),
+      skin: runnerSkin ? JSON.stringify(runnerSkin) : null
     } 
   });
   
-  await logAudit(req, 'game.score.submit', req.auth.userId, { gameId: id, timeMs });
-  res.status(201).json({ id: created.id });
+  await logAudit(req, 'game.score.submit', req.auth.userId, { gameId: id, timeMs: verdict.timeMs });
+  res.status(201).json({ id: created.id, timeMs: verdict.timeMs });
 }
 
 /**
@@ -1,24 +1,79 @@
+import config from '../config/config.js';
 import prisma from '../config/database.js';
+import { InsufficientFundsError } from '../middleware/errorHandler.js';
+import { getOrCreateWallet, runWalletTransaction } from '../services/walletService.js';
+import { LISTING_TYPES, completeSale, minimumBid } from '../services/skinMarketService.js';
 
 const ACTIVE_LISTING_INCLUDE = { include: { skin: true } };
+// Highest bid and bid count for auction cards
+const LISTING_BIDS_INCLUDE = {
+	bids: { orderBy: [{ amount: 'desc' }, { createdAt: 'asc' }], take: 1 },
+	_count: { select: { bids: true } },
+};
 
 const validatePrice = (price) => {
 	const numeric = typeof price === "string" ? Number(price) : price;
-	if (!Number.isFinite(numeric) || numeric <= 0) {
+	// Prices are whole minor units; rounding would turn 0.5 into a free listing
+	if (!Number.isInteger(numeric) || numeric <= 0) {
 		throw new Error("Invalid price");
 	}
-	return Math.floor(numeric);
+	return numeric;
+};
+
+// Listings are paid from wallets, so they can only be priced in the wallet currency
+const validateCurrency = (currency) => {
+	if (currency !== undefined && currency !== config.wallet.currency) {
+		throw new Error(`Currency must be ${config.wallet.currency}`);
+	}
+};
+
+const validateRoyalty = (royaltyPercent) => {
+	const numeric = typeof royaltyPercent === "string" ? Number(royaltyPercent) : royaltyPercent;
+	const max = config.marketplace.maxRoyaltyPercent;
+	if (!Number.isInteger(numeric) || numeric < 0 || numeric > max) {
+		throw new Error(`Royalty must be a whole percentage between 0 and ${max}`);
+	}
+	return numeric;
+};
+
+const validateAuction = ({ durationHours, minIncrement }) => {
+	const { minAuctionHours, maxAuctionHours } = config.marketplace;
+	const hours = Number(durationHours);
+	if (!Number.isFinite(hours) || hours < minAuctionHours || hours > maxAuctionHours) {
+		throw new Error(`Auction duration must be between ${minAuctionHours} and ${maxAuctionHours} hours`);
+	}
+	const increment = minIncrement === undefined || minIncrement === null ? 1 : Number(minIncrement);
+	if (!Number.isInteger(increment) || increment < 1) {
+		throw new Error("Invalid minimum bid increment");
+	}
+	return { endsAt: new Date(Date.now() + hours * 60 * 60 * 1000), minIncrement: increment };
+};
+
+// Bids and offers are only accepted from wallets that could pay them right now
+const hasFunds = async (userId, amount) => {
+	const wallet = await getOrCreateWallet(prisma, userId);
+	return wallet.balance >= amount ? null : wallet.balance;
 };
 
 export async function createSkin(req, res) {
-	const { name, data, thumbnail, published } = req.body || {};
+	const { name, data, thumbnail, published, royaltyPercent } = req.body || {};
 	if (!name || typeof data !== 'string') return res.status(400).json({ error: 'Invalid payload' });
+	let royalty = 0;
+	if (royaltyPercent !== undefined) {
+		try {
+			royalty = validateRoyalty(royaltyPercent);
+		} catch (e) {
+			return res.status(400).json({ error: e.message });
+		}
+	}
 	const skin = await prisma.skin.create({
 		data: {
 			name,
 			data,
 			thumbnail: typeof thumbnail === 'string' ? thumbnail : null,
 			published: !!published,
+			creatorId: req.auth.userId,
+			royaltyPercent: royalty,
 			owner: { connect: { id: req.auth.userId } },
 		},
 	});
@@ -35,6 +90,14 @@ export async function updateSkin(req, res) {
 	if (typeof payload.data === 'string') data.data = payload.data;
 	if (typeof payload.thumbnail === 'string') data.thumbnail = payload.thumbnail;
 	if (typeof payload.published === 'boolean') data.published = payload.published;
+	if (payload.royaltyPercent !== undefined) {
+		if (skin.creatorId !== req.auth.userId) return res.status(403).json({ error: 'Only the creator can set royalties' });
+		try {
+			data.royaltyPercent = validateRoyalty(payload.royaltyPercent);
+		} catch (e) {
+			return res.status(400).json({ error: e.message });
+		}
+	}
 	const upd = await prisma.skin.update({ where: { id }, data });
 	return res.json({ skin: upd });
 }
@@ -54,7 +117,14 @@ export async function getMySkins(req, res) {
 	const skins = await prisma.skin.findMany({
 		where: { ownerId: req.auth.userId },
 		orderBy: { updatedAt: 'desc' },
-		include: { listings: true },
+		include: {
+			listings: {
+				include: {
+					...LISTING_BIDS_INCLUDE,
+					offers: { where: { status: 'PENDING' }, orderBy: { amount: 'desc' } },
+				},
+			},
+		},
 	});
 	return res.json({ skins });
 }
@@ -66,21 +136,32 @@ export async function getPublicSkins(_req, res) {
 
 export async function createListing(req, res) {
 	const { id } = req.params;
-	const { price, currency } = req.body || {};
+	const { price, currency, type = 'FIXED', durationHours, minIncrement } = req.body || {};
 	const skin = await prisma.skin.findFirst({ where: { id, ownerId: req.auth.userId } });
 	if (!skin) return res.status(404).json({ error: 'Not found' });
+	if (!LISTING_TYPES.includes(type)) return res.status(400).json({ error: 'Invalid listing type' });
 	let normalizedPrice;
+	let auction = {};
 	try {
 		normalizedPrice = validatePrice(price);
+		validateCurrency(currency);
+		if (type === 'AUCTION') auction = validateAuction({ durationHours, minIncrement });
 	} catch (e) {
 		return res.status(400).json({ error: e.message });
 	}
+	// An auction must be the skin's only sale, otherwise a fixed sale could pull it from under the bidders
+	const active = await prisma.skinListing.findMany({ where: { skinId: id, active: true }, select: { type: true } });
+	if (active.some((l) => l.type === 'AUCTION') || (type === 'AUCTION' && active.length > 0)) {
+		return res.status(409).json({ error: 'Skin already has an active listing' });
+	}
 	const listing = await prisma.skinListing.create({
 		data: {
 			skin: { connect: { id } },
+			type,
 			price: normalizedPrice,
-			currency: typeof currency === 'string' ? currency : 'PLN',
+			currency: config.wallet.currency,
 			active: true,
+			...auction,
 		},
 	});
 	return res.status(201).json({ listing });
@@ -94,6 +175,7 @@ export async function updateListing(req, res) {
 		include: { skin: true },
 	});
 	if (!listing || listing.skin.ownerId !== req.auth.userId) return res.status(404).json({ error: 'Not found' });
+	if (listing.type === 'AUCTION') return res.status(400).json({ error: 'Auction listings cannot be changed' });
 	const data = {};
 	if (price !== undefined) {
 		try {
@@ -102,7 +184,13 @@ export async function updateListing(req, res) {
 			return res.status(400).json({ error: e.message });
 		}
 	}
-	if (currency) data.currency = currency;
+	if (currency) {
+		try {
+			validateCurrency(currency);
+		} catch (e) {
+			return res.status(400).json({ error: e.message });
+		}
+	}
 	const updated = await prisma.skinListing.update({ where: { id: listingId }, data, ...ACTIVE_LISTING_INCLUDE });
 	return res.json({ listing: updated });
 }
@@ -114,7 +202,13 @@ export async function cancelListing(req, res) {
 		include: { skin: true },
 	});
 	if (!listing || listing.skin.ownerId !== req.auth.userId) return res.status(404).json({ error: 'Not found' });
-	const updated = await prisma.skinListing.update({ where: { id: listingId }, data: { active: false }, ...ACTIVE_LISTING_INCLUDE });
+	if (listing.type === 'AUCTION' && (await prisma.skinBid.count({ where: { listingId } })) > 0) {
+		return res.status(400).json({ error: 'Auction already has bids' });
+	}
+	const [updated] = await prisma.$transaction([
+		prisma.skinListing.update({ where: { id: listingId }, data: { active: false }, ...ACTIVE_LISTING_INCLUDE }),
+		prisma.skinOffer.updateMany({ where: { listingId, status: 'PENDING' }, data: { status: 'REJECTED' } }),
+	]);
 	return res.json({ listing: updated });
 }
 
@@ -126,20 +220,136 @@ export async function purchaseListing(req, res) {
 	});
 	if (!listing) return res.status(404).json({ error: 'Not found' });
 	if (listing.skin.ownerId === req.auth.userId) return res.status(400).json({ error: 'Cannot purchase own skin' });
+	if (listing.type !== 'FIXED') return res.status(400).json({ error: 'Auction listings cannot be bought outright' });
+	if (listing.currency !== config.wallet.currency) {
+		return res.status(400).json({ error: `Listing currency ${listing.currency} is not supported` });
+	}
+	let result;
+	try {
+		// Claim, charge, pay out and transfer in one transaction; any failure rolls back all of it
+		result = await runWalletTransaction(prisma, (tx) =>
+			completeSale(tx, { listingId, buyerId: req.auth.userId, price: listing.price })
+		);
+	} catch (e) {
+		if (e instanceof InsufficientFundsError) {
+			return res.status(402).json({ error: 'Insufficient funds', balance: e.balance, price: listing.price });
+		}
+		throw e;
+	}
+	// Another buyer claimed it between the lookup and the transaction
+	if (!result) return res.status(404).json({ error: 'Not found' });
+	return res.json({ listing: result.listing, skin: result.skin, balance: result.balance });
+}
+
+export async function placeBid(req, res) {
+	const { id, listingId } = req.params;
+	const bidderId = req.auth.userId;
+	const listing = await prisma.skinListing.findFirst({
+		where: { id: listingId, skinId: id, active: true, type: 'AUCTION' },
+		include: { skin: true },
+	});
+	if (!listing) return res.status(404).json({ error: 'Not found' });
+	if (listing.skin.ownerId === bidderId) return res.status(400).json({ error: 'Cannot bid on own skin' });
+	if (!listing.endsAt || listing.endsAt <= new Date()) return res.status(400).json({ error: 'Auction has ended' });
+	let amount;
+	try {
+		amount = validatePrice(req.body?.amount);
+	} catch (e) {
+		return res.status(400).json({ error: e.message });
+	}
+	const balance = await hasFunds(bidderId, amount);
+	if (balance !== null) return res.status(402).json({ error: 'Insufficient funds', balance, price: amount });
+
+	// Re-read the highest bid inside the transaction so concurrent bids cannot undercut each other
+	const result = await prisma.$transaction(async (tx) => {
+		const highest = await tx.skinBid.findFirst({ where: { listingId }, orderBy: [{ amount: 'desc' }, { createdAt: 'asc' }] });
+		const minimum = minimumBid(listing, highest);
+		if (amount < minimum) return { minimum };
+		const bid = await tx.skinBid.create({ data: { listingId, bidderId, amount } });
+		return { bid };
+	});
+	if (!result.bid) return res.status(400).json({ error: 'Bid too low', minimum: result.minimum });
+	const updated = await prisma.skinListing.findUnique({
+		where: { id: listingId },
+		include: { skin: true, ...LISTING_BIDS_INCLUDE },
+	});
+	return res.status(201).json({ bid: result.bid, listing: updated });
+}
+
+export async function makeOffer(req, res) {
+	const { id, listingId } = req.params;
 	const buyerId = req.auth.userId;
-	const [updatedListing, updatedSkin] = await prisma.$transaction([
-		prisma.skinListing.update({
-			where: { id: listingId },
-			data: { active: false, buyerId, soldAt: new Date() },
-			...ACTIVE_LISTING_INCLUDE,
-		}),
-		prisma.skin.update({ where: { id }, data: { ownerId: buyerId } }),
-	]);
-	return res.json({ listing: updatedListing, skin: updatedSkin });
+	const listing = await prisma.skinListing.findFirst({
+		where: { id: listingId, skinId: id, active: true, type: 'FIXED' },
+		include: { skin: true },
+	});
+	if (!listing) return res.status(404).json({ error: 'Not found' });
+	if (listing.skin.ownerId === buyerId) return res.status(400).json({ error: 'Cannot make an offer on own skin' });
+	let amount;
+	try {
+		amount = validatePrice(req.body?.amount);
+	} catch (e) {
+		return res.status(400).json({ error: e.message });
+	}
+	const balance = await hasFunds(buyerId, amount);
+	if (balance !== null) return res.status(402).json({ error: 'Insufficient funds', balance, price: amount });
+	// One pending offer per buyer and listing; a new offer replaces the amount
+	const pending = await prisma.skinOffer.findFirst({ where: { listingId, buyerId, status: 'PENDING' } });
+	const offer = pending
+		? await prisma.skinOffer.update({ where: { id: pending.id }, data: { amount } })
+		: await prisma.skinOffer.create({ data: { listingId, buyerId, amount } });
+	return res.status(pending ? 200 : 201).json({ offer });
+}
+
+const findPendingOffer = (id, listingId, offerId) =>
+	prisma.skinOffer.findFirst({
+		where: { id: offerId, listingId, status: 'PENDING', listing: { skinId: id, active: true } },
+		include: { listing: { include: { skin: true } } },
+	});
+
+export async function acceptOffer(req, res) {
+	const { id, listingId, offerId } = req.params;
+	const offer = await findPendingOffer(id, listingId, offerId);
+	if (!offer || offer.listing.skin.ownerId !== req.auth.userId) return res.status(404).json({ error: 'Not found' });
+	let result;
+	try {
+		result = await runWalletTransaction(prisma, async (tx) => {
+			const accepted = await tx.skinOffer.update({ where: { id: offerId }, data: { status: 'ACCEPTED' } });
+			const sale = await completeSale(tx, { listingId, buyerId: offer.buyerId, price: offer.amount });
+			return sale && { ...sale, offer: accepted };
+		});
+	} catch (e) {
+		if (e instanceof InsufficientFundsError) {
+			return res.status(402).json({ error: 'Buyer has insufficient funds', price: offer.amount });
+		}
+		throw e;
+	}
+	if (!result) return res.status(404).json({ error: 'Not found' });
+	return res.json({ offer: result.offer, listing: result.listing, skin: result.skin });
+}
+
+export async function rejectOffer(req, res) {
+	const { id, listingId, offerId } = req.params;
+	const offer = await findPendingOffer(id, listingId, offerId);
+	if (!offer || offer.listing.skin.ownerId !== req.auth.userId) return res.status(404).json({ error: 'Not found' });
+	const updated = await prisma.skinOffer.update({ where: { id: offerId }, data: { status: 'REJECTED' } });
+	return res.json({ offer: updated });
+}
+
+export async function withdrawOffer(req, res) {
+	const { listingId, offerId } = req.params;
+	const offer = await prisma.skinOffer.findFirst({ where: { id: offerId, listingId, buyerId: req.auth.userId, status: 'PENDING' } });
+	if (!offer) return res.status(404).json({ error: 'Not found' });
+	const updated = await prisma.skinOffer.update({ where: { id: offerId }, data: { status: 'WITHDRAWN' } });
+	return res.json({ offer: updated });
 }
 
 export async function getListings(_req, res) {
-	const listings = await prisma.skinListing.findMany({ where: { active: true }, orderBy: { createdAt: 'desc' }, include: { skin: true } });
+	const listings = await prisma.skinListing.findMany({
+		where: { active: true },
+		orderBy: { createdAt: 'desc' },
+		include: { skin: true, ...LISTING_BIDS_INCLUDE },
+	});
 	return res.json({ listings });
 }
 
@@ -91,7 +91,7 @@ export async function updateProfile(req, res) {
 
   // Handle skin updates
   if (skinId !== undefined) {
-    if (typeof skinId !== 'string' || !['blocky','capsule','robot','kogama'].includes(skinId)) {
+    if (typeof skinId !== 'string' || !['blocky','capsule','robot','kogama','voxel'].includes(skinId)) {
       throw new ValidationError('Invalid skinId');
     }
     updateData.skinId = skinId;
@@ -0,0 +1,84 @@
+import prisma from '../config/database.js';
+import { logAudit } from '../utils/auth.js';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler.js';
+import { parsePagination } from '../utils/helpers.js';
+import { credit, debit, getOrCreateWallet, listTransactions, runWalletTransaction } from '../services/walletService.js';
+
+const toWalletOut = (wallet) => ({ balance: wallet.balance, currency: wallet.currency });
+
+/**
+ * Get the current user's wallet
+ */
+export async function getMyWallet(req, res) {
+  const wallet = await getOrCreateWallet(prisma, req.auth.userId);
+  res.json({ wallet: toWalletOut(wallet) });
+}
+
+/**
+ * Get the current user's transaction history
+ */
+export async function getMyTransactions(req, res) {
+  const { page, limit, offset } = parsePagination(req.query);
+  const { wallet, total, transactions } = await listTransactions(prisma, req.auth.userId, { offset, limit });
+  res.json({ wallet: toWalletOut(wallet), transactions, total, page, limit });
+}
+
+/**
+ * Credit a user's wallet (admin)
+ */
+export async function grantFunds(req, res) {
+  const { userId, amount, note } = req.body;
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const { wallet, entry } = await runWalletTransaction(prisma, (tx) =>
+    credit(tx, userId, Number(amount), 'GRANT', { note: note || null })
+  );
+
+  await logAudit(req, 'wallet.grant', req.auth.userId, { userId, amount: entry.amount, transactionId: entry.id });
+  res.status(201).json({ wallet: toWalletOut(wallet), transaction: entry });
+}
+
+/**
+ * Reverse a marketplace purchase (admin): the seller (and the creator, for
+ * any royalty) pay the price back to the buyer and the skin returns to the
+ * seller if the buyer still owns it.
+ */
+export async function refundPurchase(req, res) {
+  const { listingId, note } = req.body;
+
+  const result = await runWalletTransaction(prisma, async (tx) => {
+    const listing = await tx.skinListing.findUnique({ where: { id: listingId } });
+    const spend = await tx.walletTransaction.findFirst({ where: { listingId, type: 'SPEND' }, include: { wallet: true } });
+    const earn = await tx.walletTransaction.findFirst({ where: { listingId, type: 'EARN' }, include: { wallet: true } });
+    const royalty = await tx.walletTransaction.findFirst({ where: { listingId, type: 'ROYALTY' }, include: { wallet: true } });
+    if (!listing || !spend || !earn) {
+      throw new NotFoundError('Purchase not found');
+    }
+    const refunded = await tx.walletTransaction.findFirst({ where: { listingId, type: 'REFUND' }, select: { id: true } });
+    if (refunded) {
+      throw new ValidationError('Purchase was already refunded', 'listingId');
+    }
+
+    const buyerId = spend.wallet.userId;
+    const sellerId = earn.wallet.userId;
+    const amount = -spend.amount;
+    await debit(tx, sellerId, earn.amount, 'REFUND', { listingId, note: note || null });
+    if (royalty) {
+      await debit(tx, royalty.wallet.userId, royalty.amount, 'REFUND', { listingId, note: note || null });
+    }
+    const { wallet: buyerWallet } = await credit(tx, buyerId, amount, 'REFUND', { listingId, note: note || null });
+    await tx.skin.updateMany({ where: { id: listing.skinId, ownerId: buyerId }, data: { ownerId: sellerId } });
+    return { buyerId, sellerId, amount, buyerWallet };
+  });
+
+  await logAudit(req, 'wallet.refund', req.auth.userId, {
+    listingId,
+    buyerId: result.buyerId,
+    sellerId: result.sellerId,
+    amount: result.amount
+  });
+  res.json({ ok: true, amount: result.amount, buyerWallet: toWalletOut(result.buyerWallet) });
+}
@@ -5,9 +5,13 @@ import cookieParser from 'cookie-parser';
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import prisma from './config/database.js';
+import { errorHandler } from './middleware/errorHandler.js';
+import { startMaintenanceJobs } from './services/maintenance.js';
+import gamesRoutes from './routes/games.js';
+import skinsRoutes from './routes/skins.js';
+import walletRoutes from './routes/wallet.js';
+import assetsRoutes from './routes/assets.js';
 
 const app = express();
 // ===== In-memory content (demo) =====
@@ -358,84 +362,8 @@ app.get('/api/users/me/logins', requireAuth, async (req, res) => {
 });
 
 // ===== Games (ABAC) =====
-// Public listing of published games (currently returns all)
-app.get('/api/games', async (req, res) => {
-  try {
-    const page = Math.max(1, Number(req.query.page || 1));
-    const limit = Math.min(50, Math.max(1, Number(req.query.limit || 12)));
-    const q = (req.query.q || '').toString();
-    const sort = (req.query.sort || 'updated_desc').toString();
-
-    const orderBy = (() => {
-      switch (sort) {
-        case 'updated_asc': return { updatedAt: 'asc' };
-        case 'name_asc': return { name: 'asc' };
-        case 'name_desc': return { name: 'desc' };
-        case 'likes_desc': return { likes: 'desc' };
-        case 'likes_asc': return { likes: 'asc' };
-        case 'updated_desc':
-        default: return { updatedAt: 'desc' };
-      }
-    })();
-
-    const where = {
-      published: true,
-      ...(q ? { name: { contains: q } } : {}),
-    };
-
-    try {
-      const [total, games] = await Promise.all([
-        prisma.game.count({ where }),
-        prisma.game.findMany({
-          where,
-          orderBy: orderBy.likes ? undefined : orderBy,
-          skip: (page - 1) * limit,
-          take: limit,
-          select: {
-            id: true,
-            name: true,
-            updatedAt: true,
-            thumbnail: true,
-            owner: { select: { name: true } },
-            _count: { select: { likes: true } },
-          },
-        })
-      ]);
-
-      let list = games.map(g => ({ id: g.id, name: g.name, updatedAt: g.updatedAt, ownerName: g.owner?.name || 'UÅ¼ytkownik', likes: g._count?.likes || 0, thumbnail: g.thumbnail || null }));
-      if (orderBy.likes) {
-        list.sort((a, b) => orderBy.likes === 'desc' ? (b.likes - a.likes) : (a.likes - b.likes));
-      }
-
-      res.json({
-        games: list,
-        total,
-        page,
-        limit,
-      });
-    } catch {
-      // Fallback without relations if client is outdated
-      const [total, games] = await Promise.all([
-        prisma.game.count({ where }).catch(() => Promise.resolve(0)),
-        prisma.game.findMany({
-          where,
-          orderBy,
-          skip: (page - 1) * limit,
-          take: limit,
-          select: { id: true, name: true, updatedAt: true },
-        }).catch(() => Promise.resolve([])),
-      ]);
-      res.json({
-        games: games.map(g => ({ id: g.id, name: g.name, updatedAt: g.updatedAt, ownerName: 'UÅ¼ytkownik', likes: 0, thumbnail: null })),
-        total,
-        page,
-        limit,
-      });
-    }
-  } catch (e) {
-    res.status(500).json({ error: 'Failed to load games' });
-  }
-});
+// Games, leaderboards and ghosts, import/export: validated in routes/games.js
+app.use('/api/games', gamesRoutes);
 
 app.get('/api/users/me/games', requireAuth, async (req, res) => {
   const games = await prisma.game.findMany({
@@ -458,71 +386,6 @@ app.get('/api/users/me/games', requireAuth, async (req, res) => {
   res.json({ games });
 });
 
-app.post('/api/games', requireAuth, async (req, res) => {
-  const { name = 'Untitled Project', blocks = [], published = false, thumbnail } = req.body || {};
-  const baseData = {
-    name,
-    blocks,
-    published: !!published,
-    owner: { connect: { id: req.auth.userId } }
-  };
-  try {
-    const data = {
-      ...baseData,
-      ...(typeof thumbnail === 'string' && thumbnail.length < 5_000_000 ? { thumbnail } : {}),
-    };
-    const game = await prisma.game.create({ data });
-    res.status(201).json({ game });
-    await logAudit(req, 'game.create', req.auth.userId, { gameId: game.id });
-  } catch (e) {
-    // Fallback without thumbnail (old schema)
-    const game = await prisma.game.create({ data: baseData });
-    res.status(201).json({ game });
-    await logAudit(req, 'game.create', req.auth.userId, { gameId: game.id, note: 'fallback_without_thumbnail' });
-  }
-});
-
-app.get('/api/games/:id', requireAuth, async (req, res) => {
-  const game = await prisma.game.findFirst({
-    where: {
-      id: req.params.id,
-      OR: [
-        { ownerId: req.auth.userId },
-        { members: { some: { userId: req.auth.userId } } },
-      ],
-    },
-  });
-  if (!game) return res.status(404).json({ error: 'Not found' });
-  res.json({ game });
-});
-
-// Public game details for published games (no auth)
-app.get('/api/games/:id/public', async (req, res) => {
-  try {
-    if (req.params.id === 'demo') {
-      const demoBlocks = [
-        { id: 'start-1', type: 'start', position: { x: 0, y: 0.5, z: 0 } },
-        { id: 'cube-1', type: 'cube', position: { x: 1, y: 0.5, z: 0 } },
-        { id: 'cube-2', type: 'cube', position: { x: 2, y: 0.5, z: 0 } },
-        { id: 'cube-3', type: 'cube', position: { x: 3, y: 0.5, z: 0 } },
-        { id: 'haz-1', type: 'hazard', position: { x: 2, y: 0.5, z: 2 } },
-        { id: 'chk-1', type: 'checkpoint', position: { x: 4, y: 0.5, z: 0 } },
-        { id: 'finish-1', type: 'finish', position: { x: 6, y: 0.5, z: 0 } },
-      ];
-      return res.json({ game: { id: 'demo', name: 'Demo World', blocks: demoBlocks, updatedAt: new Date().toISOString(), likes: 0 } });
-    }
-    const game = await prisma.game.findFirst({
-      where: { id: req.params.id, published: true },
-      select: { id: true, name: true, blocks: true, updatedAt: true, _count: { select: { likes: true } } },
-    });
-    if (!game) return res.status(404).json({ error: 'Not found' });
-    const out = { id: game.id, name: game.name, blocks: game.blocks, updatedAt: game.updatedAt, likes: game._count?.likes || 0 };
-    res.json({ game: out });
-  } catch (e) {
-    res.status(500).json({ error: 'Failed to load game' });
-  }
-});
-
 // ===== News (simple demo feed) =====
 app.get('/api/news', async (req, res) => {
   const page = Math.max(1, Number(req.query.page || 1));
@@ -565,112 +428,18 @@ app.get('/api/creators/top', async (_req, res) => {
   }
 });
 
-app.put('/api/games/:id', requireAuth, async (req, res) => {
-  const membership = await prisma.game.findFirst({
-    where: { id: req.params.id },
-    select: {
-      ownerId: true,
-      members: { where: { userId: req.auth.userId }, select: { role: true }, take: 1 },
-    },
-  });
-  if (!membership) return res.status(404).json({ error: 'Not found' });
-  const isOwner = membership.ownerId === req.auth.userId;
-  const memberRole = membership.members[0]?.role;
-  const canEdit = isOwner || memberRole === 'EDITOR' || memberRole === 'OWNER';
-  if (!canEdit) return res.status(403).json({ error: 'Forbidden' });
-  const fullData = {
-    name: req.body?.name,
-    blocks: req.body?.blocks,
-    ...(typeof req.body?.published === 'boolean' ? { published: req.body.published } : {}),
-    ...(typeof req.body?.thumbnail === 'string' && req.body.thumbnail.length < 5_000_000 ? { thumbnail: req.body.thumbnail } : {}),
-  };
-  try {
-    const game = await prisma.game.update({ where: { id: req.params.id }, data: fullData });
-    res.json({ game });
-    await logAudit(req, 'game.update', req.auth.userId, { gameId: req.params.id });
-  } catch (e) {
-    // Retry without thumbnail
-    const { thumbnail, ...noThumb } = fullData;
-    const game = await prisma.game.update({ where: { id: req.params.id }, data: noThumb });
-    res.json({ game });
-    await logAudit(req, 'game.update', req.auth.userId, { gameId: req.params.id, note: 'fallback_without_thumbnail' });
-  }
-});
+// ===== Marketplace and models =====
+app.use('/api/skins', skinsRoutes);
+app.use('/api/wallet', walletRoutes);
+app.use('/api/assets', assetsRoutes);
 
-app.delete('/api/games/:id', requireAuth, async (req, res) => {
-  const owned = await prisma.game.findFirst({ where: { id: req.params.id, ownerId: req.auth.userId }, select: { id: true } });
-  if (!owned) return res.status(403).json({ error: 'Forbidden' });
-  const removed = await prisma.game.delete({ where: { id: req.params.id } });
-  res.json({ game: removed });
-  await logAudit(req, 'game.delete', req.auth.userId, { gameId: req.params.id });
-});
-
-// ===== Likes =====
-app.get('/api/games/:id/likes', async (req, res) => {
-  try {
-    const id = req.params.id;
-    const [count, youLike] = await Promise.all([
-      prisma.like.count({ where: { gameId: id } }),
-      (async () => {
-        try {
-          await requireAuth(req, res, () => {});
-          const found = await prisma.like.findFirst({ where: { gameId: id, userId: req.auth.userId }, select: { id: true } });
-          return !!found;
-        } catch { return false; }
-      })(),
-    ]);
-    res.json({ likes: count, youLike });
-  } catch { res.json({ likes: 0, youLike: false }); }
-});
-
-app.post('/api/games/:id/likes', requireAuth, async (req, res) => {
-  try {
-    const id = req.params.id;
-    await prisma.like.create({ data: { gameId: id, userId: req.auth.userId } }).catch(() => {});
-    const count = await prisma.like.count({ where: { gameId: id } });
-    await logAudit(req, 'game.like', req.auth.userId, { gameId: id });
-    res.json({ likes: count, youLike: true });
-  } catch { res.status(500).json({ error: 'Failed to like' }); }
-});
-
-app.delete('/api/games/:id/likes', requireAuth, async (req, res) => {
-  try {
-    const id = req.params.id;
-    await prisma.like.deleteMany({ where: { gameId: id, userId: req.auth.userId } });
-    const count = await prisma.like.count({ where: { gameId: id } });
-    await logAudit(req, 'game.unlike', req.auth.userId, { gameId: id });
-    res.json({ likes: count, youLike: false });
-  } catch { res.status(500).json({ error: 'Failed to unlike' }); }
-});
-
-// ===== Leaderboard =====
-app.get('/api/games/:id/leaderboard', async (req, res) => {
-  try {
-    const id = req.params.id;
-    const top = await prisma.score.findMany({
-      where: { gameId: id },
-      orderBy: { timeMs: 'asc' },
-      take: 10,
-      select: { id: true, timeMs: true, createdAt: true, user: { select: { name: true } } }
-    });
-    res.json({ leaderboard: top.map(s => ({ id: s.id, name: s.user?.name || 'Gracz', timeMs: s.timeMs, createdAt: s.createdAt })) });
-  } catch { res.status(500).json({ error: 'Failed to load leaderboard' }); }
-});
-
-app.post('/api/games/:id/leaderboard', requireAuth, async (req, res) => {
-  try {
-    const id = req.params.id;
-    const timeMs = Number(req.body?.timeMs || 0);
-    if (!Number.isFinite(timeMs) || timeMs <= 0 || timeMs > 10 * 60 * 1000) return res.status(400).json({ error: 'Invalid time' });
-    const created = await prisma.score.create({ data: { userId: req.auth.userId, gameId: id, timeMs } });
-    await logAudit(req, 'game.score.submit', req.auth.userId, { gameId: id, timeMs });
-    res.status(201).json({ id: created.id });
-  } catch { res.status(500).json({ error: 'Failed to submit score' }); }
-});
+// Errors thrown by the routers (ValidationError, NotFoundError, ...) become JSON responses
+app.use(errorHandler);
 
 const PORT = Number(process.env.PORT || 3001);
 app.listen(PORT, () => {
   console.log(`[backend] listening on http://localhost:${PORT}`);
+  startMaintenanceJobs();
 });
 
 
@@ -120,3 +120,16 @@ export class NotFoundError extends Error {
     this.status = 404;
   }
 }
+
+/**
+ * Insufficient funds error class
+ */
+export class InsufficientFundsError extends Error {
+  constructor(message = 'Insufficient funds', { balance, required } = {}) {
+    super(message);
+    this.name = 'InsufficientFundsError';
+    this.status = 402;
+    this.balance = balance;
+    this.required = required;
+  }
+}
@@ -1,5 +1,6 @@
 import config from '../config/config.js';
 import { ValidationError } from './errorHandler.js';
+import { GAME_MODES, isGameMode, parseModeConfig } from '../../src/shared/gameModes/modeConfig.js';
 
 /**
  * Validate request body against a schema
@@ -178,7 +179,7 @@ export const schemas = {
     skinId: {
       required: false,
       type: 'string',
-      enum: ['blocky','capsule','robot','kogama']
+      enum: ['blocky','capsule','robot','kogama','voxel']
     },
     skinPrimary: {
       required: false,
@@ -248,16 +249,42 @@ export const schemas = {
     mode: {
       required: false,
       type: 'string',
-      enum: ['PARKOUR', 'PVP', 'RACE', 'SANDBOX']
+      enum: GAME_MODES
     },
     modeConfig: {
       required: false,
-      type: 'string'
+      type: 'string',
+      // Without a mode in the body the controller checks against the stored one
+      custom: (value, body) => {
+        if (!isGameMode(body.mode)) return null;
+        const parsed = parseModeConfig(body.mode, value);
+        return parsed.ok ? null : `modeConfig is invalid for ${body.mode}: ${parsed.errors.join('; ')}`;
+      }
     },
     terrain: {
       required: false,
       type: 'string'
     },
+    logic: {
+      required: false,
+      type: 'array'
+    },
+    animations: {
+      required: false,
+      type: 'array'
+    },
+    selectionSets: {
+      required: false,
+      type: 'array'
+    },
+    prefabs: {
+      required: false,
+      type: 'array'
+    },
+    environment: {
+      required: false,
+      type: 'object'
+    },
     published: {
       required: false,
       type: 'boolean'
@@ -349,6 +376,46 @@ export const schemas = {
       type: 'number',
       min: 1,
       max: config.security.maxScoreTimeMs
+    },
+    run: {
+      required: true,
+      type: 'object'
+    },
+    skin: {
+      required: false,
+      type: 'object'
+    }
+  },
+  
+  // Wallet schemas (amounts in minor units)
+  walletGrant: {
+    userId: {
+      required: true,
+      type: 'string'
+    },
+    amount: {
+      required: true,
+      type: 'number',
+      min: 1,
+      max: 100000000,
+      custom: (value) => (Number.isInteger(value) ? null : 'amount must be an integer')
+    },
+    note: {
+      required: false,
+      type: 'string',
+      maxLength: 200
+    }
+  },
+  
+  walletRefund: {
+    listingId: {
+      required: true,
+      type: 'string'
+    },
+    note: {
+      required: false,
+      type: 'string',
+      maxLength: 200
     }
   }
 };
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "Skin" ADD COLUMN "creatorId" TEXT;
+ALTER TABLE "Skin" ADD COLUMN "royaltyPercent" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing skins were authored by their current owner as far as we know
+UPDATE "Skin" SET "creatorId" = "ownerId" WHERE "creatorId" IS NULL;
+
+-- AlterTable
+ALTER TABLE "SkinListing" ADD COLUMN "type" TEXT NOT NULL DEFAULT 'FIXED';
+ALTER TABLE "SkinListing" ADD COLUMN "endsAt" DATETIME;
+ALTER TABLE "SkinListing" ADD COLUMN "minIncrement" INTEGER;
+
+-- CreateTable
+CREATE TABLE "SkinBid" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "listingId" TEXT NOT NULL,
+    "bidderId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "SkinBid_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "SkinListing" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "SkinOffer" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "listingId" TEXT NOT NULL,
+    "buyerId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SkinOffer_listingId_fkey" FOREIGN KEY ("listingId") REFERENCES "SkinListing" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "SkinListing_type_endsAt_idx" ON "SkinListing"("type", "endsAt");
+
+-- CreateIndex
+CREATE INDEX "SkinBid_listingId_amount_idx" ON "SkinBid"("listingId", "amount");
+
+-- CreateIndex
+CREATE INDEX "SkinOffer_listingId_status_idx" ON "SkinOffer"("listingId", "status");
+
+-- CreateIndex
+CREATE INDEX "SkinOffer_buyerId_idx" ON "SkinOffer"("buyerId");
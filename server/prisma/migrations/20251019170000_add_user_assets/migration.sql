@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "UserAsset" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "ownerId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL DEFAULT 'model/gltf-binary',
+    "size" INTEGER NOT NULL,
+    "triangles" INTEGER NOT NULL,
+    "bounds" TEXT,
+    "data" BLOB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "UserAsset_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "UserAsset_ownerId_createdAt_idx" ON "UserAsset"("ownerId", "createdAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "SkinListing" ADD COLUMN "soldPrice" INTEGER;
+
+-- Sales before this column kept the sale price in "price"
+UPDATE "SkinListing" SET "soldPrice" = "price" WHERE "buyerId" IS NOT NULL;
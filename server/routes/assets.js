@@ -0,0 +1,32 @@
+import express, { Router } from 'express';
+import config from '../config/config.js';
+import { requireAuth } from '../middleware/auth.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import * as assetsController from '../controllers/assetsController.js';
+import { GLB_MIME_TYPE } from '../../src/shared/assets/glbInspect.js';
+
+const router = Router();
+
+// Public: model files referenced by published levels
+router.get('/:id/file',
+  asyncHandler(assetsController.getAssetFile)
+);
+
+// Protected routes
+router.use(requireAuth);
+
+router.get('/',
+  asyncHandler(assetsController.listMyAssets)
+);
+
+// GLB sent as the raw request body; the name goes in ?name=
+router.post('/',
+  express.raw({ type: [GLB_MIME_TYPE, 'application/octet-stream'], limit: config.assets.maxModelBytes }),
+  asyncHandler(assetsController.uploadAsset)
+);
+
+router.delete('/:id',
+  asyncHandler(assetsController.deleteAsset)
+);
+
+export default router;
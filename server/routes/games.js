@@ -1,8 +1,10 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
+import config from '../config/config.js';
 import { requireAuth, optionalAuth } from '../middleware/auth.js';
 import { validateBody, schemas, sanitizeBody } from '../middleware/validation.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
 import * as gamesController from '../controllers/gamesController.js';
+import { BLOCKSCAPE_MIME_TYPE } from '../../src/shared/projects/blockscapeArchive.js';
 
 const router = Router();
 
@@ -29,6 +31,11 @@ router.get('/:id/leaderboard',
   asyncHandler(gamesController.getLeaderboard)
 );
 
+router.get('/:id/leaderboard/ghost',
+  optionalAuth,
+  asyncHandler(gamesController.getGhost)
+);
+
 // Comments
 router.get('/:id/comments',
   asyncHandler(gamesController.listComments)
@@ -92,6 +99,12 @@ router.post('/export',
   asyncHandler(gamesController.exportGames)
 );
 
+// Import a .blockscape archive sent as the raw request body
+router.post('/import',
+  express.raw({ type: [BLOCKSCAPE_MIME_TYPE, 'application/zip', 'application/octet-stream'], limit: config.express.importLimit }),
+  asyncHandler(gamesController.importGame)
+);
+
 // Duplicate
 router.post('/:id/duplicate',
   sanitizeBody,
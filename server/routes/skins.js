@@ -1,7 +1,7 @@
 import express from 'express';
 import { requireAuth } from '../middleware/auth.js';
 import { asyncHandler } from '../middleware/errorHandler.js';
-import { createSkin, updateSkin, deleteSkin, getMySkins, getPublicSkins, createListing, updateListing, cancelListing, purchaseListing, getListings } from '../controllers/skinsController.js';
+import { createSkin, updateSkin, deleteSkin, getMySkins, getPublicSkins, createListing, updateListing, cancelListing, purchaseListing, placeBid, makeOffer, acceptOffer, rejectOffer, withdrawOffer, getListings } from '../controllers/skinsController.js';
 
 const router = express.Router();
 
@@ -14,6 +14,11 @@ router.post('/:id/listings', requireAuth, asyncHandler(createListing));
 router.patch('/:id/listings/:listingId', requireAuth, asyncHandler(updateListing));
 router.delete('/:id/listings/:listingId', requireAuth, asyncHandler(cancelListing));
 router.post('/:id/listings/:listingId/purchase', requireAuth, asyncHandler(purchaseListing));
+router.post('/:id/listings/:listingId/bids', requireAuth, asyncHandler(placeBid));
+router.post('/:id/listings/:listingId/offers', requireAuth, asyncHandler(makeOffer));
+router.post('/:id/listings/:listingId/offers/:offerId/accept', requireAuth, asyncHandler(acceptOffer));
+router.post('/:id/listings/:listingId/offers/:offerId/reject', requireAuth, asyncHandler(rejectOffer));
+router.delete('/:id/listings/:listingId/offers/:offerId', requireAuth, asyncHandler(withdrawOffer));
 router.get('/listings', asyncHandler(getListings));
 
 export default router;
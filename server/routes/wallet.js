@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { requireAuth, requireRole } from '../middleware/auth.js';
+import { validateBody, schemas, sanitizeBody } from '../middleware/validation.js';
+import { asyncHandler } from '../middleware/errorHandler.js';
+import * as walletController from '../controllers/walletController.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+// Balance and history
+router.get('/',
+  asyncHandler(walletController.getMyWallet)
+);
+
+router.get('/transactions',
+  asyncHandler(walletController.getMyTransactions)
+);
+
+// Admin corrections
+router.post('/grants',
+  requireRole('ADMIN'),
+  sanitizeBody,
+  validateBody(schemas.walletGrant),
+  asyncHandler(walletController.grantFunds)
+);
+
+router.post('/refunds',
+  requireRole('ADMIN'),
+  sanitizeBody,
+  validateBody(schemas.walletRefund),
+  asyncHandler(walletController.refundPurchase)
+);
+
+export default router;
@@ -1,4 +1,6 @@
 import prisma from '../config/database.js';
+import config from '../config/config.js';
+import { closeExpiredAuctions } from './skinMarketService.js';
 
 // Simple in-process maintenance scheduler
 let intervals = [];
@@ -20,6 +22,18 @@ export function startMaintenanceJobs() {
     }
   }, 15 * 60 * 1000));
 
+  // Ended skin auctions: settle with the highest bidder who can pay
+  intervals.push(setInterval(async () => {
+    try {
+      const result = await closeExpiredAuctions(prisma);
+      if (result.closed > 0) {
+        console.log(`[maintenance] Closed ${result.closed} auctions (${result.sold} sold)`);
+      }
+    } catch (err) {
+      console.error('[maintenance] Failed to close expired auctions', err);
+    }
+  }, config.marketplace.auctionSweepIntervalMs));
+
   // Retention cleanup: daily at ~24h interval
   intervals.push(setInterval(async () => {
     try {
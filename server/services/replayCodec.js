@@ -0,0 +1,84 @@
+import zlib from 'zlib';
+
+/**
+ * Compact storage for ghost replays.
+ *
+ * A replay is the run record's sample track ([tMs, x, y, z, yaw?] tuples).
+ * Values are quantized (ms, cm, milliradians), delta-encoded per column and
+ * deflated, then stored base64-encoded in Score.replay.
+ */
+
+const REPLAY_VERSION = 1;
+const SCALE = [1, 100, 100, 100, 1000];
+
+export function encodeReplay(samples) {
+  const columns = SCALE.map(() => []);
+  const previous = SCALE.map(() => 0);
+  for (const sample of samples) {
+    for (let c = 0; c < SCALE.length; c++) {
+      const value = Math.round((sample[c] ?? 0) * SCALE[c]);
+      columns[c].push(value - previous[c]);
+      previous[c] = value;
+    }
+  }
+  const payload = JSON.stringify({ v: REPLAY_VERSION, c: columns });
+  return zlib.deflateRawSync(Buffer.from(payload)).toString('base64');
+}
+
+export function decodeReplay(encoded) {
+  const payload = JSON.parse(zlib.inflateRawSync(Buffer.from(encoded, 'base64')).toString());
+  if (payload?.v !== REPLAY_VERSION || !Array.isArray(payload.c)) {
+    throw new Error('Unsupported replay format');
+  }
+  const columns = payload.c;
+  const length = columns[0]?.length ?? 0;
+  const running = SCALE.map(() => 0);
+  const samples = [];
+  for (let i = 0; i < length; i++) {
+    const sample = [];
+    for (let c = 0; c < SCALE.length; c++) {
+      running[c] += columns[c][i] ?? 0;
+      sample.push(running[c] / SCALE[c]);
+    }
+    samples.push(sample);
+  }
+  return samples;
+}
+
+const SKIN_IDS = ['blocky', 'capsule', 'robot', 'kogama', 'boy', 'girl', 'voxel'];
+const SKIN_OPTIONS = {
+  headType: ['cube', 'rounded', 'capsule'],
+  bodyType: ['slim', 'normal', 'bulk'],
+  limbStyle: ['block', 'cylinder'],
+  accessoryHat: ['none', 'cap', 'topHat'],
+  accessoryBack: ['none', 'backpack', 'cape'],
+};
+const FACE_OPTIONS = {
+  eyes: ['dot', 'cartoon', 'robot'],
+  mouth: ['smile', 'neutral', 'none'],
+};
+
+const isColor = (v) => Number.isInteger(v) && v >= 0 && v <= 0xffffff;
+
+const pickOptions = (source, options) => {
+  const out = {};
+  for (const [key, allowed] of Object.entries(options)) {
+    if (allowed.includes(source?.[key])) out[key] = source[key];
+  }
+  return out;
+};
+
+/**
+ * The runner's look, stored next to the replay (Score.skin) so the ghost
+ * wears it. Only known skins and options are kept; voxel models stay on the
+ * runner's account, so a voxel ghost shows the skin's default shape.
+ * Returns null when nothing usable was sent.
+ */
+export function sanitizeReplaySkin(skin) {
+  if (!skin || typeof skin !== 'object' || !SKIN_IDS.includes(skin.skinId)) return null;
+  const colors = skin.colors && isColor(skin.colors.primary) && isColor(skin.colors.secondary)
+    ? { primary: skin.colors.primary, secondary: skin.colors.secondary }
+    : undefined;
+  const config = { ...pickOptions(skin.config, SKIN_OPTIONS), face: pickOptions(skin.config?.face, FACE_OPTIONS) };
+  return { skinId: skin.skinId, ...(colors ? { colors } : {}), config };
+}
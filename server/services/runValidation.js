@@ -0,0 +1,171 @@
+import config from '../config/config.js';
+
+/**
+ * Leaderboard run validation.
+ *
+ * Clients upload a run record with sampled player positions and the times at
+ * which checkpoints and the finish were touched:
+ *
+ *   {
+ *     version: 1,
+ *     durationMs,
+ *     samples: [[tMs, x, y, z, yaw?], ...], // tMs relative to the start
+ *     checkpoints: [{ tMs, x, y, z }, ...],
+ *     finish: { tMs, x, y, z }
+ *   }
+ *
+ * The run is replayed against the level's blocks: it must start at the start
+ * block, touch every checkpoint in order, end at the finish, never move faster
+ * than the player controller allows, and its duration must match the claimed
+ * time. Respawns (hazards, falling) may only teleport back to a point already
+ * reached.
+ */
+
+const RUN_VERSION = 1;
+
+function isFiniteNumber(x) {
+  return typeof x === 'number' && Number.isFinite(x);
+}
+
+function isPoint(p) {
+  return p && isFiniteNumber(p.tMs) && isFiniteNumber(p.x) && isFiniteNumber(p.y) && isFiniteNumber(p.z);
+}
+
+function distance(a, b) {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function blockReach(block, proximity) {
+  const s = block.scale;
+  const size = typeof s === 'number' ? s : Math.max(s?.x ?? 1, s?.y ?? 1, s?.z ?? 1);
+  return proximity + size / 2;
+}
+
+/**
+ * Checkpoint blocks in the order they must be reached.
+ * Blocks with metadata.checkpointId are ordered by it; the rest keep level order.
+ */
+function orderedCheckpoints(blocks) {
+  return blocks
+    .map((block, index) => ({ block, index, order: Number(block.metadata?.checkpointId) }))
+    .filter(({ block }) => block.type === 'checkpoint')
+    .sort((a, b) => {
+      const ao = Number.isFinite(a.order) ? a.order : Infinity;
+      const bo = Number.isFinite(b.order) ? b.order : Infinity;
+      return ao - bo || a.index - b.index;
+    })
+    .map(({ block }) => block);
+}
+
+/**
+ * Validate a run record against the level. Returns
+ * { valid: true, timeMs } or { valid: false, reasons: string[] }.
+ */
+export function validateRun(run, blocks, claimedTimeMs, limits = config.security.runValidation) {
+  const reasons = [];
+  const fail = (reason) => ({ valid: false, reasons: [...reasons, reason] });
+
+  if (!run || typeof run !== 'object' || run.version !== RUN_VERSION) {
+    return fail('unsupported run record');
+  }
+  const { samples, checkpoints = [], finish } = run;
+  if (!Array.isArray(samples) || samples.length < 2 || samples.length > limits.maxSamples) {
+    return fail('invalid sample count');
+  }
+  if (!Array.isArray(checkpoints) || !isPoint(finish)) {
+    return fail('missing checkpoint or finish data');
+  }
+
+  const points = [];
+  for (const sample of samples) {
+    if (!Array.isArray(sample) || (sample.length !== 4 && sample.length !== 5) || !sample.every(isFiniteNumber)) {
+      return fail('malformed sample');
+    }
+    points.push({ tMs: sample[0], x: sample[1], y: sample[2], z: sample[3] });
+  }
+  if (!checkpoints.every(isPoint)) {
+    return fail('malformed checkpoint');
+  }
+
+  // Total time: the claim must match the record, which must span start to finish
+  const durationMs = finish.tMs;
+  if (!isFiniteNumber(run.durationMs) || Math.abs(run.durationMs - durationMs) > limits.timeToleranceMs) {
+    reasons.push('duration does not match finish time');
+  }
+  if (Math.abs(claimedTimeMs - durationMs) > limits.timeToleranceMs) {
+    reasons.push('claimed time does not match run');
+  }
+  // Times count from the start: anything earlier would fall outside the claimed duration
+  if (points[0].tMs < 0 || checkpoints.some(c => c.tMs < 0)) {
+    reasons.push('run starts before time zero');
+  }
+  if (points[0].tMs > limits.maxSampleGapMs || durationMs - points[points.length - 1].tMs > limits.maxSampleGapMs) {
+    reasons.push('samples do not cover the run');
+  }
+
+  const levelBlocks = Array.isArray(blocks) ? blocks.filter(b => b && b.position) : [];
+  const startBlock = levelBlocks.find(b => b.type === 'start');
+  const finishBlocks = levelBlocks.filter(b => b.type === 'finish');
+  const near = (point, block) => distance(point, block.position) <= blockReach(block, limits.proximity);
+
+  if (startBlock && !near(points[0], startBlock)) {
+    reasons.push('run does not begin at the start');
+  }
+  if (finishBlocks.length > 0 && !finishBlocks.some(b => near(finish, b))) {
+    reasons.push('finish is not at a finish block');
+  }
+  if (distance(points[points.length - 1], finish) > limits.maxHorizontalSpeed * limits.maxSampleGapMs / 1000) {
+    reasons.push('finish is unreachable from the last sample');
+  }
+
+  // Plausible movement between samples; teleports only back to known spots
+  const respawnPoints = [points[0]];
+  let nextCheckpoint = 0;
+  const required = orderedCheckpoints(levelBlocks);
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    const dt = (b.tMs - a.tMs) / 1000;
+    if (dt <= 0) {
+      return fail('sample times are not increasing');
+    }
+    if (dt * 1000 > limits.maxSampleGapMs) {
+      reasons.push('gap between samples too large');
+      break;
+    }
+
+    const horizontal = Math.hypot(b.x - a.x, b.z - a.z) / dt;
+    const rise = (b.y - a.y) / dt;
+    if (horizontal > limits.maxHorizontalSpeed || rise > limits.maxRiseSpeed) {
+      const isRespawn = respawnPoints.some(p => distance(b, p) <= limits.proximity);
+      if (!isRespawn) {
+        reasons.push(`implausible speed at ${Math.round(b.tMs)}ms`);
+        break;
+      }
+    }
+
+    // Reached checkpoints become valid respawn targets
+    while (nextCheckpoint < required.length && near(b, required[nextCheckpoint])) {
+      respawnPoints.push(b);
+      nextCheckpoint += 1;
+    }
+  }
+
+  // Reported checkpoint touches must be in time order and on the path
+  for (let i = 0; i < checkpoints.length; i++) {
+    const cp = checkpoints[i];
+    if (i > 0 && cp.tMs < checkpoints[i - 1].tMs) {
+      reasons.push('checkpoints out of order');
+      break;
+    }
+    if (cp.tMs > durationMs) {
+      reasons.push('checkpoint after finish');
+      break;
+    }
+  }
+  if (nextCheckpoint < required.length) {
+    reasons.push(`missed checkpoint ${nextCheckpoint + 1} of ${required.length}`);
+  }
+
+  return reasons.length > 0 ? { valid: false, reasons } : { valid: true, timeMs: Math.round(durationMs) };
+}
@@ -0,0 +1,109 @@
+import { InsufficientFundsError } from '../middleware/errorHandler.js';
+import { credit, debit, runWalletTransaction } from './walletService.js';
+
+/**
+ * Skin marketplace settlement.
+ *
+ * Fixed-price purchases, accepted offers and closed auctions all end in
+ * completeSale(), which claims the listing, charges the buyer, pays the
+ * seller (minus the creator royalty on resales), transfers the skin and
+ * closes the skin's other listings inside the caller's Prisma transaction.
+ */
+
+export const LISTING_TYPES = ['FIXED', 'AUCTION'];
+
+const LISTING_INCLUDE = { include: { skin: true } };
+
+/**
+ * Royalty owed to the skin's creator when `sellerId` sells it for `price`.
+ * First sales by the creator pay none.
+ */
+export function royaltyFor(skin, sellerId, price) {
+  if (!skin.creatorId || skin.creatorId === sellerId || !(skin.royaltyPercent > 0)) return 0;
+  return Math.floor((price * skin.royaltyPercent) / 100);
+}
+
+/**
+ * Lowest acceptable next bid: the starting price, or the highest bid plus
+ * the listing's increment.
+ */
+export function minimumBid(listing, highestBid) {
+  if (!highestBid) return listing.price;
+  return highestBid.amount + Math.max(1, listing.minIncrement || 1);
+}
+
+/**
+ * Sell an active listing to `buyerId` for `price`. Returns null when the
+ * listing is no longer active; throws InsufficientFundsError (rolling back
+ * the caller's transaction) when the buyer cannot pay.
+ */
+export async function completeSale(tx, { listingId, buyerId, price }) {
+  const claimed = await tx.skinListing.updateMany({
+    where: { id: listingId, active: true },
+    data: { active: false, buyerId, soldAt: new Date(), soldPrice: price }
+  });
+  if (claimed.count === 0) return null;
+
+  const listing = await tx.skinListing.findUnique({ where: { id: listingId }, ...LISTING_INCLUDE });
+  const { skin } = listing;
+  const sellerId = skin.ownerId;
+  const royalty = royaltyFor(skin, sellerId, price);
+  const note = skin.name;
+
+  const { wallet } = await debit(tx, buyerId, price, 'SPEND', { listingId, note });
+  await credit(tx, sellerId, price - royalty, 'EARN', { listingId, note });
+  if (royalty > 0) {
+    await credit(tx, skin.creatorId, royalty, 'ROYALTY', { listingId, note });
+  }
+  const updatedSkin = await tx.skin.update({ where: { id: skin.id }, data: { ownerId: buyerId } });
+  // The seller's other listings of this skin would sell it on for the new owner
+  // at a price they never set; whatever was pending on any of them is moot too
+  await tx.skinListing.updateMany({ where: { skinId: skin.id, active: true }, data: { active: false } });
+  const skinListings = await tx.skinListing.findMany({ where: { skinId: skin.id }, select: { id: true } });
+  await tx.skinOffer.updateMany({
+    where: { listingId: { in: skinListings.map(l => l.id) }, status: 'PENDING' },
+    data: { status: 'REJECTED' }
+  });
+
+  return { listing, skin: updatedSkin, balance: wallet.balance, royalty };
+}
+
+/**
+ * Settle one ended auction: the highest bidder who can still pay wins, ties
+ * go to the earlier bid. Without such a bid the listing closes unsold.
+ */
+export async function settleAuction(db, listing) {
+  const bids = await db.skinBid.findMany({
+    where: { listingId: listing.id },
+    orderBy: [{ amount: 'desc' }, { createdAt: 'asc' }]
+  });
+  for (const bid of bids) {
+    if (bid.bidderId === listing.skin.ownerId) continue;
+    try {
+      const sale = await runWalletTransaction(db, (tx) =>
+        completeSale(tx, { listingId: listing.id, buyerId: bid.bidderId, price: bid.amount })
+      );
+      return sale ? { sold: true, bid } : { sold: false, bid: null };
+    } catch (e) {
+      if (!(e instanceof InsufficientFundsError)) throw e;
+    }
+  }
+  await db.skinListing.updateMany({ where: { id: listing.id, active: true }, data: { active: false } });
+  return { sold: false, bid: null };
+}
+
+/**
+ * Close every auction whose end time has passed. Used by the maintenance job.
+ */
+export async function closeExpiredAuctions(db, now = new Date()) {
+  const expired = await db.skinListing.findMany({
+    where: { type: 'AUCTION', active: true, endsAt: { lte: now } },
+    ...LISTING_INCLUDE
+  });
+  let sold = 0;
+  for (const listing of expired) {
+    const result = await settleAuction(db, listing);
+    if (result.sold) sold += 1;
+  }
+  return { closed: expired.length, sold };
+}
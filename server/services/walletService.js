@@ -0,0 +1,130 @@
+import config from '../config/config.js';
+import { InsufficientFundsError, ValidationError } from '../middleware/errorHandler.js';
+
+/**
+ * Marketplace wallets.
+ *
+ * Every balance change goes through credit()/debit(), which update
+ * Wallet.balance and append a WalletTransaction carrying the resulting
+ * balance. Both take a Prisma transaction client so a purchase debits the
+ * buyer, credits the seller and moves the skin atomically. The one other
+ * balance write is the starting grant, created together with the wallet.
+ *
+ * The ledger is append-only: rows are never updated or deleted, corrections
+ * are new REFUND or GRANT rows. Amounts are integer minor units of
+ * config.wallet.currency; ledger amounts are signed (debits negative).
+ */
+
+export const TRANSACTION_TYPES = ['EARN', 'SPEND', 'REFUND', 'GRANT', 'ROYALTY'];
+
+function assertAmount(amount) {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new ValidationError('Amount must be a positive integer', 'amount');
+  }
+}
+
+const isWalletRace = (err) => err?.code === 'P2002';
+
+function assertType(type) {
+  if (!TRANSACTION_TYPES.includes(type)) {
+    throw new ValidationError(`Unknown transaction type: ${type}`, 'type');
+  }
+}
+
+/**
+ * Wallet for a user, created on first use (with the configured starting balance).
+ * The wallet is upserted on its unique userId and the starting grant is created
+ * with it, so neither can be written twice. Two first uses at once can still
+ * collide on userId (a nested create keeps Prisma from a native upsert): outside
+ * a transaction the loser retries here; inside one the error aborts it, and
+ * runWalletTransaction() starts it over.
+ */
+export async function getOrCreateWallet(db, userId) {
+  const startingBalance = config.wallet.startingBalance;
+  if (startingBalance > 0) assertAmount(startingBalance);
+  const grant = { type: 'GRANT', amount: startingBalance, balanceAfter: startingBalance, note: 'Starting balance' };
+  const upsert = () => db.wallet.upsert({
+    where: { userId },
+    update: {},
+    create: {
+      userId,
+      currency: config.wallet.currency,
+      balance: startingBalance,
+      ...(startingBalance > 0 && { transactions: { create: grant } })
+    }
+  });
+  try {
+    return await upsert();
+  } catch (err) {
+    // Only the root client has $transaction; a transaction client is already aborted
+    if (!isWalletRace(err) || typeof db.$transaction !== 'function') throw err;
+    return upsert();
+  }
+}
+
+/**
+ * Interactive transaction that may create wallets. If it loses a first-use race
+ * (see getOrCreateWallet) it is rolled back and run once more, when the other
+ * wallet exists.
+ */
+export async function runWalletTransaction(db, fn) {
+  try {
+    return await db.$transaction(fn);
+  } catch (err) {
+    if (!isWalletRace(err)) throw err;
+    return db.$transaction(fn);
+  }
+}
+
+/**
+ * Add funds and record the ledger entry.
+ */
+export async function credit(tx, userId, amount, type, { listingId = null, note = null } = {}) {
+  assertAmount(amount);
+  assertType(type);
+  await getOrCreateWallet(tx, userId);
+  const wallet = await tx.wallet.update({
+    where: { userId },
+    data: { balance: { increment: amount } }
+  });
+  const entry = await tx.walletTransaction.create({
+    data: { walletId: wallet.id, type, amount, balanceAfter: wallet.balance, listingId, note }
+  });
+  return { wallet, entry };
+}
+
+/**
+ * Remove funds and record the ledger entry; throws InsufficientFundsError
+ * instead of letting the balance go negative.
+ */
+export async function debit(tx, userId, amount, type, { listingId = null, note = null } = {}) {
+  assertAmount(amount);
+  assertType(type);
+  const current = await getOrCreateWallet(tx, userId);
+  // Conditional decrement so a concurrent debit cannot overdraw the wallet
+  const { count } = await tx.wallet.updateMany({
+    where: { userId, balance: { gte: amount } },
+    data: { balance: { decrement: amount } }
+  });
+  if (count === 0) {
+    throw new InsufficientFundsError('Insufficient funds', { balance: current.balance, required: amount });
+  }
+  const wallet = await tx.wallet.findUnique({ where: { userId } });
+  const entry = await tx.walletTransaction.create({
+    data: { walletId: wallet.id, type, amount: -amount, balanceAfter: wallet.balance, listingId, note }
+  });
+  return { wallet, entry };
+}
+
+/**
+ * Newest-first page of a user's ledger.
+ */
+export async function listTransactions(db, userId, { offset = 0, limit = 20 } = {}) {
+  const wallet = await getOrCreateWallet(db, userId);
+  const where = { walletId: wallet.id };
+  const [total, transactions] = await Promise.all([
+    db.walletTransaction.count({ where }),
+    db.walletTransaction.findMany({ where, orderBy: { createdAt: 'desc' }, skip: offset, take: limit })
+  ]);
+  return { wallet, total, transactions };
+}
@@ -24,7 +24,8 @@ export const wsConfig = {
       session: 100,
       global: 1000
     },
-    recentMessagesCount: 50
+    recentMessagesCount: 50,
+    maxTerrainDeltaValues: 16384 // per terrain_operation; clients split larger strokes
   },
 
   // Cleanup intervals
@@ -34,7 +35,20 @@ export const wsConfig = {
   },
 
   // Presence update
-  presenceUpdateProbability: 0.1 // 10% chance to persist presence data
+  presenceUpdateProbability: 0.1, // 10% chance to persist presence data
+
+  // Collaborative editing
+  collaboration: {
+    persistIntervalMs: Number(process.env.WS_COLLAB_PERSIST_MS || 15000), // write merged blocks to Game.blocks
+    maxTerrainLogValues: 500000 // terrain stroke values kept per session for late joiners
+  },
+
+  // Authoritative play simulation
+  simulation: {
+    tickRate: Number(process.env.WS_SIM_TICK_RATE || 60),        // physics steps per second
+    snapshotRate: Number(process.env.WS_SIM_SNAPSHOT_RATE || 20), // state_snapshot broadcasts per second
+    maxQueuedInputs: 8                                            // inputs buffered per player before dropping
+  }
 };
 
 // Export helper for getting config values
@@ -5,6 +5,7 @@ import { globalChatService } from '../services/chat/GlobalChatService.js';
 import { privateChatService } from '../services/chat/PrivateChatService.js';
 import { collaborationService } from '../services/collaboration/CollaborationService.js';
 import { friendsService } from '../services/friends/FriendsService.js';
+import { simulationService } from '../services/simulation/SimulationService.js';
 import { wsConfig } from '../config/websocket.config.js';
 import {
   chatMessageSchema,
@@ -13,6 +14,7 @@ import {
   privateMessageSchema,
   markMessageReadSchema,
   blockOperationSchema,
+  terrainOperationSchema,
   selectionChangeSchema,
   playerInputSchema,
   gameEventSchema,
@@ -30,8 +32,10 @@ function createRateLimiter() {
     chat_message: { tokensPerInterval: 3, intervalMs: 1000, bucketSize: 3 },
     typing: { tokensPerInterval: 10, intervalMs: 1000, bucketSize: 10 },
     block_operation: { tokensPerInterval: 20, intervalMs: 1000, bucketSize: 20 },
+    terrain_operation: { tokensPerInterval: 10, intervalMs: 1000, bucketSize: 20 },
+    request_state: { tokensPerInterval: 1, intervalMs: 1000, bucketSize: 2 },
     selection_change: { tokensPerInterval: 10, intervalMs: 1000, bucketSize: 10 },
-    player_input: { tokensPerInterval: 60, intervalMs: 1000, bucketSize: 60 },
+    player_input: { tokensPerInterval: 75, intervalMs: 1000, bucketSize: 90 },
     game_event: { tokensPerInterval: 10, intervalMs: 1000, bucketSize: 10 },
     global_chat_message: { tokensPerInterval: 2, intervalMs: 1000, bucketSize: 2 },
     private_message: { tokensPerInterval: 2, intervalMs: 1000, bucketSize: 2 }
@@ -117,11 +121,17 @@ async function setupConnection(io, socket) {
   // Add participant to session
   try {
     const participant = await sessionManager.addParticipant(sessionId, socket.userData, socket.id);
+    await collaborationService.loadDocument(sessionId);
+    // Players are simulated on the server; their client predicts and reconciles
+    const simulation = socket.userData.role === 'PLAYER'
+      ? simulationService.join(io, sessionId, socket.userData, collaborationService.getDocument(sessionId).toBlocks())
+      : null;
     // Send initial data
     socket.emit('session_joined', {
       sessionId,
       participants: sessionManager.getParticipants(sessionId),
-      gameState: sessionManager.getGameState(sessionId)
+      gameState: collaborationService.getGameState(sessionId),
+      simulation
     });
 
     // Notify others about new participant
@@ -132,7 +142,8 @@ async function setupConnection(io, socket) {
       userName: participant.userName,
       role: participant.role,
       presence: participant.presence,
-      isGuest: participant.isGuest
+      isGuest: participant.isGuest,
+      skin: participant.skin
     });
   } catch (err) {
     if (err?.code === 'SESSION_FULL') {
@@ -314,17 +325,49 @@ function registerCollaborationHandlers(io, socket) {
         socket.userData,
         parsed.data.operation,
         parsed.data.blockId,
-        parsed.data.blockData
+        parsed.data.blockData,
+        parsed.data.opId
       );
 
+      if (!result.accepted) {
+        // Sender rebases its optimistic edit on the current block
+        socket.emit('operation_rejected', result);
+        return;
+      }
+
       io.to(`session:${sessionId}`).emit('block_operation', result);
-      socket.emit('operation_ack', { operation: data.operation, blockId: data.blockId });
+      socket.emit('operation_ack', { operation: result.operation, blockId: result.blockId, opId: result.opId, version: result.version, seq: result.seq });
     } catch (error) {
       console.error('[WS] Block operation error:', error);
       socket.emit('error', { message: error.message });
     }
   });
 
+  // Terrain strokes: relayed to the other participants (the sender already applied it)
+  socket.on('terrain_operation', (data) => {
+    try {
+      if (!socket.rateLimiter.allow('terrain_operation')) return;
+      const parsed = terrainOperationSchema.safeParse(data);
+      if (!parsed.success) return;
+      const result = collaborationService.processTerrainOperation(
+        sessionId,
+        socket.userData,
+        parsed.data.delta,
+        parsed.data.opId
+      );
+      socket.to(`session:${sessionId}`).emit('terrain_operation', result);
+    } catch (error) {
+      console.error('[WS] Terrain operation error:', error);
+      socket.emit('error', { message: error.message });
+    }
+  });
+
+  // Full resync (client detected a gap in the operation sequence)
+  socket.on('request_state', () => {
+    if (!socket.rateLimiter.allow('request_state')) return;
+    socket.emit('game_state', collaborationService.getGameState(sessionId));
+  });
+
   // Selection changes
   socket.on('selection_change', (data) => {
     if (!socket.rateLimiter.allow('selection_change')) return;
@@ -337,14 +380,13 @@ function registerCollaborationHandlers(io, socket) {
     socket.to(`session:${sessionId}`).emit('selection_change', result);
   });
 
-  // Multiplayer game events
+  // Multiplayer input: consumed by the server simulation, results arrive via state_snapshot
   socket.on('player_input', (data) => {
     try {
       if (!socket.rateLimiter.allow('player_input')) return;
       const parsed = playerInputSchema.safeParse(data);
       if (!parsed.success) return;
-      const result = collaborationService.processPlayerInput(socket.userData, parsed.data);
-      socket.to(`session:${sessionId}`).emit('player_input', result);
+      simulationService.queueInput(sessionId, socket.userData, parsed.data.seq, parsed.data.input);
     } catch (error) {
       console.error('[WS] Player input error:', error);
     }
@@ -464,6 +506,12 @@ function registerDisconnectHandler(io, socket) {
 
       // Remove from session
       await sessionManager.removeParticipant(sessionId, socket.userData);
+      simulationService.leave(sessionId, socket.userData);
+
+      // Last one out: write merged blocks back to the game
+      if (!sessionManager.getSession(sessionId)) {
+        await collaborationService.closeSession(sessionId);
+      }
 
       // Notify others in session
       socket.to(`session:${sessionId}`).emit('participant_left', {
@@ -2,6 +2,29 @@ import prisma from '../../../config/database.js';
 import { verifySessionToken } from '../../utils/tokenUtils.js';
 import { wsConfig } from '../../config/websocket.config.js';
 
+/**
+ * Avatar a logged-in user picked in their profile, so other players can draw it.
+ * skinConfig is stored as JSON text; databases without the skin columns yield null.
+ */
+async function loadUserSkin(userId) {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { skinId: true, skinConfig: true }
+    });
+    if (!user) return null;
+    let config = null;
+    if (user.skinConfig) {
+      try {
+        config = JSON.parse(user.skinConfig);
+      } catch {}
+    }
+    return { skinId: user.skinId || null, config };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Socket.IO authentication middleware
  * Verifies JWT token and attaches user/session data to socket
@@ -76,7 +99,8 @@ export async function authMiddleware(socket, next) {
       participantId: participant.id,
       role: participant.role,
       userName: participant.user?.name || participant.guestName || 'Anonymous',
-      isGuest: isGuest || false
+      isGuest: isGuest || false,
+      skin: isGuest ? null : await loadUserSkin(userId)
     };
 
     // For backward compatibility, also attach directly to socket
@@ -0,0 +1,138 @@
+/**
+ * Authoritative block state for one collaboration session.
+ *
+ * Every accepted operation gets a session-wide sequence number and bumps the
+ * block's version. Updates merge per field, so concurrent edits to different
+ * fields of the same block both survive; edits to the same field resolve in
+ * sequence order; a null field value clears the field. Deleted blocks leave a tombstone so late updates are
+ * rejected instead of resurrecting the block.
+ */
+export class BlockDocument {
+  constructor(blocks = []) {
+    this.entries = new Map(); // blockId -> { data, version, deleted, updatedBy }
+    this.seq = 0;
+    this.dirty = false;
+    this.load(blocks);
+  }
+
+  /**
+   * Replace state with persisted blocks (e.g. from Game.blocks)
+   */
+  load(blocks) {
+    this.entries.clear();
+    for (const block of Array.isArray(blocks) ? blocks : []) {
+      if (!block || typeof block.id !== 'string') continue;
+      this.entries.set(block.id, { data: { ...block }, version: 1, deleted: false, updatedBy: null });
+    }
+    this.dirty = false;
+  }
+
+  /**
+   * Apply an operation. Returns { accepted: true, ... } with the sequenced
+   * result, or { accepted: false, reason, ... } with the current block so the
+   * sender can rebase.
+   */
+  apply(operation, blockId, blockData, userId) {
+    const entry = this.entries.get(blockId);
+    const live = entry && !entry.deleted;
+
+    switch (operation) {
+      case 'add': {
+        // Re-adding a live id (e.g. a retried op) behaves like an update
+        const data = live
+          ? { ...mergeFields(entry.data, stripMeta(blockData)), id: blockId }
+          : { ...mergeFields({}, stripMeta(blockData)), id: blockId };
+        return this.commit(operation, blockId, data, (entry?.version || 0) + 1, userId);
+      }
+
+      case 'update': {
+        if (!live) {
+          return this.reject(blockId, 'deleted');
+        }
+        const data = { ...mergeFields(entry.data, stripMeta(blockData)), id: blockId };
+        return this.commit(operation, blockId, data, entry.version + 1, userId);
+      }
+
+      case 'delete': {
+        if (!live) {
+          return this.reject(blockId, 'deleted');
+        }
+        return this.commit(operation, blockId, null, entry.version + 1, userId);
+      }
+
+      default:
+        throw new Error(`Unknown operation: ${operation}`);
+    }
+  }
+
+  commit(operation, blockId, data, version, userId) {
+    this.seq += 1;
+    this.dirty = true;
+    const previous = this.entries.get(blockId);
+    this.entries.set(blockId, {
+      data: data ?? previous?.data ?? null,
+      version,
+      deleted: operation === 'delete',
+      updatedBy: userId || null,
+    });
+    return { accepted: true, operation, blockId, blockData: data, version, seq: this.seq };
+  }
+
+  reject(blockId, reason) {
+    const entry = this.entries.get(blockId);
+    return {
+      accepted: false,
+      reason,
+      blockId,
+      blockData: entry && !entry.deleted ? entry.data : null,
+      version: entry?.version || 0,
+      seq: this.seq,
+    };
+  }
+
+  getVersion(blockId) {
+    return this.entries.get(blockId)?.version || 0;
+  }
+
+  /**
+   * Live blocks as an array (for persistence)
+   */
+  toBlocks() {
+    const out = [];
+    for (const entry of this.entries.values()) {
+      if (!entry.deleted && entry.data) out.push(entry.data);
+    }
+    return out;
+  }
+
+  /**
+   * Snapshot sent to joining clients
+   */
+  snapshot() {
+    const blocks = {};
+    const versions = {};
+    for (const [id, entry] of this.entries) {
+      versions[id] = entry.version;
+      if (!entry.deleted && entry.data) blocks[id] = entry.data;
+    }
+    return { blocks, versions, seq: this.seq };
+  }
+}
+
+// Clients must not be able to forge versioning fields; a client `baseVersion`
+// is ignored because updates merge per field instead of failing when stale
+function stripMeta(blockData) {
+  if (!blockData || typeof blockData !== 'object') return {};
+  const { version: _v, seq: _s, baseVersion: _b, ...rest } = blockData;
+  return rest;
+}
+
+// Clients send cleared fields as null (undefined does not survive JSON)
+function mergeFields(base, fields) {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === null) delete merged[key];
+    else merged[key] = value;
+  }
+  return merged;
+}
@@ -1,13 +1,72 @@
 import { sessionManager } from '../session/SessionManager.js';
+import { wsConfig } from '../../config/websocket.config.js';
+import { BlockDocument } from './BlockDocument.js';
+import { validateRun } from '../../../services/runValidation.js';
+import { encodeReplay } from '../../../services/replayCodec.js';
+import logger from '../../../utils/logger.js';
+
+const terrainValueCount = (delta) => delta.ranges.reduce((sum, range) => sum + range.before.length, 0);
 
 /**
  * Handles collaborative editing operations
  */
 export class CollaborationService {
+  constructor() {
+    // sessionId -> { doc: BlockDocument, gameId: string | null, terrainOps?: object[] }
+    this.documents = new Map();
+
+    // Periodically write merged block state back to Game.blocks
+    this.startPersistInterval();
+  }
+
+  /**
+   * Load the authoritative block document for a session from its game
+   */
+  async loadDocument(sessionId) {
+    if (this.documents.has(sessionId)) return this.documents.get(sessionId);
+
+    const { default: prisma } = await import('../../../config/database.js');
+    let gameId = null;
+    let blocks = [];
+    try {
+      const session = await prisma.realtimeSession.findUnique({
+        where: { id: sessionId },
+        select: { gameId: true }
+      });
+      if (session?.gameId) {
+        const game = await prisma.game.findUnique({ where: { id: session.gameId }, select: { blocks: true } });
+        blocks = JSON.parse(game?.blocks || '[]');
+        // Only a document read from the game may be written back over it
+        gameId = session.gameId;
+      }
+    } catch (error) {
+      logger.warn({ sessionId, err: error?.message }, 'Failed to load game blocks for session');
+    }
+
+    // Another join may have loaded it while we were awaiting
+    if (!this.documents.has(sessionId)) {
+      this.documents.set(sessionId, { doc: new BlockDocument(blocks), gameId });
+    }
+    return this.documents.get(sessionId);
+  }
+
   /**
-   * Process block operation
+   * Loaded document for a session; edits arriving before loadDocument finishes are refused
    */
-  processBlockOperation(sessionId, userData, operation, blockId, blockData) {
+  getDocument(sessionId) {
+    const entry = this.documents.get(sessionId);
+    if (!entry) {
+      throw new Error('Session document is still loading');
+    }
+    return entry.doc;
+  }
+
+  /**
+   * Process block operation.
+   * Returns the sequenced operation for broadcasting, or a rejection
+   * (accepted: false) carrying the current block so the sender can rebase.
+   */
+  processBlockOperation(sessionId, userData, operation, blockId, blockData, opId) {
     // Check permissions
     if (userData.role !== 'OWNER' && userData.role !== 'EDITOR') {
       throw new Error('Insufficient permissions for editing');
@@ -18,51 +77,11 @@ export class CollaborationService {
       throw new Error('Session not found');
     }
 
-    // Apply operation to game state
-    let updatedState = { ...sessionData.gameState };
-    
-    switch (operation) {
-      case 'add':
-        updatedState.blocks = updatedState.blocks || {};
-        updatedState.blocks[blockId] = {
-          ...blockData,
-          id: blockId,
-          createdBy: userData.userId,
-          createdAt: Date.now()
-        };
-        break;
-        
-      case 'update':
-        if (!updatedState.blocks || !updatedState.blocks[blockId]) {
-          throw new Error('Block not found');
-        }
-        updatedState.blocks[blockId] = {
-          ...updatedState.blocks[blockId],
-          ...blockData,
-          updatedBy: userData.userId,
-          updatedAt: Date.now()
-        };
-        break;
-        
-      case 'delete':
-        if (!updatedState.blocks || !updatedState.blocks[blockId]) {
-          throw new Error('Block not found');
-        }
-        delete updatedState.blocks[blockId];
-        break;
-        
-      default:
-        throw new Error(`Unknown operation: ${operation}`);
-    }
-
-    // Update session game state
-    sessionManager.updateGameState(sessionId, updatedState);
+    const result = this.getDocument(sessionId).apply(operation, blockId, blockData, userData.userId);
 
-    // Return operation details for broadcasting
     return {
-      operation,
-      blockId,
-      blockData: updatedState.blocks?.[blockId] || null,
+      ...result,
+      opId: opId || null,
       userId: userData.userId,
       userName: userData.userName,
       timestamp: Date.now()
@@ -70,30 +89,94 @@ export class CollaborationService {
   }
 
   /**
-   * Process selection change
+   * Process a terrain stroke delta.
+   * Deltas carry absolute values, so replaying them in order is idempotent;
+   * recent ones are kept so late joiners can catch up.
    */
-  processSelectionChange(userData, selectedBlocks) {
-    const effectiveUserId = userData.userId || userData.guestId;
-    return {
-      userId: effectiveUserId,
-      guestId: userData.guestId || null,
+  processTerrainOperation(sessionId, userData, delta, opId) {
+    if (userData.role !== 'OWNER' && userData.role !== 'EDITOR') {
+      throw new Error('Insufficient permissions for editing');
+    }
+
+    if (!sessionManager.getSession(sessionId)) {
+      throw new Error('Session not found');
+    }
+
+    const result = {
+      delta,
+      opId: opId || null,
+      userId: userData.userId,
       userName: userData.userName,
-      selectedBlocks: selectedBlocks || []
+      timestamp: Date.now()
     };
+
+    // Throws until the session's document has loaded
+    this.getDocument(sessionId);
+    const entry = this.documents.get(sessionId);
+    const log = entry.terrainOps || (entry.terrainOps = []);
+    log.push(result);
+    let total = log.reduce((sum, op) => sum + terrainValueCount(op.delta), 0);
+    while (log.length > 1 && total > wsConfig.collaboration.maxTerrainLogValues) {
+      total -= terrainValueCount(log.shift().delta);
+    }
+
+    return result;
   }
 
   /**
-   * Process player input (for play mode)
+   * Persist merged block state to Game.blocks if it changed
    */
-  processPlayerInput(userData, input) {
-    if (userData.role !== 'PLAYER') {
-      throw new Error('Only players can send input');
+  async persistSession(sessionId) {
+    const entry = this.documents.get(sessionId);
+    if (!entry || !entry.gameId || !entry.doc.dirty) return false;
+
+    const { default: prisma } = await import('../../../config/database.js');
+    // Clear first so edits landing during the write mark it dirty again
+    entry.doc.dirty = false;
+    try {
+      await prisma.game.update({
+        where: { id: entry.gameId },
+        data: { blocks: JSON.stringify(entry.doc.toBlocks()) }
+      });
+      return true;
+    } catch (error) {
+      entry.doc.dirty = true;
+      logger.error({ sessionId, gameId: entry.gameId, err: error?.message }, 'Failed to persist session blocks');
+      return false;
     }
+  }
 
+  /**
+   * Flush and drop a session's document once everyone has left
+   */
+  async closeSession(sessionId) {
+    await this.persistSession(sessionId);
+    this.documents.delete(sessionId);
+  }
+
+  startPersistInterval() {
+    const timer = setInterval(async () => {
+      for (const sessionId of Array.from(this.documents.keys())) {
+        if (sessionManager.getSession(sessionId)) {
+          await this.persistSession(sessionId);
+        } else {
+          await this.closeSession(sessionId);
+        }
+      }
+    }, wsConfig.collaboration.persistIntervalMs);
+    timer.unref?.();
+  }
+
+  /**
+   * Process selection change
+   */
+  processSelectionChange(userData, selectedBlocks) {
+    const effectiveUserId = userData.userId || userData.guestId;
     return {
-      userId: userData.userId,
+      userId: effectiveUserId,
+      guestId: userData.guestId || null,
       userName: userData.userName,
-      input
+      selectedBlocks: selectedBlocks || []
     };
   }
 
@@ -110,18 +193,18 @@ export class CollaborationService {
     };
 
     // Handle special events
-    if (type === 'finish' && eventData.timeMs && userData.userId) {
-      await this.saveScore(sessionId, userData.userId, eventData.timeMs);
+    if (type === 'finish' && eventData?.timeMs && userData.userId) {
+      await this.saveScore(sessionId, userData.userId, eventData.timeMs, eventData.run);
     }
 
     return result;
   }
 
   /**
-   * Save score to leaderboard
+   * Save score to leaderboard after verifying the run record
    */
-  async saveScore(sessionId, userId, timeMs) {
-    const { default: prisma } = await import('../../config/database.js');
+  async saveScore(sessionId, userId, timeMs, run) {
+    const { default: prisma } = await import('../../../config/database.js');
 
     try {
       const session = await prisma.realtimeSession.findUnique({
@@ -130,11 +213,29 @@ export class CollaborationService {
       });
 
       if (session && session.gameId) {
+        const game = await prisma.game.findUnique({ where: { id: session.gameId }, select: { blocks: true } });
+        let blocks = [];
+        try { blocks = JSON.parse(game?.blocks || '[]'); } catch {}
+
+        const verdict = validateRun(run, blocks, timeMs);
+        if (!verdict.valid) {
+          await prisma.auditLog.create({
+            data: {
+              action: 'game.score.rejected',
+              userId,
+              metadata: JSON.stringify({ gameId: session.gameId, sessionId, timeMs, reasons: verdict.reasons })
+            }
+          });
+          logger.warn({ sessionId, userId, reasons: verdict.reasons }, 'Rejected realtime score');
+          return;
+        }
+
         await prisma.score.create({
           data: {
             userId,
             gameId: session.gameId,
-            timeMs
+            timeMs: verdict.timeMs,
+            replay: encodeReplay(run.samples)
           }
         });
       }
@@ -146,10 +247,12 @@ export class CollaborationService {
   }
 
   /**
-   * Get current game state
+   * Get current game state (block snapshot with versions and sequence)
    */
   getGameState(sessionId) {
-    return sessionManager.getGameState(sessionId);
+    const entry = this.documents.get(sessionId);
+    if (!entry) return sessionManager.getGameState(sessionId);
+    return { ...sessionManager.getGameState(sessionId), ...entry.doc.snapshot(), terrainOps: entry.terrainOps || [] };
   }
 
   /**
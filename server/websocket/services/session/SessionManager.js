@@ -66,7 +66,8 @@ export class SessionManager {
       joinedAt: Date.now(),
       presence: { online: true },
       isOnline: true,
-      isGuest: userData.isGuest
+      isGuest: userData.isGuest,
+      skin: userData.skin || null
     });
 
     // Track user sessions
@@ -143,7 +144,8 @@ export class SessionManager {
       role: p.role,
       presence: p.presence,
       isOnline: p.isOnline,
-      isGuest: p.isGuest
+      isGuest: p.isGuest,
+      skin: p.skin
     }));
   }
 
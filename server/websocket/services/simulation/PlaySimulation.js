@@ -0,0 +1,184 @@
+import * as CANNON from 'cannon-es';
+import { MOVEMENT, InputQueue, applyMovement } from './playerMovement.js';
+
+const KILL_Y = -50;
+const DEFAULT_SPAWN = { x: 0, y: 5, z: 0 };
+// Players get their own collision group so ground rays only see blocks
+const PLAYER_GROUP = 2;
+const BLOCK_GROUP = 1;
+
+/**
+ * Headless play-mode physics for one session.
+ *
+ * World, materials and player capsule follow the client's PlayPhysics setup;
+ * blocks are static colliders. Players move only through queued inputs.
+ */
+export class PlaySimulation {
+  constructor(blocks = [], { maxQueuedInputs = 8 } = {}) {
+    this.maxQueuedInputs = maxQueuedInputs;
+    this.players = new Map(); // playerId -> { body, velocity, queue, jumpLatched, grounded, userName }
+    this.tick = 0;
+
+    this.world = new CANNON.World();
+    this.world.gravity.set(0, -9.81, 0);
+    this.world.broadphase = new CANNON.SAPBroadphase(this.world);
+    this.world.solver.iterations = 10;
+    this.world.defaultContactMaterial.friction = 0.4;
+    this.world.defaultContactMaterial.restitution = 0.3;
+
+    this.setupMaterials();
+    this.spawn = this.loadBlocks(blocks);
+  }
+
+  setupMaterials() {
+    this.materials = {
+      default: new CANNON.Material('default'),
+      player: new CANNON.Material('player'),
+      ice: new CANNON.Material('ice'),
+      bouncy: new CANNON.Material('bouncy')
+    };
+    const { player, default: base, ice, bouncy } = this.materials;
+    const stable = { contactEquationStiffness: 1e7, contactEquationRelaxation: 3, frictionEquationStiffness: 1e7, frictionEquationRelaxation: 3 };
+    this.world.addContactMaterial(new CANNON.ContactMaterial(player, base, { friction: 0.05, restitution: 0, ...stable }));
+    this.world.addContactMaterial(new CANNON.ContactMaterial(player, ice, { friction: 0.005, restitution: 0, ...stable }));
+    this.world.addContactMaterial(new CANNON.ContactMaterial(player, bouncy, {
+      friction: 0.04,
+      restitution: 1.0,
+      contactEquationStiffness: 8e6,
+      contactEquationRelaxation: 4,
+      frictionEquationStiffness: 8e6,
+      frictionEquationRelaxation: 4
+    }));
+  }
+
+  /**
+   * Add static colliders for blocks; returns the spawn point (above the start block)
+   */
+  loadBlocks(blocks) {
+    let spawn = DEFAULT_SPAWN;
+    for (const block of Array.isArray(blocks) ? blocks : []) {
+      if (!block?.position) continue;
+      const type = String(block.type || '');
+      const scale = typeof block.scale === 'number'
+        ? { x: block.scale, y: block.scale, z: block.scale }
+        : { x: block.scale?.x ?? 1, y: block.scale?.y ?? 1, z: block.scale?.z ?? 1 };
+      const halfY = type === 'plate' ? 0.05 * scale.y : 0.5 * scale.y;
+      const body = new CANNON.Body({
+        mass: 0,
+        type: CANNON.Body.STATIC,
+        collisionFilterGroup: BLOCK_GROUP,
+        shape: new CANNON.Box(new CANNON.Vec3(0.5 * scale.x, halfY, 0.5 * scale.z)),
+        position: new CANNON.Vec3(block.position.x, block.position.y, block.position.z),
+        material: type.includes('ice') ? this.materials.ice : type.includes('bouncy') ? this.materials.bouncy : this.materials.default
+      });
+      // Editor rotations are stored in degrees
+      const toRad = Math.PI / 180;
+      body.quaternion.setFromEuler((block.rotationX || 0) * toRad, (block.rotationY || 0) * toRad, (block.rotationZ || 0) * toRad);
+      this.world.addBody(body);
+
+      if (type === 'start') {
+        spawn = { x: block.position.x, y: block.position.y + 2, z: block.position.z };
+      }
+    }
+    return spawn;
+  }
+
+  addPlayer(playerId, userName) {
+    if (this.players.has(playerId)) return this.players.get(playerId);
+
+    const radius = MOVEMENT.radius;
+    const cylinderHeight = Math.max(0.01, MOVEMENT.halfHeight * 2 - 2 * radius);
+    const body = new CANNON.Body({
+      mass: MOVEMENT.mass,
+      position: new CANNON.Vec3(this.spawn.x, this.spawn.y, this.spawn.z),
+      material: this.materials.player,
+      fixedRotation: true,
+      linearDamping: 0.4,
+      type: CANNON.Body.DYNAMIC,
+      collisionFilterGroup: PLAYER_GROUP
+    });
+    const cylQuat = new CANNON.Quaternion();
+    cylQuat.setFromAxisAngle(new CANNON.Vec3(0, 0, 1), Math.PI / 2);
+    body.addShape(new CANNON.Sphere(radius), new CANNON.Vec3(0, cylinderHeight / 2, 0));
+    body.addShape(new CANNON.Sphere(radius), new CANNON.Vec3(0, -cylinderHeight / 2, 0));
+    body.addShape(new CANNON.Cylinder(radius, radius, cylinderHeight, 8), new CANNON.Vec3(0, 0, 0), cylQuat);
+    body.updateMassProperties();
+    this.world.addBody(body);
+
+    // velocity aliases the body's vector so movement writes straight into the physics state
+    const player = { body, velocity: body.velocity, queue: new InputQueue(this.maxQueuedInputs), jumpLatched: false, grounded: false, userName };
+    this.players.set(playerId, player);
+    return player;
+  }
+
+  removePlayer(playerId) {
+    const player = this.players.get(playerId);
+    if (!player) return;
+    this.world.removeBody(player.body);
+    this.players.delete(playerId);
+  }
+
+  queueInput(playerId, seq, input) {
+    const player = this.players.get(playerId);
+    return player ? player.queue.push(seq, input) : false;
+  }
+
+  /**
+   * Ground probe matching the client's downward ray
+   */
+  probeGround(body) {
+    const from = new CANNON.Vec3(body.position.x, body.position.y, body.position.z);
+    const to = new CANNON.Vec3(body.position.x, body.position.y - (MOVEMENT.halfHeight + 0.1), body.position.z);
+    const result = new CANNON.RaycastResult();
+    new CANNON.Ray(from, to).intersectWorld(this.world, {
+      mode: CANNON.Ray.CLOSEST,
+      result,
+      skipBackfaces: true,
+      collisionFilterMask: BLOCK_GROUP,
+      checkCollisionResponse: true
+    });
+    return { grounded: result.hasHit, surface: result.hasHit ? result.body?.material?.name : null };
+  }
+
+  step(dt) {
+    for (const player of this.players.values()) {
+      const input = player.queue.next();
+      const ground = this.probeGround(player.body);
+      player.grounded = ground.grounded;
+      applyMovement(player, input, ground, dt);
+    }
+
+    this.world.step(dt);
+    this.tick += 1;
+
+    for (const player of this.players.values()) {
+      if (player.body.position.y < KILL_Y) {
+        player.body.position.set(this.spawn.x, this.spawn.y, this.spawn.z);
+        player.body.velocity.set(0, 0, 0);
+      }
+    }
+  }
+
+  /**
+   * Authoritative state; ackSeq is the last input applied for each player
+   */
+  snapshot() {
+    const players = [];
+    for (const [id, player] of this.players) {
+      const { position, velocity } = player.body;
+      players.push({
+        id,
+        userName: player.userName,
+        position: { x: position.x, y: position.y, z: position.z },
+        velocity: { x: velocity.x, y: velocity.y, z: velocity.z },
+        grounded: player.grounded,
+        ackSeq: player.queue.ackSeq
+      });
+    }
+    return { tick: this.tick, players };
+  }
+
+  get playerCount() {
+    return this.players.size;
+  }
+}
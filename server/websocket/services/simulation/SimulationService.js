@@ -0,0 +1,81 @@
+import { wsConfig } from '../../config/websocket.config.js';
+import { PlaySimulation } from './PlaySimulation.js';
+import logger from '../../../utils/logger.js';
+
+/**
+ * Runs one authoritative play simulation per session and broadcasts
+ * snapshots to the session room at a fixed rate
+ */
+export class SimulationService {
+  constructor() {
+    // sessionId -> { sim: PlaySimulation, timer }
+    this.sessions = new Map();
+  }
+
+  /**
+   * Add a player to the session's simulation, starting it if needed
+   */
+  join(io, sessionId, userData, blocks) {
+    let entry = this.sessions.get(sessionId);
+    if (!entry) {
+      entry = this.start(io, sessionId, blocks);
+    }
+    const playerId = userData.userId || userData.guestId;
+    entry.sim.addPlayer(playerId, userData.userName);
+    return entry.sim.snapshot();
+  }
+
+  start(io, sessionId, blocks) {
+    const { tickRate, snapshotRate, maxQueuedInputs } = wsConfig.simulation;
+    const sim = new PlaySimulation(blocks, { maxQueuedInputs });
+    const dt = 1 / tickRate;
+    const ticksPerSnapshot = Math.max(1, Math.round(tickRate / snapshotRate));
+
+    const timer = setInterval(() => {
+      try {
+        sim.step(dt);
+        if (sim.tick % ticksPerSnapshot === 0) {
+          io.to(`session:${sessionId}`).emit('state_snapshot', { ...sim.snapshot(), serverTime: Date.now() });
+        }
+      } catch (error) {
+        logger.error({ sessionId, err: error?.message }, 'Play simulation step failed');
+      }
+    }, 1000 / tickRate);
+    timer.unref?.();
+
+    const entry = { sim, timer };
+    this.sessions.set(sessionId, entry);
+    return entry;
+  }
+
+  /**
+   * Queue a sequenced input; returns false if it was dropped
+   */
+  queueInput(sessionId, userData, seq, input) {
+    if (userData.role !== 'PLAYER') {
+      throw new Error('Only players can send input');
+    }
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return false;
+    return entry.sim.queueInput(userData.userId || userData.guestId, seq, input);
+  }
+
+  leave(sessionId, userData) {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return;
+    entry.sim.removePlayer(userData.userId || userData.guestId);
+    if (entry.sim.playerCount === 0) {
+      this.stop(sessionId);
+    }
+  }
+
+  stop(sessionId) {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return;
+    clearInterval(entry.timer);
+    this.sessions.delete(sessionId);
+  }
+}
+
+// Export singleton instance
+export const simulationService = new SimulationService();
@@ -0,0 +1,139 @@
+/**
+ * Player movement rules for the server simulation.
+ *
+ * Values mirror the PlayerController defaults on the client so local
+ * prediction and the authoritative result stay close; reconciliation
+ * corrects whatever drift remains.
+ */
+export const MOVEMENT = {
+  mass: 70,
+  accelerationGround: 100,
+  accelerationAir: 40,
+  airControl: 0.2,
+  sprintMultiplier: 1.5,
+  maxSpeed: 10,
+  groundFriction: 0.92,
+  airFriction: 0.985,
+  jumpImpulse: 8,
+  halfHeight: 0.9,
+  radius: 0.45,
+  surfaces: {
+    ice: { accelFactor: 0.6, friction: 0.97 },
+    bouncy: { accelFactor: 1.1, friction: 0.85 }
+  }
+};
+
+const INPUT_KEYS = ['forward', 'backward', 'left', 'right', 'jump', 'sprint'];
+
+/**
+ * Coerce a client input into booleans plus a finite camera yaw (radians)
+ */
+export function normalizeInput(raw) {
+  const input = {};
+  for (const key of INPUT_KEYS) {
+    input[key] = raw?.[key] === true;
+  }
+  const yaw = Number(raw?.yaw);
+  input.yaw = Number.isFinite(yaw) ? yaw : 0;
+  return input;
+}
+
+/**
+ * World-space move direction (unit length or zero) for an input,
+ * relative to the camera yaw the client was looking along
+ */
+export function moveDirection(input) {
+  const forward = (input.forward ? 1 : 0) - (input.backward ? 1 : 0);
+  const right = (input.right ? 1 : 0) - (input.left ? 1 : 0);
+  if (forward === 0 && right === 0) return { x: 0, z: 0 };
+
+  const sin = Math.sin(input.yaw);
+  const cos = Math.cos(input.yaw);
+  const x = sin * forward + cos * right;
+  const z = cos * forward - sin * right;
+  const len = Math.hypot(x, z) || 1;
+  return { x: x / len, z: z / len };
+}
+
+/**
+ * Advance one player's velocity by one fixed step.
+ * `player` holds { velocity, jumpLatched }; `ground` is { grounded, surface }.
+ */
+export function applyMovement(player, input, ground, dt) {
+  const velocity = player.velocity;
+  const surface = MOVEMENT.surfaces[ground.surface] || null;
+  const dir = moveDirection(input);
+  const moving = dir.x !== 0 || dir.z !== 0;
+
+  if (moving) {
+    const accel = ground.grounded
+      ? MOVEMENT.accelerationGround * (surface?.accelFactor ?? 1)
+      : MOVEMENT.accelerationAir * MOVEMENT.airControl;
+    const speedMultiplier = input.sprint ? MOVEMENT.sprintMultiplier : 1;
+    const dv = (accel * speedMultiplier / MOVEMENT.mass) * dt;
+    velocity.x += dir.x * dv;
+    velocity.z += dir.z * dv;
+  } else {
+    const friction = ground.grounded
+      ? (surface?.friction ?? MOVEMENT.groundFriction)
+      : MOVEMENT.airFriction;
+    velocity.x *= friction;
+    velocity.z *= friction;
+  }
+
+  const speed = Math.hypot(velocity.x, velocity.z);
+  if (speed > MOVEMENT.maxSpeed) {
+    const scale = MOVEMENT.maxSpeed / speed;
+    velocity.x *= scale;
+    velocity.z *= scale;
+  }
+
+  // Jump fires on press, not while held
+  if (!input.jump) {
+    player.jumpLatched = false;
+  } else if (!player.jumpLatched && ground.grounded && Math.abs(velocity.y) < 0.1) {
+    velocity.y += MOVEMENT.jumpImpulse / MOVEMENT.mass;
+    player.jumpLatched = true;
+  }
+}
+
+/**
+ * Sequenced inputs waiting for the simulation. One input is consumed per
+ * step, so sending inputs faster than the tick rate cannot speed a player up.
+ */
+export class InputQueue {
+  constructor(maxLength) {
+    this.maxLength = maxLength;
+    this.items = [];
+    this.lastQueuedSeq = 0;
+    this.ackSeq = 0;
+    this.current = normalizeInput(null);
+  }
+
+  /**
+   * Returns false for stale/duplicate sequence numbers or when the queue is full
+   */
+  push(seq, input) {
+    if (!Number.isInteger(seq) || seq <= this.lastQueuedSeq) return false;
+    if (this.items.length >= this.maxLength) return false;
+    this.items.push({ seq, input: normalizeInput(input) });
+    this.lastQueuedSeq = seq;
+    return true;
+  }
+
+  /**
+   * Input for the next step; holds the last one while the client catches up
+   */
+  next() {
+    const item = this.items.shift();
+    if (item) {
+      this.current = item.input;
+      this.ackSeq = item.seq;
+    }
+    return this.current;
+  }
+
+  get size() {
+    return this.items.length;
+  }
+}
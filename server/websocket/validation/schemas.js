@@ -28,7 +28,45 @@ export const markMessageReadSchema = z.object({
 export const blockOperationSchema = z.object({
   operation: z.string().min(1).max(32),
   blockId: z.string().min(1).max(64),
-  blockData: z.unknown().optional()
+  blockData: z.unknown().optional(),
+  opId: z.string().min(1).max(64).optional()
+});
+
+// Values per grid vertex in each terrain channel
+const TERRAIN_CHANNEL_STRIDE = { heights: 1, colors: 4, splat: 4 };
+
+const terrainRangeSchema = z.object({
+  start: z.number().int().min(0),
+  before: z.array(z.number().finite()).min(1),
+  after: z.array(z.number().finite())
+});
+
+// One terrain stroke (or a piece of one): runs of vertices with values before and after
+export const terrainOperationSchema = z.object({
+  delta: z.object({
+    channel: z.enum(['heights', 'colors', 'splat']),
+    resolution: z.number().int().min(2).max(1025),
+    ranges: z.array(terrainRangeSchema).min(1).max(4096)
+  }).superRefine((delta, ctx) => {
+    const stride = TERRAIN_CHANNEL_STRIDE[delta.channel];
+    const vertexCount = delta.resolution * delta.resolution;
+    let total = 0;
+    for (const range of delta.ranges) {
+      if (range.before.length !== range.after.length || range.before.length % stride !== 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Range values do not match the channel' });
+        return;
+      }
+      if (range.start + range.before.length / stride > vertexCount) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Range exceeds the terrain grid' });
+        return;
+      }
+      total += range.before.length;
+    }
+    if (total > wsConfig.limits.maxTerrainDeltaValues) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Terrain delta too large' });
+    }
+  }),
+  opId: z.string().min(1).max(64).optional()
 });
 
 export const selectionChangeSchema = z.object({
@@ -36,7 +74,16 @@ export const selectionChangeSchema = z.object({
 });
 
 export const playerInputSchema = z.object({
-  input: z.object({}).passthrough()
+  seq: z.number().int().positive(),
+  input: z.object({
+    forward: z.boolean().optional(),
+    backward: z.boolean().optional(),
+    left: z.boolean().optional(),
+    right: z.boolean().optional(),
+    jump: z.boolean().optional(),
+    sprint: z.boolean().optional(),
+    yaw: z.number().finite().optional()
+  })
 });
 
 export const gameEventSchema = z.object({
@@ -3,7 +3,10 @@ import { useProjectStore } from '@/lib/projectStore';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Trash2, Eye, EyeOff, Lock, Unlock, Copy, Pencil, MoreHorizontal } from 'lucide-react';
+import { Trash2, Eye, EyeOff, Lock, Unlock, Copy, Pencil, MoreHorizontal, ChevronDown, ChevronRight, Boxes } from 'lucide-react';
+import { usePrefabStore } from '@/features/projects/stores/prefab.store';
+import { instanceOverrides, listPrefabInstances } from '@/features/prefabs/prefabs';
+import { applyInstance, deletePrefab, placePrefab, revertPrefabInstance, saveSelectionAsPrefab, unpackPrefabInstance } from '@/features/prefabs/prefabActions';
 
 const Hierarchy = () => {
   const blocks = useProjectStore(s => (s as any).blocks) as { id: string; type: 'cube' | 'sphere'; position: { x: number; y: number; z: number }; name?: string; hidden?: boolean; locked?: boolean; group?: string }[];
@@ -18,6 +21,9 @@ const Hierarchy = () => {
   const setBlockHidden = useProjectStore(s => (s as any).setBlockHidden) as (id: string, hidden: boolean) => void;
   const setBlockLocked = useProjectStore(s => (s as any).setBlockLocked) as (id: string, locked: boolean) => void;
   const setBlockGroup = useProjectStore(s => (s as any).setBlockGroup) as (id: string, group: string) => void;
+  const projectBlocks = useProjectStore(s => s.blocks);
+  const prefabs = usePrefabStore(s => s.prefabs);
+  const renamePrefab = usePrefabStore(s => s.renamePrefab);
 
   const [filter, setFilter] = useState('');
   const [showHidden, setShowHidden] = useState(true);
@@ -28,6 +34,9 @@ const Hierarchy = () => {
   const [sortBy, setSortBy] = useState<'name' | 'type' | 'distance'>(() => (localStorage.getItem('hierarchy-sort') as any) || 'name');
   const [groupFilter, setGroupFilter] = useState<string>(() => localStorage.getItem('hierarchy-group-filter') || '');
   const [newGroupName, setNewGroupName] = useState<string>('');
+  const [newPrefabName, setNewPrefabName] = useState('');
+  // Prefab and instance nodes start collapsed; keyed by prefab or instance id
+  const [prefabOpen, setPrefabOpen] = useState<Record<string, boolean>>({});
   const rowHeight = 40;
   const viewportHeight = 240;
 
@@ -67,6 +76,38 @@ const Hierarchy = () => {
     return map;
   }, [blocks, filter, showHidden, typeFilter, sortBy, groupFilter]);
 
+  // Prefab -> instance -> member tree, with each member's overridden properties
+  const prefabTree = useMemo(() => {
+    const instances = listPrefabInstances(projectBlocks, prefabs);
+    const byId = new Map(projectBlocks.map(b => [b.id, b]));
+    return prefabs.map(prefab => ({
+      prefab,
+      instances: instances.filter(i => i.prefabId === prefab.id).map((instance, index) => {
+        const members = instance.blockIds.map(id => byId.get(id)!);
+        const overrides = instanceOverrides(prefab, members);
+        return {
+          ...instance,
+          label: `Instance ${index + 1}`,
+          overrideCount: Object.keys(overrides).length,
+          rows: members.map(b => ({
+            id: b.id,
+            name: b.name,
+            hidden: b.hidden,
+            locked: b.locked,
+            type: b.type,
+            label: `${b.name || b.type} (${b.position.x.toFixed(1)}, ${b.position.y.toFixed(1)}, ${b.position.z.toFixed(1)})${overrides[b.id] ? ` · ${overrides[b.id].join(', ')} overridden` : ''}`,
+          })),
+        };
+      }),
+    }));
+  }, [projectBlocks, prefabs]);
+  const toggleOpen = (id: string) => setPrefabOpen(s => ({ ...s, [id]: !s[id] }));
+  // Selected blocks outside any instance; "Apply" adds them to the prefab
+  const looseSelected = useMemo(() => {
+    const selected = new Set(selectedBlockIds || []);
+    return projectBlocks.filter(b => selected.has(b.id) && !b.prefabInstanceId).map(b => b.id);
+  }, [projectBlocks, selectedBlockIds]);
+
   const cubes = useMemo(() => items.filter(i => i.type === 'cube'), [items]);
   const spheres = useMemo(() => items.filter(i => i.type === 'sphere'), [items]);
   useEffect(() => { try { localStorage.setItem('hierarchy-group-open', JSON.stringify(groupOpen)); } catch {} }, [groupOpen]);
@@ -210,6 +251,78 @@ const Hierarchy = () => {
         )}
       </div>
 
+      {/* Prefabs: library -> instances -> member blocks */}
+      <div className="mb-3 space-y-1 text-xs">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold flex items-center gap-1"><Boxes className="h-3 w-3" /> Prefabs ({prefabs.length})</span>
+          <input className="flex-1 min-w-0 px-2 py-1 border border-sidebar-border rounded bg-sidebar-accent" placeholder="Prefab name..." value={newPrefabName} onChange={(e) => setNewPrefabName(e.target.value)} />
+          <Button size="sm" variant="outline" disabled={!selectedBlockIds?.length} onClick={() => { if (saveSelectionAsPrefab(newPrefabName)) setNewPrefabName(''); }}>Save selection as prefab</Button>
+        </div>
+        {prefabTree.map(({ prefab, instances }) => (
+          <div key={prefab.id}>
+            <div className="flex items-center gap-1">
+              <button className="flex items-center gap-1 font-medium min-w-0" onClick={() => toggleOpen(prefab.id)}>
+                {prefabOpen[prefab.id] ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                <span className="truncate">{prefab.name}</span>
+                <span className="text-sidebar-foreground/70">({prefab.blocks.length} blocks, {instances.length} placed)</span>
+              </button>
+              <div className="ml-auto flex items-center gap-1">
+                <Button size="sm" variant="ghost" onClick={() => placePrefab(prefab.id)}>Place</Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button size="sm" variant="ghost" className="h-6 w-6 p-0" title="More">
+                      <MoreHorizontal className="h-3 w-3" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="min-w-[8rem]">
+                    <DropdownMenuItem onClick={() => { const name = prompt('Prefab name?', prefab.name) || ''; if (name.trim()) renamePrefab(prefab.id, name.trim()); }}>
+                      <Pencil className="h-3 w-3 mr-2" /> Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-destructive" onClick={() => deletePrefab(prefab.id)}>
+                      <Trash2 className="h-3 w-3 mr-2" /> Delete (keeps blocks)
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            </div>
+            {prefabOpen[prefab.id] && (
+              <div className="ml-4 space-y-1">
+                {instances.length === 0 && <div className="text-sidebar-foreground/70">No instances placed.</div>}
+                {instances.map(instance => (
+                  <div key={instance.id}>
+                    <div className="flex items-center gap-1">
+                      <button className="flex items-center gap-1 min-w-0" onClick={() => toggleOpen(instance.id)}>
+                        {prefabOpen[instance.id] ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                        <span className="truncate">{instance.label}</span>
+                        <span className="text-sidebar-foreground/70">
+                          ({instance.origin.x.toFixed(1)}, {instance.origin.y.toFixed(1)}, {instance.origin.z.toFixed(1)}){instance.overrideCount > 0 ? ` · ${instance.overrideCount} overridden` : ''}
+                        </span>
+                      </button>
+                      <div className="ml-auto flex items-center gap-1">
+                        <Button size="sm" variant="ghost" onClick={() => { setSelectedBlockIds(instance.blockIds); setSelectedBlockId(null); }}>Select</Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title={looseSelected.length ? `Update the prefab from this instance and add ${looseSelected.length} selected block(s)` : 'Update the prefab (and every instance) from this instance'}
+                          onClick={() => applyInstance(instance.id, looseSelected)}
+                        >Apply</Button>
+                        <Button size="sm" variant="ghost" disabled={instance.overrideCount === 0 && instance.blockIds.length === prefab.blocks.length} title="Discard this instance's overrides" onClick={() => revertPrefabInstance(instance.id)}>Revert</Button>
+                        <Button size="sm" variant="ghost" title="Turn back into plain blocks" onClick={() => unpackPrefabInstance(instance.id)}>Unpack</Button>
+                      </div>
+                    </div>
+                    {prefabOpen[instance.id] && (
+                      <div className="ml-4">
+                        {instance.rows.map(it => <Row key={it.id} it={it} />)}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
       {/* Grouped & virtualized */}
       <div className="space-y-3">
         <div>
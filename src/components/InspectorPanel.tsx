@@ -4,11 +4,17 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import Hierarchy from '@/components/Hierarchy';
 import BlockProperties from '@/components/scene/BlockProperties';
+import SelectionPanel from '@/components/scene/SelectionPanel';
+import LogicPanel from '@/components/editor-enhanced/scene/LogicPanel';
+import TimelinePanel from '@/components/editor-enhanced/scene/TimelinePanel';
 import MiniPreview from '@/components/MiniPreview';
+import EnvironmentPanel from '@/components/scene/EnvironmentPanel';
 import { useProjectStore } from '@/lib/projectStore';
+import { useEnvironmentStore } from '@/features/projects/stores/environment.store';
 
 const InspectorPanel = () => {
   const blocks = useProjectStore(s => s.blocks) as any[];
+  const environment = useEnvironmentStore(s => s.environment);
   // Header info moved to left Sidebar to avoid duplication
 
   const safeBlocks = useMemo(() => Array.isArray(blocks) ? blocks : [], [blocks]);
@@ -18,16 +24,19 @@ const InspectorPanel = () => {
 
       <div className="p-3 border-b border-sidebar-border">
         <Card className="w-full h-40 overflow-hidden">
-          <MiniPreview blocks={safeBlocks as any} className="w-full h-full" />
+          <MiniPreview blocks={safeBlocks as any} environment={environment} className="w-full h-full" />
         </Card>
         <div className="mt-2 text-xs text-sidebar-foreground/70">Objects: <Badge variant="outline" className="ml-2 text-[10px]">{safeBlocks.length}</Badge></div>
       </div>
 
       <div className="p-3">
         <Tabs defaultValue="properties" className="w-full">
-          <TabsList className="w-full grid grid-cols-3 bg-secondary/60">
+          <TabsList className="w-full grid grid-cols-6 bg-secondary/60">
             <TabsTrigger value="properties" className="data-[state=active]:text-[hsl(var(--brand-build))]">Properties</TabsTrigger>
+            <TabsTrigger value="logic" className="data-[state=active]:text-[hsl(var(--brand-build))]">Logic</TabsTrigger>
+            <TabsTrigger value="animate" className="data-[state=active]:text-[hsl(var(--brand-build))]">Animate</TabsTrigger>
             <TabsTrigger value="scene" className="data-[state=active]:text-[hsl(var(--brand-build))]">Scene</TabsTrigger>
+            <TabsTrigger value="world" className="data-[state=active]:text-[hsl(var(--brand-build))]">World</TabsTrigger>
             <TabsTrigger value="preview" className="data-[state=active]:text-[hsl(var(--brand-build))]">Preview</TabsTrigger>
           </TabsList>
 
@@ -35,14 +44,27 @@ const InspectorPanel = () => {
             <BlockProperties />
           </TabsContent>
 
+          <TabsContent value="logic" className="mt-3">
+            <LogicPanel />
+          </TabsContent>
+
+          <TabsContent value="animate" className="mt-3">
+            <TimelinePanel />
+          </TabsContent>
+
           <TabsContent value="scene" className="mt-3">
+            <SelectionPanel />
             <Hierarchy />
           </TabsContent>
 
+          <TabsContent value="world" className="mt-3">
+            <EnvironmentPanel />
+          </TabsContent>
+
           <TabsContent value="preview" className="mt-3">
             <Card className="w-full h-64 overflow-hidden">
               <div className="h-full w-full bg-gradient-to-br from-primary/10 to-accent/10">
-                <MiniPreview blocks={safeBlocks as any} className="w-full h-full" />
+                <MiniPreview blocks={safeBlocks as any} environment={environment} className="w-full h-full" />
               </div>
             </Card>
           </TabsContent>
@@ -1,19 +1,22 @@
 import { useEffect, useMemo, useRef } from 'react';
 import * as THREE from 'three';
-import type { Block } from '@/types/project';
+import type { Block, EnvironmentSettings } from '@/types/project';
+import { createSceneEnvironment } from '@/components/scene/engine/environment';
 
 type MiniPreviewProps = {
   blocks?: Block[];
   className?: string;
+  environment?: EnvironmentSettings | null; // sky, fog and lights; defaults when missing
 };
 
 // Lightweight, static renderer for small previews
-const MiniPreview = ({ blocks = [], className }: MiniPreviewProps) => {
+const MiniPreview = ({ blocks = [], className, environment }: MiniPreviewProps) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const groupRef = useRef<THREE.Group | null>(null);
+  const environmentRef = useRef<ReturnType<typeof createSceneEnvironment> | null>(null);
 
   const safeBlocks = useMemo(() => {
     return Array.isArray(blocks) ? blocks : [];
@@ -67,7 +70,6 @@ const MiniPreview = ({ blocks = [], className }: MiniPreviewProps) => {
     if (!mountRef.current) return;
 
     const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0x121212);
     sceneRef.current = scene;
 
     const camera = new THREE.PerspectiveCamera(55, 1, 0.1, 1000);
@@ -78,11 +80,12 @@ const MiniPreview = ({ blocks = [], className }: MiniPreviewProps) => {
     rendererRef.current = renderer;
     mountRef.current.appendChild(renderer.domElement);
 
-    // Lights
-    scene.add(new THREE.AmbientLight(0xffffff, 0.7));
-    const dir = new THREE.DirectionalLight(0xffffff, 0.8);
-    dir.position.set(5, 10, 6);
-    scene.add(dir);
+    // Lights, sky and fog: the same environment the editor and Play apply
+    const ambient = new THREE.AmbientLight(0xffffff, 0.25);
+    const sun = new THREE.DirectionalLight(0xffffff, 1);
+    scene.add(ambient, sun);
+    environmentRef.current = createSceneEnvironment(scene, { ambient, sun });
+    environmentRef.current.apply(null);
 
     // Ground (simple grid vibe)
     const ground = new THREE.Mesh(
@@ -137,7 +140,9 @@ const MiniPreview = ({ blocks = [], className }: MiniPreviewProps) => {
           if (Array.isArray(mat)) mat.forEach(m => m?.dispose()); else mat?.dispose?.();
         });
       }
+      environmentRef.current?.dispose();
       // Clear refs
+      environmentRef.current = null;
       rendererRef.current = null;
       sceneRef.current = null;
       cameraRef.current = null;
@@ -199,6 +204,12 @@ const MiniPreview = ({ blocks = [], className }: MiniPreviewProps) => {
     }
   }, [safeBlocks]);
 
+  useEffect(() => {
+    if (!environmentRef.current || !rendererRef.current || !sceneRef.current || !cameraRef.current) return;
+    environmentRef.current.apply(environment);
+    rendererRef.current.render(sceneRef.current, cameraRef.current);
+  }, [environment]);
+
   return (
     <div ref={mountRef} className={className || 'w-full h-full'} />
   );
@@ -7,15 +7,24 @@ import { usePhysicsWorld } from './scene/usePhysicsWorld';
 import { usePlayerController } from './scene/usePlayerController';
 import { useGridSnapping } from './scene/useGridSnapping';
 import { useGhostPreview } from './scene/useGhostPreview';
+import { useGhostPlayer } from './scene/useGhostPlayer';
+import { useLogicRuntime } from './scene/useLogicRuntime';
 import { useSelectionAndDragging } from './scene/useSelectionAndDragging';
 import { createBlock } from './scene/blocks/createBlock';
 import { disposeBlock as disposeRuntimeBlock } from './scene/blocks/disposeBlock';
 import { startEngineLoop } from './scene/engine/loop';
+import { createChunkedCubes } from './scene/blocks/chunkedCubes';
 import { attachCameraController } from './scene/camera/controller';
 import { attachEditorInput } from './scene/input/editorInput';
+import { attachMarqueeSelection } from './scene/input/marqueeSelection';
+import { createSelectionOutlines } from './scene/blocks/selectionOutlines';
+import { blocksInScreenRect, combineSelection, invertSelection, screenRectCandidates, selectByFilter } from '@/features/selection/selectionQueries';
+import { projectBlockIndex } from '@/features/projects/store';
 import { createSceneEngine } from './scene/engine/SceneEngine';
+import { useEnvironmentStore } from '@/features/projects/stores/environment.store';
+import { exportSceneToGlb, type GlbExportOptions } from './scene/export/exportGlb';
 
-const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, selectedTool = 'select', isPlayMode = false, terrainMode = 'flat', cameraMode = 'orbit', onGameStart, onGameCheckpoint, onGameFinish, onGameHazard }: Scene3DProps) => {
+const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, selectedTool = 'select', isPlayMode = false, terrainMode = 'flat', cameraMode = 'orbit', environment, terrain, logic, onGameStart, onGameCheckpoint, onGameFinish, onGameHazard, onGameRoundEnd }: Scene3DProps) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene>(null!);
   const rendererRef = useRef<THREE.WebGLRenderer>(null!);
@@ -24,7 +33,7 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
   const mouseRef = useRef<THREE.Vector2>(null!);
   const blocksRef = useRef<Block[]>([]);
   const groundRef = useRef<THREE.Mesh>(null!);
-  const { worldRef, groundBodyRef, groundMaterialRef, dynamicMaterialRef, createGround, raycastClosest, emitCollisionEvents, addCollisionListener } = usePhysicsWorld(terrainMode);
+  const { worldRef, groundBodyRef, groundMaterialRef, dynamicMaterialRef, createGround, removeGround, raycastClosest, emitCollisionEvents, addCollisionListener } = usePhysicsWorld(terrainMode);
   const snapEnabledRef = useRef<boolean>(true);
   const snapSizeRef = useRef<number>(1);
   const { selectedBlockRef, isDraggingRef, selectBlock, deselectBlock, startDragging, dragTo, stopDragging } = useSelectionAndDragging({
@@ -37,15 +46,21 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
   });
   const builderColorRef = useRef<number>(0xffffff);
   const { ghostRef, createGhost, removeGhost, updateGhostColor } = useGhostPreview({ sceneRef, colorRef: builderColorRef });
-  const droppedBlockRef = useRef<{ type: 'cube' | 'cube_bouncy' | 'cube_ice' | 'cube_conveyor' | 'cube_boost' | 'cube_slow' | 'cube_sticky' | 'sphere' | 'cylinder' | 'cone' | 'pyramid' | 'plate' | 'ramp' | 'torus' | 'wedge' | 'door' | 'window' | 'fence' | 'start' | 'checkpoint' | 'finish' | 'hazard' } | null>(null);
+  const droppedBlockRef = useRef<{ type: 'cube' | 'cube_bouncy' | 'cube_ice' | 'cube_conveyor' | 'cube_boost' | 'cube_slow' | 'cube_sticky' | 'sphere' | 'cylinder' | 'cone' | 'pyramid' | 'plate' | 'ramp' | 'torus' | 'wedge' | 'door' | 'window' | 'fence' | 'start' | 'checkpoint' | 'finish' | 'hazard' | 'model'; assetId?: string } | null>(null);
   const ghostRotationYRef = useRef<number>(0);
   const { gridHelperRef, snapRingRef, rebuildGridHelper, removeGridHelper, ensureSnapRing } = useGridSnapping({ sceneRef, gridVisible: useProjectStore((s: any) => s.gridVisible), snapSize: useProjectStore((s: any) => s.snapSize) });
   const cameraModeRef = useRef<'orbit' | 'first' | 'ortho'>(cameraMode);
+  const environmentRef = useRef(environment);
+  const applyEnvironmentRef = useRef<() => void>(() => {});
+  const terrainRef = useRef(terrain);
+  const rebuildGroundRef = useRef<() => void>(() => {});
   const transformRef = useRef<any>(null);
   const isGizmoDraggingRef = useRef<boolean>(false);
   const transformModeRef = useRef<'translate' | 'rotate' | 'scale'>('translate');
   const paintingRef = useRef<boolean>(false);
   const paintedIdsRef = useRef<Set<string>>(new Set());
+  // Chunked cubes are re-synced only after blocks or their colours change
+  const chunksDirtyRef = useRef<boolean>(true);
   // Gameplay state
   const spawnRef = useRef<THREE.Vector3 | null>(null);
   const checkpointRef = useRef<THREE.Vector3 | null>(null);
@@ -56,16 +71,18 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
     onGameCheckpoint?: Scene3DProps['onGameCheckpoint'];
     onGameFinish?: Scene3DProps['onGameFinish'];
     onGameHazard?: Scene3DProps['onGameHazard'];
+    onGameRoundEnd?: Scene3DProps['onGameRoundEnd'];
   }>({
     onGameStart,
     onGameCheckpoint,
     onGameFinish,
     onGameHazard,
+    onGameRoundEnd,
   });
 
   useEffect(() => {
-    callbacksRef.current = { onGameStart, onGameCheckpoint, onGameFinish, onGameHazard };
-  }, [onGameStart, onGameCheckpoint, onGameFinish, onGameHazard]);
+    callbacksRef.current = { onGameStart, onGameCheckpoint, onGameFinish, onGameHazard, onGameRoundEnd };
+  }, [onGameStart, onGameCheckpoint, onGameFinish, onGameHazard, onGameRoundEnd]);
   // temp objects to reduce allocations
   const tempNdc = useRef<THREE.Vector2>(new THREE.Vector2());
   const tempVec3 = useRef<THREE.Vector3>(new THREE.Vector3());
@@ -159,8 +176,42 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
   // grid helper and snap ring handled via useGridSnapping
 
   // Player controller
+  const { setGhostPose, setGhostSkin } = useGhostPlayer({ sceneRef });
   const { playerRef, update: updatePlayer } = usePlayerController({ isPlayMode: cameraMode === 'first' && isPlayMode, mountRef, worldRef: worldRef as any, sceneRef: sceneRef as any, cameraRef: cameraRef as any, dynamicMaterialRef: dynamicMaterialRef as any });
 
+  // Back to the last checkpoint (or the spawn); returns where the player went
+  const respawnPlayer = () => {
+    const resp = checkpointRef.current || spawnRef.current;
+    if (resp && playerRef.current) {
+      try {
+        playerRef.current.body.velocity.set(0, 0, 0);
+        playerRef.current.body.angularVelocity.set(0, 0, 0);
+        playerRef.current.body.position.set(resp.x, resp.y, resp.z);
+        playerRef.current.mesh.position.set(resp.x, resp.y, resp.z);
+      } catch {
+        // Player body not ready yet
+      }
+    }
+    return resp;
+  };
+
+  // Level logic; an end_round action finishes the run or sends the player back
+  const levelLogic = useLogicRuntime({
+    sceneRef,
+    blocksRef,
+    playerRef,
+    onRoundEnd: (outcome) => {
+      callbacksRef.current.onGameRoundEnd?.(outcome);
+      const player = playerRef.current?.body.position;
+      if (outcome === 'win' && player) {
+        lastFinishAtRef.current = performance.now();
+        callbacksRef.current.onGameFinish?.({ x: player.x, y: player.y, z: player.z });
+      } else if (outcome === 'lose') {
+        respawnPlayer();
+      }
+    },
+  });
+
   // Global editor shortcuts (Undo/Redo) when NOT in play mode
   useEffect(() => {
     const handleEditorShortcuts = (event: KeyboardEvent) => {
@@ -175,6 +226,17 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
         } else {
           useProjectStore.getState().undo();
         }
+      } else if (event.key.toLowerCase() === 'a' || event.key.toLowerCase() === 'i') {
+        const target = event.target as HTMLElement | null;
+        if (target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA') return;
+        event.preventDefault();
+        // Ctrl+A selects every visible block, Ctrl+I inverts the selection
+        const state = useProjectStore.getState();
+        const ids = event.key.toLowerCase() === 'a'
+          ? selectByFilter(state.blocks, {})
+          : invertSelection(state.blocks, state.selectedBlockIds);
+        state.setSelectedBlockIds(ids);
+        state.setSelectedBlockId(ids.length === 1 ? ids[0] : null);
       }
     };
     window.addEventListener('keydown', handleEditorShortcuts);
@@ -192,6 +254,15 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
     cameraRef.current = engine.camera as any;
     rendererRef.current = engine.renderer;
 
+    // Sky, fog and lights: an explicit environment prop (Play) wins, otherwise the editor's project
+    applyEnvironmentRef.current = () => {
+      engine.environment.apply(environmentRef.current === undefined ? useEnvironmentStore.getState().environment : environmentRef.current);
+    };
+    applyEnvironmentRef.current();
+    const unsubscribeEnvironment = useEnvironmentStore.subscribe(() => {
+      if (environmentRef.current === undefined) applyEnvironmentRef.current();
+    });
+
     // Raycaster for mouse interactions
     const raycaster = new THREE.Raycaster();
     const mouse = new THREE.Vector2();
@@ -201,8 +272,12 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
     // Lighting is provided by the engine
 
     // Ground/Terrain and physics ground via hook
-    const { ground } = createGround(sceneRef.current!);
+    const { ground } = createGround(sceneRef.current!, terrainRef.current);
     groundRef.current = ground;
+    rebuildGroundRef.current = () => {
+      removeGround(sceneRef.current!, groundRef.current);
+      groundRef.current = createGround(sceneRef.current!, terrainRef.current).ground;
+    };
 
     // Grid helper overlay
     rebuildGridHelper();
@@ -352,6 +427,7 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
                   const mat: any = (clickedBlock.mesh as any).material;
                   if (mat && typeof builderColorRef.current === 'number') {
                     mat.color?.setHex?.(builderColorRef.current);
+                    chunksDirtyRef.current = true;
                   }
                 } catch {}
               }
@@ -531,7 +607,8 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
               undefined,
               undefined,
               undefined,
-              (['cube_bouncy','cube_ice','cube_conveyor'].includes(droppedBlockRef.current.type as any) ? undefined : (getTypeDefaultColor(droppedBlockRef.current.type) ?? builderColorRef.current))
+              (['cube_bouncy','cube_ice','cube_conveyor'].includes(droppedBlockRef.current.type as any) ? undefined : (getTypeDefaultColor(droppedBlockRef.current.type) ?? builderColorRef.current)),
+              droppedBlockRef.current.assetId ? { assetId: droppedBlockRef.current.assetId } : undefined
             );
             if (!placeMultipleRef.current) {
               removeGhost();
@@ -700,6 +777,7 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
 
     // Event listeners - conditionally add based on play mode
     let detachEditorInput: (() => void) | null = null;
+    let detachMarquee: (() => void) | null = null;
     if (!isPlayMode) {
       mountRef.current.addEventListener('mousemove', handleMouseMove);
       mountRef.current.addEventListener('mouseup', handleMouseUp);
@@ -732,11 +810,59 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
         selectBlock,
         deselectBlock,
       });
+
+      // Shift+drag box selection; replaces, extends or trims selectedBlockIds
+      detachMarquee = attachMarqueeSelection({
+        mount: mountRef.current,
+        isEnabled: () => !droppedBlockRef.current && selectedToolRef.current !== 'paint',
+        onSelect: (rect, mode, op) => {
+          const camera = cameraRef.current;
+          const mount = mountRef.current;
+          if (!camera || !mount) return;
+          const view = mount.getBoundingClientRect();
+          const projected = new THREE.Vector3();
+          const candidates = screenRectCandidates(projectBlockIndex, rect, (p, depth) => new THREE.Vector3(
+            ((p.x - view.left) / view.width) * 2 - 1,
+            1 - ((p.y - view.top) / view.height) * 2,
+            depth === 'near' ? -1 : 1,
+          ).unproject(camera));
+          const ids = blocksInScreenRect(candidates, rect, (p) => {
+            projected.set(p.x, p.y, p.z).project(camera);
+            if (projected.z > 1) return null; // behind the camera
+            return { x: view.left + ((projected.x + 1) / 2) * view.width, y: view.top + ((1 - projected.y) / 2) * view.height };
+          }, mode);
+          const state = useProjectStore.getState();
+          const next = combineSelection(state.selectedBlockIds, ids, op);
+          state.setSelectedBlockIds(next);
+          state.setSelectedBlockId(next.length === 1 ? next[0] : null);
+        },
+      });
     } else {
       // Only add click for play mode if needed (currently disabled)
       mountRef.current.addEventListener('click', handleClick);
     }
 
+    // Large builds: plain cubes are batched per chunk and colour; selected
+    // blocks keep their own mesh so moving them doesn't re-mesh every frame
+    const chunkedCubes = createChunkedCubes(sceneRef.current!);
+    chunksDirtyRef.current = true;
+    const unsubscribeChunks = useProjectStore.subscribe((state, prev) => {
+      if (state.blocks !== prev.blocks) chunksDirtyRef.current = true;
+    });
+    let lastGroupSelection: string[] | null = null;
+    let lastPrimary: Block | null = null;
+    // Outlines for the whole multi-selection (the primary block keeps its own)
+    const selectionOutlines = isPlayMode ? null : createSelectionOutlines(sceneRef.current!);
+    let unsubscribeOutlines = () => {};
+    if (selectionOutlines) {
+      const { blocks, selectedBlockIds: ids } = useProjectStore.getState();
+      selectionOutlines.update(blocks, ids);
+      unsubscribeOutlines = useProjectStore.subscribe((state, prev) => {
+        if (state.blocks !== prev.blocks || state.selectedBlockIds !== prev.selectedBlockIds) {
+          selectionOutlines.update(state.blocks, state.selectedBlockIds);
+        }
+      });
+    }
     const loop = startEngineLoop({
       worldRef: worldRef as any,
       emitCollisionEvents,
@@ -747,6 +873,21 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
       cameraRef: cameraRef as any,
       renderer: rendererRef.current!,
       scene: sceneRef.current!,
+      onFrame: () => {
+        if (isPlayMode) levelLogic.update();
+        if (groupSelectedIdsRef.current !== lastGroupSelection || selectedBlockRef.current !== lastPrimary) {
+          lastGroupSelection = groupSelectedIdsRef.current;
+          lastPrimary = selectedBlockRef.current;
+          chunksDirtyRef.current = true;
+        }
+        if (!chunksDirtyRef.current) return;
+        chunksDirtyRef.current = false;
+        const selected = [...(lastGroupSelection || [])];
+        if (lastPrimary) selected.push(lastPrimary.id);
+        // Blocks moved or hidden by level logic keep their own mesh
+        if (isPlayMode) selected.push(...levelLogic.targetIds());
+        chunkedCubes.sync(blocksRef.current, selected);
+      },
     });
 
     setIsLoading(false);
@@ -766,6 +907,8 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
           const pos = player.position as any;
           if (bt === 'start') {
             checkpointRef.current = new THREE.Vector3(pos.x, pos.y, pos.z);
+            // A new run starts the level logic over
+            levelLogic.reset();
             try { callbacksRef.current.onGameStart?.({ x: pos.x, y: pos.y, z: pos.z }); } catch {}
           } else if (bt === 'checkpoint') {
             checkpointRef.current = new THREE.Vector3(pos.x, pos.y, pos.z);
@@ -777,15 +920,7 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
               try { callbacksRef.current.onGameFinish?.({ x: pos.x, y: pos.y, z: pos.z }); } catch {}
             }
           } else if (bt === 'hazard') {
-            const resp = (checkpointRef.current || spawnRef.current);
-            if (resp && playerRef.current) {
-              try {
-                playerRef.current.body.velocity.set(0, 0, 0);
-                playerRef.current.body.angularVelocity.set(0, 0, 0);
-                playerRef.current.body.position.set(resp.x, resp.y, resp.z);
-                playerRef.current.mesh.position.set(resp.x, resp.y, resp.z);
-              } catch {}
-            }
+            const resp = respawnPlayer();
             try { callbacksRef.current.onGameHazard?.(resp ? { x: resp.x, y: resp.y, z: resp.z } : { x: pos.x, y: pos.y, z: pos.z }); } catch {}
           } else if (bt === 'cube_bouncy') {
             try {
@@ -830,15 +965,34 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
       try { if (transformRef.current && sceneRef.current) { sceneRef.current.remove(transformRef.current); transformRef.current?.dispose?.(); transformRef.current = null; } } catch {}
       try { detachCamera(); } catch {}
       try { detachEditorInput?.(); } catch {}
+      detachMarquee?.();
       try { detachCollision?.(); } catch {}
       try { loop.stop(); } catch {}
+      chunkedCubes.dispose();
+      unsubscribeChunks();
+      unsubscribeOutlines();
+      selectionOutlines?.dispose();
       removeGhost();
       removeGridHelper();
       // ensure snap ring is cleaned
       try { if (snapRingRef.current && sceneRef.current) { sceneRef.current.remove(snapRingRef.current); } } catch {}
+      unsubscribeEnvironment();
+      applyEnvironmentRef.current = () => {};
+      rebuildGroundRef.current = () => {};
       try { engine.dispose(); } catch {}
     };
   }, [isPlayMode]);
+
+  useEffect(() => {
+    environmentRef.current = environment;
+    applyEnvironmentRef.current();
+  }, [environment]);
+
+  useEffect(() => {
+    if (terrainRef.current === terrain) return;
+    terrainRef.current = terrain;
+    rebuildGroundRef.current();
+  }, [terrain]);
   // Simple keyboard toggles for physics helpers (editor only)
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
@@ -1087,6 +1241,14 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
     }
   }, [loadedBlocks]);
 
+  // Level logic runs over the loaded blocks, so it reloads with them
+  useEffect(() => {
+    if (isPlayMode) {
+      levelLogic.load(logic);
+      chunksDirtyRef.current = true;
+    }
+  }, [isPlayMode, logic, loadedBlocks]);
+
   const createInitialBlocks = () => {
     if (!sceneRef.current) return;
 
@@ -1112,6 +1274,7 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
     rotationZDeg?: number,
     uniformScale?: number,
     colorOverride?: number,
+    model?: { assetId?: string; collider?: 'box' | 'hull' },
   ) => {
     if (!sceneRef.current || !worldRef.current) return;
     if (type === 'start') {
@@ -1124,7 +1287,7 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
     const usesTexture = ['cube_bouncy','cube_ice','cube_conveyor'].includes(type as any);
     const resolvedColor = (typeof colorOverride === 'number') ? colorOverride : (usesTexture ? undefined : builderColorRef.current);
     const block = createBlock(
-      { type, position, id, rotationYDeg, rotationXDeg, rotationZDeg, uniformScale, color: resolvedColor },
+      { type, position, id, rotationYDeg, rotationXDeg, rotationZDeg, uniformScale, color: resolvedColor, assetId: model?.assetId, collider: model?.collider },
       { scene: sceneRef.current, world: worldRef.current, dynamicMaterial: dynamicMaterialRef.current }
     ) as Block;
     try {
@@ -1134,6 +1297,7 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
       }
     } catch {}
     blocksRef.current.push(block);
+    chunksDirtyRef.current = true;
     onBlockAdd?.(block);
     onSceneStateChange?.(blocksRef.current);
   };
@@ -1151,6 +1315,7 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
       try { disposeRuntimeBlock(block, { scene: sceneRef.current!, world: worldRef.current! }); } catch {}
     });
     blocksRef.current = [];
+    chunksDirtyRef.current = true;
 
     // Load new blocks
     blocks.forEach(blockData => {
@@ -1167,7 +1332,8 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
         (blockData as any).rotationX,
         (blockData as any).rotationZ,
         (blockData as any).scale,
-        (typeof (blockData as any).color === 'number' ? (blockData as any).color : undefined)
+        (typeof (blockData as any).color === 'number' ? (blockData as any).color : undefined),
+        blockData.type === 'model' ? { assetId: blockData.assetId, collider: blockData.collider } : undefined
       );
       try {
         if (!spawnRef.current && (blockData as any).type === 'start') {
@@ -1190,6 +1356,7 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
       try { disposeRuntimeBlock(block, { scene: sceneRef.current!, world: worldRef.current! }); } catch {}
     });
     blocksRef.current = [];
+    chunksDirtyRef.current = true;
     onSceneStateChange?.(blocksRef.current);
   };
 
@@ -1229,6 +1396,12 @@ const Scene3D = ({ onBlockAdd, droppedBlock, onSceneStateChange, loadedBlocks, s
         getPlayerPosition: () => {
           try { return playerRef.current ? playerRef.current.body.position.clone() : null; } catch { return null; }
         },
+        getPlayerYaw: () => {
+          try { return playerRef.current ? new THREE.Euler().setFromQuaternion(playerRef.current.mesh.quaternion, 'YXZ').y : null; } catch { return null; }
+        },
+        setGhostPose,
+        setGhostSkin,
+        exportGlb: (opts?: GlbExportOptions) => exportSceneToGlb(blocksRef.current, groundRef.current, opts),
         captureThumbnail: (opts?: { type?: 'image/png' | 'image/jpeg'; quality?: number }) => {
           try {
             if (!rendererRef.current || !sceneRef.current || !cameraRef.current) return null;
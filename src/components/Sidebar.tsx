@@ -29,7 +29,10 @@ import {
   PanelRightOpen,
   MapPin,
   Flag,
-  Skull
+  Skull,
+  Download,
+  Package,
+  Upload
 } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
@@ -37,6 +40,7 @@ import { applyTheme, applyReduceMotion, getSavedTheme, getSavedReduceMotion, typ
 import { useProjectStore } from '@/lib/projectStore';
 import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '@/lib/store';
+import { useUserModels } from '@/hooks/useUserModels';
 // Hierarchy & Properties moved to right InspectorPanel
 
 interface SidebarProps {
@@ -54,6 +58,7 @@ interface SidebarProps {
   onRenameProject?: () => void;
   onToggleInspector?: () => void;
   onTogglePublish?: () => void;
+  onExportGlb?: (options: { mergeByMaterial: boolean }) => void;
 }
 
 const Sidebar = ({ 
@@ -70,7 +75,8 @@ const Sidebar = ({
   hasUnsavedChanges = false,
   onRenameProject,
   onToggleInspector,
-  onTogglePublish
+  onTogglePublish,
+  onExportGlb
 }: SidebarProps) => {
   const selectedTool = useProjectStore(s => s.selectedTool);
   const setSelectedToolStore = useProjectStore(s => s.setSelectedTool);
@@ -97,13 +103,17 @@ const Sidebar = ({
   const isPlayMode = useProjectStore(s => (s as any).isPlayMode);
   const setBuilderModeEnabled = useProjectStore(s => (s as any).setBuilderModeEnabled);
   const setBuilderCurrentType = useProjectStore(s => (s as any).setBuilderCurrentType);
-  const setDroppedBlockStore = useProjectStore(s => (s as any).setDroppedBlock) as (p: { type: any } | null) => void;
+  const setDroppedBlockStore = useProjectStore(s => (s as any).setDroppedBlock) as (p: { type: any; assetId?: string } | null) => void;
   const [savedOpen, setSavedOpen] = useState(true);
   // Scene content moved to Inspector
   const [sceneOpen, setSceneOpen] = useState(false);
   const [advancedOpen, setAdvancedOpen] = useState(false);
   const [moreShapesOpen, setMoreShapesOpen] = useState(false);
   const [prefabsOpen, setPrefabsOpen] = useState(false);
+  const [modelsOpen, setModelsOpen] = useState(false);
+  const [modelError, setModelError] = useState<string | null>(null);
+  const [uploadingModel, setUploadingModel] = useState(false);
+  const userModels = useUserModels();
   const [selectedBlockTile, setSelectedBlockTile] = useState<string | null>(null);
   const navigate = useNavigate();
   const logout = useAuthStore(s => s.logout);
@@ -422,6 +432,19 @@ const Sidebar = ({
           <Button variant="outline" size="sm" onClick={onLoad}><FolderOpen className="mr-2 h-3 w-3" />Load</Button>
           <Button variant="outline" size="sm" className="text-destructive border-destructive/20 hover:bg-destructive/10" onClick={onClear} disabled={blockCount === 0}><Trash2 className="mr-2 h-3 w-3" />Clear</Button>
         </div>
+        {onExportGlb && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="w-full justify-start" disabled={blockCount === 0}>
+                <Download className="mr-2 h-3 w-3" />Export as GLB
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem onClick={() => onExportGlb({ mergeByMaterial: false })}>One mesh per block</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExportGlb({ mergeByMaterial: true })}>Merged by material (smaller file)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
 
       {/* Scene/Properties now in InspectorPanel */}
@@ -465,6 +488,68 @@ const Sidebar = ({
         )}
       </div>
 
+      {/* User models (uploaded GLB files) */}
+      <div className="p-4 border-b border-sidebar-border space-y-2">
+        <button className="w-full text-sm font-semibold text-sidebar-foreground flex items-center justify-between relative group" onClick={() => setModelsOpen(v => !v)}>
+          <span className="flex items-center"><Package className="mr-2 h-4 w-4" />My models</span>
+          {modelsOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          <span className={`absolute left-0 -ml-4 top-1/2 -translate-y-1/2 h-5 w-0.5 rounded ${modelsOpen ? 'bg-primary' : 'bg-transparent group-hover:bg-accent/60'}`}></span>
+        </button>
+        {modelsOpen && (
+          <div className="space-y-2">
+            <Button variant="outline" size="sm" asChild disabled={uploadingModel}>
+              <label className="cursor-pointer">
+                <Upload className="mr-2 h-4 w-4" />{uploadingModel ? 'Uploading...' : 'Upload .glb'}
+                <input
+                  type="file"
+                  accept=".glb,model/gltf-binary"
+                  className="hidden"
+                  onChange={async (e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (!file) return;
+                    setUploadingModel(true);
+                    setModelError(null);
+                    try {
+                      await userModels.upload(file);
+                    } catch (err) {
+                      setModelError(err instanceof Error ? err.message : 'Upload failed');
+                    } finally {
+                      setUploadingModel(false);
+                    }
+                  }}
+                />
+              </label>
+            </Button>
+            {(modelError || userModels.error) && (
+              <div className="text-xs text-destructive">{modelError || userModels.error}</div>
+            )}
+            <div className="space-y-1">
+              {!userModels.loading && userModels.assets.length === 0 && (
+                <div className="text-xs text-sidebar-foreground/70">No models uploaded.</div>
+              )}
+              {userModels.assets.map(asset => {
+                const armed = droppedBlock?.type === 'model' && droppedBlock.assetId === asset.id;
+                return (
+                  <div key={asset.id} className={`flex items-center justify-between text-xs rounded px-1 ${armed ? 'ring-2 ring-primary' : ''}`}>
+                    <span className="truncate" title={`${asset.name} (${asset.triangles} triangles)`}>{asset.name}</span>
+                    <div className="flex items-center gap-1">
+                      <Button size="sm" variant="outline" onClick={() => setDroppedBlockStore(armed ? null : { type: 'model', assetId: asset.id })}>
+                        {armed ? 'Cancel' : 'Place'}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => {
+                        if (armed) setDroppedBlockStore(null);
+                        userModels.remove(asset.id).catch(err => setModelError(err instanceof Error ? err.message : 'Delete failed'));
+                      }}>Delete</Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Tools are accessible from bottom toolbar; keep minimal quick actions here if needed */}
 
       {/* Blocks Section (two big tiles) */}
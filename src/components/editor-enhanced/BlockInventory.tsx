@@ -24,10 +24,11 @@ import {
   CheckCircle2,
   Trophy,
   Flame,
+  Package,
   Plus
 } from 'lucide-react';
 
-type SlotItem = { type: BlockType; color?: number } | null;
+type SlotItem = { type: BlockType; color?: number; assetId?: string } | null;
 
 const BLOCK_META: Record<BlockType, { name: string; Icon: any; bg: string }> = {
   cube: { name: 'Cube', Icon: Box, bg: 'bg-blue-500' },
@@ -52,6 +53,7 @@ const BLOCK_META: Record<BlockType, { name: string; Icon: any; bg: string }> = {
   checkpoint: { name: 'Checkpoint', Icon: CheckCircle2, bg: 'bg-yellow-500' },
   finish: { name: 'Finish', Icon: Trophy, bg: 'bg-sky-500' },
   hazard: { name: 'Hazard', Icon: Flame, bg: 'bg-red-600' },
+  model: { name: 'Model', Icon: Package, bg: 'bg-sky-600' },
 };
 
 function isEditableElement(target: EventTarget | null): boolean {
@@ -106,10 +108,10 @@ const BlockInventory: React.FC<{ className?: string }> = ({ className }) => {
     }
     selectSlot(index);
     if (item) {
-      if (dropped?.type === item.type) {
+      if (dropped?.type === item.type && dropped?.assetId === item.assetId) {
         setDropped(null);
       } else {
-        setDropped({ type: item.type });
+        setDropped({ type: item.type, assetId: item.assetId });
       }
     } else {
       setDropped(null);
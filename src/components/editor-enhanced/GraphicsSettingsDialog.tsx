@@ -0,0 +1,98 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useRenderSettingsStore } from '@/features/graphics/store';
+import {
+  FRAME_RATE_TARGETS,
+  MSAA_SAMPLES,
+  RENDER_QUALITIES,
+  SHADOW_MAP_SIZES,
+  type RenderQuality,
+} from '@/features/graphics/renderSettings';
+
+const QUALITY_LABELS: Record<RenderQuality, string> = { low: 'Niska', medium: 'Średnia', high: 'Wysoka', ultra: 'Ultra' };
+
+interface GraphicsSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ToggleRow = ({ id, label, checked, disabled, onChange }: { id: string; label: string; checked: boolean; disabled?: boolean; onChange: (v: boolean) => void }) => (
+  <div className="flex items-center justify-between">
+    <Label htmlFor={id} className={disabled ? 'opacity-50' : undefined}>{label}</Label>
+    <Switch id={id} checked={checked} disabled={disabled} onCheckedChange={onChange} />
+  </div>
+);
+
+const NumberSelect = ({ label, value, options, format, onChange }: { label: string; value: number; options: number[]; format: (v: number) => string; onChange: (v: number) => void }) => (
+  <div className="flex items-center justify-between gap-3">
+    <Label>{label}</Label>
+    <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+      <SelectTrigger className="h-8 w-32 text-xs"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        {options.map(o => <SelectItem key={o} value={String(o)}>{format(o)}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+// Player graphics options; the Babylon scene applies every change live
+export const GraphicsSettingsDialog: React.FC<GraphicsSettingsDialogProps> = ({ open, onOpenChange }) => {
+  const { settings, adaptive, setSettings, applyQuality, setAdaptive, reset } = useRenderSettingsStore();
+  const post = settings.postProcessing;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Ustawienia grafiki</DialogTitle>
+          <DialogDescription>Zmiany działają od razu i są zapamiętywane na tym urządzeniu.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          <div className="flex items-center justify-between gap-3">
+            <Label>Jakość</Label>
+            <Select value={settings.quality} onValueChange={(v: RenderQuality) => applyQuality(v)}>
+              <SelectTrigger className="h-8 w-32 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {RENDER_QUALITIES.map(q => <SelectItem key={q} value={q}>{QUALITY_LABELS[q]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <NumberSelect label="Wygładzanie (MSAA)" value={settings.antialiasing} options={MSAA_SAMPLES} format={(v) => v === 1 ? 'Wyłączone' : `${v}x`} onChange={(antialiasing) => setSettings({ antialiasing })} />
+            <ToggleRow id="gfx-shadows" label="Cienie" checked={settings.shadows} onChange={(shadows) => setSettings({ shadows })} />
+            <NumberSelect label="Rozdzielczość cieni" value={settings.shadowMapSize} options={SHADOW_MAP_SIZES} format={(v) => `${v} px`} onChange={(shadowMapSize) => setSettings({ shadowMapSize })} />
+            <NumberSelect label="Docelowy FPS" value={settings.targetFrameRate} options={FRAME_RATE_TARGETS} format={(v) => `${v} FPS`} onChange={(targetFrameRate) => setSettings({ targetFrameRate })} />
+          </div>
+
+          <div className="space-y-2">
+            <ToggleRow id="gfx-post" label="Post-processing" checked={post} onChange={(postProcessing) => setSettings({ postProcessing })} />
+            <ToggleRow id="gfx-fxaa" label="FXAA" checked={settings.fxaa} disabled={!post} onChange={(fxaa) => setSettings({ fxaa })} />
+            <ToggleRow id="gfx-bloom" label="Bloom" checked={settings.bloom} disabled={!post} onChange={(bloom) => setSettings({ bloom })} />
+            <ToggleRow id="gfx-ssao" label="Okluzja otoczenia (SSAO)" checked={settings.ssao} disabled={!post} onChange={(ssao) => setSettings({ ssao })} />
+            <ToggleRow id="gfx-motion" label="Rozmycie ruchu" checked={settings.motionBlur} disabled={!post} onChange={(motionBlur) => setSettings({ motionBlur })} />
+          </div>
+
+          <div className="space-y-1">
+            <ToggleRow id="gfx-adaptive" label="Automatyczna jakość" checked={adaptive} onChange={setAdaptive} />
+            <p className="text-xs text-muted-foreground">
+              Gdy klatki trwają dłużej niż docelowy FPS, obniża kolejno efekty, rozdzielczość cieni, odległości LOD i rozdzielczość renderowania.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={reset}>Przywróć domyślne</Button>
+          <Button onClick={() => onOpenChange(false)}>Zamknij</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GraphicsSettingsDialog;
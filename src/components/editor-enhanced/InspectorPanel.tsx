@@ -2,7 +2,7 @@ import { useMemo } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Hierarchy, BlockProperties } from '@/components/editor-enhanced';
+import { Hierarchy, BlockProperties, LogicPanel, TimelinePanel } from '@/components/editor-enhanced';
 import MiniPreview from '../game/MiniPreview';
 import { useProjectStore } from '@/lib/projectStore';
 
@@ -24,8 +24,10 @@ const InspectorPanel = () => {
 
       <div className="p-3">
         <Tabs defaultValue="properties" className="w-full">
-          <TabsList className="w-full grid grid-cols-3 bg-secondary/60">
+          <TabsList className="w-full grid grid-cols-5 bg-secondary/60">
             <TabsTrigger value="properties" className="data-[state=active]:text-[hsl(var(--brand-build))]">Properties</TabsTrigger>
+            <TabsTrigger value="logic" className="data-[state=active]:text-[hsl(var(--brand-build))]">Logic</TabsTrigger>
+            <TabsTrigger value="animate" className="data-[state=active]:text-[hsl(var(--brand-build))]">Animate</TabsTrigger>
             <TabsTrigger value="scene" className="data-[state=active]:text-[hsl(var(--brand-build))]">Scene</TabsTrigger>
             <TabsTrigger value="preview" className="data-[state=active]:text-[hsl(var(--brand-build))]">Preview</TabsTrigger>
           </TabsList>
@@ -34,6 +36,14 @@ const InspectorPanel = () => {
             <BlockProperties />
           </TabsContent>
 
+          <TabsContent value="logic" className="mt-3">
+            <LogicPanel />
+          </TabsContent>
+
+          <TabsContent value="animate" className="mt-3">
+            <TimelinePanel />
+          </TabsContent>
+
           <TabsContent value="scene" className="mt-3">
             <Hierarchy />
           </TabsContent>
@@ -29,7 +29,8 @@ import {
   MousePointer,
   Keyboard,
   Gamepad2,
-  Palette
+  Palette,
+  Package
 } from 'lucide-react';
 
 interface BlockData {
@@ -287,6 +288,17 @@ const BLOCK_DATA: Record<BlockType, BlockData> = {
     controls: ['Left click to place', 'Avoid touching'],
     tips: ['Creates challenge', 'Use sparingly for fun gameplay']
   },
+  model: {
+    type: 'model',
+    name: 'Custom Model',
+    description: 'A GLB model you uploaded',
+    category: 'Custom',
+    Icon: Package,
+    color: '#0284c7',
+    properties: ['Uploaded Mesh', 'Box or Hull Collider', 'Scalable'],
+    controls: ['Left click to place', 'R to rotate'],
+    tips: ['Keep models low-poly', 'Use the hull collider for round shapes']
+  },
 };
 
 interface BlockTooltipProps {
@@ -3,6 +3,7 @@ import PageTransition from '@/components/ui/PageTransition';
 import { m } from 'framer-motion';
 import { useToast } from '@/hooks/use-toast';
 import { useCollabClient } from '@/hooks/useCollabClient';
+import { diffBlocks } from '@/features/collab/blockSync';
 import { useAuthStore } from '@/lib/store';
 import { apiFetch } from '@/lib/api';
 import { Button } from '@/components/ui/button';
@@ -22,7 +23,9 @@ import BlockTooltip from './BlockTooltip';
 import ObjectRotationControls from './ObjectRotationControls';
 import { TerrainPanel } from '../terrain/TerrainPanel';
 import { useEditorSettingsStore } from '@/features/projects/stores/editor-settings.store';
-import { useProjectStore } from '@/features/projects/stores';
+import { useRenderSettingsStore } from '@/features/graphics/store';
+import { useProjectStore, useProjectStoreBase } from '@/features/projects/stores';
+import type { TerrainDelta } from '@/features/terrain/terrainDelta';
 import type { EditorMode } from '@/types/editor';
 
 interface GameLikeEditorProps {
@@ -33,17 +36,14 @@ const GameLikeEditor: React.FC<GameLikeEditorProps> = ({ projectSlug }) => {
   // Mode state from store (unified EditorMode)
   const { editorMode: mode, setEditorMode, isPlayMode } = useProjectStore();
   
-  // Quality (persisted)
-  const [quality, setQuality] = React.useState<'low' | 'medium' | 'high'>(() => {
-    try { return (localStorage.getItem('scene-quality') as any) || 'medium'; } catch { return 'medium'; }
-  });
-  useEffect(() => {
-    try { localStorage.setItem('scene-quality', quality); } catch {}
-  }, [quality]);
+  // Quality preset from the player's persisted graphics options
+  const renderQuality = useRenderSettingsStore(s => s.settings.quality);
+  const applyQuality = useRenderSettingsStore(s => s.applyQuality);
+  const quality = renderQuality === 'ultra' ? 'high' : renderQuality;
 
   const handleQualityChange = useCallback((q: 'low' | 'medium' | 'high') => {
-    setQuality(q);
-  }, []);
+    applyQuality(q);
+  }, [applyQuality]);
 
   // UI State
   const [buildPanelOpen, setBuildPanelOpen] = useState(false);
@@ -83,15 +83,20 @@ const GameLikeEditor: React.FC<GameLikeEditorProps> = ({ projectSlug }) => {
     terrainBrushSize,
     terrainBrushStrength,
     terrainBrushColor,
+    terrainPaintLayer,
     setTerrainBrushMode,
     setTerrainBrushSize,
     setTerrainBrushStrength,
     setTerrainBrushColor,
+    setTerrainPaintLayer,
   } = useEditorSettingsStore();
 
   // Sync mode with play state
   const togglePlay = () => setEditorMode(mode === 'build' ? 'play' : 'build');
 
+  // Last block list received from the collab session; local edits are diffed against it
+  const syncedBlocksRef = useRef<Block[] | null>(null);
+
   // Collaborative editing client
   const collabClient = isCollabMode && currentGameId ? useCollabClient({
     gameId: currentGameId,
@@ -99,11 +104,13 @@ const GameLikeEditor: React.FC<GameLikeEditorProps> = ({ projectSlug }) => {
     onBlockOperation: (operation) => {
       console.log('Remote block operation:', operation);
     },
-    onGameStateUpdate: (gameState) => {
-      if (gameState.blocks) {
-        const collaborativeBlocks = Object.values(gameState.blocks) as Block[];
-        editState.loadBlocks(collaborativeBlocks);
-      }
+    onBlocksChange: (blocks) => {
+      syncedBlocksRef.current = blocks as unknown as Block[];
+      const edit = useEditState.getState();
+      edit.applyBlockOperations(diffBlocks(edit.blocks, syncedBlocksRef.current));
+    },
+    onTerrainOperation: (operation) => {
+      useProjectStoreBase.getState().applyTerrainDeltaToScene(operation.delta, 'redo');
     },
     onParticipantUpdate: (participants) => {
       console.log('Participants updated:', participants);
@@ -113,6 +120,59 @@ const GameLikeEditor: React.FC<GameLikeEditorProps> = ({ projectSlug }) => {
     }
   }) : null;
 
+  // Send local edits as block operations (only fields that changed)
+  useEffect(() => {
+    if (!collabClient || !syncedBlocksRef.current) return;
+    const ops = diffBlocks(syncedBlocksRef.current, editState.blocks);
+    syncedBlocksRef.current = editState.blocks;
+    collabClient.sendBlockOperations(ops);
+  }, [editState.blocks]);
+
+  // In a shared session undo must not replace the whole scene; only revert our own operations
+  const collabClientRef = useRef(collabClient);
+  collabClientRef.current = collabClient;
+  // Terrain strokes join the same undo history as block edits; in a shared
+  // session that is the collab history, and the stroke goes to the others
+  useEffect(() => {
+    const onStroke = (e: Event) => {
+      const delta = (e as CustomEvent<TerrainDelta>).detail;
+      e.preventDefault();
+      if (collabClientRef.current) collabClientRef.current.sendTerrainOperation(delta);
+      else useEditState.getState().pushTerrainStroke(delta);
+    };
+    window.addEventListener('terrainStroke', onStroke);
+    return () => window.removeEventListener('terrainStroke', onStroke);
+  }, []);
+
+  // An undone stroke keeps vertices others have sculpted since; what did change is sent on
+  const collabHistoryStep = useCallback((direction: 'undo' | 'redo') => {
+    const client = collabClientRef.current;
+    if (!client) return;
+    const base = useProjectStoreBase.getState();
+    base.finishTerrainStroke();
+    const { ops, terrain } = direction === 'undo' ? client.undo() : client.redo();
+    // The inverse ops were sent already; apply them in place and count them as synced
+    useEditState.getState().applyBlockOperations(ops);
+    syncedBlocksRef.current = useEditState.getState().blocks;
+    if (!terrain) return;
+    const applied = base.applyTerrainDeltaToScene(terrain.delta, terrain.direction, { rebase: true });
+    if (applied) client.sendTerrainOperation(applied, { record: false });
+  }, []);
+  const localHistoryStep = useCallback((direction: 'undo' | 'redo') => {
+    const base = useProjectStoreBase.getState();
+    base.finishTerrainStroke();
+    const terrain = direction === 'undo' ? editState.undo() : editState.redo();
+    if (terrain) base.applyTerrainDeltaToScene(terrain.delta, terrain.direction);
+  }, [editState]);
+  const handleUndo = useCallback(() => {
+    if (collabClientRef.current) collabHistoryStep('undo');
+    else localHistoryStep('undo');
+  }, [collabHistoryStep, localHistoryStep]);
+  const handleRedo = useCallback(() => {
+    if (collabClientRef.current) collabHistoryStep('redo');
+    else localHistoryStep('redo');
+  }, [collabHistoryStep, localHistoryStep]);
+
   // Determine if current user is the session owner and load current maxParticipants
   useEffect(() => {
     const load = async () => {
@@ -323,6 +383,19 @@ const GameLikeEditor: React.FC<GameLikeEditorProps> = ({ projectSlug }) => {
             togglePlay();
           }
           break;
+        case 'z':
+          if (e.ctrlKey || e.metaKey) {
+            e.preventDefault();
+            if (e.shiftKey) handleRedo();
+            else handleUndo();
+          }
+          break;
+        case 'y':
+          if (e.ctrlKey || e.metaKey) {
+            e.preventDefault();
+            handleRedo();
+          }
+          break;
       }
     };
 
@@ -331,7 +404,7 @@ const GameLikeEditor: React.FC<GameLikeEditorProps> = ({ projectSlug }) => {
       window.removeEventListener('keydown', handleKeyDown);
       try { document.body.classList.remove('editor-mode'); } catch {}
     };
-  }, [handleSave, togglePlay, hideObjectControls]);
+  }, [handleSave, togglePlay, hideObjectControls, handleUndo, handleRedo]);
 
   return (
     <PageTransition>
@@ -347,12 +420,12 @@ const GameLikeEditor: React.FC<GameLikeEditorProps> = ({ projectSlug }) => {
             <SceneManager
               mode={mode as EditorMode}
               projectId={editState.projectId || undefined}
+              multiplayerGameId={isCollabMode && currentGameId ? currentGameId : undefined}
               onModeChange={setEditorMode}
               onBlockSelect={handleBlockSelect}
               onBlockHover={handleBlockHover}
               onGameFinish={handleGameFinish}
               onCheckpoint={handleCheckpoint}
-              quality={quality}
             />
           </m.div>
 
@@ -411,10 +484,12 @@ const GameLikeEditor: React.FC<GameLikeEditorProps> = ({ projectSlug }) => {
             terrainBrushSize={terrainBrushSize}
             terrainBrushStrength={terrainBrushStrength}
             terrainBrushColor={terrainBrushColor}
+            terrainPaintLayer={terrainPaintLayer}
             onBrushModeChange={setTerrainBrushMode}
             onBrushSizeChange={setTerrainBrushSize}
             onBrushStrengthChange={setTerrainBrushStrength}
             onBrushColorChange={setTerrainBrushColor}
+            onPaintLayerChange={setTerrainPaintLayer}
           />
 
           {/* Block Tooltip */}
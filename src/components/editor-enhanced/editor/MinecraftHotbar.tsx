@@ -26,6 +26,7 @@ import {
   CheckCircle2,
   Trophy,
   Flame,
+  Package,
 } from 'lucide-react';
 
 type SlotItem = { type: BlockType; color?: number } | null;
@@ -53,6 +54,7 @@ const BLOCK_META: Record<BlockType, { name: string; Icon: any; bg: string }> = {
   checkpoint: { name: 'Checkpoint', Icon: CheckCircle2, bg: 'bg-yellow-500' },
   finish: { name: 'Finish', Icon: Trophy, bg: 'bg-blue-500' },
   hazard: { name: 'Hazard', Icon: Flame, bg: 'bg-red-600' },
+  model: { name: 'Model', Icon: Package, bg: 'bg-sky-600' },
 };
 
 interface MinecraftHotbarProps {
@@ -6,6 +6,7 @@ import { cn } from '@/lib/utils';
 import { useProjectStore } from '@/features/projects/stores';
 import ProjectSettingsDialog from './ProjectSettingsDialog';
 import NewProjectDialog from './NewProjectDialog';
+import GraphicsSettingsDialog from '../GraphicsSettingsDialog';
 import type { EditorMode } from '@/types/editor';
 import {
   Play,
@@ -19,7 +20,8 @@ import {
   Save,
   FolderOpen,
   RotateCcw,
-  Home
+  Home,
+  SlidersHorizontal
 } from 'lucide-react';
 
 // EditorMode is imported from '@/types/editor'
@@ -44,6 +46,7 @@ const ModeSwitcher: React.FC<ModeSwitcherProps> = ({
   const [showQuickActions, setShowQuickActions] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [newOpen, setNewOpen] = useState(false);
+  const [graphicsOpen, setGraphicsOpen] = useState(false);
 
   const {
     isPlayMode,
@@ -141,6 +144,15 @@ const ModeSwitcher: React.FC<ModeSwitcherProps> = ({
                   {q === 'low' ? 'Low' : q === 'medium' ? 'Med' : 'High'}
                 </Button>
               ))}
+              <Button
+                variant="secondary"
+                size="sm"
+                className="h-7 px-2 bg-gray-700 text-gray-300 hover:bg-gray-600"
+                title="Graphics settings"
+                onClick={() => setGraphicsOpen(true)}
+              >
+                <SlidersHorizontal className="w-3.5 h-3.5" />
+              </Button>
             </div>
           </div>
         </div>
@@ -300,6 +312,7 @@ const ModeSwitcher: React.FC<ModeSwitcherProps> = ({
       {/* Dialogs */}
       <ProjectSettingsDialog open={settingsOpen} onOpenChange={setSettingsOpen} />
       <NewProjectDialog open={newOpen} onOpenChange={setNewOpen} />
+      <GraphicsSettingsDialog open={graphicsOpen} onOpenChange={setGraphicsOpen} />
     </div>
   );
 };
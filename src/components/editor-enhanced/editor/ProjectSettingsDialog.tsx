@@ -9,6 +9,29 @@ import { useProjectStore } from '@/features/projects/stores';
 import { gamesApi } from '@/shared/api/client';
 import { friendsApi } from '@/shared/api/friends';
 import { ProjectService } from '@/services/api.service';
+import { defaultModeConfig, describeModeConfig, parseModeConfig, type GameMode } from '@/shared/gameModes/modeConfig';
+import type { ProjectData } from '@/types/project';
+
+type ModeConfigValues = Record<string, number | string>;
+
+const VISIBILITIES = ['PRIVATE', 'FRIENDS', 'PUBLIC'] as const;
+type Visibility = typeof VISIBILITIES[number];
+
+const scene3D = () =>
+  (window as unknown as { scene3D?: { captureThumbnail?: (opts?: { type?: 'image/png' | 'image/jpeg'; quality?: number }) => string | null } }).scene3D;
+
+// Cloud games carry their visibility; local projects are private
+function storedVisibility(project: ProjectData | null): Visibility {
+  const value = project && 'visibility' in project ? project.visibility : undefined;
+  return VISIBILITIES.find((v) => v === value) ?? 'PRIVATE';
+}
+
+const OPTION_LABELS: Record<string, string> = { start: 'Start', checkpoint: 'Ostatni checkpoint' };
+
+// Stored config for the mode, or its defaults when it belongs to another mode / is invalid
+function initialModeValues(mode: GameMode, stored: unknown): ModeConfigValues {
+  return (parseModeConfig(mode, stored).config ?? defaultModeConfig(mode)) as ModeConfigValues;
+}
 
 interface ProjectSettingsDialogProps {
   open: boolean;
@@ -24,18 +47,21 @@ export const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({ op
     saveProject,
     publishProject,
     setGameMode,
+    setGameModeConfig,
   } = useProjectStore();
 
   const [name, setName] = React.useState(projectName);
-  const [visibility, setVisibility] = React.useState<'PRIVATE'|'FRIENDS'|'PUBLIC'>(
-    (currentProject as any)?.visibility || 'PRIVATE'
-  );
+  const [visibility, setVisibility] = React.useState<Visibility>(() => storedVisibility(currentProject));
   const [published, setPublished] = React.useState<boolean>(!!currentProject?.published);
   const [saving, setSaving] = React.useState(false);
   const [thumbFile, setThumbFile] = React.useState<File | null>(null);
   const [thumbPreview, setThumbPreview] = React.useState<string | null>(null);
-  const [mode, setMode] = React.useState<'PARKOUR'|'PVP'|'RACE'|'SANDBOX'>(((currentProject as any)?.mode as any) || 'PARKOUR');
-  const [modeConfig, setModeConfig] = React.useState<string>((currentProject as any)?.modeConfig || '');
+  const [mode, setMode] = React.useState<GameMode>(currentProject?.mode || 'PARKOUR');
+  const [modeValues, setModeValues] = React.useState<ModeConfigValues>(() => initialModeValues(mode, currentProject?.modeConfig));
+  // The form is generated from the same schemas the server validates with
+  const modeFields = React.useMemo(() => describeModeConfig(mode), [mode]);
+  const parsedModeConfig = React.useMemo(() => parseModeConfig(mode, modeValues), [mode, modeValues]);
+  const fieldError = (key: string) => parsedModeConfig.errors.find((err) => err.startsWith(`${key}:`));
 
   const [friends, setFriends] = React.useState<Array<{ id: string; name: string }>>([]);
   const [shareFriendId, setShareFriendId] = React.useState<string>('');
@@ -45,20 +71,33 @@ export const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({ op
   React.useEffect(() => {
     if (!open) return;
     setName(projectName);
-    setVisibility(((currentProject as any)?.visibility as any) || 'PRIVATE');
+    setVisibility(storedVisibility(currentProject));
     setPublished(!!currentProject?.published);
-    setMode((((currentProject as any)?.mode as any) || 'PARKOUR'));
-    setModeConfig(((currentProject as any)?.modeConfig || ''));
+    const storedMode: GameMode = currentProject?.mode || 'PARKOUR';
+    setMode(storedMode);
+    setModeValues(initialModeValues(storedMode, currentProject?.modeConfig));
   }, [open, projectName, currentProject]);
 
+  const handleModeChange = (value: GameMode) => {
+    setMode(value);
+    setModeValues(initialModeValues(value, currentProject?.modeConfig));
+  };
+
+  const setModeValue = (key: string, value: number | string) => {
+    setModeValues((prev) => ({ ...prev, [key]: value }));
+  };
+
   const handleCaptureFromScene = () => {
     try {
-      const dataUrl = (window as any).scene3D?.captureThumbnail?.({ type: 'image/jpeg', quality: 0.85 });
+      const dataUrl = scene3D()?.captureThumbnail?.({ type: 'image/jpeg', quality: 0.85 });
       if (dataUrl) {
         setThumbPreview(dataUrl);
         setThumbFile(null);
       }
-    } catch {}
+    } catch (e) {
+      console.warn('Thumbnail capture failed', e);
+      toast({ title: 'Nie udało się przechwycić miniatury', variant: 'destructive' });
+    }
   };
 
   const handleThumbFile = (file: File | null) => {
@@ -75,9 +114,11 @@ export const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({ op
   const handleSave = async () => {
     if (!currentProject?.id) {
       // No cloud id yet, perform a save to create
+      if (!parsedModeConfig.ok) return;
       setSaving(true);
       try {
         if (mode) setGameMode(mode);
+        setGameModeConfig(JSON.stringify(parsedModeConfig.config));
         const result = await saveProject();
         toast({ title: 'Zapisano projekt', description: result.project.name });
       } catch (e: any) {
@@ -88,16 +129,20 @@ export const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({ op
       return;
     }
 
+    if (!parsedModeConfig.ok) return;
     setSaving(true);
     try {
       if (name && name !== projectName) {
         renameProject(name);
       }
+      const normalizedModeConfig = JSON.stringify(parsedModeConfig.config);
+      setGameMode(mode);
+      setGameModeConfig(normalizedModeConfig);
 
       let thumbnail: string | undefined;
       if (thumbPreview) thumbnail = thumbPreview;
 
-      await ProjectService.updateProject(currentProject.id, { name, ...(thumbnail ? { thumbnail } : {}), visibility, mode, ...(modeConfig ? { modeConfig } : {}) });
+      await ProjectService.updateProject(currentProject.id, { name, ...(thumbnail ? { thumbnail } : {}), visibility, mode, modeConfig: normalizedModeConfig });
 
       // Publish toggle may also be requested
       if (published !== !!currentProject.published) {
@@ -113,7 +158,7 @@ export const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({ op
     }
   };
 
-  const handleVisibility = async (value: 'PRIVATE'|'FRIENDS'|'PUBLIC') => {
+  const handleVisibility = async (value: Visibility) => {
     setVisibility(value);
     if (!currentProject?.id) return;
     try {
@@ -180,7 +225,7 @@ export const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({ op
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
             <div className="space-y-2">
               <Label>Widoczność</Label>
-              <Select value={visibility} onValueChange={(v) => handleVisibility(v as any)}>
+              <Select value={visibility} onValueChange={(v) => handleVisibility(v as Visibility)}>
                 <SelectTrigger>
                   <SelectValue placeholder="Wybierz widoczność" />
                 </SelectTrigger>
@@ -200,7 +245,7 @@ export const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({ op
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-end">
             <div className="space-y-2">
               <Label>Tryb gry</Label>
-              <Select value={mode} onValueChange={(v) => setMode(v as any)}>
+              <Select value={mode} onValueChange={(v) => handleModeChange(v as GameMode)}>
                 <SelectTrigger>
                   <SelectValue placeholder="Wybierz tryb" />
                 </SelectTrigger>
@@ -212,12 +257,47 @@ export const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({ op
                 </SelectContent>
               </Select>
             </div>
-            <div className="space-y-2">
-              <Label>Konfiguracja trybu (JSON)</Label>
-              <Input value={modeConfig} onChange={(e) => setModeConfig(e.target.value)} placeholder='Np. {"laps":3}' />
-            </div>
           </div>
 
+          {modeFields.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {modeFields.map((field) => {
+                const error = fieldError(field.key);
+                const value = modeValues[field.key];
+                return (
+                  <div key={`${mode}-${field.key}`} className="space-y-2">
+                    <Label htmlFor={`mode-${field.key}`}>{field.label}</Label>
+                    {field.kind === 'enum' ? (
+                      <Select value={String(value ?? field.defaultValue)} onValueChange={(v) => setModeValue(field.key, v)}>
+                        <SelectTrigger id={`mode-${field.key}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {field.options?.map((option) => (
+                            <SelectItem key={option} value={option}>{OPTION_LABELS[option] ?? option}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        id={`mode-${field.key}`}
+                        type="number"
+                        min={field.min}
+                        max={field.max}
+                        step={field.kind === 'integer' ? 1 : 0.5}
+                        value={value ?? ''}
+                        // Keep an empty box as '' so it fails validation instead of turning into 0
+                        onChange={(e) => setModeValue(field.key, e.target.value === '' ? '' : Number(e.target.value))}
+                        aria-invalid={!!error}
+                      />
+                    )}
+                    {error && <p className="text-xs text-destructive">{error.slice(field.key.length + 1).trim()}</p>}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           <div className="space-y-3">
             <Label>Miniatura projektu</Label>
             {thumbPreview && (
@@ -267,7 +347,7 @@ export const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({ op
 
         <DialogFooter>
           <Button variant="secondary" onClick={() => onOpenChange(false)}>Anuluj</Button>
-          <Button onClick={handleSave} disabled={saving}>Zapisz</Button>
+          <Button onClick={handleSave} disabled={saving || !parsedModeConfig.ok}>Zapisz</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
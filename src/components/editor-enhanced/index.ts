@@ -6,6 +6,7 @@ export { default as GizmoControls } from './GizmoControls';
 export { default as Hierarchy } from './Hierarchy';
 export { default as InspectorPanel } from './InspectorPanel';
 export { default as QualitySettings } from './QualitySettings';
+export { default as GraphicsSettingsDialog } from './GraphicsSettingsDialog';
 
 // Editor UI components
 export { default as BlockTooltip } from './editor/BlockTooltip';
@@ -18,6 +19,8 @@ export { default as SimsBuildPanel } from './editor/SimsBuildPanel';
 
 // Scene components
 export { default as BlockProperties } from './scene/BlockProperties';
+export { default as LogicPanel } from './scene/LogicPanel';
+export { default as TimelinePanel } from './scene/TimelinePanel';
 export { CameraController } from './scene/CameraController';
 export { InputHandler } from './scene/InputHandler';
 export { default as MemoryDebugPanel } from './scene/MemoryDebugPanel';
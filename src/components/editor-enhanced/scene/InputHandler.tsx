@@ -3,6 +3,7 @@ import { attachEditorInput } from './input/editorInput';
 import { THREE } from './compatibility/three-babylon-compat';
 import * as BABYLON from '@babylonjs/core';
 import type { Block } from './types';
+import type { TerrainBrushMode } from '@/types/editor';
 
 interface InputHandlerProps {
   mountRef: MutableRefObject<HTMLDivElement | null>;
@@ -13,7 +14,7 @@ interface InputHandlerProps {
   selectedTool: 'select' | 'move' | 'paint';
   
   // Terrain brush settings
-  terrainBrushMode: 'raise' | 'lower' | 'smooth' | 'paint';
+  terrainBrushMode: TerrainBrushMode;
   terrainBrushSize: number;
   terrainBrushStrength: number;
   terrainBrushColor: number;
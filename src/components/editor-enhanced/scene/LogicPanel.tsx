@@ -0,0 +1,212 @@
+import { useMemo, useState } from 'react';
+import { useProjectStore } from '@/lib/projectStore';
+import { useLogicStore } from '@/features/projects/stores/logic.store';
+import { addAction, addTrigger, removeAction, removeTrigger, updateAction, updateTrigger } from '@/features/logic/logicActions';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { LogicAction, LogicActionType, LogicTrigger, LogicTriggerType } from '@/types/project';
+
+type Vec3 = { x: number; y: number; z: number };
+
+const inputClass = 'px-2 py-1 rounded border border-sidebar-border bg-background text-foreground';
+
+const TRIGGER_TYPES: LogicTriggerType[] = ['enter', 'exit', 'timer', 'collect'];
+const ACTION_TYPES: { value: LogicActionType; label: string }[] = [
+  { value: 'toggle_visibility', label: 'Toggle visibility' },
+  { value: 'move_block', label: 'Move block' },
+  { value: 'rotate_block', label: 'Rotate block' },
+  { value: 'teleport_player', label: 'Teleport player' },
+  { value: 'play_effect', label: 'Play effect' },
+  { value: 'end_round', label: 'End round' },
+];
+
+const Vec3Input = ({ label, value, onChange }: { label: string; value: Vec3; onChange: (v: Vec3) => void }) => (
+  <div className="flex items-center gap-1">
+    <span className="min-w-[3.5rem]">{label}</span>
+    {(['x', 'y', 'z'] as const).map(axis => (
+      <input
+        key={axis}
+        type="number"
+        step={0.5}
+        title={axis.toUpperCase()}
+        className={`w-14 ${inputClass}`}
+        value={value[axis]}
+        onChange={(e) => onChange({ ...value, [axis]: Number(e.target.value) })}
+      />
+    ))}
+  </div>
+);
+
+const ActionEditor = ({ trigger, action, blocks }: { trigger: LogicTrigger; action: LogicAction; blocks: { id: string; name?: string; type: string }[] }) => {
+  const update = (updates: Partial<Omit<LogicAction, 'id'>>) => updateAction(trigger.id, action.id, updates);
+  const targetsBlock = action.type === 'toggle_visibility' || action.type === 'move_block' || action.type === 'rotate_block' || action.type === 'play_effect';
+
+  return (
+    <div className="space-y-1 p-2 rounded border border-sidebar-border">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">{ACTION_TYPES.find(a => a.value === action.type)?.label || action.type}</span>
+        <Button size="sm" variant="ghost" onClick={() => removeAction(trigger.id, action.id)}>Remove</Button>
+      </div>
+      <label className="flex items-center gap-1">
+        <span className="min-w-[3.5rem]">Delay (s)</span>
+        <input type="number" min={0} step={0.1} className={`w-20 ${inputClass}`} value={action.delay ?? 0} onChange={(e) => update({ delay: Math.max(0, Number(e.target.value)) })} />
+      </label>
+      {targetsBlock && (
+        <label className="flex items-center gap-1">
+          <span className="min-w-[3.5rem]">Target</span>
+          <select className={`flex-1 ${inputClass}`} value={action.targetBlockId || ''} onChange={(e) => update({ targetBlockId: e.target.value || undefined })}>
+            <option value="">This block</option>
+            {blocks.map(b => (
+              <option key={b.id} value={b.id}>{b.name || `${b.type} (${b.id.slice(0, 6)})`}</option>
+            ))}
+          </select>
+        </label>
+      )}
+      {action.type === 'toggle_visibility' && (
+        <label className="flex items-center gap-1">
+          <span className="min-w-[3.5rem]">Mode</span>
+          <select
+            className={`flex-1 ${inputClass}`}
+            value={action.visible === undefined ? 'toggle' : action.visible ? 'show' : 'hide'}
+            onChange={(e) => update({ visible: e.target.value === 'toggle' ? undefined : e.target.value === 'show' })}
+          >
+            <option value="toggle">Toggle</option>
+            <option value="show">Show</option>
+            <option value="hide">Hide</option>
+          </select>
+        </label>
+      )}
+      {action.type === 'move_block' && (
+        <Vec3Input label="Offset" value={action.offset || { x: 0, y: 0, z: 0 }} onChange={(offset) => update({ offset })} />
+      )}
+      {action.type === 'rotate_block' && (
+        <Vec3Input label="Rot (deg)" value={action.rotation || { x: 0, y: 0, z: 0 }} onChange={(rotation) => update({ rotation })} />
+      )}
+      {(action.type === 'move_block' || action.type === 'rotate_block') && (
+        <label className="flex items-center gap-1">
+          <span className="min-w-[3.5rem]">Duration</span>
+          <input type="number" min={0} step={0.1} className={`w-20 ${inputClass}`} value={action.duration ?? 1} onChange={(e) => update({ duration: Math.max(0, Number(e.target.value)) })} />
+        </label>
+      )}
+      {action.type === 'teleport_player' && (
+        <Vec3Input label="Position" value={action.position || { x: 0, y: 5, z: 0 }} onChange={(position) => update({ position })} />
+      )}
+      {action.type === 'play_effect' && (
+        <label className="flex items-center gap-1">
+          <span className="min-w-[3.5rem]">Effect</span>
+          <select className={`flex-1 ${inputClass}`} value={action.effect || 'sparkle'} onChange={(e) => update({ effect: e.target.value as LogicAction['effect'] })}>
+            {['sparkle', 'smoke', 'flash'].map(fx => <option key={fx} value={fx}>{fx}</option>)}
+          </select>
+        </label>
+      )}
+      {action.type === 'end_round' && (
+        <label className="flex items-center gap-1">
+          <span className="min-w-[3.5rem]">Outcome</span>
+          <select className={`flex-1 ${inputClass}`} value={action.outcome || 'win'} onChange={(e) => update({ outcome: e.target.value as 'win' | 'lose' })}>
+            <option value="win">Win</option>
+            <option value="lose">Lose</option>
+          </select>
+        </label>
+      )}
+    </div>
+  );
+};
+
+const TriggerEditor = ({ trigger, blocks }: { trigger: LogicTrigger; blocks: { id: string; name?: string; type: string }[] }) => {
+  const [actionType, setActionType] = useState<LogicActionType>('toggle_visibility');
+
+  return (
+    <div className="space-y-2 p-2 rounded border border-sidebar-border bg-background/40">
+      <div className="flex items-center justify-between gap-2">
+        <input
+          className={`flex-1 ${inputClass}`}
+          placeholder={`${trigger.type} trigger`}
+          value={trigger.name || ''}
+          onChange={(e) => updateTrigger(trigger.id, { name: e.target.value })}
+        />
+        <Badge variant="outline" className="text-[10px]">{trigger.type}</Badge>
+        <Button size="sm" variant="ghost" onClick={() => removeTrigger(trigger.id)}>Delete</Button>
+      </div>
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={trigger.enabled !== false} onChange={(e) => updateTrigger(trigger.id, { enabled: e.target.checked })} />
+          <span>Enabled</span>
+        </label>
+        {trigger.type !== 'collect' && (
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={!!trigger.once} onChange={(e) => updateTrigger(trigger.id, { once: e.target.checked })} />
+            <span>Once</span>
+          </label>
+        )}
+      </div>
+      {trigger.type === 'timer' ? (
+        <label className="flex items-center gap-1">
+          <span className="min-w-[3.5rem]">Every (s)</span>
+          <input type="number" min={0.1} step={0.5} className={`w-20 ${inputClass}`} value={trigger.interval ?? 5} onChange={(e) => updateTrigger(trigger.id, { interval: Math.max(0.1, Number(e.target.value)) })} />
+        </label>
+      ) : trigger.volume && (
+        <>
+          <Vec3Input label="Size" value={trigger.volume.size} onChange={(size) => updateTrigger(trigger.id, { volume: { ...trigger.volume!, size } })} />
+          <Vec3Input label="Offset" value={trigger.volume.offset} onChange={(offset) => updateTrigger(trigger.id, { volume: { ...trigger.volume!, offset } })} />
+        </>
+      )}
+
+      <div className="space-y-1">
+        {trigger.actions.map(action => (
+          <ActionEditor key={action.id} trigger={trigger} action={action} blocks={blocks} />
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <select className={`flex-1 ${inputClass}`} value={actionType} onChange={(e) => setActionType(e.target.value as LogicActionType)}>
+          {ACTION_TYPES.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+        </select>
+        <Button size="sm" variant="outline" onClick={() => addAction(trigger.id, actionType)}>Add action</Button>
+      </div>
+    </div>
+  );
+};
+
+const LogicPanel = () => {
+  const selectedId = useProjectStore(s => s.selectedBlockId);
+  const blocks = useProjectStore(s => s.blocks);
+  const triggers = useLogicStore(s => s.triggers);
+  const [triggerType, setTriggerType] = useState<LogicTriggerType>('enter');
+
+  const block = useMemo(() => (blocks || []).find(b => b.id === selectedId), [blocks, selectedId]);
+  // With no selection, show level-wide triggers (timers and unanchored volumes)
+  const visible = useMemo(
+    () => triggers.filter(t => (block ? t.blockId === block.id : !t.blockId)),
+    [triggers, block]
+  );
+  const types = block ? TRIGGER_TYPES : TRIGGER_TYPES.filter(t => t === 'timer' || t === 'enter' || t === 'exit');
+
+  return (
+    <Card className="bg-sidebar-accent border-sidebar-border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">Logic</span>
+        <Badge variant="outline" className="text-[10px]">{block ? (block.name || block.type) : 'Level'}</Badge>
+      </div>
+
+      <div className="space-y-2 text-xs">
+        {visible.length === 0 && (
+          <div className="text-sidebar-foreground/80">
+            {block ? 'No triggers on this block.' : 'No level triggers. Select a block to attach triggers to it.'}
+          </div>
+        )}
+        {visible.map(trigger => (
+          <TriggerEditor key={trigger.id} trigger={trigger} blocks={blocks || []} />
+        ))}
+
+        <div className="flex items-center gap-2 pt-2 border-t border-sidebar-border">
+          <select className={`flex-1 ${inputClass}`} value={types.includes(triggerType) ? triggerType : 'enter'} onChange={(e) => setTriggerType(e.target.value as LogicTriggerType)}>
+            {types.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <Button size="sm" variant="outline" onClick={() => addTrigger(types.includes(triggerType) ? triggerType : 'enter', block?.id)}>Add trigger</Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default LogicPanel;
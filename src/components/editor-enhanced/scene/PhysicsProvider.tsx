@@ -12,7 +12,7 @@ interface PhysicsContextValue {
   rebuildGroundBodyFromMesh: (ground: BABYLON.Mesh) => void;
   emitCollisionEvents: () => void;
   addCollisionListener: (callback: (event: BlockCollisionEvent) => void) => () => void;
-  applyTerrainPreset: (scene: BABYLON.Scene, presetType: 'flat' | 'hilly' | 'mountains') => BABYLON.Mesh;
+  applyTerrainPreset: (scene: BABYLON.Scene, presetType: 'flat' | 'hilly' | 'mountains', options?: { subdivisions?: number }) => BABYLON.Mesh;
 }
 
 const PhysicsContext = createContext<PhysicsContextValue | null>(null);
@@ -43,7 +43,7 @@ export const PhysicsProvider = ({
     rebuildGroundBodyFromMesh: physics.rebuildGroundBodyFromMesh,
     emitCollisionEvents: physics.emitCollisionEvents,
     addCollisionListener: physics.addCollisionListener,
-    applyTerrainPreset: (scene, presetType) => physics.applyTerrainPreset(scene, presetType)
+    applyTerrainPreset: (scene, presetType, options) => physics.applyTerrainPreset(scene, presetType, options)
   };
 
   return (
@@ -23,6 +23,12 @@ import type { BlockCollisionEvent } from './physics/types';
 import type { QualityMode } from './engine/SceneEngine';
 import { useProjectStore } from '@/lib/projectStore';
 import { ThinInstanceManager } from './blocks/ThinInstanceManager';
+import { useRenderSettingsStore } from '@/features/graphics/store';
+import type { TerrainData } from '@/types/project';
+import { applyTerrain, applyTerrainDeltaToGround, captureTerrain } from '../terrain/terrainMesh';
+import type { TerrainDelta, TerrainDeltaDirection } from '@/features/terrain/terrainDelta';
+import { useHistoryStore } from '@/features/projects/stores/history.store';
+import type { RenderSettings } from '@/types/editor';
 import { 
   getBlockHeight, 
   checkBlockCollision, 
@@ -63,6 +69,7 @@ const SceneCanvasInner = ({
     terrainBrushSize,
     terrainBrushStrength,
     terrainBrushColor,
+    terrainPaintLayer,
     setSelectedBlockId,
     setBlockPosition,
     setLastUsedColorForType,
@@ -105,7 +112,9 @@ const SceneCanvasInner = ({
 
   // Internal state
   const [isLoading, setIsLoading] = useState(true);
-  const [engine, setEngine] = useState<{ scene: BABYLON.Scene; camera: BABYLON.Camera; renderer: any; engine: BABYLON.Engine; dispose: () => void } | null>(null);
+  const [engine, setEngine] = useState<{ scene: BABYLON.Scene; camera: BABYLON.Camera; renderer: any; engine: BABYLON.Engine; applyRenderSettings: (settings: RenderSettings, adaptive?: boolean) => void; dispose: () => void } | null>(null);
+  const renderSettings = useRenderSettingsStore(s => s.settings);
+  const adaptiveQuality = useRenderSettingsStore(s => s.adaptive);
   const [terrainVersion, setTerrainVersion] = useState(0);
 
   // Advanced hooks
@@ -141,7 +150,13 @@ const SceneCanvasInner = ({
   const terrainEditor = useTerrainEditor({
     sceneRef: { current: sceneRefs.current.scene },
     groundRef: { current: sceneRefs.current.ground },
-    rebuildGroundBodyFromMesh: physics.rebuildGroundBodyFromMesh
+    rebuildGroundBodyFromMesh: physics.rebuildGroundBodyFromMesh,
+    // Strokes join the undo history, unless the editor hosting the canvas
+    // takes them over by cancelling the event (its own or a collab history)
+    onStroke: (delta) => {
+      const event = new CustomEvent<TerrainDelta>('terrainStroke', { detail: delta, cancelable: true });
+      if (window.dispatchEvent(event)) useHistoryStore.getState().pushTerrainToHistory(delta);
+    }
   });
 
   // Update refs when props change
@@ -170,7 +185,9 @@ const SceneCanvasInner = ({
       mount: mountRef.current,
       cameraMode: cameraRefs.current.mode,
       qualityMode: qualityMode,
-      autoStartRenderLoop: false
+      autoStartRenderLoop: false,
+      renderSettings: useRenderSettingsStore.getState().settings,
+      adaptiveQuality: useRenderSettingsStore.getState().adaptive,
     });
 
     sceneRefs.current.scene = sceneEngine.scene;
@@ -230,6 +247,11 @@ const SceneCanvasInner = ({
     };
   }, [qualityMode]);
 
+  // Graphics options change live, without rebuilding the scene
+  useEffect(() => {
+    engine?.applyRenderSettings(renderSettings, adaptiveQuality);
+  }, [engine, renderSettings, adaptiveQuality]);
+
   // Animation loop
   useEffect(() => {
     if (!engine || !physics.worldRef.current) return;
@@ -360,9 +382,32 @@ const SceneCanvasInner = ({
     onSceneStateChange?.(stateRefs.current.blocks);
   };
 
-  const addBlock = (type: Block['type'], position: BABYLON.Vector3, options: { id?: string; color?: number; rotationY?: number; rotationX?: number; rotationZ?: number; scale?: number } = {}) => {
+  const addBlock = (type: Block['type'], position: BABYLON.Vector3, options: { id?: string; color?: number; rotationY?: number; rotationX?: number; rotationZ?: number; scale?: number; assetId?: string; collider?: 'box' | 'hull' } = {}) => {
     if (!sceneRefs.current.scene || !physics.worldRef.current) return;
 
+    // Model blocks carry their own asset, so they never come from the shared pool
+    if (type === 'model') {
+      const block = createBlock(
+        {
+          type,
+          position,
+          id: options.id,
+          rotationYDeg: options.rotationY,
+          rotationXDeg: options.rotationX,
+          rotationZDeg: options.rotationZ,
+          uniformScale: options.scale,
+          assetId: options.assetId,
+          collider: options.collider
+        },
+        { scene: sceneRefs.current.scene, world: physics.worldRef.current, dynamicMaterial: physics.dynamicMaterialRef.current }
+      );
+      stateRefs.current.blocks.push(block);
+      blocksRef.current = stateRefs.current.blocks;
+      onBlockAdd?.(block);
+      onSceneStateChange?.(stateRefs.current.blocks);
+      return;
+    }
+
     const pool = BlockPool.getInstance();
     const pooled = pool.acquire(type as any, { scene: sceneRefs.current.scene, world: physics.worldRef.current }, () => {
       const created = createBlock(
@@ -430,7 +475,9 @@ const SceneCanvasInner = ({
         rotationY: blockData.rotationY,
         rotationX: blockData.rotationX,
         rotationZ: blockData.rotationZ,
-        scale: blockData.scale
+        scale: blockData.scale,
+        assetId: blockData.assetId,
+        collider: blockData.collider
       });
     });
   };
@@ -499,6 +546,7 @@ const SceneCanvasInner = ({
   // Expose methods for external control
   useEffect(() => {
     if (typeof window !== 'undefined') {
+      const setGround = (ground: BABYLON.Mesh) => { sceneRefs.current.ground = ground; setTerrainVersion(v => v + 1); };
       (window as any).scene3D = {
         clearScene,
         loadScene: (blocks: Block[]) => loadScene(blocks),
@@ -506,7 +554,16 @@ const SceneCanvasInner = ({
         getGround: () => sceneRefs.current.ground,
         getScene: () => sceneRefs.current.scene,
         rebuildGroundPhysics: () => physics.rebuildGroundBodyFromMesh(sceneRefs.current.ground),
-        setGround: (ground: BABYLON.Mesh) => { sceneRefs.current.ground = ground; setTerrainVersion(v => v + 1); },
+        setGround,
+        captureTerrain: () => (sceneRefs.current.ground ? captureTerrain(sceneRefs.current.ground) : null),
+        applyTerrain: (terrain: TerrainData) => {
+          const scene = sceneRefs.current.scene;
+          if (!scene) return;
+          applyTerrain(terrain, { scene, ground: sceneRefs.current.ground, physics, setGround });
+        },
+        applyTerrainDelta: (delta: TerrainDelta, direction: TerrainDeltaDirection, options?: { rebase?: boolean }) =>
+          applyTerrainDeltaToGround({ ground: sceneRefs.current.ground, physics }, delta, direction, options),
+        finishTerrainStroke: () => terrainEditor.finishStroke(),
         getCameraPosition: () => cameraRefs.current.camera ? { 
           x: cameraRefs.current.camera.position.x, 
           y: cameraRefs.current.camera.position.y, 
@@ -578,7 +635,8 @@ const SceneCanvasInner = ({
             terrainBrushMode,
             terrainBrushSize,
             terrainBrushStrength,
-            terrainBrushColor
+            terrainBrushColor,
+            terrainPaintLayer
           );
         }}
       />
@@ -0,0 +1,174 @@
+import { useMemo } from 'react';
+import { useProjectStore } from '@/lib/projectStore';
+import { useAnimationStore, type AnimatedProperty } from '@/features/projects/stores/animation.store';
+import { sampleClip } from '@/components/editor-enhanced/scene/systems/play/AnimationRuntime';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { AnimationTrack } from '@/types/editor';
+
+const inputClass = 'px-2 py-1 rounded border border-sidebar-border bg-background text-foreground';
+const PROPERTIES: AnimatedProperty[] = ['position', 'rotation', 'scale'];
+
+const TimelinePanel = () => {
+  const selectedId = useProjectStore(s => s.selectedBlockId);
+  const blocks = useProjectStore(s => s.blocks);
+  const setBlockPosition = useProjectStore(s => s.setBlockPosition);
+  const setBlockRotationX = useProjectStore(s => s.setBlockRotationX);
+  const setBlockRotationY = useProjectStore(s => s.setBlockRotationY);
+  const setBlockRotationZ = useProjectStore(s => s.setBlockRotationZ);
+  const setBlockScale = useProjectStore(s => s.setBlockScale);
+
+  const {
+    clips,
+    activeClipId,
+    currentTime,
+    addClip,
+    updateClip,
+    removeClip,
+    setActiveClip,
+    setCurrentTime,
+    setKeyframe,
+    removeKeyframe,
+    setTrackInterpolation,
+  } = useAnimationStore();
+
+  const clip = useMemo(() => clips.find(c => c.id === activeClipId) || null, [clips, activeClipId]);
+  const block = useMemo(() => blocks.find(b => b.id === selectedId), [blocks, selectedId]);
+  const tracks = useMemo(
+    () => (clip && block ? clip.tracks.filter(t => t.targetId === block.id) : []),
+    [clip, block]
+  );
+
+  const recordKey = (property: AnimatedProperty) => {
+    if (!clip || !block) return;
+    const scale = block.scale ?? 1;
+    const value = property === 'position'
+      ? { ...block.position }
+      : property === 'rotation'
+        ? { x: block.rotationX ?? 0, y: block.rotationY ?? 0, z: block.rotationZ ?? 0 }
+        : { x: scale, y: scale, z: scale };
+    setKeyframe(clip.id, block.id, property, currentTime, value);
+  };
+
+  // Move the selected block to its animated pose at the playhead so the next key starts from there
+  const snapToPlayhead = () => {
+    if (!clip || !block) return;
+    const pose = sampleClip(clip, currentTime).get(block.id);
+    if (!pose) return;
+    if (pose.position) setBlockPosition(block.id, pose.position);
+    if (pose.rotation) {
+      setBlockRotationX(block.id, pose.rotation.x);
+      setBlockRotationY(block.id, pose.rotation.y);
+      setBlockRotationZ(block.id, pose.rotation.z);
+    }
+    if (pose.scale) setBlockScale(block.id, pose.scale.x);
+  };
+
+  return (
+    <Card className="bg-sidebar-accent border-sidebar-border p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">Timeline</span>
+        <Badge variant="outline" className="text-[10px]">{clips.length} clips</Badge>
+      </div>
+
+      <div className="space-y-2 text-xs">
+        <div className="flex items-center gap-2">
+          <select className={`flex-1 ${inputClass}`} value={activeClipId || ''} onChange={(e) => setActiveClip(e.target.value || null)}>
+            {clips.length === 0 && <option value="">No clips</option>}
+            {clips.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+          <Button size="sm" variant="outline" onClick={() => addClip()}>New clip</Button>
+        </div>
+
+        {clip && (
+          <>
+            <div className="flex items-center gap-2">
+              <input className={`flex-1 ${inputClass}`} value={clip.name} onChange={(e) => updateClip(clip.id, { name: e.target.value })} />
+              <Button size="sm" variant="ghost" onClick={() => removeClip(clip.id)}>Delete</Button>
+            </div>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-1">
+                <span>Length (s)</span>
+                <input type="number" min={0.1} step={0.5} className={`w-16 ${inputClass}`} value={clip.duration} onChange={(e) => updateClip(clip.id, { duration: Number(e.target.value) })} />
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={clip.loop} onChange={(e) => updateClip(clip.id, { loop: e.target.checked })} />
+                <span>Loop</span>
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={clip.autoPlay} onChange={(e) => updateClip(clip.id, { autoPlay: e.target.checked })} />
+                <span>Autoplay</span>
+              </label>
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  type="range"
+                  min={0}
+                  max={clip.duration}
+                  step={0.05}
+                  className="flex-1"
+                  value={currentTime}
+                  onChange={(e) => setCurrentTime(Number(e.target.value))}
+                />
+                <input type="number" min={0} step={0.05} className={`w-16 ${inputClass}`} value={Number(currentTime.toFixed(2))} onChange={(e) => setCurrentTime(Number(e.target.value))} />
+              </div>
+              {/* Keyframe markers for the selected block */}
+              <div className="relative h-3 rounded bg-background/60 border border-sidebar-border">
+                {tracks.flatMap(t => t.keyframes.map(k => (
+                  <button
+                    key={`${t.id}-${k.time}`}
+                    className="absolute top-0 h-full w-1.5 -ml-[3px] rounded-sm bg-primary"
+                    style={{ left: `${Math.min(100, (k.time / clip.duration) * 100)}%` }}
+                    title={`${t.property} @ ${k.time.toFixed(2)}s`}
+                    onClick={() => setCurrentTime(k.time)}
+                  />
+                )))}
+                <div className="absolute top-0 h-full w-px bg-foreground" style={{ left: `${Math.min(100, (currentTime / clip.duration) * 100)}%` }} />
+              </div>
+            </div>
+
+            {!block ? (
+              <div className="text-sidebar-foreground/80">Select a block to record keyframes.</div>
+            ) : (
+              <>
+                <div className="flex items-center gap-2 flex-wrap">
+                  {PROPERTIES.map(p => (
+                    <Button key={p} size="sm" variant="outline" onClick={() => recordKey(p)}>Key {p}</Button>
+                  ))}
+                  <Button size="sm" variant="ghost" disabled={tracks.length === 0} onClick={snapToPlayhead}>Go to pose</Button>
+                </div>
+                {tracks.map(track => (
+                  <div key={track.id} className="space-y-1 p-2 rounded border border-sidebar-border">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">{track.property}</span>
+                      <select
+                        className={inputClass}
+                        value={track.interpolation}
+                        onChange={(e) => setTrackInterpolation(clip.id, track.id, e.target.value as AnimationTrack['interpolation'])}
+                      >
+                        {['linear', 'step', 'cubic'].map(i => <option key={i} value={i}>{i}</option>)}
+                      </select>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {track.keyframes.map(k => (
+                        <span key={k.time} className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded border border-sidebar-border">
+                          <button onClick={() => setCurrentTime(k.time)}>{k.time.toFixed(2)}s</button>
+                          <button className="text-muted-foreground hover:text-destructive" title="Remove keyframe" onClick={() => removeKeyframe(clip.id, track.id, k.time)}>×</button>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default TimelinePanel;
@@ -33,13 +33,13 @@ export interface CreatePlacementHandlersParams {
     snapSize: number;
     color: number;
   }>;
-  droppedBlock: { type: Block['type'] };
+  droppedBlock: { type: Block['type']; assetId?: string };
   ghostPreview: {
     createGhost: (type: Block['type']) => void;
     removeGhost: () => void;
     ghostRef: React.MutableRefObject<BABYLON.Mesh | null>;
   };
-  addBlock: (type: Block['type'], position: BABYLON.Vector3) => void;
+  addBlock: (type: Block['type'], position: BABYLON.Vector3, options?: { assetId?: string }) => void;
   onSceneStateChange?: (blocks: Block[]) => void;
 }
 
@@ -56,6 +56,13 @@ export const createPlacementHandlers = (params: CreatePlacementHandlersParams):
     enhancedPlacement.setBlockType(params.droppedBlock.type);
   }
 
+  // Pick predicate for ground and block meshes; one lookup set per pick
+  // instead of scanning every block for every candidate mesh
+  const isPlacementTarget = () => {
+    const blockMeshes = new Set(params.stateRefs.current.blocks.map(block => block.mesh));
+    return (mesh: BABYLON.AbstractMesh) => mesh === params.sceneRefs.current.ground || blockMeshes.has(mesh as BABYLON.Mesh);
+  };
+
   const handleClick = (event: MouseEvent) => {
     if (!isPlacementActive) return;
     if (!params.mountRef.current || !params.cameraRefs.current.camera) return;
@@ -68,11 +75,7 @@ export const createPlacementHandlers = (params: CreatePlacementHandlersParams):
     const pickResult = scene.pick(
       (event.clientX - rect.left),
       (event.clientY - rect.top),
-      (mesh) => {
-        // Include ground and block meshes
-        if (mesh === params.sceneRefs.current.ground) return true;
-        return params.stateRefs.current.blocks.some(block => block.mesh === mesh);
-      }
+      isPlacementTarget()
     );
     
     if (pickResult && pickResult.hit && pickResult.pickedPoint) {
@@ -90,7 +93,7 @@ export const createPlacementHandlers = (params: CreatePlacementHandlersParams):
         if (enhancedPlacement) {
           // Place block with enhanced system
           enhancedPlacement.placeBlocks((type, pos) => {
-            params.addBlock(type, pos);
+            params.addBlock(type, pos, { assetId: params.droppedBlock.assetId });
             
             // Find the newly added block and animate it
             setTimeout(() => {
@@ -105,7 +108,7 @@ export const createPlacementHandlers = (params: CreatePlacementHandlersParams):
           });
         } else {
           // Fallback to simple placement
-          params.addBlock(params.droppedBlock.type, position);
+          params.addBlock(params.droppedBlock.type, position, { assetId: params.droppedBlock.assetId });
         }
         
         // Always keep placement mode active (Minecraft-style)
@@ -126,11 +129,7 @@ export const createPlacementHandlers = (params: CreatePlacementHandlersParams):
     const pickResult = scene.pick(
       (event.clientX - rect.left),
       (event.clientY - rect.top),
-      (mesh) => {
-        // Include ground and block meshes
-        if (mesh === params.sceneRefs.current.ground) return true;
-        return params.stateRefs.current.blocks.some(block => block.mesh === mesh);
-      }
+      isPlacementTarget()
     );
 
     if (pickResult && pickResult.hit && pickResult.pickedPoint) {
@@ -1,5 +1,10 @@
 import * as BABYLON from '@babylonjs/core';
 import { BlockType } from '../types';
+import { ChunkGrid } from '@/features/chunking/chunkGrid';
+
+// Plain-coloured cubes that can be merged into chunk geometry
+const CHUNKABLE_TYPES = new Set<BlockType>(['cube', 'cube_boost', 'cube_slow', 'cube_sticky']);
+const EPSILON = 1e-4;
 
 interface InstanceData {
   id: string;
@@ -8,6 +13,8 @@ interface InstanceData {
   rotation: BABYLON.Vector3;
   scale: number;
   color: BABYLON.Color3;
+  /** Drawn as part of a chunk mesh rather than as a thin instance */
+  chunked?: boolean;
 }
 
 export class ThinInstanceManager {
@@ -20,6 +27,10 @@ export class ThinInstanceManager {
     colors: Float32Array;
     needsUpdate: boolean;
   }>();
+  // Unrotated unit cubes are greedy-meshed per chunk and colour instead
+  private chunkGrid = new ChunkGrid();
+  private chunkMeshes = new Map<string, BABYLON.Mesh[]>();
+  private chunkMaterials = new Map<string, BABYLON.PBRMaterial>();
 
   static getInstance(): ThinInstanceManager {
     if (!ThinInstanceManager.instance) {
@@ -146,6 +157,7 @@ export class ThinInstanceManager {
     };
 
     manager.instances.set(id, instanceData);
+    this.assignChunk(type, instanceData);
     manager.needsUpdate = true;
   }
 
@@ -154,6 +166,7 @@ export class ThinInstanceManager {
     if (!manager) return;
 
     manager.instances.delete(id);
+    this.chunkGrid.remove(id);
     manager.needsUpdate = true;
   }
 
@@ -178,16 +191,85 @@ export class ThinInstanceManager {
     if (updates.scale !== undefined) instance.scale = updates.scale;
     if (updates.color) instance.color = updates.color.clone();
 
+    this.assignChunk(type, instance);
     manager.needsUpdate = true;
   }
 
-  updateAllInstances(): void {
+  private assignChunk(type: BlockType, instance: InstanceData): void {
+    const { rotation, scale } = instance;
+    const axisAligned = Math.abs(rotation.x) < EPSILON && Math.abs(rotation.y) < EPSILON && Math.abs(rotation.z) < EPSILON;
+    instance.chunked = CHUNKABLE_TYPES.has(type) && axisAligned && Math.abs(scale - 1) < EPSILON
+      && this.chunkGrid.set(instance.id, instance.position, instance.color.toHexString());
+    if (!instance.chunked) this.chunkGrid.remove(instance.id);
+  }
+
+  private rebuildChunk(chunk: string): void {
+    this.chunkMeshes.get(chunk)?.forEach(mesh => mesh.dispose());
+    this.chunkMeshes.delete(chunk);
+    if (!this.scene) return;
+
+    const meshes: BABYLON.Mesh[] = [];
+    for (const [color, buffers] of this.chunkGrid.buildChunk(chunk, 'cw')) {
+      const mesh = new BABYLON.Mesh(`chunk_${chunk}_${color}`, this.scene);
+      const vertexData = new BABYLON.VertexData();
+      vertexData.positions = buffers.positions;
+      vertexData.normals = buffers.normals;
+      vertexData.indices = buffers.indices;
+      vertexData.applyToMesh(mesh);
+      mesh.material = this.getChunkMaterial(color);
+      mesh.metadata = { chunk };
+      mesh.freezeWorldMatrix();
+      meshes.push(mesh);
+    }
+    if (meshes.length > 0) this.chunkMeshes.set(chunk, meshes);
+  }
+
+  private getChunkMaterial(color: string): BABYLON.PBRMaterial {
+    let material = this.chunkMaterials.get(color);
+    if (!material && this.scene) {
+      material = new BABYLON.PBRMaterial(`mat_chunk_${color}`, this.scene);
+      material.albedoColor = BABYLON.Color3.FromHexString(color);
+      material.metallic = 0.0;
+      material.roughness = 0.7;
+      material.environmentIntensity = 0.8;
+      material.enableSpecularAntiAliasing = true;
+      this.chunkMaterials.set(color, material);
+    }
+    return material!;
+  }
+
+  /**
+   * Block id behind a pick on a thin instance or a chunk mesh, so merged
+   * cubes still select individually.
+   */
+  pickBlockId(pick: BABYLON.PickingInfo): string | null {
+    const mesh = pick.pickedMesh;
+    if (!pick.hit || !mesh) return null;
+    if (mesh.metadata?.chunk && pick.pickedPoint) {
+      const normal = pick.getNormal(true);
+      return normal ? this.chunkGrid.blockIdAt(pick.pickedPoint, normal) : null;
+    }
     for (const [type, manager] of this.instanceManagers) {
+      if (manager.baseMesh === mesh && pick.thinInstanceIndex >= 0) {
+        return this.getInstanceAtIndex(type, pick.thinInstanceIndex)?.id ?? null;
+      }
+    }
+    return null;
+  }
+
+  updateAllInstances(): void {
+    this.chunkGrid.takeDirty().forEach(chunk => this.rebuildChunk(chunk));
+
+    for (const manager of this.instanceManagers.values()) {
       if (!manager.needsUpdate) continue;
 
-      const instanceCount = manager.instances.size;
+      let instanceCount = 0;
+      for (const instance of manager.instances.values()) {
+        if (!instance.chunked) instanceCount++;
+      }
       if (instanceCount === 0) {
         manager.baseMesh.thinInstanceCount = 0;
+        manager.needsUpdate = false;
         continue;
       }
 
@@ -199,7 +281,11 @@ export class ThinInstanceManager {
 
       // Update matrices and colors
       let index = 0;
-      for (const [id, instance] of manager.instances) {
+      for (const instance of manager.instances.values()) {
+        if (instance.chunked) {
+          instance.index = -1;
+          continue;
+        }
         // Update index
         instance.index = index;
 
@@ -259,6 +345,11 @@ export class ThinInstanceManager {
       manager.baseMesh.dispose(false, true);
     }
     this.instanceManagers.clear();
+    this.chunkMeshes.forEach(meshes => meshes.forEach(mesh => mesh.dispose()));
+    this.chunkMeshes.clear();
+    this.chunkMaterials.forEach(material => material.dispose());
+    this.chunkMaterials.clear();
+    this.chunkGrid = new ChunkGrid();
   }
 
   getStats(): { type: BlockType; count: number }[] {
@@ -21,6 +21,7 @@ import {
   Layers,
   Sparkles,
   Mountain,
+  Package,
   type LucideIcon
 } from 'lucide-react';
 
@@ -33,7 +34,8 @@ export type BlockCategory =
   | 'decorative' 
   | 'special'
   | 'recent'
-  | 'favorites';
+  | 'favorites'
+  | 'models';
 
 export interface CategoryInfo {
   id: BlockCategory;
@@ -118,6 +120,13 @@ export const dynamicCategories: Omit<CategoryInfo, 'blocks'>[] = [
     icon: Shield,
     color: '#dc2626',
     description: 'Your favorite blocks'
+  },
+  {
+    id: 'models',
+    name: 'My Models',
+    icon: Package,
+    color: '#0ea5e9',
+    description: 'GLB models you uploaded'
   }
 ];
 
@@ -534,6 +543,23 @@ export const blockMetadata: Record<Block['type'], BlockMetadata> = {
     canScale: true,
     canPaint: false,
     physicsEnabled: false
+  },
+  'model': {
+    type: 'model',
+    name: 'Custom Model',
+    category: 'models',
+    tags: ['model', 'glb', 'custom', 'upload'],
+    icon: Package,
+    previewColor: '#0ea5e9',
+    description: 'Uploaded GLB model with a generated collider',
+    stackSize: 64,
+    placementSound: 'soft',
+    breakTime: 1.0,
+    rarity: 'common',
+    canRotate: true,
+    canScale: true,
+    canPaint: false,
+    physicsEnabled: true
   }
 };
 
@@ -6,13 +6,17 @@ import TextureCache from './textureCache';
 import SceneMemoryManager from '../memoryManager';
 import type { CannonWorld, CannonBody, CannonMaterial, CannonShape } from '../physics/types';
 import { setupMeshLOD, optimizeMeshForRendering } from '../optimization/lodManager';
+import { ModelLoader } from '../loaders/modelLoader';
+import { PlayPhysics } from '../systems/play/PlayPhysics';
+import { assetFileUrl } from '@/features/assets/modelAssets';
+import { computeModelCollider, scaleCollider, type Vec3 } from '@/features/assets/modelCollider';
 
 // Get the singleton instances
 const textureCache = TextureCache.getInstance();
 const memoryManager = SceneMemoryManager.getInstance();
 
 export type CreateBlockParams = {
-  type: 'cube' | 'cube_bouncy' | 'cube_ice' | 'cube_conveyor' | 'cube_boost' | 'cube_slow' | 'cube_sticky' | 'sphere' | 'cylinder' | 'cone' | 'pyramid' | 'plate' | 'ramp' | 'torus' | 'wedge' | 'door' | 'window' | 'fence' | 'start' | 'checkpoint' | 'finish' | 'hazard';
+  type: 'cube' | 'cube_bouncy' | 'cube_ice' | 'cube_conveyor' | 'cube_boost' | 'cube_slow' | 'cube_sticky' | 'sphere' | 'cylinder' | 'cone' | 'pyramid' | 'plate' | 'ramp' | 'torus' | 'wedge' | 'door' | 'window' | 'fence' | 'start' | 'checkpoint' | 'finish' | 'hazard' | 'model';
   position: BABYLON.Vector3;
   id?: string;
   rotationYDeg?: number;
@@ -26,13 +30,61 @@ export type CreateBlockParams = {
     normalUrl?: string;
     ormUrl?: string; // occlusion-roughness-metalness packed
   };
+  /** Uploaded GLB for 'model' blocks */
+  assetId?: string;
+  collider?: 'box' | 'hull';
 };
 
+/**
+ * Load the GLB behind a model block under its placeholder box. The model is
+ * re-centred to stand on the cell floor, the placeholder turns invisible but
+ * keeps picking, and the body gets the generated collider. On failure the
+ * placeholder stays visible.
+ */
+async function attachModel(block: Block, assetId: string, collider: 'box' | 'hull', scale: number, scene: BABYLON.Scene): Promise<void> {
+  const placeholder = block.mesh as unknown as BABYLON.Mesh;
+  let meshes: BABYLON.AbstractMesh[];
+  try {
+    meshes = await ModelLoader.loadModel(assetFileUrl(assetId), scene, { setupLOD: false });
+  } catch {
+    return;
+  }
+  if (placeholder.isDisposed() || meshes.length === 0) {
+    meshes.forEach(m => m.dispose());
+    return;
+  }
+
+  const root = meshes[0];
+  const { min, max } = root.getHierarchyBoundingVectors(true);
+  root.position.subtractInPlace(new BABYLON.Vector3((min.x + max.x) / 2, min.y + 0.5, (min.z + max.z) / 2));
+
+  // Vertex positions in block space (root still at the origin, unparented)
+  const points: Vec3[] = [];
+  for (const mesh of root.getChildMeshes(false).concat(root)) {
+    const positions = mesh.getVerticesData(BABYLON.VertexBuffer.PositionKind);
+    if (!positions) continue;
+    const world = mesh.computeWorldMatrix(true);
+    for (let i = 0; i < positions.length; i += 3) {
+      const v = BABYLON.Vector3.TransformCoordinates(new BABYLON.Vector3(positions[i], positions[i + 1], positions[i + 2]), world);
+      points.push({ x: v.x, y: v.y, z: v.z });
+    }
+    mesh.isPickable = false;
+  }
+
+  root.parent = placeholder;
+  placeholder.visibility = 0;
+
+  const body = block.body;
+  if (!body) return;
+  while (body.shapes.length > 0) body.removeShape(body.shapes[0]);
+  PlayPhysics.addColliderShapes(body, scaleCollider(computeModelCollider(points, collider), scale));
+}
+
 export function createBlock(
   params: CreateBlockParams,
   deps: { scene: BABYLON.Scene; world: CannonWorld; dynamicMaterial?: CannonMaterial }
 ): Block {
-  const { type, position, id, rotationYDeg, rotationXDeg, rotationZDeg, uniformScale, color, textures } = params;
+  const { type, position, id, rotationYDeg, rotationXDeg, rotationZDeg, uniformScale, color, textures, assetId, collider } = params;
   const { scene, world, dynamicMaterial } = deps;
 
   let mesh: BABYLON.Mesh;
@@ -302,6 +354,15 @@ export function createBlock(
     (material as BABYLON.PBRMaterial).environmentIntensity = 0.8;
     (material as BABYLON.PBRMaterial).enableSpecularAntiAliasing = true;
     shape = new (CANNON as any).Box(new (CANNON as any).Vec3(0.5 * scale, 0.1 * scale, 0.5 * scale));
+  } else if (type === 'model') {
+    // Uploaded model: translucent placeholder until the GLB has loaded
+    mesh = BABYLON.MeshBuilder.CreateBox('block', { size: 1 }, scene);
+    material = new BABYLON.PBRMaterial('material', scene);
+    (material as BABYLON.PBRMaterial).albedoColor = new BABYLON.Color3(0.58, 0.64, 0.72); // #94a3b8
+    (material as BABYLON.PBRMaterial).alpha = 0.4;
+    (material as BABYLON.PBRMaterial).metallic = 0.0;
+    (material as BABYLON.PBRMaterial).roughness = 0.8;
+    shape = new CANNON.Box(new CANNON.Vec3(0.5 * scale, 0.5 * scale, 0.5 * scale));
   } else {
     // Fence
     mesh = BABYLON.MeshBuilder.CreateBox('block', { width: 1.4, height: 1, depth: 0.06 }, scene);
@@ -419,6 +480,14 @@ export function createBlock(
     body,
   };
 
+  if (type === 'model') {
+    block.assetId = assetId;
+    block.collider = collider ?? 'box';
+    // The placeholder color is not a block color
+    block.color = undefined;
+    if (assetId) void attachModel(block, assetId, block.collider, scale, scene);
+  }
+
   return block;
 }
 
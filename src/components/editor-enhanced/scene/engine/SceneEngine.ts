@@ -5,6 +5,8 @@ import '@babylonjs/core/Lights/Shadows/cascadedShadowGenerator';
 import '@babylonjs/core/PostProcesses/RenderPipeline/Pipelines/defaultRenderingPipeline';
 import '@babylonjs/core/Rendering/edgesRenderer';
 import TextureCache from '../blocks/textureCache';
+import type { RenderSettings } from '@/types/editor';
+import { createRenderSettingsController } from './renderSettings';
 
 export type CameraMode = 'orbit' | 'play' | 'ortho';
 export type QualityMode = 'performance' | 'balanced' | 'quality';
@@ -14,6 +16,8 @@ export function createSceneEngine(params: {
   cameraMode: CameraMode;
   qualityMode?: QualityMode;
   autoStartRenderLoop?: boolean; // if false, the caller controls the render loop
+  renderSettings?: RenderSettings; // graphics options; replaces the built-in quality tuning
+  adaptiveQuality?: boolean; // scale renderSettings down while frames miss the target rate
 }) {
   // Create canvas element
   const canvas = document.createElement('canvas');
@@ -241,8 +245,8 @@ export function createSceneEngine(params: {
     pipeline.sharpen.colorAmount = 0.5;
   }
 
-  // Adaptive performance controller for High quality
-  if (qualityMode === 'quality') {
+  // Adaptive performance controller for High quality (built-in tuning, unless graphics options take over)
+  if (qualityMode === 'quality' && !params.renderSettings) {
     const minHardwareScale = 0.6; // Allow more supersampling when FPS is high
     const maxHardwareScale = 1.0; // Native resolution upper bound
     let currentHardwareScale = engine.getHardwareScalingLevel();
@@ -292,9 +296,9 @@ export function createSceneEngine(params: {
   optimizerOptions.addOptimization(new BABYLON.TextureOptimization(2, 1024));
   
   // Apply optimizer in balanced/performance modes
+  let optimizerApplied = !!params.renderSettings;
   if (qualityMode !== 'quality') {
     // Only optimize when FPS drops
-    let optimizerApplied = false;
     scene.registerBeforeRender(() => {
       if (!optimizerApplied && engine.getFps() < 50) {
         BABYLON.SceneOptimizer.OptimizeAsync(scene, optimizerOptions);
@@ -303,6 +307,27 @@ export function createSceneEngine(params: {
     });
   }
 
+  // Graphics options applied live on top of the quality mode's pipeline
+  const renderSettings = createRenderSettingsController({
+    engine,
+    scene,
+    cameras: () => [scene.activeCamera ?? camera],
+    pipeline,
+    shadowGenerator,
+  });
+  const applyRenderSettings = (settings: RenderSettings, adaptive = params.adaptiveQuality ?? false) => {
+    // The settings own pipeline, shadows and resolution from here on
+    if (adaptiveControllerIntervalId !== null) {
+      window.clearInterval(adaptiveControllerIntervalId);
+      adaptiveControllerIntervalId = null;
+    }
+    optimizerApplied = true;
+    renderSettings.apply(settings, adaptive);
+  };
+  if (params.renderSettings) {
+    applyRenderSettings(params.renderSettings);
+  }
+
   // Handle window resize
   const handleResize = () => {
     engine.resize();
@@ -311,6 +336,7 @@ export function createSceneEngine(params: {
 
   // Start render loop (can be disabled by caller)
   const renderLoopFn = () => {
+    if (!renderSettings.shouldRender(performance.now())) return;
     scene.render();
   };
   if (params.autoStartRenderLoop !== false) {
@@ -327,6 +353,11 @@ export function createSceneEngine(params: {
       // Remove resize listener
       window.removeEventListener('resize', handleResize);
 
+      if (adaptiveControllerIntervalId !== null) {
+        window.clearInterval(adaptiveControllerIntervalId);
+      }
+      renderSettings.dispose();
+
       // Dispose pipeline
       if (pipeline) {
         pipeline.dispose();
@@ -390,6 +421,7 @@ export function createSceneEngine(params: {
     engine, // Also expose Babylon engine
     shadowGenerator,
     pipeline,
+    applyRenderSettings,
     dispose 
   } as const;
 }
\ No newline at end of file
@@ -19,8 +19,12 @@ export function startEngineLoop(params: {
   let deltaTime = 0;
   let lastTime = performance.now();
   
-  const targetFps = (window as any).__scene_targetFps ?? 60;
-  const frameInterval = 1 / Math.max(1, Math.min(120, targetFps));
+  // Graphics options set the scene's target rate; re-read every frame so changes apply live
+  const frameInterval = () => {
+    const sceneTarget = (params.scene as BABYLON.Scene & { __targetFrameRate?: number }).__targetFrameRate;
+    const targetFps = sceneTarget ?? (window as Window & { __scene_targetFps?: number }).__scene_targetFps ?? 60;
+    return 1 / Math.max(1, Math.min(144, targetFps));
+  };
 
   // Distance culling settings
   const maxDistance = (window as any).__scene_maxDistance ?? 250;
@@ -66,7 +70,7 @@ export function startEngineLoop(params: {
 
     // Throttling
     const now = currentTime / 1000; // Convert to seconds
-    if (now - lastRenderTime < frameInterval) {
+    if (now - lastRenderTime < frameInterval()) {
       return; // Skip this frame's render work
     }
     lastRenderTime = now;
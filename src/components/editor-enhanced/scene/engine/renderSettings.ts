@@ -0,0 +1,202 @@
+import * as BABYLON from '@babylonjs/core';
+import type { RenderSettings } from '@/types/editor';
+import {
+  createAdaptiveQuality,
+  degradeRenderSettings,
+  qualityModeFor,
+  type EffectiveRenderSettings,
+} from '@/features/graphics/renderSettings';
+import TextureCache from '../blocks/textureCache';
+import { setLODDistanceScale } from '../optimization/lodManager';
+
+// Pipeline features vary by Babylon build and GPU; a missing one just stays off
+const attempt = (fn: () => void) => {
+  try { fn(); } catch { /* unsupported here */ }
+};
+
+export interface RenderSettingsTarget {
+  engine: BABYLON.Engine;
+  scene: BABYLON.Scene;
+  cameras: () => BABYLON.Camera[];
+  pipeline: BABYLON.DefaultRenderingPipeline | null;
+  shadowGenerator: BABYLON.ShadowGenerator | null;
+}
+
+/**
+ * Maps RenderSettings onto a live Babylon scene: MSAA/FXAA/bloom on the
+ * default pipeline, SSAO and motion blur as on-demand pipelines, shadow map
+ * size, LOD distance and render resolution. With adaptive mode on it watches
+ * the CPU/GPU cost of each frame and steps quality down (and back up) around
+ * the target rate.
+ */
+export function createRenderSettingsController(target: RenderSettingsTarget) {
+  const { engine, scene } = target;
+  let pipeline = target.pipeline;
+  let ownsPipeline = false;
+  let ssao: BABYLON.SSAO2RenderingPipeline | null = null;
+  let motionBlur: BABYLON.MotionBlurPostProcess | null = null;
+  let settings: RenderSettings | null = null;
+  let adaptive = false;
+  let lastRender = 0;
+  let renderStart = 0;
+  let gpuTimer: BABYLON.EngineInstrumentation | null = null;
+  const tuner = createAdaptiveQuality({ targetFrameRate: 60 });
+
+  const ensurePipeline = () => {
+    if (pipeline) return pipeline;
+    try {
+      pipeline = new BABYLON.DefaultRenderingPipeline('renderSettingsPipeline', true, scene, target.cameras());
+      ownsPipeline = true;
+    } catch {
+      pipeline = null;
+    }
+    return pipeline;
+  };
+
+  const setSSAO = (enabled: boolean) => {
+    if (enabled && !ssao) {
+      try {
+        ssao = new BABYLON.SSAO2RenderingPipeline('renderSettingsSSAO', scene, { ssaoRatio: 0.5, blurRatio: 1 }, target.cameras());
+        ssao.radius = 1.5;
+        ssao.totalStrength = 1.1;
+        ssao.samples = 16;
+      } catch {
+        ssao = null;
+      }
+    } else if (!enabled && ssao) {
+      const current = ssao;
+      attempt(() => current.dispose());
+      ssao = null;
+    }
+  };
+
+  const setMotionBlur = (enabled: boolean) => {
+    const camera = scene.activeCamera ?? target.cameras()[0];
+    if (enabled && !motionBlur && camera) {
+      try {
+        motionBlur = new BABYLON.MotionBlurPostProcess('renderSettingsMotionBlur', scene, 1.0, camera);
+        motionBlur.motionStrength = 0.6;
+        motionBlur.motionBlurSamples = 16;
+      } catch {
+        motionBlur = null;
+      }
+    } else if (!enabled && motionBlur) {
+      const current = motionBlur;
+      attempt(() => current.dispose());
+      motionBlur = null;
+    }
+  };
+
+  const commit = (effective: EffectiveRenderSettings) => {
+    const s = effective.settings;
+    const post = s.postProcessing;
+
+    attempt(() => { engine.setHardwareScalingLevel(effective.hardwareScaling); });
+
+    const p = post || s.antialiasing > 1 ? ensurePipeline() : pipeline;
+    if (p) {
+      attempt(() => { p.samples = s.antialiasing; });
+      attempt(() => { p.fxaaEnabled = post && s.fxaa; });
+      attempt(() => { p.bloomEnabled = post && s.bloom; });
+      attempt(() => { p.imageProcessingEnabled = post; });
+      attempt(() => { p.sharpenEnabled = post; });
+    }
+    setSSAO(post && s.ssao);
+    setMotionBlur(post && s.motionBlur);
+
+    scene.shadowsEnabled = s.shadows;
+    const shadowGenerator = target.shadowGenerator;
+    if (shadowGenerator) {
+      attempt(() => {
+        const map = shadowGenerator.getShadowMap();
+        if (map && map.getSize().width !== s.shadowMapSize) map.resize(s.shadowMapSize);
+      });
+      attempt(() => { shadowGenerator.getLight().shadowEnabled = s.shadows; });
+    }
+
+    setLODDistanceScale(scene, effective.lodScale);
+
+    const mode = qualityModeFor(s.quality);
+    attempt(() => TextureCache.getInstance().setQuality({
+      sampling: mode === 'performance' ? BABYLON.Texture.BILINEAR_SAMPLINGMODE : BABYLON.Texture.TRILINEAR_SAMPLINGMODE,
+      anisotropy: mode === 'quality' ? 16 : (mode === 'balanced' ? 8 : 2),
+    }));
+    // Read by block/model creation for new meshes and by the render loops
+    Object.assign(scene, { __qualityMode: mode, __targetFrameRate: s.targetFrameRate });
+  };
+
+  const refresh = () => {
+    if (settings) commit(degradeRenderSettings(settings, adaptive ? tuner.level : 0));
+  };
+
+  // GPU time per frame where the browser exposes timer queries
+  const setGpuTimer = (enabled: boolean) => {
+    if (enabled && !gpuTimer && engine.getCaps().timerQuery) {
+      try {
+        gpuTimer = new BABYLON.EngineInstrumentation(engine);
+        gpuTimer.captureGPUFrameTime = true;
+      } catch {
+        gpuTimer = null;
+      }
+    } else if (!enabled && gpuTimer) {
+      const current = gpuTimer;
+      attempt(() => current.dispose());
+      gpuTimer = null;
+    }
+  };
+
+  // The tuner sees what a frame costs to draw, not the time between frames:
+  // those are held to the display's refresh rate (or the frame cap), which
+  // would read as slow against a target above it and never as fast enough
+  // to recover.
+  const beforeObserver = scene.onBeforeRenderObservable.add(() => {
+    renderStart = performance.now();
+  });
+  const observer = scene.onAfterRenderObservable.add(() => {
+    const now = performance.now();
+    lastRender = now;
+    if (!adaptive || !settings || !renderStart) return;
+    const cpuMs = now - renderStart;
+    const gpuMs = gpuTimer ? gpuTimer.gpuFrameTimeCounter.current * 1e-6 : 0;
+    if (tuner.sample(Math.max(cpuMs, gpuMs)) !== null) refresh();
+  });
+
+  const apply = (next: RenderSettings, nextAdaptive = adaptive) => {
+    if (!settings || next.targetFrameRate !== settings.targetFrameRate || nextAdaptive !== adaptive) {
+      tuner.reset(next.targetFrameRate);
+    }
+    settings = next;
+    adaptive = nextAdaptive;
+    setGpuTimer(adaptive);
+    refresh();
+  };
+
+  /** True once a frame interval has passed at the current target rate. */
+  const shouldRender = (now: number) => {
+    const fps = settings?.targetFrameRate ?? 0;
+    if (!fps) return true;
+    return now - lastRender >= 1000 / fps - 1;
+  };
+
+  const dispose = () => {
+    attempt(() => { scene.onBeforeRenderObservable.remove(beforeObserver); });
+    attempt(() => { scene.onAfterRenderObservable.remove(observer); });
+    setGpuTimer(false);
+    setSSAO(false);
+    setMotionBlur(false);
+    if (ownsPipeline && pipeline) {
+      const owned = pipeline;
+      attempt(() => owned.dispose());
+    }
+    pipeline = null;
+  };
+
+  return {
+    apply,
+    shouldRender,
+    dispose,
+    get level() { return adaptive ? tuner.level : 0; },
+  };
+}
+
+export type RenderSettingsController = ReturnType<typeof createRenderSettingsController>;
@@ -39,6 +39,38 @@ const DEFAULT_LOD_CONFIG: Record<string, LODConfig> = {
   }
 };
 
+type LODLevel = { distance: number; mesh: BABYLON.Mesh | null };
+
+// Unscaled LOD levels per mesh and the current distance scale per scene, so
+// graphics settings can pull LOD switches closer without rebuilding meshes
+const baseLevels = new WeakMap<BABYLON.Mesh, LODLevel[]>();
+const sceneScales = new WeakMap<BABYLON.Scene, number>();
+
+/** Adds LOD levels at the scene's current distance scale and remembers them for rescaling. */
+export function addScaledLODLevels(mesh: BABYLON.Mesh, levels: LODLevel[]): void {
+  const scale = sceneScales.get(mesh.getScene()) ?? 1;
+  baseLevels.set(mesh, [...(baseLevels.get(mesh) || []), ...levels]);
+  for (const level of levels) {
+    mesh.addLODLevel(level.distance * scale, level.mesh);
+  }
+}
+
+/** Rescales every registered LOD switch distance in the scene (1 = as authored). */
+export function setLODDistanceScale(scene: BABYLON.Scene, scale: number): void {
+  const next = Math.max(0.1, scale);
+  if ((sceneScales.get(scene) ?? 1) === next) return;
+  sceneScales.set(scene, next);
+  for (const mesh of scene.meshes) {
+    if (!(mesh instanceof BABYLON.Mesh)) continue;
+    const levels = baseLevels.get(mesh);
+    if (!levels) continue;
+    try {
+      for (const level of levels) mesh.removeLODLevel(level.mesh);
+      for (const level of levels) mesh.addLODLevel(level.distance * next, level.mesh);
+    } catch { /* mesh disposed mid-update */ }
+  }
+}
+
 export function setupMeshLOD(
   mesh: BABYLON.Mesh,
   blockType: string,
@@ -56,26 +88,27 @@ export function setupMeshLOD(
   }
 
   try {
-    // Add LOD levels
+    const levels: LODLevel[] = [];
     for (let i = 0; i < config.reductions.length; i++) {
       const reduction = config.reductions[i];
       const distance = adjustedDistances[i];
       
       if (reduction === 0) {
         // Use original mesh at this distance
-        mesh.addLODLevel(distance, mesh);
+        levels.push({ distance, mesh });
       } else {
         // Create simplified mesh
         const lodMesh = createSimplifiedMesh(mesh, reduction);
         if (lodMesh) {
-          mesh.addLODLevel(distance, lodMesh);
+          levels.push({ distance, mesh: lodMesh });
         }
       }
     }
     
     // Add null LOD for very far distances
     const maxDistance = adjustedDistances[adjustedDistances.length - 1] * 1.5;
-    mesh.addLODLevel(maxDistance, null);
+    levels.push({ distance: maxDistance, mesh: null });
+    addScaledLODLevels(mesh, levels);
   } catch (error) {
     console.warn('Failed to setup LOD for mesh:', error);
   }
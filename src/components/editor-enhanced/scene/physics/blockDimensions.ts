@@ -20,7 +20,8 @@ export type BlockType =
   | 'start'
   | 'checkpoint'
   | 'finish'
-  | 'hazard';
+  | 'hazard'
+  | 'model';
 
 export type Dimensions = { x: number; y: number; z: number };
 
@@ -47,10 +48,11 @@ const dims: Record<BlockType, Dimensions> = {
   checkpoint: { x: 1.6, y: 0.2, z: 1.6 },
   finish: { x: 1.6, y: 0.2, z: 1.6 },
   hazard: { x: 1, y: 0.2, z: 1 },
+  model: { x: 1, y: 1, z: 1 }, // placeholder box until the GLB has loaded
 };
 
 export function getBlockDimensions(type: BlockType, scale = 1): Dimensions {
-  const d = dims[type];
+  const d = dims[type] ?? dims.cube;
   return { x: d.x * scale, y: d.y * scale, z: d.z * scale };
 }
 
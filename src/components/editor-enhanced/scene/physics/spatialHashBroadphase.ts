@@ -0,0 +1,56 @@
+import * as CANNON from 'cannon-es';
+import { SpatialIndex, type Vec3Like } from '@/features/spatial/spatialIndex';
+import type { CannonBody, CannonWorld } from './types';
+
+const isAwakeDynamic = (body: CannonBody) => body.type !== CANNON.Body.STATIC && body.sleepState !== CANNON.Body.SLEEPING;
+
+/**
+ * Broadphase over the shared spatial hash. Bodies stay in the hash between
+ * steps (static blocks never move, so re-registering them is a no-op), and
+ * each awake non-static body is only tested against bodies in its cells,
+ * instead of every pair (Naive) or every overlap along one axis (SAP).
+ */
+export class SpatialHashBroadphase extends CANNON.Broadphase {
+  private index = new SpatialIndex<CannonBody>();
+
+  collisionPairs(world: CannonWorld, pairs1: CannonBody[], pairs2: CannonBody[]): void {
+    const awake = this.refresh(world);
+    for (const body of awake) {
+      for (const other of this.index.queryBox(body.aabb.lowerBound, body.aabb.upperBound)) {
+        // Pairs of two awake bodies are found from both sides: keep one
+        if (other === body || (isAwakeDynamic(other) && other.id < body.id)) continue;
+        if (!this.needBroadphaseCollision(body, other)) continue;
+        this.intersectionTest(body, other, pairs1, pairs2);
+      }
+    }
+  }
+
+  aabbQuery(world: CannonWorld, aabb: CANNON.AABB, result: CannonBody[] = []): CannonBody[] {
+    this.refresh(world);
+    result.push(...this.index.queryBox(aabb.lowerBound, aabb.upperBound));
+    return result;
+  }
+
+  /** Bodies whose AABB overlaps the box, without building a CANNON.AABB. */
+  queryBounds(world: CannonWorld, min: Vec3Like, max: Vec3Like): CannonBody[] {
+    this.refresh(world);
+    return this.index.queryBox(min, max);
+  }
+
+  // Sync the hash with the world's bodies; returns the awake non-static ones
+  private refresh(world: CannonWorld): CannonBody[] {
+    const awake: CannonBody[] = [];
+    for (const body of world.bodies) {
+      if (body.aabbNeedsUpdate) body.updateAABB();
+      this.index.set(String(body.id), { min: body.aabb.lowerBound, max: body.aabb.upperBound }, body);
+      if (isAwakeDynamic(body)) awake.push(body);
+    }
+    if (this.index.size !== world.bodies.length) {
+      const live = new Set(world.bodies.map(body => String(body.id)));
+      for (const id of this.index.ids()) {
+        if (!live.has(id)) this.index.remove(id);
+      }
+    }
+    return awake;
+  }
+}
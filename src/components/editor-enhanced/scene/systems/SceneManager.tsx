@@ -1,11 +1,16 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { EditEngine } from './edit/EditEngine';
 import { PlayEngine } from './play/PlayEngine';
+import { MultiplayerSession } from './play/MultiplayerSession';
 import { useEditState } from './edit/EditState';
 import { usePlayState } from './play/PlayState';
-import { useProjectStore } from '@/features/projects/stores';
+import { useProjectStore, useProjectStoreBase, useLogicStore, useAnimationStore } from '@/features/projects/stores';
 import { usePlayerSettingsStore } from '@/features/player/store';
+import { useRenderSettingsStore } from '@/features/graphics/store';
+import { QUALITY_PRESETS } from '@/features/graphics/renderSettings';
 import type { Block } from '@/types';
+import type { LogicTrigger } from '@/types/project';
+import type { AnimationClip } from '@/types/editor';
 import type { RenderableBlock } from './shared/Renderer';
 import { createBlock, disposeBlock } from './shared/BlockFactory';
 
@@ -19,7 +24,10 @@ export interface SceneManagerProps {
   onCheckpoint?: (checkpoint: number) => void;
   onHazard?: () => void;
   blocks?: Block[]; // external blocks source (e.g., Play page)
-  quality?: 'low' | 'medium' | 'high';
+  logic?: LogicTrigger[]; // external level logic, paired with `blocks`
+  animations?: AnimationClip[]; // external animation clips, paired with `blocks`
+  quality?: 'low' | 'medium' | 'high'; // fixed preset instead of the player's graphics options
+  multiplayerGameId?: string; // join this game's server-simulated session while playing
 }
 
 export const SceneManager: React.FC<SceneManagerProps> = ({
@@ -32,7 +40,10 @@ export const SceneManager: React.FC<SceneManagerProps> = ({
   onCheckpoint,
   onHazard,
   blocks,
+  logic,
+  animations,
   quality,
+  multiplayerGameId,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const mountRef = useRef<HTMLDivElement>(null);
@@ -45,9 +56,15 @@ export const SceneManager: React.FC<SceneManagerProps> = ({
   const editState = useEditState();
   const playState = usePlayState();
   const projectStore = useProjectStore();
+  const storeTriggers = useLogicStore(s => s.triggers);
+  const storeClips = useAnimationStore(s => s.clips);
+  const gameMode = useProjectStoreBase(s => s.gameMode) || 'PARKOUR';
+  const gameModeConfig = useProjectStoreBase(s => s.gameModeConfig) || null;
   const skinId = usePlayerSettingsStore(s => s.skinId);
   const skinColors = usePlayerSettingsStore(s => s.colors);
   const skinConfig = usePlayerSettingsStore(s => (s as any).config);
+  const renderSettings = useRenderSettingsStore(s => s.settings);
+  const adaptiveQuality = useRenderSettingsStore(s => s.adaptive);
   
   // Initialize engines
   useEffect(() => {
@@ -86,8 +103,17 @@ export const SceneManager: React.FC<SceneManagerProps> = ({
       onHazard: () => {
         onHazard?.();
       },
-      gameMode: (projectStore as any).gameMode || 'PARKOUR',
-      gameModeConfig: (projectStore as any).gameModeConfig || null,
+      onLap: (lap, totalLaps) => {
+        usePlayState.getState().updateGameStats({ lap, totalLaps });
+      },
+      onHealthChange: (health) => {
+        usePlayState.getState().updatePlayerStats({ health });
+      },
+      onEliminated: () => {
+        usePlayState.getState().incrementDeaths();
+      },
+      gameMode,
+      gameModeConfig,
       skinId,
       skinColors,
       skinConfig,
@@ -110,6 +136,11 @@ export const SceneManager: React.FC<SceneManagerProps> = ({
     };
   }, []);
   
+  // Keep the play engine's game mode in sync with project settings
+  useEffect(() => {
+    playEngineRef.current?.setGameMode(gameMode, gameModeConfig);
+  }, [gameMode, gameModeConfig]);
+  
   // Handle mode switching
   useEffect(() => {
     if (currentModeRef.current === mode) return;
@@ -220,12 +251,28 @@ export const SceneManager: React.FC<SceneManagerProps> = ({
     }
   }, [blocks, mode]);
 
-  // Apply quality setting when provided
+  // Load level logic for play/preview; building runs without it
   useEffect(() => {
-    if (!quality) return;
-    editEngineRef.current?.setRenderingQuality(quality);
-    playEngineRef.current?.setRenderingQuality(quality);
-  }, [quality]);
+    const engine = playEngineRef.current;
+    if (!engine) return;
+    engine.setLogic(mode === 'build' ? [] : (logic ?? storeTriggers));
+  }, [mode, blocks, logic, storeTriggers]);
+
+  // Animated platforms only move in play/preview; build mode shows authored poses
+  useEffect(() => {
+    const engine = playEngineRef.current;
+    if (!engine) return;
+    engine.setAnimations(mode === 'build' ? [] : (animations ?? storeClips));
+  }, [mode, blocks, animations, storeClips]);
+
+  // Apply graphics options live to both engines (a quality prop pins a preset)
+  useEffect(() => {
+    const settings = quality
+      ? { ...QUALITY_PRESETS[quality], targetFrameRate: renderSettings.targetFrameRate }
+      : renderSettings;
+    editEngineRef.current?.applyRenderSettings(settings, adaptiveQuality);
+    playEngineRef.current?.applyRenderSettings(settings, adaptiveQuality);
+  }, [quality, renderSettings, adaptiveQuality]);
 
   // When switching to play mode or when blocks change in play, run static optimization post-build
   useEffect(() => {
@@ -363,15 +410,12 @@ export const SceneManager: React.FC<SceneManagerProps> = ({
     const playEngine = playEngineRef.current;
     if (!playEngine) return;
     
-    // Update render quality
-    playEngine.setRenderingQuality(playState.renderQuality);
-    
     // Update camera mode
     const camera = playEngine.getCamera();
     if (camera) {
       camera.setMode(playState.cameraMode);
     }
-  }, [playState.renderQuality, playState.cameraMode, mode]);
+  }, [playState.cameraMode, mode]);
 
   // Sync player skin with global player settings store (live in play/preview)
   useEffect(() => {
@@ -422,6 +466,10 @@ export const SceneManager: React.FC<SceneManagerProps> = ({
         style={{ touchAction: 'none' }}
       />
       
+      {mode === 'play' && multiplayerGameId && (
+        <MultiplayerSession gameId={multiplayerGameId} engineRef={playEngineRef} />
+      )}
+
       {/* Mode indicator */}
       <div className="absolute top-4 left-4 px-3 py-1 bg-black/50 text-white text-sm rounded">
         {mode === 'build' ? 'Build Mode' : mode === 'play' ? 'Play Mode' : 'Preview Mode'}
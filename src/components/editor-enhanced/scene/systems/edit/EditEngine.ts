@@ -5,8 +5,13 @@ import { EditPhysics } from './EditPhysics';
 import { EditCamera } from './EditCamera';
 import { getBlockDimensions } from '@/components/editor-enhanced/scene/physics/blockDimensions';
 import type { Block } from '@/types';
+import type { RenderSettings } from '@/types/editor';
 import { useProjectStore } from '@/features/projects/stores';
 import { useEditState } from './EditState';
+import { blockSpatialIndex } from '@/features/projects/stores/blocks.store';
+
+// Ground placements this close to a block line up with that block's grid
+const SNAP_TO_OBJECT_DISTANCE = 1.5;
 
 export interface EditEngineConfig {
   canvas: HTMLCanvasElement;
@@ -25,6 +30,7 @@ export class EditEngine {
   private physics: EditPhysics;
   private camera: EditCamera;
   private blocks: RenderableBlock[] = [];
+  private blockByMesh = new Map<BABYLON.AbstractMesh, RenderableBlock>();
   private isRunning = false;
   private animationFrameId: number | null = null;
   
@@ -228,7 +234,7 @@ export class EditEngine {
     }
     
     // Find the block associated with this mesh
-    const block = this.blocks.find(b => b.mesh === mesh);
+    const block = this.blockByMesh.get(mesh);
     this.setHoveredBlock(block || null);
   }
   
@@ -253,10 +259,11 @@ export class EditEngine {
       const pos = pickResult.pickedPoint.clone();
 
       // If hit ground, place sitting on ground height. If hit a block, place adjacent using face normal
+      let hitRenderable: RenderableBlock | undefined;
       if (this.terrainGround && pickResult.pickedMesh === this.terrainGround) {
         pos.y = pickResult.pickedPoint.y + dims.y / 2;
       } else {
-        const hitRenderable = this.blocks.find(b => b.mesh === pickResult.pickedMesh);
+        hitRenderable = pickResult.pickedMesh ? this.blockByMesh.get(pickResult.pickedMesh) : undefined;
         if (hitRenderable) {
           const hitScale = (hitRenderable.block.scale && typeof hitRenderable.block.scale === 'object')
             ? hitRenderable.block.scale
@@ -298,10 +305,15 @@ export class EditEngine {
         }
       }
 
-      // Always snap to a 1-unit grid (no half tiles)
-      pos.x = Math.round(pos.x);
+      // Snap to a 1-unit grid (no half tiles), aligned with the block built
+      // against (or the nearest one) so off-grid builds still line up
+      const anchorPosition = hitRenderable?.block.position
+        ?? blockSpatialIndex.nearest(pos, SNAP_TO_OBJECT_DISTANCE)?.value.position;
+      const offsetX = anchorPosition ? anchorPosition.x - Math.round(anchorPosition.x) : 0;
+      const offsetZ = anchorPosition ? anchorPosition.z - Math.round(anchorPosition.z) : 0;
+      pos.x = Math.round(pos.x - offsetX) + offsetX;
       pos.y = Math.round(pos.y * 2) / 2; // allow 0.5 steps vertically so stacked heights remain correct
-      pos.z = Math.round(pos.z);
+      pos.z = Math.round(pos.z - offsetZ) + offsetZ;
 
       // Validate against existing block bodies to prevent overlap
       const canPlace = this.physics.checkPlacementCollision(
@@ -340,7 +352,7 @@ export class EditEngine {
     }
     
     // Find the block associated with this mesh
-    const block = this.blocks.find(b => b.mesh === mesh);
+    const block = this.blockByMesh.get(mesh);
     const ev = (pointerInfo.event as PointerEvent | undefined);
     const isMultiKey = !!(ev && (ev.ctrlKey || ev.metaKey || ev.shiftKey));
 
@@ -468,6 +480,8 @@ export class EditEngine {
     this.blocks.push(block);
     this.renderer.addBlock(block);
     
+    if (block.mesh) this.blockByMesh.set(block.mesh, block);
+    
     // Add physics body for placement validation
     if (block.body) {
       this.physics.addBody(block.body);
@@ -479,6 +493,7 @@ export class EditEngine {
     if (index > -1) {
       this.blocks.splice(index, 1);
       this.renderer.removeBlock(block);
+      if (block.mesh) this.blockByMesh.delete(block.mesh);
       
       // Remove physics body
       if (block.body) {
@@ -584,6 +599,11 @@ export class EditEngine {
     this.sceneCore.setRenderingQuality(quality);
   }
 
+  public applyRenderSettings(settings: RenderSettings, adaptive: boolean): void {
+    this.sceneCore.applyRenderSettings(settings, adaptive);
+    this.renderer.updateConfig({ targetFps: settings.targetFrameRate });
+  }
+
   // --- Multi-select helpers ---
   private clearMultiSelection(): void {
     if (this.selectedBlocks.size === 0) return;
@@ -1,5 +1,6 @@
 import * as CANNON from 'cannon-es';
 import type { CannonBody, CannonWorld } from '../../physics/types';
+import { SpatialHashBroadphase } from '../../physics/spatialHashBroadphase';
 
 /**
  * Simplified physics system for edit mode.
@@ -9,6 +10,7 @@ import type { CannonBody, CannonWorld } from '../../physics/types';
 export class EditPhysics {
   private world: CannonWorld;
   private bodies: Set<CannonBody> = new Set();
+  private broadphase = new SpatialHashBroadphase();
   
   constructor() {
     // Create physics world with no gravity (edit mode doesn't need it)
@@ -16,7 +18,7 @@ export class EditPhysics {
     this.world.gravity.set(0, 0, 0);
     
     // Disable continuous collision detection for better performance
-    this.world.broadphase = new CANNON.NaiveBroadphase();
+    this.world.broadphase = this.broadphase;
     (this.world.solver as CANNON.GSSolver).iterations = 2; // Minimal iterations
   }
   
@@ -58,15 +60,14 @@ export class EditPhysics {
       type: CANNON.Body.STATIC,
     }) as CannonBody;
     
-    // Check for overlaps
-    let hasCollision = false;
-    
-    for (const body of this.bodies) {
-      if (this.checkBodyOverlap(tempBody, body)) {
-        hasCollision = true;
-        break;
-      }
-    }
+    // Check for overlaps among the bodies near the new block
+    const half = { x: size.x / 2, y: size.y / 2, z: size.z / 2 };
+    const nearby = this.broadphase.queryBounds(
+      this.world,
+      { x: position.x - half.x, y: position.y - half.y, z: position.z - half.z },
+      { x: position.x + half.x, y: position.y + half.y, z: position.z + half.z }
+    );
+    const hasCollision = nearby.some(body => this.bodies.has(body) && this.checkBodyOverlap(tempBody, body));
     
     return !hasCollision;
   }
@@ -80,7 +81,8 @@ export class EditPhysics {
   ): CannonBody[] {
     const result: CannonBody[] = [];
     
-    for (const body of this.bodies) {
+    for (const body of this.broadphase.queryBounds(this.world, min, max)) {
+      if (!this.bodies.has(body)) continue;
       const pos = body.position;
       const shape = body.shapes[0];
       
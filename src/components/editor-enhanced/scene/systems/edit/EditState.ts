@@ -1,6 +1,20 @@
 import { create } from 'zustand';
 import type { Block } from '../../../../../types';
 import type { RenderableBlock } from '../shared/Renderer';
+import type { TerrainDelta, TerrainDeltaDirection } from '@/features/terrain/terrainDelta';
+import { mergeFields, type PendingBlockOperation } from '@/features/collab/blockSync';
+
+// Blocks after each step; a terrain stroke step keeps the blocks and carries the stroke
+export interface EditHistoryEntry {
+  blocks: Block[];
+  terrain?: TerrainDelta;
+}
+
+// Terrain change undo/redo leaves for the caller to apply to the ground
+export interface EditHistoryStep {
+  delta: TerrainDelta;
+  direction: TerrainDeltaDirection;
+}
 
 export interface EditState {
   // Project
@@ -31,7 +45,7 @@ export interface EditState {
   cameraMode: 'orbit' | 'free' | 'ortho';
   
   // History
-  history: Block[][];
+  history: EditHistoryEntry[];
   historyIndex: number;
   maxHistorySize: number;
   
@@ -51,6 +65,7 @@ export interface EditState {
   pasteBlock: (position: { x: number; y: number; z: number }) => void;
   clearBlocks: () => void;
   loadBlocks: (blocks: Block[]) => void;
+  applyBlockOperations: (ops: Omit<PendingBlockOperation, 'opId'>[]) => void;
   
   // Tool actions
   setCurrentTool: (tool: EditState['currentTool']) => void;
@@ -68,9 +83,10 @@ export interface EditState {
   setCameraMode: (mode: EditState['cameraMode']) => void;
   
   // History actions
-  undo: () => void;
-  redo: () => void;
+  undo: () => EditHistoryStep | null;
+  redo: () => EditHistoryStep | null;
   pushHistory: () => void;
+  pushTerrainStroke: (delta: TerrainDelta) => void;
 }
 
 export const useEditState = create<EditState>((set, get) => ({
@@ -97,7 +113,7 @@ export const useEditState = create<EditState>((set, get) => ({
   
   cameraMode: 'orbit',
   
-  history: [[]],
+  history: [{ blocks: [] }],
   historyIndex: 0,
   maxHistorySize: 50,
   
@@ -176,11 +192,32 @@ export const useEditState = create<EditState>((set, get) => ({
       selectedBlockIds: [],
       hoveredBlockId: null,
       isDirty: false,
-      history: [blocks],
+      history: [{ blocks }],
       historyIndex: 0,
     });
   },
   
+  // Edits arriving from a shared session: blocks change in place, so the
+  // selection (minus deleted blocks) and the local history survive
+  applyBlockOperations: (ops) => {
+    if (ops.length === 0) return;
+    set((state) => {
+      const byId = new Map(state.blocks.map(b => [b.id, b]));
+      for (const op of ops) {
+        const current = byId.get(op.blockId);
+        if (op.operation === 'delete') byId.delete(op.blockId);
+        else if (op.operation === 'add' || current) byId.set(op.blockId, { ...mergeFields(current || {}, op.blockData), id: op.blockId } as Block);
+      }
+      const selectedBlockIds = state.selectedBlockIds.filter(id => byId.has(id));
+      return {
+        blocks: Array.from(byId.values()),
+        selectedBlockId: state.selectedBlockId && byId.has(state.selectedBlockId) ? state.selectedBlockId : null,
+        selectedBlockIds,
+        hoveredBlockId: state.hoveredBlockId && byId.has(state.hoveredBlockId) ? state.hoveredBlockId : null,
+      };
+    });
+  },
+  
   // Tool actions
   setCurrentTool: (tool) => set({ currentTool: tool }),
   setCurrentBlockType: (type) => set({ currentBlockType: type }),
@@ -199,32 +236,41 @@ export const useEditState = create<EditState>((set, get) => ({
   // History actions
   undo: () => {
     const { history, historyIndex } = get();
-    if (historyIndex > 0) {
-      const newIndex = historyIndex - 1;
-      set({
-        blocks: [...history[newIndex]],
-        historyIndex: newIndex,
-        isDirty: true,
-      });
-    }
+    if (historyIndex <= 0) return null;
+    const newIndex = historyIndex - 1;
+    const { terrain } = history[historyIndex];
+    set({
+      blocks: [...history[newIndex].blocks],
+      historyIndex: newIndex,
+      isDirty: true,
+    });
+    return terrain ? { delta: terrain, direction: 'undo' } : null;
   },
   
   redo: () => {
     const { history, historyIndex } = get();
-    if (historyIndex < history.length - 1) {
-      const newIndex = historyIndex + 1;
-      set({
-        blocks: [...history[newIndex]],
-        historyIndex: newIndex,
-        isDirty: true,
-      });
-    }
+    if (historyIndex >= history.length - 1) return null;
+    const newIndex = historyIndex + 1;
+    const { terrain } = history[newIndex];
+    set({
+      blocks: [...history[newIndex].blocks],
+      historyIndex: newIndex,
+      isDirty: true,
+    });
+    return terrain ? { delta: terrain, direction: 'redo' } : null;
   },
   
   pushHistory: () => {
     const { blocks, history, historyIndex, maxHistorySize } = get();
-    const newHistory = [...history.slice(0, historyIndex + 1), [...blocks]];
+    const newHistory = [...history.slice(0, historyIndex + 1), { blocks: [...blocks] }];
     if (newHistory.length > maxHistorySize) newHistory.shift();
     set({ history: newHistory, historyIndex: newHistory.length - 1 });
   },
+
+  pushTerrainStroke: (delta) => {
+    const { blocks, history, historyIndex, maxHistorySize } = get();
+    const newHistory = [...history.slice(0, historyIndex + 1), { blocks, terrain: delta }];
+    if (newHistory.length > maxHistorySize) newHistory.shift();
+    set({ history: newHistory, historyIndex: newHistory.length - 1, isDirty: true });
+  },
 }));
@@ -14,6 +14,7 @@ export { PlayEngine } from './play/PlayEngine';
 export { PlayPhysics } from './play/PlayPhysics';
 export { PlayCamera } from './play/PlayCamera';
 export { PlayerController } from './play/PlayerController';
+export { MultiplayerSession } from './play/MultiplayerSession';
 export { usePlayState } from './play/PlayState';
 export type { PlayState } from './play/PlayState';
 
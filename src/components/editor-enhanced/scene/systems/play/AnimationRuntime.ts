@@ -0,0 +1,160 @@
+import type { AnimationClip, AnimationKeyframe, AnimationTrack } from '../../../../../types/editor';
+
+type Vec3 = { x: number; y: number; z: number };
+
+/** Sampled transform for one block; rotation in degrees, missing parts are not animated. */
+export interface AnimatedPose {
+  position?: Vec3;
+  rotation?: Vec3;
+  scale?: Vec3;
+}
+
+const ANIMATED_PROPERTIES = ['position', 'rotation', 'scale'] as const;
+
+function toVec3(value: unknown): Vec3 | null {
+  if (typeof value === 'number') return { x: value, y: value, z: value };
+  if (value && typeof value === 'object') {
+    const v = value as Partial<Vec3>;
+    return { x: Number(v.x) || 0, y: Number(v.y) || 0, z: Number(v.z) || 0 };
+  }
+  return null;
+}
+
+function ease(t: number, easing: AnimationKeyframe['easing']): number {
+  switch (easing) {
+    case 'ease-in':
+      return t * t;
+    case 'ease-out':
+      return 1 - (1 - t) * (1 - t);
+    case 'ease-in-out':
+      return t * t * (3 - 2 * t);
+    default:
+      return t;
+  }
+}
+
+function catmullRom(p0: number, p1: number, p2: number, p3: number, t: number): number {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return 0.5 * ((2 * p1) + (-p0 + p2) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t2 + (-p0 + 3 * p1 - 3 * p2 + p3) * t3);
+}
+
+/**
+ * Sample a position/rotation/scale track at `time` (seconds).
+ * Times before the first or after the last keyframe hold the edge value.
+ */
+export function sampleTrack(track: AnimationTrack, time: number): Vec3 | null {
+  const frames = track.keyframes;
+  if (!frames || frames.length === 0) return null;
+  if (frames.length === 1 || time <= frames[0].time) return toVec3(frames[0].value);
+  const last = frames[frames.length - 1];
+  if (time >= last.time) return toVec3(last.value);
+
+  let i = 0;
+  while (i < frames.length - 2 && time >= frames[i + 1].time) i++;
+  const a = toVec3(frames[i].value);
+  const b = toVec3(frames[i + 1].value);
+  if (!a || !b) return a || b;
+  if (track.interpolation === 'step') return a;
+
+  const span = frames[i + 1].time - frames[i].time;
+  const t = ease(span > 0 ? (time - frames[i].time) / span : 1, frames[i].easing);
+  if (track.interpolation === 'cubic') {
+    const p0 = toVec3(frames[Math.max(0, i - 1)].value) || a;
+    const p3 = toVec3(frames[Math.min(frames.length - 1, i + 2)].value) || b;
+    return {
+      x: catmullRom(p0.x, a.x, b.x, p3.x, t),
+      y: catmullRom(p0.y, a.y, b.y, p3.y, t),
+      z: catmullRom(p0.z, a.z, b.z, p3.z, t),
+    };
+  }
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t };
+}
+
+/** Sample every transform track of a clip into per-block poses. */
+export function sampleClip(clip: AnimationClip, time: number, out: Map<string, AnimatedPose> = new Map()): Map<string, AnimatedPose> {
+  for (const track of clip.tracks) {
+    if (!(ANIMATED_PROPERTIES as readonly string[]).includes(track.property)) continue;
+    const value = sampleTrack(track, time);
+    if (!value) continue;
+    const pose = out.get(track.targetId) || {};
+    pose[track.property as typeof ANIMATED_PROPERTIES[number]] = value;
+    out.set(track.targetId, pose);
+  }
+  return out;
+}
+
+/**
+ * Clock for a set of clips during play. Auto-play clips start at t=0;
+ * the rest hold their first frame until started.
+ */
+export class AnimationRuntime {
+  private clips: AnimationClip[] = [];
+  private times = new Map<string, number>();
+  private playing = new Set<string>();
+
+  public load(clips: AnimationClip[]): void {
+    this.clips = (clips || []).filter(c => c && Array.isArray(c.tracks));
+    this.reset();
+  }
+
+  public reset(): void {
+    this.times.clear();
+    this.playing.clear();
+    for (const clip of this.clips) {
+      this.times.set(clip.id, 0);
+      if (clip.autoPlay) this.playing.add(clip.id);
+    }
+  }
+
+  public play(clipId: string): void {
+    if (this.times.has(clipId)) this.playing.add(clipId);
+  }
+
+  public stop(clipId: string): void {
+    this.playing.delete(clipId);
+  }
+
+  public hasAnimations(): boolean {
+    return this.clips.some(c => c.tracks.length > 0);
+  }
+
+  /** Block ids driven by any clip; their bodies become kinematic in play. */
+  public getTargetBlockIds(): Set<string> {
+    const ids = new Set<string>();
+    for (const clip of this.clips) {
+      for (const track of clip.tracks) ids.add(track.targetId);
+    }
+    return ids;
+  }
+
+  public getTime(clipId: string): number {
+    return this.times.get(clipId) ?? 0;
+  }
+
+  public advance(dt: number): void {
+    for (const clip of this.clips) {
+      if (!this.playing.has(clip.id)) continue;
+      const duration = Math.max(0.001, clip.duration);
+      let t = (this.times.get(clip.id) || 0) + dt;
+      if (t >= duration) {
+        if (clip.loop) {
+          t %= duration;
+        } else {
+          t = duration;
+          this.playing.delete(clip.id);
+        }
+      }
+      this.times.set(clip.id, t);
+    }
+  }
+
+  /** Current pose of every animated block; later clips override earlier ones per property. */
+  public sample(): Map<string, AnimatedPose> {
+    const out = new Map<string, AnimatedPose>();
+    for (const clip of this.clips) {
+      sampleClip(clip, this.getTime(clip.id), out);
+    }
+    return out;
+  }
+}
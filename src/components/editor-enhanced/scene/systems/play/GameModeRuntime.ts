@@ -0,0 +1,283 @@
+import { defaultModeConfig, isGameMode, parseModeConfig, type GameMode, type ModeConfig } from '@/shared/gameModes/modeConfig';
+
+type Vec3 = { x: number; y: number; z: number };
+
+// Ignore finish-line contacts this soon after a lap starts (landing, jitter)
+const MIN_LAP_SEC = 2;
+
+/**
+ * Bridge between a game-mode runtime and the play scene.
+ * Like LogicRuntimeHost, this keeps mode rules free of Babylon/cannon.
+ */
+export interface GameModeHost {
+  getStartPosition(): Vec3 | null;
+  /** Distinct checkpoint ids present in the level, ascending */
+  getCheckpointIds(): number[];
+  getCheckpointPosition(id: number): Vec3 | null;
+  teleportPlayer(position: Vec3): void;
+  /** Inactive players are hidden and ignore input (e.g. waiting to respawn) */
+  setPlayerActive(active: boolean): void;
+  finish(): void;
+  endRound(outcome: 'win' | 'lose'): void;
+  onCheckpoint(id: number): void;
+  onLap?(lap: number, totalLaps: number): void;
+  onHealthChange?(health: number, maxHealth: number): void;
+  onEliminated?(): void;
+}
+
+export interface GameModeRuntime {
+  readonly mode: GameMode;
+  /** Whether the run is timed (SANDBOX is not) */
+  readonly timed: boolean;
+  /** Where the player with the given start-grid slot spawns */
+  spawnPosition(slot: number): Vec3 | null;
+  start(): void;
+  update(deltaTime: number): void;
+  onCheckpoint(id: number): void;
+  onFinishLine(): void;
+  onHazard(): void;
+  /** Put the player back at the mode's respawn point (e.g. after a scripted round loss) */
+  respawn(): void;
+  /** Apply damage from any source (hazards, weapons); ignored by modes without health */
+  damage(amount: number): void;
+}
+
+/**
+ * Shared rules: time limit, checkpoint respawns, single finish.
+ * PARKOUR uses it as-is; the other modes override the hooks they change.
+ */
+abstract class BaseMode<M extends GameMode> implements GameModeRuntime {
+  abstract readonly mode: M;
+  readonly timed: boolean = true;
+  protected elapsed = 0;
+  protected lastCheckpoint = 0;
+  protected finished = false;
+
+  constructor(protected host: GameModeHost, protected config: ModeConfig<M>) {}
+
+  protected get timeLimitSec(): number {
+    const c = this.config as { timeLimitSec?: number };
+    return c.timeLimitSec ?? 0;
+  }
+
+  spawnPosition(_slot: number): Vec3 | null {
+    return this.host.getStartPosition();
+  }
+
+  start(): void {
+    this.elapsed = 0;
+    this.lastCheckpoint = 0;
+    this.finished = false;
+  }
+
+  update(deltaTime: number): void {
+    if (this.finished) return;
+    this.elapsed += deltaTime;
+    if (this.timeLimitSec > 0 && this.elapsed >= this.timeLimitSec) {
+      this.finished = true;
+      this.onTimeUp();
+    }
+  }
+
+  protected onTimeUp(): void {
+    this.host.endRound('lose');
+  }
+
+  onCheckpoint(id: number): void {
+    if (this.finished || id <= this.lastCheckpoint) return;
+    this.lastCheckpoint = id;
+    this.host.onCheckpoint(id);
+  }
+
+  onFinishLine(): void {
+    if (this.finished) return;
+    this.finished = true;
+    this.host.finish();
+  }
+
+  onHazard(): void {
+    this.respawn();
+  }
+
+  damage(_amount: number): void {
+    // No health outside PVP
+  }
+
+  protected respawnPosition(): Vec3 | null {
+    return (this.lastCheckpoint > 0 ? this.host.getCheckpointPosition(this.lastCheckpoint) : null)
+      ?? this.host.getStartPosition();
+  }
+
+  respawn(): void {
+    const position = this.respawnPosition();
+    if (position) this.host.teleportPlayer(position);
+  }
+}
+
+class ParkourMode extends BaseMode<'PARKOUR'> {
+  readonly mode = 'PARKOUR' as const;
+}
+
+/**
+ * Laps: every checkpoint must be passed in order before the finish line
+ * counts as a completed lap. Players start on a grid behind the start block.
+ */
+class RaceMode extends BaseMode<'RACE'> {
+  readonly mode = 'RACE' as const;
+  private lap = 0;
+  private passed = 0; // index into the ordered checkpoint ids for the current lap
+  private lapStartedAt = 0;
+
+  spawnPosition(slot: number): Vec3 | null {
+    const start = this.host.getStartPosition();
+    if (!start) return null;
+    const { gridColumns, gridSpacing } = this.config;
+    const index = Math.max(0, Math.floor(slot));
+    const column = index % gridColumns;
+    const row = Math.floor(index / gridColumns);
+    // Centre the row on the start block; rows stack back along -Z
+    return {
+      x: start.x + (column - (gridColumns - 1) / 2) * gridSpacing,
+      y: start.y,
+      z: start.z - row * gridSpacing,
+    };
+  }
+
+  start(): void {
+    super.start();
+    this.lap = 0;
+    this.passed = 0;
+    this.lapStartedAt = 0;
+    this.host.onLap?.(1, this.config.laps);
+  }
+
+  onCheckpoint(id: number): void {
+    if (this.finished) return;
+    const ids = this.host.getCheckpointIds();
+    if (ids[this.passed] !== id) return;
+    this.passed += 1;
+    this.lastCheckpoint = id;
+    this.host.onCheckpoint(id);
+  }
+
+  onFinishLine(): void {
+    if (this.finished) return;
+    if (this.passed < this.host.getCheckpointIds().length) return;
+    if (this.elapsed - this.lapStartedAt < MIN_LAP_SEC) return;
+    this.lap += 1;
+    this.passed = 0;
+    this.lapStartedAt = this.elapsed;
+    this.lastCheckpoint = 0;
+    if (this.lap >= this.config.laps) {
+      this.finished = true;
+      this.host.finish();
+    } else {
+      this.host.onLap?.(this.lap + 1, this.config.laps);
+    }
+  }
+
+  protected respawnPosition(): Vec3 | null {
+    // Respawn on the last checkpoint of this lap, otherwise back on the finish/start line
+    return (this.lastCheckpoint > 0 ? this.host.getCheckpointPosition(this.lastCheckpoint) : null)
+      ?? this.spawnPosition(0);
+  }
+}
+
+/**
+ * Health-based: hazards (and weapons, via damage()) hurt; at zero health the
+ * player is eliminated and respawns after a delay with full health.
+ * Surviving until the time limit wins the round.
+ */
+class PvpMode extends BaseMode<'PVP'> {
+  readonly mode = 'PVP' as const;
+  private health = 0;
+  private respawnIn: number | null = null;
+
+  start(): void {
+    super.start();
+    this.respawnIn = null;
+    this.setHealth(this.config.maxHealth);
+  }
+
+  update(deltaTime: number): void {
+    super.update(deltaTime);
+    if (this.respawnIn === null) return;
+    this.respawnIn -= deltaTime;
+    if (this.respawnIn <= 0) {
+      this.respawnIn = null;
+      this.respawn();
+      this.setHealth(this.config.maxHealth);
+      this.host.setPlayerActive(true);
+    }
+  }
+
+  protected onTimeUp(): void {
+    this.host.endRound('win');
+  }
+
+  onFinishLine(): void {
+    // No finish in PVP
+  }
+
+  onHazard(): void {
+    this.damage(this.config.hazardDamage);
+  }
+
+  damage(amount: number): void {
+    if (this.finished || this.respawnIn !== null || amount <= 0) return;
+    this.setHealth(this.health - amount);
+    if (this.health > 0) return;
+    this.host.onEliminated?.();
+    if (this.config.respawnDelaySec > 0) {
+      this.host.setPlayerActive(false);
+      this.respawnIn = this.config.respawnDelaySec;
+    } else {
+      this.respawn();
+      this.setHealth(this.config.maxHealth);
+    }
+  }
+
+  protected respawnPosition(): Vec3 | null {
+    return this.config.respawnAt === 'checkpoint' ? super.respawnPosition() : this.host.getStartPosition();
+  }
+
+  private setHealth(health: number): void {
+    this.health = Math.max(0, Math.min(this.config.maxHealth, health));
+    this.host.onHealthChange?.(this.health, this.config.maxHealth);
+  }
+}
+
+/** Free play: no timer, no finish; hazards just respawn. */
+class SandboxMode extends BaseMode<'SANDBOX'> {
+  readonly mode = 'SANDBOX' as const;
+  readonly timed = false;
+
+  update(): void {
+    // Untimed
+  }
+
+  onFinishLine(): void {
+    // Nothing to finish
+  }
+}
+
+/**
+ * Create the runtime for a mode. An invalid stored config falls back to the
+ * mode's defaults so a bad save never blocks play.
+ */
+export function createGameModeRuntime(mode: GameMode | null | undefined, rawConfig: unknown, host: GameModeHost): GameModeRuntime {
+  const m: GameMode = isGameMode(mode) ? mode : 'PARKOUR';
+  const parsed = parseModeConfig(m, rawConfig);
+  const config = parsed.config ?? defaultModeConfig(m);
+  switch (m) {
+    case 'RACE':
+      return new RaceMode(host, config as ModeConfig<'RACE'>);
+    case 'PVP':
+      return new PvpMode(host, config as ModeConfig<'PVP'>);
+    case 'SANDBOX':
+      return new SandboxMode(host, config as ModeConfig<'SANDBOX'>);
+    case 'PARKOUR':
+    default:
+      return new ParkourMode(host, config as ModeConfig<'PARKOUR'>);
+  }
+}
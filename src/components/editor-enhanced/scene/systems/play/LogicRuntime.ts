@@ -0,0 +1,234 @@
+import type { LogicAction, LogicEffect, LogicTrigger } from '../../../../../types/project';
+
+type Vec3 = { x: number; y: number; z: number };
+
+export interface LogicBlockTransform {
+  position: Vec3;
+  rotation: Vec3; // degrees
+}
+
+/**
+ * Bridge between the logic runtime and the play scene.
+ * Keeps the runtime free of Babylon/cannon so it can be stepped in tests.
+ */
+export interface LogicRuntimeHost {
+  getBlockTransform(id: string): LogicBlockTransform | null;
+  setBlockTransform(id: string, transform: LogicBlockTransform): void;
+  getBlockVisible(id: string): boolean;
+  setBlockVisible(id: string, visible: boolean): void;
+  teleportPlayer(position: Vec3): void;
+  playEffect(effect: LogicEffect, position: Vec3): void;
+  endRound(outcome: 'win' | 'lose'): void;
+}
+
+interface PendingAction {
+  at: number;
+  trigger: LogicTrigger;
+  action: LogicAction;
+}
+
+interface Tween {
+  blockId: string;
+  kind: 'position' | 'rotation';
+  from: Vec3;
+  to: Vec3;
+  start: number;
+  duration: number;
+}
+
+const add = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+const lerp = (a: Vec3, b: Vec3, t: number): Vec3 => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  z: a.z + (b.z - a.z) * t,
+});
+
+export class LogicRuntime {
+  private triggers: LogicTrigger[] = [];
+  private time = 0;
+  private inside = new Set<string>();
+  private fired = new Set<string>();
+  private timerElapsed = new Map<string, number>();
+  private pending: PendingAction[] = [];
+  private tweens: Tween[] = [];
+  private originals = new Map<string, { transform: LogicBlockTransform | null; visible: boolean }>();
+
+  constructor(private host: LogicRuntimeHost) {}
+
+  public load(triggers: LogicTrigger[]): void {
+    this.reset();
+    this.triggers = (triggers || []).filter(t => t && Array.isArray(t.actions));
+  }
+
+  public hasLogic(): boolean {
+    return this.triggers.length > 0;
+  }
+
+  /** Blocks that logic may move, rotate or hide; these must not be frozen. */
+  public getTargetBlockIds(): Set<string> {
+    const ids = new Set<string>();
+    for (const trigger of this.triggers) {
+      if (trigger.type === 'collect' && trigger.blockId) ids.add(trigger.blockId);
+      for (const action of trigger.actions) {
+        if (action.targetBlockId) ids.add(action.targetBlockId);
+      }
+    }
+    return ids;
+  }
+
+  /** Restore every block touched by logic and clear runtime state. */
+  public reset(): void {
+    this.originals.forEach((original, id) => {
+      if (original.transform) this.host.setBlockTransform(id, original.transform);
+      this.host.setBlockVisible(id, original.visible);
+    });
+    this.originals.clear();
+    this.time = 0;
+    this.inside.clear();
+    this.fired.clear();
+    this.timerElapsed.clear();
+    this.pending = [];
+    this.tweens = [];
+  }
+
+  public update(dt: number, playerPosition: Vec3 | null): void {
+    if (this.triggers.length === 0) return;
+    this.time += dt;
+
+    for (const trigger of this.triggers) {
+      if (trigger.enabled === false) continue;
+      if ((trigger.once || trigger.type === 'collect') && this.fired.has(trigger.id)) continue;
+
+      if (trigger.type === 'timer') {
+        const interval = Math.max(0.1, trigger.interval ?? 5);
+        const elapsed = (this.timerElapsed.get(trigger.id) || 0) + dt;
+        if (elapsed >= interval) {
+          this.timerElapsed.set(trigger.id, elapsed - interval);
+          this.fire(trigger);
+        } else {
+          this.timerElapsed.set(trigger.id, elapsed);
+        }
+        continue;
+      }
+
+      const isInside = !!playerPosition && this.contains(trigger, playerPosition);
+      const wasInside = this.inside.has(trigger.id);
+      if (isInside) this.inside.add(trigger.id); else this.inside.delete(trigger.id);
+
+      if (trigger.type === 'exit') {
+        if (wasInside && !isInside) this.fire(trigger);
+      } else if (isInside && !wasInside) {
+        if (trigger.type === 'collect' && trigger.blockId) {
+          this.remember(trigger.blockId);
+          this.host.setBlockVisible(trigger.blockId, false);
+        }
+        this.fire(trigger);
+      }
+    }
+
+    this.flushPending();
+    this.stepTweens();
+  }
+
+  private contains(trigger: LogicTrigger, point: Vec3): boolean {
+    const volume = trigger.volume;
+    if (!volume) return false;
+    let origin: Vec3 = { x: 0, y: 0, z: 0 };
+    if (trigger.blockId) {
+      const anchor = this.host.getBlockTransform(trigger.blockId);
+      if (!anchor) return false;
+      // Collected anchors stay hidden; skip any hidden anchor
+      if (!this.host.getBlockVisible(trigger.blockId)) return false;
+      origin = anchor.position;
+    }
+    const center = add(origin, volume.offset);
+    return Math.abs(point.x - center.x) <= volume.size.x / 2
+      && Math.abs(point.y - center.y) <= volume.size.y / 2
+      && Math.abs(point.z - center.z) <= volume.size.z / 2;
+  }
+
+  private fire(trigger: LogicTrigger): void {
+    this.fired.add(trigger.id);
+    for (const action of trigger.actions) {
+      this.pending.push({ at: this.time + Math.max(0, action.delay || 0), trigger, action });
+    }
+  }
+
+  private flushPending(): void {
+    if (this.pending.length === 0) return;
+    const due = this.pending.filter(p => p.at <= this.time);
+    if (due.length === 0) return;
+    this.pending = this.pending.filter(p => p.at > this.time);
+    for (const entry of due) {
+      this.execute(entry.trigger, entry.action);
+    }
+  }
+
+  private execute(trigger: LogicTrigger, action: LogicAction): void {
+    const targetId = action.targetBlockId || trigger.blockId;
+    switch (action.type) {
+      case 'toggle_visibility': {
+        if (!targetId) return;
+        this.remember(targetId);
+        const next = action.visible ?? !this.host.getBlockVisible(targetId);
+        this.host.setBlockVisible(targetId, next);
+        break;
+      }
+      case 'move_block':
+      case 'rotate_block': {
+        if (!targetId) return;
+        const current = this.host.getBlockTransform(targetId);
+        if (!current) return;
+        this.remember(targetId);
+        const kind = action.type === 'move_block' ? 'position' : 'rotation';
+        const delta = (kind === 'position' ? action.offset : action.rotation) || { x: 0, y: 0, z: 0 };
+        // A new move on the same block continues from where the previous one stopped
+        this.tweens = this.tweens.filter(t => !(t.blockId === targetId && t.kind === kind));
+        const from = { ...current[kind] };
+        this.tweens.push({
+          blockId: targetId,
+          kind,
+          from,
+          to: add(from, delta),
+          start: this.time,
+          duration: Math.max(0, action.duration ?? 1),
+        });
+        break;
+      }
+      case 'teleport_player':
+        if (action.position) this.host.teleportPlayer({ ...action.position });
+        break;
+      case 'play_effect': {
+        const anchor = targetId ? this.host.getBlockTransform(targetId) : null;
+        const position = action.position || anchor?.position || { x: 0, y: 0, z: 0 };
+        this.host.playEffect(action.effect || 'sparkle', { ...position });
+        break;
+      }
+      case 'end_round':
+        this.host.endRound(action.outcome || 'win');
+        break;
+    }
+  }
+
+  private stepTweens(): void {
+    if (this.tweens.length === 0) return;
+    const remaining: Tween[] = [];
+    for (const tween of this.tweens) {
+      const current = this.host.getBlockTransform(tween.blockId);
+      if (!current) continue;
+      const t = tween.duration <= 0 ? 1 : Math.min(1, (this.time - tween.start) / tween.duration);
+      this.host.setBlockTransform(tween.blockId, { ...current, [tween.kind]: lerp(tween.from, tween.to, t) });
+      if (t < 1) remaining.push(tween);
+    }
+    this.tweens = remaining;
+  }
+
+  private remember(blockId: string): void {
+    if (this.originals.has(blockId)) return;
+    const transform = this.host.getBlockTransform(blockId);
+    this.originals.set(blockId, {
+      transform: transform ? { position: { ...transform.position }, rotation: { ...transform.rotation } } : null,
+      visible: this.host.getBlockVisible(blockId),
+    });
+  }
+}
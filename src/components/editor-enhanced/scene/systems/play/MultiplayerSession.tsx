@@ -0,0 +1,51 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import { useMultiplayerClient } from '@/hooks/useMultiplayerClient';
+import { INPUT_STEP_MS, type Correction } from '@/features/multiplayer/netcode';
+import type { PlayEngine } from './PlayEngine';
+
+interface MultiplayerSessionProps {
+  gameId: string;
+  engineRef: React.MutableRefObject<PlayEngine | null>;
+}
+
+/**
+ * Joins the server-simulated play session of a game while mounted. The local
+ * player stays predicted by PlayEngine: its input goes out every step and
+ * server corrections shift it back. Other players land in PlayState, where
+ * PlayEngine's RemoteAvatars draw them. The join order picks the local
+ * player's start-grid slot.
+ */
+export const MultiplayerSession: React.FC<MultiplayerSessionProps> = ({ gameId, engineRef }) => {
+  const onReconcile = useCallback((correction: Correction) => {
+    engineRef.current?.getPlayerController()?.applyCorrection(correction.offset, correction.snap);
+  }, [engineRef]);
+
+  const { isConnected, sendInput, players, myPlayerId } = useMultiplayerClient({ gameId, onReconcile });
+
+  // Racers take start-grid slots in the order they joined the session; the
+  // slot is kept while connected so players leaving don't move anyone mid-race
+  const slotAssignedRef = useRef(false);
+  useEffect(() => {
+    if (!isConnected) { slotAssignedRef.current = false; return; }
+    if (slotAssignedRef.current || !myPlayerId) return;
+    const slot = Object.keys(players).indexOf(myPlayerId);
+    if (slot < 0 || !engineRef.current) return;
+    engineRef.current.setGridSlot(slot);
+    slotAssignedRef.current = true;
+  }, [isConnected, myPlayerId, players, engineRef]);
+
+  useEffect(() => {
+    if (!isConnected) return;
+    const timer = setInterval(() => {
+      const controller = engineRef.current?.getPlayerController();
+      if (!controller) return;
+      const { yaw, ...input } = controller.getInputState();
+      // The body has moved by the previous step's input; close enough for the prediction buffer
+      const position = controller.getPosition();
+      sendInput(input, yaw, { x: position.x, y: position.y, z: position.z });
+    }, INPUT_STEP_MS);
+    return () => clearInterval(timer);
+  }, [isConnected, sendInput, engineRef]);
+
+  return null;
+};
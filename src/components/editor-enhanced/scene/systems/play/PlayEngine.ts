@@ -4,8 +4,21 @@ import { Renderer, RenderableBlock } from '../shared/Renderer';
 import { PlayPhysics } from './PlayPhysics';
 import { PlayCamera } from './PlayCamera';
 import { PlayerController } from './PlayerController';
+import { RemoteAvatars } from './RemoteAvatars';
+import { usePlayState } from './PlayState';
+import { LogicRuntime, type LogicBlockTransform } from './LogicRuntime';
+import { AnimationRuntime } from './AnimationRuntime';
+import { createGameModeRuntime, type GameModeRuntime } from './GameModeRuntime';
+import type { GameMode } from '@/shared/gameModes/modeConfig';
 import type { PlayerSkinId, PlayerSkinConfig } from './skins/registry';
 import type { Block } from '../../../../../types';
+import type { LogicEffect, LogicTrigger } from '../../../../../types/project';
+import type { AnimationClip, RenderSettings } from '../../../../../types/editor';
+import type { CannonBody } from '../../physics/types';
+
+const TRIGGER_TYPES = new Set<string>(['checkpoint', 'finish', 'hazard']);
+// Resting on a pad leaves the boxes touching, not overlapping
+const TRIGGER_MARGIN = 0.05;
 
 export interface PlayEngineConfig {
   canvas: HTMLCanvasElement;
@@ -13,10 +26,15 @@ export interface PlayEngineConfig {
   onFinish?: () => void;
   onCheckpoint?: (checkpoint: number) => void;
   onHazard?: () => void;
+  onRoundEnd?: (outcome: 'win' | 'lose') => void;
+  onLap?: (lap: number, totalLaps: number) => void;
+  onHealthChange?: (health: number, maxHealth: number) => void;
+  onEliminated?: () => void;
   enableMultiplayer?: boolean;
   spectator?: boolean; // Preview-like mode: no player, free camera, no pointer lock
-  gameMode?: 'PARKOUR' | 'PVP' | 'RACE' | 'SANDBOX';
+  gameMode?: GameMode;
   gameModeConfig?: string | object | null;
+  gridSlot?: number; // start-grid position in multi-player RACE
   skinId?: PlayerSkinId;
   skinColors?: { primary: number; secondary?: number };
   skinConfig?: PlayerSkinConfig;
@@ -28,7 +46,11 @@ export class PlayEngine {
   private physics: PlayPhysics;
   private camera: PlayCamera;
   private playerController: PlayerController | null = null;
+  private remoteAvatars: RemoteAvatars;
   private blocks: RenderableBlock[] = [];
+  private blockByBody = new Map<CannonBody, RenderableBlock>();
+  // Trigger pads the player overlapped on the last step (fire on enter only)
+  private touchingTriggers = new Set<RenderableBlock>();
   private isRunning = false;
   private lastTime = performance.now();
   private accumulator = 0;
@@ -38,10 +60,20 @@ export class PlayEngine {
   // Game state
   private startPosition: BABYLON.Vector3 | null = null;
   private checkpoints: { position: BABYLON.Vector3; id: number }[] = [];
-  private currentCheckpoint = 0;
   private isFinished = false;
-  private gameMode: 'PARKOUR' | 'PVP' | 'RACE' | 'SANDBOX' = 'PARKOUR';
-  private gameModeConfig: any = null;
+  private gameMode: GameMode = 'PARKOUR';
+  private gameModeConfig: string | object | null = null;
+  
+  // Mode rules (checkpoints, laps, health, respawns)
+  private modeRuntime: GameModeRuntime;
+  private playerActive = true;
+  
+  // Level logic (triggers/actions)
+  private logic: LogicRuntime;
+  
+  // Keyframed block animation (moving platforms)
+  private animation = new AnimationRuntime();
+  private animatedBlocks: { block: RenderableBlock; position: BABYLON.Vector3; rotation: BABYLON.Quaternion; scaling: BABYLON.Vector3 }[] = [];
   
   constructor(private config: PlayEngineConfig) {
     this.isSpectator = !!config.spectator;
@@ -73,6 +105,22 @@ export class PlayEngine {
       this.camera.setMode('free');
     }
     
+    // Level logic talks to the scene through a small host bridge
+    this.logic = new LogicRuntime({
+      getBlockTransform: (id) => this.getBlockTransform(id),
+      setBlockTransform: (id, t) => this.setBlockTransform(id, t),
+      getBlockVisible: (id) => this.findBlock(id)?.mesh?.isEnabled() ?? false,
+      setBlockVisible: (id, visible) => this.setBlockVisible(id, visible),
+      teleportPlayer: (p) => this.playerController?.teleportTo(new BABYLON.Vector3(p.x, p.y, p.z)),
+      playEffect: (effect, p) => this.playEffect(effect, new BABYLON.Vector3(p.x, p.y, p.z)),
+      endRound: (outcome) => this.handleRoundEnd(outcome),
+    });
+    
+    this.modeRuntime = this.createModeRuntime();
+
+    // Other players of a multiplayer session, fed from PlayState
+    this.remoteAvatars = new RemoteAvatars(this.sceneCore.scene);
+    
     // Setup play mode features
     this.setupPlayFeatures();
     
@@ -90,66 +138,81 @@ export class PlayEngine {
     
     // Setup game triggers
     this.setupGameTriggers();
-    
-    // Setup collision events
-    this.physics.onCollision((event) => {
-      this.handleCollision(event);
+  }
+  
+  private createModeRuntime(): GameModeRuntime {
+    const toVec = (v: BABYLON.Vector3 | null | undefined) => (v ? { x: v.x, y: v.y, z: v.z } : null);
+    return createGameModeRuntime(this.gameMode, this.gameModeConfig, {
+      getStartPosition: () => toVec(this.startPosition),
+      getCheckpointIds: () => Array.from(new Set(this.checkpoints.map(c => c.id))).sort((a, b) => a - b),
+      getCheckpointPosition: (id) => toVec(this.checkpoints.find(c => c.id === id)?.position),
+      teleportPlayer: (p) => this.playerController?.teleportTo(new BABYLON.Vector3(p.x, p.y, p.z)),
+      setPlayerActive: (active) => this.setPlayerActive(active),
+      finish: () => this.handleFinish(),
+      endRound: (outcome) => this.handleRoundEnd(outcome),
+      onCheckpoint: (id) => this.handleCheckpointReached(id),
+      onLap: (lap, total) => this.config.onLap?.(lap, total),
+      onHealthChange: (health, max) => this.config.onHealthChange?.(health, max),
+      onEliminated: () => this.config.onEliminated?.(),
     });
   }
   
+  private setPlayerActive(active: boolean): void {
+    this.playerActive = active;
+    this.playerController?.getMesh().setEnabled(active);
+  }
+  
   private setupGameTriggers(): void {
     // Will be called when blocks are added to identify special blocks
   }
   
-  private handleCollision(event: { bodyA: any; bodyB: any }): void {
-    if (!this.playerController) return;
-    
-    const playerBody = this.playerController.getBody();
-    if (!playerBody) return;
-    
-    // Check if player collided with something
-    const otherBody = event.bodyA === playerBody ? event.bodyB : 
-                     event.bodyB === playerBody ? event.bodyA : null;
-    
-    if (!otherBody) return;
-    
-    // Find the block associated with this body
-    const block = this.blocks.find(b => b.body === otherBody);
-    if (!block) return;
-    
-    // Handle special block types (generic)
+  /**
+   * Overlap test of the player against checkpoint, finish and hazard pads,
+   * through the physics broadphase's spatial hash (pads moved by logic or
+   * animation are re-hashed with their bodies). Pads fire on entry.
+   */
+  private checkTriggers(): void {
+    const body = this.isSpectator || !this.playerActive ? null : this.playerController?.getBody();
+    if (!body) {
+      this.touchingTriggers.clear();
+      return;
+    }
+    body.updateAABB();
+    const { lowerBound: lo, upperBound: hi } = body.aabb;
+    const m = TRIGGER_MARGIN;
+    const touching = new Set<RenderableBlock>();
+    for (const other of this.physics.queryBounds({ x: lo.x - m, y: lo.y - m, z: lo.z - m }, { x: hi.x + m, y: hi.y + m, z: hi.z + m })) {
+      const block = this.blockByBody.get(other);
+      if (!block || !TRIGGER_TYPES.has(block.block.type) || block.mesh?.isEnabled() === false) continue;
+      touching.add(block);
+      if (!this.touchingTriggers.has(block)) this.handleTrigger(block);
+    }
+    this.touchingTriggers = touching;
+  }
+  
+  private handleTrigger(block: RenderableBlock): void {
+    // Special blocks are interpreted by the active game mode
     switch (block.block.type) {
       case 'checkpoint':
-        this.handleCheckpoint(block);
+        this.modeRuntime.onCheckpoint(block.block.metadata?.checkpointId || 0);
         break;
         
       case 'finish':
-        this.handleFinish();
+        this.modeRuntime.onFinishLine();
         break;
         
       case 'hazard':
         this.handleHazard();
         break;
     }
-
-    // Mode-specific collision logic (minimal skeleton)
-    if (this.gameMode === 'RACE') {
-      // Example: detect laps via finish line crossings if configured
-      // Placeholder: future implementation using this.gameModeConfig
-    } else if (this.gameMode === 'PVP') {
-      // Example: apply damage on specific block types or bullets
-      // Placeholder: future implementation
-    }
   }
   
-  private handleCheckpoint(block: RenderableBlock): void {
-    const checkpointId = block.block.metadata?.checkpointId || 0;
+  private handleCheckpointReached(checkpointId: number): void {
+    this.config.onCheckpoint?.(checkpointId);
     
-    if (checkpointId > this.currentCheckpoint) {
-      this.currentCheckpoint = checkpointId;
-      this.config.onCheckpoint?.(checkpointId);
-      
-      // Visual feedback
+    // Visual feedback
+    for (const block of this.blocks) {
+      if (block.block.type !== 'checkpoint' || (block.block.metadata?.checkpointId || 0) !== checkpointId) continue;
       if (block.mesh) {
         const material = block.mesh.material as BABYLON.StandardMaterial;
         if (material) {
@@ -172,29 +235,180 @@ export class PlayEngine {
   }
   
   private handleHazard(): void {
-    // Respawn player at last checkpoint or start
-    this.respawnPlayer();
+    // Respawn or damage, depending on the mode
+    this.modeRuntime.onHazard();
     this.config.onHazard?.();
   }
   
   private respawnPlayer(): void {
     if (!this.playerController) return;
+    this.modeRuntime.respawn();
+  }
+  
+  private handleRoundEnd(outcome: 'win' | 'lose'): void {
+    this.config.onRoundEnd?.(outcome);
+    if (outcome === 'win') {
+      this.handleFinish();
+    } else {
+      this.respawnPlayer();
+    }
+  }
+  
+  private findBlock(id: string): RenderableBlock | undefined {
+    return this.blocks.find(b => b.block.id === id);
+  }
+  
+  private getBlockTransform(id: string): LogicBlockTransform | null {
+    const mesh = this.findBlock(id)?.mesh;
+    if (!mesh) return null;
+    const rot = mesh.rotationQuaternion ? mesh.rotationQuaternion.toEulerAngles() : mesh.rotation;
+    const toDeg = 180 / Math.PI;
+    return {
+      position: { x: mesh.position.x, y: mesh.position.y, z: mesh.position.z },
+      rotation: { x: rot.x * toDeg, y: rot.y * toDeg, z: rot.z * toDeg },
+    };
+  }
+  
+  private setBlockTransform(id: string, t: LogicBlockTransform): void {
+    const block = this.findBlock(id);
+    if (!block?.mesh) return;
+    const toRad = Math.PI / 180;
+    const mesh = block.mesh;
+    mesh.unfreezeWorldMatrix();
+    mesh.rotationQuaternion = null;
+    mesh.position.set(t.position.x, t.position.y, t.position.z);
+    mesh.rotation.set(t.rotation.x * toRad, t.rotation.y * toRad, t.rotation.z * toRad);
+    if (block.body) {
+      // Logic-driven blocks move kinematically; the body just follows the mesh
+      block.body.position.set(t.position.x, t.position.y, t.position.z);
+      block.body.quaternion.setFromEuler(t.rotation.x * toRad, t.rotation.y * toRad, t.rotation.z * toRad);
+      block.body.aabbNeedsUpdate = true;
+    }
+  }
+  
+  private setBlockVisible(id: string, visible: boolean): void {
+    const block = this.findBlock(id);
+    if (!block) return;
+    block.mesh?.setEnabled(visible);
+    if (block.body) {
+      block.body.collisionResponse = visible;
+    }
+  }
+  
+  private playEffect(effect: LogicEffect, position: BABYLON.Vector3): void {
+    const scene = this.sceneCore.scene;
+    const colors: Record<LogicEffect, BABYLON.Color3> = {
+      sparkle: new BABYLON.Color3(1, 0.85, 0.2),
+      smoke: new BABYLON.Color3(0.6, 0.6, 0.6),
+      flash: new BABYLON.Color3(1, 1, 1),
+    };
+    const sphere = BABYLON.MeshBuilder.CreateSphere('logic-effect', { diameter: 0.5, segments: 8 }, scene);
+    sphere.position.copyFrom(position);
+    sphere.isPickable = false;
+    const material = new BABYLON.StandardMaterial('logic-effect-mat', scene);
+    material.emissiveColor = colors[effect] || colors.sparkle;
+    material.disableLighting = true;
+    sphere.material = material;
     
-    let respawnPosition = this.startPosition;
-    
-    // Find last checkpoint position
-    if (this.currentCheckpoint > 0) {
-      const checkpoint = this.checkpoints.find(c => c.id === this.currentCheckpoint);
-      if (checkpoint) {
-        respawnPosition = checkpoint.position;
+    // Expand and fade out, then clean up
+    const duration = effect === 'flash' ? 0.25 : 0.6;
+    let elapsed = 0;
+    const observer = scene.onBeforeRenderObservable.add(() => {
+      elapsed += scene.getEngine().getDeltaTime() / 1000;
+      const t = Math.min(1, elapsed / duration);
+      sphere.scaling.setAll(1 + t * (effect === 'smoke' ? 4 : 3));
+      material.alpha = 1 - t;
+      if (t >= 1) {
+        scene.onBeforeRenderObservable.remove(observer);
+        sphere.dispose();
+        material.dispose();
+      }
+    });
+  }
+  
+  public setLogic(triggers: LogicTrigger[]): void {
+    this.logic.load(triggers || []);
+  }
+  
+  /**
+   * Load animation clips. Animated blocks get kinematic bodies so the
+   * platform pushes and carries the player instead of teleporting through it.
+   */
+  public setAnimations(clips: AnimationClip[]): void {
+    // Put previously animated blocks back where they started
+    for (const entry of this.animatedBlocks) {
+      const mesh = entry.block.mesh;
+      if (mesh) {
+        mesh.position.copyFrom(entry.position);
+        mesh.rotationQuaternion = entry.rotation.clone();
+        mesh.scaling.copyFrom(entry.scaling);
+      }
+      if (entry.block.body) {
+        entry.block.body.position.set(entry.position.x, entry.position.y, entry.position.z);
+        entry.block.body.quaternion.set(entry.rotation.x, entry.rotation.y, entry.rotation.z, entry.rotation.w);
+        entry.block.body.aabbNeedsUpdate = true;
+        this.physics.setKinematic(entry.block.body, false);
       }
     }
+    this.animatedBlocks = [];
     
-    if (respawnPosition) {
-      this.playerController.teleportTo(respawnPosition);
+    this.animation.load(clips || []);
+    for (const id of this.animation.getTargetBlockIds()) {
+      const block = this.findBlock(id);
+      const mesh = block?.mesh;
+      if (!block || !mesh) continue;
+      mesh.unfreezeWorldMatrix();
+      const rotation = mesh.rotationQuaternion?.clone()
+        ?? BABYLON.Quaternion.RotationYawPitchRoll(mesh.rotation.y, mesh.rotation.x, mesh.rotation.z);
+      this.animatedBlocks.push({ block, position: mesh.position.clone(), rotation, scaling: mesh.scaling.clone() });
+      if (block.body && block.block.type !== 'dynamic') {
+        this.physics.setKinematic(block.body, true);
+      }
+    }
+  }
+  
+  private stepAnimations(deltaTime: number): void {
+    if (this.animatedBlocks.length === 0) return;
+    this.animation.advance(deltaTime);
+    const poses = this.animation.sample();
+    const toRad = Math.PI / 180;
+    for (const { block } of this.animatedBlocks) {
+      const pose = poses.get(block.block.id);
+      const mesh = block.mesh;
+      if (!pose || !mesh) continue;
+      const position = pose.position
+        ? new BABYLON.Vector3(pose.position.x, pose.position.y, pose.position.z)
+        : mesh.position.clone();
+      const rotation = pose.rotation
+        ? BABYLON.Quaternion.RotationYawPitchRoll(pose.rotation.y * toRad, pose.rotation.x * toRad, pose.rotation.z * toRad)
+        : (mesh.rotationQuaternion?.clone() ?? BABYLON.Quaternion.RotationYawPitchRoll(mesh.rotation.y, mesh.rotation.x, mesh.rotation.z));
+      if (pose.scale) {
+        // Visual only; collision shapes keep their authored size
+        mesh.scaling.set(pose.scale.x, pose.scale.y, pose.scale.z);
+      }
+      if (block.body && this.physics.isKinematic(block.body)) {
+        this.physics.moveKinematic(block.body, position, rotation, deltaTime);
+      } else {
+        mesh.position.copyFrom(position);
+        mesh.rotationQuaternion = rotation;
+      }
     }
   }
   
+  /** Move the player along with the kinematic platform it is standing on. */
+  private carryPlayer(deltaTime: number): void {
+    if (this.isSpectator || !this.playerController) return;
+    const ground = this.playerController.getGroundBody();
+    if (!ground || !this.physics.isKinematic(ground)) return;
+    const body = this.playerController.getBody();
+    const v = this.physics.getSurfaceVelocity(ground, body.position);
+    if (!v) return;
+    body.position.x += v.x * deltaTime;
+    body.position.z += v.z * deltaTime;
+    // Only follow downward motion; contacts already push the player up
+    if (v.y < 0) body.position.y += v.y * deltaTime;
+  }
+  
   public initializePlayer(startPosition?: BABYLON.Vector3): void {
     // Create player controller
     this.playerController = new PlayerController({
@@ -234,6 +448,7 @@ export class PlayEngine {
         }
       } catch {}
       this.physics.addBody(block.body, block.block.type === 'dynamic');
+      this.blockByBody.set(block.body, block);
     }
     
     // Check for special blocks
@@ -265,7 +480,9 @@ export class PlayEngine {
       // Remove physics body
       if (block.body) {
         this.physics.removeBody(block.body);
+        this.blockByBody.delete(block.body);
       }
+      this.touchingTriggers.delete(block);
     }
   }
   
@@ -273,10 +490,19 @@ export class PlayEngine {
     if (this.isRunning) return;
     this.isRunning = true;
     
+    // Fresh round for the active mode; the player starts on its spawn (grid slot in RACE)
+    this.isFinished = false;
+    this.modeRuntime.start();
+    const spawn = this.modeRuntime.spawnPosition(this.config.gridSlot ?? 0);
+    const spawnPosition = spawn ? new BABYLON.Vector3(spawn.x, spawn.y, spawn.z) : undefined;
+    
     // Initialize player if not spectator and not already done
     if (!this.isSpectator && !this.playerController) {
-      this.initializePlayer(this.startPosition || undefined);
+      this.initializePlayer(spawnPosition);
+    } else if (!this.isSpectator && spawnPosition) {
+      this.playerController?.teleportTo(spawnPosition);
     }
+    this.setPlayerActive(true);
     
     // Ensure play camera controls are active in play mode
     if (this.isSpectator) {
@@ -297,9 +523,19 @@ export class PlayEngine {
     this.startGameLoop();
   }
 
-  public setGameMode(mode: 'PARKOUR' | 'PVP' | 'RACE' | 'SANDBOX', config?: any): void {
+  public setGameMode(mode: GameMode, config?: string | object | null): void {
     this.gameMode = mode;
     if (config !== undefined) this.gameModeConfig = config;
+    this.modeRuntime = this.createModeRuntime();
+  }
+  
+  /** Start-grid position of the local player (multi-player RACE); a running player moves to the new spot */
+  public setGridSlot(slot: number): void {
+    if (this.config.gridSlot === slot) return;
+    this.config.gridSlot = slot;
+    if (!this.isRunning || this.isSpectator) return;
+    const spawn = this.modeRuntime.spawnPosition(slot);
+    if (spawn) this.playerController?.teleportTo(new BABYLON.Vector3(spawn.x, spawn.y, spawn.z));
   }
   
   private startGameLoop(): void {
@@ -314,13 +550,23 @@ export class PlayEngine {
       this.accumulator += deltaTime;
       
       while (this.accumulator >= this.fixedTimeStep) {
-        // Update physics
+        // Drive animated platforms, then update physics
+        this.stepAnimations(this.fixedTimeStep);
         this.physics.step(this.fixedTimeStep);
+        this.carryPlayer(this.fixedTimeStep);
         
-        // Update player
-        if (!this.isSpectator) {
+        // Update player (inactive while waiting to respawn)
+        if (!this.isSpectator && this.playerActive) {
           this.playerController?.update(this.fixedTimeStep);
         }
+        if (!this.isSpectator) {
+          this.modeRuntime.update(this.fixedTimeStep);
+        }
+        this.checkTriggers();
+        
+        // Step level logic against the player's physics position
+        const playerBody = this.isSpectator ? null : this.playerController?.getBody();
+        this.logic.update(this.fixedTimeStep, playerBody ? playerBody.position : null);
         
         this.accumulator -= this.fixedTimeStep;
       }
@@ -330,6 +576,7 @@ export class PlayEngine {
       
       // Sync physics to rendering with interpolation
       this.syncPhysicsToRender(alpha);
+      this.remoteAvatars.sync(usePlayState.getState().players, deltaTime);
       
       // Update camera (can use variable timestep)
       this.camera.update(deltaTime);
@@ -348,26 +595,29 @@ export class PlayEngine {
    */
   public optimizeStaticScene(): void {
     const scene = this.sceneCore.scene;
-    try {
-      for (const mesh of scene.meshes) {
-        // Skip dynamic player and any mesh with physics (heuristic)
-        const isPlayer = mesh === this.playerController?.getMesh();
-        const hasAnim = mesh.getAnimationRanges && mesh.getAnimationRanges().length > 0;
-        if (isPlayer || hasAnim) continue;
-        
-        try { mesh.freezeWorldMatrix(); } catch {}
-        if (mesh.material && 'freeze' in mesh.material) {
-          try { (mesh.material as any).freeze(); } catch {}
-        }
-      }
-      // Freeze active meshes list for performance
-      try { scene.freezeActiveMeshes(); } catch {}
-    } catch {}
+    const movableMeshes = new Set(
+      [...this.logic.getTargetBlockIds(), ...this.animation.getTargetBlockIds()]
+        .map(id => this.findBlock(id)?.mesh)
+        .filter(Boolean)
+    );
+    for (const mesh of scene.meshes) {
+      // Skip dynamic player and any mesh with physics (heuristic)
+      const isPlayer = mesh === this.playerController?.getMesh();
+      const hasAnim = mesh.getAnimationRanges && mesh.getAnimationRanges().length > 0;
+      if (isPlayer || hasAnim || movableMeshes.has(mesh as BABYLON.Mesh) || this.remoteAvatars.owns(mesh)) continue;
+      
+      mesh.freezeWorldMatrix();
+      mesh.material?.freeze();
+    }
+    // Freeze active meshes list for performance (logic and animations change it at runtime)
+    if (!this.logic.hasLogic() && !this.animation.hasAnimations()) {
+      scene.freezeActiveMeshes();
+    }
   }
   
   private syncPhysicsToRender(alpha: number): void {
     for (const block of this.blocks) {
-      if (block.mesh && block.body && block.block.type === 'dynamic') {
+      if (block.mesh && block.body && (block.block.type === 'dynamic' || this.physics.isKinematic(block.body))) {
         // Interpolate position for smooth rendering
         const body = block.body;
         const mesh = block.mesh;
@@ -412,12 +662,14 @@ export class PlayEngine {
   
   public dispose(): void {
     this.stop();
+    this.logic.reset();
     
     // Clean up event listeners
     window.removeEventListener('resize', this.handleResize);
     
     // Dispose subsystems
     this.playerController?.dispose();
+    this.remoteAvatars.dispose();
     this.camera.dispose();
     this.physics.dispose();
     this.renderer.stop();
@@ -437,6 +689,11 @@ export class PlayEngine {
   public setRenderingQuality(quality: 'low' | 'medium' | 'high'): void {
     this.sceneCore.setRenderingQuality(quality);
   }
+
+  public applyRenderSettings(settings: RenderSettings, adaptive: boolean): void {
+    this.sceneCore.applyRenderSettings(settings, adaptive);
+    this.renderer.updateConfig({ targetFps: settings.targetFrameRate });
+  }
   
   public getPlayerController(): PlayerController | null {
     return this.playerController;
@@ -1,5 +1,8 @@
 import * as CANNON from 'cannon-es';
 import type { CannonBody, CannonWorld, CannonMaterial } from '../../physics/types';
+import type { ColliderShape } from '@/features/assets/modelCollider';
+import type { Vec3Like } from '@/features/spatial/spatialIndex';
+import { SpatialHashBroadphase } from '../../physics/spatialHashBroadphase';
 
 export interface CollisionEvent {
   bodyA: CannonBody;
@@ -15,9 +18,10 @@ export interface CollisionEvent {
  */
 export class PlayPhysics {
   private world: CannonWorld;
-  private bodies: Map<CannonBody, { isDynamic: boolean }> = new Map();
+  private bodies: Map<CannonBody, { isDynamic: boolean; isKinematic?: boolean }> = new Map();
   private materials: Map<string, CannonMaterial> = new Map();
   private collisionCallbacks: ((event: CollisionEvent) => void)[] = [];
+  private broadphase: SpatialHashBroadphase;
   
   // Physics materials
   private defaultMaterial: CannonMaterial;
@@ -31,7 +35,8 @@ export class PlayPhysics {
     this.world.gravity.set(0, -9.81, 0);
     
     // Performance settings
-    this.world.broadphase = new CANNON.SAPBroadphase(this.world);
+    this.broadphase = new SpatialHashBroadphase();
+    this.world.broadphase = this.broadphase;
     (this.world.solver as CANNON.GSSolver).iterations = 10;
     this.world.defaultContactMaterial.friction = 0.4;
     this.world.defaultContactMaterial.restitution = 0.3;
@@ -167,6 +172,73 @@ export class PlayPhysics {
     body.updateMassProperties();
   }
   
+  /**
+   * Switch a registered body between static and kinematic.
+   * Kinematic bodies are driven by velocity (see moveKinematic) and push dynamic bodies.
+   */
+  public setKinematic(body: CannonBody, kinematic: boolean): void {
+    const info = this.bodies.get(body);
+    if (!info || info.isDynamic) return;
+    info.isKinematic = kinematic;
+    body.type = kinematic ? CANNON.Body.KINEMATIC : CANNON.Body.STATIC;
+    body.mass = 0;
+    body.velocity.set(0, 0, 0);
+    body.angularVelocity.set(0, 0, 0);
+    body.updateMassProperties();
+    body.aabbNeedsUpdate = true;
+  }
+  
+  public isKinematic(body: CannonBody | null | undefined): boolean {
+    return !!body && !!this.bodies.get(body)?.isKinematic;
+  }
+  
+  /**
+   * Set velocities so the next step lands a kinematic body on the target pose.
+   * Moving via velocity (not teleporting) lets contacts carry bodies resting on it.
+   */
+  public moveKinematic(
+    body: CannonBody,
+    position: { x: number; y: number; z: number },
+    quaternion: { x: number; y: number; z: number; w: number },
+    deltaTime: number
+  ): void {
+    if (!this.isKinematic(body) || deltaTime <= 0) return;
+    body.velocity.set(
+      (position.x - body.position.x) / deltaTime,
+      (position.y - body.position.y) / deltaTime,
+      (position.z - body.position.z) / deltaTime
+    );
+    
+    // Angular velocity from the rotation delta (target * current^-1)
+    const target = new CANNON.Quaternion(quaternion.x, quaternion.y, quaternion.z, quaternion.w);
+    const delta = target.mult(body.quaternion.conjugate());
+    if (delta.w < 0) {
+      delta.x = -delta.x; delta.y = -delta.y; delta.z = -delta.z; delta.w = -delta.w;
+    }
+    const angle = 2 * Math.acos(Math.min(1, delta.w));
+    const sinHalf = Math.sqrt(Math.max(0, 1 - delta.w * delta.w));
+    if (angle < 1e-6 || sinHalf < 1e-6) {
+      body.angularVelocity.set(0, 0, 0);
+    } else {
+      const k = angle / (sinHalf * deltaTime);
+      body.angularVelocity.set(delta.x * k, delta.y * k, delta.z * k);
+    }
+  }
+  
+  /** Velocity of a kinematic body's surface at a world point (linear + angular). */
+  public getSurfaceVelocity(body: CannonBody, point: { x: number; y: number; z: number }): { x: number; y: number; z: number } | null {
+    if (!this.isKinematic(body)) return null;
+    const w = body.angularVelocity;
+    const rx = point.x - body.position.x;
+    const ry = point.y - body.position.y;
+    const rz = point.z - body.position.z;
+    return {
+      x: body.velocity.x + (w.y * rz - w.z * ry),
+      y: body.velocity.y + (w.z * rx - w.x * rz),
+      z: body.velocity.z + (w.x * ry - w.y * rx),
+    };
+  }
+  
   public removeBody(body: CannonBody): void {
     if (this.bodies.has(body)) {
       this.bodies.delete(body);
@@ -232,6 +304,33 @@ export class PlayPhysics {
     return body;
   }
   
+  /** Static body for a model block from its generated (already scaled) collider. */
+  public createModelBody(
+    position: CANNON.Vec3,
+    collider: ColliderShape,
+    materialType: string = 'default'
+  ): CannonBody {
+    const body = new CANNON.Body({
+      mass: 0,
+      position: position,
+      material: this.materials.get(materialType) || this.defaultMaterial,
+      type: CANNON.Body.STATIC,
+    }) as CannonBody;
+    PlayPhysics.addColliderShapes(body, collider);
+    return body;
+  }
+
+  /** Add the cannon shape(s) for a generated model collider to a body. */
+  public static addColliderShapes(body: CannonBody, collider: ColliderShape): void {
+    if (collider.kind === 'box') {
+      const { halfExtents: h, offset: o } = collider;
+      body.addShape(new CANNON.Box(new CANNON.Vec3(h.x, h.y, h.z)), new CANNON.Vec3(o.x, o.y, o.z));
+      return;
+    }
+    const vertices = collider.vertices.map(v => new CANNON.Vec3(v.x, v.y, v.z));
+    body.addShape(new CANNON.ConvexPolyhedron({ vertices, faces: collider.faces }));
+  }
+  
   public applyImpulse(body: CannonBody, impulse: CANNON.Vec3, point?: CANNON.Vec3): void {
     body.applyImpulse(impulse, point || body.position);
   }
@@ -284,6 +383,11 @@ export class PlayPhysics {
     }
   }
   
+  /** Bodies whose bounds overlap the box (trigger pads, pickups). */
+  public queryBounds(min: Vec3Like, max: Vec3Like): CannonBody[] {
+    return this.broadphase.queryBounds(this.world, min, max);
+  }
+  
   public getMaterial(name: string): CannonMaterial | undefined {
     return this.materials.get(name);
   }
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import type { Block } from '../../../../../types';
+import type { PlayerSkinConfig, PlayerSkinId } from './skins/registry';
 
 export interface PlayerStats {
   position: { x: number; y: number; z: number };
@@ -9,6 +10,12 @@ export interface PlayerStats {
   score: number;
 }
 
+/** Skin a remote player chose, as sent by the multiplayer server */
+export interface RemotePlayerSkin {
+  skinId?: PlayerSkinId;
+  config?: PlayerSkinConfig | null;
+}
+
 export interface GameStats {
   startTime: number;
   elapsedTime: number;
@@ -17,6 +24,8 @@ export interface GameStats {
   deaths: number;
   jumps: number;
   blocksCollected: number;
+  lap: number; // RACE only; 0 otherwise
+  totalLaps: number;
 }
 
 export interface PlayState {
@@ -48,7 +57,7 @@ export interface PlayState {
   
   // Multiplayer
   isMultiplayer: boolean;
-  players: Map<string, { name: string; position: { x: number; y: number; z: number }; color: string }>;
+  players: Map<string, { name: string; position: { x: number; y: number; z: number }; color: string; skin?: RemotePlayerSkin }>;
   
   // Actions
   setGameId: (id: string | null) => void;
@@ -85,8 +94,8 @@ export interface PlayState {
   
   // Multiplayer actions
   setMultiplayer: (enabled: boolean) => void;
-  addPlayer: (id: string, player: { name: string; position: { x: number; y: number; z: number }; color: string }) => void;
-  updatePlayer: (id: string, updates: Partial<{ name: string; position: { x: number; y: number; z: number }; color: string }>) => void;
+  addPlayer: (id: string, player: { name: string; position: { x: number; y: number; z: number }; color: string; skin?: RemotePlayerSkin }) => void;
+  updatePlayer: (id: string, updates: Partial<{ name: string; position: { x: number; y: number; z: number }; color: string; skin?: RemotePlayerSkin }>) => void;
   removePlayer: (id: string) => void;
   
   // Utility
@@ -118,6 +127,8 @@ export const usePlayState = create<PlayState>((set, get) => ({
     deaths: 0,
     jumps: 0,
     blocksCollected: 0,
+    lap: 0,
+    totalLaps: 0,
   },
   
   blocks: [],
@@ -190,6 +201,8 @@ export const usePlayState = create<PlayState>((set, get) => ({
         deaths: 0,
         jumps: 0,
         blocksCollected: 0,
+        lap: 0,
+        totalLaps: 0,
       },
       checkpoints: get().checkpoints.map(cp => ({ ...cp, reached: false })),
       collectibles: get().collectibles.map(c => ({ ...c, collected: false })),
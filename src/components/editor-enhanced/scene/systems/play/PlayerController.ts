@@ -3,7 +3,7 @@ import * as CANNON from 'cannon-es';
 import { PlayPhysics } from './PlayPhysics';
 import { PlayCamera } from './PlayCamera';
 import type { CannonBody } from '../../physics/types';
-import { createSkinMesh, type PlayerSkinId, type PlayerSkinColors, type PlayerSkinConfig } from './skins/registry';
+import { createSkinMesh, fitSkinToAnchor, type PlayerSkinId, type PlayerSkinColors, type PlayerSkinConfig } from './skins/registry';
 
 export interface PlayerControllerConfig {
   scene: BABYLON.Scene;
@@ -44,6 +44,7 @@ export class PlayerController {
   private mesh: BABYLON.Mesh;
   private body: CannonBody;
   private meshAnchorYOffset: number = 0.9;
+  private animateSkin: ((deltaSeconds: number, speed: number) => void) | null = null;
   
   // Movement settings
   private moveSpeed: number;
@@ -97,6 +98,7 @@ export class PlayerController {
   // Ground detection
   private groundRay: CANNON.Ray;
   private groundCheckDistance = 0.6;
+  private groundBody: CannonBody | null = null;
   
   constructor(config: PlayerControllerConfig) {
     this.scene = config.scene;
@@ -170,12 +172,12 @@ export class PlayerController {
     const instance = createSkinMesh(this.scene, skinId || 'blocky', colors, skinConfig);
     // Normalize scaling so visual anchor offset matches legacy 0.9 for consistency
     const desiredAnchor = 0.9;
-    const scale = instance.anchorYOffset > 0 ? (desiredAnchor / instance.anchorYOffset) : 1;
-    try { instance.root.scaling.setAll(scale); } catch {}
+    fitSkinToAnchor(instance, desiredAnchor);
     // Ensure root is not pickable to avoid camera collision issues
     instance.root.isPickable = false;
     // Name root mesh for references
     instance.root.name = 'player';
+    this.animateSkin = instance.animate ?? null;
     return { mesh: instance.root, anchorYOffset: desiredAnchor };
   }
   
@@ -327,6 +329,9 @@ export class PlayerController {
     
     // Reset ground contact count
     this.groundContactCount = 0;
+
+    // Limb animation for skins that have it (voxel skins)
+    this.animateSkin?.(deltaTime, Math.hypot(this.body.velocity.x, this.body.velocity.z));
   }
   
   private checkGrounded(): { normal: BABYLON.Vector3; tooSteep: boolean } | null {
@@ -343,6 +348,7 @@ export class PlayerController {
     );
     
     const result = this.physics.raycast(from, to);
+    this.groundBody = ((result as any)?.body as CannonBody | undefined) ?? null;
     // Consider grounded if ray hits or we have ground contacts
     this.isGrounded = (result !== null) || (this.groundContactCount > 0);
 
@@ -577,6 +583,30 @@ export class PlayerController {
     );
   }
   
+  /** Current movement input and camera yaw, as sent to the multiplayer server. */
+  public getInputState(): { forward: boolean; backward: boolean; left: boolean; right: boolean; jump: boolean; sprint: boolean; yaw: number } {
+    return {
+      forward: this.keysPressed.has('KeyW'),
+      backward: this.keysPressed.has('KeyS'),
+      left: this.keysPressed.has('KeyA'),
+      right: this.keysPressed.has('KeyD'),
+      jump: this.keysPressed.has('Space'),
+      sprint: this.isSprinting,
+      yaw: this.camera.getYaw(),
+    };
+  }
+  
+  /** Shift the predicted body toward the server's authoritative position (multiplayer reconciliation). */
+  public applyCorrection(offset: { x: number; y: number; z: number }, snap: boolean): void {
+    this.body.position.x += offset.x;
+    this.body.position.y += offset.y;
+    this.body.position.z += offset.z;
+    if (snap) {
+      this.body.velocity.set(0, 0, 0);
+    }
+    this.syncMeshToPhysics();
+  }
+  
   public getMesh(): BABYLON.Mesh {
     return this.mesh;
   }
@@ -589,6 +619,11 @@ export class PlayerController {
     return this.isGrounded;
   }
   
+  /** Body under the player from the last ground check (e.g. a moving platform). */
+  public getGroundBody(): CannonBody | null {
+    return this.isGrounded ? this.groundBody : null;
+  }
+  
   public setMoveSpeed(speed: number): void {
     this.moveSpeed = Math.max(0, speed);
   }
@@ -0,0 +1,84 @@
+import * as BABYLON from '@babylonjs/core';
+import { createSkinMesh, fitSkinToAnchor, type PlayerSkinInstance } from './skins/registry';
+import type { PlayState, RemotePlayerSkin } from './PlayState';
+
+// Server positions are the centre of the player capsule (same as the local player)
+const ANCHOR_Y_OFFSET = 0.9;
+
+interface Avatar {
+  instance: PlayerSkinInstance;
+  skin: RemotePlayerSkin | undefined;
+  color: string;
+  last: BABYLON.Vector3 | null;
+}
+
+/**
+ * Draws the other players of a multiplayer session with their chosen skins.
+ * Positions come from the interpolated PlayState; walking speed (for limb
+ * animation) and facing are derived from frame-to-frame movement.
+ */
+export class RemoteAvatars {
+  private avatars = new Map<string, Avatar>();
+
+  constructor(private scene: BABYLON.Scene) {}
+
+  public sync(players: PlayState['players'], deltaSeconds: number): void {
+    for (const [id, avatar] of this.avatars) {
+      if (!players.has(id)) {
+        avatar.instance.root.dispose();
+        this.avatars.delete(id);
+      }
+    }
+
+    for (const [id, player] of players) {
+      let avatar = this.avatars.get(id);
+      // Rebuild when the player changed skin (skin objects are replaced, never mutated)
+      if (avatar && (avatar.skin !== player.skin || avatar.color !== player.color)) {
+        avatar.instance.root.dispose();
+        avatar = undefined;
+      }
+      if (!avatar) {
+        avatar = { instance: this.createAvatar(id, player.skin, player.color), skin: player.skin, color: player.color, last: null };
+        this.avatars.set(id, avatar);
+        // optimizeStaticScene may have frozen the active mesh list before this player joined
+        this.scene.unfreezeActiveMeshes();
+      }
+
+      const root = avatar.instance.root;
+      const position = new BABYLON.Vector3(player.position.x, player.position.y - ANCHOR_Y_OFFSET, player.position.z);
+      let speed = 0;
+      if (avatar.last && deltaSeconds > 0) {
+        const dx = position.x - avatar.last.x;
+        const dz = position.z - avatar.last.z;
+        speed = Math.hypot(dx, dz) / deltaSeconds;
+        if (speed > 0.1) root.rotation.y = Math.atan2(dx, dz);
+      }
+      avatar.last = position;
+      root.position.copyFrom(position);
+      avatar.instance.animate?.(deltaSeconds, speed);
+    }
+  }
+
+  private createAvatar(id: string, skin: RemotePlayerSkin | undefined, color: string): PlayerSkinInstance {
+    const colors = { primary: BABYLON.Color3.FromHexString(color) };
+    const instance = createSkinMesh(this.scene, skin?.skinId || 'blocky', colors, skin?.config ?? undefined);
+    fitSkinToAnchor(instance, ANCHOR_Y_OFFSET);
+    instance.root.name = `remote_player_${id}`;
+    instance.root.isPickable = false;
+    instance.root.getChildMeshes().forEach(mesh => { mesh.isPickable = false; });
+    return instance;
+  }
+
+  /** Whether a mesh belongs to a remote player (they move, so must not be frozen). */
+  public owns(mesh: BABYLON.AbstractMesh): boolean {
+    for (const avatar of this.avatars.values()) {
+      if (mesh === avatar.instance.root || mesh.isDescendantOf(avatar.instance.root)) return true;
+    }
+    return false;
+  }
+
+  public dispose(): void {
+    for (const avatar of this.avatars.values()) avatar.instance.root.dispose();
+    this.avatars.clear();
+  }
+}
@@ -1,6 +1,8 @@
 import * as BABYLON from '@babylonjs/core';
+import type { RLEPayload } from '@/pages/skin-studio/lib/rle';
+import { buildVoxelSkinMesh, isVoxelSkinPayload, type VoxelSkinMesh, type VoxelSkinPart } from './voxelMesher';
 
-export type PlayerSkinId = 'blocky' | 'capsule' | 'robot' | 'kogama' | 'boy' | 'girl';
+export type PlayerSkinId = 'blocky' | 'capsule' | 'robot' | 'kogama' | 'boy' | 'girl' | 'voxel';
 
 export interface PlayerSkinColors {
   primary: BABYLON.Color3; // main body/head color
@@ -21,12 +23,22 @@ export interface PlayerSkinConfig {
     eyes?: 'dot' | 'cartoon' | 'robot';
     mouth?: 'smile' | 'neutral' | 'none';
   };
+  /** Skin Studio voxels (saved with saveRLEToAccount), used by the 'voxel' skin */
+  voxels?: RLEPayload;
 }
 
 export interface PlayerSkinInstance {
   root: BABYLON.Mesh;
   height: number;
   anchorYOffset: number; // feet alignment offset (half height typically)
+  /** Per-frame limb animation; speed is the horizontal speed in m/s */
+  animate?: (deltaSeconds: number, speed: number) => void;
+}
+
+/** Scale a skin so its feet alignment offset matches the player body's half height. */
+export function fitSkinToAnchor(instance: PlayerSkinInstance, anchorYOffset: number): void {
+  const scale = instance.anchorYOffset > 0 ? (anchorYOffset / instance.anchorYOffset) : 1;
+  instance.root.scaling.setAll(scale);
 }
 
 export function createSkinMesh(
@@ -52,6 +64,8 @@ export function createSkinMesh(
       return createRobotSkin(scene, colors);
     case 'kogama':
       return createKogamaSkin(scene, colors, config);
+    case 'voxel':
+      return createVoxelSkin(scene, colors, config);
     case 'blocky':
     default:
       return createBlockySkin(scene, colors);
@@ -331,4 +345,76 @@ function createKogamaSkin(scene: BABYLON.Scene, colors?: PlayerSkinColors, cfg?:
   };
 }
 
+// Walk cycle: leg swing in radians and body bob in skin units at full stride
+const VOXEL_LEG_SWING = 0.7;
+const VOXEL_BOB = 0.04;
+const VOXEL_STRIDE_PER_METRE = 2.5;
+const VOXEL_FULL_STRIDE_SPEED = 4;
+
+function createVoxelSkin(scene: BABYLON.Scene, colors?: PlayerSkinColors, cfg?: PlayerSkinConfig): PlayerSkinInstance {
+  const voxels = cfg?.voxels;
+  let built: VoxelSkinMesh | null = null;
+  try {
+    built = isVoxelSkinPayload(voxels) ? buildVoxelSkinMesh(voxels) : null;
+  } catch {
+    built = null;
+  }
+  // Nothing painted yet (or an unreadable payload): keep the default avatar
+  if (!built || built.parts.length === 0) return createBlockySkin(scene, colors);
+
+  const root = new BABYLON.Mesh('player_root_voxel', scene);
+  root.isPickable = false;
+
+  const material = new BABYLON.StandardMaterial('player_voxel_mat', scene);
+  material.specularColor = new BABYLON.Color3(0, 0, 0);
+
+  // One merged mesh per limb, hung from a joint node so it can rotate around the hip/neck
+  const joints: Partial<Record<VoxelSkinPart, BABYLON.TransformNode>> = {};
+  for (const part of built.parts) {
+    const joint = new BABYLON.TransformNode(`player_voxel_${part.part}_joint`, scene);
+    joint.parent = root;
+    joint.position.set(part.pivot[0], part.pivot[1], part.pivot[2]);
+
+    const mesh = new BABYLON.Mesh(`player_voxel_${part.part}`, scene);
+    const data = new BABYLON.VertexData();
+    data.positions = part.positions;
+    data.normals = part.normals;
+    data.colors = part.colors;
+    data.indices = part.indices;
+    data.applyToMesh(mesh);
+    mesh.material = material;
+    mesh.parent = joint;
+    mesh.isPickable = false;
+    joints[part.part] = joint;
+  }
+
+  const { legL, legR, torso, head } = joints;
+  // The head rides on the torso so it follows the body bob
+  if (torso && head) {
+    head.parent = torso;
+    head.position.subtractInPlace(torso.position);
+  }
+  const torsoY = torso?.position.y ?? 0;
+
+  let phase = 0;
+  let stride = 0;
+  const animate = (deltaSeconds: number, speed: number) => {
+    // Ease in and out of the walk cycle instead of snapping the limbs
+    const target = Math.min(1, speed / VOXEL_FULL_STRIDE_SPEED);
+    stride += (target - stride) * Math.min(1, deltaSeconds * 10);
+    phase = (phase + deltaSeconds * speed * VOXEL_STRIDE_PER_METRE) % (Math.PI * 2);
+
+    const swing = Math.sin(phase) * VOXEL_LEG_SWING * stride;
+    if (legL) legL.rotation.x = swing;
+    if (legR) legR.rotation.x = -swing;
+    if (torso) torso.position.y = torsoY + Math.abs(Math.sin(phase)) * VOXEL_BOB * stride;
+    if (head) head.rotation.x = Math.sin(phase * 2) * 0.05 * stride;
+  };
 
+  return {
+    root,
+    height: built.height,
+    anchorYOffset: built.height / 2,
+    animate,
+  };
+}
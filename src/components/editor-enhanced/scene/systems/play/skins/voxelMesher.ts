@@ -0,0 +1,138 @@
+// Turns a Skin Studio RLE payload into greedy-meshed geometry for the voxel
+// player skin. Engine-free (plain arrays), so it can be tested without Babylon;
+// registry.ts uploads the result as vertex-coloured meshes.
+
+import { decodeVoxelsRLE, type RLEPayload } from '@/pages/skin-studio/lib/rle';
+import { parseKey } from '@/pages/skin-studio/lib/voxel-utils';
+import { greedyQuads, pushQuad, type Vec3Tuple } from '@/features/chunking/greedyMesh';
+
+export type VoxelSkinPart = 'legL' | 'legR' | 'torso' | 'head';
+
+export interface VoxelPartMesh {
+  part: VoxelSkinPart;
+  /** Joint the part rotates around (hip, waist, neck), in skin space */
+  pivot: [number, number, number];
+  /** Vertex positions relative to `pivot` */
+  positions: number[];
+  normals: number[];
+  /** RGBA per vertex */
+  colors: number[];
+  indices: number[];
+}
+
+export interface VoxelSkinMesh {
+  parts: VoxelPartMesh[];
+  /** Feet to top of the head, in skin units */
+  height: number;
+}
+
+// Skin Studio edits a 16x24x12 grid; anything far larger is not a skin
+const MAX_BOUNDS = 64;
+const FALLBACK_COLOR: [number, number, number] = [0.6, 0.6, 0.6];
+
+/** Whether untrusted data (a profile or a remote player's skin) looks like an RLE payload. */
+export function isVoxelSkinPayload(value: unknown): value is RLEPayload {
+  const p = value as RLEPayload | null;
+  if (!p || typeof p !== 'object' || !Array.isArray(p.voxelsRLE) || !Array.isArray(p.palette)) return false;
+  if (!p.bounds || typeof p.voxelSize !== 'number' || !(p.voxelSize > 0)) return false;
+  if (!Array.isArray(p.layers?.legs) || !Array.isArray(p.layers?.head)) return false;
+  return (['x', 'y', 'z'] as const).every(axis => {
+    const size = p.bounds[axis];
+    return Number.isInteger(size) && size > 0 && size <= MAX_BOUNDS;
+  });
+}
+
+function parseColor(hex: string | undefined): [number, number, number] {
+  const match = typeof hex === 'string' ? /^#?([0-9a-f]{6})$/i.exec(hex.trim()) : null;
+  if (!match) return FALLBACK_COLOR;
+  const n = parseInt(match[1], 16);
+  return [((n >> 16) & 0xff) / 255, ((n >> 8) & 0xff) / 255, (n & 0xff) / 255];
+}
+
+interface PartGrid {
+  min: [number, number, number];
+  dims: Vec3Tuple;
+  /** Palette index + 1 per cell, 0 = empty; x fastest, then y, then z */
+  cells: Uint16Array;
+}
+
+function buildGrid(voxels: Array<[number, number, number, number]>): PartGrid {
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  for (const v of voxels) {
+    for (let axis = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis], v[axis]);
+      max[axis] = Math.max(max[axis], v[axis]);
+    }
+  }
+  const dims: [number, number, number] = [max[0] - min[0] + 1, max[1] - min[1] + 1, max[2] - min[2] + 1];
+  const cells = new Uint16Array(dims[0] * dims[1] * dims[2]);
+  for (const [x, y, z, color] of voxels) {
+    cells[(x - min[0]) + dims[0] * ((y - min[1]) + dims[1] * (z - min[2]))] = color + 1;
+  }
+  return { min, dims, cells };
+}
+
+/**
+ * Mesh one limb. Cells span [x - 0.5, x + 0.5] on X/Z and [y, y + 1] on Y,
+ * so the feet rest on y = 0.
+ */
+function meshGrid(grid: PartGrid, part: VoxelSkinPart, pivot: [number, number, number], palette: string[], scale: number): VoxelPartMesh {
+  const { min, dims, cells } = grid;
+  const mesh: VoxelPartMesh = { part, pivot, positions: [], normals: [], colors: [], indices: [] };
+  const origin = [min[0] - 0.5, min[1], min[2] - 0.5];
+  const toSkin = (p: Vec3Tuple): Vec3Tuple => [
+    (p[0] + origin[0]) * scale - pivot[0],
+    (p[1] + origin[1]) * scale - pivot[1],
+    (p[2] + origin[2]) * scale - pivot[2],
+  ];
+
+  const quads = greedyQuads(dims, (x, y, z) => cells[x + dims[0] * (y + dims[1] * z)]);
+  for (const quad of quads) {
+    pushQuad(mesh, quad, toSkin, 'cw');
+    const [r, g, b] = parseColor(palette[quad.value - 1]);
+    for (let i = 0; i < 4; i++) mesh.colors.push(r, g, b, 1);
+  }
+  return mesh;
+}
+
+function partOf(y: number, x: number, layers: RLEPayload['layers']): VoxelSkinPart {
+  if (y <= layers.legs[1]) return x < 0 ? 'legL' : 'legR';
+  if (y >= layers.head[0]) return 'head';
+  return 'torso';
+}
+
+/**
+ * Decode a Skin Studio payload and mesh it as four limbs: the legs layer split
+ * at x = 0, the torso and the head. Pivots sit at the hips (top of each leg),
+ * the waist (bottom of the torso) and the neck (bottom of the head).
+ */
+export function buildVoxelSkinMesh(payload: RLEPayload): VoxelSkinMesh {
+  const decoded = decodeVoxelsRLE(payload.voxelsRLE, payload.bounds);
+  const byPart = new Map<VoxelSkinPart, Array<[number, number, number, number]>>();
+  let top = 0;
+  for (const [key, color] of Object.entries(decoded)) {
+    const { x, y, z } = parseKey(key);
+    const part = partOf(y, x, payload.layers);
+    if (!byPart.has(part)) byPart.set(part, []);
+    byPart.get(part)!.push([x, y, z, color]);
+    top = Math.max(top, y + 1);
+  }
+
+  const scale = payload.voxelSize;
+  const parts: VoxelPartMesh[] = [];
+  for (const part of ['legL', 'legR', 'torso', 'head'] as VoxelSkinPart[]) {
+    const voxels = byPart.get(part);
+    if (!voxels) continue;
+    const grid = buildGrid(voxels);
+    const centerX = (grid.min[0] + grid.dims[0] / 2 - 0.5) * scale;
+    const centerZ = (grid.min[2] + grid.dims[2] / 2 - 0.5) * scale;
+    const jointY = part === 'legL' || part === 'legR' ? grid.min[1] + grid.dims[1] : grid.min[1];
+    // Legs swing around the hip; torso and head hinge on the spine axis
+    const pivot: [number, number, number] = part === 'legL' || part === 'legR'
+      ? [centerX, jointY * scale, centerZ]
+      : [0, jointY * scale, centerZ];
+    parts.push(meshGrid(grid, part, pivot, payload.palette, scale));
+  }
+  return { parts, height: top * scale };
+}
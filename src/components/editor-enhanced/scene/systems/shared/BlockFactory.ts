@@ -236,6 +236,9 @@ export class BlockFactory {
     mesh.freezeNormals();
     mesh.receiveShadows = true;
     mesh.checkCollisions = true;
+    // SceneCore's shadow generator; disposing the mesh drops it from the map again
+    const { __shadowGenerator: shadowGenerator } = this.scene as BABYLON.Scene & { __shadowGenerator?: BABYLON.ShadowGenerator };
+    shadowGenerator?.addShadowCaster(mesh);
     
     return mesh;
   }
@@ -2,6 +2,7 @@ import * as BABYLON from '@babylonjs/core';
 import type { Block } from '../../../../types';
 import type { CannonBody } from '../../physics/types';
 import { SceneCore } from './SceneCore';
+import { addScaledLODLevels } from '../../optimization/lodManager';
 
 export interface RenderableBlock {
   mesh?: BABYLON.Mesh;
@@ -34,7 +35,7 @@ export class Renderer {
       enableLOD: config?.enableLOD ?? true,
     };
     
-    this.frameInterval = 1 / Math.max(1, Math.min(120, this.config.targetFps));
+    this.frameInterval = 1 / Math.max(1, Math.min(144, this.config.targetFps));
   }
   
   public setBlocks(blocks: RenderableBlock[]): void {
@@ -147,8 +148,10 @@ export class Renderer {
           lod1.isVisible = false;
           lod2.isVisible = false;
           
-          mesh.addLODLevel(dist1, lod1);
-          mesh.addLODLevel(dist2, lod2);
+          addScaledLODLevels(mesh, [
+            { distance: dist1, mesh: lod1 },
+            { distance: dist2, mesh: lod2 },
+          ]);
           mesh.addLODLevel(Number.MAX_VALUE, null);
           (mesh as any).__lodSetupDone = true;
         }
@@ -177,7 +180,7 @@ export class Renderer {
   public updateConfig(config: Partial<RendererConfig>): void {
     this.config = { ...this.config, ...config };
     if (config.targetFps !== undefined) {
-      this.frameInterval = 1 / Math.max(1, Math.min(120, this.config.targetFps));
+      this.frameInterval = 1 / Math.max(1, Math.min(144, this.config.targetFps));
     }
   }
   
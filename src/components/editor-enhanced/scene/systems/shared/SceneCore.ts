@@ -2,6 +2,8 @@ import * as BABYLON from '@babylonjs/core';
 import type { Block } from '../../../../types';
 import TextureCache from '../../blocks/textureCache';
 import { ThinInstanceManager } from '../../blocks/ThinInstanceManager';
+import type { RenderSettings } from '@/types/editor';
+import { createRenderSettingsController, type RenderSettingsController } from '../../engine/renderSettings';
 
 export interface SceneCoreConfig {
   canvas: HTMLCanvasElement;
@@ -15,6 +17,8 @@ export class SceneCore {
   public engine: BABYLON.Engine;
   public scene: BABYLON.Scene;
   private renderPipeline: BABYLON.DefaultRenderingPipeline | null = null;
+  private renderSettings: RenderSettingsController | null = null;
+  private shadowGenerator: BABYLON.ShadowGenerator | null = null;
   
   constructor(config: SceneCoreConfig) {
     // Create Babylon engine
@@ -71,6 +75,18 @@ export class SceneCore {
     );
     dirLight.position = new BABYLON.Vector3(20, 40, 20);
     dirLight.intensity = 0.5;
+
+    // Render settings resize the map and toggle it; createBlock adds casters
+    try {
+      const shadowGenerator = new BABYLON.ShadowGenerator(1024, dirLight);
+      shadowGenerator.bias = 0.0005;
+      shadowGenerator.usePercentageCloserFiltering = true;
+      this.shadowGenerator = shadowGenerator;
+      Object.assign(this.scene, { __shadowGenerator: shadowGenerator });
+    } catch {
+      // No shadow support in this context; settings skip the shadow step
+      this.shadowGenerator = null;
+    }
     
     // Setup fog
     this.scene.fogMode = BABYLON.Scene.FOGMODE_LINEAR;
@@ -95,6 +111,19 @@ export class SceneCore {
     
     // Set quality to medium by default
     this.setRenderingQuality('medium');
+
+    this.renderSettings = createRenderSettingsController({
+      engine: this.engine,
+      scene: this.scene,
+      cameras: () => this.scene.cameras,
+      pipeline: this.renderPipeline,
+      shadowGenerator: this.shadowGenerator,
+    });
+  }
+
+  /** Applies the player's graphics options live, optionally with adaptive scaling. */
+  public applyRenderSettings(settings: RenderSettings, adaptive: boolean): void {
+    this.renderSettings?.apply(settings, adaptive);
   }
   
   public setRenderingQuality(quality: 'performance' | 'balanced' | 'quality' | 'low' | 'medium' | 'high'): void {
@@ -171,6 +200,8 @@ export class SceneCore {
   }
   
   public dispose(): void {
+    this.renderSettings?.dispose();
+    this.shadowGenerator?.dispose();
     this.renderPipeline?.dispose();
     this.scene.dispose();
     this.engine.dispose();
@@ -23,7 +23,8 @@ export type BlockType =
   | 'start'
   | 'checkpoint'
   | 'finish'
-  | 'hazard';
+  | 'hazard'
+  | 'model';
 
 export type MechanicType =
   | 'none'
@@ -51,6 +52,8 @@ export interface Block {
   scale?: number;
   mechanic?: MechanicType;
   mechanicPower?: number;
+  assetId?: string;
+  collider?: 'box' | 'hull';
   mesh?: BABYLON.Mesh;
   // Using any for physics body to avoid coupling to cannon-es typings
   body?: CannonBody;
@@ -60,7 +63,7 @@ export type CameraMode = 'orbit' | 'play' | 'ortho';
 
 export interface Scene3DProps {
   onBlockAdd?: (block: Block) => void;
-  droppedBlock?: { type: BlockType } | null;
+  droppedBlock?: { type: BlockType; assetId?: string } | null;
   onSceneStateChange?: (blocks: Block[]) => void;
   loadedBlocks?: Block[];
   selectedTool?: 'select' | 'move' | 'paint';
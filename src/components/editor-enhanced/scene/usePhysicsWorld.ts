@@ -168,13 +168,14 @@ export function usePhysicsWorld(terrainMode: 'flat' | 'hilly') {
     }
   };
 
-  const createGround = (scene: BABYLON.Scene, presetType?: 'flat' | 'hilly' | 'mountains') => {
+  const createGround = (scene: BABYLON.Scene, presetType?: 'flat' | 'hilly' | 'mountains', options?: { subdivisions?: number }) => {
     const mode = presetType || terrainMode;
     const isFlat = mode === 'flat';
     const isHilly = mode === 'hilly';
     const isMountains = mode === 'mountains';
     
-    const segs = isFlat ? 4 : 64; // Even flat terrain needs some subdivisions for editing
+    // Even flat terrain needs some subdivisions for editing; generated/imported terrain asks for more
+    const segs = options?.subdivisions ?? (isFlat ? 4 : 64);
     
     let ground: BABYLON.Mesh;
     
@@ -299,7 +300,7 @@ export function usePhysicsWorld(terrainMode: 'flat' | 'hilly') {
     } catch {}
   };
 
-  const applyTerrainPreset = (scene: BABYLON.Scene, presetType: 'flat' | 'hilly' | 'mountains') => {
+  const applyTerrainPreset = (scene: BABYLON.Scene, presetType: 'flat' | 'hilly' | 'mountains', options?: { subdivisions?: number }) => {
     // Remove existing ground
     const existingGround = scene.getMeshByName('ground');
     if (existingGround) {
@@ -313,7 +314,7 @@ export function usePhysicsWorld(terrainMode: 'flat' | 'hilly') {
     }
     
     // Create new ground with preset
-    const { ground } = createGround(scene, presetType);
+    const { ground } = createGround(scene, presetType, options);
     
     // Return the new ground mesh
     return ground;
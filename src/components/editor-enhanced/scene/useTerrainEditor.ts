@@ -1,17 +1,51 @@
 import { useRef } from 'react';
 import * as BABYLON from '@babylonjs/core';
-
-type BrushMode = 'raise' | 'lower' | 'smooth' | 'paint';
+import type { TerrainBrushMode } from '@/types/editor';
+import { sculptPositions } from '@/features/terrain/heightfield';
+import { diffTerrainChannel, type TerrainChannel, type TerrainDelta } from '@/features/terrain/terrainDelta';
+import { paintTerrainSplat } from '../terrain/terrainSplat';
+import { groundGrid, readTerrainChannel } from '../terrain/terrainMesh';
 
 export function useTerrainEditor(params: {
   sceneRef: React.MutableRefObject<BABYLON.Scene | null>;
   groundRef: React.MutableRefObject<BABYLON.Mesh | null>;
   rebuildGroundBodyFromMesh: (ground: BABYLON.Mesh | null) => void;
+  /** Called once per finished stroke with what it changed */
+  onStroke?: (delta: TerrainDelta) => void;
 }) {
   const lastEditTimeRef = useRef<number>(0);
   const throttleMs = 16;
+  const strokeGapMs = 250;
+  const lastStrokeTimeRef = useRef<number>(0);
+  const flattenTargetRef = useRef<number | null>(null);
+  // Channel values when the current stroke began; a pause of strokeGapMs ends it
+  const strokeRef = useRef<{ ground: BABYLON.Mesh; channel: TerrainChannel; before: Float32Array } | null>(null);
+  const strokeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const finishStroke = () => {
+    if (strokeTimerRef.current) clearTimeout(strokeTimerRef.current);
+    strokeTimerRef.current = null;
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    if (!stroke || stroke.ground.isDisposed()) return;
+    const grid = groundGrid(stroke.ground);
+    const after = readTerrainChannel(stroke.ground, stroke.channel);
+    const delta = grid && after && diffTerrainChannel(stroke.channel, grid.resolution, stroke.before, after);
+    if (delta) params.onStroke?.(delta);
+  };
 
-  const applyBrush = (worldPoint: BABYLON.Vector3, mode: BrushMode, size: number, strength: number, color?: number) => {
+  const beginStroke = (ground: BABYLON.Mesh, channel: TerrainChannel) => {
+    const stroke = strokeRef.current;
+    if (!stroke || stroke.ground !== ground || stroke.channel !== channel) {
+      finishStroke();
+      const before = readTerrainChannel(ground, channel);
+      strokeRef.current = before ? { ground, channel, before } : null;
+    }
+    if (strokeTimerRef.current) clearTimeout(strokeTimerRef.current);
+    strokeTimerRef.current = setTimeout(finishStroke, strokeGapMs);
+  };
+
+  const applyBrush = (worldPoint: BABYLON.Vector3, mode: TerrainBrushMode, size: number, strength: number, color?: number, layer = -1) => {
     const scene = params.sceneRef.current;
     const ground = params.groundRef.current;
     if (!scene || !ground) return;
@@ -19,54 +53,60 @@ export function useTerrainEditor(params: {
     try {
       const positions = ground.getVerticesData(BABYLON.VertexBuffer.PositionKind);
       const colors = ground.getVerticesData(BABYLON.VertexBuffer.ColorKind);
-      const indices = ground.getIndices();
-      if (!positions || !indices) return;
-
-      const radius = Math.max(0.05, size);
-      const radiusSq = radius * radius;
-
-      for (let i = 0; i < positions.length; i += 3) {
-        const vx = positions[i];
-        const vy = positions[i + 1];
-        const vz = positions[i + 2];
-        const dx = vx - worldPoint.x;
-        const dz = vz - worldPoint.z;
-        const distSq = dx * dx + dz * dz;
-        if (distSq > radiusSq) continue;
-
-        const falloff = 1 - Math.sqrt(distSq) / radius;
-        const delta = strength * falloff;
-
-        if (mode === 'raise') {
-          positions[i + 1] = vy + delta;
-        } else if (mode === 'lower') {
-          positions[i + 1] = vy - delta;
-        } else if (mode === 'smooth') {
-          positions[i + 1] = vy * (1 - 0.3 * falloff) + worldPoint.y * (0.3 * falloff);
-        } else if (mode === 'paint') {
-          if (typeof color === 'number') {
-            if (!colors || colors.length !== (positions.length / 3) * 4) {
-              const vcount = positions.length / 3;
-              const newColors = new Array(vcount * 4).fill(1);
-              ground.setVerticesData(BABYLON.VertexBuffer.ColorKind, newColors, true);
-            }
-            const effective = ground.getVerticesData(BABYLON.VertexBuffer.ColorKind);
-            if (effective) {
-              const r = ((color >> 16) & 255) / 255;
-              const g = ((color >> 8) & 255) / 255;
-              const b = (color & 255) / 255;
-              const a = 1;
-              const idx = (i / 3) * 4;
-              effective[idx + 0] = effective[idx + 0] * (1 - falloff) + r * falloff;
-              effective[idx + 1] = effective[idx + 1] * (1 - falloff) + g * falloff;
-              effective[idx + 2] = effective[idx + 2] * (1 - falloff) + b * falloff;
-              effective[idx + 3] = a;
-              ground.updateVerticesData(BABYLON.VertexBuffer.ColorKind, effective);
-            }
-          }
+      if (!positions) return;
+
+      beginStroke(ground, mode !== 'paint' ? 'heights' : layer >= 0 ? 'splat' : 'colors');
+
+      // Texture layers paint the splat map; layer -1 keeps the vertex-colour tint
+      if (mode === 'paint' && layer >= 0) {
+        paintTerrainSplat(ground, worldPoint, layer, size, strength);
+        return;
+      }
+
+      if (mode === 'paint') {
+        if (typeof color !== 'number') return;
+        if (!colors || colors.length !== (positions.length / 3) * 4) {
+          const vcount = positions.length / 3;
+          const newColors = new Array(vcount * 4).fill(1);
+          ground.setVerticesData(BABYLON.VertexBuffer.ColorKind, newColors, true);
+        }
+        const effective = ground.getVerticesData(BABYLON.VertexBuffer.ColorKind);
+        if (!effective) return;
+        const radius = Math.max(0.05, size);
+        const r = ((color >> 16) & 255) / 255;
+        const g = ((color >> 8) & 255) / 255;
+        const b = (color & 255) / 255;
+        for (let i = 0; i < positions.length; i += 3) {
+          const dx = positions[i] - worldPoint.x;
+          const dz = positions[i + 2] - worldPoint.z;
+          const dist = Math.sqrt(dx * dx + dz * dz);
+          if (dist > radius) continue;
+          const falloff = 1 - dist / radius;
+          const idx = (i / 3) * 4;
+          effective[idx + 0] = effective[idx + 0] * (1 - falloff) + r * falloff;
+          effective[idx + 1] = effective[idx + 1] * (1 - falloff) + g * falloff;
+          effective[idx + 2] = effective[idx + 2] * (1 - falloff) + b * falloff;
+          effective[idx + 3] = 1;
         }
+        ground.updateVerticesData(BABYLON.VertexBuffer.ColorKind, effective);
+        return;
       }
 
+      // Flatten levels to the height under the cursor when the stroke began
+      const now = performance.now();
+      if (flattenTargetRef.current === null || now - lastStrokeTimeRef.current > strokeGapMs) {
+        flattenTargetRef.current = worldPoint.y;
+      }
+      lastStrokeTimeRef.current = now;
+
+      const changed = sculptPositions(positions, worldPoint, {
+        mode,
+        size,
+        strength,
+        targetHeight: flattenTargetRef.current,
+      });
+      if (!changed.length) return;
+
       ground.updateVerticesData(BABYLON.VertexBuffer.PositionKind, positions);
       ground.createNormals(true);
 
@@ -75,14 +115,14 @@ export function useTerrainEditor(params: {
     } catch {}
   };
 
-  const tryApplyBrushThrottled = (point: BABYLON.Vector3, mode: BrushMode, size: number, strength: number, color?: number) => {
+  const tryApplyBrushThrottled = (point: BABYLON.Vector3, mode: TerrainBrushMode, size: number, strength: number, color?: number, layer?: number) => {
     const now = performance.now();
     if (now - lastEditTimeRef.current < throttleMs) return;
     lastEditTimeRef.current = now;
-    applyBrush(point, mode, size, strength, color);
+    applyBrush(point, mode, size, strength, color, layer);
   };
 
-  return { applyBrush, tryApplyBrushThrottled } as const;
+  return { applyBrush, tryApplyBrushThrottled, finishStroke } as const;
 }
 
 
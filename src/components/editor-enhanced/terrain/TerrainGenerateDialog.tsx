@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dices } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DEFAULT_TERRAIN_GEN,
+  generateHeights,
+  heightsToGray,
+  type TerrainGenOptions,
+  type TerrainStyle,
+} from '@/features/terrain/heightfield';
+import { GROUND_SIZE, TERRAIN_RESOLUTIONS } from './terrainMesh';
+
+const STYLE_LABELS: Record<TerrainStyle, string> = {
+  fractal: 'Szum fraktalny',
+  ridges: 'Grzbiety',
+  islands: 'Wyspy',
+  plateaus: 'Płaskowyże',
+};
+
+const PREVIEW_RESOLUTION = 64;
+
+interface TerrainGenerateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onGenerate: (options: TerrainGenOptions, resolution: number) => void;
+}
+
+const SliderRow = ({ label, value, min, max, step, format, onChange }: {
+  label: string; value: number; min: number; max: number; step: number; format?: (v: number) => string; onChange: (v: number) => void;
+}) => (
+  <div>
+    <div className="flex items-center justify-between mb-1">
+      <Label>{label}</Label>
+      <span className="text-xs text-muted-foreground">{format ? format(value) : value}</span>
+    </div>
+    <Slider value={[value]} min={min} max={max} step={step} onValueChange={([v]) => onChange(v)} />
+  </div>
+);
+
+// Procedural terrain: pick a style and seed, preview, then replace the ground
+export const TerrainGenerateDialog: React.FC<TerrainGenerateDialogProps> = ({ open, onOpenChange, onGenerate }) => {
+  const [options, setOptions] = useState<TerrainGenOptions>(DEFAULT_TERRAIN_GEN);
+  const [resolution, setResolution] = useState(129);
+  const previewRef = useRef<HTMLCanvasElement | null>(null);
+  const update = (patch: Partial<TerrainGenOptions>) => setOptions((o) => ({ ...o, ...patch }));
+
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!open || !canvas || !ctx) return;
+    const heights = generateHeights(options, PREVIEW_RESOLUTION, GROUND_SIZE);
+    const { pixels } = heightsToGray(heights, { min: -options.height, max: options.height });
+    const image = ctx.createImageData(PREVIEW_RESOLUTION, PREVIEW_RESOLUTION);
+    image.data.set(pixels);
+    ctx.putImageData(image, 0, 0);
+  }, [open, options]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Generuj teren</DialogTitle>
+          <DialogDescription>Nowy teren zastąpi obecne podłoże razem z pomalowanymi kolorami.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4 text-sm">
+          <canvas
+            ref={previewRef}
+            width={PREVIEW_RESOLUTION}
+            height={PREVIEW_RESOLUTION}
+            className="w-36 h-36 rounded border border-border shrink-0"
+            style={{ imageRendering: 'pixelated' }}
+          />
+
+          <div className="flex-1 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <Label>Styl</Label>
+              <Select value={options.style} onValueChange={(style: TerrainStyle) => update({ style })}>
+                <SelectTrigger className="h-8 w-40 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STYLE_LABELS) as TerrainStyle[]).map(s => <SelectItem key={s} value={s}>{STYLE_LABELS[s]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor="terrain-seed">Ziarno</Label>
+              <div className="flex gap-1">
+                <Input
+                  id="terrain-seed"
+                  type="number"
+                  className="h-8 w-28 text-xs"
+                  value={options.seed}
+                  onChange={(e) => update({ seed: Math.trunc(Number(e.target.value)) || 0 })}
+                />
+                <Button variant="outline" size="icon" className="h-8 w-8" title="Losuj" onClick={() => update({ seed: Math.floor(Math.random() * 1_000_000) })}>
+                  <Dices className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <Label>Rozdzielczość</Label>
+              <Select value={String(resolution)} onValueChange={(v) => setResolution(Number(v))}>
+                <SelectTrigger className="h-8 w-40 text-xs"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {TERRAIN_RESOLUTIONS.map(r => <SelectItem key={r} value={String(r)}>{`${r} × ${r}`}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-3 text-sm">
+          <SliderRow label="Wielkość form" value={options.featureSize} min={10} max={150} step={5} format={(v) => `${v} m`} onChange={(featureSize) => update({ featureSize })} />
+          <SliderRow label="Wysokość" value={options.height} min={1} max={40} step={0.5} format={(v) => `${v} m`} onChange={(height) => update({ height })} />
+          <SliderRow label="Oktawy" value={options.octaves} min={1} max={8} step={1} onChange={(octaves) => update({ octaves })} />
+          <SliderRow label="Chropowatość" value={options.roughness} min={0.2} max={0.8} step={0.05} format={(v) => v.toFixed(2)} onChange={(roughness) => update({ roughness })} />
+          <SliderRow label="Erozja" value={options.erosion} min={0} max={60} step={1} format={(v) => (v ? `${v} przejść` : 'Wyłączona')} onChange={(erosion) => update({ erosion })} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOptions(DEFAULT_TERRAIN_GEN)}>Przywróć domyślne</Button>
+          <Button onClick={() => { onGenerate(options, resolution); onOpenChange(false); }}>Generuj</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TerrainGenerateDialog;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { Eye, EyeOff, Plus, Trash2, Palette } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { TerrainPaintLayer } from '@/types/editor';
+import {
+  MAX_TERRAIN_LAYERS,
+  TERRAIN_LAYER_TEXTURES,
+  createTerrainLayer,
+  type TerrainLayerTexture,
+} from '@/features/terrain/splat';
+
+interface TerrainLayerListProps {
+  layers: TerrainPaintLayer[];
+  /** Index painted by the brush; -1 selects the vertex-colour tint */
+  activeLayer: number;
+  onSelect: (index: number) => void;
+  onChange: (layers: TerrainPaintLayer[]) => void;
+  onRemove: (index: number) => void;
+}
+
+const hex = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+export const TerrainLayerList: React.FC<TerrainLayerListProps> = ({ layers, activeLayer, onSelect, onChange, onRemove }) => {
+  const update = (index: number, patch: Partial<TerrainPaintLayer>) =>
+    onChange(layers.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+
+  const addLayer = () => {
+    const used = new Set(layers.map((l) => l.texture));
+    const texture = (Object.keys(TERRAIN_LAYER_TEXTURES) as TerrainLayerTexture[]).find((t) => !used.has(t)) ?? 'grass';
+    onChange([...layers, createTerrainLayer(texture, `layer-${Date.now().toString(36)}`)]);
+    onSelect(layers.length);
+  };
+
+  const active = layers[activeLayer];
+
+  return (
+    <div className="space-y-2">
+      {layers.map((layer, index) => {
+        const swatch = TERRAIN_LAYER_TEXTURES[layer.texture as TerrainLayerTexture]?.color ?? 0x808080;
+        return (
+          <div
+            key={layer.id}
+            className={cn(
+              'flex items-center gap-2 rounded-md border px-2 py-1.5 cursor-pointer',
+              activeLayer === index ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted/50'
+            )}
+            onClick={() => onSelect(index)}
+          >
+            <div className="w-5 h-5 rounded border border-border shrink-0" style={{ backgroundColor: hex(swatch) }} />
+            <span className={cn('flex-1 text-sm truncate', !layer.visible && 'opacity-50')}>{layer.name}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title={layer.visible ? 'Ukryj' : 'Pokaż'}
+              onClick={(e) => { e.stopPropagation(); update(index, { visible: !layer.visible }); }}
+            >
+              {layer.visible ? <Eye className="w-3.5 h-3.5" /> : <EyeOff className="w-3.5 h-3.5" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Usuń warstwę"
+              disabled={layers.length <= 1}
+              onClick={(e) => { e.stopPropagation(); onRemove(index); }}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1 gap-1" disabled={layers.length >= MAX_TERRAIN_LAYERS} onClick={addLayer}>
+          <Plus className="w-4 h-4" /> Dodaj warstwę
+        </Button>
+        <Button
+          variant={activeLayer === -1 ? 'default' : 'outline'}
+          size="sm"
+          className="gap-1"
+          title="Maluj odcień kolorem zamiast tekstury"
+          onClick={() => onSelect(-1)}
+        >
+          <Palette className="w-4 h-4" /> Odcień
+        </Button>
+      </div>
+
+      {active && (
+        <div className="space-y-3 rounded-md bg-muted/40 p-3">
+          <div className="flex items-center justify-between gap-2">
+            <label className="text-sm">Tekstura</label>
+            <Select
+              value={active.texture}
+              onValueChange={(texture: TerrainLayerTexture) => update(activeLayer, { texture, name: TERRAIN_LAYER_TEXTURES[texture].name })}
+            >
+              <SelectTrigger className="h-8 w-32 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TERRAIN_LAYER_TEXTURES) as TerrainLayerTexture[]).map((t) => (
+                  <SelectItem key={t} value={t}>{TERRAIN_LAYER_TEXTURES[t].name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-sm">Powtórzenia</label>
+              <span className="text-xs text-muted-foreground">{active.tiling}×</span>
+            </div>
+            <Slider value={[active.tiling]} min={1} max={200} step={1} onValueChange={([tiling]) => update(activeLayer, { tiling })} />
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-sm">Intensywność</label>
+              <span className="text-xs text-muted-foreground">{Math.round(active.strength * 100)}%</span>
+            </div>
+            <Slider value={[active.strength]} min={0} max={1} step={0.05} onValueChange={([strength]) => update(activeLayer, { strength })} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TerrainLayerList;
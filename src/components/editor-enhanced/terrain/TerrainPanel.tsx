@@ -1,4 +1,4 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { 
   Mountain, 
   Waves, 
@@ -6,30 +6,66 @@ import {
   Circle, 
   Square,
   Triangle,
-  Sparkles
+  Sparkles,
+  Minus,
+  Activity,
+  Dices,
+  FileUp,
+  FileDown
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
+import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
+import { toast } from '@/hooks/use-toast';
 import { usePhysicsContext } from '../scene/PhysicsProvider';
+import type { TerrainBrushMode, TerrainPaintLayer } from '@/types/editor';
+import {
+  colorsToPixels,
+  generateHeights,
+  grayToHeights,
+  heightsToGray,
+  pixelsToColors,
+  type TerrainGenOptions,
+} from '@/features/terrain/heightfield';
+import { decodeImageFile, downloadBlob, encodePng, heightmapFilename, parseHeightmapRange } from '@/features/terrain/heightmapImage';
+import {
+  GROUND_SIZE,
+  TERRAIN_RESOLUTIONS,
+  MAX_TERRAIN_RESOLUTION,
+  applyHeightGrid,
+  groundGrid,
+  readGroundColors,
+  readGroundHeights,
+  writeGroundColors,
+  type TerrainTarget,
+} from './terrainMesh';
+import { TerrainGenerateDialog } from './TerrainGenerateDialog';
+import { TerrainLayerList } from './TerrainLayerList';
+import { enableTerrainSplat, getTerrainSplat } from './terrainSplat';
+import { DEFAULT_TERRAIN_LAYERS } from '@/features/terrain/splat';
 
 interface TerrainPanelProps {
   isVisible: boolean;
   onClose: () => void;
-  terrainBrushMode: 'raise' | 'lower' | 'smooth' | 'paint';
+  terrainBrushMode: TerrainBrushMode;
   terrainBrushSize: number;
   terrainBrushStrength: number;
   terrainBrushColor: number;
-  onBrushModeChange: (mode: 'raise' | 'lower' | 'smooth' | 'paint') => void;
+  terrainPaintLayer: number;
+  onBrushModeChange: (mode: TerrainBrushMode) => void;
   onBrushSizeChange: (size: number) => void;
   onBrushStrengthChange: (strength: number) => void;
   onBrushColorChange: (color: number) => void;
+  onPaintLayerChange: (layer: number) => void;
 }
 
 const terrainTools = [
   { mode: 'raise' as const, icon: Mountain, label: 'Podnieś', tooltip: 'Kliknij i przeciągaj, aby podnieść teren' },
   { mode: 'lower' as const, icon: Waves, label: 'Obniż', tooltip: 'Kliknij i przeciągaj, aby obniżyć teren' },
   { mode: 'smooth' as const, icon: Circle, label: 'Wygładź', tooltip: 'Wygładź nierówności terenu' },
+  { mode: 'flatten' as const, icon: Minus, label: 'Spłaszcz', tooltip: 'Wyrównaj teren do wysokości, od której zaczęto pociągnięcie' },
+  { mode: 'noise' as const, icon: Activity, label: 'Szum', tooltip: 'Dodaj naturalne nierówności' },
   { mode: 'paint' as const, icon: Paintbrush, label: 'Maluj', tooltip: 'Maluj teren wybranym kolorem' },
 ];
 
@@ -46,29 +82,136 @@ export const TerrainPanel: React.FC<TerrainPanelProps> = ({
   terrainBrushSize,
   terrainBrushStrength,
   terrainBrushColor,
+  terrainPaintLayer,
   onBrushModeChange,
   onBrushSizeChange,
   onBrushStrengthChange,
   onBrushColorChange,
+  onPaintLayerChange,
 }) => {
-  if (!isVisible) return null;
-
   const physics = usePhysicsContext();
+  const [generateOpen, setGenerateOpen] = useState(false);
+  const [heightRange, setHeightRange] = useState({ min: -5, max: 15 });
+  const heightInputRef = useRef<HTMLInputElement | null>(null);
+  const colorInputRef = useRef<HTMLInputElement | null>(null);
+
+  // The Babylon scene registers itself on window.scene3D
+  const getTerrainTarget = useCallback((): TerrainTarget | null => {
+    const scene3D = (window as any).scene3D;
+    const ground: TerrainTarget['ground'] = scene3D?.getGround?.() ?? null;
+    const scene: TerrainTarget['scene'] | null = scene3D?.getScene?.() || (window as any).__babylonScene__ || (ground ? ground.getScene() : null);
+    if (!scene) return null;
+    return {
+      scene,
+      ground,
+      physics,
+      setGround: (next) => scene3D?.setGround?.(next),
+    };
+  }, [physics]);
 
   const handleApplyPreset = useCallback((preset: 'flat' | 'hilly' | 'mountains') => {
     try {
-      const scene = (window as any).scene3D?.getScene?.() || (window as any).__babylonScene__;
-      // Fallback: try to derive scene from ground
-      const ground = (window as any).scene3D?.getGround?.();
-      const effectiveScene = scene || (ground ? ground.getScene() : null);
-      if (!effectiveScene) return;
-      const newGround = physics.applyTerrainPreset(effectiveScene, preset);
+      const target = getTerrainTarget();
+      if (!target) return;
+      const newGround = physics.applyTerrainPreset(target.scene, preset);
       // Update references used by input/brush systems
-      if ((window as any).scene3D?.setGround) {
-        (window as any).scene3D.setGround(newGround);
-      }
-    } catch {}
-  }, [physics]);
+      target.setGround(newGround);
+    } catch { /* scene torn down mid-swap */ }
+  }, [physics, getTerrainTarget]);
+
+  const handleGenerate = useCallback((options: TerrainGenOptions, resolution: number) => {
+    const target = getTerrainTarget();
+    if (!target) return;
+    try {
+      applyHeightGrid(target, generateHeights(options, resolution, GROUND_SIZE), resolution);
+    } catch (e) {
+      toast({ title: 'Nie udało się wygenerować terenu', description: e instanceof Error ? e.message : undefined, variant: 'destructive' });
+    }
+  }, [getTerrainTarget]);
+
+  const handleExportHeightmap = useCallback(async () => {
+    const ground = getTerrainTarget()?.ground;
+    const grid = ground ? groundGrid(ground) : null;
+    const heights = ground ? readGroundHeights(ground) : null;
+    if (!grid || !heights) return;
+    const { pixels, min, max } = heightsToGray(heights);
+    setHeightRange({ min, max });
+    downloadBlob(await encodePng(pixels, grid.resolution, grid.resolution), heightmapFilename(min, max));
+  }, [getTerrainTarget]);
+
+  const handleImportHeightmap = useCallback(async (file: File) => {
+    const target = getTerrainTarget();
+    if (!target) return;
+    try {
+      const image = await decodeImageFile(file);
+      // Exported files carry their own range; otherwise use the panel values
+      const range = parseHeightmapRange(file.name) ?? heightRange;
+      setHeightRange(range);
+      const side = Math.min(image.width, image.height);
+      const resolution = TERRAIN_RESOLUTIONS.find(r => r >= side) ?? MAX_TERRAIN_RESOLUTION;
+      const heights = grayToHeights(image.pixels, image.width, image.height, resolution, range.min, range.max);
+      applyHeightGrid(target, heights, resolution);
+      toast({ title: 'Zaimportowano mapę wysokości', description: `${resolution} × ${resolution}` });
+    } catch (e) {
+      toast({ title: 'Błąd importu', description: e instanceof Error ? e.message : 'Nieprawidłowy obraz', variant: 'destructive' });
+    }
+  }, [getTerrainTarget, heightRange]);
+
+  const handleExportColors = useCallback(async () => {
+    const ground = getTerrainTarget()?.ground;
+    const grid = ground ? groundGrid(ground) : null;
+    const colors = ground ? readGroundColors(ground) : null;
+    if (!grid) return;
+    if (!colors) {
+      toast({ title: 'Brak pomalowanej warstwy', description: 'Użyj pędzla „Maluj”, aby dodać kolory.' });
+      return;
+    }
+    downloadBlob(await encodePng(colorsToPixels(colors), grid.resolution, grid.resolution), 'terrain_colors.png');
+  }, [getTerrainTarget]);
+
+  const handleImportColors = useCallback(async (file: File) => {
+    const ground = getTerrainTarget()?.ground;
+    const grid = ground ? groundGrid(ground) : null;
+    if (!ground || !grid) return;
+    try {
+      const image = await decodeImageFile(file);
+      writeGroundColors(ground, pixelsToColors(image.pixels, image.width, image.height, grid.resolution));
+      toast({ title: 'Zaimportowano kolory terenu' });
+    } catch (e) {
+      toast({ title: 'Błąd importu', description: e instanceof Error ? e.message : 'Nieprawidłowy obraz', variant: 'destructive' });
+    }
+  }, [getTerrainTarget]);
+
+  // Layers live on the ground's splat map; show defaults until it has one
+  const [layers, setLayers] = useState<TerrainPaintLayer[]>(DEFAULT_TERRAIN_LAYERS);
+  useEffect(() => {
+    if (!isVisible) return;
+    const ground = getTerrainTarget()?.ground;
+    setLayers(ground ? getTerrainSplat(ground)?.layers ?? DEFAULT_TERRAIN_LAYERS : DEFAULT_TERRAIN_LAYERS);
+  }, [isVisible, getTerrainTarget]);
+
+  const handleLayersChange = useCallback((next: TerrainPaintLayer[]) => {
+    const ground = getTerrainTarget()?.ground;
+    const splat = ground ? enableTerrainSplat(ground, { layers: next }) : null;
+    setLayers(splat ? splat.layers : next);
+  }, [getTerrainTarget]);
+
+  const handleRemoveLayer = useCallback((index: number) => {
+    const ground = getTerrainTarget()?.ground;
+    const splat = ground ? enableTerrainSplat(ground, { layers }) : null;
+    splat?.removeLayer(index);
+    const next = splat ? splat.layers : layers.filter((_, i) => i !== index);
+    setLayers(next);
+    if (terrainPaintLayer >= next.length) onPaintLayerChange(next.length - 1);
+  }, [getTerrainTarget, layers, terrainPaintLayer, onPaintLayerChange]);
+
+  const pickFile = (e: React.ChangeEvent<HTMLInputElement>, handler: (file: File) => void) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) handler(file);
+  };
+
+  if (!isVisible) return null;
 
   return (
     <div className="absolute right-4 top-20 w-80 bg-card/95 backdrop-blur-md rounded-lg shadow-2xl border border-border/50 overflow-hidden animate-in slide-in-from-right duration-300">
@@ -113,6 +256,47 @@ export const TerrainPanel: React.FC<TerrainPanelProps> = ({
           </div>
         </div>
 
+        {/* Generation and heightmaps */}
+        <div>
+          <h4 className="text-sm font-medium mb-3 text-muted-foreground">Mapa wysokości</h4>
+          <Button variant="outline" size="sm" className="w-full gap-2 mb-2" onClick={() => setGenerateOpen(true)}>
+            <Dices className="w-4 h-4" />
+            Generuj teren…
+          </Button>
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" size="sm" className="gap-1" onClick={() => heightInputRef.current?.click()} title="Szary PNG: czarny = min, biały = max">
+              <FileUp className="w-4 h-4" /> Wysokości
+            </Button>
+            <Button variant="outline" size="sm" className="gap-1" onClick={handleExportHeightmap}>
+              <FileDown className="w-4 h-4" /> Wysokości
+            </Button>
+            <Button variant="outline" size="sm" className="gap-1" onClick={() => colorInputRef.current?.click()}>
+              <FileUp className="w-4 h-4" /> Kolory
+            </Button>
+            <Button variant="outline" size="sm" className="gap-1" onClick={handleExportColors}>
+              <FileDown className="w-4 h-4" /> Kolory
+            </Button>
+          </div>
+          <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+            <span>Zakres importu</span>
+            <Input
+              type="number"
+              className="h-7 w-16 text-xs"
+              value={heightRange.min}
+              onChange={(e) => setHeightRange(r => ({ ...r, min: Number(e.target.value) }))}
+            />
+            <span>–</span>
+            <Input
+              type="number"
+              className="h-7 w-16 text-xs"
+              value={heightRange.max}
+              onChange={(e) => setHeightRange(r => ({ ...r, max: Number(e.target.value) }))}
+            />
+          </div>
+          <input ref={heightInputRef} type="file" accept="image/png" className="hidden" onChange={(e) => pickFile(e, handleImportHeightmap)} />
+          <input ref={colorInputRef} type="file" accept="image/png" className="hidden" onChange={(e) => pickFile(e, handleImportColors)} />
+        </div>
+
         {/* Terrain Tools */}
         <div>
           <h4 className="text-sm font-medium mb-3 text-muted-foreground">Narzędzia terenu</h4>
@@ -181,8 +365,22 @@ export const TerrainPanel: React.FC<TerrainPanelProps> = ({
             </div>
           </div>
 
-          {/* Color Picker (only for paint mode) */}
+          {/* Texture layers (paint mode) */}
           {terrainBrushMode === 'paint' && (
+            <div>
+              <label className="text-sm block mb-2">Warstwy tekstur</label>
+              <TerrainLayerList
+                layers={layers}
+                activeLayer={terrainPaintLayer}
+                onSelect={onPaintLayerChange}
+                onChange={handleLayersChange}
+                onRemove={handleRemoveLayer}
+              />
+            </div>
+          )}
+
+          {/* Color Picker (vertex-colour tint) */}
+          {terrainBrushMode === 'paint' && terrainPaintLayer === -1 && (
             <div>
               <div className="flex items-center justify-between mb-2">
                 <label className="text-sm">Kolor</label>
@@ -241,6 +439,8 @@ export const TerrainPanel: React.FC<TerrainPanelProps> = ({
           </div>
         </div>
       </div>
+
+      <TerrainGenerateDialog open={generateOpen} onOpenChange={setGenerateOpen} onGenerate={handleGenerate} />
     </div>
   );
 };
@@ -0,0 +1,169 @@
+import * as BABYLON from '@babylonjs/core';
+import type { TerrainData } from '@/types/project';
+import { heightsFromPositions, writeHeightsToPositions } from '@/features/terrain/heightfield';
+import { createSplatWeights, resampleSplat } from '@/features/terrain/splat';
+import { GROUND_SIZE, MAX_TERRAIN_RESOLUTION, decodeTerrain } from '@/features/terrain/terrainData';
+import { applyTerrainDelta, type TerrainChannel, type TerrainDelta, type TerrainDeltaDirection } from '@/features/terrain/terrainDelta';
+import { captureTerrainSplat, enableTerrainSplat, getTerrainSplat, restoreTerrainSplat } from './terrainSplat';
+
+// Reading and writing the editor ground mesh as a square height grid.
+
+export interface TerrainTarget {
+  scene: BABYLON.Scene;
+  ground: BABYLON.Mesh | null;
+  physics: {
+    applyTerrainPreset: (scene: BABYLON.Scene, presetType: 'flat' | 'hilly' | 'mountains', options?: { subdivisions?: number }) => BABYLON.Mesh;
+    rebuildGroundBodyFromMesh: (ground: BABYLON.Mesh) => void;
+  };
+  setGround: (ground: BABYLON.Mesh) => void;
+}
+
+export { GROUND_SIZE, MAX_TERRAIN_RESOLUTION, decodeTerrain };
+/** Vertices per side offered for generated and imported terrain */
+export const TERRAIN_RESOLUTIONS = [65, 129, 257];
+
+export function groundGrid(ground: BABYLON.Mesh) {
+  const count = ground.getTotalVertices();
+  const resolution = Math.round(Math.sqrt(count));
+  if (resolution < 2 || resolution * resolution !== count) return null;
+  const extent = ground.getBoundingInfo().boundingBox.extendSize;
+  return { resolution, size: extent.x * 2 || GROUND_SIZE };
+}
+
+export function readGroundHeights(ground: BABYLON.Mesh) {
+  const positions = ground.getVerticesData(BABYLON.VertexBuffer.PositionKind);
+  return positions ? heightsFromPositions(positions) : null;
+}
+
+export function writeGroundHeights(ground: BABYLON.Mesh, heights: ArrayLike<number>) {
+  const positions = ground.getVerticesData(BABYLON.VertexBuffer.PositionKind);
+  if (!positions) return;
+  writeHeightsToPositions(positions, heights);
+  ground.updateVerticesData(BABYLON.VertexBuffer.PositionKind, positions);
+  ground.createNormals(true);
+  ground.refreshBoundingInfo();
+}
+
+export function readGroundColors(ground: BABYLON.Mesh) {
+  const colors = ground.getVerticesData(BABYLON.VertexBuffer.ColorKind);
+  return colors && colors.length === ground.getTotalVertices() * 4 ? Float32Array.from(colors) : null;
+}
+
+export function writeGroundColors(ground: BABYLON.Mesh, colors: ArrayLike<number>) {
+  ground.setVerticesData(BABYLON.VertexBuffer.ColorKind, Array.from(colors), true);
+}
+
+/**
+ * One channel of the ground as stroke deltas see it. Channels the ground has
+ * no data for yet read as what the brush starts from: white tint, or all
+ * weight on the first texture layer.
+ */
+export function readTerrainChannel(ground: BABYLON.Mesh, channel: TerrainChannel): Float32Array | null {
+  const vertexCount = ground.getTotalVertices();
+  if (channel === 'heights') return readGroundHeights(ground);
+  if (channel === 'colors') return readGroundColors(ground) ?? new Float32Array(vertexCount * 4).fill(1);
+  const splat = getTerrainSplat(ground);
+  return splat ? Float32Array.from(splat.weights) : createSplatWeights(vertexCount);
+}
+
+function writeTerrainChannel(ground: BABYLON.Mesh, channel: TerrainChannel, values: Float32Array) {
+  if (channel === 'heights') writeGroundHeights(ground, values);
+  else if (channel === 'colors') writeGroundColors(ground, values);
+  else {
+    const splat = getTerrainSplat(ground) ?? enableTerrainSplat(ground);
+    if (!splat) return;
+    splat.weights.set(values);
+    splat.refresh();
+  }
+}
+
+/**
+ * Applies a stroke delta (undo, redo or a collaborator's stroke) to the
+ * ground and returns the change actually made. Deltas recorded on a grid of
+ * another resolution no longer line up and are dropped.
+ */
+export function applyTerrainDeltaToGround(
+  target: Pick<TerrainTarget, 'ground' | 'physics'>,
+  delta: TerrainDelta,
+  direction: TerrainDeltaDirection,
+  options: { rebase?: boolean } = {}
+): TerrainDelta | null {
+  const ground = target.ground;
+  const grid = ground ? groundGrid(ground) : null;
+  if (!ground || grid?.resolution !== delta.resolution) return null;
+  const values = readTerrainChannel(ground, delta.channel);
+  if (!values) return null;
+  const applied = applyTerrainDelta(values, delta, direction, options);
+  if (!applied) return null;
+  writeTerrainChannel(ground, delta.channel, values);
+  if (delta.channel === 'heights') target.physics.rebuildGroundBodyFromMesh(ground);
+  return applied;
+}
+
+/** Swaps in a flat ground with the requested vertex count per side when it differs. */
+export function ensureGroundResolution(target: TerrainTarget, resolution: number) {
+  const current = target.ground ? groundGrid(target.ground) : null;
+  if (target.ground && current?.resolution === resolution) return target.ground;
+  // The preset swap disposes the old mesh, so carry its splat map over first
+  const carried = target.ground ? getTerrainSplat(target.ground) : null;
+  const splat = carried && { layers: carried.layers, weights: resampleSplat(carried.weights, carried.resolution, resolution) };
+  const ground = target.physics.applyTerrainPreset(target.scene, 'flat', { subdivisions: resolution - 1 });
+  if (splat) enableTerrainSplat(ground, splat);
+  target.setGround(ground);
+  return ground;
+}
+
+/** Writes a height grid (and optional paint layer) and rebuilds the physics body. */
+export function applyHeightGrid(target: TerrainTarget, heights: ArrayLike<number>, resolution: number, colors?: ArrayLike<number> | null) {
+  const ground = ensureGroundResolution(target, resolution);
+  writeGroundHeights(ground, heights);
+  if (colors && colors.length === resolution * resolution * 4) writeGroundColors(ground, colors);
+  target.physics.rebuildGroundBodyFromMesh(ground);
+  return ground;
+}
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
+
+export function captureTerrain(ground: BABYLON.Mesh): TerrainData | null {
+  const grid = groundGrid(ground);
+  const heights = readGroundHeights(ground);
+  if (!grid || !heights) return null;
+  const colors = readGroundColors(ground);
+  return {
+    size: grid.size,
+    resolution: grid.resolution,
+    heights: Array.from(heights, round),
+    ...(colors ? { colors: Array.from(colors, round) } : {}),
+    ...captureTerrainSplat(ground),
+  };
+}
+
+/** Restores saved terrain onto the editor ground, physics included. */
+export function applyTerrain(terrain: TerrainData, target: TerrainTarget) {
+  const grid = decodeTerrain(terrain);
+  if (!grid) return null;
+  const ground = applyHeightGrid(target, grid.heights, grid.resolution, grid.colors);
+  restoreTerrainSplat(ground, grid);
+  return ground;
+}
+
+/** Standalone terrain mesh for previews: no physics, same material as the editor ground. */
+export function createTerrainMesh(scene: BABYLON.Scene, terrain: TerrainData) {
+  const grid = decodeTerrain(terrain);
+  if (!grid) return null;
+  const ground = BABYLON.MeshBuilder.CreateGround('ground', {
+    width: GROUND_SIZE,
+    height: GROUND_SIZE,
+    subdivisions: grid.resolution - 1,
+    updatable: true,
+  }, scene);
+  const material = new BABYLON.PBRMaterial('groundMaterial', scene);
+  material.albedoColor = new BABYLON.Color3(0.29, 0.62, 0.29);
+  material.metallic = 0;
+  material.roughness = 0.9;
+  ground.material = material;
+  writeGroundHeights(ground, grid.heights);
+  if (grid.colors) writeGroundColors(ground, grid.colors);
+  restoreTerrainSplat(ground, grid);
+  return ground;
+}
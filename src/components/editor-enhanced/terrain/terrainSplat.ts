@@ -0,0 +1,274 @@
+import * as BABYLON from '@babylonjs/core';
+import type { TerrainPaintLayer } from '@/types/editor';
+import { drawTerrainLayerCanvas } from '@/features/terrain/layerCanvas';
+import {
+  MAX_TERRAIN_LAYERS,
+  createSplatWeights,
+  effectiveLayerWeights,
+  normalizeTerrainLayers,
+  paintSplat,
+  removeSplatLayer,
+  splatFromBytes,
+  splatToBytes,
+  type TerrainLayerTexture,
+} from '@/features/terrain/splat';
+
+// Splat-mapped terrain material: a PBR material plugin blends up to four
+// tiling layer textures by per-vertex weights uploaded as an RGBA texture.
+
+const layerTextures = new WeakMap<BABYLON.Scene, Map<TerrainLayerTexture, BABYLON.Texture>>();
+
+export function getLayerTexture(scene: BABYLON.Scene, texture: TerrainLayerTexture) {
+  let cache = layerTextures.get(scene);
+  if (!cache) {
+    cache = new Map();
+    layerTextures.set(scene, cache);
+  }
+  let tex = cache.get(texture);
+  if (!tex) {
+    const dynamic = new BABYLON.DynamicTexture(`terrainLayer_${texture}`, drawTerrainLayerCanvas(texture), scene, true);
+    dynamic.wrapU = BABYLON.Texture.WRAP_ADDRESSMODE;
+    dynamic.wrapV = BABYLON.Texture.WRAP_ADDRESSMODE;
+    dynamic.anisotropicFilteringLevel = 8;
+    dynamic.update();
+    tex = dynamic;
+    cache.set(texture, tex);
+  }
+  return tex;
+}
+
+const SAMPLERS = ['terrainSplat', 'terrainLayer0', 'terrainLayer1', 'terrainLayer2', 'terrainLayer3'];
+
+class TerrainSplatPlugin extends BABYLON.MaterialPluginBase {
+  splatTexture: BABYLON.BaseTexture | null = null;
+  layerTextures: (BABYLON.BaseTexture | null)[] = [null, null, null, null];
+  tiling = [40, 40, 40, 40];
+  strength = [1, 0, 0, 0];
+  size = 200;
+  resolution = 2;
+  private active = false;
+
+  constructor(material: BABYLON.PBRBaseMaterial) {
+    super(material, 'TerrainSplat', 200, { TERRAIN_SPLAT: false });
+    this._enable(true);
+  }
+
+  setActive(active: boolean) {
+    if (this.active === active) return;
+    this.active = active;
+    this.markAllDefinesAsDirty();
+  }
+
+  getClassName() {
+    return 'TerrainSplatPlugin';
+  }
+
+  prepareDefines(defines: BABYLON.MaterialDefines) {
+    defines.TERRAIN_SPLAT = this.active && !!this.splatTexture;
+  }
+
+  isReadyForSubMesh() {
+    if (!this.active) return true;
+    return [this.splatTexture, ...this.layerTextures].every((t) => !t || t.isReady());
+  }
+
+  getSamplers(samplers: string[]) {
+    samplers.push(...SAMPLERS);
+  }
+
+  getUniforms() {
+    return {
+      ubo: [
+        { name: 'terrainTiling', size: 4, type: 'vec4' },
+        { name: 'terrainLayerStrength', size: 4, type: 'vec4' },
+        { name: 'terrainGridInfo', size: 4, type: 'vec4' },
+      ],
+      fragment: `#ifdef TERRAIN_SPLAT
+        uniform vec4 terrainTiling;
+        uniform vec4 terrainLayerStrength;
+        uniform vec4 terrainGridInfo;
+      #endif`,
+    };
+  }
+
+  bindForSubMesh(uniformBuffer: BABYLON.UniformBuffer) {
+    if (!this.active || !this.splatTexture) return;
+    const [t0, t1, t2, t3] = this.tiling;
+    const [s0, s1, s2, s3] = this.strength;
+    uniformBuffer.updateFloat4('terrainTiling', t0, t1, t2, t3);
+    uniformBuffer.updateFloat4('terrainLayerStrength', s0, s1, s2, s3);
+    uniformBuffer.updateFloat4('terrainGridInfo', this.size, this.resolution, 0, 0);
+    uniformBuffer.setTexture('terrainSplat', this.splatTexture);
+    this.layerTextures.forEach((tex, i) => uniformBuffer.setTexture(`terrainLayer${i}`, tex));
+  }
+
+  getCustomCode(shaderType: string) {
+    if (shaderType !== 'fragment') return null;
+    return {
+      CUSTOM_FRAGMENT_DEFINITIONS: `#ifdef TERRAIN_SPLAT
+        uniform sampler2D terrainSplat;
+        uniform sampler2D terrainLayer0;
+        uniform sampler2D terrainLayer1;
+        uniform sampler2D terrainLayer2;
+        uniform sampler2D terrainLayer3;
+      #endif`,
+      // Grid row 0 is +Z, matching how the weights are laid out in the texture
+      CUSTOM_FRAGMENT_UPDATE_ALBEDO: `#ifdef TERRAIN_SPLAT
+        float terrainHalf = terrainGridInfo.x * 0.5;
+        vec2 terrainGrid = clamp(vec2(vPositionW.x + terrainHalf, terrainHalf - vPositionW.z) / terrainGridInfo.x, 0.0, 1.0);
+        vec2 terrainSplatUV = (terrainGrid * (terrainGridInfo.y - 1.0) + 0.5) / terrainGridInfo.y;
+        vec4 terrainW = texture2D(terrainSplat, terrainSplatUV) * terrainLayerStrength;
+        float terrainSum = dot(terrainW, vec4(1.0));
+        if (terrainSum > 0.001) {
+          vec2 terrainUV = vPositionW.xz / terrainGridInfo.x;
+          vec3 terrainColor =
+            toLinearSpace(texture2D(terrainLayer0, terrainUV * terrainTiling.x).rgb) * terrainW.x +
+            toLinearSpace(texture2D(terrainLayer1, terrainUV * terrainTiling.y).rgb) * terrainW.y +
+            toLinearSpace(texture2D(terrainLayer2, terrainUV * terrainTiling.z).rgb) * terrainW.z +
+            toLinearSpace(texture2D(terrainLayer3, terrainUV * terrainTiling.w).rgb) * terrainW.w;
+          surfaceAlbedo *= terrainColor / terrainSum;
+        }
+      #endif`,
+    };
+  }
+}
+
+export interface TerrainSplat {
+  readonly layers: TerrainPaintLayer[];
+  readonly weights: Float32Array;
+  readonly resolution: number;
+  setLayers: (layers: TerrainPaintLayer[]) => void;
+  /** Removes a layer and the weights painted with it */
+  removeLayer: (index: number) => void;
+  /** Paints one layer around a world point; returns the vertices that changed */
+  paint: (center: { x: number; z: number }, layer: number, size: number, strength: number) => number[];
+  /** Re-uploads the weights after they were edited directly */
+  refresh: () => void;
+  dispose: () => void;
+}
+
+const splats = new WeakMap<BABYLON.Mesh, TerrainSplat>();
+
+export function getTerrainSplat(ground: BABYLON.Mesh) {
+  return splats.get(ground) ?? null;
+}
+
+/**
+ * Turns on splat rendering for a square ground mesh. Existing weights are
+ * kept; pass `weights` (vertex-major RGBA) to restore a saved splat map.
+ */
+export function enableTerrainSplat(
+  ground: BABYLON.Mesh,
+  options: { layers?: TerrainPaintLayer[]; weights?: Float32Array; size?: number } = {}
+): TerrainSplat | null {
+  const existing = splats.get(ground);
+  if (existing) {
+    if (options.layers) existing.setLayers(options.layers);
+    if (options.weights && options.weights.length === existing.weights.length) {
+      existing.weights.set(options.weights);
+      existing.refresh();
+    }
+    return existing;
+  }
+
+  const material = ground.material;
+  if (!(material instanceof BABYLON.PBRBaseMaterial)) return null;
+  const scene = ground.getScene();
+  const vertexCount = ground.getTotalVertices();
+  const resolution = Math.round(Math.sqrt(vertexCount));
+  if (resolution < 2 || resolution * resolution !== vertexCount) return null;
+
+  const weights = options.weights && options.weights.length === vertexCount * 4
+    ? Float32Array.from(options.weights)
+    : createSplatWeights(vertexCount);
+  let layers = normalizeTerrainLayers(options.layers);
+
+  const texture = BABYLON.RawTexture.CreateRGBATexture(
+    splatToBytes(weights), resolution, resolution, scene, false, false, BABYLON.Texture.BILINEAR_SAMPLINGMODE
+  );
+  texture.wrapU = BABYLON.Texture.CLAMP_ADDRESSMODE;
+  texture.wrapV = BABYLON.Texture.CLAMP_ADDRESSMODE;
+
+  const plugin = new TerrainSplatPlugin(material);
+  plugin.splatTexture = texture;
+  plugin.resolution = resolution;
+  plugin.size = options.size ?? (ground.getBoundingInfo().boundingBox.extendSize.x * 2 || 200);
+
+  // Layer textures carry the colour; the base albedo only tints via vertex colours
+  const albedo = material instanceof BABYLON.PBRMaterial ? material.albedoColor.clone() : null;
+  if (material instanceof BABYLON.PBRMaterial) material.albedoColor = BABYLON.Color3.White();
+
+  const applyLayers = () => {
+    plugin.layerTextures = Array.from({ length: MAX_TERRAIN_LAYERS }, (_, i) => {
+      const layer = layers[i];
+      return getLayerTexture(scene, (layer?.texture as TerrainLayerTexture) ?? 'grass');
+    });
+    plugin.tiling = Array.from({ length: MAX_TERRAIN_LAYERS }, (_, i) => layers[i]?.tiling ?? 1);
+    plugin.strength = effectiveLayerWeights(layers);
+  };
+  applyLayers();
+  plugin.setActive(true);
+
+  const splat: TerrainSplat = {
+    get layers() { return layers; },
+    weights,
+    resolution,
+    setLayers: (next) => {
+      layers = normalizeTerrainLayers(next);
+      applyLayers();
+    },
+    removeLayer: (index) => {
+      if (layers.length <= 1 || index < 0 || index >= layers.length) return;
+      layers = layers.filter((_, i) => i !== index);
+      removeSplatLayer(weights, index);
+      applyLayers();
+      splat.refresh();
+    },
+    paint: (center, layer, size, strength) => {
+      const positions = ground.getVerticesData(BABYLON.VertexBuffer.PositionKind);
+      if (!positions || layer < 0 || layer >= layers.length) return [];
+      const changed = paintSplat(weights, positions, center, layer, size, strength);
+      if (changed.length) splat.refresh();
+      return changed;
+    },
+    refresh: () => texture.update(splatToBytes(weights)),
+    dispose: () => {
+      plugin.setActive(false);
+      plugin.dispose();
+      texture.dispose();
+      if (albedo && material instanceof BABYLON.PBRMaterial) material.albedoColor = albedo;
+      splats.delete(ground);
+    },
+  };
+  splats.set(ground, splat);
+  ground.onDisposeObservable.addOnce(() => {
+    texture.dispose();
+    splats.delete(ground);
+  });
+  return splat;
+}
+
+/** Paints a layer, enabling the splat map with default layers on first use. */
+export function paintTerrainSplat(ground: BABYLON.Mesh, center: { x: number; z: number }, layer: number, size: number, strength: number) {
+  const splat = getTerrainSplat(ground) ?? enableTerrainSplat(ground);
+  return splat ? splat.paint(center, layer, size, strength) : [];
+}
+
+export function captureTerrainSplat(ground: BABYLON.Mesh) {
+  const splat = getTerrainSplat(ground);
+  if (!splat) return null;
+  return { layers: splat.layers.map((l) => ({ ...l })), splat: Array.from(splatToBytes(splat.weights)) };
+}
+
+export function restoreTerrainSplat(ground: BABYLON.Mesh, data: { layers?: unknown; splat?: unknown }) {
+  const vertexCount = ground.getTotalVertices();
+  const bytes = Array.isArray(data.splat) && data.splat.length === vertexCount * 4 ? data.splat : null;
+  if (!bytes && !Array.isArray(data.layers)) {
+    getTerrainSplat(ground)?.dispose();
+    return null;
+  }
+  return enableTerrainSplat(ground, {
+    layers: normalizeTerrainLayers(data.layers),
+    weights: bytes ? splatFromBytes(bytes) : undefined,
+  });
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, Grid, List, Star, Clock, X, Info, Layers } from 'lucide-react';
+import { Search, Grid, List, Star, Clock, X, Info, Layers, Package, Trash2, Upload } from 'lucide-react';
 import { Block } from '../scene/types';
 import { 
   blockCategories, 
@@ -12,6 +12,8 @@ import {
   blockMetadata
 } from '../scene/blocks/blockCategories';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
+import { useUserModels } from '@/hooks/useUserModels';
+import { useProjectStore } from '@/lib/projectStore';
 
 interface CreativeInventoryProps {
   isOpen: boolean;
@@ -20,6 +22,8 @@ interface CreativeInventoryProps {
   selectedBlock?: Block['type'];
   recentBlocks?: Block['type'][];
   favoriteBlocks?: Block['type'][];
+  /** Arm an uploaded model for placement; defaults to the editor store */
+  onSelectModel?: (assetId: string) => void;
 }
 
 export const CreativeInventory: React.FC<CreativeInventoryProps> = ({
@@ -28,13 +32,33 @@ export const CreativeInventory: React.FC<CreativeInventoryProps> = ({
   onSelectBlock,
   selectedBlock,
   recentBlocks = [],
-  favoriteBlocks: propFavorites = []
+  favoriteBlocks: propFavorites = [],
+  onSelectModel
 }) => {
   const [selectedCategory, setSelectedCategory] = useState<BlockCategory>('basic');
   const [searchQuery, setSearchQuery] = useState('');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [favorites, setFavorites] = useLocalStorage<Block['type'][]>('block-favorites', propFavorites);
   const [showInfo, setShowInfo] = useState<Block['type'] | null>(null);
+  const userModels = useUserModels();
+  const [modelError, setModelError] = useState<string | null>(null);
+  const setDroppedBlock = useProjectStore(s => s.setDroppedBlock);
+  const droppedBlock = useProjectStore(s => s.droppedBlock);
+
+  const selectModel = (assetId: string) => {
+    if (onSelectModel) onSelectModel(assetId);
+    else setDroppedBlock({ type: 'model', assetId });
+    onClose();
+  };
+
+  const uploadModel = async (file: File) => {
+    setModelError(null);
+    try {
+      await userModels.upload(file);
+    } catch (err) {
+      setModelError(err instanceof Error ? err.message : 'Upload failed');
+    }
+  };
   
   // Get blocks for current view
   const getDisplayBlocks = (): Block['type'][] => {
@@ -264,7 +288,9 @@ export const CreativeInventory: React.FC<CreativeInventoryProps> = ({
                   {/* Dynamic categories */}
                   {dynamicCategories.map(category => {
                     const Icon = category.icon;
-                    const count = category.id === 'recent' ? recentBlocks.length : favorites.length;
+                    const count = category.id === 'recent' ? recentBlocks.length
+                      : category.id === 'models' ? userModels.assets.length
+                      : favorites.length;
                     
                     return (
                       <button
@@ -310,7 +336,63 @@ export const CreativeInventory: React.FC<CreativeInventoryProps> = ({
               
               {/* Blocks grid/list */}
               <div className="flex-1 p-4 overflow-y-auto">
-                {displayBlocks.length > 0 ? (
+                {selectedCategory === 'models' && !searchQuery ? (
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-3">
+                      <label className="inline-flex items-center gap-2 px-3 py-2 border rounded-lg cursor-pointer hover:bg-gray-50">
+                        <Upload size={16} /> Upload .glb
+                        <input
+                          type="file"
+                          accept=".glb,model/gltf-binary"
+                          className="hidden"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) void uploadModel(file);
+                          }}
+                        />
+                      </label>
+                      {(modelError || userModels.error) && (
+                        <span className="text-sm text-red-500">{modelError || userModels.error}</span>
+                      )}
+                    </div>
+                    {userModels.assets.length === 0 ? (
+                      <p className="text-gray-400">{userModels.loading ? 'Loading models...' : 'No models uploaded yet'}</p>
+                    ) : (
+                      <div className="grid grid-cols-6 gap-3">
+                        {userModels.assets.map(asset => (
+                          <motion.div
+                            key={asset.id}
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                            className={`
+                              relative aspect-square rounded-lg p-4 cursor-pointer border-2 transition-all duration-200
+                              ${droppedBlock?.type === 'model' && droppedBlock.assetId === asset.id ? 'bg-blue-100 border-blue-500' : 'bg-gray-100 hover:bg-gray-200 border-gray-400'}
+                            `}
+                            title={`${asset.triangles} triangles`}
+                            onClick={() => selectModel(asset.id)}
+                          >
+                            <div className="w-full h-full flex items-center justify-center">
+                              <Package size={32} style={{ color: '#0ea5e9' }} />
+                            </div>
+                            <div className="absolute bottom-1 left-1 right-1 text-xs text-center truncate">
+                              {asset.name}
+                            </div>
+                            <button
+                              className="absolute top-1 right-1 p-1"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                userModels.remove(asset.id).catch(err => setModelError(err instanceof Error ? err.message : 'Delete failed'));
+                              }}
+                            >
+                              <Trash2 size={16} className="text-gray-400 hover:text-red-500" />
+                            </button>
+                          </motion.div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ) : displayBlocks.length > 0 ? (
                   <div className={
                     viewMode === 'grid' 
                       ? 'grid grid-cols-6 gap-3' 
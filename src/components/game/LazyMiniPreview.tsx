@@ -2,6 +2,10 @@ import { memo, useEffect, useMemo, useRef, useState } from 'react';
 import MiniPreview from './MiniPreview';
 import { apiFetch } from '@/lib/api';
 import { generateMiniPreviewDataUrl } from '@/lib/miniPreviewGenerator';
+import { parseTerrainData } from '@/features/terrain/terrainData';
+import type { TerrainData } from '@/types/project';
+
+type GameDetail = { game: { id: string; blocks: any[]; terrain?: string | TerrainData | null } };
 
 type LazyMiniPreviewProps = {
   gameId: string;
@@ -16,6 +20,7 @@ const LazyMiniPreview = memo(({ gameId, className }: LazyMiniPreviewProps) => {
   const [hovered, setHovered] = useState<boolean>(false);
   const loadingRef = useRef<boolean>(false);
   const containerRef = useRef<HTMLDivElement | null>(null);
+  const terrainRef = useRef<TerrainData | null>(null);
 
   // Trigger fetch when intersecting or hovered
   useEffect(() => {
@@ -26,11 +31,12 @@ const LazyMiniPreview = memo(({ gameId, className }: LazyMiniPreviewProps) => {
       if (loadingRef.current || loaded) return;
       loadingRef.current = true;
       try {
-        const detail = await apiFetch<{ game: { id: string; blocks: any[] } }>(`/games/${gameId}`);
+        const detail = await apiFetch<GameDetail>(`/games/${gameId}`);
         const list = Array.isArray(detail.game.blocks) ? detail.game.blocks : [];
+        terrainRef.current = parseTerrainData(detail.game.terrain);
         setBlocks(list);
         // One-shot render to data URL for perf
-        const url = await generateMiniPreviewDataUrl(list, { width: 480, height: 270, jpegQuality: 0.6, hardwareScale: 2, usePipeline: false });
+        const url = await generateMiniPreviewDataUrl(list, { terrain: terrainRef.current, width: 480, height: 270, jpegQuality: 0.6, hardwareScale: 2, usePipeline: false });
         setImageUrl(url);
         setLoaded(true);
       } catch {
@@ -57,10 +63,11 @@ const LazyMiniPreview = memo(({ gameId, className }: LazyMiniPreviewProps) => {
         if (loadingRef.current) return;
         loadingRef.current = true;
         try {
-          const detail = await apiFetch<{ game: { id: string; blocks: any[] } }>(`/games/${gameId}`);
+          const detail = await apiFetch<GameDetail>(`/games/${gameId}`);
           const list = Array.isArray(detail.game.blocks) ? detail.game.blocks : [];
+          terrainRef.current = parseTerrainData(detail.game.terrain);
           setBlocks(list);
-          const url = await generateMiniPreviewDataUrl(list, { width: 480, height: 270, jpegQuality: 0.6, hardwareScale: 2, usePipeline: true, msaaSamples: 2 });
+          const url = await generateMiniPreviewDataUrl(list, { terrain: terrainRef.current, width: 480, height: 270, jpegQuality: 0.6, hardwareScale: 2, usePipeline: true, msaaSamples: 2 });
           setImageUrl(url);
           setLoaded(true);
           enhancedRef.current = true;
@@ -76,7 +83,7 @@ const LazyMiniPreview = memo(({ gameId, className }: LazyMiniPreviewProps) => {
     if (hovered && loaded && imageUrl && !enhancedRef.current && blocks.length > 0) {
       (async () => {
         try {
-          const url = await generateMiniPreviewDataUrl(blocks, { width: 480, height: 270, jpegQuality: 0.7, hardwareScale: 2, usePipeline: true, msaaSamples: 2 });
+          const url = await generateMiniPreviewDataUrl(blocks, { terrain: terrainRef.current, width: 480, height: 270, jpegQuality: 0.7, hardwareScale: 2, usePipeline: true, msaaSamples: 2 });
           setImageUrl(url);
           enhancedRef.current = true;
         } catch {}
@@ -90,7 +97,7 @@ const LazyMiniPreview = memo(({ gameId, className }: LazyMiniPreviewProps) => {
       if (!hovered || !loaded || blocks.length === 0) return;
       const handle = window.setTimeout(async () => {
         try {
-          const url = await generateMiniPreviewDataUrl(blocks, { width: 480, height: 270, jpegQuality: 0.6, hardwareScale: 2, usePipeline: enhancedRef.current, msaaSamples: 2 });
+          const url = await generateMiniPreviewDataUrl(blocks, { terrain: terrainRef.current, width: 480, height: 270, jpegQuality: 0.6, hardwareScale: 2, usePipeline: enhancedRef.current, msaaSamples: 2 });
           setImageUrl(url);
         } catch {}
       }, 200);
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { WalletService } from '@/services/api.service';
+import { formatPrice, type WalletRecord, type WalletTransactionRecord, type WalletTransactionType } from '@/types/skins';
+
+const PAGE_SIZE = 20;
+
+const TYPE_LABELS: Record<WalletTransactionType, string> = {
+  EARN: 'Sprzedaż',
+  SPEND: 'Zakup',
+  REFUND: 'Zwrot',
+  GRANT: 'Doładowanie',
+  ROYALTY: 'Tantiemy',
+};
+
+/** Wallet balance and ledger for the signed-in user, newest first. */
+export function WalletHistory() {
+  const [wallet, setWallet] = useState<WalletRecord | null>(null);
+  const [transactions, setTransactions] = useState<WalletTransactionRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPage = useCallback(async (nextPage: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await WalletService.getTransactions(nextPage, PAGE_SIZE);
+      setWallet(response.wallet);
+      setTotal(response.total);
+      setPage(nextPage);
+      setTransactions(prev => (nextPage === 1 ? response.transactions : [...prev, ...response.transactions]));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Nie udało się wczytać historii portfela.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(1);
+  }, [loadPage]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">Portfel</h3>
+        {wallet && (
+          <span className="text-sm">
+            Saldo: <span className="font-semibold">{formatPrice(wallet.balance, wallet.currency)}</span>
+          </span>
+        )}
+      </div>
+      {error && <div className="text-sm text-destructive">{error}</div>}
+      <div className="space-y-2">
+        {!loading && !error && transactions.length === 0 && (
+          <div className="text-sm text-muted-foreground">Brak transakcji.</div>
+        )}
+        {transactions.map(t => (
+          <div key={t.id} className="rounded-md border p-2 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">{TYPE_LABELS[t.type] ?? t.type}</span>
+              <span className={t.amount < 0 ? 'text-destructive' : 'text-emerald-500'}>
+                {t.amount > 0 ? '+' : ''}{formatPrice(t.amount, wallet?.currency)}
+              </span>
+            </div>
+            <div className="flex items-center justify-between text-muted-foreground">
+              <span>{new Date(t.createdAt).toLocaleString()}{t.note ? ` · ${t.note}` : ''}</span>
+              <span>Saldo: {formatPrice(t.balanceAfter, wallet?.currency)}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+      {(loading || transactions.length < total) && (
+        <div className="flex justify-center">
+          <Button type="button" variant="ghost" size="sm" onClick={() => loadPage(page + 1)} disabled={loading}>
+            {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            Pokaż więcej
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEnvironmentStore } from '@/features/projects/stores/environment.store';
+import { ENVIRONMENT_PRESETS, SKY_PRESETS, colorToHex, formatTimeOfDay } from '@/features/environment/environment';
+import { applyEnvironmentPreset, updateEnvironment } from '@/features/environment/environmentActions';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { SkyPreset } from '@/types/project';
+
+const inputClass = 'px-2 py-1 rounded border border-sidebar-border bg-background text-foreground';
+
+const parseHex = (value: string) => parseInt(value.slice(1), 16);
+
+const ColorInput = ({ label, value, onChange }: { label: string; value: number; onChange: (color: number) => void }) => (
+  <label className="flex items-center gap-1">
+    <span className="min-w-[4rem]">{label}</span>
+    <input type="color" className="h-6 w-10 rounded border border-sidebar-border bg-background" value={colorToHex(value)} onChange={(e) => onChange(parseHex(e.target.value))} />
+  </label>
+);
+
+const RangeInput = ({ label, value, min, max, step, onChange }: { label: string; value: number; min: number; max: number; step: number; onChange: (v: number) => void }) => (
+  <label className="flex items-center gap-1">
+    <span className="min-w-[4rem]">{label}</span>
+    <input type="range" className="flex-1" min={min} max={max} step={step} value={value} onChange={(e) => onChange(Number(e.target.value))} />
+    <span className="w-10 text-right tabular-nums">{value}</span>
+  </label>
+);
+
+// Project sky, fog and lights; saved with the project and shown identically in Play and previews
+const EnvironmentPanel = () => {
+  const environment = useEnvironmentStore(s => s.environment);
+  const { sky, sun, ambient, fog } = environment;
+
+  return (
+    <div className="p-4 border-b border-sidebar-border space-y-3 text-xs">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-sidebar-foreground">Environment</h3>
+        <Badge variant="outline" className="text-[10px]">{formatTimeOfDay(environment.timeOfDay)}</Badge>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {ENVIRONMENT_PRESETS.map(p => (
+          <Button key={p.id} size="sm" variant="outline" onClick={() => applyEnvironmentPreset(p.id)}>{p.label}</Button>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <div className="font-medium">Time of day</div>
+        <input
+          type="range"
+          className="w-full"
+          min={0}
+          max={24}
+          step={0.25}
+          value={environment.timeOfDay}
+          onChange={(e) => updateEnvironment({ timeOfDay: Number(e.target.value) })}
+        />
+      </div>
+
+      <div className="space-y-1">
+        <div className="font-medium">Sky</div>
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant={sky.mode === 'gradient' ? 'default' : 'outline'} onClick={() => updateEnvironment({ sky: { mode: 'gradient' } })}>Gradient</Button>
+          <Button size="sm" variant={sky.mode === 'preset' ? 'default' : 'outline'} onClick={() => updateEnvironment({ sky: { mode: 'preset' } })}>Preset</Button>
+        </div>
+        {sky.mode === 'gradient' ? (
+          <div className="grid grid-cols-2 gap-1">
+            <ColorInput label="Top" value={sky.top} onChange={(top) => updateEnvironment({ sky: { top } })} />
+            <ColorInput label="Horizon" value={sky.horizon} onChange={(horizon) => updateEnvironment({ sky: { horizon } })} />
+          </div>
+        ) : (
+          <select className={`w-full ${inputClass}`} value={sky.preset} onChange={(e) => updateEnvironment({ sky: { preset: e.target.value as SkyPreset } })}>
+            {(Object.keys(SKY_PRESETS) as SkyPreset[]).map(id => <option key={id} value={id}>{SKY_PRESETS[id].label}</option>)}
+          </select>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <div className="font-medium">Sun</div>
+        <ColorInput label="Color" value={sun.color} onChange={(color) => updateEnvironment({ sun: { color } })} />
+        <RangeInput label="Intensity" value={sun.intensity} min={0} max={3} step={0.05} onChange={(intensity) => updateEnvironment({ sun: { intensity } })} />
+        <RangeInput label="Direction" value={sun.azimuth} min={0} max={359} step={1} onChange={(azimuth) => updateEnvironment({ sun: { azimuth } })} />
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={sun.shadows} onChange={(e) => updateEnvironment({ sun: { shadows: e.target.checked } })} />
+          <span>Cast shadows</span>
+        </label>
+      </div>
+
+      <div className="space-y-1">
+        <div className="font-medium">Ambient</div>
+        <ColorInput label="Color" value={ambient.color} onChange={(color) => updateEnvironment({ ambient: { color } })} />
+        <RangeInput label="Intensity" value={ambient.intensity} min={0} max={2} step={0.05} onChange={(intensity) => updateEnvironment({ ambient: { intensity } })} />
+      </div>
+
+      <div className="space-y-1">
+        <label className="flex items-center gap-1 font-medium">
+          <input type="checkbox" checked={fog.enabled} onChange={(e) => updateEnvironment({ fog: { enabled: e.target.checked } })} />
+          <span>Fog</span>
+        </label>
+        {fog.enabled && (
+          <>
+            <ColorInput label="Color" value={fog.color} onChange={(color) => updateEnvironment({ fog: { color } })} />
+            <RangeInput label="Start" value={fog.near} min={0} max={200} step={1} onChange={(near) => updateEnvironment({ fog: { near } })} />
+            <RangeInput label="End" value={fog.far} min={10} max={500} step={5} onChange={(far) => updateEnvironment({ fog: { far } })} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EnvironmentPanel;
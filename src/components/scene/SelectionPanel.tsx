@@ -0,0 +1,218 @@
+import { useMemo, useState } from 'react';
+import { projectBlockIndex } from '@/features/projects/store';
+import { useProjectStore } from '@/lib/projectStore';
+import { useSelectionSetsStore } from '@/features/projects/stores/selection.store';
+import {
+  blocksInVolume,
+  combineSelection,
+  invertSelection,
+  selectByFilter,
+  selectionBounds,
+  type SelectionFilter,
+  type SelectionMode,
+  type SelectionOp,
+} from '@/features/selection/selectionQueries';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { BlockType, MechanicType } from '@/types/project';
+
+type Vec3 = { x: number; y: number; z: number };
+
+const inputClass = 'px-2 py-1 rounded border border-sidebar-border bg-background text-foreground';
+
+const OPS: { value: SelectionOp; label: string }[] = [
+  { value: 'replace', label: 'Replace' },
+  { value: 'add', label: 'Add' },
+  { value: 'subtract', label: 'Remove' },
+];
+
+const hex = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+const Vec3Input = ({ label, value, onChange }: { label: string; value: Vec3; onChange: (v: Vec3) => void }) => (
+  <div className="flex items-center gap-1">
+    <span className="min-w-[2.5rem]">{label}</span>
+    {(['x', 'y', 'z'] as const).map(axis => (
+      <input
+        key={axis}
+        type="number"
+        step={0.5}
+        title={axis.toUpperCase()}
+        className={`w-14 ${inputClass}`}
+        value={value[axis]}
+        onChange={(e) => onChange({ ...value, [axis]: Number(e.target.value) })}
+      />
+    ))}
+  </div>
+);
+
+// Bulk selection: attribute filters, world-space volume, invert and saved sets
+const SelectionPanel = () => {
+  const blocks = useProjectStore(s => s.blocks);
+  const selectedBlockIds = useProjectStore(s => s.selectedBlockIds);
+  const setSelectedBlockIds = useProjectStore(s => s.setSelectedBlockIds);
+  const setSelectedBlockId = useProjectStore(s => s.setSelectedBlockId);
+  const sets = useSelectionSetsStore(s => s.sets);
+  const saveSet = useSelectionSetsStore(s => s.saveSet);
+  const updateSet = useSelectionSetsStore(s => s.updateSet);
+  const removeSet = useSelectionSetsStore(s => s.removeSet);
+
+  const [op, setOp] = useState<SelectionOp>('replace');
+  const [type, setType] = useState<BlockType | ''>('');
+  const [color, setColor] = useState<number | null>(null);
+  const [group, setGroup] = useState<string | null>(null);
+  const [mechanic, setMechanic] = useState<MechanicType | ''>('');
+  const [volumeMin, setVolumeMin] = useState<Vec3>({ x: -5, y: 0, z: -5 });
+  const [volumeMax, setVolumeMax] = useState<Vec3>({ x: 5, y: 5, z: 5 });
+  const [volumeMode, setVolumeMode] = useState<SelectionMode>('touch');
+  const [setName, setSetName] = useState('');
+
+  // Values actually present in the level, for the filter pickers
+  const facets = useMemo(() => {
+    const types = new Set<BlockType>();
+    const colors = new Set<number>();
+    const groups = new Set<string>();
+    const mechanics = new Set<MechanicType>();
+    for (const b of blocks) {
+      types.add(b.type);
+      if (typeof b.color === 'number') colors.add(b.color);
+      groups.add(b.group || '');
+      mechanics.add(b.mechanic || 'none');
+    }
+    return { types: [...types].sort(), colors: [...colors], groups: [...groups].sort(), mechanics: [...mechanics].sort() };
+  }, [blocks]);
+
+  const apply = (ids: string[], how: SelectionOp = op) => {
+    const next = combineSelection(selectedBlockIds, ids, how);
+    setSelectedBlockIds(next);
+    setSelectedBlockId(next.length === 1 ? next[0] : null);
+  };
+
+  const filter: SelectionFilter = {
+    ...(type ? { types: [type] } : {}),
+    ...(color !== null ? { colors: [color] } : {}),
+    ...(group !== null ? { groups: [group] } : {}),
+    ...(mechanic ? { mechanics: [mechanic] } : {}),
+  };
+  const filterActive = Object.keys(filter).length > 0;
+
+  const volumeFromSelection = () => {
+    const bounds = selectionBounds(blocks, selectedBlockIds);
+    if (!bounds) return;
+    setVolumeMin({ ...bounds.min });
+    setVolumeMax({ ...bounds.max });
+  };
+
+  const existing = useMemo(() => new Set(blocks.map(b => b.id)), [blocks]);
+
+  return (
+    <div className="p-4 border-b border-sidebar-border space-y-3 text-xs">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-sidebar-foreground">Selection</h3>
+        <Badge variant="outline" className="text-[10px]">{selectedBlockIds.length} selected</Badge>
+      </div>
+      <p className="text-[10px] text-sidebar-foreground/70">
+        Shift+drag in the viewport to box-select: drag right for blocks fully inside, left for anything touched. Hold Ctrl/Cmd to add, Alt to remove. Ctrl+A selects all, Ctrl+I inverts.
+      </p>
+
+      <div className="flex items-center gap-1">
+        <span className="min-w-[2.5rem]">Mode</span>
+        {OPS.map(o => (
+          <Button key={o.value} size="sm" variant={op === o.value ? 'default' : 'outline'} onClick={() => setOp(o.value)}>{o.label}</Button>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <div className="font-medium">By attribute</div>
+        <div className="grid grid-cols-2 gap-1">
+          <select className={inputClass} value={type} onChange={(e) => setType(e.target.value as BlockType | '')}>
+            <option value="">Any type</option>
+            {facets.types.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <select className={inputClass} value={mechanic} onChange={(e) => setMechanic(e.target.value as MechanicType | '')}>
+            <option value="">Any mechanic</option>
+            {facets.mechanics.map(m => <option key={m} value={m}>{m}</option>)}
+          </select>
+          <select className={inputClass} value={group ?? '*'} onChange={(e) => setGroup(e.target.value === '*' ? null : e.target.value)}>
+            <option value="*">Any group</option>
+            {facets.groups.map(g => <option key={g || '-'} value={g}>{g || '(no group)'}</option>)}
+          </select>
+          <div className="flex flex-wrap items-center gap-1">
+            <button
+              className={`h-5 px-1 rounded border ${color === null ? 'border-foreground' : 'border-sidebar-border'}`}
+              onClick={() => setColor(null)}
+            >Any</button>
+            {facets.colors.map(c => (
+              <button
+                key={c}
+                title={hex(c)}
+                className={`h-5 w-5 rounded border ${color === c ? 'border-foreground ring-1 ring-foreground' : 'border-sidebar-border'}`}
+                style={{ background: hex(c) }}
+                onClick={() => setColor(c)}
+              />
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant="outline" disabled={!filterActive} onClick={() => apply(selectByFilter(blocks, filter))}>Select matching</Button>
+          <Button size="sm" variant="outline" onClick={() => apply(invertSelection(blocks, selectedBlockIds), 'replace')}>Invert</Button>
+          <Button size="sm" variant="outline" onClick={() => apply(selectByFilter(blocks, {}), 'replace')}>All</Button>
+          <Button size="sm" variant="ghost" onClick={() => apply([], 'replace')}>None</Button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="font-medium">By volume</div>
+        <Vec3Input label="Min" value={volumeMin} onChange={setVolumeMin} />
+        <Vec3Input label="Max" value={volumeMax} onChange={setVolumeMax} />
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant={volumeMode === 'touch' ? 'default' : 'outline'} onClick={() => setVolumeMode('touch')}>Touching</Button>
+          <Button size="sm" variant={volumeMode === 'contain' ? 'default' : 'outline'} onClick={() => setVolumeMode('contain')}>Inside</Button>
+          <Button size="sm" variant="ghost" disabled={selectedBlockIds.length === 0} onClick={volumeFromSelection}>From selection</Button>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => apply(blocksInVolume(projectBlockIndex, { start: volumeMin, end: volumeMax }, volumeMode, filterActive ? filter : undefined))}
+        >Select in volume{filterActive ? ' (filtered)' : ''}</Button>
+      </div>
+
+      <div className="space-y-1">
+        <div className="font-medium">Selection sets</div>
+        <div className="flex items-center gap-1">
+          <input className={`flex-1 ${inputClass}`} placeholder="Set name" value={setName} onChange={(e) => setSetName(e.target.value)} />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={selectedBlockIds.length === 0}
+            onClick={() => { saveSet(setName, selectedBlockIds); setSetName(''); }}
+          >Save</Button>
+        </div>
+        {sets.length === 0 && <div className="text-sidebar-foreground/70">No saved sets. They are stored with the project.</div>}
+        {sets.map(set => {
+          const live = set.blockIds.filter(id => existing.has(id));
+          return (
+            <div key={set.id} className="flex items-center gap-1">
+              <input
+                className={`flex-1 min-w-0 ${inputClass}`}
+                value={set.name}
+                onChange={(e) => updateSet(set.id, { name: e.target.value })}
+              />
+              <Badge variant="outline" className="text-[10px]">{live.length}</Badge>
+              <Button size="sm" variant="outline" disabled={live.length === 0} onClick={() => apply(live)}>Select</Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={selectedBlockIds.length === 0}
+                title="Replace this set's blocks with the current selection"
+                onClick={() => updateSet(set.id, { blockIds: selectedBlockIds })}
+              >Update</Button>
+              <Button size="sm" variant="ghost" onClick={() => removeSet(set.id)}>Delete</Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SelectionPanel;
@@ -0,0 +1,128 @@
+import * as THREE from 'three';
+import { ChunkGrid } from '@/features/chunking/chunkGrid';
+import type { Block } from '../types';
+
+// Plain-coloured cubes; textured and translucent ones keep their own meshes
+const CHUNKABLE_TYPES = new Set<Block['type']>(['cube', 'cube_boost', 'cube_slow', 'cube_sticky']);
+const EPSILON = 1e-4;
+
+interface Tracked {
+  mesh: THREE.Mesh;
+  x: number;
+  y: number;
+  z: number;
+  color: number;
+}
+
+function chunkableColor(block: Block, excluded: Set<string>): number | null {
+  const mesh = block.mesh;
+  if (!mesh || !CHUNKABLE_TYPES.has(block.type) || excluded.has(block.id)) return null;
+  const material = mesh.material as THREE.MeshLambertMaterial;
+  if (Array.isArray(mesh.material) || !material.color || material.map || material.transparent) return null;
+  const { rotation, scale } = mesh;
+  if (Math.abs(rotation.x) > EPSILON || Math.abs(rotation.y) > EPSILON || Math.abs(rotation.z) > EPSILON) return null;
+  if (Math.abs(scale.x - 1) > EPSILON || Math.abs(scale.y - 1) > EPSILON || Math.abs(scale.z - 1) > EPSILON) return null;
+  return material.color.getHex();
+}
+
+/**
+ * Draws unrotated, unit-scale cubes as greedy-meshed geometry, one mesh per
+ * chunk and colour. The cubes' own meshes are hidden but stay in the scene as
+ * picking proxies (raycasts ignore visibility), so selection still resolves
+ * to the block id; the chunk meshes themselves are never picked.
+ */
+export function createChunkedCubes(scene: THREE.Scene) {
+  const grid = new ChunkGrid();
+  const tracked = new Map<string, Tracked>();
+  const chunkMeshes = new Map<string, THREE.Mesh[]>();
+  const materials = new Map<string, THREE.MeshLambertMaterial>();
+
+  const materialFor = (color: string) => {
+    let material = materials.get(color);
+    if (!material) {
+      material = new THREE.MeshLambertMaterial({ color: Number(color) });
+      materials.set(color, material);
+    }
+    return material;
+  };
+
+  const release = (id: string) => {
+    const entry = tracked.get(id);
+    if (!entry) return;
+    grid.remove(id);
+    entry.mesh.visible = true;
+    tracked.delete(id);
+  };
+
+  const removeChunk = (chunk: string) => {
+    chunkMeshes.get(chunk)?.forEach(mesh => {
+      scene.remove(mesh);
+      mesh.geometry.dispose();
+    });
+    chunkMeshes.delete(chunk);
+  };
+
+  const rebuild = (chunk: string) => {
+    removeChunk(chunk);
+    const meshes: THREE.Mesh[] = [];
+    for (const [color, buffers] of grid.buildChunk(chunk)) {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.Float32BufferAttribute(buffers.positions, 3));
+      geometry.setAttribute('normal', new THREE.Float32BufferAttribute(buffers.normals, 3));
+      geometry.setIndex(buffers.indices);
+      geometry.computeBoundingSphere();
+      const mesh = new THREE.Mesh(geometry, materialFor(color));
+      mesh.castShadow = true;
+      mesh.receiveShadow = true;
+      mesh.raycast = () => {};
+      mesh.userData = { chunk };
+      scene.add(mesh);
+      meshes.push(mesh);
+    }
+    if (meshes.length > 0) chunkMeshes.set(chunk, meshes);
+  };
+
+  /**
+   * Bring the chunks in line with the current blocks; cheap when nothing
+   * changed. `excludeIds` (e.g. the selection being dragged) keep their own mesh.
+   */
+  const sync = (blocks: Block[], excludeIds: Iterable<string> = []) => {
+    const excluded = new Set(excludeIds);
+    const seen = new Set<string>();
+    for (const block of blocks) {
+      const color = chunkableColor(block, excluded);
+      const entry = tracked.get(block.id);
+      if (color === null || !block.mesh) {
+        if (entry) release(block.id);
+        continue;
+      }
+      seen.add(block.id);
+      const { x, y, z } = block.mesh.position;
+      if (entry && entry.mesh === block.mesh && entry.x === x && entry.y === y && entry.z === z && entry.color === color) continue;
+
+      if (entry && entry.mesh !== block.mesh) release(block.id);
+      if (grid.set(block.id, block.mesh.position, `0x${color.toString(16).padStart(6, '0')}`)) {
+        block.mesh.visible = false;
+        tracked.set(block.id, { mesh: block.mesh, x, y, z, color });
+      } else {
+        // Off the half-unit grid or overlapping another cube
+        release(block.id);
+        seen.delete(block.id);
+      }
+    }
+    for (const id of [...tracked.keys()]) {
+      if (!seen.has(id)) release(id);
+    }
+    grid.takeDirty().forEach(rebuild);
+  };
+
+  const dispose = () => {
+    for (const id of [...tracked.keys()]) release(id);
+    for (const chunk of [...chunkMeshes.keys()]) removeChunk(chunk);
+    materials.forEach(material => material.dispose());
+    materials.clear();
+    grid.clear();
+  };
+
+  return { sync, dispose } as const;
+}
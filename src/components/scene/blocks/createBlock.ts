@@ -2,6 +2,8 @@ import * as THREE from 'three';
 // @ts-ignore
 import * as CANNON from 'https://cdn.jsdelivr.net/npm/cannon-es@0.20.0/dist/cannon-es.js';
 import type { Block } from '../types';
+import { loadModelAsset } from '@/features/assets/modelAssets';
+import { computeModelCollider, scaleCollider, type ColliderShape } from '@/features/assets/modelCollider';
 
 function createCanvas(width: number, height: number): HTMLCanvasElement {
   const canvas = document.createElement('canvas');
@@ -87,7 +89,7 @@ function createIceTexture(): THREE.CanvasTexture {
 }
 
 export type CreateBlockParams = {
-  type: 'cube' | 'cube_bouncy' | 'cube_ice' | 'cube_conveyor' | 'cube_boost' | 'cube_slow' | 'cube_sticky' | 'sphere' | 'cylinder' | 'cone' | 'pyramid' | 'plate' | 'ramp' | 'torus' | 'wedge' | 'door' | 'window' | 'fence' | 'start' | 'checkpoint' | 'finish' | 'hazard';
+  type: 'cube' | 'cube_bouncy' | 'cube_ice' | 'cube_conveyor' | 'cube_boost' | 'cube_slow' | 'cube_sticky' | 'sphere' | 'cylinder' | 'cone' | 'pyramid' | 'plate' | 'ramp' | 'torus' | 'wedge' | 'door' | 'window' | 'fence' | 'start' | 'checkpoint' | 'finish' | 'hazard' | 'model';
   position: THREE.Vector3;
   id?: string;
   rotationYDeg?: number;
@@ -95,13 +97,60 @@ export type CreateBlockParams = {
   rotationZDeg?: number;
   uniformScale?: number;
   color?: number;
+  /** Uploaded GLB for 'model' blocks */
+  assetId?: string;
+  collider?: 'box' | 'hull';
 };
 
+function toCannonShape(shape: ColliderShape): { shape: unknown; offset?: unknown } {
+  if (shape.kind === 'box') {
+    const { halfExtents: h, offset: o } = shape;
+    return { shape: new CANNON.Box(new CANNON.Vec3(h.x, h.y, h.z)), offset: new CANNON.Vec3(o.x, o.y, o.z) };
+  }
+  const vertices = shape.vertices.map(v => new CANNON.Vec3(v.x, v.y, v.z));
+  return { shape: new CANNON.ConvexPolyhedron({ vertices, faces: shape.faces }) };
+}
+
+/**
+ * Swap a model block's placeholder for the loaded GLB: the model is added as
+ * a child of the (now invisible) placeholder, which stays as the picking
+ * proxy sized to the model, and the body gets the generated collider. If
+ * loading fails the placeholder box stays visible.
+ */
+function attachModel(block: Block, assetId: string, collider: 'box' | 'hull', scale: number): void {
+  loadModelAsset(assetId).then(asset => {
+    const mesh = block.mesh;
+    // Removed from the scene while loading
+    if (!mesh || !mesh.parent) return;
+
+    const model = asset.template.clone();
+    // Picking goes through the placeholder box
+    model.traverse(object => { object.raycast = () => {}; });
+    mesh.add(model);
+
+    const bounds = computeModelCollider(asset.points, 'box');
+    if (bounds.kind === 'box') {
+      const { halfExtents: h, offset: o } = bounds;
+      mesh.geometry.dispose();
+      mesh.geometry = new THREE.BoxGeometry(h.x * 2, h.y * 2, h.z * 2).translate(o.x, o.y, o.z);
+    }
+    (mesh.material as THREE.Material).visible = false;
+
+    const body = block.body;
+    if (!body) return;
+    while (body.shapes.length > 0) body.removeShape(body.shapes[0]);
+    const { shape, offset } = toCannonShape(scaleCollider(computeModelCollider(asset.points, collider), scale));
+    body.addShape(shape, offset);
+  }).catch(() => {
+    // Asset deleted or unreachable: the placeholder box keeps the level playable
+  });
+}
+
 export function createBlock(
   params: CreateBlockParams,
   deps: { scene: THREE.Scene; world: any; dynamicMaterial?: any }
 ): Block {
-  const { type, position, id, rotationYDeg, rotationXDeg, rotationZDeg, uniformScale, color } = params;
+  const { type, position, id, rotationYDeg, rotationXDeg, rotationZDeg, uniformScale, color, assetId, collider } = params;
   const { scene, world, dynamicMaterial } = deps;
 
   let geometry: THREE.BufferGeometry;
@@ -229,6 +278,11 @@ export function createBlock(
     geometry = new THREE.BoxGeometry(1, 0.2, 1);
     material = new THREE.MeshLambertMaterial({ color: 0xff3344, emissive: 0x330000 });
     shape = new (CANNON as any).Box(new (CANNON as any).Vec3(0.5 * scale, 0.1 * scale, 0.5 * scale));
+  } else if (type === 'model') {
+    // Uploaded model: translucent placeholder box until the GLB has loaded
+    geometry = new THREE.BoxGeometry(1, 1, 1);
+    material = new THREE.MeshLambertMaterial({ color: 0x94a3b8, transparent: true, opacity: 0.4 });
+    shape = new CANNON.Box(new CANNON.Vec3(0.5 * scale, 0.5 * scale, 0.5 * scale));
   } else {
     // Fence: thin, wider panel
     geometry = new THREE.BoxGeometry(1.4, 1, 0.06);
@@ -279,6 +333,14 @@ export function createBlock(
     body,
   };
 
+  if (type === 'model') {
+    block.assetId = assetId;
+    block.collider = collider ?? 'box';
+    // The placeholder color is not a block color
+    block.color = undefined;
+    if (assetId) attachModel(block, assetId, block.collider, scale);
+  }
+
   return block;
 }
 
@@ -0,0 +1,42 @@
+import * as THREE from 'three';
+import { blockBounds } from '@/features/spatial/blockBounds';
+import type { Block } from '@/types/project';
+
+// Corner pairs of a box's 12 edges, corners indexed as bit flags (x=1, y=2, z=4)
+const EDGES = [0, 1, 2, 3, 4, 5, 6, 7, 0, 2, 1, 3, 4, 6, 5, 7, 0, 4, 1, 5, 2, 6, 3, 7];
+
+/**
+ * Box outlines around every block in the multi-selection, drawn as a single
+ * line mesh so marquee-selecting thousands of blocks stays one draw call.
+ */
+export function createSelectionOutlines(scene: THREE.Scene) {
+  const material = new THREE.LineBasicMaterial({ color: 0xfacc15, transparent: true, opacity: 0.8, depthTest: false });
+  const lines = new THREE.LineSegments(new THREE.BufferGeometry(), material);
+  lines.renderOrder = 999;
+  lines.frustumCulled = false;
+  lines.raycast = () => {};
+  scene.add(lines);
+
+  const update = (blocks: Block[], selectedIds: string[]) => {
+    const selected = new Set(selectedIds);
+    const positions: number[] = [];
+    for (const block of blocks) {
+      if (!selected.has(block.id) || block.hidden) continue;
+      const { min, max } = blockBounds(block);
+      for (const corner of EDGES) {
+        positions.push(corner & 1 ? max.x : min.x, corner & 2 ? max.y : min.y, corner & 4 ? max.z : min.z);
+      }
+    }
+    lines.geometry.dispose();
+    lines.geometry = new THREE.BufferGeometry();
+    lines.geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  };
+
+  const dispose = () => {
+    scene.remove(lines);
+    lines.geometry.dispose();
+    material.dispose();
+  };
+
+  return { update, dispose };
+}
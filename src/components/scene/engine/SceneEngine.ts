@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { createSceneEnvironment } from './environment';
 
 export type CameraMode = 'orbit' | 'first' | 'ortho';
 
@@ -7,7 +8,6 @@ export function createSceneEngine(params: {
   cameraMode: CameraMode;
 }) {
   const scene = new THREE.Scene();
-  scene.background = new THREE.Color(0x87CEEB);
 
   let camera: THREE.Camera;
   const width = params.mount.clientWidth;
@@ -40,24 +40,25 @@ export function createSceneEngine(params: {
   renderer.shadowMap.type = THREE.PCFSoftShadowMap;
   params.mount.appendChild(renderer.domElement);
 
-  // default lights
-  const ambientLight = new THREE.AmbientLight(0x404040, 0.6);
+  // Sky, fog and lights follow the project environment; defaults until applied
+  const ambientLight = new THREE.AmbientLight(0xffffff, 0.25);
   scene.add(ambientLight);
   const directionalLight = new THREE.DirectionalLight(0xffffff, 1);
-  directionalLight.position.set(10, 10, 5);
-  directionalLight.castShadow = true;
   directionalLight.shadow.mapSize.width = 2048;
   directionalLight.shadow.mapSize.height = 2048;
   scene.add(directionalLight);
+  const environment = createSceneEnvironment(scene, { ambient: ambientLight, sun: directionalLight });
+  environment.apply(null);
 
   const dispose = () => {
+    environment.dispose();
     try {
       params.mount.removeChild(renderer.domElement);
     } catch {}
     try { renderer.dispose(); } catch {}
   };
 
-  return { scene, camera, renderer, dispose } as const;
+  return { scene, camera, renderer, environment, dispose } as const;
 }
 
 
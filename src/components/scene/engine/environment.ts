@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import { resolveEnvironment } from '@/features/environment/environment';
+import type { EnvironmentSettings } from '@/types/project';
+import type { LightingSettings } from '@/types/editor';
+
+const FACE_SIZE = 128;
+// Keeps the sun where the old fixed light sat, inside the default shadow camera
+const SUN_DISTANCE = 15;
+
+// Deterministic star field so every view of a project paints the same sky
+function starRandom(seed: number) {
+  let s = seed;
+  return () => {
+    s = (s * 1664525 + 1013904223) >>> 0;
+    return s / 0x100000000;
+  };
+}
+
+function paintFace(sky: NonNullable<LightingSettings['sky']>, face: 'side' | 'top' | 'bottom', seed: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = FACE_SIZE;
+  canvas.height = FACE_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  if (face === 'side') {
+    const grad = ctx.createLinearGradient(0, 0, 0, FACE_SIZE);
+    grad.addColorStop(0, sky.top);
+    grad.addColorStop(0.5, sky.horizon);
+    grad.addColorStop(0.56, sky.ground);
+    grad.addColorStop(1, sky.ground);
+    ctx.fillStyle = grad;
+  } else {
+    ctx.fillStyle = face === 'top' ? sky.top : sky.ground;
+  }
+  ctx.fillRect(0, 0, FACE_SIZE, FACE_SIZE);
+  if (sky.stars && face !== 'bottom') {
+    const rand = starRandom(seed);
+    const rows = face === 'top' ? FACE_SIZE : FACE_SIZE * 0.45;
+    for (let i = 0; i < 60; i++) {
+      ctx.fillStyle = `rgba(255,255,255,${0.4 + rand() * 0.6})`;
+      ctx.fillRect(Math.floor(rand() * FACE_SIZE), Math.floor(rand() * rows), 1, 1);
+    }
+  }
+  return canvas;
+}
+
+/** Six painted faces (px, nx, py, ny, pz, nz) for a gradient or preset sky. */
+function paintSkyCubemap(sky: NonNullable<LightingSettings['sky']>): THREE.CubeTexture {
+  const faces = [
+    paintFace(sky, 'side', 1),
+    paintFace(sky, 'side', 2),
+    paintFace(sky, 'top', 3),
+    paintFace(sky, 'bottom', 4),
+    paintFace(sky, 'side', 5),
+    paintFace(sky, 'side', 6),
+  ];
+  const texture = new THREE.CubeTexture(faces);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.needsUpdate = true;
+  return texture;
+}
+
+/**
+ * Drives a scene's sky, fog, ambient and sun from project environment
+ * settings. Shared by the editor/Play engine and the mini previews.
+ */
+export function createSceneEnvironment(scene: THREE.Scene, lights: { ambient: THREE.AmbientLight; sun: THREE.DirectionalLight }) {
+  let skyKey = '';
+  let skyTexture: THREE.CubeTexture | null = null;
+
+  const apply = (settings?: EnvironmentSettings | null) => {
+    const lighting = resolveEnvironment(settings);
+    const { ambient, directional, sky, fog } = lighting;
+
+    lights.ambient.color.set(ambient.color);
+    lights.ambient.intensity = ambient.intensity;
+    lights.sun.color.set(directional.color);
+    lights.sun.intensity = directional.intensity;
+    lights.sun.position.set(-directional.direction.x, -directional.direction.y, -directional.direction.z).multiplyScalar(SUN_DISTANCE);
+    lights.sun.castShadow = directional.shadows;
+
+    // Repainting the cubemap is the expensive part; skip it while only lights change
+    const key = JSON.stringify(sky);
+    if (sky && key !== skyKey) {
+      skyKey = key;
+      skyTexture?.dispose();
+      skyTexture = paintSkyCubemap(sky);
+      scene.background = skyTexture;
+    }
+
+    if (fog?.enabled) {
+      if (scene.fog instanceof THREE.Fog) {
+        scene.fog.color.set(fog.color);
+        scene.fog.near = fog.start;
+        scene.fog.far = fog.end;
+      } else {
+        scene.fog = new THREE.Fog(fog.color, fog.start, fog.end);
+      }
+    } else {
+      scene.fog = null;
+    }
+    return lighting;
+  };
+
+  const dispose = () => {
+    if (scene.background === skyTexture) scene.background = null;
+    skyTexture?.dispose();
+    skyTexture = null;
+    skyKey = '';
+  };
+
+  return { apply, dispose };
+}
@@ -12,6 +12,8 @@ export function startEngineLoop(params: {
   cameraRef: { current: any };
   renderer: THREE.WebGLRenderer;
   scene: THREE.Scene;
+  /** Runs after physics sync, right before rendering */
+  onFrame?: () => void;
 }) {
   const clock = new THREE.Clock();
   const fixedTimeStep = 1 / 60;
@@ -51,6 +53,8 @@ export function startEngineLoop(params: {
       });
     } catch {}
 
+    params.onFrame?.();
+
     params.renderer.render(params.scene, params.cameraRef.current as any);
   };
 
@@ -0,0 +1,147 @@
+import * as THREE from 'three';
+import type { TerrainData } from '@/types/project';
+import { gridPoint } from '@/features/terrain/heightfield';
+import { drawTerrainLayerCanvas } from '@/features/terrain/layerCanvas';
+import { MAX_TERRAIN_LAYERS, effectiveLayerWeights, normalizeTerrainLayers, type TerrainLayerTexture } from '@/features/terrain/splat';
+import { GROUND_SIZE, decodeTerrain, type DecodedTerrain } from '@/features/terrain/terrainData';
+
+// Saved terrain as a three.js ground: the same height grid, paint layer and
+// splat-blended texture layers the editor draws with Babylon.
+
+const BASE_COLOR = 0x4a9d4a;
+
+export interface TerrainGround {
+  mesh: THREE.Mesh;
+  /** World-space vertices and triangles, for a static physics trimesh */
+  vertices: Float32Array;
+  indices: number[];
+  dispose: () => void;
+}
+
+function buildGeometry(grid: DecodedTerrain) {
+  const { resolution, heights } = grid;
+  const vertices = new Float32Array(resolution * resolution * 3);
+  for (let v = 0; v < resolution * resolution; v++) {
+    const { x, z } = gridPoint(v, resolution, GROUND_SIZE);
+    vertices[v * 3] = x;
+    vertices[v * 3 + 1] = heights[v];
+    vertices[v * 3 + 2] = z;
+  }
+  // Row 0 is +Z, so this winding faces up
+  const indices: number[] = [];
+  for (let row = 0; row < resolution - 1; row++) {
+    for (let col = 0; col < resolution - 1; col++) {
+      const a = row * resolution + col;
+      const b = a + resolution;
+      indices.push(a, a + 1, b, a + 1, b + 1, b);
+    }
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(vertices, 3));
+  geometry.setIndex(indices);
+  if (grid.colors) {
+    const colors = new Float32Array(resolution * resolution * 3);
+    for (let v = 0; v < resolution * resolution; v++) {
+      colors[v * 3] = grid.colors[v * 4];
+      colors[v * 3 + 1] = grid.colors[v * 4 + 1];
+      colors[v * 3 + 2] = grid.colors[v * 4 + 2];
+    }
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+  }
+  geometry.computeVertexNormals();
+  return { geometry, vertices, indices };
+}
+
+// Same blend as the editor's splat material plugin: weights scaled by layer
+// strength, renormalised, each layer tiled across the ground.
+function enableSplat(material: THREE.MeshLambertMaterial, grid: DecodedTerrain) {
+  const { resolution } = grid;
+  const layers = normalizeTerrainLayers(grid.layers);
+  const bytes = new Uint8Array(resolution * resolution * 4);
+  if (grid.splat) bytes.set(grid.splat);
+  else for (let v = 0; v < resolution * resolution; v++) bytes[v * 4] = 255;
+
+  const splat = new THREE.DataTexture(bytes, resolution, resolution, THREE.RGBAFormat);
+  splat.magFilter = THREE.LinearFilter;
+  splat.minFilter = THREE.LinearFilter;
+  splat.needsUpdate = true;
+
+  const layerTextures = Array.from({ length: MAX_TERRAIN_LAYERS }, (_, i) => {
+    const texture = new THREE.CanvasTexture(drawTerrainLayerCanvas((layers[i]?.texture as TerrainLayerTexture) ?? 'grass'));
+    texture.wrapS = THREE.RepeatWrapping;
+    texture.wrapT = THREE.RepeatWrapping;
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.anisotropy = 8;
+    return texture;
+  });
+  const tiling = Array.from({ length: MAX_TERRAIN_LAYERS }, (_, i) => layers[i]?.tiling ?? 1);
+
+  // Layer textures carry the colour; the base colour only tints via vertex colours
+  material.color.set(0xffffff);
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.terrainSplat = { value: splat };
+    layerTextures.forEach((texture, i) => { shader.uniforms[`terrainLayer${i}`] = { value: texture }; });
+    shader.uniforms.terrainTiling = { value: new THREE.Vector4(...tiling) };
+    shader.uniforms.terrainLayerStrength = { value: new THREE.Vector4(...effectiveLayerWeights(layers)) };
+    shader.uniforms.terrainGridInfo = { value: new THREE.Vector2(GROUND_SIZE, resolution) };
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nvarying vec2 vTerrainXZ;')
+      .replace('#include <begin_vertex>', '#include <begin_vertex>\nvTerrainXZ = (modelMatrix * vec4(position, 1.0)).xz;');
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>
+        varying vec2 vTerrainXZ;
+        uniform sampler2D terrainSplat;
+        uniform sampler2D terrainLayer0;
+        uniform sampler2D terrainLayer1;
+        uniform sampler2D terrainLayer2;
+        uniform sampler2D terrainLayer3;
+        uniform vec4 terrainTiling;
+        uniform vec4 terrainLayerStrength;
+        uniform vec2 terrainGridInfo;`)
+      .replace('#include <map_fragment>', `#include <map_fragment>
+        float terrainHalf = terrainGridInfo.x * 0.5;
+        vec2 terrainGrid = clamp(vec2(vTerrainXZ.x + terrainHalf, terrainHalf - vTerrainXZ.y) / terrainGridInfo.x, 0.0, 1.0);
+        vec2 terrainSplatUV = (terrainGrid * (terrainGridInfo.y - 1.0) + 0.5) / terrainGridInfo.y;
+        vec4 terrainW = texture2D(terrainSplat, terrainSplatUV) * terrainLayerStrength;
+        float terrainSum = dot(terrainW, vec4(1.0));
+        if (terrainSum > 0.001) {
+          vec2 terrainUV = vTerrainXZ / terrainGridInfo.x;
+          vec3 terrainColor =
+            texture2D(terrainLayer0, terrainUV * terrainTiling.x).rgb * terrainW.x +
+            texture2D(terrainLayer1, terrainUV * terrainTiling.y).rgb * terrainW.y +
+            texture2D(terrainLayer2, terrainUV * terrainTiling.z).rgb * terrainW.z +
+            texture2D(terrainLayer3, terrainUV * terrainTiling.w).rgb * terrainW.w;
+          diffuseColor.rgb *= terrainColor / terrainSum;
+        }`);
+  };
+
+  return () => {
+    splat.dispose();
+    layerTextures.forEach((texture) => texture.dispose());
+  };
+}
+
+/** Builds the ground for saved terrain, or null when the terrain can't be decoded. */
+export function createTerrainGround(terrain: TerrainData): TerrainGround | null {
+  const grid = decodeTerrain(terrain);
+  if (!grid) return null;
+  const { geometry, vertices, indices } = buildGeometry(grid);
+  const material = new THREE.MeshLambertMaterial({ color: BASE_COLOR, vertexColors: !!grid.colors });
+  // Layers without painted weights still draw, fully on the first layer
+  const disposeSplat = grid.splat || Array.isArray(grid.layers) ? enableSplat(material, grid) : null;
+
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.receiveShadow = true;
+  mesh.name = 'ground';
+
+  return {
+    mesh,
+    vertices,
+    indices,
+    dispose: () => {
+      geometry.dispose();
+      material.dispose();
+      disposeSplat?.();
+    },
+  };
+}
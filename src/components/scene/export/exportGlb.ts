@@ -0,0 +1,166 @@
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import type { Block } from '../types';
+
+export interface GlbExportOptions {
+  /** Merge blocks sharing a material into one mesh (smaller file, no per-block nodes) */
+  mergeByMaterial?: boolean;
+  /** Include the ground/terrain mesh (default true) */
+  includeTerrain?: boolean;
+}
+
+export interface ExportScene {
+  scene: THREE.Scene;
+  /** Frees the geometries and materials created for the export */
+  dispose: () => void;
+}
+
+type SourceMaterial = THREE.Material & {
+  color?: THREE.Color;
+  emissive?: THREE.Color;
+  map?: THREE.Texture | null;
+};
+
+/**
+ * Key of the glTF material a scene material becomes. Canvas textures are
+ * created per block, so textured blocks are keyed by their block type.
+ */
+function materialKey(material: SourceMaterial, blockType?: string): string {
+  const texture = material.map ? `tex:${blockType ?? material.map.uuid}` : '';
+  return [
+    material.color?.getHexString() ?? '',
+    material.emissive?.getHexString() ?? '',
+    material.transparent ? material.opacity : 1,
+    texture,
+  ].join('|');
+}
+
+// glTF only knows PBR (and unlit) materials; Lambert maps onto a rough dielectric
+function toStandardMaterial(material: SourceMaterial, name: string): THREE.MeshStandardMaterial {
+  return new THREE.MeshStandardMaterial({
+    name,
+    color: material.color?.clone() ?? new THREE.Color(0xffffff),
+    emissive: material.emissive?.clone() ?? new THREE.Color(0x000000),
+    map: material.map ?? null,
+    transparent: material.transparent,
+    opacity: material.opacity,
+    roughness: 1,
+    metalness: 0,
+    side: material.side,
+  });
+}
+
+// mergeGeometries needs identical attribute sets and indexing
+function geometrySignature(geometry: THREE.BufferGeometry): string {
+  return `${Object.keys(geometry.attributes).sort().join(',')}|${geometry.index ? 'indexed' : 'flat'}`;
+}
+
+/**
+ * Build a standalone scene holding what a GLB export should contain: the
+ * visible blocks (with their color, rotation and scale baked in, and the
+ * loaded GLB of model blocks) and the terrain mesh. With `mergeByMaterial`,
+ * blocks sharing a material are merged into one mesh per material.
+ */
+export function buildExportScene(
+  blocks: Block[],
+  terrain: THREE.Mesh | null | undefined,
+  { mergeByMaterial = false, includeTerrain = true }: GlbExportOptions = {},
+): ExportScene {
+  const scene = new THREE.Scene();
+  scene.name = 'Block Scape level';
+  const materials = new Map<string, THREE.MeshStandardMaterial>();
+  const ownedGeometries: THREE.BufferGeometry[] = [];
+
+  const materialFor = (source: SourceMaterial, blockType?: string) => {
+    const key = materialKey(source, blockType);
+    let material = materials.get(key);
+    if (!material) {
+      material = toStandardMaterial(source, `material-${materials.size + 1}`);
+      materials.set(key, material);
+    }
+    return { key, material };
+  };
+
+  const addMesh = (geometry: THREE.BufferGeometry, material: THREE.Material, matrix: THREE.Matrix4, name: string, userData: Record<string, unknown> = {}) => {
+    const mesh = new THREE.Mesh(geometry, material);
+    matrix.decompose(mesh.position, mesh.quaternion, mesh.scale);
+    mesh.name = name;
+    mesh.userData = userData;
+    scene.add(mesh);
+  };
+
+  const groups = new Map<string, { material: THREE.Material; geometries: THREE.BufferGeometry[] }>();
+
+  for (const block of blocks) {
+    const mesh = block.mesh;
+    if (block.hidden || !mesh) continue;
+    mesh.updateWorldMatrix(true, true);
+
+    // Model blocks render their loaded GLB as children of a hidden placeholder
+    const parts: THREE.Mesh[] = [];
+    if (block.type === 'model') {
+      mesh.traverse(object => { if (object !== mesh && (object as THREE.Mesh).isMesh) parts.push(object as THREE.Mesh); });
+    }
+    if (parts.length === 0) parts.push(mesh);
+
+    parts.forEach((part, index) => {
+      const source = (Array.isArray(part.material) ? part.material[0] : part.material) as SourceMaterial;
+      // Model textures come from the GLB, so they are keyed by texture rather than block type
+      const { key, material } = materialFor(source, part === mesh ? block.type : undefined);
+      const baseName = block.name || `${block.type}-${block.id}`;
+
+      if (!mergeByMaterial) {
+        addMesh(part.geometry, material, part.matrixWorld, parts.length > 1 ? `${baseName}-${index + 1}` : baseName, { blockId: block.id, blockType: block.type });
+        return;
+      }
+      const geometry = part.geometry.clone().applyMatrix4(part.matrixWorld);
+      ownedGeometries.push(geometry);
+      const groupKey = `${key}|${geometrySignature(geometry)}`;
+      const group = groups.get(groupKey) ?? { material, geometries: [] };
+      group.geometries.push(geometry);
+      groups.set(groupKey, group);
+    });
+  }
+
+  const identity = new THREE.Matrix4();
+  for (const { material, geometries } of groups.values()) {
+    const merged = geometries.length > 1 ? mergeGeometries(geometries) : geometries[0];
+    if (merged) {
+      if (merged !== geometries[0]) ownedGeometries.push(merged);
+      addMesh(merged, material, identity, `${material.name}-blocks`);
+    } else {
+      // Unmergeable (e.g. mismatched morph targets): keep the baked meshes separate
+      geometries.forEach((geometry, i) => addMesh(geometry, material, identity, `${material.name}-block-${i + 1}`));
+    }
+  }
+
+  if (includeTerrain && terrain) {
+    terrain.updateWorldMatrix(true, false);
+    const source = (Array.isArray(terrain.material) ? terrain.material[0] : terrain.material) as SourceMaterial;
+    addMesh(terrain.geometry, materialFor(source, 'terrain').material, terrain.matrixWorld, 'terrain');
+  }
+
+  return {
+    scene,
+    dispose: () => {
+      ownedGeometries.forEach(geometry => geometry.dispose());
+      materials.forEach(material => material.dispose());
+    },
+  };
+}
+
+/** Bake the level into a single binary glTF (GLB). */
+export async function exportSceneToGlb(
+  blocks: Block[],
+  terrain: THREE.Mesh | null | undefined,
+  options: GlbExportOptions = {},
+): Promise<ArrayBuffer> {
+  const { scene, dispose } = buildExportScene(blocks, terrain, options);
+  try {
+    const result = await new GLTFExporter().parseAsync(scene, { binary: true, onlyVisible: true });
+    return result as ArrayBuffer;
+  } finally {
+    dispose();
+  }
+}
@@ -0,0 +1,106 @@
+import * as BABYLON from '@babylonjs/core';
+import * as THREE from 'three';
+import { createSkinMesh } from '@/components/editor-enhanced/scene/systems/play/skins/registry';
+import type { GhostSkin } from '@/features/runs/ghostReplay';
+
+// The play page renders with three.js while player skins are built for
+// Babylon. A ghost's skin is built once in an offscreen Babylon scene and its
+// baked geometry and colours are copied into three.js meshes.
+
+const colorOf = (material: BABYLON.Material | null): THREE.Color => {
+  if (material instanceof BABYLON.PBRMaterial) {
+    const c = material.albedoColor;
+    return new THREE.Color(c.r, c.g, c.b);
+  }
+  if (material instanceof BABYLON.StandardMaterial) {
+    const c = material.diffuseColor;
+    return new THREE.Color(c.r, c.g, c.b);
+  }
+  return new THREE.Color(0xffffff);
+};
+
+// Babylon is left-handed: mirror Z into three.js space
+function toThreeGeometry(mesh: BABYLON.AbstractMesh): THREE.BufferGeometry | null {
+  const positions = mesh.getVerticesData(BABYLON.VertexBuffer.PositionKind);
+  const indices = mesh.getIndices();
+  if (!positions || !indices || indices.length === 0) return null;
+  const normals = mesh.getVerticesData(BABYLON.VertexBuffer.NormalKind);
+  const colors = mesh.getVerticesData(BABYLON.VertexBuffer.ColorKind);
+  const world = mesh.computeWorldMatrix(true);
+
+  const count = positions.length / 3;
+  const outPositions = new Float32Array(positions.length);
+  const outNormals = normals ? new Float32Array(normals.length) : null;
+  const point = new BABYLON.Vector3();
+  for (let i = 0; i < count; i++) {
+    BABYLON.Vector3.TransformCoordinatesFromFloatsToRef(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2], world, point);
+    outPositions.set([point.x, point.y, -point.z], i * 3);
+    if (normals && outNormals) {
+      BABYLON.Vector3.TransformNormalFromFloatsToRef(normals[i * 3], normals[i * 3 + 1], normals[i * 3 + 2], world, point);
+      point.normalize();
+      outNormals.set([point.x, point.y, -point.z], i * 3);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(outPositions, 3));
+  if (outNormals) geometry.setAttribute('normal', new THREE.BufferAttribute(outNormals, 3));
+  if (colors && colors.length === count * 4) {
+    const rgb = new Float32Array(count * 3);
+    for (let i = 0; i < count; i++) rgb.set([colors[i * 4], colors[i * 4 + 1], colors[i * 4 + 2]], i * 3);
+    geometry.setAttribute('color', new THREE.BufferAttribute(rgb, 3));
+  }
+  geometry.setIndex(Array.from(indices));
+  if (!outNormals) geometry.computeVertexNormals();
+  return geometry;
+}
+
+/**
+ * Translucent three.js copy of a player skin, centred on the body like the
+ * play-mode player (2 units tall). Null when the skin can't be built here;
+ * callers fall back to the plain ghost box.
+ */
+export function createGhostSkinObject(skin: GhostSkin, opacity: number): THREE.Group | null {
+  let engine: BABYLON.NullEngine | null = null;
+  try {
+    engine = new BABYLON.NullEngine();
+    const scene = new BABYLON.Scene(engine);
+    const colors = skin.colors && {
+      primary: BABYLON.Color3.FromHexString(`#${skin.colors.primary.toString(16).padStart(6, '0')}`),
+      secondary: BABYLON.Color3.FromHexString(`#${skin.colors.secondary.toString(16).padStart(6, '0')}`),
+    };
+    const instance = createSkinMesh(scene, skin.skinId, colors, skin.config);
+    instance.root.computeWorldMatrix(true);
+
+    const body = new THREE.Group();
+    for (const mesh of [instance.root, ...instance.root.getChildMeshes(false)]) {
+      if (!mesh.isEnabled() || !mesh.isVisible) continue;
+      const geometry = toThreeGeometry(mesh);
+      if (!geometry) continue;
+      const vertexColors = geometry.getAttribute('color') !== undefined;
+      const material = new THREE.MeshLambertMaterial({
+        color: vertexColors ? 0xffffff : colorOf(mesh.material),
+        vertexColors,
+        transparent: true,
+        opacity,
+        depthWrite: false,
+        side: THREE.DoubleSide,
+      });
+      body.add(new THREE.Mesh(geometry, material));
+    }
+    if (body.children.length === 0) return null;
+
+    // Skins stand on their feet at the origin; the ghost pose is the body centre
+    const scale = instance.anchorYOffset > 0 ? 1 / instance.anchorYOffset : 1;
+    body.scale.setScalar(scale);
+    body.position.y = -instance.anchorYOffset * scale;
+    const group = new THREE.Group();
+    group.add(body);
+    return group;
+  } catch (e) {
+    console.warn('Ghost skin unavailable', e);
+    return null;
+  } finally {
+    try { engine?.dispose(); } catch { /* nothing left to release */ }
+  }
+}
@@ -0,0 +1,79 @@
+import { screenRectFromPoints, type ScreenRect, type SelectionMode, type SelectionOp } from '@/features/selection/selectionQueries';
+
+// Below this many pixels a shift-drag is treated as a plain shift-click
+const MIN_DRAG_PX = 4;
+
+/**
+ * Shift+drag rectangle selection over the editor viewport.
+ * Dragging right takes blocks fully inside the box; dragging left takes
+ * anything it touches. Ctrl/Cmd adds to the selection, Alt removes from it.
+ */
+export function attachMarqueeSelection(params: {
+  mount: HTMLElement;
+  isEnabled: () => boolean;
+  onSelect: (rect: ScreenRect, mode: SelectionMode, op: SelectionOp) => void;
+}) {
+  let start: { x: number; y: number } | null = null;
+  let box: HTMLDivElement | null = null;
+
+  const removeBox = () => {
+    box?.remove();
+    box = null;
+  };
+
+  const onMouseDown = (event: MouseEvent) => {
+    if (event.button !== 0 || !event.shiftKey || !params.isEnabled()) return;
+    // Capture phase: keep the camera from orbiting while the box is drawn
+    event.stopPropagation();
+    event.preventDefault();
+    start = { x: event.clientX, y: event.clientY };
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mouseup', onMouseUp, { capture: true });
+  };
+
+  const onMouseMove = (event: MouseEvent) => {
+    if (!start) return;
+    const rect = screenRectFromPoints(start, { x: event.clientX, y: event.clientY });
+    if (!box) {
+      if (rect.right - rect.left < MIN_DRAG_PX && rect.bottom - rect.top < MIN_DRAG_PX) return;
+      box = document.createElement('div');
+      box.style.cssText = 'position:fixed;pointer-events:none;z-index:20;border:1px solid #facc15;background:rgba(250,204,21,0.12)';
+      document.body.appendChild(box);
+    }
+    // Solid border for "inside", dashed for "touching"
+    box.style.borderStyle = event.clientX >= start.x ? 'solid' : 'dashed';
+    box.style.left = `${rect.left}px`;
+    box.style.top = `${rect.top}px`;
+    box.style.width = `${rect.right - rect.left}px`;
+    box.style.height = `${rect.bottom - rect.top}px`;
+  };
+
+  const onMouseUp = (event: MouseEvent) => {
+    window.removeEventListener('mousemove', onMouseMove);
+    window.removeEventListener('mouseup', onMouseUp, { capture: true });
+    const from = start;
+    const dragged = !!box;
+    start = null;
+    removeBox();
+    if (!from || !dragged) return;
+
+    // Neither this mouseup nor the click after it should place, select or clear a block
+    event.stopPropagation();
+    const swallowClick = (e: MouseEvent) => e.stopPropagation();
+    params.mount.addEventListener('click', swallowClick, { capture: true, once: true });
+    window.setTimeout(() => params.mount.removeEventListener('click', swallowClick, { capture: true }), 0);
+
+    const op: SelectionOp = event.altKey ? 'subtract' : (event.ctrlKey || event.metaKey) ? 'add' : 'replace';
+    const mode: SelectionMode = event.clientX >= from.x ? 'contain' : 'touch';
+    params.onSelect(screenRectFromPoints(from, { x: event.clientX, y: event.clientY }), mode, op);
+  };
+
+  params.mount.addEventListener('mousedown', onMouseDown, { capture: true });
+
+  return () => {
+    params.mount.removeEventListener('mousedown', onMouseDown, { capture: true });
+    window.removeEventListener('mousemove', onMouseMove);
+    window.removeEventListener('mouseup', onMouseUp, { capture: true });
+    removeBox();
+  };
+}
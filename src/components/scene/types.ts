@@ -1,4 +1,5 @@
 import type * as THREE from 'three';
+import type { EnvironmentSettings, LogicTrigger, TerrainData } from '@/types/project';
 
 export type BlockType =
   | 'cube'
@@ -22,7 +23,8 @@ export type BlockType =
   | 'start'
   | 'checkpoint'
   | 'finish'
-  | 'hazard';
+  | 'hazard'
+  | 'model';
 
 export type MechanicType =
   | 'none'
@@ -50,6 +52,8 @@ export interface Block {
   scale?: number;
   mechanic?: MechanicType;
   mechanicPower?: number;
+  assetId?: string;
+  collider?: 'box' | 'hull';
   mesh?: THREE.Mesh;
   // Using any for physics body to avoid coupling to cannon-es typings
   body?: any;
@@ -57,18 +61,26 @@ export interface Block {
 
 export interface Scene3DProps {
   onBlockAdd?: (block: Block) => void;
-  droppedBlock?: { type: BlockType } | null;
+  droppedBlock?: { type: BlockType; assetId?: string } | null;
   onSceneStateChange?: (blocks: Block[]) => void;
   loadedBlocks?: Block[];
   selectedTool?: 'select' | 'move' | 'paint';
   isPlayMode?: boolean;
   terrainMode?: 'flat' | 'hilly';
   cameraMode?: 'orbit' | 'first' | 'ortho';
+  // Sky, fog and lights; undefined follows the editor's environment store, null uses the defaults
+  environment?: EnvironmentSettings | null;
+  // Saved terrain (play mode); replaces the flat/hilly ground when set
+  terrain?: TerrainData | null;
+  // Level logic triggers (play mode)
+  logic?: LogicTrigger[] | null;
   // Gameplay event hooks (play mode)
   onGameStart?: (pos: { x: number; y: number; z: number }) => void;
   onGameCheckpoint?: (pos: { x: number; y: number; z: number }) => void;
   onGameFinish?: (pos: { x: number; y: number; z: number }) => void;
   onGameHazard?: (pos: { x: number; y: number; z: number }) => void;
+  // A logic end_round action; 'win' also finishes the run, 'lose' respawns the player
+  onGameRoundEnd?: (outcome: 'win' | 'lose') => void;
 }
 
 
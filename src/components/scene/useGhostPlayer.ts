@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import type { GhostSkin } from '@/features/runs/ghostReplay';
+import { createGhostSkinObject } from './ghostSkin';
+
+const GHOST_OPACITY = 0.35;
+
+// Translucent replay of a run in the runner's skin; a box with the play-mode
+// player's footprint when the skin is unknown or can't be built
+export function useGhostPlayer(params: { sceneRef: React.MutableRefObject<THREE.Scene | null>; color?: number; }) {
+  const ghostRef = useRef<THREE.Object3D | null>(null);
+  const skinRef = useRef<GhostSkin | null>(null);
+
+  const removeGhost = () => {
+    try {
+      if (ghostRef.current && params.sceneRef.current) {
+        params.sceneRef.current.remove(ghostRef.current);
+        ghostRef.current.traverse((child) => {
+          if (!(child instanceof THREE.Mesh)) return;
+          child.geometry?.dispose?.();
+          (child.material as THREE.Material)?.dispose?.();
+        });
+      }
+    } catch {
+      // Scene may already be torn down
+    }
+    ghostRef.current = null;
+  };
+
+  const createBox = () => {
+    const geometry = new THREE.BoxGeometry(1, 2, 1);
+    const material = new THREE.MeshLambertMaterial({ color: params.color ?? 0x66ccff, transparent: true, opacity: GHOST_OPACITY, depthWrite: false });
+    return new THREE.Mesh(geometry, material);
+  };
+
+  const createGhost = () => {
+    if (!params.sceneRef.current) return null;
+    const ghost = (skinRef.current && createGhostSkinObject(skinRef.current, GHOST_OPACITY)) || createBox();
+    ghost.traverse((child) => {
+      child.castShadow = false;
+      child.receiveShadow = false;
+    });
+    ghost.name = 'ghost-player';
+    params.sceneRef.current.add(ghost);
+    ghostRef.current = ghost;
+    return ghost;
+  };
+
+  /** Place the ghost (body-centred position, yaw in radians); null hides it. */
+  const setGhostPose = (pose: { x: number; y: number; z: number; yaw?: number } | null) => {
+    if (!pose) {
+      if (ghostRef.current) ghostRef.current.visible = false;
+      return;
+    }
+    const ghost = ghostRef.current || createGhost();
+    if (!ghost) return;
+    ghost.visible = true;
+    ghost.position.set(pose.x, pose.y, pose.z);
+    if (typeof pose.yaw === 'number') ghost.rotation.set(0, pose.yaw, 0);
+  };
+
+  /** Skin for the next ghost shown; a different skin rebuilds it. */
+  const setGhostSkin = (skin: GhostSkin | null) => {
+    if (JSON.stringify(skin) === JSON.stringify(skinRef.current)) return;
+    skinRef.current = skin;
+    const wasVisible = ghostRef.current?.visible ?? false;
+    const previous = ghostRef.current ? ghostRef.current.position.clone() : null;
+    const rotationY = ghostRef.current?.rotation.y ?? 0;
+    removeGhost();
+    if (previous && wasVisible) setGhostPose({ x: previous.x, y: previous.y, z: previous.z, yaw: rotationY });
+  };
+
+  useEffect(() => () => removeGhost(), []);
+
+  return { setGhostPose, setGhostSkin, removeGhost } as const;
+}
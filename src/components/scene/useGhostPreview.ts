@@ -16,7 +16,7 @@ export function useGhostPreview(params: { sceneRef: React.MutableRefObject<THREE
     ghostRef.current = null;
   };
 
-  const createGhost = (type: 'cube' | 'cube_bouncy' | 'cube_ice' | 'cube_conveyor' | 'cube_boost' | 'cube_slow' | 'cube_sticky' | 'sphere' | 'cylinder' | 'cone' | 'pyramid' | 'plate' | 'ramp' | 'torus' | 'wedge' | 'door' | 'window' | 'fence') => {
+  const createGhost = (type: 'cube' | 'cube_bouncy' | 'cube_ice' | 'cube_conveyor' | 'cube_boost' | 'cube_slow' | 'cube_sticky' | 'sphere' | 'cylinder' | 'cone' | 'pyramid' | 'plate' | 'ramp' | 'torus' | 'wedge' | 'door' | 'window' | 'fence' | 'model') => {
     if (!params.sceneRef.current) return;
     removeGhost();
     let geometry: THREE.BufferGeometry;
@@ -31,6 +31,7 @@ export function useGhostPreview(params: { sceneRef: React.MutableRefObject<THREE
     else if (type === 'wedge') geometry = new THREE.BoxGeometry(1, 0.5, 1); // placeholder
     else if (type === 'door') geometry = new THREE.BoxGeometry(1, 2, 0.1);
     else if (type === 'window') geometry = new THREE.BoxGeometry(1.2, 1, 0.1);
+    else if (type === 'model') geometry = new THREE.BoxGeometry(1, 1, 1); // model bounds are unknown until placed
     else geometry = new THREE.BoxGeometry(1.2, 1, 0.1); // fence panel placeholder
     const material = new THREE.MeshLambertMaterial({ color: params.colorRef.current || 0xffffff, transparent: true, opacity: 0.5, depthWrite: false });
     const ghost = new THREE.Mesh(geometry, material);
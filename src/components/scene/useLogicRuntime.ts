@@ -0,0 +1,141 @@
+import { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { LogicRuntime, type LogicBlockTransform } from '@/components/editor-enhanced/scene/systems/play/LogicRuntime';
+import type { LogicEffect, LogicTrigger } from '@/types/project';
+import type { Block } from './types';
+import type { usePlayerController } from './usePlayerController';
+
+const EFFECT_COLORS: Record<LogicEffect, number> = { sparkle: 0xffd933, smoke: 0x999999, flash: 0xffffff };
+
+interface Effect {
+  mesh: THREE.Mesh;
+  elapsed: number;
+  duration: number;
+  growth: number;
+}
+
+function removeEffect(scene: THREE.Scene | null, effect: Effect) {
+  scene?.remove(effect.mesh);
+  effect.mesh.geometry.dispose();
+  (effect.mesh.material as THREE.Material).dispose();
+}
+
+// Level logic (triggers and actions) in the three.js play scene: the same
+// LogicRuntime the editor's play mode runs, with a host over this scene's
+// block meshes and cannon bodies
+export function useLogicRuntime({ sceneRef, blocksRef, playerRef, onRoundEnd }: {
+  sceneRef: React.MutableRefObject<THREE.Scene | null>;
+  blocksRef: React.MutableRefObject<Block[]>;
+  playerRef: ReturnType<typeof usePlayerController>['playerRef'];
+  onRoundEnd: (outcome: 'win' | 'lose') => void;
+}) {
+  const onRoundEndRef = useRef(onRoundEnd);
+  onRoundEndRef.current = onRoundEnd;
+  // Batched cubes hide their meshes, so logic keeps its own visibility
+  const hiddenRef = useRef(new Set<string>());
+  const effectsRef = useRef<Effect[]>([]);
+  const lastUpdateRef = useRef<number | null>(null);
+
+  const runtimeRef = useRef<LogicRuntime | null>(null);
+  if (!runtimeRef.current) {
+    const findBlock = (id: string) => blocksRef.current.find(b => b.id === id);
+    const toRad = Math.PI / 180;
+    runtimeRef.current = new LogicRuntime({
+      getBlockTransform: (id): LogicBlockTransform | null => {
+        const mesh = findBlock(id)?.mesh;
+        if (!mesh) return null;
+        const toDeg = 180 / Math.PI;
+        return {
+          position: { x: mesh.position.x, y: mesh.position.y, z: mesh.position.z },
+          rotation: { x: mesh.rotation.x * toDeg, y: mesh.rotation.y * toDeg, z: mesh.rotation.z * toDeg },
+        };
+      },
+      setBlockTransform: (id, t) => {
+        const block = findBlock(id);
+        if (!block?.mesh) return;
+        block.mesh.position.set(t.position.x, t.position.y, t.position.z);
+        block.mesh.rotation.set(t.rotation.x * toRad, t.rotation.y * toRad, t.rotation.z * toRad);
+        if (block.body) {
+          // The engine loop copies bodies onto meshes, so the body leads
+          block.body.position.set(t.position.x, t.position.y, t.position.z);
+          block.body.quaternion.setFromEuler(t.rotation.x * toRad, t.rotation.y * toRad, t.rotation.z * toRad);
+          block.body.aabbNeedsUpdate = true;
+        }
+      },
+      getBlockVisible: (id) => !!findBlock(id) && !hiddenRef.current.has(id),
+      setBlockVisible: (id, visible) => {
+        const block = findBlock(id);
+        if (!block) return;
+        if (visible) hiddenRef.current.delete(id); else hiddenRef.current.add(id);
+        if (block.mesh) block.mesh.visible = visible;
+        if (block.body) block.body.collisionResponse = visible;
+      },
+      teleportPlayer: (p) => {
+        const player = playerRef.current;
+        if (!player) return;
+        player.body.velocity.set(0, 0, 0);
+        player.body.position.set(p.x, p.y, p.z);
+        player.mesh.position.set(p.x, p.y, p.z);
+      },
+      playEffect: (effect, p) => {
+        const scene = sceneRef.current;
+        if (!scene) return;
+        const material = new THREE.MeshBasicMaterial({ color: EFFECT_COLORS[effect] ?? EFFECT_COLORS.sparkle, transparent: true, depthWrite: false });
+        const mesh = new THREE.Mesh(new THREE.SphereGeometry(0.25, 8, 8), material);
+        mesh.position.set(p.x, p.y, p.z);
+        mesh.raycast = () => {};
+        scene.add(mesh);
+        effectsRef.current.push({ mesh, elapsed: 0, duration: effect === 'flash' ? 0.25 : 0.6, growth: effect === 'smoke' ? 4 : 3 });
+      },
+      endRound: (outcome) => onRoundEndRef.current(outcome),
+    });
+  }
+
+  // Expand and fade out, like the editor's play mode
+  const stepEffects = (dt: number) => {
+    effectsRef.current = effectsRef.current.filter((effect) => {
+      effect.elapsed += dt;
+      const t = Math.min(1, effect.elapsed / effect.duration);
+      effect.mesh.scale.setScalar(1 + t * effect.growth);
+      (effect.mesh.material as THREE.MeshBasicMaterial).opacity = 1 - t;
+      if (t < 1) return true;
+      removeEffect(sceneRef.current, effect);
+      return false;
+    });
+  };
+
+  /** Replace the level's triggers; blocks touched by the previous logic are restored. */
+  const load = (triggers: LogicTrigger[] | null | undefined) => {
+    runtimeRef.current!.load(triggers || []);
+    hiddenRef.current.clear();
+  };
+
+  /** Start the logic over (new run): blocks go back and timers restart. */
+  const reset = () => {
+    runtimeRef.current!.reset();
+    hiddenRef.current.clear();
+  };
+
+  /** Step triggers, delayed actions and tweens; call once per rendered frame. */
+  const update = () => {
+    const now = performance.now();
+    const last = lastUpdateRef.current;
+    lastUpdateRef.current = now;
+    // A hidden tab or the first frame doesn't count as elapsed play time
+    const dt = last === null || document.hidden ? 0 : Math.min((now - last) / 1000, 0.1);
+    const player = playerRef.current;
+    const position = player ? { x: player.body.position.x, y: player.body.position.y, z: player.body.position.z } : null;
+    runtimeRef.current!.update(dt, position);
+    stepEffects(dt);
+  };
+
+  /** Blocks logic moves or hides; they must keep their own mesh. */
+  const targetIds = () => runtimeRef.current!.getTargetBlockIds();
+
+  useEffect(() => () => {
+    effectsRef.current.forEach(effect => removeEffect(sceneRef.current, effect));
+    effectsRef.current = [];
+  }, [sceneRef]);
+
+  return { load, reset, update, targetIds } as const;
+}
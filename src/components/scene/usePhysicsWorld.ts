@@ -1,5 +1,7 @@
 import { useEffect, useRef } from 'react';
 import * as THREE from 'three';
+import type { TerrainData } from '@/types/project';
+import { createTerrainGround, type TerrainGround } from './engine/terrainGround';
 // @ts-ignore - using CDN module in app, type as any here for isolation
 import * as CANNON from 'https://cdn.jsdelivr.net/npm/cannon-es@0.20.0/dist/cannon-es.js';
 
@@ -7,6 +9,7 @@ export function usePhysicsWorld(terrainMode: 'flat' | 'hilly') {
   const worldRef = useRef<any>(null);
   const groundBodyRef = useRef<any>(null);
   const groundMaterialRef = useRef<any>(null);
+  const terrainGroundRef = useRef<TerrainGround | null>(null);
   const dynamicMaterialRef = useRef<any>(null);
   const collisionListenersRef = useRef<Set<(a: any, b: any, phase: 'begin' | 'end' | 'stay') => void>>(new Set());
   const prevPairsRef = useRef<Set<string>>(new Set());
@@ -159,7 +162,29 @@ export function usePhysicsWorld(terrainMode: 'flat' | 'hilly') {
     }
   };
 
-  const createGround = (scene: THREE.Scene) => {
+  // Saved terrain replaces the flat/hilly ground, with a matching trimesh body
+  const createTerrain = (scene: THREE.Scene, terrain: TerrainData) => {
+    const built = createTerrainGround(terrain);
+    if (!built) return null;
+    scene.add(built.mesh);
+    terrainGroundRef.current = built;
+    if (worldRef.current) {
+      try {
+        const shape = new CANNON.Trimesh(built.vertices, built.indices);
+        const groundBody = new CANNON.Body({ mass: 0, shape });
+        groundBody.material = groundMaterialRef.current || undefined;
+        worldRef.current.addBody(groundBody);
+        groundBodyRef.current = groundBody;
+      } catch (e) {
+        console.warn('Terrain physics body failed', e);
+      }
+    }
+    return { ground: built.mesh, groundGeometry: built.mesh.geometry };
+  };
+
+  const createGround = (scene: THREE.Scene, terrain?: TerrainData | null) => {
+    const fromTerrain = terrain ? createTerrain(scene, terrain) : null;
+    if (fromTerrain) return fromTerrain;
     const isHilly = terrainMode === 'hilly';
     const segs = isHilly ? 64 : 1;
     const groundGeometry = new THREE.PlaneGeometry(50, 50, segs, segs);
@@ -220,12 +245,29 @@ export function usePhysicsWorld(terrainMode: 'flat' | 'hilly') {
     return { ground, groundGeometry };
   };
 
+  /** Removes a ground made by createGround, physics body included. */
+  const removeGround = (scene: THREE.Scene, ground: THREE.Mesh | null) => {
+    if (ground) scene.remove(ground);
+    if (terrainGroundRef.current?.mesh === ground) {
+      terrainGroundRef.current.dispose();
+      terrainGroundRef.current = null;
+    } else if (ground) {
+      ground.geometry.dispose();
+      (ground.material as THREE.Material).dispose();
+    }
+    if (groundBodyRef.current && worldRef.current) {
+      try { worldRef.current.removeBody(groundBodyRef.current); } catch { /* already removed with the world */ }
+    }
+    groundBodyRef.current = null;
+  };
+
   return {
     worldRef,
     groundBodyRef,
     groundMaterialRef,
     dynamicMaterialRef,
     createGround,
+    removeGround,
     updatePhysicsSettings,
     raycastClosest,
     addCollisionListener,
@@ -0,0 +1,76 @@
+// Loading of user-uploaded GLB models for model blocks, shared by the editor
+// and Play. Each asset is fetched and parsed once; blocks clone the template.
+
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { API_BASE } from '@/shared/api/client';
+import type { Vec3 } from './modelCollider';
+
+export interface ModelAsset {
+  /** Model re-centred so its base sits on the bottom face of the block cell */
+  template: THREE.Group;
+  /** Vertex positions in template space, for collider generation */
+  points: Vec3[];
+  size: Vec3;
+}
+
+const cache = new Map<string, Promise<ModelAsset>>();
+
+export function assetFileUrl(assetId: string): string {
+  return `${API_BASE}/assets/${encodeURIComponent(assetId)}/file`;
+}
+
+function collectPoints(root: THREE.Object3D): Vec3[] {
+  const points: Vec3[] = [];
+  const v = new THREE.Vector3();
+  root.updateMatrixWorld(true);
+  root.traverse(object => {
+    const mesh = object as THREE.Mesh;
+    const position = mesh.isMesh ? mesh.geometry.getAttribute('position') : undefined;
+    if (!position) return;
+    for (let i = 0; i < position.count; i++) {
+      v.fromBufferAttribute(position, i).applyMatrix4(mesh.matrixWorld);
+      points.push({ x: v.x, y: v.y, z: v.z });
+    }
+  });
+  return points;
+}
+
+async function fetchModel(assetId: string): Promise<ModelAsset> {
+  const gltf = await new GLTFLoader().loadAsync(assetFileUrl(assetId));
+  const template = new THREE.Group();
+  template.name = `model-${assetId}`;
+  template.add(gltf.scene);
+
+  // Centre on X/Z and stand the model on the floor of its cell, like other blocks
+  const box = new THREE.Box3().setFromObject(gltf.scene);
+  if (!box.isEmpty()) {
+    const center = box.getCenter(new THREE.Vector3());
+    gltf.scene.position.sub(new THREE.Vector3(center.x, box.min.y + 0.5, center.z));
+  }
+  template.traverse(object => {
+    if ((object as THREE.Mesh).isMesh) {
+      object.castShadow = true;
+      object.receiveShadow = true;
+    }
+  });
+
+  const size = box.isEmpty() ? new THREE.Vector3(1, 1, 1) : box.getSize(new THREE.Vector3());
+  return { template, points: collectPoints(template), size: { x: size.x, y: size.y, z: size.z } };
+}
+
+/** Load (once) the GLB behind a model block. Failed loads are retried on the next call. */
+export function loadModelAsset(assetId: string): Promise<ModelAsset> {
+  let pending = cache.get(assetId);
+  if (!pending) {
+    pending = fetchModel(assetId);
+    pending.catch(() => cache.delete(assetId));
+    cache.set(assetId, pending);
+  }
+  return pending;
+}
+
+/** Drop a cached model, e.g. after the user deleted the asset. */
+export function forgetModelAsset(assetId: string): void {
+  cache.delete(assetId);
+}
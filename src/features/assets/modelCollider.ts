@@ -0,0 +1,91 @@
+// Collision shapes for imported model blocks. Plain data, so both physics
+// setups (the live editor's cannon build and PlayPhysics) can turn it into
+// their own shapes.
+
+import * as THREE from 'three';
+import { ConvexHull } from 'three/examples/jsm/math/ConvexHull.js';
+import type { ModelCollider } from '@/types/project';
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type ColliderShape =
+  | { kind: 'box'; halfExtents: Vec3; offset: Vec3 }
+  /** Faces index into `vertices`, counter-clockwise seen from outside */
+  | { kind: 'hull'; vertices: Vec3[]; faces: number[][] };
+
+// Keeps hull construction (and the resulting cannon shape) cheap for dense meshes
+const MAX_HULL_POINTS = 2000;
+// Thinnest box half-extent; flatter models collide as a slab
+const MIN_HALF_EXTENT = 0.01;
+
+function boxOf(points: Vec3[]): Extract<ColliderShape, { kind: 'box' }> {
+  const box = new THREE.Box3();
+  points.forEach(p => box.expandByPoint(new THREE.Vector3(p.x, p.y, p.z)));
+  if (box.isEmpty()) return { kind: 'box', halfExtents: { x: 0.5, y: 0.5, z: 0.5 }, offset: { x: 0, y: 0, z: 0 } };
+  const size = box.getSize(new THREE.Vector3()).multiplyScalar(0.5);
+  const center = box.getCenter(new THREE.Vector3());
+  // Flat models (a sign, a plane) still need some thickness to collide with
+  const half = (v: number) => Math.max(v, MIN_HALF_EXTENT);
+  return {
+    kind: 'box',
+    halfExtents: { x: half(size.x), y: half(size.y), z: half(size.z) },
+    offset: { x: center.x, y: center.y, z: center.z },
+  };
+}
+
+/**
+ * Collision shape for a model from its vertex positions in block space.
+ * `hull` builds a convex hull; degenerate (flat or tiny) point sets fall
+ * back to the bounding box.
+ */
+export function computeModelCollider(points: Vec3[], collider: ModelCollider = 'box'): ColliderShape {
+  const box = boxOf(points);
+  if (collider === 'box' || points.length < 4) return box;
+  // ConvexHull does not reject coplanar input; it returns a degenerate hull
+  const { halfExtents } = box;
+  if (Math.min(halfExtents.x, halfExtents.y, halfExtents.z) <= MIN_HALF_EXTENT) return box;
+
+  const step = Math.ceil(points.length / MAX_HULL_POINTS);
+  const sampled: THREE.Vector3[] = [];
+  for (let i = 0; i < points.length; i += step) sampled.push(new THREE.Vector3(points[i].x, points[i].y, points[i].z));
+
+  let hull: ConvexHull;
+  try {
+    hull = new ConvexHull().setFromPoints(sampled);
+  } catch {
+    return box;
+  }
+  if (hull.faces.length < 4) return box;
+
+  const vertices: Vec3[] = [];
+  const indexOf = new Map<THREE.Vector3, number>();
+  const faces = hull.faces.map(face => {
+    const loop: number[] = [];
+    let edge = face.edge;
+    do {
+      const point = edge.head().point;
+      let index = indexOf.get(point);
+      if (index === undefined) {
+        index = vertices.length;
+        indexOf.set(point, index);
+        vertices.push({ x: point.x, y: point.y, z: point.z });
+      }
+      loop.push(index);
+      edge = edge.next;
+    } while (edge !== face.edge);
+    return loop;
+  });
+  return { kind: 'hull', vertices, faces };
+}
+
+/** Scale a collider shape, e.g. by the block's uniform scale. */
+export function scaleCollider(shape: ColliderShape, scale: number): ColliderShape {
+  const mul = (v: Vec3) => ({ x: v.x * scale, y: v.y * scale, z: v.z * scale });
+  return shape.kind === 'box'
+    ? { kind: 'box', halfExtents: mul(shape.halfExtents), offset: mul(shape.offset) }
+    : { kind: 'hull', vertices: shape.vertices.map(mul), faces: shape.faces };
+}
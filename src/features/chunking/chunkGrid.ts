@@ -0,0 +1,193 @@
+// Spatial chunks of axis-aligned unit cubes for batched rendering. Cubes are
+// kept per lattice (their centre's offset from the integer grid), grouped in
+// CHUNK_SIZE³ chunks; a change only dirties the chunks whose geometry it
+// affects, and each dirty chunk is re-meshed on its own.
+
+import { greedyQuads, pushQuad, type MeshBuffers, type Vec3Tuple } from './greedyMesh';
+
+export const CHUNK_SIZE = 16;
+
+export interface Vec3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+interface Cell {
+  id: string;
+  material: string;
+  lattice: string;
+  index: Vec3Tuple;
+  chunk: string;
+}
+
+// Centres this close to a lattice point still count as snapped
+const EPSILON = 1e-3;
+
+/** Split a coordinate into a half-unit lattice offset and an integer cell; null when off-grid. */
+function snap(value: number): { offset: number; index: number } | null {
+  const doubled = Math.round(value * 2);
+  if (Math.abs(value * 2 - doubled) > EPSILON * 2) return null;
+  const offset = ((doubled % 2) + 2) % 2 === 0 ? 0 : 0.5;
+  return { offset, index: Math.round(value - offset) };
+}
+
+const cellKey = (lattice: string, x: number, y: number, z: number) => `${lattice}|${x},${y},${z}`;
+const chunkOf = (lattice: string, index: Vec3Tuple) =>
+  `${lattice}|${Math.floor(index[0] / CHUNK_SIZE)},${Math.floor(index[1] / CHUNK_SIZE)},${Math.floor(index[2] / CHUNK_SIZE)}`;
+
+export class ChunkGrid {
+  private cells = new Map<string, Cell>();
+  private byId = new Map<string, string>();
+  private chunks = new Map<string, Set<string>>();
+  private dirty = new Set<string>();
+  // Cubes per lattice; at most eight lattices exist
+  private lattices = new Map<string, number>();
+
+  /**
+   * Add or move a cube (unit size, centred at `center`). Returns false, and
+   * leaves the cube out, when it is off the half-unit grid or its cell is
+   * already taken by another cube.
+   */
+  set(id: string, center: Vec3Like, material: string): boolean {
+    const sx = snap(center.x);
+    const sy = snap(center.y);
+    const sz = snap(center.z);
+    if (!sx || !sy || !sz) {
+      this.remove(id);
+      return false;
+    }
+    const lattice = `${sx.offset},${sy.offset},${sz.offset}`;
+    const index: Vec3Tuple = [sx.index, sy.index, sz.index];
+    const key = cellKey(lattice, index[0], index[1], index[2]);
+
+    const current = this.cells.get(key);
+    if (current && current.id !== id) {
+      this.remove(id);
+      return false;
+    }
+    if (current && current.material === material) return true;
+
+    this.remove(id);
+    const chunk = chunkOf(lattice, index);
+    this.cells.set(key, { id, material, lattice, index, chunk });
+    this.lattices.set(lattice, (this.lattices.get(lattice) ?? 0) + 1);
+    this.byId.set(id, key);
+    if (!this.chunks.has(chunk)) this.chunks.set(chunk, new Set());
+    this.chunks.get(chunk)!.add(key);
+    this.markDirty(lattice, index);
+    return true;
+  }
+
+  remove(id: string): void {
+    const key = this.byId.get(id);
+    if (!key) return;
+    const cell = this.cells.get(key)!;
+    this.cells.delete(key);
+    this.byId.delete(id);
+    const remaining = (this.lattices.get(cell.lattice) ?? 1) - 1;
+    if (remaining > 0) this.lattices.set(cell.lattice, remaining);
+    else this.lattices.delete(cell.lattice);
+    const members = this.chunks.get(cell.chunk);
+    members?.delete(key);
+    if (members && members.size === 0) this.chunks.delete(cell.chunk);
+    this.markDirty(cell.lattice, cell.index);
+  }
+
+  has(id: string): boolean {
+    return this.byId.has(id);
+  }
+
+  get size(): number {
+    return this.cells.size;
+  }
+
+  // The cube's own chunk, plus neighbours whose border faces it hides or reveals
+  private markDirty(lattice: string, index: Vec3Tuple): void {
+    this.dirty.add(chunkOf(lattice, index));
+    for (let axis = 0; axis < 3; axis++) {
+      for (const step of [-1, 1]) {
+        const neighbour: Vec3Tuple = [index[0], index[1], index[2]];
+        neighbour[axis] += step;
+        this.dirty.add(chunkOf(lattice, neighbour));
+      }
+    }
+  }
+
+  /** Chunks whose geometry changed since they were last taken. */
+  takeDirty(): string[] {
+    const taken = [...this.dirty];
+    this.dirty.clear();
+    return taken;
+  }
+
+  /**
+   * Greedy-mesh a chunk: one buffer set per material, in world units, with
+   * faces against any neighbouring cube of the same lattice dropped. An empty
+   * map means the chunk has nothing left to draw.
+   */
+  buildChunk(chunk: string, frontFace: 'ccw' | 'cw' = 'ccw'): Map<string, MeshBuffers> {
+    const result = new Map<string, MeshBuffers>();
+    const members = this.chunks.get(chunk);
+    if (!members || members.size === 0) return result;
+
+    const [lattice, coords] = chunk.split('|');
+    const origin = coords.split(',').map(n => Number(n) * CHUNK_SIZE) as Vec3Tuple;
+    const offset = lattice.split(',').map(Number) as Vec3Tuple;
+    const materials: string[] = [];
+    const materialIds = new Map<string, number>();
+    const values = new Uint16Array(CHUNK_SIZE * CHUNK_SIZE * CHUNK_SIZE);
+    for (const key of members) {
+      const cell = this.cells.get(key)!;
+      let id = materialIds.get(cell.material);
+      if (id === undefined) {
+        materials.push(cell.material);
+        id = materials.length;
+        materialIds.set(cell.material, id);
+      }
+      const [x, y, z] = [cell.index[0] - origin[0], cell.index[1] - origin[1], cell.index[2] - origin[2]];
+      values[x + CHUNK_SIZE * (y + CHUNK_SIZE * z)] = id;
+    }
+
+    const quads = greedyQuads(
+      [CHUNK_SIZE, CHUNK_SIZE, CHUNK_SIZE],
+      (x, y, z) => values[x + CHUNK_SIZE * (y + CHUNK_SIZE * z)],
+      (x, y, z) => this.cells.has(cellKey(lattice, origin[0] + x, origin[1] + y, origin[2] + z)),
+    );
+    // Cell corners sit half a unit below the cube centre
+    const toWorld = (p: Vec3Tuple): Vec3Tuple => [
+      origin[0] + p[0] + offset[0] - 0.5,
+      origin[1] + p[1] + offset[1] - 0.5,
+      origin[2] + p[2] + offset[2] - 0.5,
+    ];
+    for (const quad of quads) {
+      const material = materials[quad.value - 1];
+      if (!result.has(material)) result.set(material, { positions: [], normals: [], indices: [] });
+      pushQuad(result.get(material)!, quad, toWorld, frontFace);
+    }
+    return result;
+  }
+
+  /**
+   * Cube behind a hit on chunk geometry: step half a unit into the surface
+   * from the hit point (normal points out of the face).
+   */
+  blockIdAt(point: Vec3Like, normal: Vec3Like): string | null {
+    const inside = { x: point.x - normal.x * 0.5, y: point.y - normal.y * 0.5, z: point.z - normal.z * 0.5 };
+    for (const lattice of this.lattices.keys()) {
+      const [ox, oy, oz] = lattice.split(',').map(Number);
+      const key = cellKey(lattice, Math.round(inside.x - ox), Math.round(inside.y - oy), Math.round(inside.z - oz));
+      const cell = this.cells.get(key);
+      if (cell) return cell.id;
+    }
+    return null;
+  }
+
+  clear(): void {
+    for (const chunk of this.chunks.keys()) this.dirty.add(chunk);
+    this.cells.clear();
+    this.byId.clear();
+    this.chunks.clear();
+    this.lattices.clear();
+  }
+}
@@ -0,0 +1,127 @@
+// Greedy meshing of voxel grids: visible faces of filled cells, merged into
+// the largest same-valued rectangles per slice. Engine-free so the editor
+// chunks (three.js and Babylon) and the voxel player skin share it.
+
+export type Vec3Tuple = [number, number, number];
+
+export interface GreedyQuad {
+  /** Axis the quad faces along (0 = x, 1 = y, 2 = z) */
+  axis: 0 | 1 | 2;
+  /** +1 when the face points along +axis */
+  sign: 1 | -1;
+  /** Cell value the quad was merged from */
+  value: number;
+  /** Corners in cell units, counter-clockwise seen from the front (the side the normal points to) */
+  corners: [Vec3Tuple, Vec3Tuple, Vec3Tuple, Vec3Tuple];
+}
+
+export interface MeshBuffers {
+  positions: number[];
+  normals: number[];
+  indices: number[];
+}
+
+/**
+ * Greedy-mesh a `dims` grid. `valueAt` returns 0 for empty cells and a
+ * positive id (colour/material) for filled ones; faces between two filled
+ * cells are dropped whatever their ids. `occludedAt` is asked about cells just
+ * outside the grid, so faces against a neighbouring chunk are dropped too.
+ * Cell (x, y, z) spans [x, x + 1] on each axis.
+ */
+export function greedyQuads(
+  dims: Vec3Tuple,
+  valueAt: (x: number, y: number, z: number) => number,
+  occludedAt: (x: number, y: number, z: number) => boolean = () => false,
+): GreedyQuad[] {
+  const quads: GreedyQuad[] = [];
+  const filled = (p: number[]) => {
+    const inside = p[0] >= 0 && p[1] >= 0 && p[2] >= 0 && p[0] < dims[0] && p[1] < dims[1] && p[2] < dims[2];
+    return inside ? valueAt(p[0], p[1], p[2]) : (occludedAt(p[0], p[1], p[2]) ? -1 : 0);
+  };
+
+  for (let d = 0; d < 3; d++) {
+    const u = (d + 1) % 3;
+    const v = (d + 2) % 3;
+    const x = [0, 0, 0];
+    const mask = new Int32Array(dims[u] * dims[v]);
+
+    // Slice between layer x[d] - 1 and x[d]; positive entries face +d, negative ones -d
+    for (x[d] = 0; x[d] <= dims[d]; x[d]++) {
+      let n = 0;
+      for (x[v] = 0; x[v] < dims[v]; x[v]++) {
+        for (x[u] = 0; x[u] < dims[u]; x[u]++) {
+          const behind = [x[0], x[1], x[2]];
+          behind[d] -= 1;
+          const a = filled(behind);
+          const b = filled(x);
+          // Out-of-grid occluders (-1) hide faces but never emit them
+          mask[n++] = a > 0 && !b ? a : !a && b > 0 ? -b : 0;
+        }
+      }
+
+      n = 0;
+      for (let j = 0; j < dims[v]; j++) {
+        for (let i = 0; i < dims[u];) {
+          const c = mask[n];
+          if (!c) {
+            i++;
+            n++;
+            continue;
+          }
+          let w = 1;
+          while (i + w < dims[u] && mask[n + w] === c) w++;
+          let h = 1;
+          grow: for (; j + h < dims[v]; h++) {
+            for (let k = 0; k < w; k++) {
+              if (mask[n + k + h * dims[u]] !== c) break grow;
+            }
+          }
+
+          const base: Vec3Tuple = [0, 0, 0];
+          base[d] = x[d];
+          base[u] = i;
+          base[v] = j;
+          const du: Vec3Tuple = [0, 0, 0];
+          du[u] = w;
+          const dv: Vec3Tuple = [0, 0, 0];
+          dv[v] = h;
+          const p1: Vec3Tuple = [base[0] + du[0], base[1] + du[1], base[2] + du[2]];
+          const p2: Vec3Tuple = [p1[0] + dv[0], p1[1] + dv[1], p1[2] + dv[2]];
+          const p3: Vec3Tuple = [base[0] + dv[0], base[1] + dv[1], base[2] + dv[2]];
+          // du x dv points along +d, so +d faces keep this order and -d faces reverse it
+          quads.push({
+            axis: d as 0 | 1 | 2,
+            sign: c > 0 ? 1 : -1,
+            value: Math.abs(c),
+            corners: c > 0 ? [base, p1, p2, p3] : [base, p3, p2, p1],
+          });
+
+          for (let l = 0; l < h; l++) {
+            for (let k = 0; k < w; k++) mask[n + k + l * dims[u]] = 0;
+          }
+          i += w;
+          n += w;
+        }
+      }
+    }
+  }
+  return quads;
+}
+
+/**
+ * Append a quad as two triangles. `toSpace` maps cell units to the target
+ * space (scale and offset only). three.js treats counter-clockwise triangles
+ * as front faces; Babylon (left-handed) wants them clockwise.
+ */
+export function pushQuad(out: MeshBuffers, quad: GreedyQuad, toSpace: (p: Vec3Tuple) => Vec3Tuple, frontFace: 'ccw' | 'cw' = 'ccw'): void {
+  const first = out.positions.length / 3;
+  const normal: Vec3Tuple = [0, 0, 0];
+  normal[quad.axis] = quad.sign;
+  for (const corner of quad.corners) {
+    const [x, y, z] = toSpace(corner);
+    out.positions.push(x, y, z);
+    out.normals.push(normal[0], normal[1], normal[2]);
+  }
+  if (frontFace === 'ccw') out.indices.push(first, first + 1, first + 2, first, first + 2, first + 3);
+  else out.indices.push(first, first + 2, first + 1, first, first + 3, first + 2);
+}
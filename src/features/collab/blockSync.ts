@@ -0,0 +1,175 @@
+// Client-side view of the server's authoritative block document.
+// Confirmed state only changes through server-sequenced operations; local
+// edits stay pending (optimistic) and are replayed on top until the server
+// acknowledges or rejects them.
+
+export type BlockLike = { id: string } & Record<string, unknown>;
+
+export type BlockOperationType = 'add' | 'update' | 'delete';
+
+export interface SequencedBlockOperation {
+  operation: BlockOperationType;
+  blockId: string;
+  blockData: BlockLike | null;
+  version: number;
+  seq: number;
+  opId?: string | null;
+  userId?: string;
+  userName?: string;
+  timestamp?: number;
+}
+
+export interface RejectedBlockOperation {
+  accepted: false;
+  reason: string;
+  blockId: string;
+  blockData: BlockLike | null;
+  version: number;
+  seq: number;
+  opId?: string | null;
+}
+
+export interface PendingBlockOperation {
+  opId: string;
+  operation: BlockOperationType;
+  blockId: string;
+  blockData?: Record<string, unknown>;
+}
+
+export interface BlockStateSnapshot {
+  blocks?: Record<string, BlockLike>;
+  versions?: Record<string, number>;
+  seq?: number;
+}
+
+/** Apply an update's fields; null clears a field (undefined would not survive JSON). */
+export function mergeFields(base: Record<string, unknown>, fields: Record<string, unknown> | null | undefined): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(fields || {})) {
+    if (value === null) delete merged[key];
+    else merged[key] = value;
+  }
+  return merged;
+}
+
+let opCounter = 0;
+export function makeOpId(): string {
+  opCounter = (opCounter + 1) % 1e6;
+  return `op-${Date.now().toString(36)}-${opCounter}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export class BlockSync {
+  private confirmed = new Map<string, { block: BlockLike; version: number }>();
+  private pending: PendingBlockOperation[] = [];
+  private seq = 0;
+
+  /** Replace confirmed state with a server snapshot; pending edits are kept. */
+  load(snapshot: BlockStateSnapshot | null | undefined): void {
+    this.confirmed.clear();
+    const blocks = snapshot?.blocks || {};
+    for (const [id, block] of Object.entries(blocks)) {
+      this.confirmed.set(id, { block: { ...block, id }, version: snapshot?.versions?.[id] ?? 0 });
+    }
+    this.seq = snapshot?.seq ?? 0;
+  }
+
+  /** Record an optimistic local edit; the caller sends it with the returned opId. */
+  local(operation: BlockOperationType, blockId: string, blockData?: Record<string, unknown>): PendingBlockOperation {
+    const op: PendingBlockOperation = { opId: makeOpId(), operation, blockId, blockData: blockData ? { ...blockData } : undefined };
+    this.pending.push(op);
+    return op;
+  }
+
+  /**
+   * Apply a server-sequenced operation.
+   * Returns 'gap' when operations were missed and a full resync is needed.
+   */
+  applyRemote(op: SequencedBlockOperation): 'applied' | 'duplicate' | 'gap' {
+    if (op.seq <= this.seq) return 'duplicate';
+    const gap = op.seq > this.seq + 1;
+    this.seq = op.seq;
+
+    if (op.operation === 'delete') {
+      this.confirmed.delete(op.blockId);
+    } else if (op.blockData) {
+      this.confirmed.set(op.blockId, { block: { ...op.blockData, id: op.blockId }, version: op.version });
+    }
+    if (op.opId) {
+      this.pending = this.pending.filter(p => p.opId !== op.opId);
+    }
+    return gap ? 'gap' : 'applied';
+  }
+
+  /** Drop a rejected local edit and adopt the server's copy of the block. */
+  reject(result: RejectedBlockOperation): void {
+    this.pending = this.pending.filter(p => p.opId !== result.opId);
+    if (result.blockData) {
+      this.confirmed.set(result.blockId, { block: { ...result.blockData, id: result.blockId }, version: result.version });
+    } else {
+      this.confirmed.delete(result.blockId);
+      // Later edits to a block the server no longer has would be rejected too
+      this.pending = this.pending.filter(p => p.blockId !== result.blockId || p.operation === 'add');
+    }
+  }
+
+  getPending(): PendingBlockOperation[] {
+    return [...this.pending];
+  }
+
+  getVersion(blockId: string): number {
+    return this.confirmed.get(blockId)?.version ?? 0;
+  }
+
+  getSeq(): number {
+    return this.seq;
+  }
+
+  /** Confirmed state with pending local edits rebased on top. */
+  view<T extends BlockLike = BlockLike>(): T[] {
+    const merged = new Map<string, BlockLike>();
+    for (const [id, entry] of this.confirmed) merged.set(id, entry.block);
+    for (const op of this.pending) {
+      const current = merged.get(op.blockId);
+      if (op.operation === 'delete') {
+        merged.delete(op.blockId);
+      } else if (op.operation === 'add') {
+        merged.set(op.blockId, { ...mergeFields(current || {}, op.blockData), id: op.blockId });
+      } else if (current) {
+        merged.set(op.blockId, { ...mergeFields(current, op.blockData), id: op.blockId });
+      }
+    }
+    return Array.from(merged.values()) as T[];
+  }
+}
+
+/**
+ * Operations that turn `prev` into `next`. Updates carry only changed fields
+ * so concurrent edits to other fields of the same block are not overwritten.
+ */
+export function diffBlocks<T extends { id: string }>(prev: T[], next: T[]): Omit<PendingBlockOperation, 'opId'>[] {
+  const ops: Omit<PendingBlockOperation, 'opId'>[] = [];
+  const before = new Map(prev.map(b => [b.id, b as unknown as BlockLike]));
+  const after = new Map(next.map(b => [b.id, b as unknown as BlockLike]));
+
+  for (const [id, block] of after) {
+    const old = before.get(id);
+    if (!old) {
+      ops.push({ operation: 'add', blockId: id, blockData: { ...block } });
+      continue;
+    }
+    const changed: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(old), ...Object.keys(block)]);
+    for (const key of keys) {
+      if (key === 'id') continue;
+      // A removed field travels as null, like localHistory's cleared fields
+      if (JSON.stringify(old[key]) !== JSON.stringify(block[key])) changed[key] = block[key] === undefined ? null : block[key];
+    }
+    if (Object.keys(changed).length > 0) {
+      ops.push({ operation: 'update', blockId: id, blockData: changed });
+    }
+  }
+  for (const id of before.keys()) {
+    if (!after.has(id)) ops.push({ operation: 'delete', blockId: id });
+  }
+  return ops;
+}
@@ -0,0 +1,164 @@
+// Operation-based undo/redo for collaborative sessions.
+// Only the local user's edits are recorded; undo emits inverse operations
+// that are checked against the current shared state, so changes other
+// collaborators made in the meantime are left alone. Terrain strokes are
+// kept as deltas; the caller rebases them on the ground the same way.
+
+import type { BlockLike, PendingBlockOperation } from './blockSync';
+import type { TerrainDelta, TerrainDeltaDirection } from '@/features/terrain/terrainDelta';
+
+type BlockOp = Omit<PendingBlockOperation, 'opId'>;
+type Fields = Record<string, unknown>;
+
+/** One block's change: field values before and after (null = block absent). */
+interface BlockChange {
+  blockId: string;
+  before: Fields | null;
+  after: Fields | null;
+}
+
+/** A terrain stroke; its undo is rebased on the ground by the caller. */
+interface TerrainChange {
+  terrain: TerrainDelta;
+}
+
+type Entry = BlockChange[] | TerrainChange;
+
+/** Inverse block operations, plus the terrain delta to replay in `direction` for stroke entries. */
+export interface LocalHistoryStep {
+  ops: BlockOp[];
+  terrain: { delta: TerrainDelta; direction: TerrainDeltaDirection } | null;
+}
+
+const MAX_ENTRIES = 100;
+
+// null and undefined both mean "unset" (see transition)
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function withoutId(block: BlockLike): Fields {
+  const { id: _id, ...rest } = block;
+  return rest;
+}
+
+/**
+ * Operations that move `current` from the `from` side of each change to the
+ * `to` side. Fields (or whole blocks) that no longer match `from` were
+ * changed by someone else and are skipped.
+ */
+function transition(changes: BlockChange[], current: Map<string, BlockLike>, direction: 'undo' | 'redo'): BlockOp[] {
+  const ops: BlockOp[] = [];
+  const ordered = direction === 'undo' ? [...changes].reverse() : changes;
+
+  for (const change of ordered) {
+    const from = direction === 'undo' ? change.after : change.before;
+    const to = direction === 'undo' ? change.before : change.after;
+    const block = current.get(change.blockId);
+
+    if (from === null && to !== null) {
+      // Restore a removed block, unless it has been re-created meanwhile
+      if (!block) ops.push({ operation: 'add', blockId: change.blockId, blockData: { ...to, id: change.blockId } });
+    } else if (from !== null && to === null) {
+      if (block) ops.push({ operation: 'delete', blockId: change.blockId });
+    } else if (from !== null && to !== null && block) {
+      const fields: Fields = {};
+      for (const key of Object.keys(to)) {
+        // undefined would be dropped on the wire, so cleared fields travel as null
+        if (sameValue(block[key], from[key])) fields[key] = to[key] === undefined ? null : to[key];
+      }
+      if (Object.keys(fields).length > 0) ops.push({ operation: 'update', blockId: change.blockId, blockData: fields });
+    }
+  }
+  return ops;
+}
+
+export class LocalHistory {
+  private past: Entry[] = [];
+  private future: Entry[] = [];
+
+  /**
+   * Record a local edit as one undo step.
+   * `ops` must be relative to `before` (the shared state they were made on).
+   */
+  record(ops: BlockOp[], before: BlockLike[]): void {
+    const state = new Map(before.map(b => [b.id, b]));
+    const changes: BlockChange[] = [];
+
+    for (const op of ops) {
+      const prev = state.get(op.blockId);
+      if (op.operation === 'add') {
+        const next = { ...(prev || {}), ...(op.blockData || {}), id: op.blockId } as BlockLike;
+        changes.push({ blockId: op.blockId, before: prev ? withoutId(prev) : null, after: withoutId(next) });
+        state.set(op.blockId, next);
+      } else if (op.operation === 'delete') {
+        if (!prev) continue;
+        changes.push({ blockId: op.blockId, before: withoutId(prev), after: null });
+        state.delete(op.blockId);
+      } else if (prev) {
+        const after: Fields = { ...(op.blockData || {}) };
+        delete after.id;
+        const beforeFields: Fields = {};
+        for (const key of Object.keys(after)) beforeFields[key] = prev[key];
+        changes.push({ blockId: op.blockId, before: beforeFields, after });
+        state.set(op.blockId, { ...prev, ...after, id: op.blockId });
+      }
+    }
+
+    if (changes.length === 0) return;
+    this.push(changes);
+  }
+
+  /** Record a local terrain stroke as one undo step. */
+  recordTerrain(delta: TerrainDelta): void {
+    this.push({ terrain: delta });
+  }
+
+  /** Inverse operations for the latest local edit, rebased on `current`. */
+  undo(current: BlockLike[]): BlockOp[] {
+    return this.undoStep(current).ops;
+  }
+
+  /** Re-apply the latest undone local edit, rebased on `current`. */
+  redo(current: BlockLike[]): BlockOp[] {
+    return this.redoStep(current).ops;
+  }
+
+  undoStep(current: BlockLike[]): LocalHistoryStep {
+    const entry = this.past.pop();
+    if (!entry) return { ops: [], terrain: null };
+    this.future.push(entry);
+    return this.step(entry, current, 'undo');
+  }
+
+  redoStep(current: BlockLike[]): LocalHistoryStep {
+    const entry = this.future.pop();
+    if (!entry) return { ops: [], terrain: null };
+    this.past.push(entry);
+    return this.step(entry, current, 'redo');
+  }
+
+  canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+  }
+
+  private push(entry: Entry): void {
+    this.past.push(entry);
+    if (this.past.length > MAX_ENTRIES) this.past.shift();
+    this.future = [];
+  }
+
+  private step(entry: Entry, current: BlockLike[], direction: 'undo' | 'redo'): LocalHistoryStep {
+    if (!Array.isArray(entry)) return { ops: [], terrain: { delta: entry.terrain, direction } };
+    return { ops: transition(entry, new Map(current.map(b => [b.id, b])), direction), terrain: null };
+  }
+}
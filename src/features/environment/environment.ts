@@ -0,0 +1,204 @@
+// Project environment: defaults, named presets and the time-of-day model that
+// turns EnvironmentSettings into concrete lights, sky and fog. Engine-free so
+// the editor, Play and previews resolve a project to exactly the same look.
+
+import type { EnvironmentSettings, SkyPreset } from '@/types/project';
+import type { LightingSettings } from '@/types/editor';
+
+export const SKY_PRESETS: Record<SkyPreset, { label: string; top: number; horizon: number; ground: number; stars?: boolean }> = {
+  clear: { label: 'Clear day', top: 0x3f7fd6, horizon: 0xa9d6f5, ground: 0x6f8a9c },
+  sunset: { label: 'Sunset', top: 0x2c3e74, horizon: 0xf59e4c, ground: 0x4a3b46 },
+  night: { label: 'Starry night', top: 0x050816, horizon: 0x1b2748, ground: 0x0a0d18, stars: true },
+  overcast: { label: 'Overcast', top: 0x8d99a6, horizon: 0xc9d1d9, ground: 0x7b848c },
+};
+
+// Close to the editor's original sky-blue background and light rig
+export const DEFAULT_ENVIRONMENT: EnvironmentSettings = {
+  timeOfDay: 14,
+  sky: { mode: 'gradient', top: 0x4a90d9, horizon: 0x87ceeb, preset: 'clear' },
+  sun: { color: 0xffffff, intensity: 1, azimuth: 117, shadows: true },
+  ambient: { color: 0xffffff, intensity: 0.25 },
+  fog: { enabled: false, color: 0xbfd9ee, near: 40, far: 220 },
+};
+
+export const ENVIRONMENT_PRESETS: { id: string; label: string; settings: EnvironmentSettings }[] = [
+  { id: 'day', label: 'Day', settings: DEFAULT_ENVIRONMENT },
+  {
+    id: 'sunset',
+    label: 'Sunset',
+    settings: {
+      timeOfDay: 18.2,
+      sky: { mode: 'preset', top: 0x2c3e74, horizon: 0xf59e4c, preset: 'sunset' },
+      sun: { color: 0xffd2a1, intensity: 1.1, azimuth: 250, shadows: true },
+      ambient: { color: 0xffc8a0, intensity: 0.3 },
+      fog: { enabled: true, color: 0xe8a878, near: 60, far: 260 },
+    },
+  },
+  {
+    id: 'night',
+    label: 'Night',
+    settings: {
+      timeOfDay: 23,
+      sky: { mode: 'preset', top: 0x050816, horizon: 0x1b2748, preset: 'night' },
+      sun: { color: 0xffffff, intensity: 1, azimuth: 120, shadows: true },
+      ambient: { color: 0x8fa2ff, intensity: 0.35 },
+      fog: { enabled: true, color: 0x101828, near: 30, far: 160 },
+    },
+  },
+  {
+    id: 'overcast',
+    label: 'Overcast',
+    settings: {
+      timeOfDay: 12,
+      sky: { mode: 'preset', top: 0x8d99a6, horizon: 0xc9d1d9, preset: 'overcast' },
+      sun: { color: 0xe6ebf0, intensity: 0.55, azimuth: 117, shadows: false },
+      ambient: { color: 0xdfe6ee, intensity: 0.55 },
+      fog: { enabled: true, color: 0xc3ccd4, near: 25, far: 180 },
+    },
+  },
+  {
+    id: 'misty-morning',
+    label: 'Misty morning',
+    settings: {
+      timeOfDay: 7.5,
+      sky: { mode: 'gradient', top: 0x9fb8d6, horizon: 0xf3e2cf, preset: 'clear' },
+      sun: { color: 0xfff0d8, intensity: 0.9, azimuth: 95, shadows: true },
+      ambient: { color: 0xe8eef5, intensity: 0.4 },
+      fog: { enabled: true, color: 0xe9e6e1, near: 8, far: 90 },
+    },
+  },
+];
+
+const MOON_COLOR = 0x9db4ff;
+const DUSK_COLOR = 0xff9a4d;
+const NIGHT_SKY = 0x0b1026;
+const NIGHT_AMBIENT = 0x6a7bd1;
+// Highest the sun climbs, at noon
+const MAX_ELEVATION = 70;
+
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+const finite = (v: unknown, fallback: number) => (typeof v === 'number' && Number.isFinite(v) ? v : fallback);
+
+export function mixColor(a: number, b: number, t: number): number {
+  const k = clamp(t, 0, 1);
+  const channel = (shift: number) => {
+    const ca = (a >> shift) & 0xff;
+    const cb = (b >> shift) & 0xff;
+    return Math.round(ca + (cb - ca) * k) << shift;
+  };
+  return channel(16) | channel(8) | channel(0);
+}
+
+export function scaleColor(color: number, factor: number): number {
+  return mixColor(0x000000, color, factor);
+}
+
+export const colorToHex = (color: number) => `#${(color & 0xffffff).toString(16).padStart(6, '0')}`;
+
+/** Settings with any section or field left out, as stored by older or hand-edited projects. */
+export type PartialEnvironment = Partial<{ [K in keyof EnvironmentSettings]: Partial<EnvironmentSettings[K]> }>;
+
+/** Fills gaps in stored or partial settings from the defaults and clamps ranges. */
+export function normalizeEnvironment(input?: PartialEnvironment | null): EnvironmentSettings {
+  const d = DEFAULT_ENVIRONMENT;
+  const sky = { ...d.sky, ...(input?.sky || {}) };
+  const sun = { ...d.sun, ...(input?.sun || {}) };
+  const ambient = { ...d.ambient, ...(input?.ambient || {}) };
+  const fog = { ...d.fog, ...(input?.fog || {}) };
+  const near = Math.max(0, finite(fog.near, d.fog.near));
+  return {
+    timeOfDay: ((finite(input?.timeOfDay, d.timeOfDay) % 24) + 24) % 24,
+    sky: {
+      mode: sky.mode === 'preset' ? 'preset' : 'gradient',
+      top: finite(sky.top, d.sky.top),
+      horizon: finite(sky.horizon, d.sky.horizon),
+      preset: sky.preset in SKY_PRESETS ? sky.preset : d.sky.preset,
+    },
+    sun: {
+      color: finite(sun.color, d.sun.color),
+      intensity: clamp(finite(sun.intensity, d.sun.intensity), 0, 5),
+      azimuth: ((finite(sun.azimuth, d.sun.azimuth) % 360) + 360) % 360,
+      shadows: sun.shadows !== false,
+    },
+    ambient: {
+      color: finite(ambient.color, d.ambient.color),
+      intensity: clamp(finite(ambient.intensity, d.ambient.intensity), 0, 5),
+    },
+    fog: {
+      enabled: !!fog.enabled,
+      color: finite(fog.color, d.fog.color),
+      near,
+      far: Math.max(near + 1, finite(fog.far, d.fog.far)),
+    },
+  };
+}
+
+/** Sun height in degrees for an hour of the day: up at 6, highest at 12, down at 18. */
+export function sunElevation(timeOfDay: number): number {
+  return MAX_ELEVATION * Math.sin(((timeOfDay - 6) / 12) * Math.PI);
+}
+
+function directionFrom(azimuth: number, elevation: number) {
+  const az = (azimuth * Math.PI) / 180;
+  const el = (elevation * Math.PI) / 180;
+  // Pointing from the light down to the scene; azimuth 0 is north (-Z), 90 east (+X)
+  return { x: -Math.sin(az) * Math.cos(el), y: -Math.sin(el), z: Math.cos(az) * Math.cos(el) };
+}
+
+/**
+ * Lights, sky and fog for the settings' time of day. Below the horizon the
+ * directional light becomes a dim blue moon opposite the sun; near it the
+ * light and gradient sky warm up. Preset skies are painted and stay fixed.
+ */
+export function resolveEnvironment(settings?: EnvironmentSettings | null): LightingSettings {
+  const env = normalizeEnvironment(settings);
+  const elevation = sunElevation(env.timeOfDay);
+  const day = clamp(elevation / 10 + 0.5, 0, 1); // 0 below -5°, 1 above 5°
+  const dusk = clamp(1 - Math.abs(elevation) / 20, 0, 1); // 1 at the horizon
+
+  const lit = day >= 0.5;
+  const lightColor = mixColor(mixColor(MOON_COLOR, env.sun.color, day), DUSK_COLOR, dusk * 0.6);
+  const direction = lit
+    ? directionFrom(env.sun.azimuth, Math.max(elevation, 2))
+    : directionFrom(env.sun.azimuth + 180, Math.max(-elevation, 10));
+  const brightness = 0.15 + 0.85 * day;
+
+  let sky: NonNullable<LightingSettings['sky']>;
+  if (env.sky.mode === 'preset') {
+    const preset = SKY_PRESETS[env.sky.preset];
+    sky = { top: colorToHex(preset.top), horizon: colorToHex(preset.horizon), ground: colorToHex(preset.ground), stars: !!preset.stars };
+  } else {
+    const top = mixColor(NIGHT_SKY, env.sky.top, day);
+    const horizon = mixColor(mixColor(NIGHT_SKY, env.sky.horizon, day), DUSK_COLOR, dusk * 0.7);
+    sky = { top: colorToHex(top), horizon: colorToHex(horizon), ground: colorToHex(scaleColor(horizon, 0.55)), stars: day < 0.2 };
+  }
+
+  return {
+    ambient: {
+      color: colorToHex(mixColor(NIGHT_AMBIENT, env.ambient.color, day)),
+      intensity: env.ambient.intensity * (0.35 + 0.65 * day),
+    },
+    directional: {
+      color: colorToHex(lightColor),
+      intensity: env.sun.intensity * (0.12 + 0.88 * day),
+      direction,
+      shadows: env.sun.shadows,
+    },
+    ...(env.sky.mode === 'preset' ? { skybox: env.sky.preset } : {}),
+    sky,
+    fog: {
+      enabled: env.fog.enabled,
+      color: colorToHex(scaleColor(env.fog.color, brightness)),
+      // For exponential fog engines: roughly opaque at the far distance
+      density: 2 / env.fog.far,
+      start: env.fog.near,
+      end: env.fog.far,
+    },
+  };
+}
+
+/** Formats hours as HH:MM for the time-of-day slider. */
+export function formatTimeOfDay(hours: number): string {
+  const total = Math.round((((hours % 24) + 24) % 24) * 60);
+  return `${String(Math.floor(total / 60) % 24).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
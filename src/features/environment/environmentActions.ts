@@ -0,0 +1,18 @@
+// Editor environment commands: the change goes to the environment store and
+// the project is marked unsaved and autosaved, like a block edit. Loading a
+// project sets the store directly and stays clean.
+
+import { useProjectStore } from '@/lib/projectStore';
+import { useEnvironmentStore } from '@/features/projects/stores/environment.store';
+import type { PartialEnvironment } from './environment';
+
+export function updateEnvironment(patch: PartialEnvironment) {
+  useEnvironmentStore.getState().updateEnvironment(patch);
+  useProjectStore.getState().markEdited();
+}
+
+export function applyEnvironmentPreset(id: string) {
+  const before = useEnvironmentStore.getState().environment;
+  useEnvironmentStore.getState().applyPreset(id);
+  if (useEnvironmentStore.getState().environment !== before) useProjectStore.getState().markEdited();
+}
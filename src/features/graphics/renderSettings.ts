@@ -0,0 +1,179 @@
+// Graphics options: quality presets, validation and the adaptive scaler that
+// trades shadows, LOD distance and post-processing for frame time. Engine-free;
+// the Babylon pipeline applies the result in scene/engine/renderSettings.ts.
+
+import type { RenderSettings } from '@/types/editor';
+
+export type RenderQuality = RenderSettings['quality'];
+/** The coarse mode older engine code (LOD, texture sampling) still switches on. */
+export type QualityMode = 'performance' | 'balanced' | 'quality';
+
+export const RENDER_QUALITIES: RenderQuality[] = ['low', 'medium', 'high', 'ultra'];
+export const SHADOW_MAP_SIZES = [512, 1024, 2048, 4096];
+export const MSAA_SAMPLES = [1, 2, 4, 8];
+export const FRAME_RATE_TARGETS = [30, 60, 90, 120, 144];
+
+export const QUALITY_PRESETS: Record<RenderQuality, RenderSettings> = {
+  low: {
+    quality: 'low', antialiasing: 1, shadows: false, shadowMapSize: 512,
+    postProcessing: false, bloom: false, ssao: false, motionBlur: false, fxaa: false, targetFrameRate: 60,
+  },
+  medium: {
+    quality: 'medium', antialiasing: 2, shadows: true, shadowMapSize: 1024,
+    postProcessing: true, bloom: true, ssao: false, motionBlur: false, fxaa: true, targetFrameRate: 60,
+  },
+  high: {
+    quality: 'high', antialiasing: 4, shadows: true, shadowMapSize: 2048,
+    postProcessing: true, bloom: true, ssao: true, motionBlur: false, fxaa: true, targetFrameRate: 60,
+  },
+  ultra: {
+    quality: 'ultra', antialiasing: 8, shadows: true, shadowMapSize: 4096,
+    postProcessing: true, bloom: true, ssao: true, motionBlur: true, fxaa: true, targetFrameRate: 60,
+  },
+};
+
+export const DEFAULT_RENDER_SETTINGS = QUALITY_PRESETS.medium;
+
+const nearest = (options: number[], value: unknown, fallback: number) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return options.reduce((best, o) => (Math.abs(o - value) < Math.abs(best - value) ? o : best), options[0]);
+};
+
+/** Fills gaps from the matching preset and snaps numeric fields to supported values. */
+export function normalizeRenderSettings(input?: Partial<RenderSettings> | null): RenderSettings {
+  const quality = input?.quality && RENDER_QUALITIES.includes(input.quality) ? input.quality : DEFAULT_RENDER_SETTINGS.quality;
+  const base = QUALITY_PRESETS[quality];
+  const flag = (key: 'shadows' | 'postProcessing' | 'bloom' | 'ssao' | 'motionBlur' | 'fxaa') =>
+    typeof input?.[key] === 'boolean' ? input[key] as boolean : base[key];
+  return {
+    quality,
+    antialiasing: nearest(MSAA_SAMPLES, input?.antialiasing, base.antialiasing),
+    shadows: flag('shadows'),
+    shadowMapSize: nearest(SHADOW_MAP_SIZES, input?.shadowMapSize, base.shadowMapSize),
+    postProcessing: flag('postProcessing'),
+    bloom: flag('bloom'),
+    ssao: flag('ssao'),
+    motionBlur: flag('motionBlur'),
+    fxaa: flag('fxaa'),
+    targetFrameRate: nearest(FRAME_RATE_TARGETS, input?.targetFrameRate, base.targetFrameRate),
+  };
+}
+
+export function qualityModeFor(quality: RenderQuality): QualityMode {
+  if (quality === 'low') return 'performance';
+  if (quality === 'medium') return 'balanced';
+  return 'quality';
+}
+
+/** Render resolution divisor per preset (Babylon hardware scaling level; below 1 supersamples). */
+export const HARDWARE_SCALING: Record<RenderQuality, number> = { low: 1.5, medium: 1, high: 0.8, ultra: 0.65 };
+
+/**
+ * What the adaptive scaler has taken away, step by step: first the costly
+ * post effects, then shadow resolution and LOD distance, then MSAA and
+ * render resolution. Level 0 is the user's settings untouched.
+ */
+export const ADAPTIVE_LEVELS = 5;
+
+export interface EffectiveRenderSettings {
+  settings: RenderSettings;
+  /** Multiplier on LOD switch distances; lower swaps to simpler meshes sooner. */
+  lodScale: number;
+  /** Babylon hardware scaling level; higher renders fewer pixels. */
+  hardwareScaling: number;
+}
+
+export function degradeRenderSettings(input: RenderSettings, level: number): EffectiveRenderSettings {
+  const step = Math.max(0, Math.min(ADAPTIVE_LEVELS, Math.floor(level)));
+  const settings = { ...input };
+  let lodScale = 1;
+  let hardwareScaling = HARDWARE_SCALING[input.quality];
+  if (step >= 1) {
+    settings.motionBlur = false;
+    settings.ssao = false;
+  }
+  if (step >= 2) {
+    settings.shadowMapSize = Math.max(SHADOW_MAP_SIZES[0], input.shadowMapSize / 2);
+    settings.bloom = false;
+    lodScale = 0.75;
+  }
+  if (step >= 3) {
+    settings.shadowMapSize = Math.max(SHADOW_MAP_SIZES[0], input.shadowMapSize / 4);
+    settings.antialiasing = Math.min(input.antialiasing, 2);
+    lodScale = 0.5;
+    hardwareScaling = Math.max(1, hardwareScaling);
+  }
+  if (step >= 4) {
+    settings.postProcessing = false;
+    settings.antialiasing = 1;
+    hardwareScaling = Math.max(1.25, hardwareScaling);
+  }
+  if (step >= 5) {
+    settings.shadows = false;
+    lodScale = 0.35;
+    hardwareScaling = Math.max(1.5, hardwareScaling);
+  }
+  return { settings, lodScale, hardwareScaling };
+}
+
+export interface AdaptiveQualityOptions {
+  targetFrameRate: number;
+  /** Frames averaged before each decision */
+  window?: number;
+  /** Step down when the average frame takes this much longer than the target */
+  slowFactor?: number;
+  /** Step back up once frames are this much faster than the target */
+  fastFactor?: number;
+}
+
+/**
+ * Watches frame times and moves between degrade levels. Feed it every frame's
+ * duration in milliseconds; it answers with the new level when one is due.
+ */
+export function createAdaptiveQuality(options: AdaptiveQualityOptions) {
+  const window = options.window ?? 90;
+  const slowFactor = options.slowFactor ?? 1.15;
+  const fastFactor = options.fastFactor ?? 0.7;
+  let targetMs = 1000 / Math.max(1, options.targetFrameRate);
+  let level = 0;
+  let total = 0;
+  let count = 0;
+  // Recovering needs two fast windows in a row so levels don't flicker
+  let fastWindows = 0;
+
+  const sample = (frameMs: number): number | null => {
+    if (!Number.isFinite(frameMs) || frameMs <= 0) return null;
+    total += frameMs;
+    count += 1;
+    if (count < window) return null;
+    const average = total / count;
+    total = 0;
+    count = 0;
+    if (average > targetMs * slowFactor && level < ADAPTIVE_LEVELS) {
+      fastWindows = 0;
+      level += 1;
+      return level;
+    }
+    if (average < targetMs * fastFactor && level > 0) {
+      fastWindows += 1;
+      if (fastWindows >= 2) {
+        fastWindows = 0;
+        level -= 1;
+        return level;
+      }
+      return null;
+    }
+    fastWindows = 0;
+    return null;
+  };
+
+  const reset = (targetFrameRate?: number) => {
+    if (targetFrameRate) targetMs = 1000 / Math.max(1, targetFrameRate);
+    level = 0;
+    total = 0;
+    count = 0;
+    fastWindows = 0;
+  };
+
+  return { sample, reset, get level() { return level; } };
+}
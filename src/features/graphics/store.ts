@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { RenderSettings } from '@/types/editor';
+import { DEFAULT_RENDER_SETTINGS, QUALITY_PRESETS, normalizeRenderSettings, type RenderQuality } from './renderSettings';
+
+interface RenderSettingsState {
+  settings: RenderSettings;
+  /** Lower shadows, LOD distance and post effects while frames run over the target */
+  adaptive: boolean;
+  setSettings: (patch: Partial<RenderSettings>) => void;
+  applyQuality: (quality: RenderQuality) => void;
+  setAdaptive: (adaptive: boolean) => void;
+  reset: () => void;
+}
+
+// Graphics options belong to the player's machine, not the project
+export const useRenderSettingsStore = create<RenderSettingsState>()(
+  persist(
+    (set) => ({
+      settings: DEFAULT_RENDER_SETTINGS,
+      adaptive: true,
+      setSettings: (patch) => set((s) => ({ settings: normalizeRenderSettings({ ...s.settings, ...patch }) })),
+      applyQuality: (quality) => set((s) => ({ settings: { ...QUALITY_PRESETS[quality], targetFrameRate: s.settings.targetFrameRate } })),
+      setAdaptive: (adaptive) => set({ adaptive }),
+      reset: () => set({ settings: DEFAULT_RENDER_SETTINGS, adaptive: true }),
+    }),
+    {
+      name: 'render-settings',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({ settings: state.settings, adaptive: state.adaptive }),
+      version: 1,
+      merge: (persisted, current) => {
+        const saved = (persisted || {}) as Partial<Pick<RenderSettingsState, 'settings' | 'adaptive'>>;
+        return {
+          ...current,
+          settings: normalizeRenderSettings(saved.settings),
+          adaptive: typeof saved.adaptive === 'boolean' ? saved.adaptive : current.adaptive,
+        };
+      },
+    }
+  )
+);
@@ -0,0 +1,39 @@
+// Editor logic commands: the change goes to the logic store and the project is
+// marked unsaved and autosaved, like a block edit. Loading a project sets the
+// triggers directly and stays clean.
+
+import { useProjectStore } from '@/lib/projectStore';
+import { useLogicStore } from '@/features/projects/stores/logic.store';
+import type { LogicAction, LogicActionType, LogicTrigger, LogicTriggerType } from '@/types/project';
+
+// Runs a store command and marks the project edited if the triggers changed
+function edit<T>(command: () => T): T {
+  const before = useLogicStore.getState().triggers;
+  const result = command();
+  if (useLogicStore.getState().triggers !== before) useProjectStore.getState().markEdited();
+  return result;
+}
+
+export function addTrigger(type: LogicTriggerType, blockId?: string): LogicTrigger {
+  return edit(() => useLogicStore.getState().addTrigger(type, blockId));
+}
+
+export function updateTrigger(id: string, updates: Partial<Omit<LogicTrigger, 'id' | 'actions'>>) {
+  edit(() => useLogicStore.getState().updateTrigger(id, updates));
+}
+
+export function removeTrigger(id: string) {
+  edit(() => useLogicStore.getState().removeTrigger(id));
+}
+
+export function addAction(triggerId: string, type: LogicActionType): LogicAction | null {
+  return edit(() => useLogicStore.getState().addAction(triggerId, type));
+}
+
+export function updateAction(triggerId: string, actionId: string, updates: Partial<Omit<LogicAction, 'id'>>) {
+  edit(() => useLogicStore.getState().updateAction(triggerId, actionId, updates));
+}
+
+export function removeAction(triggerId: string, actionId: string) {
+  edit(() => useLogicStore.getState().removeAction(triggerId, actionId));
+}
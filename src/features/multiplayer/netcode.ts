@@ -0,0 +1,129 @@
+// Client side of the server-authoritative play simulation.
+// The local player is predicted immediately and corrected against the
+// server's acknowledged input sequence; remote players are rendered a little
+// in the past and interpolated between snapshots.
+
+export type Vec3 = { x: number; y: number; z: number };
+
+/** Inputs are sent once per server tick (see wsConfig.simulation.tickRate). */
+export const INPUT_STEP_MS = 1000 / 60;
+
+// Errors below this are noise from frame-rate differences and are ignored
+const CORRECTION_EPSILON = 0.05;
+// Errors above this are teleports (respawn, lag spike) and are applied at once
+const SNAP_DISTANCE = 3;
+// Fraction of a small error corrected per snapshot to avoid visible jitter
+const CORRECTION_BLEND = 0.3;
+
+export interface Correction {
+  offset: Vec3;
+  snap: boolean;
+}
+
+/**
+ * Predicted local positions keyed by input sequence number, used to measure
+ * how far prediction drifted from the server at the acknowledged input.
+ */
+export class PredictionBuffer {
+  private entries: { seq: number; position: Vec3 }[] = [];
+
+  constructor(private maxEntries = 240) {}
+
+  record(seq: number, position: Vec3): void {
+    this.entries.push({ seq, position: { ...position } });
+    if (this.entries.length > this.maxEntries) this.entries.shift();
+  }
+
+  /**
+   * Compare the server position for `ackSeq` with what we predicted and
+   * return the offset to apply to the local player (or null if close enough).
+   * Entries up to `ackSeq` are dropped; later ones are shifted by the
+   * correction so they stay comparable with future snapshots.
+   */
+  reconcile(ackSeq: number, serverPosition: Vec3): Correction | null {
+    let predicted: Vec3 | null = null;
+    while (this.entries.length > 0 && this.entries[0].seq <= ackSeq) {
+      const entry = this.entries.shift()!;
+      if (entry.seq === ackSeq) predicted = entry.position;
+    }
+    if (!predicted) return null;
+
+    const error = {
+      x: serverPosition.x - predicted.x,
+      y: serverPosition.y - predicted.y,
+      z: serverPosition.z - predicted.z,
+    };
+    const distance = Math.hypot(error.x, error.y, error.z);
+    if (distance < CORRECTION_EPSILON) return null;
+
+    const snap = distance > SNAP_DISTANCE;
+    const k = snap ? 1 : CORRECTION_BLEND;
+    const offset = { x: error.x * k, y: error.y * k, z: error.z * k };
+    for (const entry of this.entries) {
+      entry.position.x += offset.x;
+      entry.position.y += offset.y;
+      entry.position.z += offset.z;
+    }
+    return { offset, snap };
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+}
+
+/**
+ * Buffered remote player positions, sampled `delayMs` behind the newest
+ * snapshot so there are usually two snapshots to interpolate between.
+ */
+export class SnapshotInterpolator {
+  private buffers = new Map<string, { time: number; position: Vec3 }[]>();
+
+  constructor(private delayMs = 100, private maxSnapshots = 20) {}
+
+  push(playerId: string, time: number, position: Vec3): void {
+    const buffer = this.buffers.get(playerId) || [];
+    if (buffer.length > 0 && time <= buffer[buffer.length - 1].time) return;
+    buffer.push({ time, position: { ...position } });
+    if (buffer.length > this.maxSnapshots) buffer.shift();
+    this.buffers.set(playerId, buffer);
+  }
+
+  /** Interpolated position at `now - delayMs`; holds the edge snapshot outside the buffered range. */
+  sample(playerId: string, now: number): Vec3 | null {
+    const buffer = this.buffers.get(playerId);
+    if (!buffer || buffer.length === 0) return null;
+    const renderTime = now - this.delayMs;
+
+    if (renderTime <= buffer[0].time) return { ...buffer[0].position };
+    const last = buffer[buffer.length - 1];
+    if (renderTime >= last.time) return { ...last.position };
+
+    let i = 0;
+    while (i < buffer.length - 2 && renderTime >= buffer[i + 1].time) i++;
+    const a = buffer[i];
+    const b = buffer[i + 1];
+    const t = (renderTime - a.time) / (b.time - a.time);
+    return {
+      x: a.position.x + (b.position.x - a.position.x) * t,
+      y: a.position.y + (b.position.y - a.position.y) * t,
+      z: a.position.z + (b.position.z - a.position.z) * t,
+    };
+  }
+
+  remove(playerId: string): void {
+    this.buffers.delete(playerId);
+  }
+
+  playerIds(): string[] {
+    return Array.from(this.buffers.keys());
+  }
+
+  clear(): void {
+    this.buffers.clear();
+  }
+}
@@ -1,7 +1,8 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
+import type { RLEPayload } from '@/pages/skin-studio/lib/rle';
 
-export type PlayerSkinId = 'boy' | 'girl';
+export type PlayerSkinId = 'boy' | 'girl' | 'voxel';
 
 export interface PlayerSkinColors {
   primary: number; // 0xRRGGBB
@@ -15,6 +16,8 @@ export interface PlayerSkinConfig {
   accessoryHat?: 'none' | 'cap' | 'topHat';
   accessoryBack?: 'none' | 'backpack' | 'cape';
   face?: { eyes?: 'dot' | 'cartoon' | 'robot'; mouth?: 'smile' | 'neutral' | 'none' };
+  /** Painted Skin Studio voxels for the 'voxel' skin */
+  voxels?: RLEPayload;
 }
 
 interface PlayerSettingsState {
@@ -93,6 +96,7 @@ export const usePlayerSettingsStore = create<PlayerSettingsState>()(
               eyes: ['dot','cartoon','robot'].includes(c.face?.eyes) ? c.face.eyes : defaults.config.face.eyes,
               mouth: ['smile','neutral','none'].includes(c.face?.mouth) ? c.face.mouth : defaults.config.face.mouth,
             },
+            ...(c.voxels && typeof c.voxels === 'object' ? { voxels: c.voxels } : {}),
           };
         })();
         return { skinId, colors: { primary, secondary }, config };
@@ -0,0 +1,77 @@
+// Editor prefab commands: each one updates the prefab library and commits the
+// matching block change as a single undo step, which restores the library too.
+
+import { useProjectStore } from '@/lib/projectStore';
+import { usePrefabStore } from '@/features/projects/stores/prefab.store';
+import type { Prefab } from '@/types/project';
+import type { Vec3Like } from '@/features/spatial/spatialIndex';
+import {
+  applyInstanceToPrefab,
+  createPrefab,
+  instantiatePrefab,
+  nextInstanceOrigin,
+  revertInstance,
+  unpackBlocks,
+} from './prefabs';
+
+const findPrefab = (id: string) => usePrefabStore.getState().prefabs.find(p => p.id === id);
+
+/** Saves the current selection as a new prefab; the selected blocks become its first instance. */
+export function saveSelectionAsPrefab(name: string): Prefab | null {
+  const { blocks, selectedBlockIds, commitBlocks } = useProjectStore.getState();
+  if (selectedBlockIds.length === 0) return null;
+  const result = createPrefab(name, blocks, selectedBlockIds);
+  if (result.prefab.blocks.length === 0) return null;
+  const library = usePrefabStore.getState().prefabs;
+  usePrefabStore.getState().upsertPrefab(result.prefab);
+  commitBlocks(result.blocks, library);
+  return result.prefab;
+}
+
+/** Places a new instance (beside the existing ones unless an origin is given) and selects it. */
+export function placePrefab(prefabId: string, origin?: Vec3Like): string[] {
+  const prefab = findPrefab(prefabId);
+  if (!prefab) return [];
+  const state = useProjectStore.getState();
+  const placed = instantiatePrefab(prefab, origin ?? nextInstanceOrigin(state.blocks, prefab), state.blocks);
+  state.commitBlocks([...state.blocks, ...placed]);
+  const ids = placed.map(b => b.id);
+  state.setSelectedBlockIds(ids);
+  state.setSelectedBlockId(null);
+  return ids;
+}
+
+/** Makes an instance's current state (plus any selected loose blocks) the prefab definition. */
+export function applyInstance(instanceId: string, extraIds: string[] = []) {
+  const { blocks, commitBlocks } = useProjectStore.getState();
+  const prefabId = blocks.find(b => b.prefabInstanceId === instanceId)?.prefabId;
+  const prefab = prefabId ? findPrefab(prefabId) : undefined;
+  if (!prefab) return;
+  const result = applyInstanceToPrefab(blocks, prefab, instanceId, extraIds);
+  const library = usePrefabStore.getState().prefabs;
+  usePrefabStore.getState().upsertPrefab(result.prefab);
+  commitBlocks(result.blocks, library);
+}
+
+export function revertPrefabInstance(instanceId: string) {
+  const { blocks, commitBlocks } = useProjectStore.getState();
+  const prefabId = blocks.find(b => b.prefabInstanceId === instanceId)?.prefabId;
+  const prefab = prefabId ? findPrefab(prefabId) : undefined;
+  if (!prefab) return;
+  commitBlocks(revertInstance(blocks, prefab, instanceId));
+}
+
+/** Detaches an instance from its prefab; its blocks stay where they are. */
+export function unpackPrefabInstance(instanceId: string) {
+  const { blocks, commitBlocks } = useProjectStore.getState();
+  commitBlocks(unpackBlocks(blocks, b => b.prefabInstanceId === instanceId));
+}
+
+/** Removes a prefab from the library, unpacking its instances rather than deleting them. */
+export function deletePrefab(prefabId: string) {
+  const { blocks, commitBlocks } = useProjectStore.getState();
+  const library = usePrefabStore.getState().prefabs;
+  usePrefabStore.getState().removePrefab(prefabId);
+  // Committed even when no block changes, so the deletion itself can be undone
+  commitBlocks(unpackBlocks(blocks, b => b.prefabId === prefabId), library);
+}
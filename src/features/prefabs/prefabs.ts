@@ -0,0 +1,280 @@
+// Prefab definitions and instances. An instance is a set of ordinary blocks
+// tagged with prefabId/prefabInstanceId/prefabKey, so rendering, physics and
+// export need no prefab awareness. Everything here is pure: callers commit the
+// returned block lists to the project store.
+//
+// Overrides are implicit: an instance block whose colour or position differs
+// from what the definition would produce keeps that value when the definition
+// changes. Every other property always follows the definition.
+
+import type { Block, Prefab, PrefabBlock } from '@/types/project';
+import type { Vec3Like } from '@/features/spatial/spatialIndex';
+import { blockBounds } from '@/features/spatial/blockBounds';
+
+export type PrefabOverride = 'color' | 'position';
+
+export interface PrefabInstance {
+  id: string;
+  prefabId: string;
+  origin: Vec3Like;
+  blockIds: string[];
+}
+
+const EPSILON = 1e-6;
+
+function makeId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const add = (a: Vec3Like, b: Vec3Like) => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+const sub = (a: Vec3Like, b: Vec3Like) => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const samePosition = (a: Vec3Like, b: Vec3Like) =>
+  Math.abs(a.x - b.x) < EPSILON && Math.abs(a.y - b.y) < EPSILON && Math.abs(a.z - b.z) < EPSILON;
+
+function toPrefabBlock(block: Block, origin: Vec3Like, key: string): PrefabBlock {
+  const { id, group, prefabId, prefabInstanceId, prefabKey, hidden, locked, ...rest } = block;
+  return { ...rest, key, position: sub(block.position, origin) };
+}
+
+function fromPrefabBlock(def: PrefabBlock, prefabId: string, instanceId: string, origin: Vec3Like, id: string): Block {
+  const { key, ...rest } = def;
+  return { ...rest, id, position: add(origin, def.position), prefabId, prefabInstanceId: instanceId, prefabKey: key };
+}
+
+function nextKey(used: Set<string>): string {
+  let n = used.size + 1;
+  while (used.has(`b${n}`)) n++;
+  used.add(`b${n}`);
+  return `b${n}`;
+}
+
+function uniqueId(wanted: string, taken: Set<string>): string {
+  let id = wanted;
+  for (let n = 2; taken.has(id); n++) id = `${wanted}-${n}`;
+  taken.add(id);
+  return id;
+}
+
+/**
+ * Turns the given blocks into a new prefab and makes them its first instance.
+ * The origin sits centred under the blocks on whole units, so placing an
+ * instance at a grid point keeps its blocks on the grid.
+ */
+export function createPrefab(name: string, blocks: Block[], ids: string[]): { prefab: Prefab; blocks: Block[] } {
+  const wanted = new Set(ids);
+  const members = blocks.filter(b => wanted.has(b.id));
+  const prefab: Prefab = { id: makeId('prefab'), name: name.trim() || 'Prefab', blocks: [] };
+  if (members.length === 0) return { prefab, blocks };
+
+  const xs = members.map(b => b.position.x);
+  const zs = members.map(b => b.position.z);
+  const origin = {
+    x: Math.round((Math.min(...xs) + Math.max(...xs)) / 2),
+    y: Math.min(...members.map(b => b.position.y)),
+    z: Math.round((Math.min(...zs) + Math.max(...zs)) / 2),
+  };
+  const instanceId = makeId('inst');
+  const keys = new Set<string>();
+  const keyById = new Map<string, string>();
+  for (const block of members) {
+    const key = nextKey(keys);
+    keyById.set(block.id, key);
+    prefab.blocks.push(toPrefabBlock(block, origin, key));
+  }
+  return {
+    prefab,
+    blocks: blocks.map(b => keyById.has(b.id)
+      ? { ...b, prefabId: prefab.id, prefabInstanceId: instanceId, prefabKey: keyById.get(b.id) }
+      : b),
+  };
+}
+
+/** Fresh blocks for a new instance with its origin at the given point. */
+export function instantiatePrefab(prefab: Prefab, origin: Vec3Like, existing: Block[] = []): Block[] {
+  const instanceId = makeId('inst');
+  const taken = new Set(existing.map(b => b.id));
+  return prefab.blocks.map(def =>
+    fromPrefabBlock(def, prefab.id, instanceId, origin, uniqueId(`${instanceId}-${def.key}`, taken)));
+}
+
+/**
+ * Where an instance's origin is, judged by the position most of its blocks
+ * agree on. Blocks moved on their own are outvoted, so they read as overrides.
+ */
+export function instanceOrigin(prefab: Prefab, members: Block[]): Vec3Like | null {
+  const defs = new Map(prefab.blocks.map(d => [d.key, d]));
+  const votes = new Map<string, { origin: Vec3Like; count: number }>();
+  let best: { origin: Vec3Like; count: number } | null = null;
+  for (const block of members) {
+    const def = block.prefabKey ? defs.get(block.prefabKey) : undefined;
+    if (!def) continue;
+    const origin = sub(block.position, def.position);
+    const vote = `${origin.x.toFixed(4)},${origin.y.toFixed(4)},${origin.z.toFixed(4)}`;
+    const entry = votes.get(vote) ?? { origin, count: 0 };
+    entry.count++;
+    votes.set(vote, entry);
+    if (!best || entry.count > best.count) best = entry;
+  }
+  return best ? best.origin : null;
+}
+
+/** Instances of the known prefabs, in block order. Blocks of deleted prefabs are ignored. */
+export function listPrefabInstances(blocks: Block[], prefabs: Prefab[]): PrefabInstance[] {
+  const byId = new Map(prefabs.map(p => [p.id, p]));
+  const members = new Map<string, Block[]>();
+  for (const block of blocks) {
+    if (!block.prefabInstanceId || !block.prefabId || !byId.has(block.prefabId)) continue;
+    const list = members.get(block.prefabInstanceId);
+    if (list) list.push(block);
+    else members.set(block.prefabInstanceId, [block]);
+  }
+  return Array.from(members, ([id, list]) => {
+    const prefab = byId.get(list[0].prefabId!)!;
+    return { id, prefabId: prefab.id, origin: instanceOrigin(prefab, list) ?? { ...list[0].position }, blockIds: list.map(b => b.id) };
+  });
+}
+
+/** Overridden properties per block id; blocks that follow the definition are left out. */
+export function instanceOverrides(prefab: Prefab, members: Block[]): Record<string, PrefabOverride[]> {
+  const origin = instanceOrigin(prefab, members);
+  const defs = new Map(prefab.blocks.map(d => [d.key, d]));
+  const result: Record<string, PrefabOverride[]> = {};
+  for (const block of members) {
+    const def = block.prefabKey ? defs.get(block.prefabKey) : undefined;
+    if (!def || !origin) continue;
+    const overrides: PrefabOverride[] = [];
+    if (block.color !== def.color) overrides.push('color');
+    if (!samePosition(block.position, add(origin, def.position))) overrides.push('position');
+    if (overrides.length) result[block.id] = overrides;
+  }
+  return result;
+}
+
+function membersByInstance(blocks: Block[], prefabId: string): Map<string, Block[]> {
+  const result = new Map<string, Block[]>();
+  for (const block of blocks) {
+    if (block.prefabId !== prefabId || !block.prefabInstanceId) continue;
+    const list = result.get(block.prefabInstanceId);
+    if (list) list.push(block);
+    else result.set(block.prefabInstanceId, [block]);
+  }
+  return result;
+}
+
+/**
+ * Rewrites every instance of a prefab after its definition changed from
+ * `before` to `after`. Overridden colours and positions survive; blocks whose
+ * key left the definition are removed and keys new to it are added. Blocks
+ * deleted from a single instance stay deleted.
+ */
+export function propagatePrefab(blocks: Block[], before: Prefab, after: Prefab): Block[] {
+  const oldDefs = new Map(before.blocks.map(d => [d.key, d]));
+  const newDefs = new Map(after.blocks.map(d => [d.key, d]));
+  const added = after.blocks.filter(d => !oldDefs.has(d.key));
+  const taken = new Set(blocks.map(b => b.id));
+  const replaced = new Map<string, Block | null>();
+  const appended: Block[] = [];
+
+  for (const [instanceId, members] of membersByInstance(blocks, before.id)) {
+    const origin = instanceOrigin(before, members) ?? members[0].position;
+    const overrides = instanceOverrides(before, members);
+    for (const block of members) {
+      const def = block.prefabKey ? newDefs.get(block.prefabKey) : undefined;
+      if (!def) {
+        replaced.set(block.id, null);
+        continue;
+      }
+      const kept: PrefabOverride[] = overrides[block.id] ?? (oldDefs.has(def.key) ? [] : ['color', 'position']);
+      const next = fromPrefabBlock(def, after.id, instanceId, origin, block.id);
+      if (kept.includes('color')) next.color = block.color;
+      if (kept.includes('position')) next.position = { ...block.position };
+      replaced.set(block.id, { ...next, group: block.group, hidden: block.hidden, locked: block.locked });
+    }
+    for (const def of added) {
+      if (members.some(b => b.prefabKey === def.key)) continue;
+      appended.push(fromPrefabBlock(def, after.id, instanceId, origin, uniqueId(`${instanceId}-${def.key}`, taken)));
+    }
+  }
+
+  const result: Block[] = [];
+  for (const block of blocks) {
+    const next = replaced.get(block.id);
+    if (next === undefined) result.push(block);
+    else if (next) result.push(next);
+  }
+  return [...result, ...appended];
+}
+
+/**
+ * Makes one instance the new definition (its overrides, deletions and any
+ * `extraIds` blocks become part of the prefab) and pushes that to the other instances.
+ */
+export function applyInstanceToPrefab(
+  blocks: Block[],
+  prefab: Prefab,
+  instanceId: string,
+  extraIds: string[] = [],
+): { prefab: Prefab; blocks: Block[] } {
+  const members = blocks.filter(b => b.prefabId === prefab.id && b.prefabInstanceId === instanceId);
+  if (members.length === 0) return { prefab, blocks };
+  const origin = instanceOrigin(prefab, members) ?? members[0].position;
+  const keys = new Set(prefab.blocks.map(d => d.key));
+
+  // Unrelated blocks join the instance first, under fresh keys
+  const extra = new Set(extraIds);
+  const tagged = blocks.map(b => extra.has(b.id) && !b.prefabInstanceId
+    ? { ...b, prefabId: prefab.id, prefabInstanceId: instanceId, prefabKey: nextKey(keys) }
+    : b);
+  const next: Prefab = {
+    ...prefab,
+    blocks: tagged
+      .filter(b => b.prefabId === prefab.id && b.prefabInstanceId === instanceId)
+      .map(b => toPrefabBlock(b, origin, b.prefabKey ?? nextKey(keys))),
+  };
+  return { prefab: next, blocks: propagatePrefab(tagged, prefab, next) };
+}
+
+/** Drops an instance's overrides and restores any blocks deleted from it. */
+export function revertInstance(blocks: Block[], prefab: Prefab, instanceId: string): Block[] {
+  const members = blocks.filter(b => b.prefabId === prefab.id && b.prefabInstanceId === instanceId);
+  if (members.length === 0) return blocks;
+  const origin = instanceOrigin(prefab, members) ?? members[0].position;
+  const byKey = new Map(members.map(b => [b.prefabKey, b]));
+  const taken = new Set(blocks.map(b => b.id));
+  const rebuilt = new Map<string, Block>();
+  const appended: Block[] = [];
+  for (const def of prefab.blocks) {
+    const current = byKey.get(def.key);
+    if (current) {
+      rebuilt.set(current.id, { ...fromPrefabBlock(def, prefab.id, instanceId, origin, current.id), group: current.group, hidden: current.hidden, locked: current.locked });
+    } else {
+      appended.push(fromPrefabBlock(def, prefab.id, instanceId, origin, uniqueId(`${instanceId}-${def.key}`, taken)));
+    }
+  }
+  const result: Block[] = [];
+  for (const block of blocks) {
+    if (block.prefabInstanceId !== instanceId) result.push(block);
+    else if (rebuilt.has(block.id)) result.push(rebuilt.get(block.id)!);
+  }
+  return [...result, ...appended];
+}
+
+/** Turns matching instance blocks back into plain blocks, keeping their current look. */
+export function unpackBlocks(blocks: Block[], match: (block: Block) => boolean): Block[] {
+  return blocks.map(block => {
+    if (!block.prefabInstanceId || !match(block)) return block;
+    const { prefabId, prefabInstanceId, prefabKey, ...rest } = block;
+    return rest;
+  });
+}
+
+/** Origin for a new instance: one unit past the +X side of the prefab's existing instances. */
+export function nextInstanceOrigin(blocks: Block[], prefab: Prefab): Vec3Like {
+  const members = blocks.filter(b => b.prefabId === prefab.id);
+  if (members.length === 0 || prefab.blocks.length === 0) return { x: 0, y: 0, z: 0 };
+  const last = instanceOrigin(prefab, members.filter(b => b.prefabInstanceId === members[members.length - 1].prefabInstanceId))
+    ?? members[members.length - 1].position;
+  const maxX = Math.max(...members.map(b => blockBounds(b).max.x));
+  const minOffset = Math.min(...prefab.blocks.map(d => blockBounds(d).min.x));
+  return { x: Math.ceil(maxX + 1 - minOffset), y: last.y, z: last.z };
+}
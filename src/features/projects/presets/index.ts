@@ -34,9 +34,9 @@ const platformer: PresetDefinition = {
   create(initialName = 'Platformer Starter') {
     const blocks: Block[] = [
       { id: makeId('start'), type: 'start', position: { x: 0, y: 1, z: 0 } },
-      { id: makeId('plate'), type: 'plate', position: { x: 0, y: 0, z: 0 }, scale: { x: 10, y: 1, z: 10 } },
-      { id: makeId('plate'), type: 'plate', position: { x: 14, y: 2, z: 0 }, scale: { x: 6, y: 1, z: 6 } },
-      { id: makeId('plate'), type: 'plate', position: { x: 26, y: 4, z: 0 }, scale: { x: 4, y: 1, z: 4 } },
+      { id: makeId('plate'), type: 'plate', position: { x: 0, y: 0, z: 0 }, scale: 10 },
+      { id: makeId('plate'), type: 'plate', position: { x: 14, y: 2, z: 0 }, scale: 6 },
+      { id: makeId('plate'), type: 'plate', position: { x: 26, y: 4, z: 0 }, scale: 4 },
       { id: makeId('finish'), type: 'finish', position: { x: 32, y: 5, z: 0 } },
     ];
     return { name: initialName, blocks };
@@ -54,10 +54,10 @@ const maze: PresetDefinition = {
     ];
     // Walls outline (placeholder simple square)
     for (let i = -8; i <= 8; i += 2) {
-      blocks.push({ id: makeId('wall'), type: 'cube', position: { x: i, y: 1, z: -10 }, scale: { x: 2, y: 2, z: 1 } });
-      blocks.push({ id: makeId('wall'), type: 'cube', position: { x: i, y: 1, z: 10 }, scale: { x: 2, y: 2, z: 1 } });
-      blocks.push({ id: makeId('wall'), type: 'cube', position: { x: -10, y: 1, z: i }, scale: { x: 1, y: 2, z: 2 } });
-      blocks.push({ id: makeId('wall'), type: 'cube', position: { x: 10, y: 1, z: i }, scale: { x: 1, y: 2, z: 2 } });
+      blocks.push({ id: makeId('wall'), type: 'cube', position: { x: i, y: 1, z: -10 }, scale: 2 });
+      blocks.push({ id: makeId('wall'), type: 'cube', position: { x: i, y: 1, z: 10 }, scale: 2 });
+      blocks.push({ id: makeId('wall'), type: 'cube', position: { x: -10, y: 1, z: i }, scale: 2 });
+      blocks.push({ id: makeId('wall'), type: 'cube', position: { x: 10, y: 1, z: i }, scale: 2 });
     }
     return { name: initialName, blocks };
   },
@@ -72,7 +72,7 @@ const parkour: PresetDefinition = {
       { id: makeId('start'), type: 'start', position: { x: 0, y: 1, z: 0 } },
     ];
     for (let i = 1; i <= 10; i++) {
-      blocks.push({ id: makeId('p'), type: 'plate', position: { x: i * 4, y: i % 3 === 0 ? 4 : 2, z: (i % 2) * 2 }, scale: { x: 3, y: 1, z: 3 } });
+      blocks.push({ id: makeId('p'), type: 'plate', position: { x: i * 4, y: i % 3 === 0 ? 4 : 2, z: (i % 2) * 2 }, scale: 3 });
     }
     blocks.push({ id: makeId('finish'), type: 'finish', position: { x: 48, y: 5, z: 4 } });
     return { name: initialName, blocks };
@@ -88,7 +88,7 @@ const sandbox: PresetDefinition = {
       { id: makeId('start'), type: 'start', position: { x: 0, y: 1, z: 0 } },
       { id: makeId('cube'), type: 'cube', position: { x: 2, y: 1, z: 2 } },
       { id: makeId('ramp'), type: 'ramp', position: { x: 6, y: 1, z: 0 } },
-      { id: makeId('plate'), type: 'plate', position: { x: -4, y: 0, z: -2 }, scale: { x: 6, y: 1, z: 6 } },
+      { id: makeId('plate'), type: 'plate', position: { x: -4, y: 0, z: -2 }, scale: 6 },
     ];
     return { name: initialName, blocks };
   },
@@ -0,0 +1,314 @@
+// Versioned project format. Every save path writes CURRENT_PROJECT_VERSION;
+// every load path (localStorage, autosave, server `blocks`, imported files)
+// goes through migrateProject, which upgrades older shapes step by step.
+
+import { z } from 'zod';
+import { GAME_MODES } from '@/shared/gameModes/modeConfig';
+import type { Block, BlockType, MechanicType, ProjectData } from '@/types/project';
+
+export const CURRENT_PROJECT_VERSION = '1.3.0';
+
+export class ProjectFormatError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(issues.length ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'ProjectFormatError';
+  }
+}
+
+const BLOCK_TYPES: [BlockType, ...BlockType[]] = [
+  'cube', 'cube_bouncy', 'cube_ice', 'cube_conveyor', 'cube_boost', 'cube_slow', 'cube_sticky',
+  'sphere', 'cylinder', 'cone', 'pyramid', 'plate', 'ramp', 'torus', 'wedge',
+  'door', 'window', 'fence', 'start', 'checkpoint', 'finish', 'hazard', 'model',
+];
+
+const MECHANIC_TYPES: [MechanicType, ...MechanicType[]] = [
+  'none', 'bouncy', 'ice', 'conveyor', 'boost', 'slow', 'sticky', 'checkpoint', 'finish', 'hazard',
+];
+
+// Block types whose behaviour is a mechanic; in 1.3.0 `mechanic` must agree with them
+const TYPE_MECHANIC: Partial<Record<BlockType, MechanicType>> = {
+  cube_bouncy: 'bouncy',
+  cube_ice: 'ice',
+  cube_conveyor: 'conveyor',
+  cube_boost: 'boost',
+  cube_slow: 'slow',
+  cube_sticky: 'sticky',
+  checkpoint: 'checkpoint',
+  finish: 'finish',
+  hazard: 'hazard',
+};
+
+const vec3 = z.object({ x: z.number(), y: z.number(), z: z.number() });
+
+/**
+ * Sets `mechanic` from the block type for mechanic types. Editors create
+ * such blocks by type alone, so every save path and the 1.3.0 load path run
+ * blocks through this before validating.
+ */
+export function normalizeBlockMechanic<T extends { type: string; mechanic?: string }>(block: T): T {
+  const typeMechanic = TYPE_MECHANIC[block.type as BlockType];
+  return typeMechanic && block.mechanic !== typeMechanic ? { ...block, mechanic: typeMechanic } : block;
+}
+
+export function normalizeBlocks<T extends { type: string; mechanic?: string }>(blocks: T[]): T[] {
+  return blocks.map(normalizeBlockMechanic);
+}
+
+// What earlier 1.3.0 writers left out: mechanics implied by the type, empty logic/animations
+function normalizeCurrentProject(raw: unknown): unknown {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return raw;
+  const project = raw as { blocks?: unknown; logic?: unknown; animations?: unknown };
+  const blocks = Array.isArray(project.blocks)
+    ? project.blocks.map(b => (b && typeof b === 'object' && typeof (b as { type?: unknown }).type === 'string'
+      ? normalizeBlockMechanic(b as { type: string; mechanic?: string })
+      : b))
+    : project.blocks;
+  return { ...project, blocks, logic: project.logic ?? [], animations: project.animations ?? [] };
+}
+
+/**
+ * 1.0.0: anything saved before the version field existed, i.e. a bare block
+ * list (server `blocks` JSON, early exports) or a project object without
+ * `version`. Block ids may be missing.
+ */
+const legacyBlockSchema = z.object({
+  id: z.string().optional(),
+  type: z.string(),
+  position: vec3,
+}).passthrough();
+
+const projectSchemaV1_0 = z.union([
+  z.array(legacyBlockSchema),
+  z.object({
+    name: z.string().optional(),
+    blocks: z.array(legacyBlockSchema).optional(),
+  }).passthrough(),
+]);
+
+/**
+ * 1.2.0: `scale` is either a number or an {x,y,z} vector (presets) and a
+ * mechanic may be encoded in `type` (cube_bouncy), in `mechanic`, or both.
+ */
+const blockSchemaV1_2 = z.object({
+  id: z.string(),
+  type: z.string(),
+  position: vec3,
+  scale: z.union([z.number(), vec3]).optional(),
+  mechanic: z.string().optional(),
+}).passthrough();
+
+const projectSchemaV1_2 = z.object({
+  name: z.string(),
+  blocks: z.array(blockSchemaV1_2),
+  timestamp: z.string(),
+  version: z.string(), // any 1.2.x
+  logic: z.array(z.unknown()).optional(),
+  animations: z.array(z.unknown()).optional(),
+}).passthrough();
+
+/** 1.3.0 (current): uniform numeric scale, one encoding per mechanic. */
+const blockSchemaV1_3 = z.object({
+  id: z.string().min(1),
+  type: z.enum(BLOCK_TYPES),
+  position: vec3,
+  scale: z.number().positive().optional(),
+  mechanic: z.enum(MECHANIC_TYPES).optional(),
+  mechanicPower: z.number().optional(),
+  rotationX: z.number().optional(),
+  rotationY: z.number().optional(),
+  rotationZ: z.number().optional(),
+  color: z.number().optional(),
+  assetId: z.string().min(1).optional(),
+  collider: z.enum(['box', 'hull']).optional(),
+  prefabId: z.string().min(1).optional(),
+  prefabInstanceId: z.string().min(1).optional(),
+  prefabKey: z.string().min(1).optional(),
+}).passthrough().refine(
+  block => !TYPE_MECHANIC[block.type] || block.mechanic === TYPE_MECHANIC[block.type],
+  block => ({ message: `mechanic must be "${TYPE_MECHANIC[block.type]}" for ${block.type}` }),
+).refine(
+  block => block.type !== 'model' || !!block.assetId,
+  { message: 'model blocks need an assetId' },
+);
+
+const selectionSetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  blockIds: z.array(z.string()),
+});
+
+// Prefab blocks carry the same optional fields as blocks, positioned relative to the prefab origin
+const prefabSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  blocks: z.array(z.object({
+    key: z.string().min(1),
+    type: z.enum(BLOCK_TYPES),
+    position: vec3,
+  }).passthrough()),
+});
+
+const environmentSchema = z.object({
+  timeOfDay: z.number().min(0).max(24),
+  sky: z.object({
+    mode: z.enum(['gradient', 'preset']),
+    top: z.number(),
+    horizon: z.number(),
+    preset: z.enum(['clear', 'sunset', 'night', 'overcast']),
+  }),
+  sun: z.object({ color: z.number(), intensity: z.number().min(0), azimuth: z.number(), shadows: z.boolean() }),
+  ambient: z.object({ color: z.number(), intensity: z.number().min(0) }),
+  fog: z.object({ enabled: z.boolean(), color: z.number(), near: z.number().min(0), far: z.number().min(0) }),
+});
+
+const projectSchemaV1_3 = z.object({
+  name: z.string(),
+  blocks: z.array(blockSchemaV1_3),
+  timestamp: z.string(),
+  version: z.literal('1.3.0'),
+  logic: z.array(z.unknown()),
+  animations: z.array(z.unknown()),
+  selectionSets: z.array(selectionSetSchema).optional(),
+  prefabs: z.array(prefabSchema).optional(),
+  environment: environmentSchema.optional(),
+  mode: z.enum(GAME_MODES as [string, ...string[]]).optional(),
+  modeConfig: z.string().nullable().optional(),
+}).passthrough();
+
+export const projectSchemas = {
+  '1.0.0': projectSchemaV1_0,
+  '1.2.0': projectSchemaV1_2,
+  '1.3.0': projectSchemaV1_3,
+};
+
+export type ProjectFormatVersion = keyof typeof projectSchemas;
+
+type LegacyProject = z.infer<typeof projectSchemaV1_0>;
+type ProjectV1_2 = z.infer<typeof projectSchemaV1_2>;
+type BlockV1_2 = z.infer<typeof blockSchemaV1_2>;
+
+export interface ProjectMigration {
+  from: ProjectFormatVersion;
+  to: ProjectFormatVersion;
+  up(data: unknown): unknown;
+}
+
+function upgradeBlockV1_2(block: BlockV1_2): Record<string, unknown> {
+  const next: Record<string, unknown> = { ...block };
+
+  // Vector scales collapse to x, as the editors already do when they read them
+  const scale = typeof block.scale === 'object' ? block.scale.x : block.scale;
+  if (typeof scale === 'number' && Number.isFinite(scale) && scale > 0) next.scale = scale;
+  else delete next.scale;
+
+  // The type is what renders and simulates, so it wins over a conflicting mechanic
+  const typeMechanic = TYPE_MECHANIC[block.type as BlockType];
+  if (typeMechanic) {
+    next.mechanic = typeMechanic;
+  } else if (block.type === 'cube' && block.mechanic && `cube_${block.mechanic}` in TYPE_MECHANIC) {
+    next.type = `cube_${block.mechanic}`;
+  } else if (!block.mechanic || block.mechanic === 'none') {
+    delete next.mechanic;
+  }
+  return next;
+}
+
+export const projectMigrations: ProjectMigration[] = [
+  {
+    from: '1.0.0',
+    to: '1.2.0',
+    up(data) {
+      const legacy = data as LegacyProject;
+      const project = Array.isArray(legacy) ? { blocks: legacy } : legacy;
+      const updatedAt = (project as { updatedAt?: unknown }).updatedAt;
+      return {
+        ...project,
+        name: project.name || 'Untitled Project',
+        blocks: (project.blocks ?? []).map((block, index) => ({ ...block, id: block.id || `block-${index + 1}` })),
+        timestamp: typeof updatedAt === 'string' ? updatedAt : new Date().toISOString(),
+        version: '1.2.0',
+      };
+    },
+  },
+  {
+    from: '1.2.0',
+    to: '1.3.0',
+    up(data) {
+      const project = data as ProjectV1_2;
+      return {
+        ...project,
+        blocks: project.blocks.map(upgradeBlockV1_2),
+        logic: project.logic ?? [],
+        animations: project.animations ?? [],
+        version: '1.3.0',
+      };
+    },
+  },
+];
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(n => parseInt(n, 10) || 0);
+  const pb = b.split('.').map(n => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/** Format a stored project is in; versions between known formats use the older one. */
+export function detectProjectVersion(raw: unknown): ProjectFormatVersion {
+  const version = !Array.isArray(raw) && raw && typeof raw === 'object' ? (raw as { version?: unknown }).version : undefined;
+  if (typeof version !== 'string') return '1.0.0';
+  if (compareVersions(version, CURRENT_PROJECT_VERSION) > 0) {
+    throw new ProjectFormatError(`Project version ${version} is newer than this editor supports (${CURRENT_PROJECT_VERSION})`);
+  }
+  const known = (Object.keys(projectSchemas) as ProjectFormatVersion[]).sort(compareVersions);
+  return known.filter(v => compareVersions(v, version) <= 0).pop() ?? '1.0.0';
+}
+
+function validate(version: ProjectFormatVersion, data: unknown): unknown {
+  const result = projectSchemas[version].safeParse(data);
+  if (!result.success) {
+    throw new ProjectFormatError(
+      `Invalid ${version} project`,
+      result.error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)),
+    );
+  }
+  return result.data;
+}
+
+/**
+ * Upgrade a stored project (or bare block list) to the current format.
+ * Each step's input and output are validated; throws ProjectFormatError.
+ */
+export function migrateProject(raw: unknown): ProjectData {
+  let version = detectProjectVersion(raw);
+  let data = validate(version, version === CURRENT_PROJECT_VERSION ? normalizeCurrentProject(raw) : raw);
+  while (version !== CURRENT_PROJECT_VERSION) {
+    const step = projectMigrations.find(m => m.from === version);
+    if (!step) throw new ProjectFormatError(`No migration from project version ${version}`);
+    data = validate(step.to, step.up(data));
+    version = step.to;
+  }
+  return data as ProjectData;
+}
+
+/** Blocks of a stored project or block list in the current format. */
+export function migrateBlocks(raw: unknown): Block[] {
+  return migrateProject(raw).blocks;
+}
+
+/**
+ * Migrate the `sandbox-projects` map. Entries that cannot be read stay as
+ * stored so the next write does not drop them; loading one fails instead.
+ */
+export function migrateSavedProjects(saved: Record<string, unknown>): Record<string, ProjectData> {
+  return Object.fromEntries(Object.entries(saved).map(([name, project]) => {
+    try {
+      return [name, migrateProject(project)];
+    } catch {
+      return [name, project as ProjectData];
+    }
+  }));
+}
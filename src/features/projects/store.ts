@@ -1,12 +1,24 @@
 import { create } from 'zustand';
 import { apiFetch } from '@/shared/api/client';
-import type { Block, ProjectData } from '@/types/project';
+import type { Block, Prefab, ProjectData } from '@/types/project';
+import { useLogicStore } from './stores/logic.store';
+import { useAnimationStore } from './stores/animation.store';
+import { useSelectionSetsStore } from './stores/selection.store';
+import { usePrefabStore } from './stores/prefab.store';
+import { useEnvironmentStore } from './stores/environment.store';
+import { CURRENT_PROJECT_VERSION, migrateProject, migrateSavedProjects, normalizeBlocks } from './projectFormat';
+import { SpatialIndex } from '@/features/spatial/spatialIndex';
+import { syncBlockIndex } from '@/features/spatial/blockBounds';
 
 type SaveResult = { savedTo: 'cloud' | 'local'; project: ProjectData };
 
+// Blocks before an undo step. Prefab commands also keep the prefab library
+// from before the step, so undo and redo restore both together.
+type HistoryEntry = Block[] & { prefabs?: Prefab[] };
+
 interface ProjectState {
   blocks: Block[];
-  droppedBlock: { type: 'cube' | 'cube_bouncy' | 'cube_ice' | 'cube_conveyor' | 'cube_boost' | 'cube_slow' | 'cube_sticky' | 'sphere' | 'cylinder' | 'cone' | 'pyramid' | 'plate' | 'ramp' | 'torus' | 'wedge' | 'door' | 'window' | 'fence' | 'start' | 'checkpoint' | 'finish' | 'hazard' } | null;
+  droppedBlock: { type: 'cube' | 'cube_bouncy' | 'cube_ice' | 'cube_conveyor' | 'cube_boost' | 'cube_slow' | 'cube_sticky' | 'sphere' | 'cylinder' | 'cone' | 'pyramid' | 'plate' | 'ramp' | 'torus' | 'wedge' | 'door' | 'window' | 'fence' | 'start' | 'checkpoint' | 'finish' | 'hazard' | 'model'; assetId?: string } | null;
   projectName: string;
   hasUnsavedChanges: boolean;
   loadedBlocks: Block[];
@@ -21,8 +33,8 @@ interface ProjectState {
   noUiModeEnabled: boolean;
   savedProjects: Record<string, ProjectData>;
   currentProject: ProjectData | null;
-  historyPast: Block[][];
-  historyFuture: Block[][];
+  historyPast: HistoryEntry[];
+  historyFuture: HistoryEntry[];
 
   // Editor settings
   gridVisible: boolean;
@@ -31,7 +43,7 @@ interface ProjectState {
   // Placement
   placeMultiple: boolean;
 
-  setDroppedBlock: (payload: { type: 'cube' | 'cube_bouncy' | 'cube_ice' | 'cube_conveyor' | 'cube_boost' | 'cube_slow' | 'cube_sticky' | 'sphere' | 'cylinder' | 'cone' | 'pyramid' | 'plate' | 'ramp' | 'torus' | 'wedge' | 'door' | 'window' | 'fence' } | null) => void;
+  setDroppedBlock: (payload: { type: 'cube' | 'cube_bouncy' | 'cube_ice' | 'cube_conveyor' | 'cube_boost' | 'cube_slow' | 'cube_sticky' | 'sphere' | 'cylinder' | 'cone' | 'pyramid' | 'plate' | 'ramp' | 'torus' | 'wedge' | 'door' | 'window' | 'fence' | 'model'; assetId?: string } | null) => void;
   addBlock: (block: Block) => void;
   setBlocks: (blocks: Block[]) => void;
   clearScene: () => void;
@@ -58,6 +70,8 @@ interface ProjectState {
   // Bulk operations
   addBlocks: (toAdd: Block[]) => void;
   paintBlocks: (ids: string[], color: number) => void;
+  commitBlocks: (blocks: Block[], prefabsBefore?: Prefab[]) => void; // replace every block as one undo step and redraw
+  markEdited: () => void; // a saved side store (environment, logic) changed: mark unsaved and autosave
 
   // Editor settings actions
   setGridVisible: (visible: boolean) => void;
@@ -72,6 +86,7 @@ interface ProjectState {
 
   loadCurrentProject: () => boolean;
   loadProject: (name: string) => boolean;
+  importProject: (project: ProjectData) => void;
   renameProject: (newName: string) => boolean;
   newProject: () => void;
   deleteSavedProject: (name: string) => void;
@@ -104,9 +119,15 @@ function scheduleAutoSave(get: () => ProjectState) {
       const autoSaveData: ProjectData = {
         id: state.currentProject?.id,
         name: `${state.projectName} (Auto-save)`,
-        blocks: state.blocks,
+        blocks: normalizeBlocks(state.blocks),
         timestamp: new Date().toISOString(),
-        version: '1.2.0',
+        version: CURRENT_PROJECT_VERSION,
+        logic: useLogicStore.getState().triggers,
+        animations: useAnimationStore.getState().clips,
+        selectionSets: useSelectionSetsStore.getState().sets,
+        prefabs: usePrefabStore.getState().prefabs,
+        environment: useEnvironmentStore.getState().environment,
+        ...carriedProjectFields(state.currentProject),
       };
       try {
         localStorage.setItem('sandbox-autosave', JSON.stringify(autoSaveData));
@@ -121,23 +142,39 @@ function scheduleAutoSave(get: () => ProjectState) {
   }, 1500);
 }
 
+// Saved fields this editor shows but doesn't edit (terrain, game mode): kept
+// from the open project so saving an imported or loaded project keeps them
+function carriedProjectFields(project: ProjectData | null): Pick<ProjectData, 'terrain' | 'mode' | 'modeConfig'> {
+  if (!project) return {};
+  return {
+    ...(project.terrain ? { terrain: project.terrain } : {}),
+    ...(project.mode ? { mode: project.mode } : {}),
+    ...(project.modeConfig ? { modeConfig: project.modeConfig } : {}),
+  };
+}
+
 function snapshotBlocks(blocks: Block[]): Block[] {
   return (blocks || []).map(b => ({
     id: b.id,
     type: b.type,
     position: { ...b.position },
-    name: (b as any).name,
-    hidden: (b as any).hidden,
-    locked: (b as any).locked,
-    color: (b as any).color,
-    group: (b as any).group,
-    rotationY: (b as any).rotationY,
-    rotationX: (b as any).rotationX,
-    rotationZ: (b as any).rotationZ,
-    scale: (b as any).scale,
-    mechanic: (b as any).mechanic,
-    mechanicPower: (b as any).mechanicPower,
-  } as Block));
+    name: b.name,
+    hidden: b.hidden,
+    locked: b.locked,
+    color: b.color,
+    group: b.group,
+    rotationY: b.rotationY,
+    rotationX: b.rotationX,
+    rotationZ: b.rotationZ,
+    scale: b.scale,
+    mechanic: b.mechanic,
+    mechanicPower: b.mechanicPower,
+    assetId: b.assetId,
+    collider: b.collider,
+    prefabId: b.prefabId,
+    prefabInstanceId: b.prefabInstanceId,
+    prefabKey: b.prefabKey,
+  }));
 }
 
 function applyBlocksToScene(blocks: Block[]) {
@@ -159,7 +196,7 @@ function applyBlocksToScene(blocks: Block[]) {
 
 function readSavedProjects(): Record<string, ProjectData> {
   try {
-    return JSON.parse(localStorage.getItem('sandbox-projects') || '{}') || {};
+    return migrateSavedProjects(JSON.parse(localStorage.getItem('sandbox-projects') || '{}') || {});
   } catch {
     return {};
   }
@@ -217,6 +254,9 @@ function writeEditorSettings(settings: EditorSettings) {
   } catch {}
 }
 
+/** Spatial index over the editor's blocks (box, nearest and ray queries). */
+export const projectBlockIndex = new SpatialIndex<Block>();
+
 export const useProjectStore = create<ProjectState>((set, get) => ({
   blocks: [],
   droppedBlock: null,
@@ -448,7 +488,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     if (state.historyPast.length === 0) return;
     const previous = state.historyPast[state.historyPast.length - 1];
     const newPast = state.historyPast.slice(0, -1);
-    const current = snapshotBlocks(state.blocks);
+    const current: HistoryEntry = snapshotBlocks(state.blocks);
+    if (previous.prefabs) {
+      current.prefabs = usePrefabStore.getState().prefabs;
+      usePrefabStore.getState().setPrefabs(previous.prefabs);
+    }
     set({
       blocks: snapshotBlocks(previous),
       historyPast: newPast,
@@ -467,7 +511,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     if (state.historyFuture.length === 0) return;
     const next = state.historyFuture[state.historyFuture.length - 1];
     const newFuture = state.historyFuture.slice(0, -1);
-    const current = snapshotBlocks(state.blocks);
+    const current: HistoryEntry = snapshotBlocks(state.blocks);
+    if (next.prefabs) {
+      current.prefabs = usePrefabStore.getState().prefabs;
+      usePrefabStore.getState().setPrefabs(next.prefabs);
+    }
     set({
       blocks: snapshotBlocks(next),
       historyPast: (() => {
@@ -615,6 +663,32 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     scheduleAutoSave(get);
   },
 
+  markEdited: () => {
+    set({ hasUnsavedChanges: true });
+    scheduleAutoSave(get);
+  },
+
+  commitBlocks: (blocks, prefabsBefore) => {
+    const prev = get().blocks;
+    const next = snapshotBlocks(blocks);
+    const ids = new Set(next.map(b => b.id));
+    const entry: HistoryEntry = snapshotBlocks(prev);
+    if (prefabsBefore) entry.prefabs = prefabsBefore;
+    set((state) => ({
+      historyPast: (() => {
+        const h = [...state.historyPast, entry];
+        return h.length > MAX_HISTORY ? h.slice(-MAX_HISTORY) : h;
+      })(),
+      historyFuture: [],
+      blocks: next,
+      hasUnsavedChanges: true,
+      selectedBlockId: state.selectedBlockId && ids.has(state.selectedBlockId) ? state.selectedBlockId : null,
+      selectedBlockIds: state.selectedBlockIds.filter(id => ids.has(id)),
+    }));
+    applyBlocksToScene(next);
+    scheduleAutoSave(get);
+  },
+
   setBlockHidden: (id: string, hidden: boolean) => {
     const prev = get().blocks;
     const next = snapshotBlocks(prev.map(b => b.id === id ? { ...b, hidden } as Block : b));
@@ -664,7 +738,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     try {
       const saved = localStorage.getItem('sandbox-current-project');
       if (!saved) return false;
-      const project: ProjectData = JSON.parse(saved);
+      const project = migrateProject(JSON.parse(saved));
       set({
         projectName: project.name,
         loadedBlocks: snapshotBlocks(project.blocks),
@@ -674,6 +748,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         historyPast: [],
         historyFuture: [],
       });
+      useLogicStore.getState().setTriggers(project.logic || []);
+      useAnimationStore.getState().setClips(project.animations || []);
+      useSelectionSetsStore.getState().setSets(project.selectionSets || []);
+      usePrefabStore.getState().setPrefabs(project.prefabs || []);
+      useEnvironmentStore.getState().setEnvironment(project.environment);
       return true;
     } catch {
       return false;
@@ -682,8 +761,13 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   loadProject: (name: string) => {
     const saved = get().savedProjects;
-    const project = saved[name];
-    if (!project) return false;
+    if (!saved[name]) return false;
+    let project: ProjectData;
+    try {
+      project = migrateProject(saved[name]);
+    } catch {
+      return false;
+    }
     try {
       localStorage.setItem('sandbox-current-project', JSON.stringify(project));
     } catch {}
@@ -696,9 +780,40 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       historyPast: [],
       historyFuture: [],
     });
+    useLogicStore.getState().setTriggers(project.logic || []);
+    useAnimationStore.getState().setClips(project.animations || []);
+    useSelectionSetsStore.getState().setSets(project.selectionSets || []);
+    usePrefabStore.getState().setPrefabs(project.prefabs || []);
+    useEnvironmentStore.getState().setEnvironment(project.environment);
     return true;
   },
 
+  // Opens an imported project (e.g. a dropped .blockscape) as a new, unsaved one
+  importProject: (project: ProjectData) => {
+    const { id: _id, published: _published, ...imported } = project;
+    try {
+      localStorage.setItem('sandbox-current-project', JSON.stringify(imported));
+    } catch {
+      // Storage full or unavailable; the project stays open in memory
+    }
+    set({
+      projectName: imported.name,
+      loadedBlocks: snapshotBlocks(imported.blocks),
+      blocks: snapshotBlocks(imported.blocks),
+      currentProject: imported,
+      hasUnsavedChanges: true,
+      historyPast: [],
+      historyFuture: [],
+      selectedBlockId: null,
+      selectedBlockIds: [],
+    });
+    useLogicStore.getState().setTriggers(imported.logic || []);
+    useAnimationStore.getState().setClips(imported.animations || []);
+    useSelectionSetsStore.getState().setSets(imported.selectionSets || []);
+    usePrefabStore.getState().setPrefabs(imported.prefabs || []);
+    useEnvironmentStore.getState().setEnvironment(imported.environment);
+  },
+
   renameProject: (newName: string) => {
     const trimmed = newName.trim();
     if (!trimmed) return false;
@@ -730,6 +845,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       historyPast: [],
       historyFuture: [],
     });
+    useLogicStore.getState().setTriggers([]);
+    useAnimationStore.getState().setClips([]);
+    useSelectionSetsStore.getState().setSets([]);
+    usePrefabStore.getState().setPrefabs([]);
+    useEnvironmentStore.getState().setEnvironment(null);
   },
 
   deleteSavedProject: (name: string) => {
@@ -744,9 +864,15 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     const project: ProjectData = {
       id: state.currentProject?.id,
       name: state.projectName,
-      blocks: state.blocks.map(b => ({ id: b.id, type: b.type, position: { ...b.position }, name: (b as any).name, hidden: (b as any).hidden, locked: (b as any).locked, color: (b as any).color, group: (b as any).group, rotationY: (b as any).rotationY, rotationX: (b as any).rotationX, rotationZ: (b as any).rotationZ, scale: (b as any).scale })),
+      blocks: normalizeBlocks(snapshotBlocks(state.blocks)),
       timestamp: new Date().toISOString(),
-      version: '1.2.0',
+      version: CURRENT_PROJECT_VERSION,
+      logic: useLogicStore.getState().triggers,
+      animations: useAnimationStore.getState().clips,
+      selectionSets: useSelectionSetsStore.getState().sets,
+      prefabs: usePrefabStore.getState().prefabs,
+      environment: useEnvironmentStore.getState().environment,
+      ...carriedProjectFields(state.currentProject),
     };
     const saved = { ...state.savedProjects, [project.name]: project };
     writeSavedProjects(saved);
@@ -759,9 +885,19 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   saveProject: async () => {
     const state = get();
+    const carried = carriedProjectFields(state.currentProject);
     const baseBody = {
       name: state.projectName,
-      blocks: state.blocks.map(b => ({ id: b.id, type: b.type, position: { ...b.position }, name: (b as any).name, hidden: (b as any).hidden, locked: (b as any).locked, color: (b as any).color, group: (b as any).group, rotationY: (b as any).rotationY, rotationX: (b as any).rotationX, rotationZ: (b as any).rotationZ, scale: (b as any).scale })),
+      blocks: normalizeBlocks(snapshotBlocks(state.blocks)),
+      logic: useLogicStore.getState().triggers,
+      animations: useAnimationStore.getState().clips,
+      selectionSets: useSelectionSetsStore.getState().sets,
+      prefabs: usePrefabStore.getState().prefabs,
+      environment: useEnvironmentStore.getState().environment,
+      ...(carried.mode ? { mode: carried.mode } : {}),
+      ...(carried.modeConfig ? { modeConfig: carried.modeConfig } : {}),
+      // The API stores terrain as JSON text
+      ...(carried.terrain ? { terrain: typeof carried.terrain === 'string' ? carried.terrain : JSON.stringify(carried.terrain) } : {}),
     };
     try {
       // Try capture thumbnail from scene if available
@@ -777,9 +913,15 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       const updated: ProjectData = {
         id: (result as any).game.id,
         name: (result as any).game.name,
-        blocks: state.blocks,
+        blocks: normalizeBlocks(state.blocks),
         timestamp: new Date().toISOString(),
-        version: '1.2.0',
+        version: CURRENT_PROJECT_VERSION,
+        logic: baseBody.logic,
+        animations: baseBody.animations,
+        selectionSets: baseBody.selectionSets,
+        prefabs: baseBody.prefabs,
+        environment: baseBody.environment,
+        ...carried,
       };
       const saved = { ...state.savedProjects, [updated.name]: updated };
       writeSavedProjects(saved);
@@ -818,9 +960,14 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     try {
       const auto = localStorage.getItem('sandbox-autosave');
       if (!auto || localStorage.getItem('sandbox-current-project')) return false;
-      const data: ProjectData = JSON.parse(auto);
-      if (!data?.blocks?.length) return false;
+      const data = migrateProject(JSON.parse(auto));
+      if (!data.blocks.length) return false;
       set({ projectName: data.name, loadedBlocks: data.blocks, blocks: data.blocks, hasUnsavedChanges: true, currentProject: data });
+      useLogicStore.getState().setTriggers(data.logic || []);
+      useAnimationStore.getState().setClips(data.animations || []);
+      useSelectionSetsStore.getState().setSets(data.selectionSets || []);
+      usePrefabStore.getState().setPrefabs(data.prefabs || []);
+      useEnvironmentStore.getState().setEnvironment(data.environment);
       try {
         localStorage.setItem('sandbox-current-project', JSON.stringify(data));
         localStorage.removeItem('sandbox-autosave');
@@ -832,4 +979,6 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   },
 }));
 
-
+useProjectStore.subscribe((state, prev) => {
+  if (state.blocks !== prev.blocks) syncBlockIndex(projectBlockIndex, state.blocks);
+});
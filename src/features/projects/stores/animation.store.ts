@@ -0,0 +1,163 @@
+import { create } from 'zustand';
+import type { AnimationClip, AnimationKeyframe, AnimationTrack } from '@/types/editor';
+
+export type AnimatedProperty = 'position' | 'rotation' | 'scale';
+
+// Keyframed block animation (moving platforms) state and actions
+export interface AnimationState {
+  clips: AnimationClip[];
+  activeClipId: string | null;
+  currentTime: number;
+
+  setClips: (clips: AnimationClip[]) => void;
+  addClip: (name?: string) => AnimationClip;
+  updateClip: (id: string, updates: Partial<Omit<AnimationClip, 'id' | 'tracks'>>) => void;
+  removeClip: (id: string) => void;
+  setActiveClip: (id: string | null) => void;
+  setCurrentTime: (time: number) => void;
+
+  setKeyframe: (clipId: string, targetId: string, property: AnimatedProperty, time: number, value: { x: number; y: number; z: number }) => void;
+  removeKeyframe: (clipId: string, trackId: string, time: number) => void;
+  setTrackInterpolation: (clipId: string, trackId: string, interpolation: AnimationTrack['interpolation']) => void;
+  removeTrack: (clipId: string, trackId: string) => void;
+
+  getTracksForTarget: (targetId: string) => { clip: AnimationClip; track: AnimationTrack }[];
+}
+
+// Keyframes closer than this are treated as the same frame
+const TIME_EPSILON = 1e-3;
+
+function makeId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function snapshotClips(clips: AnimationClip[]): AnimationClip[] {
+  return (clips || [])
+    .filter(c => c && typeof c.id === 'string')
+    .map(c => ({
+      ...c,
+      tracks: (c.tracks || []).map(t => ({
+        ...t,
+        keyframes: (t.keyframes || []).map(k => ({ ...k, value: typeof k.value === 'object' && k.value ? { ...k.value } : k.value })),
+      })),
+    }));
+}
+
+function mapClip(clips: AnimationClip[], clipId: string, fn: (clip: AnimationClip) => AnimationClip): AnimationClip[] {
+  return clips.map(c => c.id === clipId ? fn(c) : c);
+}
+
+export const useAnimationStore = create<AnimationState>((set, get) => ({
+  clips: [],
+  activeClipId: null,
+  currentTime: 0,
+
+  setClips: (clips) => {
+    const next = snapshotClips(clips);
+    set({ clips: next, activeClipId: next[0]?.id ?? null, currentTime: 0 });
+  },
+
+  addClip: (name) => {
+    const clip: AnimationClip = {
+      id: makeId('clip'),
+      name: name || `Clip ${get().clips.length + 1}`,
+      duration: 4,
+      tracks: [],
+      loop: true,
+      autoPlay: true,
+    };
+    set((state) => ({ clips: [...state.clips, clip], activeClipId: clip.id, currentTime: 0 }));
+    return clip;
+  },
+
+  updateClip: (id, updates) => {
+    set((state) => ({
+      clips: mapClip(state.clips, id, c => ({
+        ...c,
+        ...updates,
+        ...(typeof updates.duration === 'number' ? { duration: Math.max(0.1, updates.duration) } : {}),
+      })),
+    }));
+  },
+
+  removeClip: (id) => {
+    set((state) => {
+      const clips = state.clips.filter(c => c.id !== id);
+      return {
+        clips,
+        activeClipId: state.activeClipId === id ? (clips[0]?.id ?? null) : state.activeClipId,
+      };
+    });
+  },
+
+  setActiveClip: (id) => set({ activeClipId: id, currentTime: 0 }),
+
+  setCurrentTime: (time) => {
+    const clip = get().clips.find(c => c.id === get().activeClipId);
+    const max = clip ? clip.duration : Number.POSITIVE_INFINITY;
+    set({ currentTime: Math.max(0, Math.min(max, time)) });
+  },
+
+  setKeyframe: (clipId, targetId, property, time, value) => {
+    const keyframe: AnimationKeyframe = { time: Math.max(0, time), value: { ...value } };
+    set((state) => ({
+      clips: mapClip(state.clips, clipId, c => {
+        const existing = c.tracks.find(t => t.targetId === targetId && t.property === property);
+        const track: AnimationTrack = existing || {
+          id: makeId('track'),
+          targetId,
+          property,
+          keyframes: [],
+          interpolation: 'linear',
+        };
+        const keyframes = [
+          ...track.keyframes.filter(k => Math.abs(k.time - keyframe.time) > TIME_EPSILON),
+          keyframe,
+        ].sort((a, b) => a.time - b.time);
+        const nextTrack = { ...track, keyframes };
+        return {
+          ...c,
+          // Recording past the end stretches the clip
+          duration: Math.max(c.duration, keyframe.time),
+          tracks: existing ? c.tracks.map(t => t.id === track.id ? nextTrack : t) : [...c.tracks, nextTrack],
+        };
+      }),
+    }));
+  },
+
+  removeKeyframe: (clipId, trackId, time) => {
+    set((state) => ({
+      clips: mapClip(state.clips, clipId, c => ({
+        ...c,
+        tracks: c.tracks
+          .map(t => t.id !== trackId ? t : { ...t, keyframes: t.keyframes.filter(k => Math.abs(k.time - time) > TIME_EPSILON) })
+          .filter(t => t.keyframes.length > 0),
+      })),
+    }));
+  },
+
+  setTrackInterpolation: (clipId, trackId, interpolation) => {
+    set((state) => ({
+      clips: mapClip(state.clips, clipId, c => ({
+        ...c,
+        tracks: c.tracks.map(t => t.id === trackId ? { ...t, interpolation } : t),
+      })),
+    }));
+  },
+
+  removeTrack: (clipId, trackId) => {
+    set((state) => ({
+      clips: mapClip(state.clips, clipId, c => ({ ...c, tracks: c.tracks.filter(t => t.id !== trackId) })),
+    }));
+  },
+
+  getTracksForTarget: (targetId) => {
+    const out: { clip: AnimationClip; track: AnimationTrack }[] = [];
+    for (const clip of get().clips) {
+      for (const track of clip.tracks) {
+        if (track.targetId === targetId) out.push({ clip, track });
+      }
+    }
+    return out;
+  },
+}));
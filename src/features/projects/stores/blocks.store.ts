@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import type { Block, BlockType } from '@/types/project';
+import { SpatialIndex } from '@/features/spatial/spatialIndex';
+import { syncBlockIndex } from '@/features/spatial/blockBounds';
 
 // Block management state and actions
 export interface BlocksState {
@@ -71,6 +73,12 @@ function applyBlocksToScene(blocks: Block[]) {
   } catch {}
 }
 
+/**
+ * Spatial index over the store's blocks (box, nearest and ray queries),
+ * kept in step with every change to `blocks`.
+ */
+export const blockSpatialIndex = new SpatialIndex<Block>();
+
 export const useBlocksStore = create<BlocksState>((set, get) => ({
   blocks: [],
   selectedBlockId: null,
@@ -244,3 +252,7 @@ export const useBlocksStore = create<BlocksState>((set, get) => ({
     });
   },
 }));
+
+useBlocksStore.subscribe((state, prev) => {
+  if (state.blocks !== prev.blocks) syncBlockIndex(blockSpatialIndex, state.blocks);
+});
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import type { BlockType } from '@/types/project';
+import type { TerrainBrushMode } from '@/types/editor';
 
 // Editor settings state and actions
 export interface EditorSettingsState {
@@ -19,10 +20,11 @@ export interface EditorSettingsState {
   noUiModeEnabled: boolean;
   
   // Terrain brush
-  terrainBrushMode: 'raise' | 'lower' | 'smooth' | 'paint';
+  terrainBrushMode: TerrainBrushMode;
   terrainBrushSize: number; // world units radius
   terrainBrushStrength: number; // effect per stroke
   terrainBrushColor: number; // hex RGB
+  terrainPaintLayer: number; // texture layer the paint brush adds, -1 tints vertex colours
   
   // Actions
   setSelectedTool: (tool: 'select' | 'move' | 'paint' | 'place') => void;
@@ -34,10 +36,11 @@ export interface EditorSettingsState {
   setBuilderCurrentType: (type: BlockType) => void;
   setBuilderCurrentColor: (color: number) => void;
   setNoUiModeEnabled: (enabled: boolean) => void;
-  setTerrainBrushMode: (mode: 'raise' | 'lower' | 'smooth' | 'paint') => void;
+  setTerrainBrushMode: (mode: TerrainBrushMode) => void;
   setTerrainBrushSize: (size: number) => void;
   setTerrainBrushStrength: (strength: number) => void;
   setTerrainBrushColor: (color: number) => void;
+  setTerrainPaintLayer: (layer: number) => void;
 }
 
 // Persistence helpers
@@ -51,10 +54,11 @@ type EditorSettings = {
   builderCurrentColor: number;
   noUiModeEnabled: boolean;
   placeMultiple: boolean;
-  terrainBrushMode: 'raise' | 'lower' | 'smooth' | 'paint';
+  terrainBrushMode: TerrainBrushMode;
   terrainBrushSize: number;
   terrainBrushStrength: number;
   terrainBrushColor: number;
+  terrainPaintLayer: number;
 };
 
 function getDefaultSettings(): EditorSettings {
@@ -72,6 +76,7 @@ function getDefaultSettings(): EditorSettings {
     terrainBrushSize: 3,
     terrainBrushStrength: 0.2,
     terrainBrushColor: 0x4a9d4a,
+    terrainPaintLayer: 0,
   };
 }
 
@@ -97,6 +102,7 @@ function readEditorSettings(): EditorSettings {
       terrainBrushSize: typeof parsed.terrainBrushSize === 'number' ? parsed.terrainBrushSize : defaults.terrainBrushSize,
       terrainBrushStrength: typeof parsed.terrainBrushStrength === 'number' ? parsed.terrainBrushStrength : defaults.terrainBrushStrength,
       terrainBrushColor: typeof parsed.terrainBrushColor === 'number' ? parsed.terrainBrushColor : defaults.terrainBrushColor,
+      terrainPaintLayer: typeof parsed.terrainPaintLayer === 'number' && parsed.terrainPaintLayer >= -1 && parsed.terrainPaintLayer < 4 ? Math.floor(parsed.terrainPaintLayer) : defaults.terrainPaintLayer,
     };
   } catch {
     return getDefaultSettings();
@@ -132,6 +138,7 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
 
@@ -152,6 +159,7 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
 
@@ -172,6 +180,7 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
 
@@ -193,6 +202,7 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
 
@@ -213,6 +223,7 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
 
@@ -233,6 +244,7 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
 
@@ -253,6 +265,7 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
 
@@ -273,6 +286,7 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
 
@@ -293,6 +307,7 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
 
@@ -313,6 +328,7 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
 
@@ -334,6 +350,7 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
 
@@ -355,6 +372,7 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
 
@@ -375,6 +393,28 @@ export const useEditorSettingsStore = create<EditorSettingsState>((set, get) =>
         terrainBrushSize: state.terrainBrushSize,
         terrainBrushStrength: state.terrainBrushStrength,
         terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
+      });
+    },
+
+    setTerrainPaintLayer: (layer) => {
+      set({ terrainPaintLayer: layer });
+      const state = get();
+      writeEditorSettings({
+        selectedTool: state.selectedTool,
+        gridVisible: state.gridVisible,
+        snapEnabled: state.snapEnabled,
+        snapSize: state.snapSize,
+        builderModeEnabled: state.builderModeEnabled,
+        builderCurrentType: state.builderCurrentType,
+        builderCurrentColor: state.builderCurrentColor,
+        noUiModeEnabled: state.noUiModeEnabled,
+        placeMultiple: state.placeMultiple,
+        terrainBrushMode: state.terrainBrushMode,
+        terrainBrushSize: state.terrainBrushSize,
+        terrainBrushStrength: state.terrainBrushStrength,
+        terrainBrushColor: state.terrainBrushColor,
+        terrainPaintLayer: state.terrainPaintLayer,
       });
     },
   };
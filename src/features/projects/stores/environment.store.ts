@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import type { EnvironmentSettings } from '@/types/project';
+import { DEFAULT_ENVIRONMENT, ENVIRONMENT_PRESETS, normalizeEnvironment, type PartialEnvironment } from '@/features/environment/environment';
+
+// Sky, fog and lighting saved with the project; Scene3D and the previews
+// re-apply whenever it changes.
+export interface EnvironmentState {
+  environment: EnvironmentSettings;
+
+  setEnvironment: (environment?: EnvironmentSettings | null) => void;
+  updateEnvironment: (patch: PartialEnvironment) => void;
+  applyPreset: (id: string) => void;
+}
+
+export const useEnvironmentStore = create<EnvironmentState>((set, get) => ({
+  environment: DEFAULT_ENVIRONMENT,
+
+  setEnvironment: (environment) => set({ environment: normalizeEnvironment(environment) }),
+
+  updateEnvironment: (patch) => {
+    const current = get().environment;
+    set({
+      environment: normalizeEnvironment({
+        timeOfDay: patch.timeOfDay ?? current.timeOfDay,
+        sky: { ...current.sky, ...patch.sky },
+        sun: { ...current.sun, ...patch.sun },
+        ambient: { ...current.ambient, ...patch.ambient },
+        fog: { ...current.fog, ...patch.fog },
+      }),
+    });
+  },
+
+  applyPreset: (id) => {
+    const preset = ENVIRONMENT_PRESETS.find(p => p.id === id);
+    if (preset) set({ environment: normalizeEnvironment(preset.settings) });
+  },
+}));
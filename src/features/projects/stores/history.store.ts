@@ -1,14 +1,28 @@
 import { create } from 'zustand';
 import type { Block } from '@/types/project';
+import type { TerrainDelta, TerrainDeltaDirection } from '@/features/terrain/terrainDelta';
 
 const MAX_HISTORY = 50;
 
+// Block edits are stored as snapshots; terrain strokes as deltas, which undo
+// and redo both replay from the same entry.
+export type HistoryEntry = Block[] | { terrain: TerrainDelta };
+
+/** What an undo/redo step restores: a block list, or a terrain delta to apply in `direction` */
+export type HistoryStep =
+  | { blocks: Block[] }
+  | { terrain: TerrainDelta; direction: TerrainDeltaDirection };
+
 // History management state and actions
 export interface HistoryState {
-  historyPast: Block[][];
-  historyFuture: Block[][];
+  historyPast: HistoryEntry[];
+  historyFuture: HistoryEntry[];
   
   pushToHistory: (blocks: Block[]) => void;
+  pushTerrainToHistory: (delta: TerrainDelta) => void;
+  undoStep: (currentBlocks: Block[]) => HistoryStep | null;
+  redoStep: (currentBlocks: Block[]) => HistoryStep | null;
+  /** Block-only shorthand for undoStep; terrain steps yield null */
   undo: (currentBlocks: Block[]) => Block[] | null;
   redo: (currentBlocks: Block[]) => Block[] | null;
   clearHistory: () => void;
@@ -49,42 +63,66 @@ export const useHistoryStore = create<HistoryState>((set, get) => ({
     }));
   },
 
-  undo: (currentBlocks) => {
+  pushTerrainToHistory: (delta) => {
+    set((state) => ({
+      historyPast: (() => {
+        const next = [...state.historyPast, { terrain: delta }];
+        return next.length > MAX_HISTORY ? next.slice(-MAX_HISTORY) : next;
+      })(),
+      historyFuture: [],
+    }));
+  },
+
+  undoStep: (currentBlocks) => {
     const state = get();
     if (state.historyPast.length === 0) return null;
     
     const previous = state.historyPast[state.historyPast.length - 1];
     const newPast = state.historyPast.slice(0, -1);
-    const current = snapshotBlocks(currentBlocks);
+    const redoEntry = Array.isArray(previous) ? snapshotBlocks(currentBlocks) : previous;
     
     set({
       historyPast: newPast,
       historyFuture: (() => {
-        const h = [...state.historyFuture, current];
+        const h = [...state.historyFuture, redoEntry];
         return h.length > MAX_HISTORY ? h.slice(-MAX_HISTORY) : h;
       })(),
     });
     
-    return snapshotBlocks(previous);
+    return Array.isArray(previous)
+      ? { blocks: snapshotBlocks(previous) }
+      : { terrain: previous.terrain, direction: 'undo' };
   },
 
-  redo: (currentBlocks) => {
+  redoStep: (currentBlocks) => {
     const state = get();
     if (state.historyFuture.length === 0) return null;
     
     const next = state.historyFuture[state.historyFuture.length - 1];
     const newFuture = state.historyFuture.slice(0, -1);
-    const current = snapshotBlocks(currentBlocks);
+    const undoEntry = Array.isArray(next) ? snapshotBlocks(currentBlocks) : next;
     
     set({
       historyPast: (() => {
-        const h = [...state.historyPast, current];
+        const h = [...state.historyPast, undoEntry];
         return h.length > MAX_HISTORY ? h.slice(-MAX_HISTORY) : h;
       })(),
       historyFuture: newFuture,
     });
     
-    return snapshotBlocks(next);
+    return Array.isArray(next)
+      ? { blocks: snapshotBlocks(next) }
+      : { terrain: next.terrain, direction: 'redo' };
+  },
+
+  undo: (currentBlocks) => {
+    const step = get().undoStep(currentBlocks);
+    return step && 'blocks' in step ? step.blocks : null;
+  },
+
+  redo: (currentBlocks) => {
+    const step = get().redoStep(currentBlocks);
+    return step && 'blocks' in step ? step.blocks : null;
   },
 
   clearHistory: () => {
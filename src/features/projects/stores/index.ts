@@ -2,12 +2,18 @@
 // This provides a unified API while keeping the implementation modular
 
 import { useBlocksStore } from './blocks.store';
-import { useHistoryStore } from './history.store';
+import { useHistoryStore, type HistoryEntry, type HistoryStep } from './history.store';
 import { useInventoryStore } from './inventory.store';
 import { useEditorSettingsStore } from './editor-settings.store';
 import { useProjectStore as useProjectStoreBase } from './project.store';
+import { useLogicStore } from './logic.store';
+import { useAnimationStore } from './animation.store';
+import { useSelectionSetsStore } from './selection.store';
+import { usePrefabStore } from './prefab.store';
+import { useEnvironmentStore } from './environment.store';
 
 import type { Block, BlockType, ProjectData, TerrainData } from '@/types/project';
+import type { TerrainBrushMode } from '@/types/editor';
 import type { EditorMode } from '@/types/editor';
 
 // Combined interface for backward compatibility
@@ -27,6 +33,8 @@ export interface CompositeProjectState {
   currentProject: ProjectData | null;
   savedProjects: Record<string, ProjectData>;
   terrainSnapshot?: TerrainData | null;
+  gameMode?: 'PARKOUR' | 'PVP' | 'RACE' | 'SANDBOX';
+  gameModeConfig?: string | null;
   
   // From InventoryStore
   inventorySlots: Array<{ type: BlockType; color?: number } | null>;
@@ -42,14 +50,15 @@ export interface CompositeProjectState {
   builderCurrentType: BlockType;
   builderCurrentColor: number;
   noUiModeEnabled: boolean;
-  terrainBrushMode: 'raise' | 'lower' | 'smooth' | 'paint';
+  terrainBrushMode: TerrainBrushMode;
   terrainBrushSize: number;
   terrainBrushStrength: number;
   terrainBrushColor: number;
+  terrainPaintLayer: number;
   
   // From HistoryStore
-  historyPast: Block[][];
-  historyFuture: Block[][];
+  historyPast: HistoryEntry[];
+  historyFuture: HistoryEntry[];
   
   // Combined actions
   setDroppedBlock: (payload: { type: BlockType } | null) => void;
@@ -61,6 +70,8 @@ export interface CompositeProjectState {
   setSelectedBlockId: (id: string | null) => void;
   setSelectedBlockIds: (ids: string[]) => void;
   setEditorMode: (mode: EditorMode) => void;
+  setGameMode: (mode: 'PARKOUR' | 'PVP' | 'RACE' | 'SANDBOX') => void;
+  setGameModeConfig: (config: string | null) => void;
   
   // Inventory actions
   setInventorySlot: (index: number, item: { type: BlockType; color?: number } | null) => void;
@@ -100,10 +111,11 @@ export interface CompositeProjectState {
   setNoUiModeEnabled: (enabled: boolean) => void;
   
   // Terrain brush actions
-  setTerrainBrushMode: (mode: 'raise' | 'lower' | 'smooth' | 'paint') => void;
+  setTerrainBrushMode: (mode: TerrainBrushMode) => void;
   setTerrainBrushSize: (size: number) => void;
   setTerrainBrushStrength: (strength: number) => void;
   setTerrainBrushColor: (color: number) => void;
+  setTerrainPaintLayer: (layer: number) => void;
   
   // Project actions
   loadCurrentProject: () => boolean;
@@ -164,22 +176,27 @@ export const useProjectStore = (): CompositeProjectState => {
     projectStore.terrainSnapshot = null;
   };
   
-  const undo = () => {
-    const previousBlocks = historyStore.undo(blocksStore.blocks);
-    if (previousBlocks) {
-      blocksStore.setBlocks(previousBlocks);
-      projectStore.setHasUnsavedChanges(previousBlocks.length > 0);
-      scheduleAutoSave();
+  // Terrain steps replay a stroke delta on the ground; block steps restore a snapshot
+  const applyHistoryStep = (step: HistoryStep | null) => {
+    if (!step) return;
+    if ('terrain' in step) {
+      projectStore.applyTerrainDeltaToScene(step.terrain, step.direction);
+      projectStore.setHasUnsavedChanges(true);
+    } else {
+      blocksStore.setBlocks(step.blocks);
+      projectStore.setHasUnsavedChanges(step.blocks.length > 0);
     }
+    scheduleAutoSave();
+  };
+  
+  const undo = () => {
+    projectStore.finishTerrainStroke();
+    applyHistoryStep(historyStore.undoStep(blocksStore.blocks));
   };
   
   const redo = () => {
-    const nextBlocks = historyStore.redo(blocksStore.blocks);
-    if (nextBlocks) {
-      blocksStore.setBlocks(nextBlocks);
-      projectStore.setHasUnsavedChanges(nextBlocks.length > 0);
-      scheduleAutoSave();
-    }
+    projectStore.finishTerrainStroke();
+    applyHistoryStep(historyStore.redoStep(blocksStore.blocks));
   };
   
   // Enhanced block manipulation actions
@@ -306,4 +323,4 @@ export const useProjectStore = (): CompositeProjectState => {
 };
 
 // Export individual stores for fine-grained access when needed
-export { useBlocksStore, useHistoryStore, useInventoryStore, useEditorSettingsStore, useProjectStoreBase };
+export { useBlocksStore, useHistoryStore, useInventoryStore, useEditorSettingsStore, useProjectStoreBase, useLogicStore, useAnimationStore, useSelectionSetsStore, usePrefabStore, useEnvironmentStore };
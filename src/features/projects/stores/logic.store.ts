@@ -0,0 +1,111 @@
+import { create } from 'zustand';
+import type { LogicAction, LogicActionType, LogicTrigger, LogicTriggerType } from '@/types/project';
+
+// Level logic (triggers + actions) state and actions
+export interface LogicState {
+  triggers: LogicTrigger[];
+
+  setTriggers: (triggers: LogicTrigger[]) => void;
+  addTrigger: (type: LogicTriggerType, blockId?: string) => LogicTrigger;
+  updateTrigger: (id: string, updates: Partial<Omit<LogicTrigger, 'id' | 'actions'>>) => void;
+  removeTrigger: (id: string) => void;
+
+  addAction: (triggerId: string, type: LogicActionType) => LogicAction | null;
+  updateAction: (triggerId: string, actionId: string, updates: Partial<Omit<LogicAction, 'id'>>) => void;
+  removeAction: (triggerId: string, actionId: string) => void;
+
+  getTriggersForBlock: (blockId: string) => LogicTrigger[];
+}
+
+function makeId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function defaultAction(type: LogicActionType): LogicAction {
+  const base: LogicAction = { id: makeId('act'), type };
+  switch (type) {
+    case 'move_block':
+      return { ...base, offset: { x: 0, y: 2, z: 0 }, duration: 1 };
+    case 'rotate_block':
+      return { ...base, rotation: { x: 0, y: 90, z: 0 }, duration: 1 };
+    case 'teleport_player':
+      return { ...base, position: { x: 0, y: 5, z: 0 } };
+    case 'play_effect':
+      return { ...base, effect: 'sparkle' };
+    case 'end_round':
+      return { ...base, outcome: 'win' };
+    default:
+      return base;
+  }
+}
+
+function snapshotTriggers(triggers: LogicTrigger[]): LogicTrigger[] {
+  return (triggers || [])
+    .filter(t => t && typeof t.id === 'string')
+    .map(t => ({
+      ...t,
+      volume: t.volume ? { offset: { ...t.volume.offset }, size: { ...t.volume.size } } : undefined,
+      actions: (t.actions || []).map(a => ({ ...a })),
+    }));
+}
+
+export const useLogicStore = create<LogicState>((set, get) => ({
+  triggers: [],
+
+  setTriggers: (triggers) => set({ triggers: snapshotTriggers(triggers) }),
+
+  addTrigger: (type, blockId) => {
+    const trigger: LogicTrigger = {
+      id: makeId('trg'),
+      type,
+      blockId,
+      // Default volume covers the anchor block and the space a player occupies above it
+      volume: type === 'timer' ? undefined : { offset: { x: 0, y: 1, z: 0 }, size: { x: 1.2, y: 3, z: 1.2 } },
+      interval: type === 'timer' ? 5 : undefined,
+      once: type === 'collect',
+      enabled: true,
+      actions: [],
+    };
+    set((state) => ({ triggers: [...state.triggers, trigger] }));
+    return trigger;
+  },
+
+  updateTrigger: (id, updates) => {
+    set((state) => ({
+      triggers: state.triggers.map(t => t.id === id ? { ...t, ...updates } : t),
+    }));
+  },
+
+  removeTrigger: (id) => {
+    set((state) => ({ triggers: state.triggers.filter(t => t.id !== id) }));
+  },
+
+  addAction: (triggerId, type) => {
+    if (!get().triggers.some(t => t.id === triggerId)) return null;
+    const action = defaultAction(type);
+    set((state) => ({
+      triggers: state.triggers.map(t => t.id === triggerId ? { ...t, actions: [...t.actions, action] } : t),
+    }));
+    return action;
+  },
+
+  updateAction: (triggerId, actionId, updates) => {
+    set((state) => ({
+      triggers: state.triggers.map(t => t.id !== triggerId ? t : {
+        ...t,
+        actions: t.actions.map(a => a.id === actionId ? { ...a, ...updates } : a),
+      }),
+    }));
+  },
+
+  removeAction: (triggerId, actionId) => {
+    set((state) => ({
+      triggers: state.triggers.map(t => t.id !== triggerId ? t : {
+        ...t,
+        actions: t.actions.filter(a => a.id !== actionId),
+      }),
+    }));
+  },
+
+  getTriggersForBlock: (blockId) => get().triggers.filter(t => t.blockId === blockId),
+}));
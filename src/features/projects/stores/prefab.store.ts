@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import type { Prefab } from '@/types/project';
+
+// Prefab library saved with the project. Instances are blocks in the project
+// store; features/prefabs/prefabActions keeps the two in step.
+export interface PrefabState {
+  prefabs: Prefab[];
+
+  setPrefabs: (prefabs: Prefab[]) => void;
+  upsertPrefab: (prefab: Prefab) => void;
+  renamePrefab: (id: string, name: string) => void;
+  removePrefab: (id: string) => void;
+}
+
+function snapshotPrefabs(prefabs: Prefab[]): Prefab[] {
+  return (prefabs || [])
+    .filter(p => p && typeof p.id === 'string' && Array.isArray(p.blocks))
+    .map(p => ({ id: p.id, name: p.name, blocks: p.blocks.map(b => ({ ...b, position: { ...b.position } })) }));
+}
+
+export const usePrefabStore = create<PrefabState>((set) => ({
+  prefabs: [],
+
+  setPrefabs: (prefabs) => set({ prefabs: snapshotPrefabs(prefabs) }),
+
+  upsertPrefab: (prefab) => {
+    set((state) => ({
+      prefabs: state.prefabs.some(p => p.id === prefab.id)
+        ? state.prefabs.map(p => p.id === prefab.id ? prefab : p)
+        : [...state.prefabs, prefab],
+    }));
+  },
+
+  renamePrefab: (id, name) => set((state) => ({ prefabs: state.prefabs.map(p => p.id === id ? { ...p, name } : p) })),
+
+  removePrefab: (id) => set((state) => ({ prefabs: state.prefabs.filter(p => p.id !== id) })),
+}));
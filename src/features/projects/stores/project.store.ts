@@ -2,9 +2,24 @@ import { create } from 'zustand';
 import { apiFetch } from '@/shared/api/client';
 import type { Block, ProjectData, TerrainData } from '@/types/project';
 import type { EditorMode } from '@/types/editor';
+import type { TerrainDelta, TerrainDeltaDirection } from '@/features/terrain/terrainDelta';
+import { useLogicStore } from './logic.store';
+import { useAnimationStore } from './animation.store';
+import { useSelectionSetsStore } from './selection.store';
+import { usePrefabStore } from './prefab.store';
+import { useEnvironmentStore } from './environment.store';
+import { CURRENT_PROJECT_VERSION, migrateProject, migrateSavedProjects, normalizeBlocks } from '../projectFormat';
 
 type SaveResult = { savedTo: 'cloud' | 'local'; project: ProjectData };
 
+// Terrain history entry points registered on window.scene3D by the Babylon scene
+type TerrainHistoryBridge = {
+  finishTerrainStroke?: () => void;
+  applyTerrainDelta?: (delta: TerrainDelta, direction: TerrainDeltaDirection, options?: { rebase?: boolean }) => TerrainDelta | null;
+};
+const terrainBridge = () =>
+  typeof window !== 'undefined' ? (window as unknown as { scene3D?: TerrainHistoryBridge }).scene3D : undefined;
+
 // Project management state and actions
 export interface ProjectState {
   // Project metadata
@@ -45,6 +60,9 @@ export interface ProjectState {
   // Terrain persistence
   captureTerrainFromScene: () => void;
   applyTerrainToScene: (terrain: TerrainData) => void;
+  // Terrain undo: strokes still being drawn are recorded first
+  finishTerrainStroke: () => void;
+  applyTerrainDeltaToScene: (delta: TerrainDelta, direction: TerrainDeltaDirection, options?: { rebase?: boolean }) => TerrainDelta | null;
 }
 
 // Auto-save functionality
@@ -71,10 +89,15 @@ function scheduleAutoSave(projectName: string, blocks: Block[], captureTerrainFn
       const autoSaveData: ProjectData = {
         id: undefined,
         name: `${projectName} (Auto-save)`,
-        blocks: blocks,
+        blocks: normalizeBlocks(blocks),
         timestamp: new Date().toISOString(),
-        version: '1.2.0',
+        version: CURRENT_PROJECT_VERSION,
         terrain: undefined, // Will be set by captureTerrainFn if available
+        logic: useLogicStore.getState().triggers,
+        animations: useAnimationStore.getState().clips,
+        selectionSets: useSelectionSetsStore.getState().sets,
+        prefabs: usePrefabStore.getState().prefabs,
+        environment: useEnvironmentStore.getState().environment,
       };
       
       try {
@@ -98,7 +121,7 @@ function scheduleAutoSave(projectName: string, blocks: Block[], captureTerrainFn
 // Persistence helpers
 function readSavedProjects(): Record<string, ProjectData> {
   try {
-    return JSON.parse(localStorage.getItem('sandbox-projects') || '{}') || {};
+    return migrateSavedProjects(JSON.parse(localStorage.getItem('sandbox-projects') || '{}') || {});
   } catch {
     return {};
   }
@@ -165,7 +188,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       const saved = localStorage.getItem('sandbox-current-project');
       if (!saved) return false;
       
-      const project: any = JSON.parse(saved);
+      const project: any = migrateProject(JSON.parse(saved));
       const email = localStorage.getItem('auth-email') || undefined;
       if (project?.ownerEmail && email && project.ownerEmail !== email) return false;
       
@@ -181,6 +204,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       try { 
         get().applyTerrainToScene?.(project.terrain as any); 
       } catch {}
+      useLogicStore.getState().setTriggers(project.logic || []);
+      useAnimationStore.getState().setClips(project.animations || []);
+      useSelectionSetsStore.getState().setSets(project.selectionSets || []);
+      usePrefabStore.getState().setPrefabs(project.prefabs || []);
+      useEnvironmentStore.getState().setEnvironment(project.environment);
       
       return true;
     } catch {
@@ -190,8 +218,13 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   loadProject: (name) => {
     const saved = get().savedProjects;
-    const project = saved[name];
-    if (!project) return false;
+    if (!saved[name]) return false;
+    let project: ProjectData;
+    try {
+      project = migrateProject(saved[name]);
+    } catch {
+      return false;
+    }
     
     try {
       const ownerEmail = localStorage.getItem('auth-email') || undefined;
@@ -211,6 +244,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     try { 
       get().applyTerrainToScene?.(project.terrain as any); 
     } catch {}
+    useLogicStore.getState().setTriggers(project.logic || []);
+    useAnimationStore.getState().setClips(project.animations || []);
+    useSelectionSetsStore.getState().setSets(project.selectionSets || []);
+    usePrefabStore.getState().setPrefabs(project.prefabs || []);
+    useEnvironmentStore.getState().setEnvironment(project.environment);
     
     return true;
   },
@@ -253,6 +291,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       hasUnsavedChanges: false,
       terrainSnapshot: null,
     });
+    useLogicStore.getState().setTriggers([]);
+    useAnimationStore.getState().setClips([]);
+    useSelectionSetsStore.getState().setSets([]);
+    usePrefabStore.getState().setPrefabs([]);
+    useEnvironmentStore.getState().setEnvironment(null);
   },
 
   deleteSavedProject: (name) => {
@@ -272,7 +315,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     const project: ProjectData = {
       id: state.currentProject?.id,
       name: state.projectName,
-      blocks: blocks.map(b => ({
+      blocks: normalizeBlocks(blocks.map(b => ({
         id: b.id,
         type: b.type,
         position: { ...b.position },
@@ -285,12 +328,19 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         rotationX: (b as any).rotationX,
         rotationZ: (b as any).rotationZ,
         scale: (b as any).scale,
-      })),
+        mechanic: b.mechanic,
+        mechanicPower: b.mechanicPower,
+      }))),
       timestamp: new Date().toISOString(),
-      version: '1.2.0',
+      version: CURRENT_PROJECT_VERSION,
       terrain: state.terrainSnapshot || undefined,
       mode: state.gameMode || 'PARKOUR',
       modeConfig: state.gameModeConfig || null,
+      logic: useLogicStore.getState().triggers,
+      animations: useAnimationStore.getState().clips,
+      selectionSets: useSelectionSetsStore.getState().sets,
+      prefabs: usePrefabStore.getState().prefabs,
+      environment: useEnvironmentStore.getState().environment,
     };
     
     const saved = { ...state.savedProjects, [project.name]: project };
@@ -319,7 +369,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     
     const baseBody = {
       name: state.projectName,
-      blocks: blocks.map(b => ({
+      blocks: normalizeBlocks(blocks.map(b => ({
         id: b.id,
         type: b.type,
         position: { ...b.position },
@@ -332,10 +382,17 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         rotationX: (b as any).rotationX,
         rotationZ: (b as any).rotationZ,
         scale: (b as any).scale,
-      })),
+        mechanic: b.mechanic,
+        mechanicPower: b.mechanicPower,
+      }))),
       terrain: state.terrainSnapshot || undefined,
       mode: state.gameMode || 'PARKOUR',
       modeConfig: state.gameModeConfig || undefined,
+      logic: useLogicStore.getState().triggers,
+      animations: useAnimationStore.getState().clips,
+      selectionSets: useSelectionSetsStore.getState().sets,
+      prefabs: usePrefabStore.getState().prefabs,
+      environment: useEnvironmentStore.getState().environment,
     };
     
     try {
@@ -369,10 +426,15 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       const updated: ProjectData = {
         id: (result as any).game.id,
         name: (result as any).game.name,
-        blocks: blocks,
+        blocks: normalizeBlocks(blocks),
         timestamp: new Date().toISOString(),
-        version: '1.2.0',
+        version: CURRENT_PROJECT_VERSION,
         terrain: state.terrainSnapshot || undefined,
+        logic: baseBody.logic,
+        animations: baseBody.animations,
+        selectionSets: baseBody.selectionSets,
+        prefabs: baseBody.prefabs,
+        environment: baseBody.environment,
       };
       
       const saved = { ...state.savedProjects, [updated.name]: updated };
@@ -448,8 +510,8 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       const auto = localStorage.getItem('sandbox-autosave');
       if (!auto || localStorage.getItem('sandbox-current-project')) return null;
       
-      const data: ProjectData = JSON.parse(auto);
-      if (!data?.blocks?.length) return null;
+      const data = migrateProject(JSON.parse(auto));
+      if (!data.blocks.length) return null;
       
       set({ 
         projectName: data.name, 
@@ -467,6 +529,11 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       try { 
         get().applyTerrainToScene?.(data.terrain as any); 
       } catch {}
+      useLogicStore.getState().setTriggers(data.logic || []);
+      useAnimationStore.getState().setClips(data.animations || []);
+      useSelectionSetsStore.getState().setSets(data.selectionSets || []);
+      usePrefabStore.getState().setPrefabs(data.prefabs || []);
+      useEnvironmentStore.getState().setEnvironment(data.environment);
       
       return { blocks: data.blocks, project: data };
     } catch {
@@ -477,30 +544,29 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
   // Terrain capture from live scene3D
   captureTerrainFromScene: () => {
     try {
-      const anyWindow: any = typeof window !== 'undefined' ? window : null;
-      const scene3D = anyWindow?.scene3D;
-      const scene = (window as any).BABYLON?.Engine?.LastCreatedScene as any;
-      const ground: any = (scene3D?.getGround?.() || scene?.meshes?.find((m: any) => m?.name === 'ground')) as any;
-      
-      if (!ground) { 
-        set({ terrainSnapshot: null }); 
-        return; 
-      }
-      
-      // This would need to import Babylon and terrain utils
-      // For now, just set null to avoid errors
+      // The Babylon scene registers window.scene3D, which reads the ground mesh
+      const scene3D = typeof window !== 'undefined' ? (window as any).scene3D : null;
+      if (!scene3D?.captureTerrain) return;
+      set({ terrainSnapshot: scene3D.captureTerrain() ?? null });
+    } catch {
       set({ terrainSnapshot: null });
-    } catch {}
+    }
   },
 
   applyTerrainToScene: (terrain) => {
     if (!terrain) return;
     try {
-      // This would need to import Babylon and terrain utils
-      // For now, just no-op to avoid errors
+      const scene3D = typeof window !== 'undefined' ? (window as any).scene3D : null;
+      scene3D?.applyTerrain?.(terrain);
     } catch {}
   },
 
+  finishTerrainStroke: () => {
+    terrainBridge()?.finishTerrainStroke?.();
+  },
+
+  applyTerrainDeltaToScene: (delta, direction, options) => terrainBridge()?.applyTerrainDelta?.(delta, direction, options) ?? null,
+
   // Auto-save scheduler (to be called by external store)
   scheduleAutoSave: (blocks: Block[]) => {
     const state = get();
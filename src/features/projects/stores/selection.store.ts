@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import type { SelectionSet } from '@/types/project';
+
+// Named selection sets saved with the project. Sets keep ids of deleted
+// blocks (undo can bring them back); selecting a set skips missing ones.
+export interface SelectionSetsState {
+  sets: SelectionSet[];
+
+  setSets: (sets: SelectionSet[]) => void;
+  saveSet: (name: string, blockIds: string[]) => SelectionSet;
+  updateSet: (id: string, updates: Partial<Omit<SelectionSet, 'id'>>) => void;
+  removeSet: (id: string) => void;
+}
+
+function makeId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function snapshotSets(sets: SelectionSet[]): SelectionSet[] {
+  return (sets || [])
+    .filter(s => s && typeof s.id === 'string')
+    .map(s => ({ id: s.id, name: s.name, blockIds: Array.from(new Set(s.blockIds || [])) }));
+}
+
+export const useSelectionSetsStore = create<SelectionSetsState>((set, get) => ({
+  sets: [],
+
+  setSets: (sets) => set({ sets: snapshotSets(sets) }),
+
+  saveSet: (name, blockIds) => {
+    const trimmed = name.trim() || `Selection ${get().sets.length + 1}`;
+    // Saving under an existing name overwrites that set
+    const existing = get().sets.find(s => s.name === trimmed);
+    const saved: SelectionSet = { id: existing?.id ?? makeId('sel'), name: trimmed, blockIds: Array.from(new Set(blockIds)) };
+    set((state) => ({
+      sets: existing ? state.sets.map(s => s.id === existing.id ? saved : s) : [...state.sets, saved],
+    }));
+    return saved;
+  },
+
+  updateSet: (id, updates) => {
+    set((state) => ({
+      sets: state.sets.map(s => s.id === id
+        ? { ...s, ...updates, ...(updates.blockIds ? { blockIds: Array.from(new Set(updates.blockIds)) } : {}) }
+        : s),
+    }));
+  },
+
+  removeSet: (id) => set((state) => ({ sets: state.sets.filter(s => s.id !== id) })),
+}));
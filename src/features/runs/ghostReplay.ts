@@ -0,0 +1,69 @@
+// Playback of a stored run track ("ghost") in sync with the run timer.
+
+import type { Pose, RunSample } from './runRecorder';
+import type { PlayerSkinColors, PlayerSkinConfig, PlayerSkinId } from '@/features/player/store';
+
+/** The runner's look, stored with the score; voxel models are not included */
+export interface GhostSkin {
+  skinId: PlayerSkinId;
+  colors?: PlayerSkinColors;
+  config?: Omit<PlayerSkinConfig, 'voxels'>;
+}
+
+export interface GhostRun {
+  scoreId: string;
+  name: string;
+  timeMs: number;
+  samples: RunSample[];
+  skin?: GhostSkin | null;
+}
+
+export type GhostScope = 'best' | 'personal';
+
+function lerpAngle(a: number, b: number, t: number): number {
+  let delta = (b - a) % (Math.PI * 2);
+  if (delta > Math.PI) delta -= Math.PI * 2;
+  if (delta < -Math.PI) delta += Math.PI * 2;
+  return a + delta * t;
+}
+
+export class GhostReplay {
+  private cursor = 0;
+
+  constructor(private samples: RunSample[]) {}
+
+  get durationMs(): number {
+    return this.samples.length > 0 ? this.samples[this.samples.length - 1][0] : 0;
+  }
+
+  /** Interpolated pose `tMs` after the start; holds the first/last pose outside the track. */
+  poseAt(tMs: number): Pose | null {
+    const samples = this.samples;
+    if (samples.length === 0) return null;
+    if (tMs <= samples[0][0]) return this.pose(samples[0]);
+    const last = samples[samples.length - 1];
+    if (tMs >= last[0]) return this.pose(last);
+
+    // Playback is usually monotonic, so continue from the previous segment
+    if (this.cursor >= samples.length - 1 || samples[this.cursor][0] > tMs) this.cursor = 0;
+    while (this.cursor < samples.length - 2 && samples[this.cursor + 1][0] <= tMs) this.cursor++;
+
+    const a = samples[this.cursor];
+    const b = samples[this.cursor + 1];
+    const t = (tMs - a[0]) / (b[0] - a[0]);
+    const pose: Pose = {
+      x: a[1] + (b[1] - a[1]) * t,
+      y: a[2] + (b[2] - a[2]) * t,
+      z: a[3] + (b[3] - a[3]) * t,
+    };
+    if (a[4] !== undefined && b[4] !== undefined) pose.yaw = lerpAngle(a[4], b[4], t);
+    else if (a[4] !== undefined) pose.yaw = a[4];
+    return pose;
+  }
+
+  private pose(sample: RunSample): Pose {
+    const pose: Pose = { x: sample[1], y: sample[2], z: sample[3] };
+    if (sample[4] !== undefined) pose.yaw = sample[4];
+    return pose;
+  }
+}
@@ -0,0 +1,104 @@
+// Compact record of a timed run, uploaded with leaderboard scores so the
+// server can replay it against the level (see server/services/runValidation.js).
+
+export type Vec3 = { x: number; y: number; z: number };
+/** Player position with optional facing (radians around +Y) */
+export type Pose = Vec3 & { yaw?: number };
+export type RunPoint = Vec3 & { tMs: number };
+/** [tMs, x, y, z] or [tMs, x, y, z, yaw]; the track doubles as the ghost replay */
+export type RunSample = [number, number, number, number] | [number, number, number, number, number];
+
+export interface RunRecord {
+  version: 1;
+  durationMs: number;
+  /** tMs relative to the start */
+  samples: RunSample[];
+  checkpoints: RunPoint[];
+  finish: RunPoint;
+}
+
+/** Default spacing between position samples; the server allows gaps up to 1s. */
+export const RUN_SAMPLE_INTERVAL_MS = 100;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export class RunRecorder {
+  private startedAt: number | null = null;
+  private samples: RunRecord['samples'] = [];
+  private checkpoints: RunPoint[] = [];
+  private record: RunRecord | null = null;
+
+  constructor(private intervalMs = RUN_SAMPLE_INTERVAL_MS) {}
+
+  /** Begin a new run at the start block; discards any previous run. */
+  start(now: number, position: Pose): void {
+    this.startedAt = now;
+    this.samples = [];
+    this.checkpoints = [];
+    this.record = null;
+    this.push(0, position);
+  }
+
+  /** Record the player position if at least one interval passed since the last sample. */
+  sample(now: number, position: Pose): void {
+    if (this.startedAt === null || this.record) return;
+    const tMs = now - this.startedAt;
+    const last = this.samples[this.samples.length - 1];
+    if (last && tMs - last[0] < this.intervalMs) return;
+    this.push(tMs, position);
+  }
+
+  checkpoint(now: number, position: Pose): void {
+    if (this.startedAt === null || this.record) return;
+    const tMs = now - this.startedAt;
+    this.push(tMs, position);
+    this.checkpoints.push(this.point(tMs, position));
+  }
+
+  /** Close the run and return its record, or null if no run is in progress. */
+  finish(now: number, position: Pose): RunRecord | null {
+    if (this.startedAt === null) return null;
+    if (this.record) return this.record;
+    const tMs = now - this.startedAt;
+    this.push(tMs, position);
+    const durationMs = Math.round(tMs);
+    this.record = {
+      version: 1,
+      durationMs,
+      samples: this.samples,
+      checkpoints: this.checkpoints,
+      finish: this.point(tMs, position),
+    };
+    return this.record;
+  }
+
+  /** The finished run, if any. */
+  get result(): RunRecord | null {
+    return this.record;
+  }
+
+  get recording(): boolean {
+    return this.startedAt !== null && !this.record;
+  }
+
+  reset(): void {
+    this.startedAt = null;
+    this.samples = [];
+    this.checkpoints = [];
+    this.record = null;
+  }
+
+  private push(tMs: number, position: Pose): void {
+    const t = Math.round(tMs);
+    const last = this.samples[this.samples.length - 1];
+    // Samples must be strictly increasing in time
+    if (last && t <= last[0]) return;
+    const sample: RunSample = [t, round(position.x), round(position.y), round(position.z)];
+    if (typeof position.yaw === 'number' && Number.isFinite(position.yaw)) sample.push(Math.round(position.yaw * 1000) / 1000);
+    this.samples.push(sample);
+  }
+
+  private point(tMs: number, position: Pose): RunPoint {
+    return { tMs: Math.round(tMs), x: round(position.x), y: round(position.y), z: round(position.z) };
+  }
+}
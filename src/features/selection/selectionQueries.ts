@@ -0,0 +1,196 @@
+// Editor selection queries: screen-space marquee, world-space volume,
+// attribute filters and set operations. Engine-free; the editor supplies a
+// projector for screen queries and the spatial index for volume queries.
+
+import type { Block, BlockType, MechanicType } from '@/types/project';
+import type { SelectionBox } from '@/types/editor';
+import { blockBounds } from '@/features/spatial/blockBounds';
+import type { Bounds, SpatialIndex, Vec3Like } from '@/features/spatial/spatialIndex';
+
+/** 'touch' takes anything the area reaches, 'contain' only what lies fully inside. */
+export type SelectionMode = 'touch' | 'contain';
+
+export type SelectionOp = 'replace' | 'add' | 'subtract';
+
+export interface ScreenRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/** World point to screen pixels, or null when it is behind the camera. */
+export type ScreenProjector = (point: Vec3Like) => { x: number; y: number } | null;
+
+/** Screen pixel to the world point it shows on the camera's near or far plane. */
+export type ScreenUnprojector = (point: { x: number; y: number }, depth: 'near' | 'far') => Vec3Like;
+
+/** Each listed attribute narrows the match; omitted ones match every block. */
+export interface SelectionFilter {
+  types?: BlockType[];
+  colors?: number[];
+  groups?: string[]; // '' matches ungrouped blocks
+  mechanics?: MechanicType[]; // 'none' matches blocks without a mechanic
+  includeHidden?: boolean;
+}
+
+export function matchesFilter(block: Block, filter: SelectionFilter = {}): boolean {
+  if (block.hidden && !filter.includeHidden) return false;
+  if (filter.types?.length && !filter.types.includes(block.type)) return false;
+  if (filter.colors?.length && (typeof block.color !== 'number' || !filter.colors.includes(block.color))) return false;
+  if (filter.groups?.length && !filter.groups.includes(block.group || '')) return false;
+  if (filter.mechanics?.length && !filter.mechanics.includes(block.mechanic || 'none')) return false;
+  return true;
+}
+
+export function selectByFilter(blocks: Block[], filter: SelectionFilter): string[] {
+  return blocks.filter(block => matchesFilter(block, filter)).map(block => block.id);
+}
+
+/** Every selectable block that is not currently selected. */
+export function invertSelection(blocks: Block[], selectedIds: string[], filter?: SelectionFilter): string[] {
+  const selected = new Set(selectedIds);
+  return blocks.filter(block => !selected.has(block.id) && matchesFilter(block, filter)).map(block => block.id);
+}
+
+export function combineSelection(current: string[], ids: string[], op: SelectionOp): string[] {
+  if (op === 'replace') return Array.from(new Set(ids));
+  if (op === 'add') return Array.from(new Set([...current, ...ids]));
+  const removed = new Set(ids);
+  return current.filter(id => !removed.has(id));
+}
+
+/** Normalise a drag from any corner to any corner. */
+export function screenRectFromPoints(a: { x: number; y: number }, b: { x: number; y: number }): ScreenRect {
+  return { left: Math.min(a.x, b.x), top: Math.min(a.y, b.y), right: Math.max(a.x, b.x), bottom: Math.max(a.y, b.y) };
+}
+
+function boundsCorners(b: Bounds): Vec3Like[] {
+  const corners: Vec3Like[] = [];
+  for (const x of [b.min.x, b.max.x]) {
+    for (const y of [b.min.y, b.max.y]) {
+      for (const z of [b.min.z, b.max.z]) corners.push({ x, y, z });
+    }
+  }
+  return corners;
+}
+
+/**
+ * Blocks whose projected bounds fall in a screen rectangle. A block with any
+ * corner behind the camera is only taken in 'touch' mode, by its visible corners.
+ */
+export function blocksInScreenRect(
+  blocks: Block[],
+  rect: ScreenRect,
+  project: ScreenProjector,
+  mode: SelectionMode = 'touch',
+  filter?: SelectionFilter,
+): string[] {
+  const ids: string[] = [];
+  for (const block of blocks) {
+    if (!matchesFilter(block, filter)) continue;
+    let left = Infinity;
+    let top = Infinity;
+    let right = -Infinity;
+    let bottom = -Infinity;
+    let clipped = false;
+    for (const corner of boundsCorners(blockBounds(block))) {
+      const p = project(corner);
+      if (!p) {
+        clipped = true;
+        continue;
+      }
+      left = Math.min(left, p.x);
+      right = Math.max(right, p.x);
+      top = Math.min(top, p.y);
+      bottom = Math.max(bottom, p.y);
+    }
+    if (left === Infinity) continue;
+    const inside = mode === 'contain'
+      ? !clipped && left >= rect.left && right <= rect.right && top >= rect.top && bottom <= rect.bottom
+      : left <= rect.right && right >= rect.left && top <= rect.bottom && bottom >= rect.top;
+    if (inside) ids.push(block.id);
+  }
+  return ids;
+}
+
+/**
+ * World box around the part of the view a screen rectangle covers, from the
+ * near to the far plane. Only blocks in it can project into the rectangle.
+ */
+export function screenRectVolume(rect: ScreenRect, unproject: ScreenUnprojector): Bounds {
+  return screenRectSlices(rect, unproject, 1)[0];
+}
+
+/**
+ * The same view volume cut into `count` slices along the view, each with its
+ * own box. Under a perspective camera the boxes hug the view pyramid, where a
+ * single box around it reaches across most of the level.
+ */
+export function screenRectSlices(rect: ScreenRect, unproject: ScreenUnprojector, count: number): Bounds[] {
+  const rays: { near: Vec3Like; far: Vec3Like }[] = [];
+  for (const x of [rect.left, rect.right]) {
+    for (const y of [rect.top, rect.bottom]) {
+      rays.push({ near: unproject({ x, y }, 'near'), far: unproject({ x, y }, 'far') });
+    }
+  }
+  const slices: Bounds[] = [];
+  for (let s = 0; s < count; s++) {
+    const min = { x: Infinity, y: Infinity, z: Infinity };
+    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+    for (const t of [s / count, (s + 1) / count]) {
+      for (const { near, far } of rays) {
+        const p = { x: near.x + (far.x - near.x) * t, y: near.y + (far.y - near.y) * t, z: near.z + (far.z - near.z) * t };
+        min.x = Math.min(min.x, p.x); min.y = Math.min(min.y, p.y); min.z = Math.min(min.z, p.z);
+        max.x = Math.max(max.x, p.x); max.y = Math.max(max.y, p.y); max.z = Math.max(max.z, p.z);
+      }
+    }
+    slices.push({ min, max });
+  }
+  return slices;
+}
+
+/** Blocks that may project into a screen rectangle, found slice by slice through the spatial index. */
+export function screenRectCandidates(index: SpatialIndex<Block>, rect: ScreenRect, unproject: ScreenUnprojector, slices = 32): Block[] {
+  const candidates = new Set<Block>();
+  for (const slice of screenRectSlices(rect, unproject, slices)) {
+    for (const block of index.queryBox(slice.min, slice.max)) candidates.add(block);
+  }
+  return [...candidates];
+}
+
+/** Blocks inside a world-space box (any two opposite corners), found through the spatial index. */
+export function blocksInVolume(
+  index: SpatialIndex<Block>,
+  { start, end }: SelectionBox,
+  mode: SelectionMode = 'touch',
+  filter?: SelectionFilter,
+): string[] {
+  const lo = { x: Math.min(start.x, end.x), y: Math.min(start.y, end.y), z: Math.min(start.z, end.z) };
+  const hi = { x: Math.max(start.x, end.x), y: Math.max(start.y, end.y), z: Math.max(start.z, end.z) };
+  return index
+    .queryBox(lo, hi, (block, id) => {
+      if (!matchesFilter(block, filter)) return false;
+      if (mode === 'touch') return true;
+      const b = index.getBounds(id)!;
+      return b.min.x >= lo.x && b.min.y >= lo.y && b.min.z >= lo.z && b.max.x <= hi.x && b.max.y <= hi.y && b.max.z <= hi.z;
+    })
+    .map(block => block.id);
+}
+
+/** World box around the given blocks, or null when none of them exist. */
+export function selectionBounds(blocks: Block[], ids: string[]): Bounds | null {
+  const wanted = new Set(ids);
+  let result: Bounds | null = null;
+  for (const block of blocks) {
+    if (!wanted.has(block.id)) continue;
+    const b = blockBounds(block);
+    result = result
+      ? {
+        min: { x: Math.min(result.min.x, b.min.x), y: Math.min(result.min.y, b.min.y), z: Math.min(result.min.z, b.min.z) },
+        max: { x: Math.max(result.max.x, b.max.x), y: Math.max(result.max.y, b.max.y), z: Math.max(result.max.z, b.max.z) },
+      }
+      : b;
+  }
+  return result;
+}
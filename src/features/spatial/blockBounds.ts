@@ -0,0 +1,50 @@
+import type { Block } from '@/types/project';
+import { getBlockDimensions, type BlockType as DimensionedType } from '@/components/editor-enhanced/scene/physics/blockDimensions';
+import type { Bounds, SpatialIndex } from './spatialIndex';
+
+type PlacedBlock = Pick<Block, 'type' | 'position'> & Partial<Pick<Block, 'rotationX' | 'rotationY' | 'rotationZ'>> & {
+  // Older saves carry per-axis scale objects
+  scale?: number | { x: number; y: number; z: number };
+};
+
+function uniformScale(scale: PlacedBlock['scale']): number {
+  if (typeof scale === 'number' && Number.isFinite(scale)) return scale;
+  if (scale && typeof scale === 'object') return Math.max(scale.x || 1, scale.y || 1, scale.z || 1);
+  return 1;
+}
+
+/**
+ * World-space box around a block. Exact for blocks turned only around Y;
+ * any X/Z tilt falls back to the box around the block's bounding sphere.
+ */
+export function blockBounds(block: PlacedBlock): Bounds {
+  const dims = getBlockDimensions(block.type as DimensionedType, uniformScale(block.scale));
+  let hx = dims.x / 2;
+  let hy = dims.y / 2;
+  let hz = dims.z / 2;
+  if (block.rotationX || block.rotationZ) {
+    const radius = Math.hypot(hx, hy, hz);
+    hx = hy = hz = radius;
+  } else if (block.rotationY) {
+    const a = (block.rotationY * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(a));
+    const sin = Math.abs(Math.sin(a));
+    [hx, hz] = [hx * cos + hz * sin, hx * sin + hz * cos];
+  }
+  const { x, y, z } = block.position;
+  return { min: { x: x - hx, y: y - hy, z: z - hz }, max: { x: x + hx, y: y + hy, z: z + hz } };
+}
+
+/** Bring an index in line with a block list: moves changed blocks, drops removed ones. */
+export function syncBlockIndex(index: SpatialIndex<Block>, blocks: Block[]): void {
+  const ids = new Set<string>();
+  for (const block of blocks) {
+    if (!block.position) continue;
+    ids.add(block.id);
+    index.set(block.id, blockBounds(block), block);
+  }
+  if (ids.size === index.size) return;
+  for (const id of index.ids()) {
+    if (!ids.has(id)) index.remove(id);
+  }
+}
@@ -0,0 +1,312 @@
+// Uniform spatial hash over axis-aligned boxes. Engine-free so the blocks
+// store, the editor and the physics broadphase can share it; entries are
+// registered in every cell their box touches, and very large boxes (terrain
+// pieces, huge scaled blocks) are kept aside and checked on every query.
+
+export interface Vec3Like {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface Bounds {
+  min: Vec3Like;
+  max: Vec3Like;
+}
+
+export interface NearestHit<T> {
+  id: string;
+  value: T;
+  /** Distance from the query point to the entry's box (0 when inside) */
+  distance: number;
+}
+
+export interface RayHit<T> {
+  id: string;
+  value: T;
+  /** Distance along the (normalised) ray to where it enters the box */
+  distance: number;
+}
+
+interface Entry<T> {
+  id: string;
+  value: T;
+  bounds: Bounds;
+  /** Cell keys the entry is registered in; null for oversized entries */
+  cells: string[] | null;
+}
+
+export const DEFAULT_CELL_SIZE = 4;
+// Boxes touching more cells than this skip the grid
+const MAX_CELLS_PER_ENTRY = 64;
+
+const cellKey = (i: number, j: number, k: number) => `${i},${j},${k}`;
+
+function sameBounds(a: Bounds, b: Bounds): boolean {
+  return a.min.x === b.min.x && a.min.y === b.min.y && a.min.z === b.min.z
+    && a.max.x === b.max.x && a.max.y === b.max.y && a.max.z === b.max.z;
+}
+
+function overlaps(a: Bounds, min: Vec3Like, max: Vec3Like): boolean {
+  return a.min.x <= max.x && a.max.x >= min.x
+    && a.min.y <= max.y && a.max.y >= min.y
+    && a.min.z <= max.z && a.max.z >= min.z;
+}
+
+function distanceToBox(p: Vec3Like, b: Bounds): number {
+  const dx = Math.max(b.min.x - p.x, 0, p.x - b.max.x);
+  const dy = Math.max(b.min.y - p.y, 0, p.y - b.max.y);
+  const dz = Math.max(b.min.z - p.z, 0, p.z - b.max.z);
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+/** Slab test: distance at which the ray enters the box (0 if it starts inside), or null. */
+function rayEnter(origin: Vec3Like, dir: Vec3Like, b: Bounds, maxDistance: number): number | null {
+  let tMin = 0;
+  let tMax = maxDistance;
+  for (const axis of ['x', 'y', 'z'] as const) {
+    const o = origin[axis];
+    const d = dir[axis];
+    if (Math.abs(d) < 1e-12) {
+      if (o < b.min[axis] || o > b.max[axis]) return null;
+      continue;
+    }
+    let t1 = (b.min[axis] - o) / d;
+    let t2 = (b.max[axis] - o) / d;
+    if (t1 > t2) [t1, t2] = [t2, t1];
+    tMin = Math.max(tMin, t1);
+    tMax = Math.min(tMax, t2);
+    if (tMin > tMax) return null;
+  }
+  return tMin;
+}
+
+export class SpatialIndex<T> {
+  private entries = new Map<string, Entry<T>>();
+  private cells = new Map<string, Set<string>>();
+  private oversized = new Set<string>();
+  // Grow-only bounds of every cell ever populated; caps nearest-neighbour search
+  private cellMin: [number, number, number] = [Infinity, Infinity, Infinity];
+  private cellMax: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+
+  constructor(private cellSize = DEFAULT_CELL_SIZE) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  get(id: string): T | undefined {
+    return this.entries.get(id)?.value;
+  }
+
+  ids(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  getBounds(id: string): Bounds | undefined {
+    return this.entries.get(id)?.bounds;
+  }
+
+  /** Insert or move an entry. Re-registering unchanged bounds only swaps the value. */
+  set(id: string, bounds: Bounds, value: T): void {
+    const existing = this.entries.get(id);
+    if (existing && sameBounds(existing.bounds, bounds)) {
+      existing.value = value;
+      return;
+    }
+    if (existing) this.unregister(existing);
+
+    const bounds0 = { min: { ...bounds.min }, max: { ...bounds.max } };
+    const [i0, j0, k0] = this.cellOf(bounds.min);
+    const [i1, j1, k1] = this.cellOf(bounds.max);
+    const count = (i1 - i0 + 1) * (j1 - j0 + 1) * (k1 - k0 + 1);
+    const entry: Entry<T> = { id, value, bounds: bounds0, cells: null };
+    if (count > MAX_CELLS_PER_ENTRY) {
+      this.oversized.add(id);
+    } else {
+      entry.cells = [];
+      this.cellMin = [Math.min(this.cellMin[0], i0), Math.min(this.cellMin[1], j0), Math.min(this.cellMin[2], k0)];
+      this.cellMax = [Math.max(this.cellMax[0], i1), Math.max(this.cellMax[1], j1), Math.max(this.cellMax[2], k1)];
+      for (let i = i0; i <= i1; i++) {
+        for (let j = j0; j <= j1; j++) {
+          for (let k = k0; k <= k1; k++) {
+            const key = cellKey(i, j, k);
+            let cell = this.cells.get(key);
+            if (!cell) {
+              cell = new Set();
+              this.cells.set(key, cell);
+            }
+            cell.add(id);
+            entry.cells.push(key);
+          }
+        }
+      }
+    }
+    this.entries.set(id, entry);
+  }
+
+  remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    this.unregister(entry);
+    this.entries.delete(id);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.cells.clear();
+    this.oversized.clear();
+    this.cellMin = [Infinity, Infinity, Infinity];
+    this.cellMax = [-Infinity, -Infinity, -Infinity];
+  }
+
+  /** Entries whose box overlaps (or touches) the query box. */
+  queryBox(min: Vec3Like, max: Vec3Like, filter?: (value: T, id: string) => boolean): T[] {
+    const result: T[] = [];
+    const seen = new Set<string>();
+    const visit = (id: string) => {
+      if (seen.has(id)) return;
+      seen.add(id);
+      const entry = this.entries.get(id)!;
+      if (overlaps(entry.bounds, min, max) && (!filter || filter(entry.value, id))) result.push(entry.value);
+    };
+
+    // Cells outside every populated one are empty, so the walk stays inside those bounds
+    const lo = this.cellOf(min);
+    const hi = this.cellOf(max);
+    const [i0, j0, k0] = lo.map((c, axis) => Math.max(c, this.cellMin[axis]));
+    const [i1, j1, k1] = hi.map((c, axis) => Math.min(c, this.cellMax[axis]));
+    this.oversized.forEach(visit);
+    if (i0 > i1 || j0 > j1 || k0 > k1) return result;
+    // A query covering more cells than there are entries is cheaper as a scan
+    if ((i1 - i0 + 1) * (j1 - j0 + 1) * (k1 - k0 + 1) > this.entries.size) {
+      this.entries.forEach((_, id) => visit(id));
+      return result;
+    }
+    for (let i = i0; i <= i1; i++) {
+      for (let j = j0; j <= j1; j++) {
+        for (let k = k0; k <= k1; k++) {
+          this.cells.get(cellKey(i, j, k))?.forEach(visit);
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Closest entry to a point within `maxDistance`, searching outward ring by
+   * ring and stopping once no unvisited cell can hold anything closer.
+   */
+  nearest(point: Vec3Like, maxDistance = Infinity, filter?: (value: T, id: string) => boolean): NearestHit<T> | null {
+    let best: NearestHit<T> | null = null;
+    const seen = new Set<string>();
+    const visit = (id: string) => {
+      if (seen.has(id)) return;
+      seen.add(id);
+      const entry = this.entries.get(id)!;
+      if (filter && !filter(entry.value, id)) return;
+      const distance = distanceToBox(point, entry.bounds);
+      if (distance <= maxDistance && (!best || distance < best.distance)) best = { id, value: entry.value, distance };
+    };
+
+    this.oversized.forEach(visit);
+    if (this.cells.size === 0) return best;
+    const [ci, cj, ck] = this.cellOf(point);
+    // Never walk further out than the populated cells reach
+    const reach = Math.max(
+      Math.abs(this.cellMin[0] - ci), Math.abs(this.cellMax[0] - ci),
+      Math.abs(this.cellMin[1] - cj), Math.abs(this.cellMax[1] - cj),
+      Math.abs(this.cellMin[2] - ck), Math.abs(this.cellMax[2] - ck),
+    );
+    const maxRing = Math.min(reach, Math.ceil(maxDistance / this.cellSize) + 1);
+    let visited = 0;
+    for (let r = 0; r <= maxRing; r++) {
+      // Far from the build the shells are mostly empty cells: scan the entries instead
+      visited += r === 0 ? 1 : (2 * r + 1) ** 3 - (2 * r - 1) ** 3;
+      if (visited > this.cells.size * 2) {
+        this.entries.forEach((_, id) => visit(id));
+        break;
+      }
+      for (let i = ci - r; i <= ci + r; i++) {
+        for (let j = cj - r; j <= cj + r; j++) {
+          const onShell = i === ci - r || i === ci + r || j === cj - r || j === cj + r;
+          // Inside the shell only the two k faces are new
+          for (let k = ck - r; k <= ck + r; k += onShell ? 1 : Math.max(1, 2 * r)) {
+            this.cells.get(cellKey(i, j, k))?.forEach(visit);
+          }
+        }
+      }
+      const found = best as NearestHit<T> | null;
+      if (found && found.distance <= r * this.cellSize) break;
+    }
+    return best;
+  }
+
+  /**
+   * First entry hit by a ray. Walks the cells along the ray (3D DDA) and
+   * stops at the first cell whose far side lies beyond the best hit so far.
+   */
+  raycast(origin: Vec3Like, direction: Vec3Like, maxDistance = 1000, filter?: (value: T, id: string) => boolean): RayHit<T> | null {
+    const length = Math.hypot(direction.x, direction.y, direction.z);
+    if (length === 0) return null;
+    const dir = { x: direction.x / length, y: direction.y / length, z: direction.z / length };
+
+    let best: RayHit<T> | null = null;
+    const seen = new Set<string>();
+    const visit = (id: string) => {
+      if (seen.has(id)) return;
+      seen.add(id);
+      const entry = this.entries.get(id)!;
+      if (filter && !filter(entry.value, id)) return;
+      const distance = rayEnter(origin, dir, entry.bounds, maxDistance);
+      if (distance !== null && (!best || distance < best.distance)) best = { id, value: entry.value, distance };
+    };
+
+    this.oversized.forEach(visit);
+    if (this.cells.size === 0) return best;
+
+    const cell = this.cellOf(origin);
+    const axes = ['x', 'y', 'z'] as const;
+    const step = axes.map(a => (dir[a] > 0 ? 1 : dir[a] < 0 ? -1 : 0));
+    const tDelta = axes.map(a => (dir[a] !== 0 ? this.cellSize / Math.abs(dir[a]) : Infinity));
+    const tMax = axes.map((a, n) => {
+      if (dir[a] === 0) return Infinity;
+      const boundary = (cell[n] + (dir[a] > 0 ? 1 : 0)) * this.cellSize;
+      return (boundary - origin[a]) / dir[a];
+    });
+
+    let t = 0;
+    while (t <= maxDistance) {
+      this.cells.get(cellKey(cell[0], cell[1], cell[2]))?.forEach(visit);
+      const axis = tMax[0] < tMax[1] ? (tMax[0] < tMax[2] ? 0 : 2) : (tMax[1] < tMax[2] ? 1 : 2);
+      const exit = tMax[axis];
+      const found = best as RayHit<T> | null;
+      if (found && found.distance <= exit) break;
+      if (!Number.isFinite(exit)) break;
+      cell[axis] += step[axis];
+      t = exit;
+      tMax[axis] += tDelta[axis];
+    }
+    return best;
+  }
+
+  private cellOf(p: Vec3Like): [number, number, number] {
+    return [Math.floor(p.x / this.cellSize), Math.floor(p.y / this.cellSize), Math.floor(p.z / this.cellSize)];
+  }
+
+  private unregister(entry: Entry<T>): void {
+    if (!entry.cells) {
+      this.oversized.delete(entry.id);
+      return;
+    }
+    for (const key of entry.cells) {
+      const cell = this.cells.get(key);
+      cell?.delete(entry.id);
+      if (cell && cell.size === 0) this.cells.delete(key);
+    }
+  }
+}
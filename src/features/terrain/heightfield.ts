@@ -0,0 +1,359 @@
+// Terrain heightfields: seeded procedural generation, thermal erosion, the
+// sculpt brushes and heightmap pixel conversion. Engine-free; grids follow
+// Babylon's CreateGround vertex order (row 0 at +Z, column 0 at -X) so a
+// heightmap image row maps straight onto a ground mesh row.
+
+import type { TerrainBrushMode } from '@/types/editor';
+
+export type TerrainStyle = 'fractal' | 'ridges' | 'islands' | 'plateaus';
+
+export interface TerrainGenOptions {
+  seed: number;
+  style: TerrainStyle;
+  /** World units across one large feature (hill, ridge) */
+  featureSize: number;
+  /** Peak height in world units */
+  height: number;
+  octaves: number;
+  /** Amplitude kept per octave, 0..1; higher is rougher */
+  roughness: number;
+  /** Thermal erosion iterations; 0 skips the pass */
+  erosion: number;
+}
+
+export const DEFAULT_TERRAIN_GEN: TerrainGenOptions = {
+  seed: 1,
+  style: 'fractal',
+  featureSize: 60,
+  height: 8,
+  octaves: 5,
+  roughness: 0.5,
+  erosion: 0,
+};
+
+type Float = Float32Array | number[];
+
+/** Small fast seeded PRNG (mulberry32) returning floats in [0, 1). */
+export function seededRandom(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Seeded 2D gradient (Perlin) noise in roughly [-1, 1]. */
+export function createNoise2D(seed: number) {
+  const rand = seededRandom(seed);
+  const perm = new Uint8Array(512);
+  const p = Array.from({ length: 256 }, (_, i) => i);
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [p[i], p[j]] = [p[j], p[i]];
+  }
+  for (let i = 0; i < 512; i++) perm[i] = p[i & 255];
+
+  const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10);
+  const grad = (hash: number, x: number, y: number) => {
+    switch (hash & 7) {
+      case 0: return x + y;
+      case 1: return -x + y;
+      case 2: return x - y;
+      case 3: return -x - y;
+      case 4: return x;
+      case 5: return -x;
+      case 6: return y;
+      default: return -y;
+    }
+  };
+
+  return (x: number, y: number) => {
+    const xi = Math.floor(x);
+    const yi = Math.floor(y);
+    const xf = x - xi;
+    const yf = y - yi;
+    const X = xi & 255;
+    const Y = yi & 255;
+    const u = fade(xf);
+    const v = fade(yf);
+    const aa = perm[perm[X] + Y];
+    const ab = perm[perm[X] + Y + 1];
+    const ba = perm[perm[X + 1] + Y];
+    const bb = perm[perm[X + 1] + Y + 1];
+    const x1 = grad(aa, xf, yf) + u * (grad(ba, xf - 1, yf) - grad(aa, xf, yf));
+    const x2 = grad(ab, xf, yf - 1) + u * (grad(bb, xf - 1, yf - 1) - grad(ab, xf, yf - 1));
+    return (x1 + v * (x2 - x1)) * 0.7071;
+  };
+}
+
+/** World X/Z of a grid vertex on a square ground of the given size. */
+export function gridPoint(index: number, resolution: number, size: number) {
+  const sub = resolution - 1;
+  const row = Math.floor(index / resolution);
+  const col = index % resolution;
+  return { x: (col * size) / sub - size / 2, z: ((sub - row) * size) / sub - size / 2 };
+}
+
+const smoothstep = (a: number, b: number, t: number) => {
+  const k = Math.min(1, Math.max(0, (t - a) / (b - a)));
+  return k * k * (3 - 2 * k);
+};
+
+/** Heights for a resolution x resolution grid covering size x size world units. */
+export function generateHeights(options: TerrainGenOptions, resolution: number, size: number): Float32Array {
+  const noise = createNoise2D(options.seed);
+  const octaves = Math.max(1, Math.min(8, Math.round(options.octaves)));
+  const gain = Math.min(0.9, Math.max(0.1, options.roughness));
+  const frequency = 1 / Math.max(1, options.featureSize);
+  const heights = new Float32Array(resolution * resolution);
+
+  // Normaliser so the octave sum stays within [-1, 1]
+  let norm = 0;
+  for (let o = 0, amp = 1; o < octaves; o++, amp *= gain) norm += amp;
+
+  const fbm = (x: number, z: number) => {
+    let sum = 0;
+    let amp = 1;
+    let f = frequency;
+    for (let o = 0; o < octaves; o++) {
+      sum += noise(x * f + o * 17.3, z * f - o * 9.1) * amp;
+      amp *= gain;
+      f *= 2;
+    }
+    return sum / norm;
+  };
+
+  const ridged = (x: number, z: number) => {
+    let sum = 0;
+    let amp = 1;
+    let f = frequency;
+    for (let o = 0; o < octaves; o++) {
+      const r = 1 - Math.abs(noise(x * f + o * 17.3, z * f - o * 9.1) * 1.4);
+      sum += r * r * amp;
+      amp *= gain;
+      f *= 2;
+    }
+    return sum / norm;
+  };
+
+  for (let i = 0; i < heights.length; i++) {
+    const { x, z } = gridPoint(i, resolution, size);
+    let h: number;
+    switch (options.style) {
+      case 'ridges':
+        h = ridged(x, z) - 0.3;
+        break;
+      case 'islands': {
+        // Land in the middle falling to water at the edges
+        const d = Math.sqrt(x * x + z * z) / (size / 2);
+        const mask = 1 - smoothstep(0.35, 1, d);
+        h = (fbm(x, z) * 0.5 + 0.5) * mask * 1.3 - 0.25;
+        break;
+      }
+      case 'plateaus': {
+        const steps = 4;
+        const t = (fbm(x, z) * 0.5 + 0.5) * steps;
+        const base = Math.floor(t);
+        h = (base + smoothstep(0.75, 1, t - base)) / steps - 0.35;
+        break;
+      }
+      default:
+        h = fbm(x, z);
+    }
+    heights[i] = h * options.height;
+  }
+
+  if (options.erosion > 0) erodeHeights(heights, resolution, options.erosion, (size / (resolution - 1)) * 0.6);
+  return heights;
+}
+
+/**
+ * Thermal erosion: wherever a cell stands more than `talus` above its lowest
+ * neighbour, half the excess slides down. Softens cliffs and fills gullies.
+ */
+export function erodeHeights(heights: Float, resolution: number, iterations: number, talus: number) {
+  const delta = new Float32Array(heights.length);
+  const offsets = [-1, 1, -resolution, resolution];
+  for (let it = 0; it < iterations; it++) {
+    delta.fill(0);
+    for (let i = 0; i < heights.length; i++) {
+      const col = i % resolution;
+      let lowest = -1;
+      let drop = talus;
+      for (const off of offsets) {
+        const j = i + off;
+        if (j < 0 || j >= heights.length) continue;
+        if ((off === -1 && col === 0) || (off === 1 && col === resolution - 1)) continue;
+        const d = heights[i] - heights[j];
+        if (d > drop) {
+          drop = d;
+          lowest = j;
+        }
+      }
+      if (lowest >= 0) {
+        const moved = (drop - talus) * 0.5;
+        delta[i] -= moved;
+        delta[lowest] += moved;
+      }
+    }
+    for (let i = 0; i < heights.length; i++) heights[i] += delta[i];
+  }
+  return heights;
+}
+
+export type SculptMode = Exclude<TerrainBrushMode, 'paint'>;
+
+export interface SculptOptions {
+  mode: SculptMode;
+  size: number;
+  strength: number;
+  /** Height the flatten brush levels towards (usually where the stroke began) */
+  targetHeight?: number;
+  noise?: (x: number, y: number) => number;
+}
+
+const brushNoise = createNoise2D(7919);
+
+/**
+ * Sculpts interleaved x/y/z ground positions around a world point, in place.
+ * Returns the indices of the vertices that moved.
+ */
+export function sculptPositions(positions: Float, center: { x: number; y: number; z: number }, options: SculptOptions): number[] {
+  const radius = Math.max(0.05, options.size);
+  const radiusSq = radius * radius;
+  const inside: { v: number; falloff: number }[] = [];
+  let sum = 0;
+  for (let i = 0; i < positions.length; i += 3) {
+    const dx = positions[i] - center.x;
+    const dz = positions[i + 2] - center.z;
+    const distSq = dx * dx + dz * dz;
+    if (distSq > radiusSq) continue;
+    inside.push({ v: i / 3, falloff: 1 - Math.sqrt(distSq) / radius });
+    sum += positions[i + 1];
+  }
+  const average = inside.length ? sum / inside.length : center.y;
+  const target = options.targetHeight ?? center.y;
+  const noise = options.noise ?? brushNoise;
+
+  const changed: number[] = [];
+  for (const { v, falloff } of inside) {
+    const y = v * 3 + 1;
+    const before = positions[y];
+    const delta = options.strength * falloff;
+    switch (options.mode) {
+      case 'raise':
+        positions[y] = before + delta;
+        break;
+      case 'lower':
+        positions[y] = before - delta;
+        break;
+      case 'smooth':
+        positions[y] = before + (average - before) * Math.min(1, 0.5 * falloff + options.strength * 0.5);
+        break;
+      case 'flatten':
+        positions[y] = before + (target - before) * Math.min(1, delta * 2);
+        break;
+      case 'noise':
+        positions[y] = before + noise(positions[y - 1] * 0.35, positions[y + 1] * 0.35) * delta;
+        break;
+    }
+    if (positions[y] !== before) changed.push(v);
+  }
+  return changed;
+}
+
+export function heightsFromPositions(positions: Float): Float32Array {
+  const heights = new Float32Array(positions.length / 3);
+  for (let v = 0; v < heights.length; v++) heights[v] = positions[v * 3 + 1];
+  return heights;
+}
+
+export function writeHeightsToPositions(positions: Float, heights: ArrayLike<number>) {
+  const count = Math.min(heights.length, positions.length / 3);
+  for (let v = 0; v < count; v++) positions[v * 3 + 1] = heights[v];
+  return positions;
+}
+
+/** Bilinear resample of a row-major grid of `channels` values per cell. */
+export function resampleGrid(
+  values: ArrayLike<number>,
+  srcWidth: number,
+  srcHeight: number,
+  dstWidth: number,
+  dstHeight: number,
+  channels = 1
+): Float32Array {
+  const out = new Float32Array(dstWidth * dstHeight * channels);
+  for (let row = 0; row < dstHeight; row++) {
+    const sy = dstHeight > 1 ? (row * (srcHeight - 1)) / (dstHeight - 1) : 0;
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(srcHeight - 1, y0 + 1);
+    const ty = sy - y0;
+    for (let col = 0; col < dstWidth; col++) {
+      const sx = dstWidth > 1 ? (col * (srcWidth - 1)) / (dstWidth - 1) : 0;
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const tx = sx - x0;
+      for (let c = 0; c < channels; c++) {
+        const a = values[(y0 * srcWidth + x0) * channels + c];
+        const b = values[(y0 * srcWidth + x1) * channels + c];
+        const d = values[(y1 * srcWidth + x0) * channels + c];
+        const e = values[(y1 * srcWidth + x1) * channels + c];
+        const top = a + (b - a) * tx;
+        const bottom = d + (e - d) * tx;
+        out[(row * dstWidth + col) * channels + c] = top + (bottom - top) * ty;
+      }
+    }
+  }
+  return out;
+}
+
+/** Grayscale RGBA pixels for a height grid, black at `min` and white at `max`. */
+export function heightsToGray(heights: ArrayLike<number>, range?: { min: number; max: number }) {
+  let min = range?.min ?? Infinity;
+  let max = range?.max ?? -Infinity;
+  if (!range) {
+    for (let i = 0; i < heights.length; i++) {
+      min = Math.min(min, heights[i]);
+      max = Math.max(max, heights[i]);
+    }
+  }
+  const span = max - min || 1;
+  const pixels = new Uint8ClampedArray(heights.length * 4);
+  for (let i = 0; i < heights.length; i++) {
+    const g = Math.round(((heights[i] - min) / span) * 255);
+    pixels[i * 4] = g;
+    pixels[i * 4 + 1] = g;
+    pixels[i * 4 + 2] = g;
+    pixels[i * 4 + 3] = 255;
+  }
+  return { pixels, min, max };
+}
+
+/** Heights for a resolution-square grid from image pixels (luminance mapped onto min..max). */
+export function grayToHeights(pixels: ArrayLike<number>, width: number, height: number, resolution: number, min: number, max: number): Float32Array {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114) / 255;
+  }
+  const grid = resampleGrid(gray, width, height, resolution, resolution);
+  for (let i = 0; i < grid.length; i++) grid[i] = min + grid[i] * (max - min);
+  return grid;
+}
+
+/** RGBA pixels for a vertex-color layer (0..1 per channel). */
+export function colorsToPixels(colors: ArrayLike<number>) {
+  const pixels = new Uint8ClampedArray(colors.length);
+  for (let i = 0; i < colors.length; i++) pixels[i] = Math.round(colors[i] * 255);
+  return pixels;
+}
+
+/** Vertex colors for a resolution-square grid from image pixels. */
+export function pixelsToColors(pixels: ArrayLike<number>, width: number, height: number, resolution: number): Float32Array {
+  const grid = resampleGrid(pixels, width, height, resolution, resolution, 4);
+  for (let i = 0; i < grid.length; i++) grid[i] = Math.min(1, Math.max(0, grid[i] / 255));
+  return grid;
+}
@@ -0,0 +1,58 @@
+// Canvas round-trip for heightmap and paint-layer PNGs.
+
+export interface DecodedImage {
+  pixels: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export async function decodeImageFile(file: Blob): Promise<DecodedImage> {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return { pixels: data, width: canvas.width, height: canvas.height };
+}
+
+export function encodePng(pixels: Uint8ClampedArray, width: number, height: number): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new Error('Canvas 2D is not available'));
+  const image = ctx.createImageData(width, height);
+  image.data.set(pixels);
+  ctx.putImageData(image, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+  });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Exported heightmaps carry their height range in the name, e.g. terrain_h-2.5_12.png */
+export function heightmapFilename(min: number, max: number) {
+  return `terrain_h${min.toFixed(2)}_${max.toFixed(2)}.png`;
+}
+
+export function parseHeightmapRange(filename: string): { min: number; max: number } | null {
+  const match = /_h(-?\d+(?:\.\d+)?)_(-?\d+(?:\.\d+)?)\.png$/i.exec(filename);
+  if (!match) return null;
+  const min = Number(match[1]);
+  const max = Number(match[2]);
+  return max > min ? { min, max } : null;
+}
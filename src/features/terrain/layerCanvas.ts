@@ -0,0 +1,79 @@
+// Procedural tile images for the terrain layer textures, drawn on a 2D
+// canvas so every renderer shows the same grass, dirt, rock and sand.
+
+import { seededRandom } from './heightfield';
+import { TERRAIN_LAYER_TEXTURES, type TerrainLayerTexture } from './splat';
+
+const TEXTURE_SIZE = 128;
+
+interface LayerLook {
+  jitter: number;
+  blobs: number;
+  blobSize: number;
+  blobShade: number;
+  strokes?: 'blades' | 'cracks';
+}
+
+const LOOKS: Record<TerrainLayerTexture, LayerLook> = {
+  grass: { jitter: 0.18, blobs: 40, blobSize: 6, blobShade: -0.15, strokes: 'blades' },
+  dirt: { jitter: 0.2, blobs: 60, blobSize: 3, blobShade: -0.25 },
+  rock: { jitter: 0.12, blobs: 24, blobSize: 10, blobShade: 0.12, strokes: 'cracks' },
+  sand: { jitter: 0.1, blobs: 30, blobSize: 8, blobShade: 0.06 },
+};
+
+const shade = (color: number, amount: number) => {
+  const ch = (shift: number) => Math.round(Math.min(255, Math.max(0, ((color >> shift) & 255) * (1 + amount))));
+  return `rgb(${ch(16)},${ch(8)},${ch(0)})`;
+};
+
+/** Seeded and wrapped at the edges so tiles repeat without seams. */
+export function drawTerrainLayerCanvas(texture: TerrainLayerTexture) {
+  const { color } = TERRAIN_LAYER_TEXTURES[texture];
+  const look = LOOKS[texture];
+  const rand = seededRandom(texture.length * 7919 + color);
+  const canvas = document.createElement('canvas');
+  canvas.width = TEXTURE_SIZE;
+  canvas.height = TEXTURE_SIZE;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = shade(color, 0);
+  ctx.fillRect(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+
+  const wrapped = (draw: (ox: number, oy: number) => void) => {
+    for (const ox of [-TEXTURE_SIZE, 0, TEXTURE_SIZE]) for (const oy of [-TEXTURE_SIZE, 0, TEXTURE_SIZE]) draw(ox, oy);
+  };
+
+  for (let i = 0; i < look.blobs; i++) {
+    const x = rand() * TEXTURE_SIZE;
+    const y = rand() * TEXTURE_SIZE;
+    const r = look.blobSize * (0.5 + rand());
+    ctx.fillStyle = shade(color, look.blobShade * (0.5 + rand()));
+    wrapped((ox, oy) => { ctx.beginPath(); ctx.arc(x + ox, y + oy, r, 0, Math.PI * 2); ctx.fill(); });
+  }
+
+  if (look.strokes) {
+    ctx.lineWidth = look.strokes === 'blades' ? 1 : 1.5;
+    for (let i = 0; i < (look.strokes === 'blades' ? 160 : 10); i++) {
+      const x = rand() * TEXTURE_SIZE;
+      const y = rand() * TEXTURE_SIZE;
+      const len = look.strokes === 'blades' ? 3 + rand() * 4 : 10 + rand() * 20;
+      const angle = look.strokes === 'blades' ? -Math.PI / 2 + (rand() - 0.5) * 0.8 : rand() * Math.PI * 2;
+      ctx.strokeStyle = shade(color, look.strokes === 'blades' ? (rand() - 0.3) * 0.4 : -0.35);
+      wrapped((ox, oy) => {
+        ctx.beginPath();
+        ctx.moveTo(x + ox, y + oy);
+        ctx.lineTo(x + ox + Math.cos(angle) * len, y + oy + Math.sin(angle) * len);
+        ctx.stroke();
+      });
+    }
+  }
+
+  const image = ctx.getImageData(0, 0, TEXTURE_SIZE, TEXTURE_SIZE);
+  for (let i = 0; i < image.data.length; i += 4) {
+    const j = 1 + (rand() - 0.5) * look.jitter;
+    image.data[i] *= j;
+    image.data[i + 1] *= j;
+    image.data[i + 2] *= j;
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
@@ -0,0 +1,134 @@
+// Terrain texture layers and their splat map: four blend weights per ground
+// vertex (RGBA order = layer 0..3), summing to 1. Engine-free.
+
+import type { TerrainPaintLayer } from '@/types/editor';
+import { resampleGrid } from './heightfield';
+
+export type TerrainLayerTexture = 'grass' | 'dirt' | 'rock' | 'sand';
+
+export const MAX_TERRAIN_LAYERS = 4;
+
+/** Built-in layer textures with the base colour they are drawn around */
+export const TERRAIN_LAYER_TEXTURES: Record<TerrainLayerTexture, { name: string; color: number }> = {
+  grass: { name: 'Trawa', color: 0x4a9d4a },
+  dirt: { name: 'Ziemia', color: 0x8b7355 },
+  rock: { name: 'Skała', color: 0x808080 },
+  sand: { name: 'Piasek', color: 0xc2b280 },
+};
+
+const isLayerTexture = (v: unknown): v is TerrainLayerTexture =>
+  typeof v === 'string' && v in TERRAIN_LAYER_TEXTURES;
+
+export const createTerrainLayer = (texture: TerrainLayerTexture, id: string = texture): TerrainPaintLayer => ({
+  id,
+  name: TERRAIN_LAYER_TEXTURES[texture].name,
+  texture,
+  tiling: 40,
+  strength: 1,
+  visible: true,
+});
+
+export const DEFAULT_TERRAIN_LAYERS: TerrainPaintLayer[] = (['grass', 'dirt', 'rock', 'sand'] as const).map((t) => createTerrainLayer(t));
+
+/** Drops unknown textures, clamps numbers and caps the list at four layers. */
+export function normalizeTerrainLayers(input: unknown): TerrainPaintLayer[] {
+  if (!Array.isArray(input)) return DEFAULT_TERRAIN_LAYERS.map((l) => ({ ...l }));
+  const layers = input
+    .filter((l): l is Partial<TerrainPaintLayer> => !!l && typeof l === 'object' && isLayerTexture((l as TerrainPaintLayer).texture))
+    .slice(0, MAX_TERRAIN_LAYERS)
+    .map((l, i) => {
+      const base = createTerrainLayer(l.texture as TerrainLayerTexture, typeof l.id === 'string' && l.id ? l.id : `layer-${i}`);
+      return {
+        ...base,
+        name: typeof l.name === 'string' && l.name.trim() ? l.name.trim().slice(0, 40) : base.name,
+        tiling: typeof l.tiling === 'number' && Number.isFinite(l.tiling) ? Math.min(200, Math.max(1, l.tiling)) : base.tiling,
+        strength: typeof l.strength === 'number' && Number.isFinite(l.strength) ? Math.min(1, Math.max(0, l.strength)) : base.strength,
+        visible: l.visible !== false,
+      };
+    });
+  return layers.length ? layers : DEFAULT_TERRAIN_LAYERS.map((l) => ({ ...l }));
+}
+
+/** Weights with every vertex fully on `layer`. */
+export function createSplatWeights(vertexCount: number, layer = 0): Float32Array {
+  const weights = new Float32Array(vertexCount * 4);
+  for (let v = 0; v < vertexCount; v++) weights[v * 4 + layer] = 1;
+  return weights;
+}
+
+/**
+ * Paints `layer` into the weights around a world point. Other layers give up
+ * weight proportionally so each vertex still sums to 1. Returns changed vertices.
+ */
+export function paintSplat(
+  weights: Float32Array,
+  positions: ArrayLike<number>,
+  center: { x: number; z: number },
+  layer: number,
+  size: number,
+  strength: number
+): number[] {
+  const radius = Math.max(0.05, size);
+  const changed: number[] = [];
+  for (let i = 0, v = 0; i < positions.length; i += 3, v++) {
+    const dx = positions[i] - center.x;
+    const dz = positions[i + 2] - center.z;
+    const dist = Math.sqrt(dx * dx + dz * dz);
+    if (dist > radius) continue;
+    const o = v * 4;
+    const current = weights[o + layer];
+    const rest = 1 - current;
+    if (rest <= 1e-4) continue;
+    const target = Math.min(1, current + strength * (1 - dist / radius) * rest);
+    const scale = (1 - target) / rest;
+    for (let k = 0; k < 4; k++) weights[o + k] = k === layer ? target : weights[o + k] * scale;
+    changed.push(v);
+  }
+  return changed;
+}
+
+/** Drops one layer's channel, shifting later layers down and renormalising. */
+export function removeSplatLayer(weights: Float32Array, index: number) {
+  for (let o = 0; o < weights.length; o += 4) {
+    for (let k = index; k < 3; k++) weights[o + k] = weights[o + k + 1];
+    weights[o + 3] = 0;
+    const sum = weights[o] + weights[o + 1] + weights[o + 2];
+    if (sum > 0) for (let k = 0; k < 3; k++) weights[o + k] /= sum;
+    else weights[o] = 1;
+  }
+  return weights;
+}
+
+export function resampleSplat(weights: Float32Array, fromResolution: number, toResolution: number): Float32Array {
+  if (fromResolution === toResolution) return Float32Array.from(weights);
+  return resampleGrid(weights, fromResolution, fromResolution, toResolution, toResolution, 4);
+}
+
+/** Compact 0..255 form used for persistence and the GPU splat texture. */
+export function splatToBytes(weights: ArrayLike<number>): Uint8Array {
+  const bytes = new Uint8Array(weights.length);
+  for (let i = 0; i < weights.length; i++) bytes[i] = Math.round(Math.min(1, Math.max(0, weights[i])) * 255);
+  return bytes;
+}
+
+export function splatFromBytes(bytes: ArrayLike<number>): Float32Array {
+  const weights = new Float32Array(bytes.length);
+  for (let o = 0; o < bytes.length; o += 4) {
+    const sum = bytes[o] + bytes[o + 1] + bytes[o + 2] + bytes[o + 3];
+    for (let k = 0; k < 4; k++) weights[o + k] = sum > 0 ? bytes[o + k] / sum : k === 0 ? 1 : 0;
+  }
+  return weights;
+}
+
+/**
+ * Layer weights as the renderer sees them: hidden layers drop out and
+ * strength scales each layer before renormalising.
+ */
+export function effectiveLayerWeights(layers: TerrainPaintLayer[]): [number, number, number, number] {
+  const out: [number, number, number, number] = [0, 0, 0, 0];
+  for (let k = 0; k < MAX_TERRAIN_LAYERS; k++) {
+    const layer = layers[k];
+    out[k] = layer && layer.visible ? layer.strength : 0;
+  }
+  return out;
+}
@@ -0,0 +1,41 @@
+// Saved terrain (TerrainData) decoded into the square grid every renderer
+// builds from: the editor and thumbnails (Babylon) and play mode (three.js).
+// Engine-free.
+
+import type { TerrainData } from '@/types/project';
+import { heightsFromPositions, resampleGrid } from './heightfield';
+import { resampleSplat, splatFromBytes, splatToBytes } from './splat';
+
+/** World units per side of the terrain ground */
+export const GROUND_SIZE = 200;
+export const MAX_TERRAIN_RESOLUTION = 257;
+
+/** Decodes saved terrain into a grid; legacy raw positions become heights. */
+export function decodeTerrain(terrain: TerrainData) {
+  let heights = terrain.heights;
+  let resolution = terrain.resolution;
+  if (!heights && Array.isArray(terrain.positions)) {
+    heights = Array.from(heightsFromPositions(terrain.positions));
+    resolution = Math.round(Math.sqrt(heights.length));
+  }
+  if (!heights || !resolution || resolution * resolution !== heights.length) return null;
+
+  let colors = terrain.colors && terrain.colors.length === heights.length * 4 ? terrain.colors : null;
+  let splat = terrain.splat && terrain.splat.length === heights.length * 4 ? terrain.splat : undefined;
+  if (resolution > MAX_TERRAIN_RESOLUTION) {
+    heights = Array.from(resampleGrid(heights, resolution, resolution, MAX_TERRAIN_RESOLUTION, MAX_TERRAIN_RESOLUTION));
+    if (colors) colors = Array.from(resampleGrid(colors, resolution, resolution, MAX_TERRAIN_RESOLUTION, MAX_TERRAIN_RESOLUTION, 4));
+    if (splat) splat = Array.from(splatToBytes(resampleSplat(splatFromBytes(splat), resolution, MAX_TERRAIN_RESOLUTION)));
+    resolution = MAX_TERRAIN_RESOLUTION;
+  }
+  return { heights, resolution, colors, splat, layers: terrain.layers };
+}
+
+export type DecodedTerrain = NonNullable<ReturnType<typeof decodeTerrain>>;
+
+/** Terrain as the games API returns it: the server keeps it as a JSON string. */
+export function parseTerrainData(raw: string | TerrainData | null | undefined): TerrainData | null {
+  if (!raw) return null;
+  if (typeof raw !== 'string') return raw;
+  try { return JSON.parse(raw) as TerrainData; } catch { return null; }
+}
@@ -0,0 +1,138 @@
+// Terrain strokes as compact deltas: runs of neighbouring grid vertices with
+// their values before and after the stroke, for one channel. Used for undo
+// and for sending sculpting to collaborators. Engine-free.
+
+export type TerrainChannel = 'heights' | 'colors' | 'splat';
+
+/** Values stored per vertex in each channel */
+export const TERRAIN_CHANNEL_STRIDE: Record<TerrainChannel, number> = { heights: 1, colors: 4, splat: 4 };
+
+/** Upper bound on `before` values in one delta sent over the wire */
+export const MAX_TERRAIN_DELTA_VALUES = 16384;
+
+export interface TerrainDeltaRange {
+  /** First vertex index of the run */
+  start: number;
+  before: number[];
+  after: number[];
+}
+
+export interface TerrainDelta {
+  channel: TerrainChannel;
+  /** Vertices per side of the grid the delta was recorded on */
+  resolution: number;
+  ranges: TerrainDeltaRange[];
+}
+
+export type TerrainDeltaDirection = 'undo' | 'redo';
+
+// Unchanged vertices between two edits that are still folded into one run;
+// a brush covers a short run per grid row, so this mostly joins nothing.
+const MERGE_GAP = 4;
+const CHANGED = 1e-4;
+const MATCHES = 1e-3;
+
+const quantize = (v: number) => Math.round(v * 1000) / 1000;
+
+function vertexDiffers(a: ArrayLike<number>, aOffset: number, b: ArrayLike<number>, bOffset: number, stride: number, tolerance: number) {
+  for (let k = 0; k < stride; k++) {
+    if (Math.abs(a[aOffset + k] - b[bOffset + k]) > tolerance) return true;
+  }
+  return false;
+}
+
+/** Delta between two copies of a channel, or null when nothing changed. */
+export function diffTerrainChannel(
+  channel: TerrainChannel,
+  resolution: number,
+  before: ArrayLike<number>,
+  after: ArrayLike<number>
+): TerrainDelta | null {
+  const stride = TERRAIN_CHANNEL_STRIDE[channel];
+  const count = Math.floor(Math.min(before.length, after.length) / stride);
+  const ranges: TerrainDeltaRange[] = [];
+  let runStart = -1;
+  let lastChanged = -1;
+
+  const flush = () => {
+    if (runStart < 0) return;
+    const from = runStart * stride;
+    const to = (lastChanged + 1) * stride;
+    ranges.push({
+      start: runStart,
+      before: Array.from(Array.prototype.slice.call(before, from, to) as number[], quantize),
+      after: Array.from(Array.prototype.slice.call(after, from, to) as number[], quantize),
+    });
+    runStart = -1;
+  };
+
+  for (let v = 0; v < count; v++) {
+    if (!vertexDiffers(before, v * stride, after, v * stride, stride, CHANGED)) continue;
+    if (runStart >= 0 && v - lastChanged - 1 > MERGE_GAP) flush();
+    if (runStart < 0) runStart = v;
+    lastChanged = v;
+  }
+  flush();
+
+  return ranges.length ? { channel, resolution, ranges } : null;
+}
+
+/**
+ * Moves `values` to one side of the delta in place and returns the change
+ * actually made (as a forward delta), or null if nothing changed.
+ * With `rebase`, vertices that no longer hold the other side's values were
+ * edited by someone else since, and are left alone.
+ */
+export function applyTerrainDelta(
+  values: Float32Array,
+  delta: TerrainDelta,
+  direction: TerrainDeltaDirection,
+  options: { rebase?: boolean } = {}
+): TerrainDelta | null {
+  const stride = TERRAIN_CHANNEL_STRIDE[delta.channel];
+  const previous = Float32Array.from(values);
+
+  for (const range of delta.ranges) {
+    const from = direction === 'undo' ? range.after : range.before;
+    const to = direction === 'undo' ? range.before : range.after;
+    const offset = range.start * stride;
+    if (from.length !== to.length || offset < 0 || offset + to.length > values.length) continue;
+    for (let i = 0; i < to.length; i += stride) {
+      if (options.rebase && vertexDiffers(values, offset + i, from, i, stride, MATCHES)) continue;
+      for (let k = 0; k < stride; k++) values[offset + i + k] = to[i + k];
+    }
+  }
+
+  return diffTerrainChannel(delta.channel, delta.resolution, previous, values);
+}
+
+/** Splits a delta into pieces small enough to send, keeping vertices whole. */
+export function splitTerrainDelta(delta: TerrainDelta, maxValues = MAX_TERRAIN_DELTA_VALUES): TerrainDelta[] {
+  const stride = TERRAIN_CHANNEL_STRIDE[delta.channel];
+  const limit = Math.max(stride, maxValues - (maxValues % stride));
+  const parts: TerrainDelta[] = [];
+  let current: TerrainDeltaRange[] = [];
+  let size = 0;
+
+  const push = () => {
+    if (current.length) parts.push({ ...delta, ranges: current });
+    current = [];
+    size = 0;
+  };
+
+  for (const range of delta.ranges) {
+    for (let i = 0; i < range.before.length; ) {
+      if (size >= limit) push();
+      const take = Math.min(range.before.length - i, limit - size);
+      current.push({
+        start: range.start + i / stride,
+        before: range.before.slice(i, i + take),
+        after: range.after.slice(i, i + take),
+      });
+      size += take;
+      i += take;
+    }
+  }
+  push();
+  return parts;
+}
@@ -2,6 +2,9 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { apiFetch } from '@/lib/api';
 import { useAuthStore } from '@/lib/store';
+import { BlockSync, makeOpId, type BlockLike, type PendingBlockOperation, type RejectedBlockOperation } from '@/features/collab/blockSync';
+import { LocalHistory, type LocalHistoryStep } from '@/features/collab/localHistory';
+import { splitTerrainDelta, type TerrainDelta } from '@/features/terrain/terrainDelta';
 
 export interface CollabParticipant {
   id: string;
@@ -36,6 +39,19 @@ export interface BlockOperation {
   operation: 'add' | 'update' | 'delete';
   blockId: string;
   blockData?: any;
+  version: number;
+  seq: number;
+  opId?: string | null;
+  userId: string;
+  userName: string;
+  timestamp: number;
+}
+
+// Terrain strokes are not sequenced: deltas hold absolute values, so
+// applying them in arrival order converges
+export interface TerrainOperation {
+  delta: TerrainDelta;
+  opId?: string | null;
   userId: string;
   userName: string;
   timestamp: number;
@@ -55,6 +71,8 @@ interface UseCollabClientOptions {
   gameId: string;
   sessionType: 'build' | 'play';
   onBlockOperation?: (operation: BlockOperation) => void;
+  onBlocksChange?: (blocks: BlockLike[]) => void; // server state with pending local edits rebased on top
+  onTerrainOperation?: (operation: TerrainOperation) => void; // a collaborator's stroke, to apply on the ground
   onGameStateUpdate?: (state: any) => void;
   onParticipantUpdate?: (participants: CollabParticipant[]) => void;
   onChatMessage?: (message: ChatMessage) => void;
@@ -64,6 +82,8 @@ export const useCollabClient = ({
   gameId,
   sessionType,
   onBlockOperation,
+  onBlocksChange,
+  onTerrainOperation,
   onGameStateUpdate,
   onParticipantUpdate,
   onChatMessage
@@ -82,6 +102,12 @@ export const useCollabClient = ({
   const socketRef = useRef<Socket | null>(null);
   const sessionTokenRef = useRef<string | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const blockSyncRef = useRef(new BlockSync());
+  const historyRef = useRef(new LocalHistory());
+  // Terrain ops already applied here (ours included), so session replays skip them
+  const seenTerrainOpsRef = useRef(new Set<string>());
+  const pendingTerrainRef = useRef<{ delta: TerrainDelta; opId: string }[]>([]);
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
 
   // Initialize session and connect to WebSocket
   const initializeSession = useCallback(async () => {
@@ -193,6 +219,23 @@ export const useCollabClient = ({
       }));
     });
 
+    const emitBlocks = () => {
+      onBlocksChange?.(blockSyncRef.current.view());
+    };
+
+    const applyTerrainOperation = (operation: TerrainOperation) => {
+      if (operation.opId) {
+        if (seenTerrainOpsRef.current.has(operation.opId)) return;
+        seenTerrainOpsRef.current.add(operation.opId);
+      }
+      onTerrainOperation?.(operation);
+    };
+
+    // Strokes made in the session before we (re)joined
+    const replayTerrain = (gameState: { terrainOps?: TerrainOperation[] } | null | undefined) => {
+      for (const operation of gameState?.terrainOps || []) applyTerrainOperation(operation);
+    };
+
     // Session events
     socket.on('session_joined', (data) => {
       console.log('[Collab] Session joined:', data);
@@ -202,6 +245,17 @@ export const useCollabClient = ({
         gameState: data.gameState || {}
       }));
 
+      // Adopt server state, then resend edits that were in flight before a reconnect
+      blockSyncRef.current.load(data.gameState);
+      for (const op of blockSyncRef.current.getPending()) {
+        socket.emit('block_operation', op);
+      }
+      emitBlocks();
+      replayTerrain(data.gameState);
+      for (const op of pendingTerrainRef.current.splice(0)) {
+        socket.emit('terrain_operation', op);
+      }
+
       if (onGameStateUpdate) {
         onGameStateUpdate(data.gameState || {});
       }
@@ -264,14 +318,37 @@ export const useCollabClient = ({
       });
     });
 
-    // Block operations (collaborative editing)
+    // Block operations (collaborative editing), sequenced by the server
     socket.on('block_operation', (operation: BlockOperation) => {
-      console.log('[Collab] Block operation:', operation);
+      // Deletes may arrive without block data
+      const status = blockSyncRef.current.applyRemote({ ...operation, blockData: operation.blockData ?? null });
+      if (status === 'duplicate') return;
+      if (status === 'gap') {
+        // Missed operations; fetch a full snapshot to converge
+        socket.emit('request_state');
+      }
+      emitBlocks();
       if (onBlockOperation) {
         onBlockOperation(operation);
       }
     });
 
+    socket.on('operation_rejected', (result: RejectedBlockOperation) => {
+      console.log('[Collab] Operation rejected:', result);
+      blockSyncRef.current.reject(result);
+      emitBlocks();
+    });
+
+    socket.on('game_state', (gameState) => {
+      blockSyncRef.current.load(gameState);
+      emitBlocks();
+      replayTerrain(gameState);
+    });
+
+    socket.on('terrain_operation', (operation: TerrainOperation) => {
+      applyTerrainOperation(operation);
+    });
+
     socket.on('operation_ack', (data) => {
       console.log('[Collab] Operation acknowledged:', data);
     });
@@ -319,19 +396,68 @@ export const useCollabClient = ({
       }));
     });
 
-  }, [onBlockOperation, onGameStateUpdate, onParticipantUpdate, onChatMessage]);
+  }, [onBlockOperation, onBlocksChange, onTerrainOperation, onGameStateUpdate, onParticipantUpdate, onChatMessage]);
 
   // Public methods
-  const sendBlockOperation = useCallback((operation: 'add' | 'update' | 'delete', blockId: string, blockData?: any) => {
-    if (!socketRef.current?.connected) return;
-
-    socketRef.current.emit('block_operation', {
-      operation,
-      blockId,
-      blockData
+  // Edits are recorded even while offline and sent (or resent) once the session is joined
+  const emitLocalOperations = useCallback((ops: Omit<PendingBlockOperation, 'opId'>[]) => {
+    return ops.map(({ operation, blockId, blockData }) => {
+      const op = blockSyncRef.current.local(operation, blockId, blockData);
+      if (socketRef.current?.connected) {
+        socketRef.current.emit('block_operation', op);
+      }
+      return op.opId;
     });
   }, []);
 
+  const syncHistoryState = useCallback(() => {
+    setHistoryState({ canUndo: historyRef.current.canUndo(), canRedo: historyRef.current.canRedo() });
+  }, []);
+
+  // Send a group of local edits; they form a single undo step
+  const sendBlockOperations = useCallback((ops: Omit<PendingBlockOperation, 'opId'>[]) => {
+    if (ops.length === 0) return [];
+    historyRef.current.record(ops, blockSyncRef.current.view());
+    syncHistoryState();
+    return emitLocalOperations(ops);
+  }, [emitLocalOperations, syncHistoryState]);
+
+  const sendBlockOperation = useCallback((operation: 'add' | 'update' | 'delete', blockId: string, blockData?: any) => {
+    return sendBlockOperations([{ operation, blockId, blockData }])[0];
+  }, [sendBlockOperations]);
+
+  // Send a terrain stroke (split to fit the server limit). Undo/redo results
+  // pass record: false, since their history entry already exists.
+  const sendTerrainOperation = useCallback((delta: TerrainDelta, options: { record?: boolean } = {}) => {
+    if (options.record !== false) {
+      historyRef.current.recordTerrain(delta);
+      syncHistoryState();
+    }
+    for (const part of splitTerrainDelta(delta)) {
+      const op = { delta: part, opId: makeOpId() };
+      seenTerrainOpsRef.current.add(op.opId);
+      if (socketRef.current?.connected) socketRef.current.emit('terrain_operation', op);
+      else pendingTerrainRef.current.push(op);
+    }
+  }, [syncHistoryState]);
+
+  // Undo/redo only touch this user's own edits, via inverse operations.
+  // The step is returned for the caller to apply: the (already sent) block
+  // ops to its editor, the terrain delta rebased on the ground and sent back.
+  const undo = useCallback((): LocalHistoryStep => {
+    const step = historyRef.current.undoStep(blockSyncRef.current.view());
+    emitLocalOperations(step.ops);
+    syncHistoryState();
+    return step;
+  }, [emitLocalOperations, syncHistoryState]);
+
+  const redo = useCallback((): LocalHistoryStep => {
+    const step = historyRef.current.redoStep(blockSyncRef.current.view());
+    emitLocalOperations(step.ops);
+    syncHistoryState();
+    return step;
+  }, [emitLocalOperations, syncHistoryState]);
+
   const updatePresence = useCallback((presence: Partial<CollabParticipant['presence']>) => {
     if (!socketRef.current?.connected) return;
 
@@ -418,7 +544,12 @@ export const useCollabClient = ({
 
   return {
     ...state,
+    ...historyState,
     sendBlockOperation,
+    sendBlockOperations,
+    sendTerrainOperation,
+    undo,
+    redo,
     updatePresence,
     sendChatMessage,
     updateSelection,
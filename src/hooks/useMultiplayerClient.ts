@@ -2,6 +2,8 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { apiFetch } from '@/lib/api';
 import { useAuthStore } from '@/lib/store';
+import { PredictionBuffer, SnapshotInterpolator, type Correction, type Vec3 } from '@/features/multiplayer/netcode';
+import { usePlayState, type RemotePlayerSkin } from '@/components/editor-enhanced/scene/systems/play/PlayState';
 
 export interface Player {
   id: string;
@@ -20,6 +22,31 @@ export interface Player {
   lastUpdate: number;
 }
 
+export interface PlayerInput {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  jump: boolean;
+  sprint?: boolean;
+}
+
+// Authoritative player state from the server simulation
+export interface PlayerSnapshot {
+  id: string;
+  userName?: string;
+  position: Vec3;
+  velocity: Vec3;
+  grounded: boolean;
+  ackSeq: number;
+}
+
+export interface StateSnapshot {
+  tick: number;
+  serverTime?: number;
+  players: PlayerSnapshot[];
+}
+
 export interface GameEvent {
   type: 'start' | 'checkpoint' | 'finish' | 'hazard' | 'respawn';
   userId: string;
@@ -44,13 +71,42 @@ interface UseMultiplayerClientOptions {
   onGameEvent?: (event: GameEvent) => void;
   onPlayerUpdate?: (players: Record<string, Player>) => void;
   onScoreSubmit?: (userId: string, timeMs: number) => void;
+  onReconcile?: (correction: Correction, server: PlayerSnapshot) => void; // shift the locally predicted player
+}
+
+const REMOTE_COLORS = ['#60a5fa', '#f472b6', '#34d399', '#fbbf24', '#a78bfa', '#f87171'];
+function colorFor(id: string): string {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return REMOTE_COLORS[Math.abs(hash) % REMOTE_COLORS.length];
+}
+
+// Skins arrive with participant events; avatars are only created from snapshots
+function participantSkin(participant: { skin?: RemotePlayerSkin | null }): RemotePlayerSkin | undefined {
+  const skin = participant?.skin;
+  if (!skin || typeof skin !== 'object') return undefined;
+  return { skinId: skin.skinId || undefined, config: skin.config ?? null };
+}
+
+function createPlayer(id: string, userName: string): Player {
+  return {
+    id,
+    userId: id,
+    userName,
+    position: { x: 0, y: 1, z: 0 },
+    velocity: { x: 0, y: 0, z: 0 },
+    input: { forward: false, backward: false, left: false, right: false, jump: false },
+    isGrounded: true,
+    lastUpdate: Date.now()
+  };
 }
 
 export const useMultiplayerClient = ({
   gameId,
   onGameEvent,
   onPlayerUpdate,
-  onScoreSubmit
+  onScoreSubmit,
+  onReconcile
 }: UseMultiplayerClientOptions) => {
   const { user, token } = useAuthStore();
   const [state, setState] = useState<MultiplayerState>({
@@ -66,7 +122,10 @@ export const useMultiplayerClient = ({
 
   const socketRef = useRef<Socket | null>(null);
   const sessionTokenRef = useRef<string | null>(null);
-  const inputBufferRef = useRef<any[]>([]);
+  const predictionRef = useRef(new PredictionBuffer());
+  const interpolatorRef = useRef(new SnapshotInterpolator());
+  const myPlayerIdRef = useRef<string | null>(null);
+  const skinsRef = useRef(new Map<string, RemotePlayerSkin>());
   const lastInputSeqRef = useRef(0);
   const pingIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
@@ -142,6 +201,7 @@ export const useMultiplayerClient = ({
       }
 
       sessionTokenRef.current = sessionToken;
+      myPlayerIdRef.current = playerId;
       
       setState(prev => ({
         ...prev,
@@ -214,6 +274,11 @@ export const useMultiplayerClient = ({
         isConnected: false,
         players: {} // Clear players on disconnect
       }));
+      predictionRef.current.clear();
+      for (const id of interpolatorRef.current.playerIds()) {
+        usePlayState.getState().removePlayer(id);
+      }
+      interpolatorRef.current.clear();
 
       if (pingIntervalRef.current) {
         clearInterval(pingIntervalRef.current);
@@ -242,12 +307,17 @@ export const useMultiplayerClient = ({
     // Session events
     socket.on('session_joined', (data) => {
       console.log('[Multiplayer] Session joined:', data);
+      // Fresh authoritative state; earlier predictions can no longer be acknowledged
+      predictionRef.current.clear();
       
       // Initialize players from participants
       const players: Record<string, Player> = {};
+      skinsRef.current.clear();
       if (data.participants) {
         data.participants.forEach((participant: any) => {
           if (participant.role === 'PLAYER') {
+            const skin = participantSkin(participant);
+            if (skin) skinsRef.current.set(participant.userId || participant.guestId, skin);
             players[participant.userId] = {
               id: participant.userId,
               userId: participant.userId,
@@ -278,6 +348,15 @@ export const useMultiplayerClient = ({
     socket.on('participant_joined', (participant) => {
       if (participant.role === 'PLAYER') {
         console.log('[Multiplayer] Player joined:', participant);
+        const skin = participantSkin(participant);
+        const playerId = participant.userId || participant.guestId;
+        if (skin) {
+          skinsRef.current.set(playerId, skin);
+          // A snapshot may have introduced the player before this event
+          if (usePlayState.getState().players.has(playerId)) {
+            usePlayState.getState().updatePlayer(playerId, { skin });
+          }
+        }
         
         const newPlayer: Player = {
           id: participant.userId,
@@ -310,6 +389,9 @@ export const useMultiplayerClient = ({
 
     socket.on('participant_left', (data) => {
       console.log('[Multiplayer] Player left:', data);
+      interpolatorRef.current.remove(data.userId);
+      skinsRef.current.delete(data.userId);
+      usePlayState.getState().removePlayer(data.userId);
       setState(prev => {
         const { [data.userId]: removed, ...remainingPlayers } = prev.players;
         
@@ -321,28 +403,49 @@ export const useMultiplayerClient = ({
       });
     });
 
-    // Player input/movement events
-    socket.on('player_input', (data) => {
-      const { userId, input } = data;
-      
+    // Authoritative state from the server simulation
+    socket.on('state_snapshot', (snapshot: StateSnapshot) => {
+      const now = performance.now();
+      const myId = myPlayerIdRef.current;
+      const playState = usePlayState.getState();
+
+      for (const player of snapshot.players) {
+        if (player.id === myId) {
+          const correction = predictionRef.current.reconcile(player.ackSeq, player.position);
+          if (correction && onReconcile) {
+            onReconcile(correction, player);
+          }
+          continue;
+        }
+        // Remote players are drawn from the interpolation buffer (see render loop below)
+        interpolatorRef.current.push(player.id, now, player.position);
+        if (!playState.players.has(player.id)) {
+          playState.addPlayer(player.id, {
+            name: player.userName || 'Player',
+            position: player.position,
+            color: colorFor(player.id),
+            skin: skinsRef.current.get(player.id)
+          });
+        }
+      }
+
       setState(prev => {
-        if (prev.players[userId]) {
-          const updatedPlayers = {
-            ...prev.players,
-            [userId]: {
-              ...prev.players[userId],
-              input,
-              lastUpdate: Date.now()
-            }
+        const players = { ...prev.players };
+        for (const player of snapshot.players) {
+          players[player.id] = {
+            ...(players[player.id] || createPlayer(player.id, player.userName || 'Player')),
+            position: player.position,
+            velocity: player.velocity,
+            isGrounded: player.grounded,
+            lastUpdate: Date.now()
           };
-          
-          if (onPlayerUpdate) {
-            onPlayerUpdate(updatedPlayers);
-          }
-          
-          return { ...prev, players: updatedPlayers };
         }
-        return prev;
+
+        if (onPlayerUpdate) {
+          onPlayerUpdate(players);
+        }
+
+        return { ...prev, players };
       });
     });
 
@@ -374,26 +477,23 @@ export const useMultiplayerClient = ({
       }));
     });
 
-  }, [onGameEvent, onPlayerUpdate, onScoreSubmit]);
+  }, [onGameEvent, onPlayerUpdate, onScoreSubmit, onReconcile]);
 
-  // Send player input
-  const sendInput = useCallback((input: Player['input']) => {
-    if (!socketRef.current?.connected) return;
-
-    lastInputSeqRef.current++;
-    const inputData = {
-      seq: lastInputSeqRef.current,
-      input,
-      timestamp: Date.now()
-    };
+  // Send player input. Call once per fixed step (INPUT_STEP_MS) with the camera yaw
+  // and the local player's predicted position after applying this input.
+  const sendInput = useCallback((input: PlayerInput, yaw: number, predicted?: Vec3) => {
+    if (!socketRef.current?.connected) return null;
 
-    // Buffer input for client-side prediction
-    inputBufferRef.current.push(inputData);
-    if (inputBufferRef.current.length > 60) { // Keep last ~2 seconds at 30fps
-      inputBufferRef.current.shift();
+    const seq = ++lastInputSeqRef.current;
+    if (predicted) {
+      predictionRef.current.record(seq, predicted);
     }
 
-    socketRef.current.emit('player_input', inputData);
+    socketRef.current.emit('player_input', {
+      seq,
+      input: { ...input, yaw }
+    });
+    return seq;
   }, []);
 
   // Send game event
@@ -433,6 +533,27 @@ export const useMultiplayerClient = ({
     });
   }, [state.myPlayerId, onPlayerUpdate]);
 
+  // Feed interpolated remote player positions to the play scene every frame
+  useEffect(() => {
+    if (!state.isConnected) return;
+
+    let frame = 0;
+    const render = () => {
+      const now = performance.now();
+      const playState = usePlayState.getState();
+      for (const id of interpolatorRef.current.playerIds()) {
+        const position = interpolatorRef.current.sample(id, now);
+        if (position && playState.players.has(id)) {
+          playState.updatePlayer(id, { position });
+        }
+      }
+      frame = requestAnimationFrame(render);
+    };
+    frame = requestAnimationFrame(render);
+
+    return () => cancelAnimationFrame(frame);
+  }, [state.isConnected]);
+
   // Initialize session on mount
   useEffect(() => {
     initializeSession();
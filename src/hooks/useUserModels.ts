@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuthStore } from '@/lib/store';
+import { AssetsService } from '@/services/api.service';
+import { GlbError, inspectGlb } from '@/shared/assets/glbInspect';
+import { forgetModelAsset } from '@/features/assets/modelAssets';
+import type { UserAssetRecord } from '@/types/assets';
+
+/** The current user's uploaded GLB models, for the block inventories. */
+export const useUserModels = () => {
+  const token = useAuthStore(s => s.token);
+  const [assets, setAssets] = useState<UserAssetRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!token) {
+      setAssets([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const { assets } = await AssetsService.listMyAssets();
+      setAssets(assets);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not load models');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => { void refresh(); }, [refresh]);
+
+  /** Upload a .glb; returns the new asset or throws with a user-facing message. */
+  const upload = useCallback(async (file: File) => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    // Reject obviously broken files before sending megabytes to the server
+    try {
+      if (!inspectGlb(bytes).bounds) throw new GlbError('Model has no geometry');
+    } catch (e) {
+      throw new Error(e instanceof GlbError ? e.message : 'File is not a GLB model');
+    }
+    const { asset } = await AssetsService.uploadModel(file, file.name);
+    setAssets(prev => [asset, ...prev]);
+    return asset;
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await AssetsService.deleteAsset(id);
+    forgetModelAsset(id);
+    setAssets(prev => prev.filter(asset => asset.id !== id));
+  }, []);
+
+  return { assets, loading, error, refresh, upload, remove };
+};
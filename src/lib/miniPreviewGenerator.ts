@@ -1,4 +1,6 @@
 import * as BABYLON from '@babylonjs/core';
+import type { TerrainData } from '@/types/project';
+import { createTerrainMesh } from '@/components/editor-enhanced/terrain/terrainMesh';
 
 type GenerateOptions = {
   width?: number;
@@ -7,6 +9,7 @@ type GenerateOptions = {
   usePipeline?: boolean; // enable FXAA/MSAA
   msaaSamples?: number; // default 2
   hardwareScale?: number; // e.g., 2 for 0.5 DPR
+  terrain?: TerrainData | null; // sculpted/splat-painted ground, rendered like the editor
 };
 
 type BlockLike = {
@@ -65,6 +68,11 @@ export async function generateMiniPreviewDataUrl(
     const dir = new BABYLON.DirectionalLight('light2', new BABYLON.Vector3(-1, -2, -1), scene);
     dir.intensity = 0.4;
 
+    let terrain: BABYLON.Mesh | null = null;
+    if (options.terrain) {
+      try { terrain = createTerrainMesh(scene, options.terrain); } catch { terrain = null; }
+    }
+
     const list = Array.isArray(blocks) ? blocks : [];
     if (list.length > 0) {
       // Compute bounds
@@ -77,17 +85,19 @@ export async function generateMiniPreviewDataUrl(
         minZ = Math.min(minZ, p.z); maxZ = Math.max(maxZ, p.z);
       }
 
-      // Ground sized to content
-      const margin = 2;
-      const groundW = Math.max(6, (maxX - minX) + margin * 2);
-      const groundD = Math.max(6, (maxZ - minZ) + margin * 2);
-      const ground = BABYLON.MeshBuilder.CreateGround('ground', { width: groundW, height: groundD }, scene);
-      ground.position = new BABYLON.Vector3((minX + maxX) / 2, 0, (minZ + maxZ) / 2);
-      const groundMat = new BABYLON.StandardMaterial('groundMat', scene);
-      groundMat.diffuseColor = new BABYLON.Color3(0.12, 0.14, 0.16);
-      groundMat.specularColor = new BABYLON.Color3(0, 0, 0);
-      ground.material = groundMat;
-      ground.receiveShadows = false;
+      // Ground sized to content (terrain already covers it)
+      if (!terrain) {
+        const margin = 2;
+        const groundW = Math.max(6, (maxX - minX) + margin * 2);
+        const groundD = Math.max(6, (maxZ - minZ) + margin * 2);
+        const ground = BABYLON.MeshBuilder.CreateGround('ground', { width: groundW, height: groundD }, scene);
+        ground.position = new BABYLON.Vector3((minX + maxX) / 2, 0, (minZ + maxZ) / 2);
+        const groundMat = new BABYLON.StandardMaterial('groundMat', scene);
+        groundMat.diffuseColor = new BABYLON.Color3(0.12, 0.14, 0.16);
+        groundMat.specularColor = new BABYLON.Color3(0, 0, 0);
+        ground.material = groundMat;
+        ground.receiveShadows = false;
+      }
 
       // Group blocks by (type, scale) and create thin instances
       const groups = new Map<string, { type: string; scale: number; items: BlockLike[] }>();
@@ -181,6 +191,11 @@ export async function generateMiniPreviewDataUrl(
     // Freeze for perf
     try { scene.freezeActiveMeshes(); } catch {}
 
+    // Terrain layer textures and the splat shader must be ready before the one frame
+    if (terrain) {
+      try { await scene.whenReadyAsync(); } catch { /* render what is ready */ }
+    }
+
     // Render single frame and capture
     scene.render();
 
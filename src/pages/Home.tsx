@@ -22,6 +22,7 @@ import { Badge } from '@/components/ui/badge';
 import { ArrowRight, Hammer, Share2, Sparkles, X } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import type { Block } from '@/types/project';
+import { migrateBlocks, migrateProject } from '@/features/projects/projectFormat';
 
 type PublishedGame = {
   id: string;
@@ -152,7 +153,7 @@ const Home = () => {
     (async () => {
       try {
         const resp = await apiFetch<{ game: { blocks: Block[] } }>(`/games/demo/public`);
-        setDemoBlocks(Array.isArray(resp.game.blocks) ? resp.game.blocks : []);
+        setDemoBlocks(Array.isArray(resp.game.blocks) ? migrateBlocks(resp.game.blocks) : []);
       } catch {}
     })();
     // Load dynamic news and creators
@@ -180,14 +181,15 @@ const Home = () => {
   const openInEditor = async (id: string, name: string) => {
     try {
       // Use public endpoint to allow opening published games without requiring auth
-      const resp = await apiFetch<{ game: { id: string; name: string; blocks: any } }>(`/games/${id}/public`);
-      const projectData = {
+      const resp = await apiFetch<{ game: { id: string; name: string; blocks: any; logic?: any; animations?: any } }>(`/games/${id}/public`);
+      // Server games store bare block lists; bring them up to the current project format
+      const projectData = migrateProject({
         id: resp.game.id,
         name: resp.game.name,
         blocks: resp.game.blocks,
-        timestamp: new Date().toISOString(),
-        version: '1.2.0',
-      };
+        logic: Array.isArray(resp.game.logic) ? resp.game.logic : [],
+        animations: Array.isArray(resp.game.animations) ? resp.game.animations : [],
+      });
       localStorage.setItem('sandbox-current-project', JSON.stringify(projectData));
       const slug = encodeURIComponent((name || resp.game.name).trim().toLowerCase().replace(/\s+/g, '-'));
       navigate(`/editor/${slug}`);
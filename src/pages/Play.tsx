@@ -1,9 +1,16 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import Scene3D from '@/components/Scene3D';
 import type { Block } from '@/components/scene/types';
 import { apiFetch } from '@/lib/api';
+import { toast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
+import { RunRecorder, type Pose, type RunRecord } from '@/features/runs/runRecorder';
+import { GhostReplay, type GhostRun, type GhostScope, type GhostSkin } from '@/features/runs/ghostReplay';
+import { usePlayerSettingsStore } from '@/features/player/store';
+import { migrateBlocks } from '@/features/projects/projectFormat';
+import { parseTerrainData } from '@/features/terrain/terrainData';
+import type { EnvironmentSettings, LogicTrigger, TerrainData } from '@/types/project';
 
 type PublicGame = {
   id: string;
@@ -11,8 +18,22 @@ type PublicGame = {
   blocks: Block[];
   updatedAt: string;
   likes?: number;
+  environment?: EnvironmentSettings | null;
+  terrain?: string | TerrainData | null;
+  logic?: LogicTrigger[];
 };
 
+type Scene3DHandle = {
+  getPlayerPosition?: () => { x: number; y: number; z: number } | null;
+  getPlayerYaw?: () => number | null;
+  setGhostPose?: (pose: Pose | null) => void;
+  setGhostSkin?: (skin: GhostSkin | null) => void;
+};
+
+const scene3D = () => (window as unknown as { scene3D?: Scene3DHandle }).scene3D;
+
+const GHOST_LABELS: Record<GhostScope | 'off', string> = { off: 'Wył.', best: 'Najlepszy', personal: 'Mój rekord' };
+
 const Play = () => {
   const navigate = useNavigate();
   const { id } = useParams();
@@ -26,6 +47,11 @@ const Play = () => {
   const [elapsedMs, setElapsedMs] = useState<number>(0);
   const [leaderboard, setLeaderboard] = useState<{ id: string; name: string; timeMs: number; createdAt: string }[]>([]);
   const [finished, setFinished] = useState<boolean>(false);
+  const recorderRef = useRef(new RunRecorder());
+  const [ghostScope, setGhostScope] = useState<GhostScope | 'off'>('off');
+  const [ghost, setGhost] = useState<GhostRun | null>(null);
+  const [ghostRefresh, setGhostRefresh] = useState<number>(0);
+  const ghostReplayRef = useRef<GhostReplay | null>(null);
 
   useEffect(() => {
     let mounted = true;
@@ -78,13 +104,41 @@ const Play = () => {
     if (startAt === null) return;
     let raf: number;
     const tick = () => {
-      setElapsedMs(performance.now() - (startAt || 0));
+      const now = performance.now();
+      setElapsedMs(now - (startAt || 0));
+      if (recorderRef.current.recording) {
+        const pos = scene3D()?.getPlayerPosition?.();
+        const yaw = scene3D()?.getPlayerYaw?.();
+        if (pos) recorderRef.current.sample(now, { x: pos.x, y: pos.y, z: pos.z, yaw: yaw ?? undefined });
+      }
+      // Ghost runs on the same clock as the timer
+      const replay = ghostReplayRef.current;
+      if (replay) scene3D()?.setGhostPose?.(replay.poseAt(now - (startAt || 0)));
       raf = requestAnimationFrame(tick);
     };
     raf = requestAnimationFrame(tick);
-    return () => cancelAnimationFrame(raf);
+    return () => { cancelAnimationFrame(raf); scene3D()?.setGhostPose?.(null); };
   }, [startAt]);
 
+  useEffect(() => {
+    let mounted = true;
+    ghostReplayRef.current = null;
+    setGhost(null);
+    if (!id || ghostScope === 'off') return;
+    (async () => {
+      try {
+        const resp = await apiFetch<{ ghost: GhostRun }>(`/games/${id}/leaderboard/ghost?scope=${ghostScope}`);
+        if (!mounted) return;
+        ghostReplayRef.current = new GhostReplay(resp.ghost.samples);
+        scene3D()?.setGhostSkin?.(resp.ghost.skin ?? null);
+        setGhost(resp.ghost);
+      } catch {
+        // No stored replay for this scope yet; the button stays on without a ghost
+      }
+    })();
+    return () => { mounted = false; };
+  }, [id, ghostScope, ghostRefresh]);
+
   const toggleLike = async () => {
     if (!id) return;
     try {
@@ -98,14 +152,28 @@ const Play = () => {
     } catch {}
   };
 
-  const submitScore = async () => {
-    if (!id || !startAt) return;
+  // Scores are only accepted with a finished run record the server can verify
+  const submitScore = async (run: RunRecord | null = recorderRef.current.result) => {
+    if (!id || !run) return;
+    // The ghost of this run is drawn in the runner's skin; voxel art stays local
+    const { skinId, colors, config } = usePlayerSettingsStore.getState();
+    const { voxels: _voxels, ...skinConfig } = config;
+    const skin: GhostSkin = { skinId, colors, config: skinConfig };
     try {
-      const timeMs = Math.round(elapsedMs);
-      await apiFetch(`/games/${id}/leaderboard`, { method: 'POST', body: JSON.stringify({ timeMs }) });
+      await apiFetch(`/games/${id}/leaderboard`, { method: 'POST', body: JSON.stringify({ timeMs: run.durationMs, run, skin }) });
       const lb = await apiFetch<{ leaderboard: { id: string; name: string; timeMs: number; createdAt: string }[] }>(`/games/${id}/leaderboard`);
       setLeaderboard(lb.leaderboard || []);
-    } catch {}
+      // A new best may replace the current ghost
+      if (ghostScope !== 'off' && (!ghost || run.durationMs < ghost.timeMs)) setGhostRefresh((n) => n + 1);
+      toast({ title: 'Wynik zapisany', description: `Czas: ${fmt(run.durationMs)}` });
+    } catch (error) {
+      console.error('Failed to submit score:', error);
+      toast({ title: 'Błąd', description: 'Nie udało się zapisać wyniku', variant: 'destructive' });
+    }
+  };
+
+  const cycleGhost = () => {
+    setGhostScope((s) => (s === 'off' ? 'best' : s === 'best' ? 'personal' : 'off'));
   };
 
   const fmt = (ms: number) => {
@@ -116,9 +184,17 @@ const Play = () => {
   };
 
   const blocks: Block[] = useMemo(() => {
-    return Array.isArray(game?.blocks) ? game!.blocks : [];
+    if (!Array.isArray(game?.blocks)) return [];
+    try {
+      return migrateBlocks(game!.blocks) as Block[];
+    } catch {
+      // Leave unreadable levels as stored rather than showing an empty scene
+      return game!.blocks;
+    }
   }, [game]);
 
+  const terrain = useMemo(() => parseTerrainData(game?.terrain), [game]);
+
   return (
     <div className="relative w-full h-screen bg-gradient-bg">
       {/* Top overlay */}
@@ -133,6 +209,9 @@ const Play = () => {
           <Button size="sm" variant="outline" onClick={() => setCameraMode((m) => (m === 'first' ? 'orbit' : 'first'))}>
             Kamera: {cameraMode === 'first' ? 'Pierwsza' : 'Orbita'}
           </Button>
+          <Button size="sm" variant={ghostScope === 'off' ? 'outline' : 'default'} onClick={cycleGhost} title={ghost ? `${ghost.name} – ${fmt(ghost.timeMs)}` : undefined}>
+            Duch: {GHOST_LABELS[ghostScope]}
+          </Button>
           <Button size="sm" onClick={() => { try { navigator.clipboard.writeText(window.location.href); } catch {} }}>Kopiuj link</Button>
           <Button size="sm" variant={youLike ? 'default' : 'outline'} onClick={toggleLike}>{youLike ? '❤️' : '🤍'} {likes}</Button>
         </div>
@@ -144,18 +223,22 @@ const Play = () => {
           loadedBlocks={blocks}
           isPlayMode={true}
           cameraMode={cameraMode}
-          onGameStart={() => { setFinished(false); setElapsedMs(0); setStartAt(performance.now()); try { (window as any).toast?.({ title: 'Start!', description: 'Timer uruchomiony.' }); } catch {} }}
-          onGameCheckpoint={() => { try { (window as any).toast?.({ title: 'Checkpoint', description: 'Zapisano punkt odrodzenia.' }); } catch {} }}
-          onGameFinish={() => { if (!finished) { setFinished(true); submitScore(); try { (window as any).toast?.({ title: 'Meta!', description: 'Wynik zapisany.' }); } catch {} } }}
-          onGameHazard={() => { try { (window as any).toast?.({ title: 'Ups!', description: 'Powrót do checkpointu.' }); } catch {} }}
+          environment={game?.environment ?? null}
+          terrain={terrain}
+          logic={game?.logic ?? null}
+          onGameStart={(pos) => { const now = performance.now(); recorderRef.current.start(now, pos); setFinished(false); setElapsedMs(0); setStartAt(now); toast({ title: 'Start!', description: 'Timer uruchomiony.' }); }}
+          onGameCheckpoint={(pos) => { recorderRef.current.checkpoint(performance.now(), pos); toast({ title: 'Checkpoint', description: 'Zapisano punkt odrodzenia.' }); }}
+          onGameFinish={(pos) => { if (!finished) { const run = recorderRef.current.finish(performance.now(), pos); setFinished(true); setStartAt(null); if (run) setElapsedMs(run.durationMs); submitScore(run); toast({ title: 'Meta!', description: 'Zapisywanie wyniku…' }); } }}
+          onGameHazard={() => { toast({ title: 'Ups!', description: 'Powrót do checkpointu.' }); }}
+          onGameRoundEnd={(outcome) => { if (outcome === 'lose') toast({ title: 'Przegrana', description: 'Powrót do checkpointu.' }); }}
         />
       </div>
 
       {/* Bottom overlay: timer & submit */}
       <div className="absolute bottom-3 left-1/2 -translate-x-1/2 z-10 pointer-events-auto flex items-center gap-2 bg-card/90 border border-border rounded-xl px-3 py-2 shadow-lg">
         <div className="text-sm">Czas: <span className="font-semibold">{fmt(elapsedMs)}</span></div>
-        <Button size="sm" variant="outline" onClick={() => { setFinished(false); setStartAt(performance.now()); setElapsedMs(0); }}>Reset</Button>
-        <Button size="sm" onClick={submitScore}>Zapisz wynik</Button>
+        <Button size="sm" variant="outline" onClick={() => { recorderRef.current.reset(); setFinished(false); setStartAt(null); setElapsedMs(0); }}>Reset</Button>
+        <Button size="sm" onClick={() => submitScore()}>Zapisz wynik</Button>
       </div>
 
       {/* Right overlay: leaderboard */}
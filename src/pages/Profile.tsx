@@ -10,6 +10,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Camera, Trash2 } from 'lucide-react';
 import { apiFetch } from '@/lib/api';
 import Navbar from '@/components/Navbar';
+import { WalletHistory } from '@/components/profile/WalletHistory';
 
 const Profile = () => {
   const user = useAuthStore(s => s.user);
@@ -213,6 +214,9 @@ const Profile = () => {
                   </div>
                 </div>
               </div>
+              <div className="pt-6 border-t">
+                <WalletHistory />
+              </div>
               <div className="pt-2 border-t mt-2">
                 <Button type="button" variant="destructive" onClick={onDeleteAccount}>Usuń konto</Button>
               </div>
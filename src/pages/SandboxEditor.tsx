@@ -13,6 +13,9 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { useAuthStore } from '@/lib/store';
 import { useProjectStore } from '@/lib/projectStore';
 import type { Block } from '@/types/project';
+import { migrateProject } from '@/features/projects/projectFormat';
+import { BLOCKSCAPE_EXTENSION, readBlockscapeArchive } from '@/shared/projects/blockscapeArchive';
+import type { GlbExportOptions } from '@/components/scene/export/exportGlb';
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
 
 // Types centralized in '@/types/project'
@@ -43,6 +46,7 @@ const SandboxEditor = () => {
   const setPlaceMultiple = useProjectStore(s => (s as any).setPlaceMultiple);
   const loadCurrentProject = useProjectStore(s => s.loadCurrentProject);
   const loadProject = useProjectStore(s => s.loadProject);
+  const importProject = useProjectStore(s => s.importProject);
   const renameProject = useProjectStore(s => s.renameProject);
   const newProject = useProjectStore(s => s.newProject);
   const saveProject = useProjectStore(s => s.saveProject);
@@ -144,6 +148,63 @@ const SandboxEditor = () => {
     }
   }, [loadCurrentProject, toast]);
 
+  const handleExportGlb = useCallback(async (options: GlbExportOptions) => {
+    const scene = (window as unknown as { scene3D?: { exportGlb?: (o: GlbExportOptions) => Promise<ArrayBuffer> } }).scene3D;
+    if (!scene?.exportGlb) return;
+    try {
+      const glb = await scene.exportGlb(options);
+      const url = URL.createObjectURL(new Blob([glb], { type: 'model/gltf-binary' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${projectName.trim().replace(/\s+/g, '-').toLowerCase() || 'level'}.glb`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+      toast({ title: 'Exported as GLB', description: `"${projectName}" (${(glb.byteLength / 1024).toFixed(0)} KB)` });
+    } catch (err) {
+      toast({ title: 'GLB export failed', description: err instanceof Error ? err.message : 'Try again.', variant: 'destructive' });
+    }
+  }, [projectName, toast]);
+
+  // Drag-and-drop of a .blockscape archive opens it as a new, unsaved project
+  const [archiveDragOver, setArchiveDragOver] = useState(false);
+  const isFileDrag = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleArchiveDragOver = useCallback((e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setArchiveDragOver(true);
+  }, []);
+
+  const handleArchiveDragLeave = useCallback((e: React.DragEvent) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setArchiveDragOver(false);
+  }, []);
+
+  const handleArchiveDrop = useCallback(async (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    setArchiveDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (!file || !file.name.toLowerCase().endsWith(BLOCKSCAPE_EXTENSION)) {
+      toast({ title: 'Unsupported file', description: `Drop a ${BLOCKSCAPE_EXTENSION} project archive.`, variant: 'destructive' });
+      return;
+    }
+    if (hasUnsavedChanges && !window.confirm('You have unsaved changes. Replace them with the imported project?')) return;
+    try {
+      const { project, thumbnail } = readBlockscapeArchive(new Uint8Array(await file.arrayBuffer()));
+      const imported = migrateProject({ ...project, ...(thumbnail ? { thumbnailUrl: thumbnail } : {}) });
+      (window as unknown as { scene3D?: { clearScene?: () => void } }).scene3D?.clearScene?.();
+      importProject(imported);
+      setShowStarter(false);
+      toast({ title: 'Project Imported!', description: `"${imported.name}" imported with ${imported.blocks.length} objects. Save to keep it.` });
+    } catch (err) {
+      toast({ title: 'Import failed', description: err instanceof Error ? err.message : 'The archive could not be read.', variant: 'destructive' });
+    }
+  }, [hasUnsavedChanges, importProject, toast]);
+
   const handleClear = useCallback(() => {
     if (typeof window !== 'undefined' && (window as any).scene3D) {
       (window as any).scene3D.clearScene();
@@ -296,7 +357,17 @@ const SandboxEditor = () => {
   }, [noUiModeEnabled, setNoUiModeEnabled]);
 
   return (
-    <div className="h-screen w-full overflow-hidden bg-gradient-bg">
+    <div
+      className="relative h-screen w-full overflow-hidden bg-gradient-bg"
+      onDragOver={handleArchiveDragOver}
+      onDragLeave={handleArchiveDragLeave}
+      onDrop={handleArchiveDrop}
+    >
+      {archiveDragOver && (
+        <div className="pointer-events-none absolute inset-0 z-50 flex items-center justify-center border-4 border-dashed border-primary bg-background/70">
+          <span className="text-lg font-medium">Drop a {BLOCKSCAPE_EXTENSION} archive to import it</span>
+        </div>
+      )}
       <ResizablePanelGroup direction="horizontal" className="h-full" onLayout={() => window.dispatchEvent(new Event('resize'))}>
         <ResizablePanel defaultSize={22} minSize={16}>
           <Sidebar
@@ -308,6 +379,7 @@ const SandboxEditor = () => {
             onNewProject={handleNewProject}
             onLoadProject={handleLoadProject}
             onRenameProject={handleRenameProject}
+            onExportGlb={handleExportGlb}
             onToggleInspector={() => setInspectorOpen(true)}
             userName={userName || undefined}
             blockCount={blocks.length}
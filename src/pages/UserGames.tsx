@@ -18,7 +18,10 @@ import Navbar from '@/components/Navbar';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import MiniPreview from '@/components/MiniPreview';
-import type { Block } from '@/types/project';
+import type { Block, EnvironmentSettings } from '@/types/project';
+import { migrateBlocks, migrateProject } from '@/features/projects/projectFormat';
+import { ProjectService } from '@/services/api.service';
+import { BLOCKSCAPE_EXTENSION, isBlockscapeArchive } from '@/shared/projects/blockscapeArchive';
 
 interface GameSummary {
   id: string;
@@ -210,6 +213,7 @@ const UserGames = () => {
   // Lazy mini preview that fetches blocks on first viewport entry
   const LazyMiniPreview = ({ gameId, initialBlocks }: { gameId: string; initialBlocks?: Block[] }) => {
     const [blocks, setBlocks] = useState<Block[]>(initialBlocks || []);
+    const [environment, setEnvironment] = useState<EnvironmentSettings | null>(null);
     const [loaded, setLoaded] = useState<boolean>(!!initialBlocks);
     const loadingRef = useRef<boolean>(false);
     const containerRef = useRef<HTMLDivElement | null>(null);
@@ -223,8 +227,9 @@ const UserGames = () => {
           if (entry.isIntersecting && !loadingRef.current) {
             loadingRef.current = true;
             try {
-              const detail = await apiFetch<{ game: { id: string; blocks: Block[] } }>(`/games/${gameId}`);
-              setBlocks(Array.isArray(detail.game.blocks) ? detail.game.blocks : []);
+              const detail = await apiFetch<{ game: { id: string; blocks: Block[]; environment?: EnvironmentSettings | null } }>(`/games/${gameId}`);
+              setBlocks(Array.isArray(detail.game.blocks) ? migrateBlocks(detail.game.blocks) : []);
+              setEnvironment(detail.game.environment ?? null);
               setLoaded(true);
             } catch {}
             observer.disconnect();
@@ -237,7 +242,7 @@ const UserGames = () => {
 
     return (
       <div ref={containerRef} className="h-24 bg-card/60">
-        <MiniPreview className="w-full h-full" blocks={blocks} />
+        <MiniPreview className="w-full h-full" blocks={blocks} environment={environment} />
       </div>
     );
   };
@@ -271,36 +276,63 @@ const UserGames = () => {
     }
   };
 
-  const exportSelected = async () => {
-    if (!hasSelection) return;
+  const exportGames = async (ids: string[]) => {
     try {
-      const ids = Array.from(selectedIds);
-      const details = await Promise.all(ids.map(id => apiFetch<{ game: { id: string; name: string; blocks: any; published?: boolean; updatedAt: string } }>(`/games/${id}`)));
-      const out = details.map(d => d.game);
-      const blob = new Blob([JSON.stringify(out, null, 2)], { type: 'application/json' });
+      const { blob, filename } = await ProjectService.exportArchive(ids);
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `blockscape-projects-${new Date().toISOString().slice(0,10)}.json`;
+      a.download = filename || `blockscape-projects-${new Date().toISOString().slice(0,10)}${ids.length === 1 ? BLOCKSCAPE_EXTENSION : '.zip'}`;
       document.body.appendChild(a);
       a.click();
       a.remove();
       URL.revokeObjectURL(url);
-      toast({ title: 'Wyeksportowano projekty' });
+      toast({ title: ids.length === 1 ? 'Wyeksportowano projekt' : 'Wyeksportowano projekty' });
     } catch (e: any) {
       toast({ title: 'Nie udało się wyeksportować', description: e?.message || 'Spróbuj ponownie.', variant: 'destructive' });
     }
   };
 
+  const exportSelected = async () => {
+    if (!hasSelection) return;
+    await exportGames(Array.from(selectedIds));
+  };
+
+  const onImportArchive = async (file: File) => {
+    try {
+      const { game, warnings } = await ProjectService.importArchive(file);
+      setGames(prev => [{ id: game.id, name: game.name, updatedAt: game.updatedAt }, ...prev]);
+      toast({
+        title: `Zaimportowano „${game.name}”`,
+        ...(warnings.length > 0 ? { description: warnings.join(' ') } : {}),
+      });
+    } catch (e: any) {
+      toast({ title: 'Import nieudany', description: e?.message || 'Plik .blockscape jest uszkodzony.', variant: 'destructive' });
+    }
+  };
+
+  const onImportFile = async (file: File) => {
+    const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+    if (file.name.toLowerCase().endsWith(BLOCKSCAPE_EXTENSION) || isBlockscapeArchive(head)) {
+      await onImportArchive(file);
+    } else {
+      await onImportJson(file);
+    }
+  };
+
   const onImportJson = async (file: File) => {
     try {
       const text = await file.text();
       const data = JSON.parse(text);
       const items = Array.isArray(data) ? data : [data];
-      const created = await Promise.allSettled(items.map((it: any) => apiFetch<{ game: { id: string; name: string; updatedAt: string } }>(`/games`, {
-        method: 'POST',
-        body: JSON.stringify({ name: it.name || 'Imported Project', blocks: it.blocks || [], published: !!it.published })
-      })));
+      // Files from older versions (or bare block lists) are upgraded first; unreadable items are skipped
+      const created = await Promise.allSettled(items.map(async (it: unknown) => {
+        const project = migrateProject({ name: 'Imported Project', ...(it as object) });
+        return apiFetch<{ game: { id: string; name: string; updatedAt: string } }>(`/games`, {
+          method: 'POST',
+          body: JSON.stringify({ name: project.name, blocks: project.blocks, published: !!project.published })
+        });
+      }));
       const newOnes = created
         .filter((r): r is PromiseFulfilledResult<any> => r.status === 'fulfilled')
         .map(r => ({ id: r.value.game.id, name: r.value.game.name, updatedAt: r.value.game.updatedAt }));
@@ -317,14 +349,17 @@ const UserGames = () => {
 
   const openInEditor = async (id: string) => {
     try {
-      const resp = await apiFetch<{ game: { id: string; name: string; blocks: any } }>(`/games/${id}`);
-      const projectData = {
+      const resp = await apiFetch<{ game: { id: string; name: string; blocks: any; logic?: any; animations?: any; selectionSets?: unknown; prefabs?: unknown; environment?: EnvironmentSettings | null } }>(`/games/${id}`);
+      const projectData = migrateProject({
         id: resp.game.id,
         name: resp.game.name,
         blocks: resp.game.blocks,
-        timestamp: new Date().toISOString(),
-        version: '1.2.0',
-      };
+        logic: Array.isArray(resp.game.logic) ? resp.game.logic : [],
+        animations: Array.isArray(resp.game.animations) ? resp.game.animations : [],
+        selectionSets: Array.isArray(resp.game.selectionSets) ? resp.game.selectionSets : [],
+        prefabs: Array.isArray(resp.game.prefabs) ? resp.game.prefabs : [],
+        ...(resp.game.environment ? { environment: resp.game.environment } : {}),
+      });
       localStorage.setItem('sandbox-current-project', JSON.stringify(projectData));
       const slug = encodeURIComponent(resp.game.name.trim().replace(/\s+/g, '-').toLowerCase());
       navigate(`/editor/${slug}`);
@@ -345,17 +380,17 @@ const UserGames = () => {
           <div className="flex items-center gap-3">
             <input
               type="file"
-              accept="application/json"
+              accept={`${BLOCKSCAPE_EXTENSION},application/json`}
               className="hidden"
               onChange={(e) => {
                 const f = e.target.files?.[0];
-                if (f) onImportJson(f);
+                if (f) onImportFile(f);
                 e.currentTarget.value = '';
               }}
               id="import-json-input"
             />
             <Button variant="outline" onClick={() => document.getElementById('import-json-input')?.click()}>
-              <Upload className="mr-1" /> Import JSON
+              <Upload className="mr-1" /> Importuj
             </Button>
             <Button variant="hero" onClick={() => navigate('/editor/nowy-projekt')}>Nowy projekt</Button>
           </div>
@@ -408,7 +443,7 @@ const UserGames = () => {
                 <div className="flex items-center gap-2">
                   <Button size="sm" variant="outline" onClick={() => bulkPublish(true)} className="text-[hsl(var(--brand-market))] border-[hsl(var(--brand-market))]/30 hover:bg-[hsl(var(--brand-market))]/10"><Globe /> Opublikuj</Button>
                   <Button size="sm" variant="outline" onClick={() => bulkPublish(false)}><EyeOff /> Cofnij publikację</Button>
-                  <Button size="sm" variant="outline" onClick={exportSelected}><Download /> Eksport JSON</Button>
+                  <Button size="sm" variant="outline" onClick={exportSelected}><Download /> Eksport .blockscape</Button>
                   <Button size="sm" variant="destructive" onClick={bulkDelete}><Trash2 /> Usuń</Button>
                 </div>
               </div>
@@ -432,7 +467,7 @@ const UserGames = () => {
             ) : filteredGames.length === 0 ? (
               <div className="text-sm text-muted-foreground">
                 Brak gier. Zapisz projekt w edytorze, <Button variant="link" className="px-1" onClick={() => navigate('/editor/nowy-projekt')}>utwórz nowy</Button>
-                lub <Button variant="link" className="px-1" onClick={() => document.getElementById('import-json-input')?.click()}>zaimportuj z JSON</Button>.
+                lub <Button variant="link" className="px-1" onClick={() => document.getElementById('import-json-input')?.click()}>zaimportuj plik .blockscape lub JSON</Button>.
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -472,6 +507,9 @@ const UserGames = () => {
                                 <DropdownMenuItem onClick={() => onDuplicate(g.id, g.name)} disabled={duplicating === g.id}>
                                   <Copy className="mr-2 h-4 w-4" /> {duplicating === g.id ? 'Duplikowanie…' : 'Duplikuj'}
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => exportGames([g.id])}>
+                                  <Download className="mr-2 h-4 w-4" /> Eksport .blockscape
+                                </DropdownMenuItem>
                                 {g.published ? (
                                   <DropdownMenuItem onClick={() => togglePublish(g.id, false)}>
                                     Ukryj (cofnij publikację)
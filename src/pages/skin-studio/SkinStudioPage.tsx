@@ -41,7 +41,7 @@ const SkinStudioPage = () => {
             />
           </TabsContent>
           <TabsContent value="library">
-            <LibraryPanel library={library} isActionBusy={isActionBusy} />
+            <LibraryPanel library={library} currentUserId={currentUser?.id} isActionBusy={isActionBusy} />
           </TabsContent>
           <TabsContent value="marketplace">
             <MarketplacePanel
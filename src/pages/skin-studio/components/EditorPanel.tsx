@@ -375,6 +375,7 @@ const EditorPanel = ({ canvasRef, editor, onOpenLibrary, onOpenMarketplace }: Ed
                 >
                   <option value="boy">Boy</option>
                   <option value="girl">Girl</option>
+                  <option value="voxel">Painted voxels</option>
                 </select>
               </div>
               <div className="grid gap-4 sm:grid-cols-2">
@@ -10,10 +10,11 @@ import type { LibraryState } from "../types";
 
 interface LibraryPanelProps {
   library: LibraryState;
+  currentUserId?: string;
   isActionBusy: (key: string) => boolean;
 }
 
-const LibraryPanel = ({ library, isActionBusy }: LibraryPanelProps) => {
+const LibraryPanel = ({ library, currentUserId, isActionBusy }: LibraryPanelProps) => {
   const {
     isAuthenticated,
     newSkinName,
@@ -112,6 +113,7 @@ const LibraryPanel = ({ library, isActionBusy }: LibraryPanelProps) => {
             <MySkinCard
               key={skin.id}
               skin={skin}
+              currentUserId={currentUserId}
               onLoad={actions.load}
               onApply={actions.apply}
               onTogglePublish={actions.togglePublish}
@@ -119,6 +121,9 @@ const LibraryPanel = ({ library, isActionBusy }: LibraryPanelProps) => {
               onCreateListing={actions.createListing}
               onUpdateListing={actions.updateListing}
               onCancelListing={actions.cancelListing}
+              onSetRoyalty={actions.setRoyalty}
+              onAcceptOffer={actions.acceptOffer}
+              onRejectOffer={actions.rejectOffer}
               isBusy={isActionBusy}
             />
           ))
@@ -1,26 +1,69 @@
-﻿import { Loader2 } from "lucide-react";
+﻿import { useEffect, useState } from "react";
+import { Eye, EyeOff, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { formatPrice, type SkinListingWithSkin } from "@/types/skins";
+import { Input } from "@/components/ui/input";
+import { auctionEnded, formatPrice, highestBid, minimumBid, type SkinListingWithSkin } from "@/types/skins";
 
 interface MarketplaceCardProps {
   listing: SkinListingWithSkin;
   currentUserId?: string;
+  watched: boolean;
   onPreview: (listing: SkinListingWithSkin) => void;
   onPurchase: (listing: SkinListingWithSkin) => Promise<void> | void;
+  onBid: (listing: SkinListingWithSkin, amount: string) => Promise<void>;
+  onOffer: (listing: SkinListingWithSkin, amount: string) => Promise<void>;
+  onToggleWatch: (listing: SkinListingWithSkin) => void;
   isBusy: (key: string) => boolean;
 }
 
+const formatTimeLeft = (ms: number): string => {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return ms < 60000 ? `${Math.ceil(ms / 1000)}s` : `${minutes}m`;
+};
+
 const MarketplaceCard = ({
   listing,
   currentUserId,
+  watched,
   onPreview,
   onPurchase,
+  onBid,
+  onOffer,
+  onToggleWatch,
   isBusy,
 }: MarketplaceCardProps) => {
-  const isOwner = listing.sellerId === currentUserId;
+  const isOwner = listing.skin.ownerId === currentUserId;
+  const isAuction = listing.type === "AUCTION";
   const busyPurchase = isBusy(`listing-purchase-${listing.id}`);
+  const busyBid = isBusy(`listing-bid-${listing.id}`);
+  const busyOffer = isBusy(`listing-offer-${listing.id}`);
+  const [amount, setAmount] = useState<string>("");
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  const ended = auctionEnded(listing, now);
+  const topBid = highestBid(listing);
+  const leading = !!topBid && topBid.bidderId === currentUserId;
+
+  // Tick the countdown while the auction runs
+  useEffect(() => {
+    if (!isAuction || ended) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [isAuction, ended]);
+
+  const submitAmount = async () => {
+    if (!amount.trim()) return;
+    if (isAuction) await onBid(listing, amount);
+    else await onOffer(listing, amount);
+    setAmount("");
+  };
 
   return (
     <Card className="border-white/10 bg-white/5">
@@ -29,7 +72,20 @@ const MarketplaceCard = ({
           <CardTitle className="text-base font-semibold text-white/90">{listing.skin.name}</CardTitle>
           <p className="text-xs text-white/60">Listing ID: {listing.id}</p>
         </div>
-        {isOwner ? <Badge variant="outline">My listing</Badge> : null}
+        <div className="flex items-center gap-2">
+          {isAuction ? <Badge variant="secondary">Auction</Badge> : null}
+          {isOwner ? <Badge variant="outline">My listing</Badge> : null}
+          {leading && !ended ? <Badge>Leading</Badge> : null}
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            onClick={() => onToggleWatch(listing)}
+            title={watched ? "Stop watching" : "Watch"}
+          >
+            {watched ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+          </Button>
+        </div>
       </CardHeader>
       <CardContent className="space-y-3">
         {listing.skin.thumbnail ? (
@@ -42,22 +98,66 @@ const MarketplaceCard = ({
           <span className="text-right">{listing.seller?.name ?? listing.sellerId ?? "Unknown"}</span>
           <span>Created</span>
           <span className="text-right">{new Date(listing.createdAt).toLocaleDateString()}</span>
-          <span>Price</span>
-          <span className="text-right font-semibold text-white">{formatPrice(listing.price, listing.currency)}</span>
+          {isAuction ? (
+            <>
+              <span>{topBid ? "Current bid" : "Starting bid"}</span>
+              <span className="text-right font-semibold text-white">
+                {formatPrice(topBid?.amount ?? listing.price, listing.currency)}
+              </span>
+              <span>Bids</span>
+              <span className="text-right">{listing._count?.bids ?? 0}</span>
+              <span>Ends</span>
+              <span className="text-right">
+                {ended || !listing.endsAt ? "Ended" : formatTimeLeft(new Date(listing.endsAt).getTime() - now)}
+              </span>
+            </>
+          ) : (
+            <>
+              <span>Price</span>
+              <span className="text-right font-semibold text-white">{formatPrice(listing.price, listing.currency)}</span>
+            </>
+          )}
+          {listing.skin.royaltyPercent > 0 ? (
+            <>
+              <span>Creator royalty</span>
+              <span className="text-right">{listing.skin.royaltyPercent}%</span>
+            </>
+          ) : null}
         </div>
+        {!isOwner && !(isAuction && ended) ? (
+          <div className="flex gap-2">
+            <Input
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+              placeholder={isAuction ? `Min. ${formatPrice(minimumBid(listing), listing.currency)}` : "Your offer"}
+              className="border-white/10 bg-white/10"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={submitAmount}
+              disabled={!amount.trim() || (isAuction ? busyBid : busyOffer)}
+            >
+              {(isAuction ? busyBid : busyOffer) ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              {isAuction ? "Bid" : "Offer"}
+            </Button>
+          </div>
+        ) : null}
       </CardContent>
       <CardFooter className="flex flex-wrap gap-2">
         <Button size="sm" variant="outline" onClick={() => onPreview(listing)}>
           Preview
         </Button>
-        <Button
-          size="sm"
-          onClick={() => onPurchase(listing)}
-          disabled={isOwner || busyPurchase}
-        >
-          {busyPurchase ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-          {isOwner ? "Your listing" : "Buy"}
-        </Button>
+        {isAuction ? null : (
+          <Button
+            size="sm"
+            onClick={() => onPurchase(listing)}
+            disabled={isOwner || busyPurchase}
+          >
+            {busyPurchase ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+            {isOwner ? "Your listing" : "Buy"}
+          </Button>
+        )}
       </CardFooter>
     </Card>
   );
@@ -1,8 +1,9 @@
-﻿import { Loader2 } from "lucide-react";
+﻿import { Loader2, Wallet } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import { formatPrice } from "@/types/skins";
 import type { MarketplaceState } from "../types";
 import MarketplaceCard from "./MarketplaceCard";
 
@@ -23,11 +24,22 @@ const MarketplacePanel = ({ marketplace, currentUserId, isActionBusy }: Marketpl
     filteredListings,
     loading,
     refresh,
+    wallet,
+    watchedIds,
     actions,
   } = marketplace;
 
   return (
     <div className="space-y-4">
+      {wallet ? (
+        <div className="flex items-center justify-between rounded-md border border-white/10 bg-white/5 px-3 py-2 text-sm">
+          <span className="flex items-center gap-2 text-white/70">
+            <Wallet className="h-4 w-4" />
+            Balance
+          </span>
+          <span className="font-semibold text-white">{formatPrice(wallet.balance, wallet.currency)}</span>
+        </div>
+      ) : null}
       <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
         <Input
           placeholder="Search marketplace"
@@ -42,6 +54,7 @@ const MarketplacePanel = ({ marketplace, currentUserId, isActionBusy }: Marketpl
             <SelectItem value="available">Available</SelectItem>
             <SelectItem value="all">All</SelectItem>
             <SelectItem value="owned">My offers</SelectItem>
+            <SelectItem value="watching">Watching</SelectItem>
           </SelectContent>
         </Select>
       </div>
@@ -75,8 +88,12 @@ const MarketplacePanel = ({ marketplace, currentUserId, isActionBusy }: Marketpl
               key={listing.id}
               listing={listing}
               currentUserId={currentUserId}
+              watched={watchedIds.includes(listing.id)}
               onPreview={actions.preview}
               onPurchase={actions.purchase}
+              onBid={actions.bid}
+              onOffer={actions.offer}
+              onToggleWatch={actions.toggleWatch}
               isBusy={isActionBusy}
             />
           ))
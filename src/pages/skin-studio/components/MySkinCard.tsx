@@ -3,23 +3,37 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/componen
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
-import { formatPrice, type SkinWithListings } from '@/types/skins';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatPrice, highestBid, type SkinListingType, type SkinWithListings } from '@/types/skins';
 import { Loader2 } from 'lucide-react';
+import type { AuctionListingInput } from '../types';
+
+const AUCTION_DURATIONS = [
+  { hours: 1, label: '1 godz.' },
+  { hours: 24, label: '1 dzien' },
+  { hours: 72, label: '3 dni' },
+  { hours: 168, label: '7 dni' },
+];
 
 interface MySkinCardProps {
   skin: SkinWithListings;
+  currentUserId?: string;
   onLoad: (skin: SkinWithListings) => void;
   onApply: (skin: SkinWithListings) => Promise<void> | void;
   onTogglePublish: (skin: SkinWithListings, publish: boolean) => Promise<void>;
   onDelete: (skin: SkinWithListings) => Promise<void>;
-  onCreateListing: (skin: SkinWithListings, price: string) => Promise<void>;
+  onCreateListing: (skin: SkinWithListings, price: string, auction?: AuctionListingInput) => Promise<void>;
   onUpdateListing: (skin: SkinWithListings, listingId: string, price: string) => Promise<void>;
   onCancelListing: (skin: SkinWithListings, listingId: string) => Promise<void>;
+  onSetRoyalty: (skin: SkinWithListings, percent: string) => Promise<void>;
+  onAcceptOffer: (skin: SkinWithListings, listingId: string, offerId: string) => Promise<void>;
+  onRejectOffer: (skin: SkinWithListings, listingId: string, offerId: string) => Promise<void>;
   isBusy: (key: string) => boolean;
 }
 
 const MySkinCard = ({
   skin,
+  currentUserId,
   onLoad,
   onApply,
   onTogglePublish,
@@ -27,9 +41,16 @@ const MySkinCard = ({
   onCreateListing,
   onUpdateListing,
   onCancelListing,
+  onSetRoyalty,
+  onAcceptOffer,
+  onRejectOffer,
   isBusy,
 }: MySkinCardProps) => {
   const [listingPrice, setListingPrice] = useState<string>('');
+  const [listingType, setListingType] = useState<SkinListingType>('FIXED');
+  const [auctionHours, setAuctionHours] = useState<number>(24);
+  const [bidIncrement, setBidIncrement] = useState<string>('');
+  const [royalty, setRoyalty] = useState<string>(String(skin.royaltyPercent ?? 0));
   const [updateValues, setUpdateValues] = useState<Record<string, string>>({});
 
   const activeListings = useMemo(
@@ -39,8 +60,13 @@ const MySkinCard = ({
 
   const handleCreateListing = async () => {
     if (!listingPrice.trim()) return;
-    await onCreateListing(skin, listingPrice);
+    await onCreateListing(
+      skin,
+      listingPrice,
+      listingType === 'AUCTION' ? { durationHours: auctionHours, minIncrement: bidIncrement.trim() || undefined } : undefined,
+    );
     setListingPrice('');
+    setBidIncrement('');
   };
 
   const handleUpdateListing = async (listingId: string) => {
@@ -52,6 +78,8 @@ const MySkinCard = ({
   const busyCreate = isBusy(`listing-create-${skin.id}`);
   const busyPublish = isBusy(`skin-publish-${skin.id}`);
   const busyDelete = isBusy(`skin-delete-${skin.id}`);
+  const busyRoyalty = isBusy(`skin-royalty-${skin.id}`);
+  const isCreator = !!currentUserId && skin.creatorId === currentUserId;
 
   return (
     <Card className="bg-white/5 border-white/10">
@@ -97,13 +125,46 @@ const MySkinCard = ({
             Usun
           </Button>
         </div>
+        {isCreator ? (
+          <div className="space-y-2">
+            <p className="text-xs text-white/60">Tantiemy od odsprzedazy (%)</p>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={0}
+                max={50}
+                value={royalty}
+                onChange={(event) => setRoyalty(event.target.value)}
+                className="bg-white/10 border-white/10"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onSetRoyalty(skin, royalty)}
+                disabled={busyRoyalty || royalty === String(skin.royaltyPercent ?? 0)}
+              >
+                {busyRoyalty ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                Zapisz
+              </Button>
+            </div>
+          </div>
+        ) : null}
         <div className="space-y-2">
           <p className="text-xs text-white/60">Nowa oferta</p>
           <div className="flex gap-2">
+            <Select value={listingType} onValueChange={(value) => setListingType(value as SkinListingType)}>
+              <SelectTrigger className="w-32 bg-white/10 border-white/10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="FIXED">Cena stala</SelectItem>
+                <SelectItem value="AUCTION">Aukcja</SelectItem>
+              </SelectContent>
+            </Select>
             <Input
               value={listingPrice}
               onChange={(event) => setListingPrice(event.target.value)}
-              placeholder="Cena w PLN"
+              placeholder={listingType === 'AUCTION' ? 'Cena wywolawcza w PLN' : 'Cena w PLN'}
               className="bg-white/10 border-white/10"
             />
             <Button size="sm" onClick={handleCreateListing} disabled={busyCreate || !listingPrice.trim()}>
@@ -111,6 +172,28 @@ const MySkinCard = ({
               Wystaw
             </Button>
           </div>
+          {listingType === 'AUCTION' ? (
+            <div className="flex gap-2">
+              <Select value={String(auctionHours)} onValueChange={(value) => setAuctionHours(Number(value))}>
+                <SelectTrigger className="w-32 bg-white/10 border-white/10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUCTION_DURATIONS.map((option) => (
+                    <SelectItem key={option.hours} value={String(option.hours)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={bidIncrement}
+                onChange={(event) => setBidIncrement(event.target.value)}
+                placeholder="Min. przebicie (0,01 PLN)"
+                className="bg-white/10 border-white/10"
+              />
+            </div>
+          ) : null}
         </div>
         {activeListings.length > 0 ? (
           <div className="space-y-2">
@@ -118,35 +201,71 @@ const MySkinCard = ({
             {activeListings.map((listing) => {
               const updateBusy = isBusy(`listing-update-${listing.id}`);
               const cancelBusy = isBusy(`listing-cancel-${listing.id}`);
+              const isAuction = listing.type === 'AUCTION';
+              const topBid = highestBid(listing);
               return (
                 <div key={listing.id} className="space-y-2 rounded border border-white/10 p-2">
                   <div className="flex items-center justify-between text-sm">
-                    <span>{formatPrice(listing.price, listing.currency)}</span>
-                    <span className="text-xs text-white/50">{new Date(listing.createdAt).toLocaleDateString()}</span>
+                    <span>
+                      {isAuction ? 'Aukcja: ' : ''}
+                      {formatPrice(topBid?.amount ?? listing.price, listing.currency)}
+                      {isAuction ? ` (${listing._count?.bids ?? 0} ofert)` : ''}
+                    </span>
+                    <span className="text-xs text-white/50">
+                      {isAuction && listing.endsAt
+                        ? `Do ${new Date(listing.endsAt).toLocaleString()}`
+                        : new Date(listing.createdAt).toLocaleDateString()}
+                    </span>
                   </div>
+                  {(listing.offers ?? []).map((offer) => (
+                    <div key={offer.id} className="flex items-center justify-between gap-2 text-xs">
+                      <span>Oferta kupna: {formatPrice(offer.amount, listing.currency)}</span>
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          onClick={() => onAcceptOffer(skin, listing.id, offer.id)}
+                          disabled={isBusy(`offer-accept-${offer.id}`)}
+                        >
+                          Przyjmij
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => onRejectOffer(skin, listing.id, offer.id)}
+                          disabled={isBusy(`offer-reject-${offer.id}`)}
+                        >
+                          Odrzuc
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
                   <div className="flex flex-wrap gap-2">
-                    <Input
-                      value={updateValues[listing.id] ?? ''}
-                      onChange={(event) =>
-                        setUpdateValues((prev) => ({ ...prev, [listing.id]: event.target.value }))
-                      }
-                      placeholder="Nowa cena"
-                      className="bg-white/10 border-white/10"
-                    />
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => handleUpdateListing(listing.id)}
-                      disabled={updateBusy || !(updateValues[listing.id] ?? '').trim()}
-                    >
-                      {updateBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-                      Zmien cene
-                    </Button>
+                    {isAuction ? null : (
+                      <>
+                        <Input
+                          value={updateValues[listing.id] ?? ''}
+                          onChange={(event) =>
+                            setUpdateValues((prev) => ({ ...prev, [listing.id]: event.target.value }))
+                          }
+                          placeholder="Nowa cena"
+                          className="bg-white/10 border-white/10"
+                        />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleUpdateListing(listing.id)}
+                          disabled={updateBusy || !(updateValues[listing.id] ?? '').trim()}
+                        >
+                          {updateBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                          Zmien cene
+                        </Button>
+                      </>
+                    )}
                     <Button
                       size="sm"
                       variant="ghost"
                       onClick={() => onCancelListing(skin, listing.id)}
-                      disabled={cancelBusy}
+                      disabled={cancelBusy || (isAuction && !!topBid)}
                     >
                       {cancelBusy ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
                       Anuluj
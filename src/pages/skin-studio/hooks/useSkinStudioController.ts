@@ -17,17 +17,19 @@ import {
 import { createRLEPayload, decodeVoxelsRLE } from '@/pages/skin-studio/lib/rle';
 import { applyQualitySettings } from '@/pages/skin-studio/lib/quality';
 import { setupSkinStudioCamera, enhanceCameraControls } from '@/pages/skin-studio/lib/camera';
-import { createSkinMesh, type PlayerSkinColors } from '@/components/editor-enhanced/scene/systems/play/skins/registry';
+import { createSkinMesh, type PlayerSkinColors, type PlayerSkinConfig } from '@/components/editor-enhanced/scene/systems/play/skins/registry';
 import { usePlayerSettingsStore } from '@/features/player/store';
 import type { PlayerSkinId } from '@/features/player/store';
 import { useAuthStore } from '@/features/auth/store';
 import { useToast } from '@/hooks/use-toast';
-import { AuthService, SkinsService } from '@/services/api.service';
+import { AuthService, SkinsService, WalletService } from '@/services/api.service';
 import {
+  auctionEnded,
   formatPrice,
   type SkinListingWithSkin,
   type SkinVisibilityFilter,
   type SkinWithListings,
+  type WalletRecord,
 } from '@/types/skins';
 import type { UserProfile } from '@/types/profile';
 import type {
@@ -41,6 +43,7 @@ import type {
   SkinPreset,
   MarketplaceFilter,
   MarketplaceSort,
+  AuctionListingInput,
 } from '../types';
 
 
@@ -64,6 +67,8 @@ const fromHex = (value: string, fallback: number) => {
 const DEFAULT_COLORS_BY_SKIN: Record<PlayerSkinId, { primary: string; secondary: string }> = {
   boy: { primary: '#3B82F6', secondary: '#60A5FA' },
   girl: { primary: '#E11D48', secondary: '#F472B6' },
+  // Only used by the blocky fallback when nothing is painted yet
+  voxel: { primary: '#3B82F6', secondary: '#60A5FA' },
 };
 
 const UNDO_LIMIT = 50;
@@ -97,6 +102,10 @@ const parsePriceInput = (value: string): number | null => {
   return Math.round(amount * 100);
 };
 
+const WATCHLIST_KEY = 'skin-marketplace-watch';
+// How often watched auctions are re-fetched while the marketplace is open
+const WATCH_REFRESH_MS = 15000;
+
 
 export const useSkinStudioController = (): SkinStudioController => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -176,6 +185,16 @@ export const useSkinStudioController = (): SkinStudioController => {
   const [marketplaceSearch, setMarketplaceSearch] = useState<string>('');
   const [marketplaceSort, setMarketplaceSort] = useState<MarketplaceSort>('recent');
   const [marketplaceFilter, setMarketplaceFilter] = useState<MarketplaceFilter>('available');
+  const [wallet, setWallet] = useState<WalletRecord | null>(null);
+  const [watchedListingIds, setWatchedListingIds] = useState<string[]>(() => {
+    try {
+      const raw = localStorage.getItem(WATCHLIST_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+    } catch {
+      return [];
+    }
+  });
 
   const [busyActions, setBusyActions] = useState<BusyMap>({});
 
@@ -307,6 +326,20 @@ export const useSkinStudioController = (): SkinStudioController => {
     }
   }, [toast]);
 
+  const refreshWallet = useCallback(async () => {
+    if (!authUser) {
+      setWallet(null);
+      return;
+    }
+    try {
+      const response = await WalletService.getWallet();
+      setWallet(response.wallet);
+    } catch {
+      // Balance is informational; purchases are still checked server-side
+      setWallet(null);
+    }
+  }, [authUser]);
+
   const loadSkinFromPayload = useCallback(
     (payloadString: string): SkinPayloadMeta | null => {
       try {
@@ -418,6 +451,32 @@ export const useSkinStudioController = (): SkinStudioController => {
     }
   }, [marketplaceFetched, refreshMarketplace]);
 
+  useEffect(() => {
+    refreshWallet();
+  }, [refreshWallet]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(WATCHLIST_KEY, JSON.stringify(watchedListingIds));
+    } catch {
+      // Watchlist is a convenience; ignore storage quota errors
+    }
+  }, [watchedListingIds]);
+
+  // Keep bids on watched, still-running auctions current
+  const hasLiveWatchedAuction = useMemo(
+    () => marketplaceListings.some((l) => watchedListingIds.includes(l.id) && l.type === 'AUCTION' && !auctionEnded(l)),
+    [marketplaceListings, watchedListingIds],
+  );
+
+  useEffect(() => {
+    if (activeTab !== 'marketplace' || !hasLiveWatchedAuction) return;
+    const timer = window.setInterval(() => {
+      refreshMarketplace();
+    }, WATCH_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [activeTab, hasLiveWatchedAuction, refreshMarketplace]);
+
   useEffect(() => {
     if (activeTab === 'marketplace' && !marketplaceFetched) {
       refreshMarketplace();
@@ -1012,13 +1071,21 @@ export const useSkinStudioController = (): SkinStudioController => {
     } catch {}
   }, [voxels]);
 
+  // The voxel skin is drawn from the edited voxels; other skins ignore them
+  const previewConfig = useMemo<PlayerSkinConfig>(
+    () => (skinId === 'voxel'
+      ? { ...kogamaConfig, voxels: createRLEPayload(voxelSize, voxelBounds, palette, voxels) }
+      : kogamaConfig),
+    [skinId, kogamaConfig, voxelSize, voxelBounds, palette, voxels],
+  );
+
   useEffect(() => {
     const scene = sceneRef.current;
     if (!scene) return;
     try {
       rootRef.current?.dispose();
     } catch {}
-    const instance = createSkinMesh(scene, skinId as any, colorsMemo, undefined);
+    const instance = createSkinMesh(scene, skinId, colorsMemo, previewConfig);
     rootRef.current = instance.root;
     rootRef.current.rotationQuaternion = null;
     rootRef.current.rotation.y = 0;
@@ -1073,7 +1140,7 @@ export const useSkinStudioController = (): SkinStudioController => {
       }
       if (groundRef.current) (groundRef.current as any).receiveShadows = true;
     } catch {}
-  }, [skinId, colorsMemo, rotationSpeed, scale, mode, showBaseModel]);
+  }, [skinId, colorsMemo, previewConfig, rotationSpeed, scale, mode, showBaseModel]);
   const getRLEPayload = useCallback(
     () => createRLEPayload(voxelSize, voxelBounds, palette, voxels),
     [voxelSize, voxelBounds, palette, voxels],
@@ -1120,6 +1187,8 @@ export const useSkinStudioController = (): SkinStudioController => {
       const payload = getRLEPayload();
       const mergedConfig = { ...(storeConfig || {}), voxels: payload } as any;
       await authUpdateProfile({ skinConfig: mergedConfig } as any);
+      // Play mode reads the local settings; keep them in sync for the 'voxel' skin
+      setConfig?.({ voxels: payload });
       toast({ title: 'Zapisano do konta', description: 'RLE zapisane w profilu.' });
     } catch (error: any) {
       toast({
@@ -1128,7 +1197,7 @@ export const useSkinStudioController = (): SkinStudioController => {
         variant: 'destructive',
       });
     }
-  }, [authUser, toast, getRLEPayload, storeConfig, authUpdateProfile]);
+  }, [authUser, toast, getRLEPayload, storeConfig, setConfig, authUpdateProfile]);
 
   const handleLoadRLEFromAccount = useCallback(async () => {
     try {
@@ -1153,6 +1222,7 @@ export const useSkinStudioController = (): SkinStudioController => {
         const result = decodeVoxelsRLE(payload.voxelsRLE, payload.bounds);
         setVoxels(result as Record<VoxelKey, VoxelColor>);
         if (Array.isArray(payload.palette)) setPalette(payload.palette);
+        setConfig?.({ voxels: payload });
         toast({ title: 'Zaladowano z konta', description: 'RLE wczytane z profilu.' });
       } else {
         toast({
@@ -1168,7 +1238,7 @@ export const useSkinStudioController = (): SkinStudioController => {
         variant: 'destructive',
       });
     }
-  }, [authUser, toast]);
+  }, [authUser, toast, setConfig]);
 
   const savePresets = useCallback(
     (next: SkinPreset[]) => {
@@ -1379,15 +1449,73 @@ export const useSkinStudioController = (): SkinStudioController => {
   );
 
   const handleCreateListingForSkin = useCallback(
-    async (skin: SkinWithListings, priceInput: string) => {
+    async (skin: SkinWithListings, priceInput: string, auction?: AuctionListingInput) => {
       const price = parsePriceInput(priceInput);
       if (price === null) {
         toast({ title: 'Invalid price', description: 'Provide a valid price.', variant: 'destructive' });
         return;
       }
+      const minIncrement = auction?.minIncrement ? parsePriceInput(auction.minIncrement) : null;
+      if (auction?.minIncrement && minIncrement === null) {
+        toast({ title: 'Invalid increment', description: 'Provide a valid bid increment.', variant: 'destructive' });
+        return;
+      }
       await runWithBusy(`listing-create-${skin.id}`, async () => {
-        await SkinsService.createListing(skin.id, { price });
-        toast({ title: 'Wystawiono skin', description: `Cena: ${formatPrice(price)}` });
+        await SkinsService.createListing(
+          skin.id,
+          auction
+            ? { price, type: 'AUCTION', durationHours: auction.durationHours, minIncrement: minIncrement ?? undefined }
+            : { price },
+        );
+        toast({
+          title: auction ? 'Rozpoczeto aukcje' : 'Wystawiono skin',
+          description: auction ? `Cena wywolawcza: ${formatPrice(price)}` : `Cena: ${formatPrice(price)}`,
+        });
+        await refreshMySkins();
+      });
+    },
+    [refreshMySkins, runWithBusy, toast],
+  );
+
+  const handleSetRoyalty = useCallback(
+    async (skin: SkinWithListings, percentInput: string) => {
+      const percent = Number(percentInput.trim());
+      if (!Number.isInteger(percent) || percent < 0 || percent > 50) {
+        toast({ title: 'Invalid royalty', description: 'Use a whole percentage from 0 to 50.', variant: 'destructive' });
+        return;
+      }
+      await runWithBusy(`skin-royalty-${skin.id}`, async () => {
+        await SkinsService.updateSkin(skin.id, { royaltyPercent: percent });
+        toast({ title: 'Zapisano tantiemy', description: `${percent}% od kazdej odsprzedazy.` });
+        await refreshMySkins();
+      });
+    },
+    [refreshMySkins, runWithBusy, toast],
+  );
+
+  const handleAcceptOffer = useCallback(
+    async (skin: SkinWithListings, listingId: string, offerId: string) => {
+      await runWithBusy(`offer-accept-${offerId}`, async () => {
+        try {
+          await SkinsService.acceptOffer(skin.id, listingId, offerId);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : '';
+          if (!message.includes('insufficient funds')) throw error;
+          toast({ title: 'Kupujacy nie ma srodkow', description: 'Oferta pozostaje otwarta.', variant: 'destructive' });
+          return;
+        }
+        toast({ title: 'Sprzedano skin', description: 'Oferta zostala przyjeta.' });
+        await Promise.all([refreshMySkins(), refreshMarketplace(), refreshWallet()]);
+      });
+    },
+    [refreshMarketplace, refreshMySkins, refreshWallet, runWithBusy, toast],
+  );
+
+  const handleRejectOffer = useCallback(
+    async (skin: SkinWithListings, listingId: string, offerId: string) => {
+      await runWithBusy(`offer-reject-${offerId}`, async () => {
+        await SkinsService.rejectOffer(skin.id, listingId, offerId);
+        toast({ title: 'Odrzucono oferte' });
         await refreshMySkins();
       });
     },
@@ -1436,13 +1564,91 @@ export const useSkinStudioController = (): SkinStudioController => {
   const handlePurchaseListing = useCallback(
     async (listing: SkinListingWithSkin) => {
       await runWithBusy(`listing-purchase-${listing.id}`, async () => {
-        await SkinsService.purchaseListing(listing.skinId, listing.id);
+        if (wallet && wallet.balance < listing.price) {
+          toast({
+            title: 'Brak srodkow',
+            description: `Saldo: ${formatPrice(wallet.balance, wallet.currency)}, cena: ${formatPrice(listing.price, listing.currency)}`,
+            variant: 'destructive',
+          });
+          return;
+        }
+        try {
+          const response = await SkinsService.purchaseListing(listing.skinId, listing.id);
+          setWallet((current) => (current ? { ...current, balance: response.balance } : current));
+        } catch (error) {
+          // apiFetch rejects with the response body; 402 means the wallet was short
+          const message = error instanceof Error ? error.message : '';
+          if (!message.includes('Insufficient funds')) throw error;
+          toast({ title: 'Brak srodkow', description: 'Doladuj portfel, aby kupic ten skin.', variant: 'destructive' });
+          await refreshWallet();
+          return;
+        }
         toast({ title: 'Zakupiono skin', description: 'Skin zostal dodany do biblioteki.' });
         await Promise.all([refreshMarketplace(), refreshMySkins()]);
       });
     },
-    [refreshMarketplace, refreshMySkins, runWithBusy, toast],
+    [refreshMarketplace, refreshMySkins, refreshWallet, runWithBusy, toast, wallet],
+  );
+  const handlePlaceBid = useCallback(
+    async (listing: SkinListingWithSkin, amountInput: string) => {
+      const amount = parsePriceInput(amountInput);
+      if (amount === null) {
+        toast({ title: 'Invalid bid', description: 'Provide a valid amount.', variant: 'destructive' });
+        return;
+      }
+      await runWithBusy(`listing-bid-${listing.id}`, async () => {
+        try {
+          const response = await SkinsService.placeBid(listing.skinId, listing.id, amount);
+          setMarketplaceListings((current) => current.map((l) => (l.id === listing.id ? response.listing : l)));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : '';
+          if (message.includes('Insufficient funds')) {
+            toast({ title: 'Brak srodkow', description: 'Doladuj portfel, aby licytowac.', variant: 'destructive' });
+            return;
+          }
+          if (message.includes('Bid too low')) {
+            toast({ title: 'Za niska oferta', description: 'Ktos przebil Twoja oferte.', variant: 'destructive' });
+            await refreshMarketplace();
+            return;
+          }
+          throw error;
+        }
+        // Bidding on an auction implies watching it
+        setWatchedListingIds((current) => (current.includes(listing.id) ? current : [...current, listing.id]));
+        toast({ title: 'Zlozono oferte', description: `Kwota: ${formatPrice(amount, listing.currency)}` });
+      });
+    },
+    [refreshMarketplace, runWithBusy, toast],
   );
+
+  const handleMakeOffer = useCallback(
+    async (listing: SkinListingWithSkin, amountInput: string) => {
+      const amount = parsePriceInput(amountInput);
+      if (amount === null) {
+        toast({ title: 'Invalid offer', description: 'Provide a valid amount.', variant: 'destructive' });
+        return;
+      }
+      await runWithBusy(`listing-offer-${listing.id}`, async () => {
+        try {
+          await SkinsService.makeOffer(listing.skinId, listing.id, amount);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : '';
+          if (!message.includes('Insufficient funds')) throw error;
+          toast({ title: 'Brak srodkow', description: 'Oferta przekracza saldo portfela.', variant: 'destructive' });
+          return;
+        }
+        toast({ title: 'Wyslano oferte', description: `Sprzedawca zobaczy oferte ${formatPrice(amount, listing.currency)}.` });
+      });
+    },
+    [runWithBusy, toast],
+  );
+
+  const handleToggleWatch = useCallback((listing: SkinListingWithSkin) => {
+    setWatchedListingIds((current) =>
+      current.includes(listing.id) ? current.filter((id) => id !== listing.id) : [...current, listing.id],
+    );
+  }, []);
+
   const filteredMySkins = useMemo(() => {
     const search = mySkinsSearch.trim().toLowerCase();
     return mySkins
@@ -1463,6 +1669,7 @@ export const useSkinStudioController = (): SkinStudioController => {
     const filtered = marketplaceListings.filter((listing) => {
       if (marketplaceFilter === 'available' && (!listing.active || listing.buyerId)) return false;
       if (marketplaceFilter === 'owned' && listing.skin.ownerId !== authUser?.id) return false;
+      if (marketplaceFilter === 'watching' && !watchedListingIds.includes(listing.id)) return false;
       if (!search) return true;
       return (
         listing.skin.name.toLowerCase().includes(search) ||
@@ -1478,7 +1685,7 @@ export const useSkinStudioController = (): SkinStudioController => {
       sorted.sort((a, b) => b.price - a.price);
     }
     return sorted;
-  }, [marketplaceListings, marketplaceFilter, marketplaceSearch, marketplaceSort, authUser?.id]);
+  }, [marketplaceListings, marketplaceFilter, marketplaceSearch, marketplaceSort, authUser?.id, watchedListingIds]);
 
   const appearanceState = useMemo(() => ({
     skinId,
@@ -1603,6 +1810,9 @@ export const useSkinStudioController = (): SkinStudioController => {
       createListing: handleCreateListingForSkin,
       updateListing: handleUpdateListingPrice,
       cancelListing: handleCancelListingAction,
+      setRoyalty: handleSetRoyalty,
+      acceptOffer: handleAcceptOffer,
+      rejectOffer: handleRejectOffer,
     },
   }), [
     authUser,
@@ -1624,6 +1834,9 @@ export const useSkinStudioController = (): SkinStudioController => {
     handleCreateListingForSkin,
     handleUpdateListingPrice,
     handleCancelListingAction,
+    handleSetRoyalty,
+    handleAcceptOffer,
+    handleRejectOffer,
   ]);
 
   const marketplaceState = useMemo(() => ({
@@ -1637,9 +1850,14 @@ export const useSkinStudioController = (): SkinStudioController => {
     filteredListings: filteredMarketplace,
     loading: marketplaceLoading,
     refresh: refreshMarketplace,
+    wallet,
+    watchedIds: watchedListingIds,
     actions: {
       preview: handlePreviewListing,
       purchase: handlePurchaseListing,
+      bid: handlePlaceBid,
+      offer: handleMakeOffer,
+      toggleWatch: handleToggleWatch,
     },
   }), [
     marketplaceFilter,
@@ -1652,8 +1870,13 @@ export const useSkinStudioController = (): SkinStudioController => {
     filteredMarketplace,
     marketplaceLoading,
     refreshMarketplace,
+    wallet,
+    watchedListingIds,
     handlePreviewListing,
     handlePurchaseListing,
+    handlePlaceBid,
+    handleMakeOffer,
+    handleToggleWatch,
   ]);
 
   return {
@@ -1,6 +1,6 @@
 import type { RefObject } from 'react';
 import type { PlayerSkinId } from '@/features/player/store';
-import type { SkinListingWithSkin, SkinVisibilityFilter, SkinWithListings } from '@/types/skins';
+import type { SkinListingWithSkin, SkinVisibilityFilter, SkinWithListings, WalletRecord } from '@/types/skins';
 import type { UserProfile } from '@/types/profile';
 import type { ActiveLayer } from '@/pages/skin-studio/lib/voxel-utils';
 
@@ -93,15 +93,24 @@ export interface EditorState {
   presets: SkinPresetsState;
 }
 
+/** Extra fields when a listing is put up for auction; amounts are user input in PLN */
+export interface AuctionListingInput {
+  durationHours: number;
+  minIncrement?: string;
+}
+
 export interface LibraryActions {
   create: (name: string, publish: boolean) => Promise<void>;
   load: (skin: SkinWithListings) => void;
   apply: (skin: SkinWithListings) => Promise<void>;
   togglePublish: (skin: SkinWithListings, publish: boolean) => Promise<void>;
   remove: (skin: SkinWithListings) => Promise<void>;
-  createListing: (skin: SkinWithListings, price: string) => Promise<void>;
+  createListing: (skin: SkinWithListings, price: string, auction?: AuctionListingInput) => Promise<void>;
   updateListing: (skin: SkinWithListings, listingId: string, price: string) => Promise<void>;
   cancelListing: (skin: SkinWithListings, listingId: string) => Promise<void>;
+  setRoyalty: (skin: SkinWithListings, percent: string) => Promise<void>;
+  acceptOffer: (skin: SkinWithListings, listingId: string, offerId: string) => Promise<void>;
+  rejectOffer: (skin: SkinWithListings, listingId: string, offerId: string) => Promise<void>;
 }
 
 export interface LibraryState {
@@ -119,12 +128,15 @@ export interface LibraryState {
   actions: LibraryActions;
 }
 
-export type MarketplaceFilter = 'available' | 'all' | 'owned';
+export type MarketplaceFilter = 'available' | 'all' | 'owned' | 'watching';
 export type MarketplaceSort = 'recent' | 'price-asc' | 'price-desc';
 
 export interface MarketplaceActions {
   preview: (listing: SkinListingWithSkin) => void;
   purchase: (listing: SkinListingWithSkin) => Promise<void>;
+  bid: (listing: SkinListingWithSkin, amount: string) => Promise<void>;
+  offer: (listing: SkinListingWithSkin, amount: string) => Promise<void>;
+  toggleWatch: (listing: SkinListingWithSkin) => void;
 }
 
 export interface MarketplaceState {
@@ -138,6 +150,10 @@ export interface MarketplaceState {
   filteredListings: SkinListingWithSkin[];
   loading: boolean;
   refresh: () => Promise<void>;
+  /** Signed-in user's wallet; null when signed out or not loaded */
+  wallet: WalletRecord | null;
+  /** Listing ids on the local watchlist */
+  watchedIds: string[];
   actions: MarketplaceActions;
 }
 
@@ -1,10 +1,23 @@
 // Centralized API service layer
 // Abstracts away direct apiFetch calls and provides type-safe API methods
 
-import { apiFetch } from '@/shared/api/client';
+import { apiFetch, apiFetchBlob } from '@/shared/api/client';
+import { BLOCKSCAPE_MIME_TYPE } from '@/shared/projects/blockscapeArchive';
+import { GLB_MIME_TYPE } from '@/shared/assets/glbInspect';
+import type { UserAssetRecord } from '@/types/assets';
 import type { UserProfile, ProfileUpdateData } from '@/types/profile';
 import type { ProjectData } from '@/types/project';
-import type { SkinListingRecord, SkinListingWithSkin, SkinRecord, SkinWithListings } from '@/types/skins';
+import type {
+  SkinBidRecord,
+  SkinListingRecord,
+  SkinListingType,
+  SkinListingWithSkin,
+  SkinOfferRecord,
+  SkinRecord,
+  SkinWithListings,
+  WalletRecord,
+  WalletTransactionRecord,
+} from '@/types/skins';
 
 // Authentication API methods
 export class AuthService {
@@ -99,18 +112,61 @@ export class ProjectService {
   static async publishProject(projectId: string, published: boolean) {
     return this.updateProject(projectId, { published });
   }
+
+  /** Download projects as a `.blockscape` archive (a zip of archives for several ids) */
+  static async exportArchive(ids: string[]) {
+    return await apiFetchBlob(`/games/export`, {
+      method: 'POST',
+      body: JSON.stringify({ ids }),
+    });
+  }
+
+  /** Create a new private game from a `.blockscape` archive */
+  static async importArchive(archive: Blob | Uint8Array) {
+    return await apiFetch<{ game: { id: string; name: string; mode?: string; updatedAt: string }; warnings: string[] }>(
+      `/games/import`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': BLOCKSCAPE_MIME_TYPE },
+        body: archive,
+      }
+    );
+  }
+}
+
+// User model (GLB) API methods
+export class AssetsService {
+  static async listMyAssets() {
+    return await apiFetch<{ assets: UserAssetRecord[] }>(`/assets`);
+  }
+
+  /** Upload a GLB; the server enforces the size and triangle limits */
+  static async uploadModel(file: Blob, name: string) {
+    return await apiFetch<{ asset: UserAssetRecord }>(`/assets?name=${encodeURIComponent(name)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': GLB_MIME_TYPE },
+      body: file,
+    });
+  }
+
+  static async deleteAsset(id: string) {
+    return await apiFetch<{ ok: boolean }>(`/assets/${id}`, { method: 'DELETE' });
+  }
 }
 
 // Skins API methods
 export class SkinsService {
-  static async createSkin(payload: { name: string; data: string; thumbnail?: string; published?: boolean }) {
+  static async createSkin(payload: { name: string; data: string; thumbnail?: string; published?: boolean; royaltyPercent?: number }) {
     return await apiFetch<{ skin: SkinRecord }>(`/skins`, {
       method: 'POST',
       body: JSON.stringify(payload),
     });
   }
 
-  static async updateSkin(id: string, payload: { name?: string; data?: string; thumbnail?: string; published?: boolean }) {
+  static async updateSkin(
+    id: string,
+    payload: { name?: string; data?: string; thumbnail?: string; published?: boolean; royaltyPercent?: number },
+  ) {
     return await apiFetch<{ skin: SkinRecord }>(`/skins/${id}`, {
       method: 'PUT',
       body: JSON.stringify(payload),
@@ -129,7 +185,10 @@ export class SkinsService {
     return await apiFetch<{ skins: SkinRecord[] }>(`/skins/public`);
   }
 
-  static async createListing(id: string, payload: { price: number | string; currency?: string }) {
+  static async createListing(
+    id: string,
+    payload: { price: number | string; currency?: string; type?: SkinListingType; durationHours?: number; minIncrement?: number },
+  ) {
     return await apiFetch<{ listing: SkinListingRecord }>(`/skins/${id}/listings`, {
       method: 'POST',
       body: JSON.stringify(payload),
@@ -150,16 +209,67 @@ export class SkinsService {
   }
 
   static async purchaseListing(skinId: string, listingId: string) {
-    return await apiFetch<{ listing: SkinListingWithSkin; skin: SkinRecord }>(
+    return await apiFetch<{ listing: SkinListingWithSkin; skin: SkinRecord; balance: number }>(
       `/skins/${skinId}/listings/${listingId}/purchase`,
       { method: 'POST' }
     );
   }
 
+  static async placeBid(skinId: string, listingId: string, amount: number) {
+    return await apiFetch<{ bid: SkinBidRecord; listing: SkinListingWithSkin }>(`/skins/${skinId}/listings/${listingId}/bids`, {
+      method: 'POST',
+      body: JSON.stringify({ amount }),
+    });
+  }
+
+  static async makeOffer(skinId: string, listingId: string, amount: number) {
+    return await apiFetch<{ offer: SkinOfferRecord }>(`/skins/${skinId}/listings/${listingId}/offers`, {
+      method: 'POST',
+      body: JSON.stringify({ amount }),
+    });
+  }
+
+  static async acceptOffer(skinId: string, listingId: string, offerId: string) {
+    return await apiFetch<{ offer: SkinOfferRecord; listing: SkinListingWithSkin; skin: SkinRecord }>(
+      `/skins/${skinId}/listings/${listingId}/offers/${offerId}/accept`,
+      { method: 'POST' }
+    );
+  }
+
+  static async rejectOffer(skinId: string, listingId: string, offerId: string) {
+    return await apiFetch<{ offer: SkinOfferRecord }>(`/skins/${skinId}/listings/${listingId}/offers/${offerId}/reject`, {
+      method: 'POST',
+    });
+  }
+
+  static async withdrawOffer(skinId: string, listingId: string, offerId: string) {
+    return await apiFetch<{ offer: SkinOfferRecord }>(`/skins/${skinId}/listings/${listingId}/offers/${offerId}`, {
+      method: 'DELETE',
+    });
+  }
+
   static async getListings() {
     return await apiFetch<{ listings: SkinListingWithSkin[] }>(`/skins/listings`);
   }
 }
+
+// Wallet API methods
+export class WalletService {
+  static async getWallet() {
+    return await apiFetch<{ wallet: WalletRecord }>(`/wallet`);
+  }
+
+  static async getTransactions(page = 1, limit = 20) {
+    return await apiFetch<{
+      wallet: WalletRecord;
+      transactions: WalletTransactionRecord[];
+      total: number;
+      page: number;
+      limit: number;
+    }>(`/wallet/transactions?page=${page}&limit=${limit}`);
+  }
+}
+
 // Friends API methods
 export class FriendsService {
   static async getFriends() {
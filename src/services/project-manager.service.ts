@@ -3,6 +3,8 @@
 
 import type { Block, ProjectData, TerrainData } from '@/types/project';
 import { ProjectService } from './api.service';
+import { CURRENT_PROJECT_VERSION, migrateSavedProjects, normalizeBlockMechanic, normalizeBlocks } from '@/features/projects/projectFormat';
+import { validateProject as validateProjectData, type ProjectValidationResult } from '@/shared/projects/validateProject';
 
 export interface ProjectSaveOptions {
   includeMetadata?: boolean;
@@ -10,69 +12,22 @@ export interface ProjectSaveOptions {
   compressionLevel?: 'none' | 'low' | 'medium' | 'high';
 }
 
-export interface ProjectValidationResult {
-  isValid: boolean;
-  errors: string[];
-  warnings: string[];
-}
+export type { ProjectValidationResult };
 
 export class ProjectManagerService {
   // Validation methods
   static validateProject(projectData: Partial<ProjectData>): ProjectValidationResult {
-    const errors: string[] = [];
-    const warnings: string[] = [];
-
-    // Required fields validation
-    if (!projectData.name?.trim()) {
-      errors.push('Project name is required');
-    } else if (projectData.name.trim().length < 3) {
-      warnings.push('Project name is quite short');
-    } else if (projectData.name.trim().length > 50) {
-      errors.push('Project name is too long (max 50 characters)');
-    }
-
-    // Blocks validation
-    if (!projectData.blocks || !Array.isArray(projectData.blocks)) {
-      warnings.push('Project has no blocks');
-    } else {
-      // Check for block integrity
-      const blockIds = new Set<string>();
-      for (const block of projectData.blocks) {
-        if (!block.id) {
-          errors.push('Block missing ID');
-        } else if (blockIds.has(block.id)) {
-          errors.push(`Duplicate block ID: ${block.id}`);
-        } else {
-          blockIds.add(block.id);
-        }
-
-        if (!block.type) {
-          errors.push(`Block ${block.id} missing type`);
-        }
-
-        if (!block.position || typeof block.position.x !== 'number' || 
-            typeof block.position.y !== 'number' || typeof block.position.z !== 'number') {
-          errors.push(`Block ${block.id} has invalid position`);
-        }
-      }
-
-      // Check for reasonable block count
-      if (projectData.blocks.length > 10000) {
-        warnings.push('Project has a very large number of blocks (performance may be affected)');
-      }
-    }
-
-    // Terrain validation
-    if (projectData.terrain) {
-      if (!projectData.terrain.positions) {
-        warnings.push('Terrain data appears incomplete');
-      }
-    }
+    return validateProjectData(projectData);
+  }
 
+  // Fills what the 1.3.0 schema requires but callers may leave out, so saved projects load again
+  static toCurrentFormat(projectData: ProjectData): ProjectData {
     return {
-      isValid: errors.length === 0,
-      errors,
-      warnings,
+      ...projectData,
+      blocks: normalizeBlocks(projectData.blocks ?? []),
+      version: CURRENT_PROJECT_VERSION,
+      logic: projectData.logic ?? [],
+      animations: projectData.animations ?? [],
     };
   }
 
@@ -165,14 +120,16 @@ export class ProjectManagerService {
         result = await ProjectService.createProject(saveData);
       }
 
-      const updatedProject: ProjectData = {
+      const updatedProject: ProjectData = this.toCurrentFormat({
         id: result.game.id,
         name: result.game.name,
         blocks: projectData.blocks,
         timestamp: new Date().toISOString(),
-        version: '1.2.0',
+        version: CURRENT_PROJECT_VERSION,
         terrain: projectData.terrain,
-      };
+        logic: projectData.logic,
+        animations: projectData.animations,
+      });
 
       return {
         success: true,
@@ -201,8 +158,10 @@ export class ProjectManagerService {
       rotationX: (block as any).rotationX || 0,
       rotationZ: (block as any).rotationZ || 0,
       scale: (block as any).scale || 1,
-      mechanic: (block as any).mechanic,
+      mechanic: normalizeBlockMechanic(block).mechanic,
       mechanicPower: (block as any).mechanicPower,
+      assetId: block.assetId,
+      collider: block.collider,
     };
   }
 
@@ -216,10 +175,10 @@ export class ProjectManagerService {
       }
 
       const projects = this.getSavedProjects();
-      projects[projectData.name] = {
+      projects[projectData.name] = this.toCurrentFormat({
         ...projectData,
         timestamp: new Date().toISOString(),
-      };
+      });
 
       localStorage.setItem('sandbox-projects', JSON.stringify(projects));
       return true;
@@ -231,7 +190,7 @@ export class ProjectManagerService {
 
   static getSavedProjects(): Record<string, ProjectData> {
     try {
-      return JSON.parse(localStorage.getItem('sandbox-projects') || '{}');
+      return migrateSavedProjects(JSON.parse(localStorage.getItem('sandbox-projects') || '{}'));
     } catch {
       return {};
     }
@@ -255,12 +214,14 @@ export class ProjectManagerService {
       name,
       blocks: [],
       timestamp: new Date().toISOString(),
-      version: '1.2.0',
+      version: CURRENT_PROJECT_VERSION,
+      logic: [],
+      animations: [],
     };
   }
 
   static createBasicTemplate(name: string = 'Basic Template'): ProjectData {
-    return {
+    return this.toCurrentFormat({
       id: undefined,
       name,
       blocks: [
@@ -286,8 +247,8 @@ export class ProjectManagerService {
         } as Block,
       ],
       timestamp: new Date().toISOString(),
-      version: '1.2.0',
-    };
+      version: CURRENT_PROJECT_VERSION,
+    });
   }
 
   // Utility methods
@@ -7,7 +7,7 @@ export function getAuthToken(): string | null {
   return inMemoryAccessToken;
 }
 
-export async function apiFetch<T>(path: string, options: RequestInit = {}): Promise<T> {
+async function authorizedFetch(path: string, options: RequestInit): Promise<Response> {
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
     ...(options.headers as any),
@@ -43,9 +43,22 @@ export async function apiFetch<T>(path: string, options: RequestInit = {}): Prom
     const text = await res.text().catch(() => "");
     throw new Error(text || `Request failed with ${res.status}`);
   }
+  return res;
+}
+
+export async function apiFetch<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const res = await authorizedFetch(path, options);
   return res.json();
 }
 
+/** Like apiFetch, for binary responses (file downloads). */
+export async function apiFetchBlob(path: string, options: RequestInit = {}): Promise<{ blob: Blob; filename: string | null }> {
+  const res = await authorizedFetch(path, options);
+  const disposition = res.headers.get("Content-Disposition") || "";
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? null;
+  return { blob: await res.blob(), filename };
+}
+
 export async function tryRefreshToken(): Promise<boolean> {
   if (refreshInFlight) return refreshInFlight;
   refreshInFlight = (async () => {
@@ -0,0 +1,21 @@
+export declare const GLB_MIME_TYPE: 'model/gltf-binary';
+
+export declare class GlbError extends Error {
+  constructor(message: string);
+}
+
+export interface GlbBounds {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+export interface GlbInfo {
+  /** Triangles across all mesh nodes of the default scene */
+  triangles: number;
+  /** Nodes that reference a mesh */
+  meshes: number;
+  /** Scene-space bounds in model units; null without geometry */
+  bounds: GlbBounds | null;
+}
+
+export declare function inspectGlb(bytes: Uint8Array): GlbInfo;
@@ -0,0 +1,142 @@
+// Reads the structure of a binary glTF (GLB) without decoding its buffers:
+// triangle count and scene bounds from accessor metadata. Plain ESM so the
+// API server can enforce upload limits and the editor can pre-check a file
+// before uploading it; types live in glbInspect.d.ts.
+
+export const GLB_MIME_TYPE = 'model/gltf-binary';
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const CHUNK_JSON = 0x4e4f534a; // 'JSON'
+
+// Primitive modes; points and lines have no triangles
+const MODE_TRIANGLES = 4;
+const MODE_TRIANGLE_STRIP = 5;
+const MODE_TRIANGLE_FAN = 6;
+
+// More nodes than any model the editor accepts; bounds the work per upload
+const MAX_NODES = 10000;
+// Deeper than real rigs nest; keeps the recursive walk off the stack limit
+const MAX_DEPTH = 64;
+
+export class GlbError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'GlbError';
+  }
+}
+
+function readJsonChunk(bytes) {
+  if (!bytes || bytes.byteLength < 20) throw new GlbError('File is not a GLB model');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(0, true) !== GLB_MAGIC) throw new GlbError('File is not a GLB model');
+  if (view.getUint32(4, true) !== 2) throw new GlbError('Only glTF 2.0 models are supported');
+  if (view.getUint32(8, true) > bytes.byteLength) throw new GlbError('GLB file is truncated');
+
+  const chunkLength = view.getUint32(12, true);
+  if (view.getUint32(16, true) !== CHUNK_JSON || 20 + chunkLength > bytes.byteLength) {
+    throw new GlbError('GLB file has no JSON chunk');
+  }
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes.subarray(20, 20 + chunkLength)));
+  } catch {
+    throw new GlbError('GLB JSON chunk is not valid JSON');
+  }
+}
+
+// Column-major 4x4 matrices, as glTF stores them
+function multiply(a, b) {
+  const out = new Array(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + row] * b[col * 4 + k];
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out;
+}
+
+function nodeMatrix(node) {
+  if (Array.isArray(node.matrix) && node.matrix.length === 16) return node.matrix;
+  const [tx, ty, tz] = node.translation || [0, 0, 0];
+  const [x, y, z, w] = node.rotation || [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale || [1, 1, 1];
+  return [
+    (1 - 2 * (y * y + z * z)) * sx, 2 * (x * y + z * w) * sx, 2 * (x * z - y * w) * sx, 0,
+    2 * (x * y - z * w) * sy, (1 - 2 * (x * x + z * z)) * sy, 2 * (y * z + x * w) * sy, 0,
+    2 * (x * z + y * w) * sz, 2 * (y * z - x * w) * sz, (1 - 2 * (x * x + y * y)) * sz, 0,
+    tx, ty, tz, 1,
+  ];
+}
+
+function primitiveTriangles(gltf, primitive) {
+  const mode = primitive.mode ?? MODE_TRIANGLES;
+  const accessorIndex = primitive.indices ?? primitive.attributes?.POSITION;
+  const count = gltf.accessors?.[accessorIndex]?.count ?? 0;
+  if (mode === MODE_TRIANGLES) return Math.floor(count / 3);
+  if (mode === MODE_TRIANGLE_STRIP || mode === MODE_TRIANGLE_FAN) return Math.max(0, count - 2);
+  return 0;
+}
+
+/**
+ * Inspect a GLB file. Returns the triangle count (instanced meshes counted
+ * per node), the number of mesh nodes and the bounds of the default scene in
+ * model units, or null bounds when it has no geometry. Throws GlbError for
+ * anything that is not a readable glTF 2.0 binary.
+ */
+export function inspectGlb(bytes) {
+  const gltf = readJsonChunk(bytes);
+  const nodes = gltf.nodes || [];
+  const meshes = gltf.meshes || [];
+  const sceneIndex = gltf.scene ?? 0;
+  const roots = gltf.scenes?.[sceneIndex]?.nodes ?? nodes.map((_, i) => i);
+
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  let triangles = 0;
+  let meshNodes = 0;
+
+  if (nodes.length > MAX_NODES) throw new GlbError(`GLB model has more than ${MAX_NODES} nodes`);
+
+  // glTF nodes form a tree: a node shared by two parents (or reached twice
+  // through a cycle) would multiply the work of every visit below it
+  const visited = new Set();
+  const visit = (index, parent, depth) => {
+    const node = nodes[index];
+    if (!node) return;
+    // Skipping the subtree would leave its meshes out of the triangle count
+    if (depth > MAX_DEPTH) throw new GlbError('GLB node hierarchy is too deep');
+    if (visited.has(index)) throw new GlbError('GLB node hierarchy is not a tree');
+    visited.add(index);
+    const world = multiply(parent, nodeMatrix(node));
+    const mesh = meshes[node.mesh];
+    if (mesh) {
+      meshNodes += 1;
+      for (const primitive of mesh.primitives || []) {
+        triangles += primitiveTriangles(gltf, primitive);
+        const position = gltf.accessors?.[primitive.attributes?.POSITION];
+        if (!Array.isArray(position?.min) || !Array.isArray(position?.max)) continue;
+        // Transform the accessor box corners into scene space
+        for (let corner = 0; corner < 8; corner++) {
+          const p = [0, 1, 2].map(axis => ((corner >> axis) & 1 ? position.max[axis] : position.min[axis]));
+          for (let axis = 0; axis < 3; axis++) {
+            const v = world[axis] * p[0] + world[4 + axis] * p[1] + world[8 + axis] * p[2] + world[12 + axis];
+            min[axis] = Math.min(min[axis], v);
+            max[axis] = Math.max(max[axis], v);
+          }
+        }
+      }
+    }
+    for (const child of node.children || []) visit(child, world, depth + 1);
+  };
+
+  const identity = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+  for (const root of roots) visit(root, identity, 0);
+
+  const hasBounds = min.every(Number.isFinite);
+  return {
+    triangles,
+    meshes: meshNodes,
+    bounds: hasBounds ? { min, max } : null,
+  };
+}
@@ -0,0 +1,143 @@
+// @ts-check
+// Per-mode settings stored in Game.modeConfig. Plain ESM so the API server
+// (server/middleware/validation.js, gamesController) and the editor validate
+// against the same schemas; the editor's types come from the JSDoc below.
+
+import { z } from 'zod';
+
+/** @typedef {'PARKOUR' | 'RACE' | 'PVP' | 'SANDBOX'} GameMode */
+
+/** @type {GameMode[]} */
+export const GAME_MODES = ['PARKOUR', 'RACE', 'PVP', 'SANDBOX'];
+
+// 0 disables the limit
+const timeLimitSec = z.number().int().min(0).max(3600).default(0).describe('Limit czasu (s, 0 = brak)');
+
+export const modeConfigSchemas = {
+  PARKOUR: z.object({
+    timeLimitSec,
+  }).strict(),
+  RACE: z.object({
+    laps: z.number().int().min(1).max(20).default(3).describe('Okrążenia'),
+    gridColumns: z.number().int().min(1).max(8).default(4).describe('Kolumny pola startowego'),
+    gridSpacing: z.number().min(1).max(10).default(2).describe('Odstęp na polu startowym'),
+    timeLimitSec,
+  }).strict(),
+  PVP: z.object({
+    maxHealth: z.number().int().min(1).max(1000).default(100).describe('Zdrowie'),
+    hazardDamage: z.number().int().min(0).max(1000).default(25).describe('Obrażenia od pułapek'),
+    respawnDelaySec: z.number().min(0).max(30).default(3).describe('Opóźnienie odrodzenia (s)'),
+    respawnAt: z.enum(['start', 'checkpoint']).default('start').describe('Miejsce odrodzenia'),
+    // 0 = free-for-all
+    teamCount: z.number().int().min(0).max(8).default(0).describe('Liczba drużyn (0 = każdy na każdego)'),
+    timeLimitSec,
+  }).strict(),
+  SANDBOX: z.object({}).strict(),
+};
+
+/** @typedef {{ [M in GameMode]: z.infer<(typeof modeConfigSchemas)[M]> }} ModeConfigMap */
+/**
+ * @template {GameMode} [M=GameMode]
+ * @typedef {ModeConfigMap[M]} ModeConfig
+ */
+/**
+ * Parsed config, null when invalid.
+ * @template {GameMode} M
+ * @typedef {{ ok: boolean; config: ModeConfig<M> | null; errors: string[] }} ModeConfigResult
+ */
+/**
+ * @typedef {object} ModeConfigField
+ * @property {string} key
+ * @property {string} label Polish label taken from the schema's description
+ * @property {'integer' | 'number' | 'enum'} kind
+ * @property {number} [min]
+ * @property {number} [max]
+ * @property {string[]} [options]
+ * @property {number | string} [defaultValue]
+ */
+
+/**
+ * @param {unknown} mode
+ * @returns {mode is GameMode}
+ */
+export function isGameMode(mode) {
+  return typeof mode === 'string' && /** @type {string[]} */ (GAME_MODES).includes(mode);
+}
+
+/**
+ * Parse a stored modeConfig (JSON string, object or empty) for a mode.
+ * Missing fields take their defaults; unknown fields and bad values are errors.
+ * @template {GameMode} M
+ * @param {M} mode
+ * @param {unknown} raw
+ * @returns {ModeConfigResult<M>}
+ */
+export function parseModeConfig(mode, raw) {
+  let value = raw;
+  if (typeof raw === 'string') {
+    if (raw.trim() === '') {
+      value = {};
+    } else {
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        return { ok: false, config: null, errors: ['modeConfig is not valid JSON'] };
+      }
+    }
+  }
+  if (value === null || value === undefined) value = {};
+
+  const schema = modeConfigSchemas[mode] ?? modeConfigSchemas.PARKOUR;
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    return {
+      ok: false,
+      config: null,
+      errors: result.error.issues.map(issue => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)),
+    };
+  }
+  return { ok: true, config: /** @type {ModeConfig<M>} */ (result.data), errors: [] };
+}
+
+/**
+ * Defaults for a mode (used when a stored config is invalid).
+ * @template {GameMode} M
+ * @param {M} mode
+ * @returns {ModeConfig<M>}
+ */
+export function defaultModeConfig(mode) {
+  return /** @type {ModeConfig<M>} */ ((modeConfigSchemas[mode] ?? modeConfigSchemas.PARKOUR).parse({}));
+}
+
+/**
+ * Form description of a mode's settings, read off the schema so the editor
+ * never lists a field the server would reject.
+ * @param {GameMode} mode
+ * @returns {ModeConfigField[]}
+ */
+export function describeModeConfig(mode) {
+  const schema = modeConfigSchemas[mode] ?? modeConfigSchemas.PARKOUR;
+  /** @type {[string, z.ZodTypeAny][]} */
+  const fields = Object.entries(schema.shape);
+  return fields.map(([key, field]) => {
+    let inner = field;
+    let defaultValue;
+    if (inner instanceof z.ZodDefault) {
+      defaultValue = inner._def.defaultValue();
+      inner = inner._def.innerType;
+    }
+    const label = field.description ?? key;
+    if (inner instanceof z.ZodEnum) {
+      return { key, label, kind: 'enum', options: [...inner.options], defaultValue };
+    }
+    const number = /** @type {z.ZodNumber} */ (inner);
+    return {
+      key,
+      label,
+      kind: number.isInt ? 'integer' : 'number',
+      min: number.minValue ?? undefined,
+      max: number.maxValue ?? undefined,
+      defaultValue,
+    };
+  });
+}
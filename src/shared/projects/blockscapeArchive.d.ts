@@ -0,0 +1,79 @@
+export declare const BLOCKSCAPE_FORMAT: 'blockscape';
+export declare const BLOCKSCAPE_ARCHIVE_VERSION: number;
+export declare const BLOCKSCAPE_EXTENSION: '.blockscape';
+export declare const BLOCKSCAPE_MIME_TYPE: string;
+export declare const MAX_ARCHIVE_CONTENT_BYTES: number;
+
+export declare class BlockscapeArchiveError extends Error {
+  constructor(message: string);
+}
+
+export interface BlockscapeManifest {
+  format: 'blockscape';
+  archiveVersion: number;
+  /** Project format version of blocks.json, when the exporter knew it */
+  projectVersion: string | null;
+  name: string;
+  mode: string | null;
+  exportedAt: string;
+  source?: Record<string, unknown>;
+  /** Archive paths of the optional parts */
+  files: {
+    blocks: string;
+    terrain?: string;
+    modeConfig?: string;
+    logic?: string;
+    animations?: string;
+    selectionSets?: string;
+    prefabs?: string;
+    environment?: string;
+    thumbnail?: string;
+  };
+}
+
+export interface BlockscapeProjectInput {
+  name?: string;
+  version?: string;
+  blocks?: unknown[];
+  /** Object or JSON text */
+  terrain?: unknown;
+  mode?: string | null;
+  /** Object or JSON text */
+  modeConfig?: unknown;
+  logic?: unknown[];
+  animations?: unknown[];
+  selectionSets?: unknown[];
+  prefabs?: unknown[];
+  /** Object or JSON text */
+  environment?: unknown;
+}
+
+export interface BlockscapeArchiveContents {
+  manifest: BlockscapeManifest;
+  /** Raw project fields; run through migrateProject before use in the editor */
+  project: {
+    name: string;
+    blocks: unknown[];
+    timestamp?: string;
+    version?: string;
+    mode?: string;
+    modeConfig?: string;
+    terrain?: unknown;
+    logic: unknown[];
+    animations: unknown[];
+    selectionSets: unknown[];
+    prefabs: unknown[];
+    environment?: unknown;
+  };
+  /** Data URL, when the archive has one */
+  thumbnail: string | null;
+}
+
+export declare function createBlockscapeArchive(
+  project: BlockscapeProjectInput,
+  options?: { thumbnail?: string | null; exportedAt?: string; source?: Record<string, unknown> },
+): Uint8Array;
+
+export declare function isBlockscapeArchive(bytes: Uint8Array | null | undefined): boolean;
+
+export declare function readBlockscapeArchive(bytes: Uint8Array): BlockscapeArchiveContents;
@@ -0,0 +1,212 @@
+// Portable `.blockscape` project archives: a zip holding a manifest, the
+// block list, terrain, mode config, logic, animations, selection sets,
+// prefabs, environment and the thumbnail.
+// Plain ESM so the API server (export/import routes) and the editor
+// (drag-and-drop import) read the same format; types live in
+// blockscapeArchive.d.ts.
+//
+// Layout (paths are recorded in manifest.files, so readers never guess):
+//   manifest.json      format, archiveVersion, name, mode, file index
+//   blocks.json        block list as stored by the editor
+//   terrain.json       terrain heightmap snapshot (optional)
+//   mode-config.json   per-mode settings object (optional)
+//   logic.json         logic triggers (optional)
+//   animations.json    animation clips (optional)
+//   selections.json    named editor selection sets (optional)
+//   prefabs.json       prefab library; instances are in blocks.json (optional)
+//   environment.json   sky, fog and lighting settings (optional)
+//   thumbnail.<ext>    preview image (optional)
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+
+export const BLOCKSCAPE_FORMAT = 'blockscape';
+export const BLOCKSCAPE_ARCHIVE_VERSION = 1;
+export const BLOCKSCAPE_EXTENSION = '.blockscape';
+export const BLOCKSCAPE_MIME_TYPE = 'application/vnd.blockscape+zip';
+// Total uncompressed size a reader accepts; guards against zip bombs
+export const MAX_ARCHIVE_CONTENT_BYTES = 32 * 1024 * 1024;
+const MANIFEST_PATH = 'manifest.json';
+
+const THUMBNAIL_EXTENSIONS = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+export class BlockscapeArchiveError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'BlockscapeArchiveError';
+  }
+}
+
+function bytesToBase64(bytes) {
+  let binary = '';
+  // Chunked so large thumbnails do not overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function parseDataUrl(dataUrl) {
+  const match = /^data:([\w/+.-]+);base64,(.*)$/s.exec(dataUrl);
+  if (!match || !THUMBNAIL_EXTENSIONS[match[1]]) return null;
+  try {
+    return { mimeType: match[1], bytes: base64ToBytes(match[2]) };
+  } catch {
+    return null;
+  }
+}
+
+// Stored values may already be JSON text (Game.terrain, Game.modeConfig)
+function toJsonValue(value) {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+const isNonEmpty = (value) => value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0);
+
+/**
+ * Pack a project into a `.blockscape` archive.
+ * `project.terrain` and `project.modeConfig` may be objects or JSON text.
+ */
+export function createBlockscapeArchive(project, { thumbnail, exportedAt = new Date().toISOString(), source } = {}) {
+  const files = {};
+  const index = {};
+  const addJson = (key, path, value) => {
+    if (!isNonEmpty(value)) return;
+    files[path] = strToU8(JSON.stringify(value));
+    index[key] = path;
+  };
+
+  files['blocks.json'] = strToU8(JSON.stringify(Array.isArray(project.blocks) ? project.blocks : []));
+  index.blocks = 'blocks.json';
+  addJson('terrain', 'terrain.json', toJsonValue(project.terrain));
+  addJson('modeConfig', 'mode-config.json', toJsonValue(project.modeConfig));
+  addJson('logic', 'logic.json', project.logic);
+  addJson('animations', 'animations.json', project.animations);
+  addJson('selectionSets', 'selections.json', project.selectionSets);
+  addJson('prefabs', 'prefabs.json', project.prefabs);
+  addJson('environment', 'environment.json', toJsonValue(project.environment));
+
+  const image = typeof thumbnail === 'string' ? parseDataUrl(thumbnail) : null;
+  if (image) {
+    const path = `thumbnail.${THUMBNAIL_EXTENSIONS[image.mimeType]}`;
+    // Images are already compressed
+    files[path] = [image.bytes, { level: 0 }];
+    index.thumbnail = path;
+  }
+
+  const manifest = {
+    format: BLOCKSCAPE_FORMAT,
+    archiveVersion: BLOCKSCAPE_ARCHIVE_VERSION,
+    projectVersion: typeof project.version === 'string' ? project.version : null,
+    name: project.name || 'Untitled Project',
+    mode: project.mode || null,
+    exportedAt,
+    ...(source ? { source } : {}),
+    files: index,
+  };
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+  return zipSync(files, { level: 6 });
+}
+
+/** Zip local-file signature; cheap check before unpacking. */
+export function isBlockscapeArchive(bytes) {
+  return bytes && bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+/**
+ * Unpack a `.blockscape` archive. Returns the manifest, the project fields
+ * (modeConfig as JSON text, as stored on games) and the thumbnail as a data
+ * URL. Throws BlockscapeArchiveError for anything that is not a readable
+ * archive; project contents are left to validateProject/migrateProject.
+ */
+export function readBlockscapeArchive(bytes) {
+  if (!isBlockscapeArchive(bytes)) {
+    throw new BlockscapeArchiveError('Not a .blockscape archive');
+  }
+  // fflate inflates each entry into a buffer of its declared size and never
+  // grows it, so declared sizes bound what is allocated: a lying entry comes
+  // out truncated, not larger. Stored entries are copied at their packed size.
+  // Only the manifest and the files it lists are unpacked.
+  let total = 0;
+  const unpack = (wanted) => {
+    try {
+      return unzipSync(bytes, {
+        filter(file) {
+          if (!wanted(file.name)) return false;
+          total += file.compression === 0 ? file.size : file.originalSize;
+          if (total > MAX_ARCHIVE_CONTENT_BYTES) throw new BlockscapeArchiveError('Archive is too large');
+          return true;
+        },
+      });
+    } catch (e) {
+      if (e instanceof BlockscapeArchiveError) throw e;
+      throw new BlockscapeArchiveError('Archive is corrupted');
+    }
+  };
+
+  let entries = unpack((name) => name === MANIFEST_PATH);
+
+  const readJson = (path, label) => {
+    if (!path) return undefined;
+    const entry = entries[path];
+    if (!entry) throw new BlockscapeArchiveError(`Archive is missing ${label}`);
+    try {
+      return JSON.parse(strFromU8(entry));
+    } catch {
+      throw new BlockscapeArchiveError(`Archive ${label} is not valid JSON`);
+    }
+  };
+
+  const manifest = readJson(MANIFEST_PATH, MANIFEST_PATH);
+  if (!manifest || manifest.format !== BLOCKSCAPE_FORMAT) {
+    throw new BlockscapeArchiveError('Not a .blockscape archive');
+  }
+  if (typeof manifest.archiveVersion !== 'number' || manifest.archiveVersion > BLOCKSCAPE_ARCHIVE_VERSION) {
+    throw new BlockscapeArchiveError(`Archive version ${manifest.archiveVersion} is not supported`);
+  }
+  const files = manifest.files || {};
+  const listed = new Set(Object.values(files).filter((path) => typeof path === 'string' && path !== MANIFEST_PATH));
+  entries = unpack((name) => listed.has(name));
+
+  const blocks = readJson(files.blocks, 'blocks');
+  if (!Array.isArray(blocks)) throw new BlockscapeArchiveError('Archive blocks must be a list');
+  const modeConfig = readJson(files.modeConfig, 'mode config');
+  const logic = readJson(files.logic, 'logic');
+  const animations = readJson(files.animations, 'animations');
+  const selectionSets = readJson(files.selectionSets, 'selection sets');
+  const prefabs = readJson(files.prefabs, 'prefabs');
+
+  let thumbnail = null;
+  if (files.thumbnail && entries[files.thumbnail]) {
+    const extension = files.thumbnail.split('.').pop();
+    const mimeType = Object.keys(THUMBNAIL_EXTENSIONS).find((type) => THUMBNAIL_EXTENSIONS[type] === extension);
+    if (mimeType) thumbnail = `data:${mimeType};base64,${bytesToBase64(entries[files.thumbnail])}`;
+  }
+
+  const project = {
+    name: typeof manifest.name === 'string' && manifest.name.trim() ? manifest.name : 'Untitled Project',
+    blocks,
+    ...(typeof manifest.exportedAt === 'string' ? { timestamp: manifest.exportedAt } : {}),
+    ...(manifest.projectVersion ? { version: manifest.projectVersion } : {}),
+    ...(manifest.mode ? { mode: manifest.mode } : {}),
+    ...(modeConfig !== undefined ? { modeConfig: JSON.stringify(modeConfig) } : {}),
+    ...(files.terrain ? { terrain: readJson(files.terrain, 'terrain') } : {}),
+    logic: Array.isArray(logic) ? logic : [],
+    animations: Array.isArray(animations) ? animations : [],
+    selectionSets: Array.isArray(selectionSets) ? selectionSets : [],
+    prefabs: Array.isArray(prefabs) ? prefabs : [],
+    ...(files.environment ? { environment: readJson(files.environment, 'environment') } : {}),
+  };
+  return { manifest, project, thumbnail };
+}
@@ -0,0 +1,15 @@
+export interface ProjectValidationResult {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ValidatableProject {
+  name?: string;
+  blocks?: Array<{ id?: string; type?: string; position?: { x: number; y: number; z: number } }>;
+  terrain?: { positions?: unknown } | null;
+}
+
+export declare const MAX_PROJECT_NAME_LENGTH: number;
+
+export declare function validateProject(projectData: ValidatableProject | null | undefined): ProjectValidationResult;
@@ -0,0 +1,74 @@
+// Structural checks for project data. Plain ESM so the API server (game
+// import) and ProjectManagerService.validateProject apply the same rules;
+// types live in validateProject.d.ts.
+
+export const MAX_PROJECT_NAME_LENGTH = 50;
+
+/**
+ * Validate a project's name, blocks and terrain. Errors make the project
+ * unusable; warnings are informational.
+ */
+export function validateProject(projectData) {
+  const errors = [];
+  const warnings = [];
+
+  // Required fields validation
+  const name = typeof projectData?.name === 'string' ? projectData.name.trim() : '';
+  if (!name) {
+    errors.push('Project name is required');
+  } else if (name.length < 3) {
+    warnings.push('Project name is quite short');
+  } else if (name.length > MAX_PROJECT_NAME_LENGTH) {
+    errors.push(`Project name is too long (max ${MAX_PROJECT_NAME_LENGTH} characters)`);
+  }
+
+  // Blocks validation
+  const blocks = projectData?.blocks;
+  if (!blocks || !Array.isArray(blocks)) {
+    warnings.push('Project has no blocks');
+  } else {
+    // Check for block integrity
+    const blockIds = new Set();
+    for (const block of blocks) {
+      if (!block?.id) {
+        errors.push('Block missing ID');
+      } else if (blockIds.has(block.id)) {
+        errors.push(`Duplicate block ID: ${block.id}`);
+      } else {
+        blockIds.add(block.id);
+      }
+
+      if (!block?.type) {
+        errors.push(`Block ${block?.id} missing type`);
+      }
+
+      const position = block?.position;
+      if (!position || typeof position.x !== 'number' ||
+          typeof position.y !== 'number' || typeof position.z !== 'number') {
+        errors.push(`Block ${block?.id} has invalid position`);
+      }
+    }
+
+    // Check for reasonable block count
+    if (blocks.length > 10000) {
+      warnings.push('Project has a very large number of blocks (performance may be affected)');
+    }
+  }
+
+  // Terrain validation
+  if (projectData?.terrain) {
+    const terrain = projectData.terrain;
+    if (!terrain.positions && !terrain.heights) {
+      warnings.push('Terrain data appears incomplete');
+    }
+    if (terrain.splat !== undefined && (!Array.isArray(terrain.splat) || terrain.splat.length % 4 !== 0)) {
+      warnings.push('Terrain splat map is malformed and will be ignored');
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
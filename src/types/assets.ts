@@ -0,0 +1,14 @@
+import type { GlbBounds } from '@/shared/assets/glbInspect';
+
+/** A GLB model uploaded by the current user, placeable as a 'model' block */
+export interface UserAssetRecord {
+  id: string;
+  name: string;
+  /** Bytes */
+  size: number;
+  triangles: number;
+  bounds: GlbBounds | null;
+  /** Public file URL, relative to the API host */
+  url: string;
+  createdAt: string;
+}
@@ -103,6 +103,8 @@ export interface MaterialSettings {
   opacity?: number;
 }
 
+// Concrete lights, sky and fog for one moment; features/environment resolves
+// a project's EnvironmentSettings into this for the renderers
 export interface LightingSettings {
   ambient: {
     color: string;
@@ -111,10 +113,16 @@ export interface LightingSettings {
   directional: {
     color: string;
     intensity: number;
-    direction: { x: number; y: number; z: number };
+    direction: { x: number; y: number; z: number }; // unit vector the light travels along
     shadows: boolean;
   };
-  skybox?: string;
+  skybox?: string; // preset id when the sky is a painted cubemap
+  sky?: {
+    top: string;
+    horizon: string;
+    ground: string;
+    stars: boolean;
+  };
   fog?: {
     enabled: boolean;
     color: string;
@@ -4,7 +4,7 @@ export interface UserProfile {
   name: string;
   avatarUrl?: string | null;
   role: 'USER' | 'MODERATOR' | 'ADMIN';
-  skinId?: 'blocky' | 'capsule' | 'robot' | 'kogama';
+  skinId?: 'blocky' | 'capsule' | 'robot' | 'kogama' | 'voxel';
   skinPrimary?: number;
   skinSecondary?: number;
   skinConfig?: Record<string, any> | null;
@@ -26,7 +26,7 @@ export interface LoginLog {
 export interface ProfileUpdateData {
   name?: string;
   avatarUrl?: string | null;
-  skinId?: 'blocky' | 'capsule' | 'robot' | 'kogama';
+  skinId?: 'blocky' | 'capsule' | 'robot' | 'kogama' | 'voxel';
   skinPrimary?: number;
   skinSecondary?: number;
   skinConfig?: Record<string, any>;
@@ -1,3 +1,5 @@
+import type { AnimationClip, TerrainPaintLayer } from './editor';
+
 export type BlockType =
   | 'cube'
   | 'cube_bouncy'
@@ -20,7 +22,11 @@ export type BlockType =
   | 'start'
   | 'checkpoint'
   | 'finish'
-  | 'hazard';
+  | 'hazard'
+  | 'model'; // user-uploaded GLB, see assetId
+
+// Physics shape generated for a model block
+export type ModelCollider = 'box' | 'hull';
 
 export type MechanicType =
   | 'none'
@@ -46,9 +52,119 @@ export type Block = {
   rotationY?: number;
   rotationX?: number;
   rotationZ?: number;
-  scale?: number;
-  mechanic?: MechanicType;
+  scale?: number; // uniform; older saves with {x,y,z} are migrated on load (see features/projects/projectFormat.ts)
+  mechanic?: MechanicType; // always matches a mechanic block type (cube_bouncy -> 'bouncy')
   mechanicPower?: number; // generic strength for mechanic (e.g., conveyor/boost strength)
+  assetId?: string; // 'model' blocks: the UserAsset rendered in place of a primitive
+  collider?: ModelCollider; // 'model' blocks: defaults to 'box'
+  prefabId?: string; // prefab instance members: the Prefab this block was placed from
+  prefabInstanceId?: string; // shared by every block of one placed instance
+  prefabKey?: string; // which PrefabBlock of the definition this block instantiates
+};
+
+// Level logic: trigger volumes wired to actions, evaluated by PlayEngine during play
+export type LogicTriggerType = 'enter' | 'exit' | 'timer' | 'collect';
+
+export type LogicActionType =
+  | 'toggle_visibility'
+  | 'move_block'
+  | 'rotate_block'
+  | 'teleport_player'
+  | 'play_effect'
+  | 'end_round';
+
+export type LogicEffect = 'sparkle' | 'smoke' | 'flash';
+
+export type LogicAction = {
+  id: string;
+  type: LogicActionType;
+  delay?: number; // seconds before the action runs
+  targetBlockId?: string; // toggle_visibility / move_block / rotate_block
+  visible?: boolean; // toggle_visibility: explicit state, undefined flips current
+  offset?: { x: number; y: number; z: number }; // move_block: relative translation
+  rotation?: { x: number; y: number; z: number }; // rotate_block: relative rotation in degrees
+  duration?: number; // move_block / rotate_block tween length in seconds
+  position?: { x: number; y: number; z: number }; // teleport_player destination
+  effect?: LogicEffect; // play_effect
+  outcome?: 'win' | 'lose'; // end_round
+};
+
+export type LogicTrigger = {
+  id: string;
+  name?: string;
+  type: LogicTriggerType;
+  blockId?: string; // anchor block; the volume follows it and collect hides it
+  volume?: {
+    offset: { x: number; y: number; z: number }; // from anchor block, or world origin when unanchored
+    size: { x: number; y: number; z: number };
+  };
+  interval?: number; // timer: seconds between firings
+  once?: boolean;
+  enabled?: boolean;
+  actions: LogicAction[];
+};
+
+// Named group of blocks the editor can re-select; ids of deleted blocks are ignored
+export type SelectionSet = {
+  id: string;
+  name: string;
+  blockIds: string[];
+};
+
+// One block of a prefab definition, positioned relative to the prefab origin
+export type PrefabBlock = Omit<Block, 'id' | 'group' | 'prefabId' | 'prefabInstanceId' | 'prefabKey'> & {
+  key: string;
+};
+
+// Reusable block group. Instances are ordinary blocks tagged with prefab fields;
+// editing the definition updates every instance except colour/position overrides.
+export type Prefab = {
+  id: string;
+  name: string;
+  blocks: PrefabBlock[];
+};
+
+// Painted cubemap skies; see features/environment for their palettes
+export type SkyPreset = 'clear' | 'sunset' | 'night' | 'overcast';
+
+// Per-project sky, fog and lighting. The sun's height follows the time of day;
+// its compass direction is the azimuth. Colours are 0xRRGGBB like block colours.
+export type EnvironmentSettings = {
+  timeOfDay: number; // hours, 0-24
+  sky: {
+    mode: 'gradient' | 'preset';
+    top: number; // gradient zenith
+    horizon: number; // gradient horizon
+    preset: SkyPreset; // used when mode is 'preset'
+  };
+  sun: {
+    color: number;
+    intensity: number;
+    azimuth: number; // degrees clockwise from north (-Z)
+    shadows: boolean;
+  };
+  ambient: {
+    color: number;
+    intensity: number;
+  };
+  fog: {
+    enabled: boolean;
+    color: number;
+    near: number;
+    far: number;
+  };
+};
+
+// Terrain snapshot captured from the scene; kept opaque by the project format
+export type TerrainData = {
+  positions?: number[]; // legacy: raw x/y/z ground vertices
+  size?: number; // world units per side of the square ground
+  resolution?: number; // vertices per side
+  heights?: number[]; // resolution * resolution, row 0 at +Z
+  colors?: number[]; // vertex-color paint layer, RGBA 0..1 per vertex
+  layers?: TerrainPaintLayer[]; // up to four texture layers
+  splat?: number[]; // layer weights, RGBA 0..255 per vertex
+  [key: string]: unknown;
 };
 
 export type ProjectData = {
@@ -56,9 +172,17 @@ export type ProjectData = {
   name: string;
   blocks: Block[];
   timestamp: string;
-  version: string;
+  version: string; // project format version, see CURRENT_PROJECT_VERSION
   published?: boolean;
   thumbnailUrl?: string;
+  terrain?: TerrainData;
+  mode?: 'PARKOUR' | 'PVP' | 'RACE' | 'SANDBOX';
+  modeConfig?: string | null;
+  logic?: LogicTrigger[];
+  animations?: AnimationClip[]; // keyframed block motion, played back in play mode
+  selectionSets?: SelectionSet[]; // editor-only, saved selections
+  prefabs?: Prefab[]; // prefab library; instances live in blocks
+  environment?: EnvironmentSettings; // sky, fog and lights; defaults when missing
 };
 
 
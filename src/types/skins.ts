@@ -5,6 +5,31 @@ export interface SkinRecord {
   thumbnail: string | null;
   published: boolean;
   ownerId: string;
+  /** Original author; receives royaltyPercent of every resale */
+  creatorId: string | null;
+  royaltyPercent: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SkinListingType = 'FIXED' | 'AUCTION';
+
+export interface SkinBidRecord {
+  id: string;
+  listingId: string;
+  bidderId: string;
+  amount: number;
+  createdAt: string;
+}
+
+export type SkinOfferStatus = 'PENDING' | 'ACCEPTED' | 'REJECTED' | 'WITHDRAWN';
+
+export interface SkinOfferRecord {
+  id: string;
+  listingId: string;
+  buyerId: string;
+  amount: number;
+  status: SkinOfferStatus;
   createdAt: string;
   updatedAt: string;
 }
@@ -12,13 +37,24 @@ export interface SkinRecord {
 export interface SkinListingRecord {
   id: string;
   skinId: string;
+  type: SkinListingType;
+  /** Asking price; starting bid for auctions */
   price: number;
   currency: string;
   active: boolean;
+  endsAt: string | null;
+  minIncrement: number | null;
   buyerId: string | null;
   soldAt: string | null;
+  /** What the buyer paid, once sold */
+  soldPrice: number | null;
   createdAt: string;
   updatedAt: string;
+  /** Highest bid only, when included */
+  bids?: SkinBidRecord[];
+  _count?: { bids: number };
+  /** Pending offers, on the owner's own listings */
+  offers?: SkinOfferRecord[];
 }
 
 export interface SkinWithListings extends SkinRecord {
@@ -29,8 +65,38 @@ export interface SkinListingWithSkin extends SkinListingRecord {
   skin: SkinRecord;
 }
 
+export const highestBid = (listing: SkinListingRecord): SkinBidRecord | null => listing.bids?.[0] ?? null;
+
+/** Lowest bid the server will accept next (mirrors skinMarketService.minimumBid). */
+export const minimumBid = (listing: SkinListingRecord): number => {
+  const highest = highestBid(listing);
+  return highest ? highest.amount + Math.max(1, listing.minIncrement ?? 1) : listing.price;
+};
+
+export const auctionEnded = (listing: SkinListingRecord, now = Date.now()): boolean =>
+  listing.type === 'AUCTION' && (!listing.endsAt || new Date(listing.endsAt).getTime() <= now);
+
 export type SkinVisibilityFilter = 'all' | 'draft' | 'published';
 
+export interface WalletRecord {
+  /** Minor units (grosze) */
+  balance: number;
+  currency: string;
+}
+
+export type WalletTransactionType = 'EARN' | 'SPEND' | 'REFUND' | 'GRANT' | 'ROYALTY';
+
+export interface WalletTransactionRecord {
+  id: string;
+  type: WalletTransactionType;
+  /** Signed minor units; debits are negative */
+  amount: number;
+  balanceAfter: number;
+  listingId: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
 export const formatPrice = (price: number, currency = 'PLN'): string => {
   const major = price / 100;
   try {
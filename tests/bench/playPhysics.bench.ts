@@ -0,0 +1,106 @@
+import { bench, describe } from 'vitest';
+import * as CANNON from 'cannon-es';
+import { PlayPhysics } from '@/components/editor-enhanced/scene/systems/play/PlayPhysics';
+import { EditPhysics } from '@/components/editor-enhanced/scene/systems/edit/EditPhysics';
+import type { CannonBody } from '@/components/editor-enhanced/scene/physics/types';
+import type { Vec3Like } from '@/features/spatial/spatialIndex';
+
+// The level from spatialIndex.bench.ts as physics bodies: a 100x100 floor,
+// pillars on top, every 97th block a checkpoint, finish or hazard pad
+interface LevelBlock {
+  type: string;
+  position: Vec3Like;
+}
+
+const level: LevelBlock[] = [];
+for (let x = 0; x < 100; x++) {
+  for (let z = 0; z < 100; z++) {
+    level.push({ type: 'cube', position: { x, y: 0.5, z } });
+    if ((x * 7 + z * 13) % 3 !== 0) {
+      level.push({ type: 'cube', position: { x, y: 1.5 + ((x + z) % 8), z } });
+    }
+  }
+}
+while (level.length > 20_000) level.pop();
+const PADS = ['checkpoint', 'finish', 'hazard'];
+level.forEach((block, i) => {
+  if (i % 97 === 0) block.type = PADS[i % PADS.length];
+});
+
+const half = new CANNON.Vec3(0.5, 0.5, 0.5);
+const TRIGGER_TYPES = new Set(PADS);
+
+// A level as PlayEngine builds it, with the player standing on the first pad
+function buildPlay(physics: PlayPhysics) {
+  const blocks = level.map(block => {
+    const body = physics.createBlockBody(new CANNON.Vec3(block.position.x, block.position.y, block.position.z), half);
+    physics.addBody(body);
+    return { block, body };
+  });
+  const pad = level[0].position;
+  const player = physics.createPlayerBody(new CANNON.Vec3(pad.x, pad.y + 1.4, pad.z));
+  physics.addBody(player, true);
+  return { blocks, player };
+}
+
+// Before the spatial hash: SAP broadphase and a linear block lookup per collision event
+const sapPhysics = new PlayPhysics();
+sapPhysics.getWorld().broadphase = new CANNON.SAPBroadphase(sapPhysics.getWorld());
+const sap = buildPlay(sapPhysics);
+
+const hashPhysics = new PlayPhysics();
+const hash = buildPlay(hashPhysics);
+const blockByBody = new Map<CannonBody, (typeof hash.blocks)[number]>(hash.blocks.map(entry => [entry.body, entry]));
+
+describe('physics step with 20k static blocks (PlayPhysics)', () => {
+  bench('SAP broadphase', () => {
+    sapPhysics.step(1 / 60);
+  });
+  bench('spatial hash broadphase', () => {
+    hashPhysics.step(1 / 60);
+  });
+});
+
+describe('player trigger check (PlayEngine)', () => {
+  hash.player.updateAABB();
+  const { lowerBound: lo, upperBound: hi } = hash.player.aabb;
+  const m = 0.05;
+  const min = { x: lo.x - m, y: lo.y - m, z: lo.z - m };
+  const max = { x: hi.x + m, y: hi.y + m, z: hi.z + m };
+  // What the player touches this step, as collision events would report it
+  const touching = hashPhysics.queryBounds(min, max).filter(body => body !== hash.player);
+
+  bench('linear scan', () => {
+    for (const other of touching) {
+      const block = sap.blocks.find(entry => entry.body === other);
+      void (block && TRIGGER_TYPES.has(block.block.type));
+    }
+  });
+  bench('spatial index', () => {
+    for (const other of hashPhysics.queryBounds(min, max)) {
+      const block = blockByBody.get(other);
+      void (block && TRIGGER_TYPES.has(block.block.type));
+    }
+  });
+});
+
+describe('placement overlap check (EditPhysics)', () => {
+  const edit = new EditPhysics();
+  const bodies = level.map(block => {
+    const body = new CANNON.Body({ mass: 0, shape: new CANNON.Box(half), position: new CANNON.Vec3(block.position.x, block.position.y, block.position.z) });
+    edit.addBody(body);
+    return body;
+  });
+  const position = { x: 50, y: 2.5, z: 50.5 };
+  const size = { x: 1, y: 1, z: 1 };
+
+  bench('linear scan', () => {
+    bodies.some(body =>
+      Math.abs(body.position.x - position.x) < half.x + size.x / 2
+      && Math.abs(body.position.y - position.y) < half.y + size.y / 2
+      && Math.abs(body.position.z - position.z) < half.z + size.z / 2);
+  });
+  bench('spatial index', () => {
+    edit.checkPlacementCollision(position, size);
+  });
+});
@@ -0,0 +1,118 @@
+import { bench, describe } from 'vitest';
+import * as THREE from 'three';
+import { type Bounds, type Vec3Like } from '@/features/spatial/spatialIndex';
+import { blockBounds } from '@/features/spatial/blockBounds';
+import { projectBlockIndex, useProjectStore } from '@/features/projects/store';
+import { blockSpatialIndex, useBlocksStore } from '@/features/projects/stores/blocks.store';
+import { blocksInScreenRect, blocksInVolume, matchesFilter, screenRectCandidates } from '@/features/selection/selectionQueries';
+import type { Block } from '@/types/project';
+
+// 20k cubes: a 100x100 floor with a 10k-block city of pillars on top
+const blocks: Block[] = [];
+for (let x = 0; x < 100; x++) {
+  for (let z = 0; z < 100; z++) {
+    blocks.push({ id: `f${x}_${z}`, type: 'cube', position: { x, y: 0.5, z } });
+    if ((x * 7 + z * 13) % 3 !== 0) {
+      blocks.push({ id: `p${x}_${z}`, type: 'cube', position: { x, y: 1.5 + ((x + z) % 8), z } });
+    }
+  }
+}
+while (blocks.length > 20_000) blocks.pop();
+
+// Both stores keep their index in step through their own subscriptions
+useProjectStore.setState({ blocks });
+useBlocksStore.setState({ blocks });
+
+const overlaps = (b: Bounds, min: Vec3Like, max: Vec3Like) =>
+  b.min.x <= max.x && b.max.x >= min.x && b.min.y <= max.y && b.max.y >= min.y && b.min.z <= max.z && b.max.z >= min.z;
+
+describe('marquee selection (Scene3D, 200x150 px drag)', () => {
+  const view = { left: 0, top: 0, width: 1280, height: 720 };
+  const camera = new THREE.PerspectiveCamera(75, view.width / view.height, 0.1, 1000);
+  camera.position.set(50, 30, -15);
+  camera.lookAt(50, 0, 40);
+  camera.updateMatrixWorld();
+  const rect = { left: 540, top: 300, right: 740, bottom: 450 };
+  const projected = new THREE.Vector3();
+  const project = (p: Vec3Like) => {
+    projected.set(p.x, p.y, p.z).project(camera);
+    if (projected.z > 1) return null;
+    return { x: view.left + ((projected.x + 1) / 2) * view.width, y: view.top + ((1 - projected.y) / 2) * view.height };
+  };
+  const unproject = (p: { x: number; y: number }, depth: 'near' | 'far') => new THREE.Vector3(
+    ((p.x - view.left) / view.width) * 2 - 1,
+    1 - ((p.y - view.top) / view.height) * 2,
+    depth === 'near' ? -1 : 1,
+  ).unproject(camera);
+
+  bench('linear scan', () => {
+    blocksInScreenRect(useProjectStore.getState().blocks, rect, project);
+  });
+  bench('spatial index', () => {
+    blocksInScreenRect(screenRectCandidates(projectBlockIndex, rect, unproject), rect, project);
+  });
+});
+
+describe('volume selection (SelectionPanel, 8x10x8 box)', () => {
+  const start = { x: 40, y: 0, z: 40 };
+  const end = { x: 48, y: 10, z: 48 };
+  bench('linear scan', () => {
+    useProjectStore.getState().blocks.filter(b => matchesFilter(b) && overlaps(blockBounds(b), start, end));
+  });
+  bench('spatial index', () => {
+    blocksInVolume(projectBlockIndex, { start, end });
+  });
+});
+
+describe('snap-to-object (EditEngine ground placement)', () => {
+  const point = { x: 50.3, y: 0, z: 50.7 };
+  const maxDistance = 1.5;
+  bench('linear scan', () => {
+    let best: Block | null = null;
+    let bestDistance = maxDistance;
+    for (const b of useBlocksStore.getState().blocks) {
+      const d = Math.hypot(b.position.x - point.x, b.position.y - point.y, b.position.z - point.z);
+      if (d <= bestDistance) {
+        best = b;
+        bestDistance = d;
+      }
+    }
+    void best;
+  });
+  bench('spatial index', () => {
+    blockSpatialIndex.nearest(point, maxDistance);
+  });
+});
+
+describe('pick ray across the level', () => {
+  const origin = { x: -10, y: 20, z: -10 };
+  const dir = { x: 1, y: -0.35, z: 1 };
+  bench('linear scan', () => {
+    for (const b of useProjectStore.getState().blocks) {
+      const bb = blockBounds(b);
+      let tMin = 0;
+      let tMax = 1000;
+      for (const a of ['x', 'y', 'z'] as const) {
+        let t1 = (bb.min[a] - origin[a]) / dir[a];
+        let t2 = (bb.max[a] - origin[a]) / dir[a];
+        if (t1 > t2) [t1, t2] = [t2, t1];
+        tMin = Math.max(tMin, t1);
+        tMax = Math.min(tMax, t2);
+      }
+      void (tMin <= tMax);
+    }
+  });
+  bench('spatial index', () => {
+    projectBlockIndex.raycast(origin, dir);
+  });
+});
+
+describe('keeping the store index in step', () => {
+  let x = 0;
+  bench('move one block of 20k', () => {
+    x = (x + 1) % 100;
+    const next = useBlocksStore.getState().blocks.slice();
+    next[0] = { ...next[0], position: { x, y: 0.5, z: 0 } };
+    useBlocksStore.setState({ blocks: next });
+  });
+});
@@ -0,0 +1,63 @@
+/* @vitest-environment node */
+import { describe, it, expect } from 'vitest';
+import { GlbError, inspectGlb } from '@/shared/assets/glbInspect';
+
+// Minimal GLB: JSON chunk only, geometry described by accessor metadata
+function glb(gltf: object, version = 2): Uint8Array {
+  let json = JSON.stringify(gltf);
+  while (json.length % 4 !== 0) json += ' ';
+  const chunk = new TextEncoder().encode(json);
+  const bytes = new Uint8Array(20 + chunk.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, 0x46546c67, true);
+  view.setUint32(4, version, true);
+  view.setUint32(8, bytes.length, true);
+  view.setUint32(12, chunk.length, true);
+  view.setUint32(16, 0x4e4f534a, true);
+  bytes.set(chunk, 20);
+  return bytes;
+}
+
+const cube = {
+  asset: { version: '2.0' },
+  accessors: [
+    { count: 24, min: [-0.5, -0.5, -0.5], max: [0.5, 0.5, 0.5] },
+    { count: 36 },
+  ],
+  meshes: [{ primitives: [{ attributes: { POSITION: 0 }, indices: 1 }] }],
+};
+
+describe('inspectGlb', () => {
+  it('counts triangles per mesh node', () => {
+    const info = inspectGlb(glb({ ...cube, nodes: [{ mesh: 0 }, { mesh: 0 }], scenes: [{ nodes: [0, 1] }] }));
+    expect(info).toMatchObject({ triangles: 24, meshes: 2 });
+  });
+
+  it('applies node transforms to the bounds', () => {
+    const nodes = [{ translation: [0, 2, 0], children: [1] }, { mesh: 0, scale: [2, 1, 1] }];
+    const { bounds } = inspectGlb(glb({ ...cube, nodes, scenes: [{ nodes: [0] }] }));
+    expect(bounds).toEqual({ min: [-1, 1.5, -0.5], max: [1, 2.5, 0.5] });
+  });
+
+  it('reports null bounds for a file without geometry', () => {
+    expect(inspectGlb(glb({ asset: { version: '2.0' }, nodes: [{}] }))).toEqual({ triangles: 0, meshes: 0, bounds: null });
+  });
+
+  it('rejects node graphs that are not trees', () => {
+    // Each node lists the next one twice: 2^depth paths through a handful of nodes
+    const shared = Array.from({ length: 40 }, (_, i) => (i < 39 ? { children: [i + 1, i + 1] } : { mesh: 0 }));
+    expect(() => inspectGlb(glb({ ...cube, nodes: shared, scenes: [{ nodes: [0] }] }))).toThrow('not a tree');
+    const cycle = [{ children: [1] }, { children: [0] }];
+    expect(() => inspectGlb(glb({ ...cube, nodes: cycle, scenes: [{ nodes: [0] }] }))).toThrow(GlbError);
+  });
+
+  it('rejects hierarchies too deep to count instead of skipping their meshes', () => {
+    const chain = Array.from({ length: 70 }, (_, i) => (i < 69 ? { children: [i + 1] } : { mesh: 0 }));
+    expect(() => inspectGlb(glb({ ...cube, nodes: chain, scenes: [{ nodes: [0] }] }))).toThrow('GLB node hierarchy is too deep');
+  });
+
+  it('rejects files that are not glTF 2.0 binaries', () => {
+    expect(() => inspectGlb(new TextEncoder().encode('{"asset":{"version":"2.0"}} padding'))).toThrow(GlbError);
+    expect(() => inspectGlb(glb(cube, 1))).toThrow('Only glTF 2.0 models are supported');
+  });
+});
@@ -0,0 +1,160 @@
+/* @vitest-environment node */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import config from 'server/config/config.js';
+import { closeExpiredAuctions, completeSale, minimumBid, royaltyFor } from 'server/services/skinMarketService.js';
+
+// Avoid pulling real logger/pino
+vi.mock('server/utils/logger.js', () => ({ default: { error: () => {}, info: () => {}, warn: () => {}, debug: () => {} } }));
+vi.mock('server/services/monitoring.js', () => ({ trackError: () => {} }));
+
+// Loosely typed rows keep the fake close to the Prisma call shapes it mimics
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Row = Record<string, any>;
+
+const matches = (row: Row, where: Row = {}) =>
+  Object.entries(where).every(([key, value]) => {
+    if (value && typeof value === 'object' && !(value instanceof Date)) {
+      if ('gte' in value) return row[key] >= value.gte;
+      if ('lte' in value) return row[key] <= value.lte;
+      if ('in' in value) return value.in.includes(row[key]);
+    }
+    return row[key] === value;
+  });
+
+// In-memory stand-in for the Prisma client; $transaction rolls back by snapshot
+function createDb() {
+  let state: Record<string, Row[]> = { wallet: [], walletTransaction: [], skin: [], skinListing: [], skinBid: [], skinOffer: [] };
+  let seq = 0;
+  const model = (name: string) => ({
+    findUnique: async ({ where, include }: Row) => {
+      const row = state[name].find(r => matches(r, where));
+      if (!row) return null;
+      return include?.skin ? { ...row, skin: state.skin.find(s => s.id === row.skinId) } : { ...row };
+    },
+    findMany: async ({ where, include, orderBy }: Row) => {
+      let rows = state[name].filter(r => matches(r, where)).map(r => (include?.skin ? { ...r, skin: state.skin.find(s => s.id === r.skinId) } : { ...r }));
+      if (Array.isArray(orderBy)) rows = rows.sort((a, b) => b.amount - a.amount || a.createdAt - b.createdAt);
+      return rows;
+    },
+    create: async ({ data }: Row) => {
+      const row = { id: `${name}${++seq}`, balance: 0, createdAt: seq, ...data };
+      state[name].push(row);
+      return { ...row };
+    },
+    upsert: async ({ where, create }: Row) => {
+      const existing = state[name].find(r => matches(r, where));
+      if (existing) return { ...existing };
+      const { transactions, ...data } = create;
+      const row = { id: `${name}${++seq}`, balance: 0, createdAt: seq, ...data };
+      state[name].push(row);
+      if (transactions) state.walletTransaction.push({ id: `walletTransaction${++seq}`, createdAt: seq, walletId: row.id, ...transactions.create });
+      return { ...row };
+    },
+    update: async ({ where, data }: Row) => {
+      const row = state[name].find(r => matches(r, where))!;
+      for (const [key, value] of Object.entries(data)) {
+        row[key] = value && typeof value === 'object' && 'increment' in value ? row[key] + value.increment : value;
+      }
+      return { ...row };
+    },
+    updateMany: async ({ where, data }: Row) => {
+      const rows = state[name].filter(r => matches(r, where));
+      for (const row of rows) {
+        for (const [key, value] of Object.entries(data)) {
+          row[key] = value && typeof value === 'object' && 'decrement' in value ? row[key] - value.decrement : value;
+        }
+      }
+      return { count: rows.length };
+    },
+  });
+  const db: Row = {
+    state: () => state,
+    wallet: model('wallet'),
+    walletTransaction: model('walletTransaction'),
+    skin: model('skin'),
+    skinListing: model('skinListing'),
+    skinBid: model('skinBid'),
+    skinOffer: model('skinOffer'),
+    $transaction: async (fn: (tx: Row) => Promise<unknown>) => {
+      const snapshot = JSON.parse(JSON.stringify(state));
+      try {
+        return await fn(db);
+      } catch (e) {
+        state = snapshot;
+        throw e;
+      }
+    },
+  };
+  return db;
+}
+
+const balanceOf = (db: Row, userId: string) => db.state().wallet.find((w: Row) => w.userId === userId)?.balance ?? 0;
+
+describe('skinMarketService', () => {
+  let db: Row;
+
+  beforeEach(async () => {
+    config.wallet.startingBalance = 0;
+    db = createDb();
+    await db.skin.create({ data: { id: 'skin', name: 'Knight', ownerId: 'seller', creatorId: 'creator', royaltyPercent: 10 } });
+    await db.wallet.create({ data: { userId: 'buyer', currency: 'PLN', balance: 1000 } });
+  });
+
+  it('pays no royalty on the creator\'s own sale', () => {
+    const skin = { creatorId: 'creator', royaltyPercent: 10 };
+    expect(royaltyFor(skin, 'creator', 1000)).toBe(0);
+    expect(royaltyFor(skin, 'seller', 1005)).toBe(100);
+    expect(royaltyFor({ creatorId: null, royaltyPercent: 10 }, 'seller', 1000)).toBe(0);
+  });
+
+  it('requires the starting price, then the increment over the highest bid', () => {
+    expect(minimumBid({ price: 500, minIncrement: 50 }, null)).toBe(500);
+    expect(minimumBid({ price: 500, minIncrement: 50 }, { amount: 600 })).toBe(650);
+    expect(minimumBid({ price: 500, minIncrement: null }, { amount: 600 })).toBe(601);
+  });
+
+  it('splits a resale between seller and creator and moves the skin', async () => {
+    await db.skinListing.create({ data: { id: 'l1', skinId: 'skin', type: 'FIXED', price: 800, active: true } });
+    const sale = await db.$transaction((tx: Row) => completeSale(tx, { listingId: 'l1', buyerId: 'buyer', price: 800 }));
+    expect(sale).toMatchObject({ balance: 200, royalty: 80 });
+    expect(balanceOf(db, 'seller')).toBe(720);
+    expect(balanceOf(db, 'creator')).toBe(80);
+    expect(db.state().skin[0].ownerId).toBe('buyer');
+    expect(db.state().walletTransaction.map((t: Row) => t.type)).toEqual(['SPEND', 'EARN', 'ROYALTY']);
+  });
+
+  it('closes the skin\'s other listings and their offers once it is sold', async () => {
+    await db.skinListing.create({ data: { id: 'l1', skinId: 'skin', type: 'FIXED', price: 800, active: true } });
+    await db.skinListing.create({ data: { id: 'l2', skinId: 'skin', type: 'FIXED', price: 50, active: true } });
+    await db.skinOffer.create({ data: { listingId: 'l2', buyerId: 'other', amount: 40, status: 'PENDING' } });
+    await db.$transaction((tx: Row) => completeSale(tx, { listingId: 'l1', buyerId: 'buyer', price: 800 }));
+    expect(db.state().skinListing.map((l: Row) => l.active)).toEqual([false, false]);
+    expect(db.state().skinOffer[0].status).toBe('REJECTED');
+    expect(await completeSale(db, { listingId: 'l2', buyerId: 'other', price: 50 })).toBeNull();
+  });
+
+  it('returns null for a listing that is no longer active', async () => {
+    await db.skinListing.create({ data: { id: 'l1', skinId: 'skin', type: 'FIXED', price: 800, active: false } });
+    expect(await completeSale(db, { listingId: 'l1', buyerId: 'buyer', price: 800 })).toBeNull();
+  });
+
+  it('awards an ended auction to the highest bidder who can still pay', async () => {
+    await db.skinListing.create({ data: { id: 'a1', skinId: 'skin', type: 'AUCTION', price: 100, active: true, endsAt: 10 } });
+    await db.wallet.create({ data: { userId: 'broke', currency: 'PLN', balance: 5 } });
+    await db.skinBid.create({ data: { listingId: 'a1', bidderId: 'buyer', amount: 400 } });
+    await db.skinBid.create({ data: { listingId: 'a1', bidderId: 'broke', amount: 900 } });
+
+    expect(await closeExpiredAuctions(db, 20)).toEqual({ closed: 1, sold: 1 });
+    expect(db.state().skin[0].ownerId).toBe('buyer');
+    expect(db.state().skinListing[0]).toMatchObject({ active: false, buyerId: 'buyer', price: 100, soldPrice: 400 });
+    expect(balanceOf(db, 'broke')).toBe(5);
+  });
+
+  it('closes an auction without bids unsold and leaves running ones alone', async () => {
+    await db.skinListing.create({ data: { id: 'a1', skinId: 'skin', type: 'AUCTION', price: 100, active: true, endsAt: 10 } });
+    await db.skinListing.create({ data: { id: 'a2', skinId: 'skin', type: 'AUCTION', price: 100, active: true, endsAt: 99 } });
+    expect(await closeExpiredAuctions(db, 20)).toEqual({ closed: 1, sold: 0 });
+    expect(db.state().skinListing.map((l: Row) => l.active)).toEqual([false, true]);
+    expect(db.state().skin[0].ownerId).toBe('seller');
+  });
+});
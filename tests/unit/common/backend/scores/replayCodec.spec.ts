@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { encodeReplay, decodeReplay, sanitizeReplaySkin } from 'server/services/replayCodec';
+
+describe('replayCodec', () => {
+  it('round-trips a track at storage precision', () => {
+    const samples = [
+      [0, 0, 1, 0, 0],
+      [100, 0.81, 1.02, -0.33, 1.571],
+      [200, 1.62, 1.5, -0.66, 3.1],
+    ];
+    expect(decodeReplay(encodeReplay(samples))).toEqual(samples);
+  });
+
+  it('defaults a missing yaw to zero', () => {
+    expect(decodeReplay(encodeReplay([[0, 1, 2, 3]]))).toEqual([[0, 1, 2, 3, 0]]);
+  });
+
+  it('compresses long runs well below their JSON size', () => {
+    const samples = Array.from({ length: 600 }, (_, i) => [i * 100, i * 0.8, 1, Math.sin(i / 10) * 4, 0.5]);
+    expect(encodeReplay(samples).length).toBeLessThan(JSON.stringify(samples).length / 3);
+  });
+
+  it('keeps only known skin options for the ghost', () => {
+    expect(sanitizeReplaySkin({
+      skinId: 'girl',
+      colors: { primary: 0x3b82f6, secondary: 0x60a5fa },
+      config: { headType: 'rounded', accessoryHat: '<script>', face: { eyes: 'cartoon' }, voxels: { size: 0.1 } },
+    })).toEqual({
+      skinId: 'girl',
+      colors: { primary: 0x3b82f6, secondary: 0x60a5fa },
+      config: { headType: 'rounded', face: { eyes: 'cartoon' } },
+    });
+    expect(sanitizeReplaySkin({ skinId: 'boy', colors: { primary: -1, secondary: 2 } })).toEqual({ skinId: 'boy', config: { face: {} } });
+    expect(sanitizeReplaySkin({ skinId: 'dragon' })).toBeNull();
+    expect(sanitizeReplaySkin(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { validateRun } from 'server/services/runValidation';
+
+const limits = {
+  maxHorizontalSpeed: 25,
+  maxRiseSpeed: 30,
+  maxSampleGapMs: 1000,
+  timeToleranceMs: 250,
+  maxSamples: 20000,
+  proximity: 3,
+};
+
+const block = (id: string, type: string, x: number, metadata?: Record<string, unknown>) => ({
+  id, type, position: { x, y: 0, z: 0 }, scale: 1, metadata,
+});
+
+const level = [
+  block('s', 'start', 0),
+  block('c2', 'checkpoint', 20, { checkpointId: 2 }),
+  block('c1', 'checkpoint', 10, { checkpointId: 1 }),
+  block('f', 'finish', 30),
+];
+
+// Walk along x at 10 m/s, sampling every 100ms
+function walk(toX: number, speed = 10) {
+  const samples: [number, number, number, number][] = [];
+  const durationMs = (toX / speed) * 1000;
+  for (let t = 0; t <= durationMs; t += 100) samples.push([t, (t / 1000) * speed, 1, 0]);
+  return { samples, durationMs };
+}
+
+function run(overrides: Record<string, unknown> = {}) {
+  const { samples, durationMs } = walk(30);
+  return {
+    version: 1,
+    durationMs,
+    samples,
+    checkpoints: [{ tMs: 1000, x: 10, y: 1, z: 0 }, { tMs: 2000, x: 20, y: 1, z: 0 }],
+    finish: { tMs: durationMs, x: 30, y: 1, z: 0 },
+    ...overrides,
+  };
+}
+
+describe('validateRun', () => {
+  it('accepts a plausible run and returns the recorded time', () => {
+    expect(validateRun(run(), level, 3010, limits)).toEqual({ valid: true, timeMs: 3000 });
+  });
+
+  it('rejects a claimed time that does not match the record', () => {
+    const result = validateRun(run(), level, 1500, limits);
+    expect(result.valid).toBe(false);
+    expect(result.reasons).toContain('claimed time does not match run');
+  });
+
+  it('rejects movement faster than the controller allows', () => {
+    const { samples } = walk(30, 10);
+    const fast = samples.filter((_, i) => i % 2 === 0).map(([t, x, y, z]) => [t / 4, x, y, z]);
+    const durationMs = fast[fast.length - 1][0];
+    const result = validateRun(run({ samples: fast, durationMs, finish: { tMs: durationMs, x: 30, y: 1, z: 0 } }), level, durationMs, limits);
+    expect(result.valid).toBe(false);
+    expect(result.reasons?.some((r: string) => r.startsWith('implausible speed'))).toBe(true);
+  });
+
+  it('requires checkpoints in order', () => {
+    const swapped = [level[0], { ...level[1], metadata: { checkpointId: 1 } }, { ...level[2], metadata: { checkpointId: 2 } }, level[3]];
+    const result = validateRun(run(), swapped, 3000, limits);
+    expect(result.valid).toBe(false);
+    expect(result.reasons).toContain('missed checkpoint 2 of 2');
+  });
+
+  it('allows teleporting back to a reached checkpoint', () => {
+    const { samples } = walk(30);
+    // Fall off at 1.5s and respawn at the first checkpoint sample
+    const respawned = samples.map(([t, x, y, z]) => (t === 1600 ? [t, 10, 1, 0] : t > 1600 ? [t, x - 6, y, z] : [t, x, y, z]));
+    respawned.push([3100, 24.6, 1, 0], [3700, 30, 1, 0]);
+    const result = validateRun(run({ samples: respawned, durationMs: 3700, finish: { tMs: 3700, x: 30, y: 1, z: 0 } }), level, 3700, limits);
+    expect(result).toEqual({ valid: true, timeMs: 3700 });
+  });
+
+  it('rejects runs timed from before zero', () => {
+    // A 6s walk shifted back 3s: claims half the time it took
+    const { samples } = walk(30, 5);
+    const shifted = samples.map(([t, x, y, z]) => [t - 3000, x, y, z]);
+    const checkpoints = [{ tMs: -1000, x: 10, y: 1, z: 0 }, { tMs: 1000, x: 20, y: 1, z: 0 }];
+    const result = validateRun(run({ samples: shifted, checkpoints, durationMs: 3000, finish: { tMs: 3000, x: 30, y: 1, z: 0 } }), level, 3000, limits);
+    expect(result.valid).toBe(false);
+    expect(result.reasons).toContain('run starts before time zero');
+
+    const early = run({ checkpoints: [{ tMs: -5, x: 10, y: 1, z: 0 }, { tMs: 2000, x: 20, y: 1, z: 0 }] });
+    expect(validateRun(early, level, 3000, limits).reasons).toContain('run starts before time zero');
+  });
+
+  it('rejects malformed records', () => {
+    expect(validateRun(null, level, 1000, limits).valid).toBe(false);
+    expect(validateRun(run({ samples: [[0, 0, 0, 0], ['x', 1, 1, 1]] }), level, 3000, limits).reasons).toContain('malformed sample');
+  });
+});
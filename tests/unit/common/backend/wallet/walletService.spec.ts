@@ -0,0 +1,146 @@
+/* @vitest-environment node */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import config from 'server/config/config.js';
+import { InsufficientFundsError } from 'server/middleware/errorHandler.js';
+import { credit, debit, getOrCreateWallet, listTransactions, runWalletTransaction } from 'server/services/walletService.js';
+
+// Avoid pulling real logger/pino
+vi.mock('server/utils/logger.js', () => ({ default: { error: () => {}, info: () => {}, warn: () => {}, debug: () => {} } }));
+vi.mock('server/services/monitoring.js', () => ({ trackError: () => {} }));
+
+type Wallet = { id: string; userId: string; balance: number; currency: string };
+type Entry = { id: string; walletId: string; type: string; amount: number; balanceAfter: number; listingId: string | null; note: string | null; createdAt: Date };
+
+// Just enough of the Prisma client for the wallet service
+function createTx() {
+  const wallets: Wallet[] = [];
+  const entries: Entry[] = [];
+  let seq = 0;
+  const tx = {
+    wallets,
+    entries,
+    wallet: {
+      findUnique: async ({ where }: { where: { userId: string } }) => wallets.find(w => w.userId === where.userId) ?? null,
+      upsert: async ({ where, create }: { where: { userId: string }; create: Omit<Wallet, 'id'> & { transactions?: { create: Omit<Entry, 'id' | 'walletId' | 'listingId' | 'createdAt'> } } }) => {
+        const existing = wallets.find(w => w.userId === where.userId);
+        if (existing) return { ...existing };
+        const { transactions, ...data } = create;
+        const wallet = { id: `w${++seq}`, ...data };
+        wallets.push(wallet);
+        if (transactions) entries.push({ id: `t${++seq}`, createdAt: new Date(Date.now() + seq), walletId: wallet.id, listingId: null, ...transactions.create });
+        return { ...wallet };
+      },
+      update: async ({ where, data }: { where: { userId: string }; data: { balance: { increment: number } } }) => {
+        const wallet = wallets.find(w => w.userId === where.userId)!;
+        wallet.balance += data.balance.increment;
+        return { ...wallet };
+      },
+      updateMany: async ({ where, data }: { where: { userId: string; balance: { gte: number } }; data: { balance: { decrement: number } } }) => {
+        const matches = wallets.filter(w => w.userId === where.userId && w.balance >= where.balance.gte);
+        matches.forEach(w => { w.balance -= data.balance.decrement; });
+        return { count: matches.length };
+      },
+    },
+    walletTransaction: {
+      create: async ({ data }: { data: Omit<Entry, 'id' | 'createdAt'> }) => {
+        const entry = { id: `t${++seq}`, createdAt: new Date(Date.now() + seq), ...data };
+        entries.push(entry);
+        return entry;
+      },
+      count: async ({ where }: { where: { walletId: string } }) => entries.filter(e => e.walletId === where.walletId).length,
+      findMany: async ({ where, skip, take }: { where: { walletId: string }; skip: number; take: number }) =>
+        entries.filter(e => e.walletId === where.walletId).reverse().slice(skip, skip + take),
+    },
+  };
+  return tx;
+}
+
+describe('walletService', () => {
+  let tx: ReturnType<typeof createTx>;
+
+  beforeEach(() => {
+    tx = createTx();
+    config.wallet.startingBalance = 0;
+  });
+
+  it('creates a wallet on first use with the starting balance as a grant', async () => {
+    config.wallet.startingBalance = 500;
+    const wallet = await getOrCreateWallet(tx, 'u1');
+    expect(wallet.balance).toBe(500);
+    expect(tx.entries).toMatchObject([{ type: 'GRANT', amount: 500, balanceAfter: 500 }]);
+    await getOrCreateWallet(tx, 'u1');
+    expect(tx.wallets).toHaveLength(1);
+  });
+
+  it('grants the starting balance once when first uses race', async () => {
+    config.wallet.startingBalance = 500;
+    const wallets = await Promise.all([getOrCreateWallet(tx, 'u1'), getOrCreateWallet(tx, 'u1')]);
+    expect(wallets.map(w => w.balance)).toEqual([500, 500]);
+    expect(tx.wallets).toHaveLength(1);
+    expect(tx.entries).toHaveLength(1);
+  });
+
+  // The first upsert loses to a concurrent first use that has just created the wallet
+  const loseFirstUpsert = () => {
+    const upsert = tx.wallet.upsert;
+    let calls = 0;
+    tx.wallet.upsert = async (args) => {
+      if (++calls === 1) {
+        await upsert(args);
+        throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+      }
+      return upsert(args);
+    };
+    return () => calls;
+  };
+
+  it('retries a lost first-use race outside a transaction', async () => {
+    const calls = loseFirstUpsert();
+    const root = { ...tx, $transaction: async <T>(fn: (client: typeof tx) => Promise<T>) => fn(tx) };
+    const wallet = await getOrCreateWallet(root, 'u1');
+    expect(wallet.userId).toBe('u1');
+    expect(calls()).toBe(2);
+    expect(tx.wallets).toHaveLength(1);
+  });
+
+  it('reruns the whole transaction when it loses a first-use race', async () => {
+    const calls = loseFirstUpsert();
+    let runs = 0;
+    const root = { $transaction: async <T>(fn: (client: typeof tx) => Promise<T>) => { runs++; return fn(tx); } };
+    const { wallet } = await runWalletTransaction(root, (client) => credit(client, 'u1', 10, 'GRANT'));
+    expect(wallet.balance).toBe(10);
+    expect(calls()).toBe(2);
+    expect(runs).toBe(2);
+  });
+
+  it('records credits and debits with signed amounts and running balance', async () => {
+    await credit(tx, 'u1', 1000, 'GRANT');
+    const { wallet, entry } = await debit(tx, 'u1', 300, 'SPEND', { listingId: 'l1' });
+    expect(wallet.balance).toBe(700);
+    expect(entry).toMatchObject({ type: 'SPEND', amount: -300, balanceAfter: 700, listingId: 'l1' });
+  });
+
+  it('rejects a debit larger than the balance without touching the ledger', async () => {
+    await credit(tx, 'u1', 100, 'GRANT');
+    await expect(debit(tx, 'u1', 250, 'SPEND')).rejects.toBeInstanceOf(InsufficientFundsError);
+    await expect(debit(tx, 'u1', 250, 'SPEND')).rejects.toMatchObject({ status: 402, balance: 100, required: 250 });
+    expect(tx.wallets[0].balance).toBe(100);
+    expect(tx.entries).toHaveLength(1);
+  });
+
+  it('rejects non-integer amounts and unknown types', async () => {
+    await expect(credit(tx, 'u1', 1.5, 'GRANT')).rejects.toMatchObject({ status: 400 });
+    await expect(credit(tx, 'u1', 0, 'GRANT')).rejects.toMatchObject({ status: 400 });
+    await expect(credit(tx, 'u1', 10, 'GIFT')).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('lists transactions newest first', async () => {
+    await credit(tx, 'u1', 100, 'GRANT');
+    await credit(tx, 'u1', 50, 'EARN');
+    await debit(tx, 'u1', 30, 'SPEND');
+    const { wallet, total, transactions } = await listTransactions(tx, 'u1', { offset: 0, limit: 2 });
+    expect(wallet.balance).toBe(120);
+    expect(total).toBe(3);
+    expect(transactions.map(t => t.type)).toEqual(['SPEND', 'EARN']);
+  });
+});
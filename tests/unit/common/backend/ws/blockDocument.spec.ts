@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { BlockDocument } from 'server/websocket/services/collaboration/BlockDocument';
+
+const cube = (id: string, x = 0) => ({ id, type: 'cube', position: { x, y: 0, z: 0 } });
+
+describe('BlockDocument', () => {
+  it('sequences operations and bumps per-block versions', () => {
+    const doc = new BlockDocument([cube('a')]);
+    const r1 = doc.apply('update', 'a', { color: 1 }, 'u1');
+    const r2 = doc.apply('add', 'b', cube('b'), 'u2');
+    expect(r1).toMatchObject({ accepted: true, version: 2, seq: 1 });
+    expect(r2).toMatchObject({ accepted: true, version: 1, seq: 2 });
+    expect(doc.dirty).toBe(true);
+  });
+
+  it('merges concurrent updates to different fields of the same block', () => {
+    const doc = new BlockDocument([cube('a')]);
+    doc.apply('update', 'a', { color: 0xff0000 }, 'u1');
+    doc.apply('update', 'a', { position: { x: 3, y: 0, z: 0 } }, 'u2');
+    expect(doc.snapshot().blocks.a).toMatchObject({ color: 0xff0000, position: { x: 3, y: 0, z: 0 } });
+  });
+
+  it('clears fields sent as null', () => {
+    const doc = new BlockDocument([{ ...cube('a'), hidden: true, mechanic: 'bouncy' }]);
+    const result = doc.apply('update', 'a', { hidden: null, color: 2 }, 'u1');
+    expect(result.blockData).toEqual({ ...cube('a'), mechanic: 'bouncy', color: 2 });
+    expect(doc.toBlocks()).toEqual([{ ...cube('a'), mechanic: 'bouncy', color: 2 }]);
+  });
+
+  it('rejects updates and deletes racing a delete instead of throwing', () => {
+    const doc = new BlockDocument([cube('a')]);
+    doc.apply('delete', 'a', undefined, 'u1');
+    const late = doc.apply('update', 'a', { color: 1 }, 'u2');
+    expect(late).toMatchObject({ accepted: false, reason: 'deleted', blockData: null, version: 2 });
+    expect(doc.apply('delete', 'a', undefined, 'u3').accepted).toBe(false);
+    expect(doc.toBlocks()).toEqual([]);
+  });
+
+  it('treats a repeated add as an idempotent update and ignores forged version fields', () => {
+    const doc = new BlockDocument();
+    doc.apply('add', 'a', cube('a'), 'u1');
+    const again = doc.apply('add', 'a', { ...cube('a', 2), version: 99 }, 'u1');
+    expect(again.version).toBe(2);
+    expect(doc.toBlocks()).toEqual([cube('a', 2)]);
+  });
+});
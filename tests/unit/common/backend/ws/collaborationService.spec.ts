@@ -0,0 +1,46 @@
+/* @vitest-environment node */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CollaborationService } from 'server/websocket/services/collaboration/CollaborationService.js';
+
+const db = vi.hoisted(() => ({
+  realtimeSession: { findUnique: vi.fn() },
+  game: { findUnique: vi.fn(), update: vi.fn() },
+}));
+
+vi.mock('server/utils/logger.js', () => ({ default: { error: () => {}, info: () => {}, warn: () => {}, debug: () => {} } }));
+vi.mock('server/config/database.js', () => ({ default: db }));
+vi.mock('server/websocket/services/session/SessionManager.js', () => ({
+  sessionManager: { getSession: () => ({}), getGameState: () => ({}) },
+}));
+
+const editor = { userId: 'u1', userName: 'Ala', role: 'EDITOR' };
+const cube = { id: 'a', type: 'cube', position: { x: 0, y: 0, z: 0 } };
+
+describe('CollaborationService', () => {
+  let service: CollaborationService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    db.realtimeSession.findUnique.mockResolvedValue({ gameId: 'g1' });
+    service = new CollaborationService();
+  });
+
+  it('refuses edits until the session document has loaded', async () => {
+    db.game.findUnique.mockResolvedValue({ blocks: JSON.stringify([cube]) });
+    expect(() => service.processBlockOperation('s1', editor, 'delete', 'a')).toThrow('still loading');
+
+    await service.loadDocument('s1');
+    expect(service.processBlockOperation('s1', editor, 'delete', 'a')).toMatchObject({ accepted: true });
+    expect(await service.persistSession('s1')).toBe(true);
+    expect(db.game.update).toHaveBeenCalledWith({ where: { id: 'g1' }, data: { blocks: '[]' } });
+  });
+
+  it('never writes back a document whose game blocks failed to load', async () => {
+    db.game.findUnique.mockResolvedValue({ blocks: '{not json' });
+    await service.loadDocument('s1');
+
+    service.processBlockOperation('s1', editor, 'add', 'b', { type: 'cube', position: { x: 1, y: 0, z: 0 } });
+    expect(await service.persistSession('s1')).toBe(false);
+    expect(db.game.update).not.toHaveBeenCalled();
+  });
+});
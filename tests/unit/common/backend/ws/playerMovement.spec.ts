@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { MOVEMENT, InputQueue, applyMovement, moveDirection, normalizeInput } from 'server/websocket/services/simulation/playerMovement';
+
+const idle = normalizeInput({});
+const grounded = { grounded: true, surface: null };
+
+describe('playerMovement', () => {
+  it('normalizes untrusted input to booleans and a finite yaw', () => {
+    expect(normalizeInput({ forward: 'yes', jump: true, yaw: Infinity, teleport: true })).toEqual({
+      forward: false, backward: false, left: false, right: false, jump: true, sprint: false, yaw: 0,
+    });
+  });
+
+  it('moves relative to the camera yaw like the client controller', () => {
+    const dir = moveDirection(normalizeInput({ forward: true, yaw: Math.PI / 2 }));
+    expect(dir.x).toBeCloseTo(1);
+    expect(dir.z).toBeCloseTo(0);
+    const diagonal = moveDirection(normalizeInput({ forward: true, right: true, yaw: 0 }));
+    expect(Math.hypot(diagonal.x, diagonal.z)).toBeCloseTo(1);
+  });
+
+  it('caps horizontal speed and applies friction without input', () => {
+    const player = { velocity: { x: 50, y: 0, z: 0 }, jumpLatched: false };
+    applyMovement(player, normalizeInput({ forward: true, yaw: Math.PI / 2 }), grounded, 1 / 60);
+    expect(Math.hypot(player.velocity.x, player.velocity.z)).toBeCloseTo(MOVEMENT.maxSpeed);
+
+    applyMovement(player, idle, grounded, 1 / 60);
+    expect(player.velocity.x).toBeCloseTo(MOVEMENT.maxSpeed * MOVEMENT.groundFriction);
+  });
+
+  it('jumps once per press and only when grounded', () => {
+    const player = { velocity: { x: 0, y: 0, z: 0 }, jumpLatched: false };
+    const jump = normalizeInput({ jump: true });
+    applyMovement(player, jump, { grounded: false, surface: null }, 1 / 60);
+    expect(player.velocity.y).toBe(0);
+
+    applyMovement(player, jump, grounded, 1 / 60);
+    const afterJump = player.velocity.y;
+    expect(afterJump).toBeGreaterThan(0);
+
+    player.velocity.y = 0;
+    applyMovement(player, jump, grounded, 1 / 60);
+    expect(player.velocity.y).toBe(0);
+  });
+});
+
+describe('InputQueue', () => {
+  it('rejects stale sequence numbers and overflow', () => {
+    const queue = new InputQueue(2);
+    expect(queue.push(1, { forward: true })).toBe(true);
+    expect(queue.push(1, { forward: true })).toBe(false);
+    expect(queue.push(3, {})).toBe(true);
+    expect(queue.push(4, {})).toBe(false);
+    expect(queue.size).toBe(2);
+  });
+
+  it('consumes one input per step, acks it and holds the last one', () => {
+    const queue = new InputQueue(8);
+    queue.push(5, { left: true });
+    expect(queue.next().left).toBe(true);
+    expect(queue.ackSeq).toBe(5);
+    expect(queue.next().left).toBe(true);
+    expect(queue.ackSeq).toBe(5);
+  });
+});
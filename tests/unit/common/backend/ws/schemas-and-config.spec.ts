@@ -8,6 +8,7 @@ import {
   typingSchema,
   selectionChangeSchema,
   blockOperationSchema,
+  terrainOperationSchema,
 } from 'server/websocket/validation/schemas';
 
 describe('server websocket config and schemas', () => {
@@ -35,6 +36,15 @@ describe('server websocket config and schemas', () => {
     const bo = blockOperationSchema.parse({ operation: 'add', blockId: 'b1' });
     expect(bo.operation).toBe('add');
   });
-});
 
+  it('terrainOperationSchema checks ranges against the channel and grid', () => {
+    const delta = { channel: 'splat', resolution: 2, ranges: [{ start: 3, before: [1, 0, 0, 0], after: [0, 1, 0, 0] }] };
+    expect(terrainOperationSchema.safeParse({ delta, opId: 'op-1' }).success).toBe(true);
+    // A partial vertex, or a run past the last vertex, is rejected
+    expect(terrainOperationSchema.safeParse({ delta: { ...delta, ranges: [{ start: 0, before: [1, 0], after: [0, 1] }] } }).success).toBe(false);
+    expect(terrainOperationSchema.safeParse({ delta: { ...delta, ranges: [{ start: 4, before: [1, 0, 0, 0], after: [0, 1, 0, 0] }] } }).success).toBe(false);
+    const huge = new Array(wsConfig.limits.maxTerrainDeltaValues + 1).fill(0);
+    expect(terrainOperationSchema.safeParse({ delta: { channel: 'heights', resolution: 1025, ranges: [{ start: 0, before: huge, after: huge }] } }).success).toBe(false);
+  });
+});
 
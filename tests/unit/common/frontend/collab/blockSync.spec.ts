@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { BlockSync, diffBlocks } from '@/features/collab/blockSync';
+import { useEditState } from '@/components/editor-enhanced/scene/systems/edit/EditState';
+import type { Block } from '@/types/project';
+
+const cube = (id: string, x = 0) => ({ id, type: 'cube', position: { x, y: 0, z: 0 } });
+
+describe('BlockSync', () => {
+  it('rebases pending local edits on top of remote operations', () => {
+    const sync = new BlockSync();
+    sync.load({ blocks: { a: cube('a') }, versions: { a: 1 }, seq: 0 });
+    const local = sync.local('update', 'a', { color: 5 });
+    sync.applyRemote({ operation: 'update', blockId: 'a', blockData: { ...cube('a', 4) }, version: 2, seq: 1 });
+    expect(sync.view()).toEqual([{ ...cube('a', 4), color: 5 }]);
+
+    // Server echoes our op: it leaves pending and becomes confirmed
+    sync.applyRemote({ operation: 'update', blockId: 'a', blockData: { ...cube('a', 4), color: 5 }, version: 3, seq: 2, opId: local.opId });
+    expect(sync.getPending()).toEqual([]);
+    expect(sync.getVersion('a')).toBe(3);
+  });
+
+  it('drops rejected edits and later edits to the deleted block', () => {
+    const sync = new BlockSync();
+    sync.load({ blocks: { a: cube('a') }, seq: 3 });
+    const first = sync.local('update', 'a', { color: 1 });
+    sync.local('update', 'a', { color: 2 });
+    sync.reject({ accepted: false, reason: 'deleted', blockId: 'a', blockData: null, version: 2, seq: 4, opId: first.opId });
+    expect(sync.getPending()).toEqual([]);
+    expect(sync.view()).toEqual([]);
+  });
+
+  it('reports duplicates and sequence gaps', () => {
+    const sync = new BlockSync();
+    sync.load({ blocks: {}, seq: 5 });
+    expect(sync.applyRemote({ operation: 'add', blockId: 'b', blockData: cube('b'), version: 1, seq: 5 })).toBe('duplicate');
+    expect(sync.applyRemote({ operation: 'add', blockId: 'b', blockData: cube('b'), version: 1, seq: 7 })).toBe('gap');
+  });
+});
+
+describe('diffBlocks', () => {
+  it('emits add, field-level update and delete operations', () => {
+    const ops = diffBlocks([cube('a'), cube('b')], [{ ...cube('a'), color: 3 }, cube('c')]);
+    expect(ops).toEqual([
+      { operation: 'update', blockId: 'a', blockData: { color: 3 } },
+      { operation: 'add', blockId: 'c', blockData: cube('c') },
+      { operation: 'delete', blockId: 'b' },
+    ]);
+  });
+
+  it('sends removed fields as null so they survive JSON and clear on merge', () => {
+    const hidden = { ...cube('a'), hidden: true, group: 'g' };
+    const ops = diffBlocks([hidden], [cube('a')]);
+    expect(JSON.parse(JSON.stringify(ops))).toEqual([{ operation: 'update', blockId: 'a', blockData: { hidden: null, group: null } }]);
+
+    const sync = new BlockSync();
+    sync.load({ blocks: { a: hidden }, seq: 0 });
+    sync.local('update', 'a', ops[0].blockData);
+    expect(sync.view()).toEqual([cube('a')]);
+  });
+});
+
+describe('EditState.applyBlockOperations', () => {
+  it('applies remote edits in place, keeping selection and history', () => {
+    const edit = useEditState.getState();
+    edit.loadBlocks([cube('a'), cube('b')] as Block[]);
+    edit.updateBlock('a', { color: 1 });
+    edit.setSelectedBlockIds(['a', 'b']);
+
+    const before = useEditState.getState();
+    before.applyBlockOperations(diffBlocks(before.blocks, [{ ...cube('a'), color: 1 }, cube('c', 2)] as Block[]));
+
+    const after = useEditState.getState();
+    expect(after.blocks.map(b => b.id)).toEqual(['a', 'c']);
+    expect(after.blocks[0]).toBe(before.blocks[0]); // unchanged blocks keep their identity
+    expect(after.selectedBlockIds).toEqual(['a']);
+    expect(after.history).toBe(before.history);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { LocalHistory } from '@/features/collab/localHistory';
+
+const cube = (id: string, x = 0) => ({ id, type: 'cube', position: { x, y: 0, z: 0 } });
+
+describe('LocalHistory', () => {
+  it('undoes only the fields this user changed', () => {
+    const history = new LocalHistory();
+    history.record([{ operation: 'update', blockId: 'a', blockData: { color: 1 } }], [cube('a')]);
+
+    // A collaborator moved the block afterwards; undo must keep their move
+    const ops = history.undo([{ ...cube('a', 9), color: 1 }]);
+    expect(ops).toEqual([{ operation: 'update', blockId: 'a', blockData: { color: null } }]);
+
+    // The cleared field travels as null; redo still recognises it as unchanged
+    expect(history.redo([{ ...cube('a', 9), color: null }])).toEqual([{ operation: 'update', blockId: 'a', blockData: { color: 1 } }]);
+  });
+
+  it('skips fields a collaborator overwrote since the edit', () => {
+    const history = new LocalHistory();
+    history.record([{ operation: 'update', blockId: 'a', blockData: { color: 1 } }], [{ ...cube('a'), color: 0 }]);
+    expect(history.undo([{ ...cube('a'), color: 7 }])).toEqual([]);
+    expect(history.canRedo()).toBe(true);
+  });
+
+  it('inverts adds and deletes as a single step and redoes them', () => {
+    const history = new LocalHistory();
+    const before = [cube('a'), cube('b')];
+    history.record([
+      { operation: 'add', blockId: 'c', blockData: cube('c', 2) },
+      { operation: 'delete', blockId: 'b' },
+    ], before);
+
+    const undo = history.undo([cube('a'), cube('c', 2)]);
+    expect(undo).toEqual([
+      { operation: 'add', blockId: 'b', blockData: cube('b') },
+      { operation: 'delete', blockId: 'c' },
+    ]);
+
+    const redo = history.redo(before);
+    expect(redo).toEqual([
+      { operation: 'add', blockId: 'c', blockData: cube('c', 2) },
+      { operation: 'delete', blockId: 'b' },
+    ]);
+    expect(history.canUndo()).toBe(true);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('does not touch blocks another user already removed', () => {
+    const history = new LocalHistory();
+    history.record([{ operation: 'update', blockId: 'a', blockData: { position: { x: 3, y: 0, z: 0 } } }], [cube('a')]);
+    expect(history.undo([])).toEqual([]);
+  });
+
+  it('clears redo when a new edit is recorded', () => {
+    const history = new LocalHistory();
+    history.record([{ operation: 'add', blockId: 'a', blockData: cube('a') }], []);
+    history.undo([cube('a')]);
+    history.record([{ operation: 'add', blockId: 'b', blockData: cube('b') }], []);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('keeps terrain strokes in order with block edits', () => {
+    const history = new LocalHistory();
+    const delta = { channel: 'heights' as const, resolution: 2, ranges: [{ start: 0, before: [0], after: [1] }] };
+    history.record([{ operation: 'add', blockId: 'a', blockData: cube('a') }], []);
+    history.recordTerrain(delta);
+
+    expect(history.undoStep([cube('a')])).toEqual({ ops: [], terrain: { delta, direction: 'undo' } });
+    expect(history.undoStep([cube('a')]).ops).toEqual([{ operation: 'delete', blockId: 'a' }]);
+    history.redo([]);
+    expect(history.redoStep([cube('a')]).terrain).toEqual({ delta, direction: 'redo' });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { PredictionBuffer, SnapshotInterpolator } from '@/features/multiplayer/netcode';
+
+const at = (x: number, y = 0, z = 0) => ({ x, y, z });
+
+describe('PredictionBuffer', () => {
+  it('ignores acknowledged inputs that match the prediction', () => {
+    const buffer = new PredictionBuffer();
+    buffer.record(1, at(1));
+    buffer.record(2, at(2));
+    expect(buffer.reconcile(1, at(1.01))).toBeNull();
+    expect(buffer.size).toBe(1);
+  });
+
+  it('blends small errors and shifts pending predictions by the applied offset', () => {
+    const buffer = new PredictionBuffer();
+    buffer.record(1, at(0));
+    buffer.record(2, at(1));
+    const correction = buffer.reconcile(1, at(1));
+    expect(correction?.snap).toBe(false);
+    expect(correction?.offset.x).toBeCloseTo(0.3);
+
+    // Input 2 was predicted at 1 and has since been shifted by 0.3
+    const next = buffer.reconcile(2, at(1.3));
+    expect(next).toBeNull();
+  });
+
+  it('snaps on large errors', () => {
+    const buffer = new PredictionBuffer();
+    buffer.record(7, at(0));
+    expect(buffer.reconcile(7, at(0, -20))).toEqual({ offset: at(0, -20), snap: true });
+  });
+});
+
+describe('SnapshotInterpolator', () => {
+  it('interpolates remote players behind the newest snapshot', () => {
+    const interp = new SnapshotInterpolator(100);
+    interp.push('p', 1000, at(0));
+    interp.push('p', 1050, at(10));
+    interp.push('p', 1100, at(20));
+    expect(interp.sample('p', 1175)?.x).toBeCloseTo(15);
+    expect(interp.sample('p', 1000)?.x).toBe(0);
+    expect(interp.sample('p', 2000)?.x).toBe(20);
+  });
+
+  it('drops out-of-order snapshots and removed players', () => {
+    const interp = new SnapshotInterpolator(0);
+    interp.push('p', 100, at(1));
+    interp.push('p', 50, at(9));
+    expect(interp.sample('p', 100)?.x).toBe(1);
+    interp.remove('p');
+    expect(interp.sample('p', 100)).toBeNull();
+  });
+});
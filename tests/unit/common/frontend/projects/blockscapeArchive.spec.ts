@@ -0,0 +1,89 @@
+/* @vitest-environment node */
+import { describe, it, expect } from 'vitest';
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import {
+  BLOCKSCAPE_ARCHIVE_VERSION,
+  BlockscapeArchiveError,
+  createBlockscapeArchive,
+  isBlockscapeArchive,
+  readBlockscapeArchive,
+} from '@/shared/projects/blockscapeArchive';
+import { CURRENT_PROJECT_VERSION, migrateProject } from '@/features/projects/projectFormat';
+
+// 1x1 transparent PNG
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const project = {
+  name: 'Parkour Tower',
+  blocks: [
+    { id: 'b1', type: 'cube', position: { x: 0, y: 0, z: 0 } },
+    { id: 'b2', type: 'cube_ice', position: { x: 1, y: 0, z: 0 }, mechanic: 'ice' },
+  ],
+  mode: 'RACE',
+  // Stored on games as JSON text
+  modeConfig: JSON.stringify({ laps: 3 }),
+  terrain: JSON.stringify({ positions: [0, 1, 2] }),
+  logic: [],
+  animations: [],
+};
+
+// Rewrite an entry's uncompressed size in the central directory, as a forged archive would
+function forgeDeclaredSize(bytes: Uint8Array, name: string, size: number): Uint8Array {
+  const out = bytes.slice();
+  const view = new DataView(out.buffer);
+  for (let i = 0; i + 46 <= out.length; i++) {
+    if (view.getUint32(i, true) !== 0x02014b50) continue;
+    const nameLength = view.getUint16(i + 28, true);
+    if (new TextDecoder().decode(out.subarray(i + 46, i + 46 + nameLength)) === name) view.setUint32(i + 24, size, true);
+  }
+  return out;
+}
+
+describe('blockscapeArchive', () => {
+  it('round-trips blocks, mode config, terrain and thumbnail', () => {
+    const bytes = createBlockscapeArchive(project, { thumbnail: PNG, exportedAt: '2025-10-19T12:00:00.000Z' });
+    expect(isBlockscapeArchive(bytes)).toBe(true);
+
+    const { manifest, project: read, thumbnail } = readBlockscapeArchive(bytes);
+    expect(manifest).toMatchObject({ format: 'blockscape', archiveVersion: BLOCKSCAPE_ARCHIVE_VERSION, name: 'Parkour Tower', mode: 'RACE' });
+    expect(Object.keys(unzipSync(bytes)).sort()).toEqual(['blocks.json', 'manifest.json', 'mode-config.json', 'terrain.json', 'thumbnail.png']);
+    expect(read.blocks).toEqual(project.blocks);
+    expect(JSON.parse(read.modeConfig!)).toEqual({ laps: 3 });
+    expect(read.terrain).toEqual({ positions: [0, 1, 2] });
+    expect(thumbnail).toBe(PNG);
+  });
+
+  it('reads into a project the editor can migrate', () => {
+    const { project: read } = readBlockscapeArchive(createBlockscapeArchive(project));
+    const migrated = migrateProject(read);
+    expect(migrated.version).toBe(CURRENT_PROJECT_VERSION);
+    expect(migrated).toMatchObject({ name: 'Parkour Tower', mode: 'RACE', terrain: { positions: [0, 1, 2] } });
+    expect(migrated.blocks).toHaveLength(2);
+  });
+
+  it('carries selection sets when the project has any', () => {
+    const selectionSets = [{ id: 's1', name: 'Ice path', blockIds: ['b2'] }];
+    const bytes = createBlockscapeArchive({ ...project, selectionSets });
+    expect(Object.keys(unzipSync(bytes))).toContain('selections.json');
+    expect(migrateProject(readBlockscapeArchive(bytes).project).selectionSets).toEqual(selectionSets);
+  });
+
+  it('rejects files that are not archives', () => {
+    expect(() => readBlockscapeArchive(strToU8('{"blocks":[]}'))).toThrow(BlockscapeArchiveError);
+    expect(() => readBlockscapeArchive(zipSync({ 'readme.txt': strToU8('hi') }))).toThrow('Archive is missing manifest.json');
+  });
+
+  it('rejects archives from a newer exporter', () => {
+    const manifest = { format: 'blockscape', archiveVersion: BLOCKSCAPE_ARCHIVE_VERSION + 1, name: 'x', files: { blocks: 'blocks.json' } };
+    const bytes = zipSync({ 'manifest.json': strToU8(JSON.stringify(manifest)), 'blocks.json': strToU8('[]') });
+    expect(() => readBlockscapeArchive(bytes)).toThrow(/not supported/);
+  });
+
+  it('bounds unpacking by declared sizes and skips files the manifest does not list', () => {
+    const bytes = zipSync({ ...unzipSync(createBlockscapeArchive(project)), 'junk.bin': new Uint8Array(1024) });
+    expect(readBlockscapeArchive(forgeDeclaredSize(bytes, 'junk.bin', 0xfffffff0)).project.blocks).toEqual(project.blocks);
+    expect(() => readBlockscapeArchive(forgeDeclaredSize(bytes, 'blocks.json', 0xfffffff0))).toThrow('Archive is too large');
+    // Inflation stops at the declared size, so an understated entry comes out truncated
+    expect(() => readBlockscapeArchive(forgeDeclaredSize(bytes, 'blocks.json', 8))).toThrow('Archive blocks is not valid JSON');
+  });
+});
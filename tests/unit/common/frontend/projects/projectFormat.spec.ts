@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CURRENT_PROJECT_VERSION,
+  ProjectFormatError,
+  detectProjectVersion,
+  migrateBlocks,
+  migrateProject,
+  migrateSavedProjects,
+  projectMigrations,
+  projectSchemas,
+} from '@/features/projects/projectFormat';
+
+const step = (from: string) => projectMigrations.find(m => m.from === from)!;
+
+const v12 = (blocks: unknown[]) => ({
+  name: 'Level',
+  blocks,
+  timestamp: '2025-01-01T00:00:00.000Z',
+  version: '1.2.0',
+});
+
+describe('detectProjectVersion', () => {
+  it('treats bare block lists and unversioned objects as 1.0.0', () => {
+    expect(detectProjectVersion([])).toBe('1.0.0');
+    expect(detectProjectVersion({ name: 'x', blocks: [] })).toBe('1.0.0');
+  });
+
+  it('maps versions between known formats to the older one', () => {
+    expect(detectProjectVersion({ version: '1.2.0' })).toBe('1.2.0');
+    expect(detectProjectVersion({ version: '1.2.4' })).toBe('1.2.0');
+    expect(detectProjectVersion({ version: '1.1.0' })).toBe('1.0.0');
+  });
+
+  it('refuses projects from a newer editor', () => {
+    expect(() => detectProjectVersion({ version: '9.0.0' })).toThrow(ProjectFormatError);
+  });
+});
+
+describe('1.0.0 -> 1.2.0', () => {
+  it('wraps a bare block list and fills in ids and metadata', () => {
+    const out = step('1.0.0').up([{ type: 'cube', position: { x: 0, y: 0, z: 0 } }]) as Record<string, unknown>;
+    expect(projectSchemas['1.2.0'].safeParse(out).success).toBe(true);
+    expect(out).toMatchObject({ name: 'Untitled Project', version: '1.2.0', blocks: [{ id: 'block-1', type: 'cube' }] });
+  });
+
+  it('keeps server fields and uses updatedAt as the timestamp', () => {
+    const out = step('1.0.0').up({ id: 'g1', name: 'Game', blocks: [], updatedAt: '2024-05-01T00:00:00.000Z', published: true });
+    expect(out).toMatchObject({ id: 'g1', name: 'Game', timestamp: '2024-05-01T00:00:00.000Z', published: true });
+  });
+});
+
+describe('1.2.0 -> 1.3.0', () => {
+  const upgrade = (block: Record<string, unknown>) => {
+    const out = step('1.2.0').up(v12([{ id: 'b', position: { x: 0, y: 0, z: 0 }, ...block }])) as { blocks: Record<string, unknown>[] };
+    expect(projectSchemas['1.3.0'].safeParse(out).success).toBe(true);
+    return out.blocks[0];
+  };
+
+  it('collapses vector scales and drops invalid ones', () => {
+    expect(upgrade({ type: 'plate', scale: { x: 6, y: 1, z: 6 } }).scale).toBe(6);
+    expect(upgrade({ type: 'cube', scale: 2 }).scale).toBe(2);
+    expect(upgrade({ type: 'cube', scale: 0 })).not.toHaveProperty('scale');
+  });
+
+  it('derives the mechanic from mechanic block types, which win over conflicts', () => {
+    expect(upgrade({ type: 'cube_bouncy' }).mechanic).toBe('bouncy');
+    expect(upgrade({ type: 'cube_ice', mechanic: 'boost' }).mechanic).toBe('ice');
+  });
+
+  it('turns plain cubes with a cube mechanic into the matching type', () => {
+    expect(upgrade({ type: 'cube', mechanic: 'sticky' })).toMatchObject({ type: 'cube_sticky', mechanic: 'sticky' });
+    expect(upgrade({ type: 'cube', mechanic: 'none' })).not.toHaveProperty('mechanic');
+    expect(upgrade({ type: 'plate', mechanic: 'ice' }).mechanic).toBe('ice');
+  });
+
+  it('defaults logic and animations', () => {
+    const out = step('1.2.0').up(v12([])) as Record<string, unknown>;
+    expect(out).toMatchObject({ logic: [], animations: [], version: '1.3.0' });
+  });
+});
+
+describe('migrateProject', () => {
+  it('upgrades server block lists to the current format', () => {
+    const blocks = migrateBlocks([
+      { id: 'a', type: 'plate', position: { x: 0, y: 0, z: 0 }, scale: { x: 10, y: 1, z: 10 } },
+      { id: 'b', type: 'cube_boost', position: { x: 1, y: 0, z: 0 } },
+    ]);
+    expect(blocks).toEqual([
+      { id: 'a', type: 'plate', position: { x: 0, y: 0, z: 0 }, scale: 10 },
+      { id: 'b', type: 'cube_boost', position: { x: 1, y: 0, z: 0 }, mechanic: 'boost' },
+    ]);
+  });
+
+  it('leaves current projects unchanged', () => {
+    const current = { ...v12([{ id: 'a', type: 'cube', position: { x: 0, y: 0, z: 0 } }]), version: CURRENT_PROJECT_VERSION, logic: [], animations: [] };
+    expect(migrateProject(current)).toEqual(current);
+  });
+
+  it('fills mechanics and defaults that earlier 1.3.0 writers left out', () => {
+    const saved = { ...v12([{ id: 'a', type: 'cube_bouncy', position: { x: 0, y: 0, z: 0 } }]), version: CURRENT_PROJECT_VERSION };
+    const project = migrateProject(saved);
+    expect(project.blocks[0].mechanic).toBe('bouncy');
+    expect(project).toMatchObject({ logic: [], animations: [] });
+  });
+
+  it('reports invalid projects with the offending paths', () => {
+    expect(() => migrateProject(v12([{ id: 'a', type: 'spaceship', position: { x: 0, y: 0, z: 0 } }]))).toThrow(/blocks\.0\.type/);
+    expect(() => migrateProject({ version: '1.2.0', blocks: 'nope' })).toThrow(ProjectFormatError);
+  });
+
+  it('keeps unreadable saved projects as stored', () => {
+    const broken = { version: '1.2.0' };
+    const saved = migrateSavedProjects({ ok: v12([]), broken });
+    expect(saved.ok.version).toBe(CURRENT_PROJECT_VERSION);
+    expect(saved.broken).toBe(broken);
+  });
+});
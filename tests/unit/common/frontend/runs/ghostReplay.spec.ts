@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { GhostReplay } from '@/features/runs/ghostReplay';
+
+describe('GhostReplay', () => {
+  it('interpolates position and yaw along the track', () => {
+    const replay = new GhostReplay([[0, 0, 1, 0, 0], [100, 10, 1, 0, Math.PI / 2], [200, 10, 1, 10, Math.PI / 2]]);
+    const pose = replay.poseAt(50);
+    expect(pose?.x).toBeCloseTo(5);
+    expect(pose?.yaw).toBeCloseTo(Math.PI / 4);
+    expect(replay.poseAt(150)?.z).toBeCloseTo(5);
+    expect(replay.durationMs).toBe(200);
+  });
+
+  it('turns the short way across ±π and holds the ends', () => {
+    const replay = new GhostReplay([[0, 0, 0, 0, 3], [100, 0, 0, 0, -3]]);
+    expect(Math.abs(replay.poseAt(50)!.yaw!)).toBeGreaterThan(3);
+    expect(replay.poseAt(-10)?.x).toBe(0);
+    expect(replay.poseAt(1000)?.yaw).toBe(-3);
+  });
+
+  it('supports rewinding after a restart', () => {
+    const replay = new GhostReplay([[0, 0, 0, 0], [100, 1, 0, 0], [200, 2, 0, 0]]);
+    expect(replay.poseAt(150)?.x).toBeCloseTo(1.5);
+    expect(replay.poseAt(50)?.x).toBeCloseTo(0.5);
+    expect(replay.poseAt(50)?.yaw).toBeUndefined();
+  });
+});
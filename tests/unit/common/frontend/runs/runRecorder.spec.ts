@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { RunRecorder } from '@/features/runs/runRecorder';
+
+const at = (x: number, y = 0, z = 0) => ({ x, y, z });
+
+describe('RunRecorder', () => {
+  it('throttles samples and closes the run at the finish', () => {
+    const recorder = new RunRecorder(100);
+    recorder.start(1000, at(0));
+    recorder.sample(1050, at(0.5));
+    recorder.sample(1100, at(1));
+    recorder.checkpoint(1150, at(1.5));
+    const run = recorder.finish(1300, at(3));
+
+    expect(run?.samples.map(s => s[0])).toEqual([0, 100, 150, 300]);
+    expect(run?.checkpoints).toEqual([{ tMs: 150, x: 1.5, y: 0, z: 0 }]);
+    expect(run?.finish.tMs).toBe(300);
+    expect(run?.durationMs).toBe(300);
+    expect(recorder.recording).toBe(false);
+  });
+
+  it('ignores events before the start and restarts cleanly', () => {
+    const recorder = new RunRecorder();
+    recorder.sample(0, at(1));
+    expect(recorder.finish(10, at(1))).toBeNull();
+
+    recorder.start(0, at(0));
+    recorder.finish(500, at(5));
+    recorder.start(1000, at(0));
+    expect(recorder.result).toBeNull();
+    expect(recorder.recording).toBe(true);
+  });
+});
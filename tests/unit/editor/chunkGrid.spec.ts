@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { ChunkGrid, CHUNK_SIZE } from '@/features/chunking/chunkGrid';
+
+const RED = '#ff0000';
+const BLUE = '#0000ff';
+
+function quadCount(grid: ChunkGrid, chunk: string, material = RED) {
+  return (grid.buildChunk(chunk).get(material)?.indices.length ?? 0) / 6;
+}
+
+describe('ChunkGrid', () => {
+  it('merges a row of same-coloured cubes into six quads', () => {
+    const grid = new ChunkGrid();
+    for (let x = 0; x < 4; x++) expect(grid.set(`b${x}`, { x: x + 0.5, y: 0.5, z: 0.5 }, RED)).toBe(true);
+
+    const [chunk] = grid.takeDirty().filter(key => key.endsWith('|0,0,0'));
+    const buffers = grid.buildChunk(chunk).get(RED)!;
+    expect(buffers.indices.length / 6).toBe(6);
+    const xs = buffers.positions.filter((_, i) => i % 3 === 0);
+    expect(Math.min(...xs)).toBe(0);
+    expect(Math.max(...xs)).toBe(4);
+  });
+
+  it('keeps colours in separate buffers but hides the faces between them', () => {
+    const grid = new ChunkGrid();
+    grid.set('a', { x: 0, y: 0, z: 0 }, RED);
+    grid.set('b', { x: 1, y: 0, z: 0 }, BLUE);
+
+    const buffers = grid.buildChunk('0,0,0|0,0,0');
+    expect([...buffers.keys()].sort()).toEqual([BLUE, RED].sort());
+    expect(quadCount(grid, '0,0,0|0,0,0', RED)).toBe(5);
+    expect(quadCount(grid, '0,0,0|0,0,0', BLUE)).toBe(5);
+  });
+
+  it('culls faces against cubes in a neighbouring chunk and re-meshes both sides', () => {
+    const grid = new ChunkGrid();
+    grid.set('left', { x: CHUNK_SIZE - 1, y: 0, z: 0 }, RED);
+    grid.takeDirty();
+    expect(quadCount(grid, '0,0,0|0,0,0')).toBe(6);
+
+    grid.set('right', { x: CHUNK_SIZE, y: 0, z: 0 }, RED);
+    expect(grid.takeDirty()).toEqual(expect.arrayContaining(['0,0,0|0,0,0', '0,0,0|1,0,0']));
+    expect(quadCount(grid, '0,0,0|0,0,0')).toBe(5);
+    expect(quadCount(grid, '0,0,0|1,0,0')).toBe(5);
+  });
+
+  it('rejects off-grid and overlapping cubes', () => {
+    const grid = new ChunkGrid();
+    expect(grid.set('a', { x: 0.3, y: 0, z: 0 }, RED)).toBe(false);
+    expect(grid.set('b', { x: 2, y: 0, z: 0 }, RED)).toBe(true);
+    expect(grid.set('c', { x: 2, y: 0, z: 0 }, RED)).toBe(false);
+    expect(grid.has('a')).toBe(false);
+    expect(grid.size).toBe(1);
+
+    // Moving a cube off the grid drops it from its chunk
+    expect(grid.set('b', { x: 2.25, y: 0, z: 0 }, RED)).toBe(false);
+    expect(grid.size).toBe(0);
+    expect(grid.buildChunk('0,0,0|0,0,0').size).toBe(0);
+  });
+
+  it('resolves a hit on merged geometry to the cube behind it', () => {
+    const grid = new ChunkGrid();
+    grid.set('a', { x: 0.5, y: 0.5, z: 0.5 }, RED);
+    grid.set('b', { x: 1.5, y: 0.5, z: 0.5 }, RED);
+    grid.set('c', { x: 3, y: 0, z: 0 }, RED);
+
+    expect(grid.blockIdAt({ x: 1.7, y: 1, z: 0.2 }, { x: 0, y: 1, z: 0 })).toBe('b');
+    expect(grid.blockIdAt({ x: 0, y: 0.4, z: 0.6 }, { x: -1, y: 0, z: 0 })).toBe('a');
+    expect(grid.blockIdAt({ x: 3, y: 0, z: 0.5 }, { x: 0, y: 0, z: 1 })).toBe('c');
+    expect(grid.blockIdAt({ x: 10, y: 0, z: 0 }, { x: 0, y: 1, z: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DEFAULT_ENVIRONMENT,
+  formatTimeOfDay,
+  mixColor,
+  normalizeEnvironment,
+  resolveEnvironment,
+  sunElevation,
+} from '@/features/environment/environment';
+import { useEnvironmentStore } from '@/features/projects/stores/environment.store';
+import { migrateProject } from '@/features/projects/projectFormat';
+import { applyEnvironmentPreset, updateEnvironment } from '@/features/environment/environmentActions';
+import { useProjectStore } from '@/lib/projectStore';
+
+describe('project environment', () => {
+  beforeEach(() => useEnvironmentStore.getState().setEnvironment(null));
+
+  it('fills missing sections from the defaults and clamps ranges', () => {
+    expect(normalizeEnvironment(undefined)).toEqual(DEFAULT_ENVIRONMENT);
+    const env = normalizeEnvironment({ timeOfDay: 26, sun: { azimuth: -90, intensity: 99 }, fog: { enabled: true, near: 50, far: 10 } });
+    expect(env.timeOfDay).toBe(2);
+    expect(env.sun).toMatchObject({ azimuth: 270, intensity: 5, color: DEFAULT_ENVIRONMENT.sun.color });
+    expect(env.fog).toMatchObject({ enabled: true, near: 50, far: 51 });
+    expect(env.sky).toEqual(DEFAULT_ENVIRONMENT.sky);
+  });
+
+  it('moves and tints the sun with the time of day', () => {
+    expect(sunElevation(12)).toBeCloseTo(70);
+    expect(sunElevation(6)).toBeCloseTo(0);
+    expect(sunElevation(0)).toBeLessThan(0);
+
+    const noon = resolveEnvironment({ ...DEFAULT_ENVIRONMENT, timeOfDay: 12 });
+    const night = resolveEnvironment({ ...DEFAULT_ENVIRONMENT, timeOfDay: 0 });
+    expect(noon.directional.direction.y).toBeLessThan(0);
+    expect(noon.directional.color).toBe('#ffffff');
+    expect(noon.directional.intensity).toBeGreaterThan(night.directional.intensity);
+    expect(night.directional.direction.y).toBeLessThan(0);
+    expect(night.sky?.stars).toBe(true);
+    expect(noon.sky).toMatchObject({ top: '#4a90d9', horizon: '#87ceeb', stars: false });
+
+    const dusk = resolveEnvironment({ ...DEFAULT_ENVIRONMENT, timeOfDay: 18 });
+    expect(dusk.sky?.horizon).not.toBe(noon.sky?.horizon);
+  });
+
+  it('keeps preset skies fixed and maps fog onto distances', () => {
+    const env = normalizeEnvironment({ timeOfDay: 3, sky: { mode: 'preset', preset: 'sunset' }, fog: { enabled: true, near: 10, far: 100 } });
+    const resolved = resolveEnvironment(env);
+    expect(resolved.skybox).toBe('sunset');
+    expect(resolved.sky).toEqual(resolveEnvironment({ ...env, timeOfDay: 12 }).sky);
+    expect(resolved.fog).toMatchObject({ enabled: true, start: 10, end: 100, density: 0.02 });
+    expect(mixColor(0x000000, 0xffffff, 0.5)).toBe(0x808080);
+    expect(formatTimeOfDay(18.25)).toBe('18:15');
+  });
+
+  it('applies presets and partial updates in the store', () => {
+    const store = useEnvironmentStore.getState();
+    store.applyPreset('night');
+    expect(useEnvironmentStore.getState().environment.sky.preset).toBe('night');
+    store.updateEnvironment({ fog: { near: 5 }, timeOfDay: 9 });
+    const env = useEnvironmentStore.getState().environment;
+    expect(env.fog).toMatchObject({ enabled: true, near: 5, far: 160 });
+    expect(env.timeOfDay).toBe(9);
+    store.applyPreset('missing');
+    expect(useEnvironmentStore.getState().environment).toBe(env);
+  });
+
+  it('marks the project unsaved on editor changes but not on load', () => {
+    useProjectStore.setState({ hasUnsavedChanges: false });
+    useEnvironmentStore.getState().setEnvironment({ ...DEFAULT_ENVIRONMENT, timeOfDay: 8 });
+    expect(useProjectStore.getState().hasUnsavedChanges).toBe(false);
+
+    updateEnvironment({ timeOfDay: 18 });
+    expect(useProjectStore.getState().hasUnsavedChanges).toBe(true);
+
+    useProjectStore.setState({ hasUnsavedChanges: false });
+    applyEnvironmentPreset('missing');
+    expect(useProjectStore.getState().hasUnsavedChanges).toBe(false);
+    applyEnvironmentPreset('night');
+    expect(useProjectStore.getState().hasUnsavedChanges).toBe(true);
+  });
+
+  it('round-trips through the project format', () => {
+    const environment = normalizeEnvironment({ timeOfDay: 20, fog: { enabled: true } });
+    const project = migrateProject({ name: 'P', blocks: [], timestamp: 't', version: '1.3.0', logic: [], animations: [], environment });
+    expect(project.environment).toEqual(environment);
+    expect(() => migrateProject({ ...project, environment: { ...environment, sky: { mode: 'cubemap' } } })).toThrow();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { buildExportScene, exportSceneToGlb } from '@/components/scene/export/exportGlb';
+import type { Block } from '@/components/scene/types';
+
+function block(id: string, color: number, overrides: Partial<Block> = {}): Block {
+  const mesh = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1), new THREE.MeshLambertMaterial({ color }));
+  mesh.position.set(Number(id.replace(/\D/g, '')) * 2, 0.5, 0);
+  return { id, type: 'cube', position: { x: mesh.position.x, y: 0.5, z: 0 }, color, mesh, ...overrides };
+}
+
+const meshes = (scene: THREE.Scene) => scene.children.filter((o): o is THREE.Mesh => (o as THREE.Mesh).isMesh);
+
+describe('buildExportScene', () => {
+  it('exports one node per visible block and skips hidden ones', () => {
+    const blocks = [block('b1', 0xff0000), block('b2', 0xff0000, { hidden: true, name: 'Secret' }), block('b3', 0x00ff00, { name: 'Goal' })];
+    const { scene, dispose } = buildExportScene(blocks, null);
+    expect(meshes(scene).map(m => m.name)).toEqual(['cube-b1', 'Goal']);
+    expect(meshes(scene)[1].userData).toEqual({ blockId: 'b3', blockType: 'cube' });
+    dispose();
+  });
+
+  it('bakes rotation and scale and keeps block colors', () => {
+    const b = block('b1', 0x3366ff);
+    b.mesh!.rotation.set(0, Math.PI / 2, 0);
+    b.mesh!.scale.setScalar(2);
+    const { scene, dispose } = buildExportScene([b], null);
+    const [mesh] = meshes(scene);
+    expect(mesh.scale.x).toBeCloseTo(2);
+    expect(mesh.quaternion.angleTo(b.mesh!.quaternion)).toBeCloseTo(0);
+    expect((mesh.material as THREE.MeshStandardMaterial).color.getHex()).toBe(0x3366ff);
+    dispose();
+  });
+
+  it('merges blocks by material into world-space meshes', () => {
+    const blocks = [block('b1', 0xff0000), block('b2', 0xff0000), block('b3', 0x00ff00)];
+    const { scene, dispose } = buildExportScene(blocks, null, { mergeByMaterial: true });
+    const merged = meshes(scene);
+    expect(merged).toHaveLength(2);
+    const red = merged.find(m => (m.material as THREE.MeshStandardMaterial).color.getHex() === 0xff0000)!;
+    red.geometry.computeBoundingBox();
+    // b1 at x=2 and b2 at x=4, each 1 wide
+    expect(red.geometry.boundingBox!.min.x).toBeCloseTo(1.5);
+    expect(red.geometry.boundingBox!.max.x).toBeCloseTo(4.5);
+    dispose();
+  });
+
+  it('adds the terrain mesh unless disabled', () => {
+    const terrain = new THREE.Mesh(new THREE.PlaneGeometry(50, 50), new THREE.MeshLambertMaterial({ color: 0x4a9d4a }));
+    expect(meshes(buildExportScene([], terrain).scene).map(m => m.name)).toEqual(['terrain']);
+    expect(meshes(buildExportScene([], terrain, { includeTerrain: false }).scene)).toHaveLength(0);
+  });
+
+  it('writes a binary glTF', async () => {
+    const glb = await exportSceneToGlb([block('b1', 0xff0000)], null, { mergeByMaterial: true });
+    expect(new TextDecoder().decode(new Uint8Array(glb, 0, 4))).toBe('glTF');
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { computeModelCollider, scaleCollider, type Vec3 } from '@/features/assets/modelCollider';
+
+const corners = (min: Vec3, max: Vec3): Vec3[] =>
+  Array.from({ length: 8 }, (_, i) => ({
+    x: i & 1 ? max.x : min.x,
+    y: i & 2 ? max.y : min.y,
+    z: i & 4 ? max.z : min.z,
+  }));
+
+describe('computeModelCollider', () => {
+  it('fits a box around the points', () => {
+    const shape = computeModelCollider(corners({ x: -1, y: -0.5, z: 0 }, { x: 1, y: 1.5, z: 0.5 }));
+    expect(shape).toEqual({ kind: 'box', halfExtents: { x: 1, y: 1, z: 0.25 }, offset: { x: 0, y: 0.5, z: 0.25 } });
+  });
+
+  it('builds a convex hull that drops interior points', () => {
+    const points = [...corners({ x: -1, y: -1, z: -1 }, { x: 1, y: 1, z: 1 }), { x: 0, y: 0, z: 0 }, { x: 0.5, y: 0.2, z: -0.3 }];
+    const shape = computeModelCollider(points, 'hull');
+    if (shape.kind !== 'hull') throw new Error('expected a hull');
+    expect(shape.vertices).toHaveLength(8);
+    expect(shape.faces.length).toBeGreaterThanOrEqual(6);
+    shape.faces.flat().forEach(index => expect(index).toBeLessThan(8));
+  });
+
+  it('falls back to a box for flat models', () => {
+    const flat = [{ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 0, y: 0, z: 1 }, { x: 1, y: 0, z: 1 }];
+    const shape = computeModelCollider(flat, 'hull');
+    expect(shape.kind).toBe('box');
+    if (shape.kind === 'box') expect(shape.halfExtents.y).toBeGreaterThan(0);
+  });
+
+  it('scales with the block', () => {
+    const shape = scaleCollider(computeModelCollider(corners({ x: 0, y: 0, z: 0 }, { x: 1, y: 1, z: 1 })), 2);
+    expect(shape).toEqual({ kind: 'box', halfExtents: { x: 1, y: 1, z: 1 }, offset: { x: 1, y: 1, z: 1 } });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyInstanceToPrefab,
+  createPrefab,
+  instanceOrigin,
+  instanceOverrides,
+  instantiatePrefab,
+  listPrefabInstances,
+  nextInstanceOrigin,
+  propagatePrefab,
+  revertInstance,
+  unpackBlocks,
+} from '@/features/prefabs/prefabs';
+import { migrateProject } from '@/features/projects/projectFormat';
+import { deletePrefab, saveSelectionAsPrefab } from '@/features/prefabs/prefabActions';
+import { usePrefabStore } from '@/features/projects/stores/prefab.store';
+import { useProjectStore } from '@/lib/projectStore';
+import type { Block, Prefab } from '@/types/project';
+
+const level: Block[] = [
+  { id: 'floor', type: 'cube', position: { x: 10, y: 0.5, z: 10 } },
+  { id: 'a', type: 'cube', position: { x: 0, y: 0.5, z: 0 }, color: 0xff0000, group: 'tower' },
+  { id: 'b', type: 'cube', position: { x: 0, y: 1.5, z: 0 }, color: 0xff0000 },
+  { id: 'c', type: 'sphere', position: { x: 2, y: 0.5, z: 0 }, color: 0x0000ff },
+];
+
+const pos = (blocks: Block[], id: string) => blocks.find(b => b.id === id)!.position;
+
+function twoInstances() {
+  const created = createPrefab('Tower', level, ['a', 'b', 'c']);
+  const placed = instantiatePrefab(created.prefab, { x: 20, y: 0.5, z: 0 }, created.blocks);
+  return { prefab: created.prefab, blocks: [...created.blocks, ...placed], placed };
+}
+
+describe('prefab definitions and instances', () => {
+  it('saves a selection as a prefab whose first instance is the selection', () => {
+    const { prefab, blocks } = createPrefab('  Tower ', level, ['a', 'b', 'c']);
+    expect(prefab.name).toBe('Tower');
+    expect(prefab.blocks.map(b => [b.key, b.type, b.position])).toEqual([
+      ['b1', 'cube', { x: -1, y: 0, z: 0 }],
+      ['b2', 'cube', { x: -1, y: 1, z: 0 }],
+      ['b3', 'sphere', { x: 1, y: 0, z: 0 }],
+    ]);
+    expect(prefab.blocks[0]).not.toHaveProperty('group');
+    expect(blocks.find(b => b.id === 'floor')).toEqual(level[0]);
+    const instances = listPrefabInstances(blocks, [prefab]);
+    expect(instances).toHaveLength(1);
+    expect(instances[0].blockIds).toEqual(['a', 'b', 'c']);
+    expect(instances[0].origin).toEqual({ x: 1, y: 0.5, z: 0 });
+    expect(listPrefabInstances(blocks, [])).toEqual([]);
+  });
+
+  it('places instances with fresh ids and finds their origin despite moved blocks', () => {
+    const { prefab, blocks, placed } = twoInstances();
+    expect(placed.map(b => b.position)).toEqual([{ x: 19, y: 0.5, z: 0 }, { x: 19, y: 1.5, z: 0 }, { x: 21, y: 0.5, z: 0 }]);
+    expect(new Set(blocks.map(b => b.id)).size).toBe(blocks.length);
+
+    const moved = placed.map((b, i) => i === 2 ? { ...b, position: { x: 30, y: 0.5, z: 0 }, color: 0x00ff00 } : b);
+    expect(instanceOrigin(prefab, moved)).toEqual({ x: 20, y: 0.5, z: 0 });
+    expect(instanceOverrides(prefab, moved)).toEqual({ [placed[2].id]: ['color', 'position'] });
+    expect(nextInstanceOrigin(blocks, prefab)).toEqual({ x: 24, y: 0.5, z: 0 });
+  });
+
+  it('propagates definition edits while keeping colour and position overrides', () => {
+    const { prefab, blocks, placed } = twoInstances();
+    // Instance two: recoloured top block, moved sphere
+    const edited = blocks.map(b => b.id === placed[1].id ? { ...b, color: 0x00ff00 }
+      : b.id === placed[2].id ? { ...b, position: { x: 25, y: 0.5, z: 0 } } : b);
+    const after: Prefab = {
+      ...prefab,
+      blocks: [
+        { ...prefab.blocks[0], color: 0xffffff, rotationY: 90 },
+        { ...prefab.blocks[1], color: 0xffffff, position: { x: -1, y: 2, z: 0 } },
+        { ...prefab.blocks[2], position: { x: 1, y: 0, z: 1 } },
+        { key: 'b4', type: 'cube', position: { x: 0, y: 0, z: 3 } },
+      ],
+    };
+    const next = propagatePrefab(edited, prefab, after);
+    const second = next.filter(b => b.prefabInstanceId === placed[0].prefabInstanceId);
+
+    expect(second.map(b => b.color)).toEqual([0xffffff, 0x00ff00, 0x0000ff, undefined]);
+    expect(second.map(b => b.position)).toEqual([
+      { x: 19, y: 0.5, z: 0 },
+      { x: 19, y: 2.5, z: 0 },
+      { x: 25, y: 0.5, z: 0 },
+      { x: 20, y: 0.5, z: 3 },
+    ]);
+    expect(second[0].rotationY).toBe(90);
+    // The first instance follows the definition everywhere and keeps its group
+    expect(next.find(b => b.id === 'a')).toMatchObject({ color: 0xffffff, group: 'tower', rotationY: 90 });
+    expect(pos(next, 'c')).toEqual({ x: 2, y: 0.5, z: 1 });
+    expect(next.filter(b => b.prefabKey === 'b4')).toHaveLength(2);
+    expect(next[0]).toBe(edited[0]);
+
+    // Keys dropped from the definition leave every instance
+    const shrunk = propagatePrefab(next, after, { ...after, blocks: after.blocks.slice(1) });
+    expect(shrunk.some(b => b.prefabKey === 'b1')).toBe(false);
+    expect(shrunk).toHaveLength(next.length - 2);
+  });
+
+  it('applies one instance back to the definition and on to the others', () => {
+    const { prefab, blocks, placed } = twoInstances();
+    const loose: Block = { id: 'flag', type: 'cone', position: { x: 1, y: 2.5, z: 0 } };
+    const edited = [...blocks.filter(b => b.id !== 'c'), loose].map(b => b.id === 'b' ? { ...b, color: 0x00ff00 } : b);
+
+    const result = applyInstanceToPrefab(edited, prefab, blocks.find(b => b.id === 'a')!.prefabInstanceId!, ['flag']);
+    expect(result.prefab.blocks.map(b => [b.key, b.type, b.color, b.position])).toEqual([
+      ['b1', 'cube', 0xff0000, { x: -1, y: 0, z: 0 }],
+      ['b2', 'cube', 0x00ff00, { x: -1, y: 1, z: 0 }],
+      ['b4', 'cone', undefined, { x: 0, y: 2, z: 0 }],
+    ]);
+    const second = result.blocks.filter(b => b.prefabInstanceId === placed[0].prefabInstanceId);
+    expect(second.map(b => [b.type, b.color, b.position])).toEqual([
+      ['cube', 0xff0000, { x: 19, y: 0.5, z: 0 }],
+      ['cube', 0x00ff00, { x: 19, y: 1.5, z: 0 }],
+      ['cone', undefined, { x: 20, y: 2.5, z: 0 }],
+    ]);
+    expect(result.blocks.find(b => b.id === 'flag')).toMatchObject({ prefabKey: 'b4', position: { x: 1, y: 2.5, z: 0 } });
+    expect(result.blocks.filter(b => b.prefabKey === 'b4')).toHaveLength(2);
+  });
+
+  it('reverts overrides, restores deleted members and unpacks instances', () => {
+    const { prefab, blocks, placed } = twoInstances();
+    const instanceId = placed[0].prefabInstanceId!;
+    const edited = blocks
+      .filter(b => b.id !== placed[1].id)
+      .map(b => b.id === placed[2].id ? { ...b, color: 0x123456, position: { x: 40, y: 0.5, z: 0 }, hidden: true } : b);
+
+    const reverted = revertInstance(edited, prefab, instanceId);
+    const members = reverted.filter(b => b.prefabInstanceId === instanceId);
+    expect(members).toHaveLength(3);
+    expect(instanceOverrides(prefab, members)).toEqual({});
+    expect(reverted.find(b => b.id === placed[2].id)).toMatchObject({ color: 0x0000ff, hidden: true });
+
+    const unpacked = unpackBlocks(reverted, b => b.prefabInstanceId === instanceId);
+    expect(unpacked.filter(b => b.prefabInstanceId)).toHaveLength(3);
+    expect(unpacked.find(b => b.id === placed[2].id)).not.toHaveProperty('prefabId');
+  });
+
+  it('round-trips prefabs and instance fields through the project format', () => {
+    const { prefab, blocks } = twoInstances();
+    const project = migrateProject({ name: 'P', blocks, timestamp: 't', version: '1.3.0', logic: [], animations: [], prefabs: [prefab] });
+    expect(project.prefabs).toEqual([prefab]);
+    expect(project.blocks.find(b => b.id === 'a')?.prefabKey).toBe('b1');
+    expect(() => migrateProject({ ...project, prefabs: [{ id: 'x', name: 'bad', blocks: [{ type: 'cube', position: { x: 0, y: 0, z: 0 } }] }] })).toThrow();
+  });
+});
+
+describe('prefab commands', () => {
+  it('undo and redo restore the prefab library with the blocks', () => {
+    usePrefabStore.getState().setPrefabs([]);
+    useProjectStore.setState({ blocks: level, historyPast: [], historyFuture: [], selectedBlockIds: ['a', 'b'] });
+    const prefab = saveSelectionAsPrefab('Tower')!;
+    deletePrefab(prefab.id);
+    expect(usePrefabStore.getState().prefabs).toEqual([]);
+
+    useProjectStore.getState().undo();
+    expect(usePrefabStore.getState().prefabs.map(p => p.id)).toEqual([prefab.id]);
+    expect(useProjectStore.getState().blocks.find(b => b.id === 'a')?.prefabId).toBe(prefab.id);
+    useProjectStore.getState().undo();
+    expect(usePrefabStore.getState().prefabs).toEqual([]);
+    expect(useProjectStore.getState().blocks.find(b => b.id === 'a')?.prefabId).toBeUndefined();
+
+    useProjectStore.getState().redo();
+    expect(usePrefabStore.getState().prefabs.map(p => p.id)).toEqual([prefab.id]);
+  });
+});
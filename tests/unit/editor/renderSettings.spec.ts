@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ADAPTIVE_LEVELS,
+  DEFAULT_RENDER_SETTINGS,
+  QUALITY_PRESETS,
+  createAdaptiveQuality,
+  degradeRenderSettings,
+  normalizeRenderSettings,
+  qualityModeFor,
+} from '@/features/graphics/renderSettings';
+import { useRenderSettingsStore } from '@/features/graphics/store';
+
+describe('render settings', () => {
+  beforeEach(() => useRenderSettingsStore.getState().reset());
+
+  it('fills gaps from the quality preset and snaps to supported values', () => {
+    expect(normalizeRenderSettings(undefined)).toEqual(DEFAULT_RENDER_SETTINGS);
+    const s = normalizeRenderSettings({ quality: 'high', antialiasing: 3, shadowMapSize: 3000, targetFrameRate: 75, bloom: false });
+    expect(s).toMatchObject({ quality: 'high', antialiasing: 2, shadowMapSize: 2048, targetFrameRate: 60, bloom: false, ssao: true });
+    expect(normalizeRenderSettings({ quality: 'extreme' as never }).quality).toBe('medium');
+    expect(qualityModeFor('low')).toBe('performance');
+    expect(qualityModeFor('ultra')).toBe('quality');
+  });
+
+  it('degrades post effects first, then shadows and LOD, then resolution', () => {
+    const ultra = QUALITY_PRESETS.ultra;
+    expect(degradeRenderSettings(ultra, 0)).toEqual({ settings: ultra, lodScale: 1, hardwareScaling: 0.65 });
+
+    const one = degradeRenderSettings(ultra, 1);
+    expect(one.settings).toMatchObject({ ssao: false, motionBlur: false, bloom: true, shadowMapSize: 4096 });
+
+    const two = degradeRenderSettings(ultra, 2);
+    expect(two.settings).toMatchObject({ bloom: false, shadowMapSize: 2048 });
+    expect(two.lodScale).toBe(0.75);
+
+    const three = degradeRenderSettings(ultra, 3);
+    expect(three.settings).toMatchObject({ shadowMapSize: 1024, antialiasing: 2 });
+    expect(three.hardwareScaling).toBe(1);
+
+    const last = degradeRenderSettings(QUALITY_PRESETS.low, ADAPTIVE_LEVELS + 3);
+    expect(last.settings).toMatchObject({ shadows: false, postProcessing: false, shadowMapSize: 512 });
+    expect(last.hardwareScaling).toBe(1.5);
+  });
+
+  it('steps down on slow frames and recovers only after sustained fast frames', () => {
+    const tuner = createAdaptiveQuality({ targetFrameRate: 60, window: 4 });
+    const feed = (ms: number, frames = 4) => {
+      let result: number | null = null;
+      for (let i = 0; i < frames; i++) result = tuner.sample(ms) ?? result;
+      return result;
+    };
+    expect(feed(16)).toBeNull();
+    expect(feed(30)).toBe(1);
+    expect(feed(30)).toBe(2);
+    expect(feed(18)).toBeNull(); // near target: hold
+    expect(feed(8)).toBeNull();
+    expect(feed(8)).toBe(1);
+    expect(tuner.level).toBe(1);
+    tuner.reset(30);
+    expect(tuner.level).toBe(0);
+    expect(feed(36)).toBeNull(); // 36ms is within tolerance at a 30 FPS target
+  });
+
+  it('keeps the frame rate target when switching presets in the store', () => {
+    const store = useRenderSettingsStore.getState();
+    store.setSettings({ targetFrameRate: 144, shadowMapSize: 700 });
+    store.applyQuality('ultra');
+    const { settings } = useRenderSettingsStore.getState();
+    expect(settings).toEqual({ ...QUALITY_PRESETS.ultra, targetFrameRate: 144 });
+    store.setAdaptive(false);
+    expect(useRenderSettingsStore.getState().adaptive).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  blocksInScreenRect,
+  blocksInVolume,
+  combineSelection,
+  invertSelection,
+  screenRectCandidates,
+  screenRectSlices,
+  screenRectVolume,
+  selectByFilter,
+  selectionBounds,
+} from '@/features/selection/selectionQueries';
+import { SpatialIndex } from '@/features/spatial/spatialIndex';
+import { syncBlockIndex } from '@/features/spatial/blockBounds';
+import { useSelectionSetsStore } from '@/features/projects/stores/selection.store';
+import { migrateProject } from '@/features/projects/projectFormat';
+import type { Block } from '@/types/project';
+
+const blocks: Block[] = [
+  { id: 'a', type: 'cube', position: { x: 0, y: 0.5, z: 0 }, color: 0xff0000, group: 'walls' },
+  { id: 'b', type: 'cube', position: { x: 2, y: 0.5, z: 0 }, color: 0x00ff00, group: 'walls' },
+  { id: 'c', type: 'cube_bouncy', position: { x: 4, y: 0.5, z: 0 }, mechanic: 'bouncy' },
+  { id: 'd', type: 'sphere', position: { x: 10, y: 0.5, z: 0 }, color: 0xff0000 },
+  { id: 'e', type: 'cube', position: { x: 6, y: 0.5, z: 0 }, hidden: true },
+];
+
+// Top-down view: 10 px per world unit, nothing behind the camera
+const topDown = (p: { x: number; z: number }) => ({ x: p.x * 10, y: p.z * 10 });
+
+describe('selection queries', () => {
+  it('selects by type, colour, group and mechanic, skipping hidden blocks', () => {
+    expect(selectByFilter(blocks, { types: ['cube'] })).toEqual(['a', 'b']);
+    expect(selectByFilter(blocks, { colors: [0xff0000] })).toEqual(['a', 'd']);
+    expect(selectByFilter(blocks, { groups: ['walls'], colors: [0x00ff00] })).toEqual(['b']);
+    expect(selectByFilter(blocks, { groups: [''] })).toEqual(['c', 'd']);
+    expect(selectByFilter(blocks, { mechanics: ['bouncy'] })).toEqual(['c']);
+    expect(selectByFilter(blocks, { mechanics: ['none'], includeHidden: true })).toEqual(['a', 'b', 'd', 'e']);
+  });
+
+  it('inverts and combines selections', () => {
+    expect(invertSelection(blocks, ['a', 'c'])).toEqual(['b', 'd']);
+    expect(combineSelection(['a'], ['b', 'a'], 'add')).toEqual(['a', 'b']);
+    expect(combineSelection(['a', 'b', 'c'], ['b'], 'subtract')).toEqual(['a', 'c']);
+    expect(combineSelection(['a'], ['c', 'c'], 'replace')).toEqual(['c']);
+  });
+
+  it('picks blocks inside or touching a screen rectangle', () => {
+    const rect = { left: -10, top: -10, right: 25, bottom: 10 };
+    expect(blocksInScreenRect(blocks, rect, topDown, 'contain')).toEqual(['a', 'b']);
+    expect(blocksInScreenRect(blocks, { ...rect, right: 36 }, topDown, 'touch')).toEqual(['a', 'b', 'c']);
+    expect(blocksInScreenRect(blocks, rect, () => null, 'touch')).toEqual([]);
+  });
+
+  it('narrows a screen rectangle to its view volume through the spatial index', () => {
+    const index = new SpatialIndex<Block>();
+    syncBlockIndex(index, blocks);
+    // Looking straight down from y = 20 to y = -20
+    const volume = screenRectVolume({ left: -10, top: -10, right: 25, bottom: 10 }, (p, depth) => ({ x: p.x / 10, y: depth === 'near' ? 20 : -20, z: p.y / 10 }));
+    expect(volume).toEqual({ min: { x: -1, y: -20, z: -1 }, max: { x: 2.5, y: 20, z: 1 } });
+    const candidates = index.queryBox(volume.min, volume.max);
+    expect(candidates.map(b => b.id).sort()).toEqual(['a', 'b']);
+    expect(blocksInScreenRect(candidates, { left: -10, top: -10, right: 25, bottom: 10 }, topDown, 'touch').sort()).toEqual(['a', 'b']);
+  });
+
+  it('follows a perspective view pyramid slice by slice', () => {
+    const index = new SpatialIndex<Block>();
+    syncBlockIndex(index, blocks);
+    // Eye at y = 20 looking down, near plane 1 and far plane 40 units away
+    const perspective = (p: { x: number; y: number }, depth: 'near' | 'far') => {
+      const d = depth === 'near' ? 1 : 40;
+      return { x: (p.x / 100) * d, y: 20 - d, z: (p.y / 100) * d };
+    };
+    const rect = { left: 0, top: 0, right: 10, bottom: 10 };
+    expect(screenRectSlices(rect, perspective, 2)).toEqual([
+      { min: { x: 0, y: -0.5, z: 0 }, max: { x: 2.05, y: 19, z: 2.05 } },
+      { min: { x: 0, y: -20, z: 0 }, max: { x: 4, y: -0.5, z: 4 } },
+    ]);
+    // One box around the whole pyramid also reaches c
+    const volume = screenRectVolume(rect, perspective);
+    expect(index.queryBox(volume.min, volume.max).map(b => b.id).sort()).toEqual(['a', 'b', 'c']);
+    expect(screenRectCandidates(index, rect, perspective, 2).map(b => b.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('picks blocks in a world volume through the spatial index', () => {
+    const index = new SpatialIndex<Block>();
+    syncBlockIndex(index, blocks);
+    const box = { start: { x: 5, y: 2, z: 1 }, end: { x: -1, y: 0, z: -1 } };
+    expect(blocksInVolume(index, box, 'touch').sort()).toEqual(['a', 'b', 'c']);
+    expect(blocksInVolume(index, { ...box, start: { x: 4.2, y: 2, z: 1 } }, 'contain').sort()).toEqual(['a', 'b']);
+    expect(blocksInVolume(index, box, 'touch', { types: ['cube'] }).sort()).toEqual(['a', 'b']);
+    expect(selectionBounds(blocks, ['a', 'c'])).toEqual({ min: { x: -0.5, y: 0, z: -0.5 }, max: { x: 4.5, y: 1, z: 0.5 } });
+  });
+});
+
+describe('selection sets', () => {
+  it('saves, overwrites by name and round-trips through the project format', () => {
+    const store = useSelectionSetsStore.getState();
+    store.setSets([]);
+    const walls = store.saveSet('Walls', ['a', 'b', 'a']);
+    useSelectionSetsStore.getState().saveSet('Walls', ['a']);
+    useSelectionSetsStore.getState().saveSet('', ['c']);
+    const { sets } = useSelectionSetsStore.getState();
+    expect(sets.map(s => [s.name, s.blockIds])).toEqual([['Walls', ['a']], ['Selection 2', ['c']]]);
+    expect(sets[0].id).toBe(walls.id);
+
+    const project = migrateProject({ name: 'P', blocks, timestamp: 't', version: '1.3.0', logic: [], animations: [], selectionSets: sets });
+    expect(project.selectionSets).toEqual(sets);
+    expect(() => migrateProject({ ...project, selectionSets: [{ id: 'x', name: 'bad' }] })).toThrow();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { SpatialIndex } from '@/features/spatial/spatialIndex';
+import { blockBounds } from '@/features/spatial/blockBounds';
+import { blockSpatialIndex, useBlocksStore } from '@/features/projects/stores/blocks.store';
+import type { Block } from '@/types/project';
+
+const cube = (id: string, x: number, y: number, z: number): Block => ({ id, type: 'cube', position: { x, y, z } });
+
+function indexOf(blocks: Block[], cellSize?: number) {
+  const index = new SpatialIndex<Block>(cellSize);
+  blocks.forEach(b => index.set(b.id, blockBounds(b), b));
+  return index;
+}
+
+describe('SpatialIndex', () => {
+  const row = Array.from({ length: 20 }, (_, i) => cube(`b${i}`, i, 0.5, 0));
+
+  it('returns the entries overlapping a box', () => {
+    const index = indexOf(row);
+    const ids = index.queryBox({ x: 4.6, y: 0, z: -1 }, { x: 7.2, y: 1, z: 1 }).map(b => b.id).sort();
+    expect(ids).toEqual(['b5', 'b6', 'b7']);
+    expect(index.queryBox({ x: 17.6, y: -1e4, z: -1e4 }, { x: 1e4, y: 1e4, z: 1e4 }).map(b => b.id).sort()).toEqual(['b18', 'b19']);
+    expect(index.queryBox({ x: 100, y: 0, z: 0 }, { x: 1e4, y: 1, z: 1 })).toEqual([]);
+  });
+
+  it('follows moved and removed entries', () => {
+    const index = indexOf(row);
+    index.set('b5', blockBounds(cube('b5', 50, 0.5, 50)), cube('b5', 50, 0.5, 50));
+    index.remove('b6');
+    expect(index.queryBox({ x: 4.6, y: 0, z: -1 }, { x: 7.2, y: 1, z: 1 }).map(b => b.id)).toEqual(['b7']);
+    expect(index.queryBox({ x: 49, y: 0, z: 49 }, { x: 51, y: 1, z: 51 }).map(b => b.id)).toEqual(['b5']);
+    expect(index.size).toBe(19);
+  });
+
+  it('finds the nearest entry within a distance', () => {
+    const index = indexOf([...row, cube('far', 40, 0.5, 40)]);
+    expect(index.nearest({ x: 10.2, y: 3, z: 0 })).toMatchObject({ id: 'b10', distance: 2 });
+    expect(index.nearest({ x: 38, y: 0.5, z: 38 }, 5)?.id).toBe('far');
+    expect(index.nearest({ x: 30, y: 0.5, z: 30 }, 2)).toBeNull();
+    expect(index.nearest({ x: 10, y: 0.5, z: 0 }, Infinity, b => b.id !== 'b10')?.id).toMatch(/^b(9|11)$/);
+  });
+
+  it('returns the first entry along a ray', () => {
+    const index = indexOf(row);
+    const hit = index.raycast({ x: -5, y: 0.5, z: 0 }, { x: 1, y: 0, z: 0 });
+    expect(hit).toMatchObject({ id: 'b0', distance: 4.5 });
+    expect(index.raycast({ x: 30, y: 0.5, z: 0 }, { x: -1, y: 0, z: 0 })?.id).toBe('b19');
+    expect(index.raycast({ x: 7, y: 10, z: 0 }, { x: 0, y: -1, z: 0 })).toMatchObject({ id: 'b7', distance: 9 });
+    expect(index.raycast({ x: 0, y: 5, z: 0 }, { x: 0, y: 1, z: 0 })).toBeNull();
+  });
+
+  it('keeps oversized entries out of the grid but still finds them', () => {
+    const index = indexOf(row, 1);
+    index.set('floor', { min: { x: -100, y: -1, z: -100 }, max: { x: 100, y: 0, z: 100 } }, cube('floor', 0, -0.5, 0));
+    expect(index.queryBox({ x: 60, y: -0.5, z: 60 }, { x: 61, y: 0.5, z: 61 }).map(b => b.id)).toEqual(['floor']);
+    expect(index.raycast({ x: 60, y: 5, z: 60 }, { x: 0, y: -1, z: 0 })?.id).toBe('floor');
+  });
+});
+
+describe('blockBounds', () => {
+  it('widens boxes for Y rotation and tilts', () => {
+    const door: Block = { id: 'd', type: 'door', position: { x: 0, y: 1, z: 0 } };
+    expect(blockBounds(door).max).toEqual({ x: 0.5, y: 2, z: 0.06 });
+    const turned = blockBounds({ ...door, rotationY: 90 });
+    expect(turned.max.x).toBeCloseTo(0.06);
+    expect(turned.max.z).toBeCloseTo(0.5);
+    const tilted = blockBounds({ ...cube('c', 0, 0, 0), rotationX: 45, scale: 2 });
+    expect(tilted.max.y).toBeCloseTo(Math.sqrt(3));
+  });
+});
+
+describe('blockSpatialIndex', () => {
+  it('tracks the blocks store', () => {
+    const store = useBlocksStore.getState();
+    store.setBlocks([cube('a', 0, 0.5, 0), cube('b', 3, 0.5, 0)]);
+    expect(blockSpatialIndex.size).toBe(2);
+
+    useBlocksStore.getState().setBlockPosition('b', { x: 10, y: 0.5, z: 0 });
+    expect(blockSpatialIndex.queryBox({ x: 9, y: 0, z: -1 }, { x: 11, y: 1, z: 1 }).map(b => b.id)).toEqual(['b']);
+
+    useBlocksStore.getState().removeBlock('a');
+    expect(blockSpatialIndex.has('a')).toBe(false);
+    useBlocksStore.getState().clearBlocks();
+    expect(blockSpatialIndex.size).toBe(0);
+  });
+});
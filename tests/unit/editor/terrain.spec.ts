@@ -0,0 +1,236 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TERRAIN_GEN,
+  colorsToPixels,
+  erodeHeights,
+  generateHeights,
+  grayToHeights,
+  gridPoint,
+  heightsToGray,
+  pixelsToColors,
+  sculptPositions,
+} from '@/features/terrain/heightfield';
+import { parseHeightmapRange, heightmapFilename } from '@/features/terrain/heightmapImage';
+import {
+  MAX_TERRAIN_LAYERS,
+  createSplatWeights,
+  normalizeTerrainLayers,
+  paintSplat,
+  removeSplatLayer,
+  splatFromBytes,
+  splatToBytes,
+} from '@/features/terrain/splat';
+import { applyTerrainDelta, diffTerrainChannel, splitTerrainDelta } from '@/features/terrain/terrainDelta';
+import { GROUND_SIZE, parseTerrainData } from '@/features/terrain/terrainData';
+import { useEditState } from '@/components/editor-enhanced/scene/systems/edit/EditState';
+import { createTerrainGround } from '@/components/scene/engine/terrainGround';
+
+// Flat x/y/z grid laid out like Babylon's CreateGround
+const flatGround = (resolution: number, size: number) => {
+  const positions: number[] = [];
+  for (let i = 0; i < resolution * resolution; i++) {
+    const { x, z } = gridPoint(i, resolution, size);
+    positions.push(x, 0, z);
+  }
+  return positions;
+};
+
+const maxSlope = (heights: ArrayLike<number>, resolution: number) => {
+  let slope = 0;
+  for (let i = 0; i < heights.length; i++) {
+    if (i % resolution < resolution - 1) slope = Math.max(slope, Math.abs(heights[i] - heights[i + 1]));
+    if (i + resolution < heights.length) slope = Math.max(slope, Math.abs(heights[i] - heights[i + resolution]));
+  }
+  return slope;
+};
+
+describe('terrain heightfield', () => {
+  it('generates the same terrain for the same seed and different terrain for another', () => {
+    const a = generateHeights({ ...DEFAULT_TERRAIN_GEN, seed: 42 }, 33, 200);
+    const b = generateHeights({ ...DEFAULT_TERRAIN_GEN, seed: 42 }, 33, 200);
+    const c = generateHeights({ ...DEFAULT_TERRAIN_GEN, seed: 43 }, 33, 200);
+    expect(Array.from(a)).toEqual(Array.from(b));
+    expect(Array.from(a)).not.toEqual(Array.from(c));
+    expect(Math.max(...a)).toBeLessThanOrEqual(DEFAULT_TERRAIN_GEN.height);
+  });
+
+  it('sinks island edges below the centre', () => {
+    const resolution = 33;
+    const heights = generateHeights({ ...DEFAULT_TERRAIN_GEN, style: 'islands', height: 10 }, resolution, 200);
+    const corner = heights[0];
+    const centre = heights[Math.floor(heights.length / 2)];
+    expect(corner).toBeLessThan(0);
+    expect(centre).toBeGreaterThan(corner);
+  });
+
+  it('erosion softens steep slopes without changing total volume', () => {
+    const resolution = 9;
+    const heights = new Float32Array(resolution * resolution);
+    heights[40] = 10; // single spike in the middle
+    const before = heights.reduce((s, h) => s + h, 0);
+    erodeHeights(heights, resolution, 20, 0.5);
+    expect(maxSlope(heights, resolution)).toBeLessThan(10);
+    expect(heights.reduce((s, h) => s + h, 0)).toBeCloseTo(before, 4);
+  });
+
+  it('flatten and raise brushes only touch vertices inside the radius', () => {
+    const positions = flatGround(11, 10);
+    const centre = 60; // vertex at x=0, z=0
+    const raised = sculptPositions(positions, { x: 0, y: 0, z: 0 }, { mode: 'raise', size: 2, strength: 1 });
+    expect(raised).toContain(centre);
+    expect(positions[centre * 3 + 1]).toBeCloseTo(1);
+    expect(positions[1]).toBe(0);
+
+    const flattened = sculptPositions(positions, { x: 0, y: 1, z: 0 }, { mode: 'flatten', size: 3, strength: 1, targetHeight: 0.25 });
+    expect(flattened).toContain(centre);
+    expect(positions[centre * 3 + 1]).toBeCloseTo(0.25);
+  });
+
+  it('round-trips heights and paint colours through image pixels', () => {
+    const heights = new Float32Array([0, 2, 4, 6]);
+    const { pixels, min, max } = heightsToGray(heights);
+    expect([min, max]).toEqual([0, 6]);
+    const back = grayToHeights(pixels, 2, 2, 2, min, max);
+    back.forEach((h, i) => expect(h).toBeCloseTo(heights[i], 1));
+    // Upsampling interpolates between pixels
+    expect(grayToHeights(pixels, 2, 2, 3, min, max)[1]).toBeCloseTo(1, 1);
+
+    const colors = [1, 0, 0, 1, 0, 0.5, 1, 1];
+    const colorBack = pixelsToColors(colorsToPixels(colors), 2, 1, 2);
+    expect(colorBack[1 * 4 + 2]).toBeCloseTo(1);
+    expect(colorBack[0]).toBeCloseTo(1);
+
+    expect(parseHeightmapRange(heightmapFilename(-2.5, 12))).toEqual({ min: -2.5, max: 12 });
+    expect(parseHeightmapRange('photo.png')).toBeNull();
+  });
+});
+
+describe('terrain splat map', () => {
+  const vertexSums = (weights: Float32Array) => {
+    const sums: number[] = [];
+    for (let o = 0; o < weights.length; o += 4) sums.push(weights[o] + weights[o + 1] + weights[o + 2] + weights[o + 3]);
+    return sums;
+  };
+
+  it('paints a layer inside the brush while keeping every vertex normalised', () => {
+    const positions = flatGround(11, 10);
+    const weights = createSplatWeights(121);
+    const changed = paintSplat(weights, positions, { x: 0, z: 0 }, 2, 2, 0.5);
+    expect(changed).toContain(60);
+    expect(weights[60 * 4 + 2]).toBeCloseTo(0.5);
+    expect(weights[60 * 4]).toBeCloseTo(0.5);
+    expect(weights[0]).toBe(1); // corner is outside the radius
+    vertexSums(weights).forEach((s) => expect(s).toBeCloseTo(1));
+
+    // Painting a fully covered vertex again is a no-op
+    paintSplat(weights, positions, { x: 0, z: 0 }, 2, 2, 1);
+    expect(paintSplat(weights, positions, { x: 0, z: 0 }, 2, 0.1, 1)).toEqual([]);
+  });
+
+  it('removing a layer shifts later channels down and renormalises', () => {
+    const weights = new Float32Array([0.5, 0.25, 0.25, 0, 1, 0, 0, 0]);
+    removeSplatLayer(weights, 0);
+    expect(Array.from(weights.slice(0, 4))).toEqual([0.5, 0.5, 0, 0]);
+    // A vertex painted only with the removed layer falls back to layer 0
+    expect(Array.from(weights.slice(4))).toEqual([1, 0, 0, 0]);
+  });
+
+  it('round-trips weights through bytes and sanitises stored layers', () => {
+    const weights = new Float32Array([0.2, 0.3, 0.5, 0, 0, 0, 0, 0]);
+    const back = splatFromBytes(splatToBytes(weights));
+    expect(back[2]).toBeCloseTo(0.5, 2);
+    expect(Array.from(back.slice(4))).toEqual([1, 0, 0, 0]);
+
+    const layers = normalizeTerrainLayers([
+      { texture: 'rock', tiling: 999, strength: -1 },
+      { texture: 'lava' },
+      { texture: 'sand', visible: false },
+      { texture: 'grass' },
+      { texture: 'dirt' },
+      { texture: 'grass' },
+    ]);
+    expect(layers).toHaveLength(MAX_TERRAIN_LAYERS);
+    expect(layers[0]).toMatchObject({ texture: 'rock', tiling: 200, strength: 0, visible: true });
+    expect(layers[1]).toMatchObject({ texture: 'sand', visible: false });
+    expect(normalizeTerrainLayers(null).map((l) => l.texture)).toEqual(['grass', 'dirt', 'rock', 'sand']);
+  });
+});
+
+describe('terrain stroke deltas', () => {
+  it('records only the vertices a stroke touched and replays them both ways', () => {
+    const positions = flatGround(11, 10);
+    const before = Float32Array.from(positions.filter((_, i) => i % 3 === 1));
+    sculptPositions(positions, { x: 0, y: 0, z: 0 }, { mode: 'raise', size: 2, strength: 1 });
+    const after = Float32Array.from(positions.filter((_, i) => i % 3 === 1));
+
+    const delta = diffTerrainChannel('heights', 11, before, after)!;
+    expect(delta.ranges.length).toBeGreaterThan(1); // one run per touched grid row
+    expect(delta.ranges.reduce((n, r) => n + r.before.length, 0)).toBeLessThan(before.length / 4);
+
+    const values = Float32Array.from(after);
+    applyTerrainDelta(values, delta, 'undo');
+    expect(Array.from(values)).toEqual(Array.from(before));
+    applyTerrainDelta(values, delta, 'redo');
+    values.forEach((h, i) => expect(h).toBeCloseTo(after[i], 3));
+    expect(diffTerrainChannel('heights', 11, before, before)).toBeNull();
+  });
+
+  it('rebased undo leaves vertices someone else changed since', () => {
+    const delta = diffTerrainChannel('heights', 2, [0, 0, 0, 0], [1, 1, 0, 0])!;
+    const current = new Float32Array([1, 5, 0, 0]); // vertex 1 re-sculpted by a collaborator
+    const applied = applyTerrainDelta(current, delta, 'undo', { rebase: true });
+    expect(Array.from(current)).toEqual([0, 5, 0, 0]);
+    expect(applied?.ranges).toEqual([{ start: 0, before: [1], after: [0] }]);
+  });
+
+  it('editor history undoes strokes and block edits in the order they were made', () => {
+    const delta = diffTerrainChannel('heights', 2, [0, 0, 0, 0], [1, 0, 0, 0])!;
+    const edit = useEditState.getState();
+    edit.loadBlocks([]);
+    edit.addBlock({ id: 'a', type: 'cube', position: { x: 0, y: 0, z: 0 } });
+    edit.pushTerrainStroke(delta);
+
+    expect(useEditState.getState().undo()).toEqual({ delta, direction: 'undo' });
+    expect(useEditState.getState().blocks).toHaveLength(1);
+    expect(useEditState.getState().undo()).toBeNull();
+    expect(useEditState.getState().blocks).toHaveLength(0);
+    useEditState.getState().redo();
+    expect(useEditState.getState().redo()).toEqual({ delta, direction: 'redo' });
+  });
+
+  it('splits large splat deltas on whole vertices', () => {
+    const before = createSplatWeights(100);
+    const after = createSplatWeights(100, 1);
+    const delta = diffTerrainChannel('splat', 10, before, after)!;
+    const parts = splitTerrainDelta(delta, 30);
+    expect(parts).toHaveLength(15); // 7 whole vertices per part
+    parts.forEach((p) => p.ranges.forEach((r) => expect(r.before.length % 4).toBe(0)));
+
+    const values = Float32Array.from(before);
+    parts.forEach((p) => applyTerrainDelta(values, p, 'redo'));
+    expect(Array.from(values)).toEqual(Array.from(after));
+  });
+});
+
+describe('terrain play ground', () => {
+  it('builds the saved height grid upward-facing, as the editor lays it out', () => {
+    const heights = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+    const terrain = parseTerrainData(JSON.stringify({ resolution: 3, heights }));
+    const ground = createTerrainGround(terrain!)!;
+    const position = ground.mesh.geometry.getAttribute('position');
+    const normal = ground.mesh.geometry.getAttribute('normal');
+
+    // Row 0 at +Z, column 0 at -X
+    expect([position.getX(0), position.getY(0), position.getZ(0)]).toEqual([-GROUND_SIZE / 2, 0, GROUND_SIZE / 2]);
+    expect([position.getX(8), position.getY(8), position.getZ(8)]).toEqual([GROUND_SIZE / 2, 8, -GROUND_SIZE / 2]);
+    for (let v = 0; v < 9; v++) expect(normal.getY(v)).toBeGreaterThan(0);
+    expect(ground.indices).toHaveLength(4 * 2 * 3);
+    expect(ground.vertices).toHaveLength(9 * 3);
+    ground.dispose();
+  });
+
+  it('rejects terrain it cannot decode', () => {
+    expect(createTerrainGround({ resolution: 3, heights: [0, 1] })).toBeNull();
+    expect(parseTerrainData('{broken')).toBeNull();
+  });
+});
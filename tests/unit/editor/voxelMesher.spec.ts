@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { createRLEPayload, type VoxelColor } from '@/pages/skin-studio/lib/rle';
+import { makeKey } from '@/pages/skin-studio/lib/voxel-utils';
+import { buildVoxelSkinMesh, isVoxelSkinPayload } from '@/components/editor-enhanced/scene/systems/play/skins/voxelMesher';
+
+const BOUNDS = { x: 16, y: 24, z: 12 };
+const PALETTE = ['#ff0000', '#00ff00'];
+
+function fill(voxels: Record<string, VoxelColor>, min: [number, number, number], max: [number, number, number], color: VoxelColor) {
+  for (let x = min[0]; x <= max[0]; x++) {
+    for (let y = min[1]; y <= max[1]; y++) {
+      for (let z = min[2]; z <= max[2]; z++) voxels[makeKey(x, y, z)] = color;
+    }
+  }
+}
+
+function figure() {
+  const voxels: Record<string, VoxelColor> = {};
+  fill(voxels, [-3, 0, -1], [-1, 7, 1], 1); // left leg
+  fill(voxels, [1, 0, -1], [3, 7, 1], 1); // right leg
+  fill(voxels, [-4, 8, -2], [4, 15, 2], 0); // torso
+  fill(voxels, [-3, 16, -3], [3, 21, 3], 0); // head
+  return createRLEPayload(0.1, BOUNDS, PALETTE, voxels);
+}
+
+describe('buildVoxelSkinMesh', () => {
+  it('merges a solid block into one quad per side', () => {
+    const voxels: Record<string, VoxelColor> = {};
+    fill(voxels, [-2, 16, -2], [2, 20, 2], 0);
+    const { parts, height } = buildVoxelSkinMesh(createRLEPayload(0.1, BOUNDS, PALETTE, voxels));
+
+    expect(parts.map(p => p.part)).toEqual(['head']);
+    expect(parts[0].indices).toHaveLength(6 * 6);
+    expect(parts[0].colors.slice(0, 4)).toEqual([1, 0, 0, 1]);
+    expect(height).toBeCloseTo(2.1);
+  });
+
+  it('keeps faces of different colours apart', () => {
+    const voxels: Record<string, VoxelColor> = {};
+    fill(voxels, [0, 10, 0], [1, 10, 0], 0);
+    fill(voxels, [2, 10, 0], [3, 10, 0], 1);
+    const [torso] = buildVoxelSkinMesh(createRLEPayload(0.1, BOUNDS, PALETTE, voxels)).parts;
+
+    // Two colour runs: split top/bottom/front/back faces, one end cap each
+    expect(torso.indices.length / 6).toBe(10);
+  });
+
+  it('splits the layers into limbs around their joints', () => {
+    const { parts, height } = buildVoxelSkinMesh(figure());
+    const byName = Object.fromEntries(parts.map(p => [p.part, p]));
+
+    expect(Object.keys(byName).sort()).toEqual(['head', 'legL', 'legR', 'torso']);
+    expect(height).toBeCloseTo(2.2);
+    // Hips at the top of each leg, centred on it
+    expect(byName.legL.pivot[0]).toBeCloseTo(-0.2);
+    expect(byName.legL.pivot[1]).toBeCloseTo(0.8);
+    expect(byName.legR.pivot[0]).toBeCloseTo(0.2);
+    // Neck at the bottom of the head; vertices hang off the pivot
+    expect(byName.head.pivot[1]).toBeCloseTo(1.6);
+    const headYs = byName.head.positions.filter((_, i) => i % 3 === 1);
+    expect(Math.min(...headYs)).toBeCloseTo(0);
+    expect(Math.max(...headYs)).toBeCloseTo(0.6);
+  });
+
+  it('winds triangles with their normals for Babylon', () => {
+    const [leg] = buildVoxelSkinMesh(figure()).parts;
+    const p = leg.positions;
+    for (let t = 0; t < leg.indices.length; t += 3) {
+      const [a, b, c] = leg.indices.slice(t, t + 3).map(i => [p[i * 3], p[i * 3 + 1], p[i * 3 + 2]]);
+      const e1 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+      const e2 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+      const cross = [e1[1] * e2[2] - e1[2] * e2[1], e1[2] * e2[0] - e1[0] * e2[2], e1[0] * e2[1] - e1[1] * e2[0]];
+      const n = leg.normals.slice(leg.indices[t] * 3, leg.indices[t] * 3 + 3);
+      expect(cross[0] * n[0] + cross[1] * n[1] + cross[2] * n[2]).toBeLessThan(0);
+    }
+  });
+});
+
+describe('isVoxelSkinPayload', () => {
+  it('rejects missing or oversized payloads', () => {
+    expect(isVoxelSkinPayload(figure())).toBe(true);
+    expect(isVoxelSkinPayload(undefined)).toBe(false);
+    expect(isVoxelSkinPayload({ ...figure(), bounds: { x: 16, y: 4096, z: 12 } })).toBe(false);
+    expect(isVoxelSkinPayload({ ...figure(), voxelsRLE: 'abc' })).toBe(false);
+  });
+});
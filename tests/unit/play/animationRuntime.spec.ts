@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { AnimationRuntime, sampleTrack } from '@/components/editor-enhanced/scene/systems/play/AnimationRuntime';
+import type { AnimationClip, AnimationTrack } from '@/types/editor';
+
+const track = (overrides: Partial<AnimationTrack> = {}): AnimationTrack => ({
+  id: 't',
+  targetId: 'platform',
+  property: 'position',
+  interpolation: 'linear',
+  keyframes: [
+    { time: 0, value: { x: 0, y: 0, z: 0 } },
+    { time: 2, value: { x: 4, y: 2, z: 0 } },
+  ],
+  ...overrides,
+});
+
+const clip = (overrides: Partial<AnimationClip> = {}): AnimationClip => ({
+  id: 'c',
+  name: 'Lift',
+  duration: 2,
+  loop: true,
+  autoPlay: true,
+  tracks: [track()],
+  ...overrides,
+});
+
+describe('sampleTrack', () => {
+  it('interpolates linearly and holds edge values', () => {
+    expect(sampleTrack(track(), 1)).toEqual({ x: 2, y: 1, z: 0 });
+    expect(sampleTrack(track(), -1)).toEqual({ x: 0, y: 0, z: 0 });
+    expect(sampleTrack(track(), 5)).toEqual({ x: 4, y: 2, z: 0 });
+  });
+
+  it('step interpolation holds the previous keyframe', () => {
+    expect(sampleTrack(track({ interpolation: 'step' }), 1.9)).toEqual({ x: 0, y: 0, z: 0 });
+  });
+
+  it('applies keyframe easing', () => {
+    const eased = track({ keyframes: [
+      { time: 0, value: { x: 0, y: 0, z: 0 }, easing: 'ease-in' },
+      { time: 2, value: { x: 4, y: 0, z: 0 } },
+    ] });
+    expect(sampleTrack(eased, 1)!.x).toBeCloseTo(1);
+  });
+});
+
+describe('AnimationRuntime', () => {
+  it('loops autoplay clips', () => {
+    const runtime = new AnimationRuntime();
+    runtime.load([clip()]);
+    runtime.advance(2.5);
+    expect(runtime.getTime('c')).toBeCloseTo(0.5);
+    expect(runtime.sample().get('platform')!.position!.x).toBeCloseTo(1);
+  });
+
+  it('clamps non-looping clips and holds non-autoplay clips until played', () => {
+    const runtime = new AnimationRuntime();
+    runtime.load([clip({ id: 'once', loop: false }), clip({ id: 'idle', autoPlay: false })]);
+    runtime.advance(3);
+    expect(runtime.getTime('once')).toBe(2);
+    expect(runtime.getTime('idle')).toBe(0);
+    runtime.play('idle');
+    runtime.advance(1);
+    expect(runtime.getTime('idle')).toBe(1);
+    expect(runtime.getTargetBlockIds()).toEqual(new Set(['platform']));
+  });
+});
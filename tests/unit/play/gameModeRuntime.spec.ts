@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createGameModeRuntime, type GameModeHost } from '@/components/editor-enhanced/scene/systems/play/GameModeRuntime';
+import { parseModeConfig } from '@/shared/gameModes/modeConfig';
+
+function makeHost(checkpointIds: number[] = [1, 2]) {
+  const host: GameModeHost = {
+    getStartPosition: () => ({ x: 0, y: 2, z: 0 }),
+    getCheckpointIds: () => checkpointIds,
+    getCheckpointPosition: (id) => ({ x: id * 10, y: 2, z: 0 }),
+    teleportPlayer: vi.fn(),
+    setPlayerActive: vi.fn(),
+    finish: vi.fn(),
+    endRound: vi.fn(),
+    onCheckpoint: vi.fn(),
+    onLap: vi.fn(),
+    onHealthChange: vi.fn(),
+    onEliminated: vi.fn(),
+  };
+  return host;
+}
+
+describe('parseModeConfig', () => {
+  it('fills defaults and accepts JSON strings', () => {
+    expect(parseModeConfig('RACE', '{"laps":5}').config).toEqual({ laps: 5, gridColumns: 4, gridSpacing: 2, timeLimitSec: 0 });
+    expect(parseModeConfig('SANDBOX', '').ok).toBe(true);
+  });
+
+  it('reports bad values, unknown fields and invalid JSON', () => {
+    expect(parseModeConfig('RACE', { laps: 0 }).errors[0]).toMatch(/^laps:/);
+    expect(parseModeConfig('PVP', { lives: 3 }).ok).toBe(false);
+    expect(parseModeConfig('PARKOUR', '{laps').errors).toEqual(['modeConfig is not valid JSON']);
+  });
+});
+
+describe('GameModeRuntime', () => {
+  it('PARKOUR keeps the checkpoint/finish flow and respawns at the last checkpoint', () => {
+    const host = makeHost();
+    const mode = createGameModeRuntime('PARKOUR', null, host);
+    mode.start();
+    mode.onCheckpoint(2);
+    mode.onCheckpoint(1);
+    expect(host.onCheckpoint).toHaveBeenCalledTimes(1);
+    mode.onHazard();
+    expect(host.teleportPlayer).toHaveBeenCalledWith({ x: 20, y: 2, z: 0 });
+    mode.onFinishLine();
+    mode.onFinishLine();
+    expect(host.finish).toHaveBeenCalledTimes(1);
+  });
+
+  it('RACE counts laps only after every checkpoint in order', () => {
+    const host = makeHost();
+    const mode = createGameModeRuntime('RACE', '{"laps":2}', host);
+    mode.start();
+    expect(host.onLap).toHaveBeenLastCalledWith(1, 2);
+
+    mode.update(5);
+    mode.onCheckpoint(2); // out of order
+    mode.onFinishLine();
+    expect(host.onLap).toHaveBeenCalledTimes(1);
+
+    mode.onCheckpoint(1);
+    mode.onCheckpoint(2);
+    mode.onFinishLine();
+    expect(host.onLap).toHaveBeenLastCalledWith(2, 2);
+
+    mode.update(5);
+    mode.onCheckpoint(1);
+    mode.onCheckpoint(2);
+    mode.onFinishLine();
+    expect(host.finish).toHaveBeenCalledTimes(1);
+  });
+
+  it('RACE places players on a start grid', () => {
+    const mode = createGameModeRuntime('RACE', { gridColumns: 2, gridSpacing: 3 }, makeHost());
+    expect(mode.spawnPosition(0)).toEqual({ x: -1.5, y: 2, z: 0 });
+    expect(mode.spawnPosition(1)).toEqual({ x: 1.5, y: 2, z: 0 });
+    expect(mode.spawnPosition(2)).toEqual({ x: -1.5, y: 2, z: -3 });
+  });
+
+  it('PVP turns hazards into damage and respawns after the delay', () => {
+    const host = makeHost();
+    const mode = createGameModeRuntime('PVP', { maxHealth: 50, hazardDamage: 25, respawnDelaySec: 2 }, host);
+    mode.start();
+    expect(host.onHealthChange).toHaveBeenLastCalledWith(50, 50);
+
+    mode.onHazard();
+    expect(host.onHealthChange).toHaveBeenLastCalledWith(25, 50);
+    expect(host.teleportPlayer).not.toHaveBeenCalled();
+
+    mode.onHazard();
+    expect(host.onEliminated).toHaveBeenCalledTimes(1);
+    expect(host.setPlayerActive).toHaveBeenLastCalledWith(false);
+
+    mode.damage(10); // ignored while eliminated
+    mode.update(2.1);
+    expect(host.teleportPlayer).toHaveBeenCalledWith({ x: 0, y: 2, z: 0 });
+    expect(host.setPlayerActive).toHaveBeenLastCalledWith(true);
+    expect(host.onHealthChange).toHaveBeenLastCalledWith(50, 50);
+  });
+
+  it('ends the round on the time limit and SANDBOX is untimed', () => {
+    const host = makeHost();
+    const race = createGameModeRuntime('RACE', { timeLimitSec: 10 }, host);
+    race.start();
+    race.update(11);
+    expect(host.endRound).toHaveBeenCalledWith('lose');
+
+    const sandbox = createGameModeRuntime('SANDBOX', null, host);
+    sandbox.start();
+    sandbox.onFinishLine();
+    expect(sandbox.timed).toBe(false);
+    expect(host.finish).not.toHaveBeenCalled();
+  });
+
+  it('falls back to defaults for an invalid stored config', () => {
+    const mode = createGameModeRuntime('RACE', '{"laps":"many"}', makeHost([]));
+    expect(mode.mode).toBe('RACE');
+    expect(mode.spawnPosition(4)).toEqual({ x: -3, y: 2, z: -2 });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LogicRuntime, type LogicRuntimeHost, type LogicBlockTransform } from '@/components/editor-enhanced/scene/systems/play/LogicRuntime';
+import type { LogicTrigger } from '@/types/project';
+
+function makeHost() {
+  const transforms = new Map<string, LogicBlockTransform>();
+  const visible = new Map<string, boolean>();
+  const host: LogicRuntimeHost & { transforms: typeof transforms; visible: typeof visible } = {
+    transforms,
+    visible,
+    getBlockTransform: (id) => transforms.get(id) || null,
+    setBlockTransform: (id, t) => { transforms.set(id, { position: { ...t.position }, rotation: { ...t.rotation } }); },
+    getBlockVisible: (id) => visible.get(id) ?? transforms.has(id),
+    setBlockVisible: (id, v) => { visible.set(id, v); },
+    teleportPlayer: vi.fn(),
+    playEffect: vi.fn(),
+    endRound: vi.fn(),
+  };
+  return host;
+}
+
+const volume = { offset: { x: 0, y: 1, z: 0 }, size: { x: 1.2, y: 3, z: 1.2 } };
+const inside = { x: 0, y: 1.5, z: 0 };
+const outside = { x: 5, y: 1.5, z: 0 };
+
+describe('LogicRuntime', () => {
+  let host: ReturnType<typeof makeHost>;
+  let runtime: LogicRuntime;
+
+  beforeEach(() => {
+    host = makeHost();
+    host.transforms.set('pad', { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } });
+    host.transforms.set('door', { position: { x: 3, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } });
+    runtime = new LogicRuntime(host);
+  });
+
+  it('fires enter actions once per entry and exit actions on leaving', () => {
+    const triggers: LogicTrigger[] = [
+      { id: 'in', type: 'enter', blockId: 'pad', volume, actions: [{ id: 'a', type: 'teleport_player', position: { x: 1, y: 2, z: 3 } }] },
+      { id: 'out', type: 'exit', blockId: 'pad', volume, actions: [{ id: 'b', type: 'end_round', outcome: 'lose' }] },
+    ];
+    runtime.load(triggers);
+    runtime.update(0.1, inside);
+    runtime.update(0.1, inside);
+    expect(host.teleportPlayer).toHaveBeenCalledTimes(1);
+    expect(host.endRound).not.toHaveBeenCalled();
+    runtime.update(0.1, outside);
+    expect(host.endRound).toHaveBeenCalledWith('lose');
+  });
+
+  it('honours action delay and tweens moves over their duration', () => {
+    runtime.load([
+      { id: 't', type: 'enter', blockId: 'pad', volume, actions: [{ id: 'm', type: 'move_block', targetBlockId: 'door', offset: { x: 0, y: 2, z: 0 }, duration: 1, delay: 0.5 }] },
+    ]);
+    runtime.update(0.25, inside); // fires, action due 0.5s later
+    runtime.update(0.25, inside);
+    expect(host.transforms.get('door')!.position.y).toBe(0);
+    runtime.update(0.25, inside); // delay elapsed, tween starts
+    runtime.update(0.5, inside);
+    expect(host.transforms.get('door')!.position.y).toBeCloseTo(1);
+    runtime.update(1, inside);
+    expect(host.transforms.get('door')!.position.y).toBeCloseTo(2);
+  });
+
+  it('collect hides its anchor and only fires once', () => {
+    runtime.load([
+      { id: 'c', type: 'collect', blockId: 'pad', volume, once: true, actions: [{ id: 'fx', type: 'play_effect', effect: 'sparkle' }] },
+    ]);
+    runtime.update(0.1, inside);
+    runtime.update(0.1, outside);
+    runtime.update(0.1, inside);
+    expect(host.visible.get('pad')).toBe(false);
+    expect(host.playEffect).toHaveBeenCalledTimes(1);
+    expect(host.playEffect).toHaveBeenCalledWith('sparkle', { x: 0, y: 0, z: 0 });
+  });
+
+  it('timer triggers toggle visibility on every interval', () => {
+    runtime.load([
+      { id: 'tm', type: 'timer', interval: 1, actions: [{ id: 'v', type: 'toggle_visibility', targetBlockId: 'door' }] },
+    ]);
+    runtime.update(0.6, null);
+    expect(host.visible.get('door')).toBeUndefined();
+    runtime.update(0.6, null);
+    expect(host.visible.get('door')).toBe(false);
+    runtime.update(1, null);
+    expect(host.visible.get('door')).toBe(true);
+  });
+
+  it('skips disabled triggers and reset restores touched blocks', () => {
+    runtime.load([
+      { id: 'off', type: 'enter', blockId: 'pad', volume, enabled: false, actions: [{ id: 'e', type: 'end_round' }] },
+      { id: 'rot', type: 'enter', blockId: 'pad', volume, actions: [{ id: 'r', type: 'rotate_block', targetBlockId: 'door', rotation: { x: 0, y: 90, z: 0 }, duration: 0 }] },
+    ]);
+    runtime.update(0.1, inside);
+    expect(host.endRound).not.toHaveBeenCalled();
+    expect(host.transforms.get('door')!.rotation.y).toBe(90);
+    expect(runtime.getTargetBlockIds().has('door')).toBe(true);
+    runtime.reset();
+    expect(host.transforms.get('door')!.rotation.y).toBe(0);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { describeModeConfig, isGameMode, parseModeConfig } from '@/shared/gameModes/modeConfig';
+
+describe('describeModeConfig', () => {
+  it('lists every schema field with bounds and defaults', () => {
+    const fields = describeModeConfig('RACE');
+    expect(fields.map(f => f.key)).toEqual(['laps', 'gridColumns', 'gridSpacing', 'timeLimitSec']);
+    expect(fields[0]).toMatchObject({ kind: 'integer', min: 1, max: 20, defaultValue: 3, label: 'Okrążenia' });
+    expect(fields[2].kind).toBe('number');
+  });
+
+  it('describes enums as options and has no fields for SANDBOX', () => {
+    const respawnAt = describeModeConfig('PVP').find(f => f.key === 'respawnAt');
+    expect(respawnAt).toMatchObject({ kind: 'enum', options: ['start', 'checkpoint'], defaultValue: 'start' });
+    expect(describeModeConfig('SANDBOX')).toEqual([]);
+  });
+});
+
+describe('shared modeConfig validation', () => {
+  it('bounds PVP health and rejects unknown fields', () => {
+    expect(parseModeConfig('PVP', { maxHealth: 50 }).config?.maxHealth).toBe(50);
+    expect(parseModeConfig('PVP', { maxHealth: 0 }).errors[0]).toMatch(/^maxHealth:/);
+    expect(parseModeConfig('PVP', { lives: 2 }).ok).toBe(false);
+  });
+
+  it('bounds the PVP team count', () => {
+    expect(parseModeConfig('PVP', { teamCount: 2 }).config?.teamCount).toBe(2);
+    expect(parseModeConfig('PVP', { teamCount: 9 }).errors[0]).toMatch(/^teamCount:/);
+  });
+
+  it('rejects form values left empty', () => {
+    expect(parseModeConfig('RACE', { laps: '' }).ok).toBe(false);
+  });
+
+  it('recognises game modes', () => {
+    expect(isGameMode('RACE')).toBe(true);
+    expect(isGameMode('race')).toBe(false);
+    expect(isGameMode(undefined)).toBe(false);
+  });
+});
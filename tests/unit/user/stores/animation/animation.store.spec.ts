@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useAnimationStore } from '@/features/projects/stores/animation.store';
+
+describe('useAnimationStore', () => {
+  beforeEach(() => {
+    useAnimationStore.getState().setClips([]);
+  });
+
+  it('addClip creates a looping autoplay clip and activates it', () => {
+    const clip = useAnimationStore.getState().addClip('Lift');
+    const s = useAnimationStore.getState();
+    expect(s.clips).toHaveLength(1);
+    expect(s.activeClipId).toBe(clip.id);
+    expect(clip.loop).toBe(true);
+    expect(clip.autoPlay).toBe(true);
+  });
+
+  it('setKeyframe creates one track per block/property and keeps keyframes sorted', () => {
+    const s = useAnimationStore.getState();
+    const clip = s.addClip();
+    s.setKeyframe(clip.id, 'b1', 'position', 2, { x: 0, y: 4, z: 0 });
+    s.setKeyframe(clip.id, 'b1', 'position', 0, { x: 0, y: 0, z: 0 });
+    s.setKeyframe(clip.id, 'b1', 'position', 2, { x: 0, y: 5, z: 0 }); // replaces same time
+    const tracks = useAnimationStore.getState().clips[0].tracks;
+    expect(tracks).toHaveLength(1);
+    expect(tracks[0].keyframes.map(k => k.time)).toEqual([0, 2]);
+    expect(tracks[0].keyframes[1].value).toEqual({ x: 0, y: 5, z: 0 });
+  });
+
+  it('recording past the end stretches the clip duration', () => {
+    const s = useAnimationStore.getState();
+    const clip = s.addClip();
+    s.setKeyframe(clip.id, 'b1', 'rotation', 7.5, { x: 0, y: 90, z: 0 });
+    expect(useAnimationStore.getState().clips[0].duration).toBe(7.5);
+  });
+
+  it('removing the last keyframe drops the track', () => {
+    const s = useAnimationStore.getState();
+    const clip = s.addClip();
+    s.setKeyframe(clip.id, 'b1', 'scale', 1, { x: 2, y: 2, z: 2 });
+    const track = useAnimationStore.getState().clips[0].tracks[0];
+    s.removeKeyframe(clip.id, track.id, 1);
+    expect(useAnimationStore.getState().clips[0].tracks).toEqual([]);
+  });
+
+  it('removeClip falls back to the next clip', () => {
+    const s = useAnimationStore.getState();
+    const a = s.addClip('A');
+    const b = s.addClip('B');
+    s.removeClip(b.id);
+    expect(useAnimationStore.getState().activeClipId).toBe(a.id);
+  });
+});
@@ -35,6 +35,21 @@ describe('useHistoryStore', () => {
     expect(api.canUndo()).toBe(false);
     expect(api.canRedo()).toBe(false);
   });
-});
 
+  it('replays terrain strokes from the same entry in both directions', () => {
+    const api = useHistoryStore.getState();
+    const delta = { channel: 'heights' as const, resolution: 2, ranges: [{ start: 1, before: [0], after: [2] }] };
+    api.pushToHistory([]);
+    api.pushTerrainToHistory(delta);
+
+    expect(api.undoStep([blk('a')])).toEqual({ terrain: delta, direction: 'undo' });
+    // The block-only shorthand leaves terrain steps to undoStep
+    expect(api.redo([blk('a')])).toBeNull();
+    expect(useHistoryStore.getState().historyPast).toEqual([[], { terrain: delta }]);
+    expect(api.undoStep([blk('a')])).toEqual({ terrain: delta, direction: 'undo' });
+    expect(api.undoStep([blk('a')])).toEqual({ blocks: [] });
+    expect(api.redoStep([])).toEqual({ blocks: [expect.objectContaining({ id: 'a' })] });
+    expect(api.redoStep([blk('a')])).toEqual({ terrain: delta, direction: 'redo' });
+  });
+});
 
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useLogicStore } from '@/features/projects/stores/logic.store';
+import { addAction, addTrigger, updateTrigger } from '@/features/logic/logicActions';
+import { useProjectStore } from '@/lib/projectStore';
+
+describe('useLogicStore', () => {
+  beforeEach(() => {
+    useLogicStore.getState().setTriggers([]);
+  });
+
+  it('addTrigger creates volume triggers and timers with defaults', () => {
+    const s = useLogicStore.getState();
+    const enter = s.addTrigger('enter', 'b1');
+    const timer = s.addTrigger('timer');
+    const collect = s.addTrigger('collect', 'coin');
+    expect(enter.blockId).toBe('b1');
+    expect(enter.volume).toBeTruthy();
+    expect(timer.volume).toBeUndefined();
+    expect(timer.interval).toBe(5);
+    expect(collect.once).toBe(true);
+    expect(useLogicStore.getState().triggers.length).toBe(3);
+  });
+
+  it('adds, updates and removes actions on a trigger', () => {
+    const s = useLogicStore.getState();
+    const t = s.addTrigger('enter', 'b1');
+    const a = s.addAction(t.id, 'move_block')!;
+    expect(a.offset).toEqual({ x: 0, y: 2, z: 0 });
+    s.updateAction(t.id, a.id, { delay: 1.5 });
+    expect(useLogicStore.getState().triggers[0].actions[0].delay).toBe(1.5);
+    s.removeAction(t.id, a.id);
+    expect(useLogicStore.getState().triggers[0].actions).toEqual([]);
+  });
+
+  it('addAction returns null for unknown trigger', () => {
+    expect(useLogicStore.getState().addAction('missing', 'end_round')).toBeNull();
+  });
+
+  it('setTriggers stores a copy and getTriggersForBlock filters by anchor', () => {
+    const source = [
+      { id: 't1', type: 'enter' as const, blockId: 'b1', actions: [{ id: 'a1', type: 'end_round' as const }] },
+      { id: 't2', type: 'timer' as const, interval: 2, actions: [] },
+    ];
+    useLogicStore.getState().setTriggers(source);
+    source[0].actions[0].type = 'play_effect' as 'end_round';
+    const s = useLogicStore.getState();
+    expect(s.triggers[0].actions[0].type).toBe('end_round');
+    expect(s.getTriggersForBlock('b1').map(t => t.id)).toEqual(['t1']);
+    s.removeTrigger('t1');
+    expect(useLogicStore.getState().triggers.map(t => t.id)).toEqual(['t2']);
+  });
+
+  it('marks the project unsaved on editor changes but not on load', () => {
+    useProjectStore.setState({ hasUnsavedChanges: false });
+    useLogicStore.getState().setTriggers([{ id: 't1', type: 'timer', interval: 2, actions: [] }]);
+    expect(useProjectStore.getState().hasUnsavedChanges).toBe(false);
+
+    expect(addAction('missing', 'end_round')).toBeNull();
+    expect(useProjectStore.getState().hasUnsavedChanges).toBe(false);
+
+    updateTrigger('t1', { interval: 3 });
+    expect(useProjectStore.getState().hasUnsavedChanges).toBe(true);
+
+    useProjectStore.setState({ hasUnsavedChanges: false });
+    addTrigger('enter', 'b1');
+    expect(useProjectStore.getState().hasUnsavedChanges).toBe(true);
+  });
+});
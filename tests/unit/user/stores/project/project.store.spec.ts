@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { useProjectStore } from '@/features/projects/stores/project.store';
+import { useProjectStore as useEditorProjectStore } from '@/lib/projectStore';
 import type { Block } from '@/types/project';
 
 function blk(id: string): Block {
@@ -34,6 +35,18 @@ describe('useProjectStore', () => {
     expect(s.savedProjects['Local A']).toBeTruthy();
   });
 
+  it('saved projects with mechanic blocks load again', () => {
+    const api = useProjectStore.getState();
+    api.setProjectName('Mechanics');
+    api.saveLocalProject([
+      { id: 'b', type: 'cube_bouncy', position: { x: 0, y: 0, z: 0 } },
+      { id: 'c', type: 'checkpoint', position: { x: 2, y: 0, z: 0 } },
+    ]);
+    useProjectStore.setState({ savedProjects: JSON.parse(localStorage.getItem('sandbox-projects') || '{}') });
+    expect(useProjectStore.getState().loadProject('Mechanics')).toBe(true);
+    expect(useProjectStore.getState().currentProject?.blocks.map(b => b.mechanic)).toEqual(['bouncy', 'checkpoint']);
+  });
+
   it('restoreAutoSaveIfPresent sets state and clears autosave', () => {
     const auto = {
       name: 'Auto X',
@@ -61,4 +74,19 @@ describe('useProjectStore', () => {
   });
 });
 
+describe('editor project store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
 
+  it('keeps an imported project\'s terrain and game mode when saving', () => {
+    const terrain = { heights: [0, 1, 2, 3], resolution: 2 };
+    useEditorProjectStore.getState().importProject({
+      name: 'Imported', blocks: [blk('a')], timestamp: 't', version: '1.3.0',
+      terrain, mode: 'RACE', modeConfig: JSON.stringify({ laps: 2 }),
+    });
+    const saved = useEditorProjectStore.getState().saveLocalProject();
+    expect(saved).toMatchObject({ terrain, mode: 'RACE', modeConfig: JSON.stringify({ laps: 2 }) });
+    expect(useEditorProjectStore.getState().savedProjects.Imported).toMatchObject({ mode: 'RACE' });
+  });
+});